@@ -59,6 +59,8 @@ export default defineConfig({
 			rollupOptions: {
 				input: {
 					index: resolve("src/main/index.ts"),
+					// Detached daemon that keeps terminal sessions alive across restarts
+					"terminal-host": resolve("src/main/terminal-host/index.ts"),
 				},
 				output: {
 					dir: resolve(devPath, "main"),
@@ -0,0 +1,34 @@
+import { getWorkspaceAgentTimeline } from "main/lib/agent-timeline";
+import { z } from "zod";
+import { publicProcedure, router } from "../..";
+
+const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export const createAgentTimelineRouter = () => {
+	return router({
+		/**
+		 * Per-pane agent run / permission-wait / idle segments for a workspace,
+		 * most blocked panes first. Defaults to the last 24 hours.
+		 */
+		getWorkspaceTimeline: publicProcedure
+			.input(
+				z.object({
+					workspaceId: z.string(),
+					windowMs: z.number().positive().optional(),
+				}),
+			)
+			.query(({ input }) => {
+				const now = Date.now();
+				const since = now - (input.windowMs ?? DEFAULT_WINDOW_MS);
+				return {
+					since,
+					now,
+					panes: getWorkspaceAgentTimeline({
+						workspaceId: input.workspaceId,
+						since,
+						now,
+					}),
+				};
+			}),
+	});
+};
@@ -0,0 +1 @@
+export { createAgentTimelineRouter } from "./agent-timeline";
@@ -0,0 +1,348 @@
+import { lstat, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { workspaces as workspacesTable, worktrees } from "@superset/local-db";
+import { and, eq, isNull } from "drizzle-orm";
+import { localDb } from "main/lib/local-db";
+import type {
+	ChangedFile,
+	ComparedFileVersions,
+	ComparedWorkspace,
+	WorkspaceComparison,
+} from "shared/changes-types";
+import { detectLanguage } from "shared/detect-language";
+import simpleGit from "simple-git";
+import { z } from "zod";
+import { publicProcedure, router } from "../..";
+import { getWorkspaceWithRelations } from "../workspaces/utils/db-helpers";
+import { getMergeBase } from "../workspaces/utils/git";
+import { safeGitShow } from "./file-contents";
+import {
+	assertRegisteredWorktree,
+	PathValidationError,
+	resolvePathInWorktree,
+	secureFs,
+} from "./security";
+import {
+	applyNumstatToFiles,
+	applyUntrackedLineCount,
+} from "./utils/apply-numstat";
+import { groupChangesByFile } from "./utils/compare";
+import { parseNameStatus } from "./utils/parse-status";
+
+/** Maximum working tree file size shown in the comparison (2 MiB) */
+const MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Creates the directories leading to a file copied into a worktree one level
+ * at a time, refusing to descend through symlinks so the copy cannot land
+ * outside the worktree.
+ */
+async function ensureParentDirectories(
+	worktreePath: string,
+	filePath: string,
+): Promise<void> {
+	resolvePathInWorktree(worktreePath, filePath);
+
+	let currentPath = worktreePath;
+	for (const segment of filePath.split("/").slice(0, -1)) {
+		currentPath = join(currentPath, segment);
+		try {
+			const stats = await lstat(currentPath);
+			if (stats.isSymbolicLink() || !stats.isDirectory()) {
+				throw new PathValidationError(
+					"Parent path is not a directory inside the worktree",
+					"SYMLINK_ESCAPE",
+				);
+			}
+		} catch (error) {
+			if (
+				error instanceof Error &&
+				"code" in error &&
+				error.code === "ENOENT"
+			) {
+				await mkdir(currentPath);
+				continue;
+			}
+			throw error;
+		}
+	}
+}
+
+/** Whether a file has uncommitted changes (staged, unstaged or untracked) */
+async function hasLocalChanges(
+	worktreePath: string,
+	filePath: string,
+): Promise<boolean> {
+	const output = await simpleGit(worktreePath).raw([
+		"status",
+		"--porcelain",
+		"--",
+		filePath,
+	]);
+	return output.trim().length > 0;
+}
+
+interface ResolvedComparison {
+	baseBranch: string;
+	workspaces: ComparedWorkspace[];
+}
+
+/**
+ * Looks up the worktrees behind the workspaces and checks they can be
+ * compared: worktree workspaces of one project forked from the same branch.
+ */
+function resolveComparedWorkspaces(workspaceIds: string[]): ResolvedComparison {
+	const workspaces: ComparedWorkspace[] = [];
+	let baseBranch: string | null = null;
+	let projectId: string | null = null;
+
+	for (const workspaceId of workspaceIds) {
+		const relations = getWorkspaceWithRelations(workspaceId);
+		if (!relations?.worktree) {
+			throw new Error(`Workspace ${workspaceId} has no worktree to compare`);
+		}
+
+		const { workspace, worktree } = relations;
+		const workspaceBase = worktree.baseBranch ?? "main";
+		if (baseBranch === null) {
+			baseBranch = workspaceBase;
+			projectId = workspace.projectId;
+		} else if (workspaceBase !== baseBranch) {
+			throw new Error(
+				`Cannot compare workspaces from different base branches (${baseBranch}, ${workspaceBase})`,
+			);
+		} else if (workspace.projectId !== projectId) {
+			throw new Error("Cannot compare workspaces from different projects");
+		}
+
+		assertRegisteredWorktree(worktree.path);
+		workspaces.push({
+			workspaceId,
+			name: workspace.name,
+			branch: worktree.branch,
+			worktreePath: worktree.path,
+		});
+	}
+
+	return { baseBranch: baseBranch ?? "main", workspaces };
+}
+
+/**
+ * Files changed in a worktree since its merge-base, including uncommitted
+ * and untracked files.
+ */
+async function getChangesSinceBase(
+	worktreePath: string,
+	baseBranch: string,
+): Promise<ChangedFile[]> {
+	const git = simpleGit(worktreePath);
+	const mergeBase = await getMergeBase(worktreePath, baseBranch);
+
+	const [nameStatus, untrackedOutput] = await Promise.all([
+		git.raw(["diff", "--name-status", mergeBase]),
+		git.raw(["ls-files", "--others", "--exclude-standard"]),
+	]);
+
+	const tracked = parseNameStatus(nameStatus);
+	const untracked: ChangedFile[] = untrackedOutput
+		.split("\n")
+		.filter(Boolean)
+		.map((path) => ({ path, status: "untracked", additions: 0, deletions: 0 }));
+
+	await Promise.all([
+		applyNumstatToFiles(git, tracked, ["diff", "--numstat", mergeBase]),
+		applyUntrackedLineCount(worktreePath, untracked),
+	]);
+
+	return [...tracked, ...untracked];
+}
+
+/** Working tree content of a file, or null when it doesn't exist */
+async function readWorkingFile(
+	worktreePath: string,
+	filePath: string,
+): Promise<string | null> {
+	try {
+		const stats = await secureFs.stat(worktreePath, filePath);
+		if (stats.size > MAX_FILE_SIZE) {
+			return `[File content truncated - exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit]`;
+		}
+		return await secureFs.readFile(worktreePath, filePath);
+	} catch {
+		return null;
+	}
+}
+
+export const createCompareRouter = () => {
+	return router({
+		/**
+		 * Per-file overview of what each workspace changed since the shared
+		 * base branch, for comparing competing attempts at the same task.
+		 */
+		getWorkspaceComparison: publicProcedure
+			.input(z.object({ workspaceIds: z.array(z.string()).min(2) }))
+			.query(async ({ input }): Promise<WorkspaceComparison> => {
+				const { baseBranch, workspaces } = resolveComparedWorkspaces(
+					input.workspaceIds,
+				);
+
+				const workspaceChanges = await Promise.all(
+					workspaces.map(async (workspace) => ({
+						workspaceId: workspace.workspaceId,
+						files: await getChangesSinceBase(
+							workspace.worktreePath,
+							baseBranch,
+						),
+					})),
+				);
+
+				return {
+					baseBranch,
+					workspaces,
+					files: groupChangesByFile(workspaceChanges),
+				};
+			}),
+
+		/**
+		 * Worktree workspaces of the same project forked from the same base
+		 * branch as the given workspace (including itself).
+		 */
+		getComparableWorkspaces: publicProcedure
+			.input(z.object({ workspaceId: z.string() }))
+			.query(({ input }) => {
+				const relations = getWorkspaceWithRelations(input.workspaceId);
+				if (!relations?.worktree) {
+					return [];
+				}
+
+				const baseBranch = relations.worktree.baseBranch ?? "main";
+				return localDb
+					.select({
+						id: workspacesTable.id,
+						name: workspacesTable.name,
+						branch: worktrees.branch,
+						baseBranch: worktrees.baseBranch,
+					})
+					.from(workspacesTable)
+					.innerJoin(worktrees, eq(workspacesTable.worktreeId, worktrees.id))
+					.where(
+						and(
+							eq(workspacesTable.projectId, relations.workspace.projectId),
+							isNull(workspacesTable.deletingAt),
+						),
+					)
+					.all()
+					.filter((row) => (row.baseBranch ?? "main") === baseBranch)
+					.map(({ id, name, branch }) => ({ id, name, branch }));
+			}),
+
+		/**
+		 * A file at the merge-base of the first workspace and in each
+		 * workspace's working tree.
+		 */
+		getComparedFileVersions: publicProcedure
+			.input(
+				z.object({
+					workspaceIds: z.array(z.string()).min(2),
+					filePath: z.string(),
+				}),
+			)
+			.query(async ({ input }): Promise<ComparedFileVersions> => {
+				const { baseBranch, workspaces } = resolveComparedWorkspaces(
+					input.workspaceIds,
+				);
+
+				const [first] = workspaces;
+				const mergeBase = await getMergeBase(first.worktreePath, baseBranch);
+				const [base, ...contents] = await Promise.all([
+					safeGitShow(
+						simpleGit(first.worktreePath),
+						`${mergeBase}:${input.filePath}`,
+					),
+					...workspaces.map((workspace) =>
+						readWorkingFile(workspace.worktreePath, input.filePath),
+					),
+				]);
+
+				return {
+					base,
+					language: detectLanguage(input.filePath),
+					versions: workspaces.map((workspace, index) => ({
+						workspaceId: workspace.workspaceId,
+						content: contents[index] ?? "",
+						exists: contents[index] !== null,
+					})),
+				};
+			}),
+
+		/**
+		 * Copies a file as it is in one workspace's working tree into another.
+		 * If the file is missing from the source it is deleted from the target.
+		 */
+		cherryPickFile: publicProcedure
+			.input(
+				z.object({
+					sourceWorkspaceId: z.string(),
+					targetWorkspaceId: z.string(),
+					filePath: z.string(),
+					/** Replace the target's copy even if it has uncommitted changes */
+					overwriteLocalChanges: z.boolean().default(false),
+				}),
+			)
+			.mutation(
+				async ({
+					input,
+				}): Promise<{ success: boolean; hasLocalChanges?: boolean }> => {
+					if (input.sourceWorkspaceId === input.targetWorkspaceId) {
+						throw new Error("Source and target workspace must differ");
+					}
+
+					const {
+						workspaces: [source, target],
+					} = resolveComparedWorkspaces([
+						input.sourceWorkspaceId,
+						input.targetWorkspaceId,
+					]);
+
+					let content: Buffer | null = null;
+					try {
+						content = await secureFs.readFileBuffer(
+							source.worktreePath,
+							input.filePath,
+						);
+					} catch (error) {
+						// Missing in source - mirror the deletion. Anything else must not
+						// fall through to deleting the target's copy.
+						const isMissing =
+							error instanceof Error &&
+							"code" in error &&
+							error.code === "ENOENT";
+						if (!isMissing) {
+							throw error;
+						}
+					}
+
+					// Leave uncommitted work in the target alone unless the user confirmed
+					if (
+						!input.overwriteLocalChanges &&
+						(await hasLocalChanges(target.worktreePath, input.filePath))
+					) {
+						return { success: false, hasLocalChanges: true };
+					}
+
+					if (content === null) {
+						await secureFs.delete(target.worktreePath, input.filePath);
+					} else {
+						await ensureParentDirectories(target.worktreePath, input.filePath);
+						await secureFs.writeFile(
+							target.worktreePath,
+							input.filePath,
+							content,
+						);
+					}
+
+					return { success: true };
+				},
+			),
+	});
+};
@@ -0,0 +1,138 @@
+import type {
+	ConflictVersions,
+	GitOperationKind,
+	GitOperationResult,
+} from "shared/changes-types";
+import { detectLanguage } from "shared/detect-language";
+import simpleGit from "simple-git";
+import { z } from "zod";
+import { publicProcedure, router } from "../..";
+import { safeGitShow } from "./file-contents";
+import {
+	assertRegisteredWorktree,
+	assertValidGitPath,
+	secureFs,
+} from "./security";
+import {
+	abortOperation,
+	continueOperation,
+	getGitOperationState,
+	skipOperation,
+} from "./utils/git-operation";
+
+/** What stages 2 and 3 hold for each operation; a rebase swaps the sides */
+const SIDE_LABELS: Record<GitOperationKind, { ours: string; theirs: string }> =
+	{
+		rebase: { ours: "Rebasing onto", theirs: "Your commit" },
+		merge: { ours: "Current branch", theirs: "Incoming branch" },
+		"cherry-pick": { ours: "Current branch", theirs: "Picked commit" },
+		revert: { ours: "Current branch", theirs: "Reverted commit" },
+	};
+
+export const createConflictsRouter = () => {
+	return router({
+		getConflictVersions: publicProcedure
+			.input(
+				z.object({
+					worktreePath: z.string(),
+					filePath: z.string(),
+				}),
+			)
+			.query(async ({ input }): Promise<ConflictVersions> => {
+				assertRegisteredWorktree(input.worktreePath);
+				assertValidGitPath(input.filePath);
+
+				const git = simpleGit(input.worktreePath);
+				const [operation, base, ours, theirs, result] = await Promise.all([
+					getGitOperationState(git),
+					safeGitShow(git, `:1:${input.filePath}`),
+					safeGitShow(git, `:2:${input.filePath}`),
+					safeGitShow(git, `:3:${input.filePath}`),
+					// Missing when the working tree side deleted the file
+					secureFs
+						.readFile(input.worktreePath, input.filePath)
+						.catch(() => ""),
+				]);
+				const labels = SIDE_LABELS[operation?.kind ?? "merge"];
+
+				return {
+					base,
+					ours,
+					theirs,
+					result,
+					oursLabel: labels.ours,
+					theirsLabel: labels.theirs,
+					language: detectLanguage(input.filePath),
+				};
+			}),
+
+		/**
+		 * Marks a conflicted file resolved, either with edited content or by
+		 * taking one side whole. A side that deleted the file deletes it.
+		 */
+		resolveConflict: publicProcedure
+			.input(
+				z.object({
+					worktreePath: z.string(),
+					filePath: z.string(),
+					resolution: z.discriminatedUnion("type", [
+						z.object({ type: z.literal("content"), content: z.string() }),
+						z.object({ type: z.literal("ours") }),
+						z.object({ type: z.literal("theirs") }),
+					]),
+				}),
+			)
+			.mutation(async ({ input }): Promise<{ success: boolean }> => {
+				assertRegisteredWorktree(input.worktreePath);
+				assertValidGitPath(input.filePath);
+
+				const git = simpleGit(input.worktreePath);
+				const { resolution } = input;
+
+				if (resolution.type === "content") {
+					await secureFs.writeFile(
+						input.worktreePath,
+						input.filePath,
+						resolution.content,
+					);
+					await git.add(["--", input.filePath]);
+					return { success: true };
+				}
+
+				const stage = resolution.type === "ours" ? 2 : 3;
+				const exists = await git
+					.raw(["cat-file", "-e", `:${stage}:${input.filePath}`])
+					.then(() => true)
+					.catch(() => false);
+				if (exists) {
+					await git.checkout([`--${resolution.type}`, "--", input.filePath]);
+					await git.add(["--", input.filePath]);
+				} else {
+					await git.rm(["--", input.filePath]);
+				}
+				return { success: true };
+			}),
+
+		continueOperation: publicProcedure
+			.input(z.object({ worktreePath: z.string() }))
+			.mutation(async ({ input }): Promise<GitOperationResult> => {
+				assertRegisteredWorktree(input.worktreePath);
+				return continueOperation(simpleGit(input.worktreePath));
+			}),
+
+		skipOperation: publicProcedure
+			.input(z.object({ worktreePath: z.string() }))
+			.mutation(async ({ input }): Promise<GitOperationResult> => {
+				assertRegisteredWorktree(input.worktreePath);
+				return skipOperation(simpleGit(input.worktreePath));
+			}),
+
+		abortOperation: publicProcedure
+			.input(z.object({ worktreePath: z.string() }))
+			.mutation(async ({ input }): Promise<{ success: boolean }> => {
+				assertRegisteredWorktree(input.worktreePath);
+				await abortOperation(simpleGit(input.worktreePath));
+				return { success: true };
+			}),
+	});
+};
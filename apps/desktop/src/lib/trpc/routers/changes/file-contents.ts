@@ -178,7 +178,7 @@ async function getFileVersions(
 }
 
 /** Helper to safely get git show content with size limit and memory protection */
-async function safeGitShow(
+export async function safeGitShow(
 	git: ReturnType<typeof simpleGit>,
 	spec: string,
 ): Promise<string> {
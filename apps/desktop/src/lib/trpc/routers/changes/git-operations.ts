@@ -1,9 +1,14 @@
-import { shell } from "electron";
+import type { GitOperationResult } from "shared/changes-types";
 import simpleGit from "simple-git";
 import { z } from "zod";
 import { publicProcedure, router } from "../..";
+import {
+	clearGitHubStatusCache,
+	createPullRequest,
+} from "../workspaces/utils/github";
 import { isUpstreamMissingError } from "./git-utils";
 import { assertRegisteredWorktree } from "./security";
+import { getGitOperationState } from "./utils/git-operation";
 
 export { isUpstreamMissingError };
 
@@ -45,6 +50,8 @@ export const createGitOperationsRouter = () => {
 				z.object({
 					worktreePath: z.string(),
 					setUpstream: z.boolean().optional(),
+					/** Needed after rewriting commits that were already pushed */
+					force: z.boolean().optional(),
 				}),
 			)
 			.mutation(async ({ input }): Promise<{ success: boolean }> => {
@@ -52,12 +59,18 @@ export const createGitOperationsRouter = () => {
 
 				const git = simpleGit(input.worktreePath);
 				const hasUpstream = await hasUpstreamBranch(git);
+				const forceArgs = input.force ? ["--force-with-lease"] : [];
 
 				if (input.setUpstream && !hasUpstream) {
 					const branch = await git.revparse(["--abbrev-ref", "HEAD"]);
-					await git.push(["--set-upstream", "origin", branch.trim()]);
+					await git.push([
+						...forceArgs,
+						"--set-upstream",
+						"origin",
+						branch.trim(),
+					]);
 				} else {
-					await git.push();
+					await git.push(forceArgs);
 				}
 				await git.fetch();
 				return { success: true };
@@ -69,7 +82,7 @@ export const createGitOperationsRouter = () => {
 					worktreePath: z.string(),
 				}),
 			)
-			.mutation(async ({ input }): Promise<{ success: boolean }> => {
+			.mutation(async ({ input }): Promise<GitOperationResult> => {
 				assertRegisteredWorktree(input.worktreePath);
 
 				const git = simpleGit(input.worktreePath);
@@ -83,6 +96,11 @@ export const createGitOperationsRouter = () => {
 							"No upstream branch to pull from. The remote branch may have been deleted.",
 						);
 					}
+					// Leave a conflicted rebase for the user to resolve
+					const operation = await getGitOperationState(git);
+					if (operation) {
+						return { success: false, operation };
+					}
 					throw error;
 				}
 				return { success: true };
@@ -94,7 +112,7 @@ export const createGitOperationsRouter = () => {
 					worktreePath: z.string(),
 				}),
 			)
-			.mutation(async ({ input }): Promise<{ success: boolean }> => {
+			.mutation(async ({ input }): Promise<GitOperationResult> => {
 				assertRegisteredWorktree(input.worktreePath);
 
 				const git = simpleGit(input.worktreePath);
@@ -109,6 +127,11 @@ export const createGitOperationsRouter = () => {
 						await git.fetch();
 						return { success: true };
 					}
+					// Don't push until the conflicted rebase is resolved
+					const operation = await getGitOperationState(git);
+					if (operation) {
+						return { success: false, operation };
+					}
 					throw error;
 				}
 				await git.push();
@@ -120,6 +143,11 @@ export const createGitOperationsRouter = () => {
 			.input(
 				z.object({
 					worktreePath: z.string(),
+					title: z.string().min(1),
+					body: z.string(),
+					base: z.string().min(1),
+					draft: z.boolean(),
+					reviewers: z.array(z.string()),
 				}),
 			)
 			.mutation(
@@ -138,20 +166,9 @@ export const createGitOperationsRouter = () => {
 						await git.push();
 					}
 
-					// Get the remote URL to construct the GitHub compare URL
-					const remoteUrl = (await git.remote(["get-url", "origin"])) || "";
-					const repoMatch = remoteUrl
-						.trim()
-						.match(/github\.com[:/](.+?)(?:\.git)?$/);
-
-					if (!repoMatch) {
-						throw new Error("Could not determine GitHub repository URL");
-					}
-
-					const repo = repoMatch[1].replace(/\.git$/, "");
-					const url = `https://github.com/${repo}/compare/${branch}?expand=1`;
-
-					await shell.openExternal(url);
+					const { worktreePath, ...options } = input;
+					const url = await createPullRequest(worktreePath, branch, options);
+					clearGitHubStatusCache(worktreePath);
 					await git.fetch();
 
 					return { success: true, url };
@@ -0,0 +1,154 @@
+import type {
+	BranchHistory,
+	HistoryCommit,
+	HistoryRewriteResult,
+} from "shared/changes-types";
+import simpleGit, { type SimpleGit } from "simple-git";
+import { z } from "zod";
+import { publicProcedure, router } from "../..";
+import { getMergeBase } from "../workspaces/utils/git";
+import { assertRegisteredWorktree } from "./security";
+import { parseGitLog } from "./utils/parse-status";
+import { getRebaseState, rewriteHistory } from "./utils/rebase";
+
+const historyOperationSchema = z.discriminatedUnion("type", [
+	z.object({ type: z.literal("squashAll"), message: z.string() }),
+	z.object({
+		type: z.literal("reword"),
+		hash: z.string(),
+		message: z.string(),
+	}),
+	z.object({ type: z.literal("drop"), hash: z.string() }),
+	z.object({ type: z.literal("fixup"), hash: z.string() }),
+	z.object({ type: z.literal("reorder"), order: z.array(z.string()) }),
+]);
+
+/** Full commit messages by hash, read NUL/RS-separated since bodies span lines */
+async function getFullMessages(
+	git: SimpleGit,
+	range: string,
+): Promise<Map<string, string>> {
+	const output = await git.raw(["log", range, "--format=%H%x00%B%x1e"]);
+	const messages = new Map<string, string>();
+	for (const record of output.split("\x1e")) {
+		const [hash, message] = record.split("\x00");
+		if (hash?.trim() && message !== undefined) {
+			messages.set(hash.trim(), message.trim());
+		}
+	}
+	return messages;
+}
+
+/** Commits not yet on the upstream branch; null when there is no upstream */
+async function getUnpushedHashes(git: SimpleGit): Promise<Set<string> | null> {
+	try {
+		const output = await git.raw(["rev-list", "@{upstream}..HEAD"]);
+		return new Set(output.split("\n").filter(Boolean));
+	} catch {
+		return null;
+	}
+}
+
+async function getBranchHistory(
+	worktreePath: string,
+	baseBranch: string,
+): Promise<BranchHistory> {
+	const git = simpleGit(worktreePath);
+	const mergeBase = await getMergeBase(worktreePath, baseBranch);
+	const rebase = await getRebaseState(git);
+
+	// No common ancestor with the base branch
+	if (mergeBase === "HEAD") {
+		return {
+			baseBranch,
+			baseCommit: null,
+			commits: [],
+			hasMerges: false,
+			rebase,
+		};
+	}
+
+	const range = `${mergeBase}..HEAD`;
+	const [logOutput, fullMessages, merges, unpushed] = await Promise.all([
+		git.raw(["log", range, "--format=%H|%h|%s|%an|%aI"]),
+		getFullMessages(git, range),
+		git.raw(["rev-list", "--merges", range]),
+		getUnpushedHashes(git),
+	]);
+
+	const commits: HistoryCommit[] = parseGitLog(logOutput).map((commit) => ({
+		...commit,
+		isPushed: unpushed !== null && !unpushed.has(commit.hash),
+		fullMessage: fullMessages.get(commit.hash) ?? commit.message,
+	}));
+
+	return {
+		baseBranch,
+		baseCommit: mergeBase,
+		commits,
+		hasMerges: merges.trim().length > 0,
+		rebase,
+	};
+}
+
+export const createHistoryRouter = () => {
+	return router({
+		getCommits: publicProcedure
+			.input(
+				z.object({
+					worktreePath: z.string(),
+					baseBranch: z.string(),
+				}),
+			)
+			.query(async ({ input }): Promise<BranchHistory> => {
+				assertRegisteredWorktree(input.worktreePath);
+				return getBranchHistory(input.worktreePath, input.baseBranch);
+			}),
+
+		/**
+		 * Squash, reword, drop, fix up or reorder the branch's commits since it
+		 * forked from baseBranch. Returns "stopped" when the rebase hits
+		 * conflicts; resolve them and call continueOperation, or abortOperation.
+		 */
+		rewriteHistory: publicProcedure
+			.input(
+				z.object({
+					worktreePath: z.string(),
+					baseBranch: z.string(),
+					operation: historyOperationSchema,
+				}),
+			)
+			.mutation(async ({ input }): Promise<HistoryRewriteResult> => {
+				assertRegisteredWorktree(input.worktreePath);
+
+				const history = await getBranchHistory(
+					input.worktreePath,
+					input.baseBranch,
+				);
+				if (!history.baseCommit) {
+					throw new Error(
+						`Branch has no common history with ${input.baseBranch}`,
+					);
+				}
+				if (history.hasMerges) {
+					throw new Error(
+						"Branches with merge commits can't be rewritten here",
+					);
+				}
+
+				const result = await rewriteHistory({
+					git: simpleGit(input.worktreePath),
+					baseCommit: history.baseCommit,
+					commits: history.commits.map((commit) => commit.hash).reverse(),
+					operation: input.operation,
+				});
+
+				return result.status === "done"
+					? {
+							status: "done",
+							needsForcePush: history.commits.some((c) => c.isPushed),
+						}
+					: result;
+			}),
+	});
+};
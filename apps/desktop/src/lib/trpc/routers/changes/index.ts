@@ -1,7 +1,11 @@
 import { router } from "../..";
 import { createBranchesRouter } from "./branches";
+import { createCompareRouter } from "./compare";
+import { createConflictsRouter } from "./conflicts";
 import { createFileContentsRouter } from "./file-contents";
 import { createGitOperationsRouter } from "./git-operations";
+import { createHistoryRouter } from "./history";
+import { createPullRequestsRouter } from "./pull-requests";
 import { createStagingRouter } from "./staging";
 import { createStatusRouter } from "./status";
 
@@ -11,6 +15,10 @@ export const createChangesRouter = () => {
 	const fileContentsRouter = createFileContentsRouter();
 	const stagingRouter = createStagingRouter();
 	const gitOperationsRouter = createGitOperationsRouter();
+	const compareRouter = createCompareRouter();
+	const historyRouter = createHistoryRouter();
+	const conflictsRouter = createConflictsRouter();
+	const pullRequestsRouter = createPullRequestsRouter();
 
 	return router({
 		// Branch operations
@@ -27,5 +35,17 @@ export const createChangesRouter = () => {
 
 		// Git operations (commit, push, pull, sync, createPR)
 		...gitOperationsRouter._def.procedures,
+
+		// Cross-workspace comparison (compare diffs, cherry-pick files)
+		...compareRouter._def.procedures,
+
+		// Branch history rewriting (squash, reword, drop, reorder, fixup)
+		...historyRouter._def.procedures,
+
+		// Conflict resolution (continue, skip or abort a stopped operation)
+		...conflictsRouter._def.procedures,
+
+		// Pull request review threads (list, reply, resolve)
+		...pullRequestsRouter._def.procedures,
 	});
 };
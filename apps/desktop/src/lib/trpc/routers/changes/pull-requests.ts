@@ -0,0 +1,57 @@
+import type { PullRequestReview } from "shared/changes-types";
+import { z } from "zod";
+import { publicProcedure, router } from "../..";
+import {
+	fetchPullRequestReview,
+	replyToReviewThread,
+	setReviewThreadResolved,
+} from "../workspaces/utils/github";
+import { assertRegisteredWorktree } from "./security";
+
+export const createPullRequestsRouter = () => {
+	return router({
+		/** The branch's pull request with its review threads, via `gh` */
+		getPullRequestReview: publicProcedure
+			.input(z.object({ worktreePath: z.string() }))
+			.query(async ({ input }): Promise<PullRequestReview | null> => {
+				assertRegisteredWorktree(input.worktreePath);
+				return fetchPullRequestReview(input.worktreePath);
+			}),
+
+		replyToReviewThread: publicProcedure
+			.input(
+				z.object({
+					worktreePath: z.string(),
+					threadId: z.string(),
+					body: z.string().min(1),
+				}),
+			)
+			.mutation(async ({ input }): Promise<{ success: boolean }> => {
+				assertRegisteredWorktree(input.worktreePath);
+				await replyToReviewThread(
+					input.worktreePath,
+					input.threadId,
+					input.body,
+				);
+				return { success: true };
+			}),
+
+		resolveReviewThread: publicProcedure
+			.input(
+				z.object({
+					worktreePath: z.string(),
+					threadId: z.string(),
+					resolved: z.boolean(),
+				}),
+			)
+			.mutation(async ({ input }): Promise<{ success: boolean }> => {
+				assertRegisteredWorktree(input.worktreePath);
+				await setReviewThreadResolved(
+					input.worktreePath,
+					input.threadId,
+					input.resolved,
+				);
+				return { success: true };
+			}),
+	});
+};
@@ -1,7 +1,10 @@
+import type { DiffHunk, HunkAction, HunkLineRange } from "shared/changes-types";
 import simpleGit from "simple-git";
+import { applyHunk, getFileHunks } from "../utils/hunks";
 import {
 	assertRegisteredWorktree,
 	assertValidGitPath,
+	resolvePathInWorktree,
 } from "./path-validation";
 
 /**
@@ -135,3 +138,39 @@ export async function gitUnstageAll(worktreePath: string): Promise<void> {
 	const git = simpleGit(worktreePath);
 	await git.reset(["HEAD"]);
 }
+
+/**
+ * List the hunks of a file's diff: unstaged for stage/discard, staged for
+ * unstage.
+ */
+export async function gitGetHunks(
+	worktreePath: string,
+	filePath: string,
+	action: HunkAction,
+): Promise<DiffHunk[]> {
+	assertRegisteredWorktree(worktreePath);
+	resolvePathInWorktree(worktreePath, filePath);
+
+	const git = simpleGit(worktreePath);
+	return getFileHunks(git, filePath, action);
+}
+
+/**
+ * Stage, unstage or discard one hunk of a file, or a range of its lines.
+ *
+ * Uses `git apply` with a patch cut from the file's current diff, so a hunk
+ * that changed since it was listed is rejected rather than misapplied.
+ * Discarding patches the working tree; git apply itself refuses to write
+ * through symlinks.
+ */
+export async function gitApplyHunk(
+	worktreePath: string,
+	filePath: string,
+	options: { hunkHeader: string; action: HunkAction; lines?: HunkLineRange },
+): Promise<void> {
+	assertRegisteredWorktree(worktreePath);
+	resolvePathInWorktree(worktreePath, filePath);
+
+	const git = simpleGit(worktreePath);
+	await applyHunk({ git, filePath, ...options });
+}
@@ -9,7 +9,9 @@
  */
 
 export {
+	gitApplyHunk,
 	gitCheckoutFile,
+	gitGetHunks,
 	gitStageAll,
 	gitStageFile,
 	gitSwitchBranch,
@@ -327,7 +327,7 @@ export const secureFs = {
 	async writeFile(
 		worktreePath: string,
 		filePath: string,
-		content: string,
+		content: string | Buffer,
 	): Promise<void> {
 		assertRegisteredWorktree(worktreePath);
 		const fullPath = resolvePathInWorktree(worktreePath, filePath);
@@ -1,7 +1,10 @@
+import type { DiffHunk } from "shared/changes-types";
 import { z } from "zod";
 import { publicProcedure, router } from "../..";
 import {
+	gitApplyHunk,
 	gitCheckoutFile,
+	gitGetHunks,
 	gitStageAll,
 	gitStageFile,
 	gitUnstageAll,
@@ -9,6 +12,17 @@ import {
 	secureFs,
 } from "./security";
 
+const hunkInput = z.object({
+	worktreePath: z.string(),
+	filePath: z.string(),
+	/** The hunk's "@@" header as returned by getHunks */
+	hunkHeader: z.string(),
+	/** Only these modified-side lines of the hunk; the whole hunk if omitted */
+	lines: z
+		.object({ start: z.number().int(), end: z.number().int() })
+		.optional(),
+});
+
 export const createStagingRouter = () => {
 	return router({
 		stageFile: publicProcedure
@@ -61,6 +75,55 @@ export const createStagingRouter = () => {
 				return { success: true };
 			}),
 
+		getHunks: publicProcedure
+			.input(
+				z.object({
+					worktreePath: z.string(),
+					filePath: z.string(),
+					staged: z.boolean(),
+				}),
+			)
+			.query(async ({ input }): Promise<DiffHunk[]> => {
+				return gitGetHunks(
+					input.worktreePath,
+					input.filePath,
+					input.staged ? "unstage" : "stage",
+				);
+			}),
+
+		stageHunk: publicProcedure
+			.input(hunkInput)
+			.mutation(async ({ input }): Promise<{ success: boolean }> => {
+				await gitApplyHunk(input.worktreePath, input.filePath, {
+					hunkHeader: input.hunkHeader,
+					action: "stage",
+					lines: input.lines,
+				});
+				return { success: true };
+			}),
+
+		unstageHunk: publicProcedure
+			.input(hunkInput)
+			.mutation(async ({ input }): Promise<{ success: boolean }> => {
+				await gitApplyHunk(input.worktreePath, input.filePath, {
+					hunkHeader: input.hunkHeader,
+					action: "unstage",
+					lines: input.lines,
+				});
+				return { success: true };
+			}),
+
+		discardHunk: publicProcedure
+			.input(hunkInput)
+			.mutation(async ({ input }): Promise<{ success: boolean }> => {
+				await gitApplyHunk(input.worktreePath, input.filePath, {
+					hunkHeader: input.hunkHeader,
+					action: "discard",
+					lines: input.lines,
+				});
+				return { success: true };
+			}),
+
 		deleteUntracked: publicProcedure
 			.input(
 				z.object({
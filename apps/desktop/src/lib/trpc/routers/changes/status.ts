@@ -2,8 +2,12 @@ import type { ChangedFile, GitChangesStatus } from "shared/changes-types";
 import simpleGit from "simple-git";
 import { z } from "zod";
 import { publicProcedure, router } from "../..";
-import { assertRegisteredWorktree, secureFs } from "./security";
-import { applyNumstatToFiles } from "./utils/apply-numstat";
+import { assertRegisteredWorktree } from "./security";
+import {
+	applyNumstatToFiles,
+	applyUntrackedLineCount,
+} from "./utils/apply-numstat";
+import { getGitOperationState } from "./utils/git-operation";
 import {
 	parseGitLog,
 	parseGitStatus,
@@ -30,17 +34,20 @@ export const createStatusRouter = () => {
 				const parsed = parseGitStatus(status);
 
 				// Run independent operations in parallel
-				const [branchComparison, trackingStatus] = await Promise.all([
-					getBranchComparison(git, defaultBranch),
-					getTrackingBranchStatus(git),
-					applyNumstatToFiles(git, parsed.staged, [
-						"diff",
-						"--cached",
-						"--numstat",
-					]),
-					applyNumstatToFiles(git, parsed.unstaged, ["diff", "--numstat"]),
-					applyUntrackedLineCount(input.worktreePath, parsed.untracked),
-				]);
+				const [branchComparison, trackingStatus, operation] = await Promise.all(
+					[
+						getBranchComparison(git, defaultBranch),
+						getTrackingBranchStatus(git),
+						getGitOperationState(git),
+						applyNumstatToFiles(git, parsed.staged, [
+							"diff",
+							"--cached",
+							"--numstat",
+						]),
+						applyNumstatToFiles(git, parsed.unstaged, ["diff", "--numstat"]),
+						applyUntrackedLineCount(input.worktreePath, parsed.untracked),
+					],
+				);
 
 				return {
 					branch: parsed.branch,
@@ -50,6 +57,8 @@ export const createStatusRouter = () => {
 					staged: parsed.staged,
 					unstaged: parsed.unstaged,
 					untracked: parsed.untracked,
+					conflicted: parsed.conflicted,
+					operation,
 					ahead: branchComparison.ahead,
 					behind: branchComparison.behind,
 					pushCount: trackingStatus.pushCount,
@@ -145,28 +154,6 @@ async function getBranchComparison(
 	return { commits, againstBase, ahead, behind };
 }
 
-/** Max file size for line counting (1 MiB) - skip larger files to avoid OOM */
-const MAX_LINE_COUNT_SIZE = 1 * 1024 * 1024;
-
-async function applyUntrackedLineCount(
-	worktreePath: string,
-	untracked: ChangedFile[],
-): Promise<void> {
-	for (const file of untracked) {
-		try {
-			const stats = await secureFs.stat(worktreePath, file.path);
-			if (stats.size > MAX_LINE_COUNT_SIZE) continue;
-
-			const content = await secureFs.readFile(worktreePath, file.path);
-			const lineCount = content.split("\n").length;
-			file.additions = lineCount;
-			file.deletions = 0;
-		} catch {
-			// Skip files that fail validation or reading
-		}
-	}
-}
-
 interface TrackingStatus {
 	pushCount: number;
 	pullCount: number;
@@ -1,5 +1,6 @@
 import type { ChangedFile } from "shared/changes-types";
 import type { SimpleGit } from "simple-git";
+import { secureFs } from "../security";
 import { parseDiffNumstat } from "./parse-status";
 
 export async function applyNumstatToFiles(
@@ -22,3 +23,25 @@ export async function applyNumstatToFiles(
 		}
 	} catch {}
 }
+
+/** Max file size for line counting (1 MiB) - skip larger files to avoid OOM */
+const MAX_LINE_COUNT_SIZE = 1 * 1024 * 1024;
+
+export async function applyUntrackedLineCount(
+	worktreePath: string,
+	untracked: ChangedFile[],
+): Promise<void> {
+	for (const file of untracked) {
+		try {
+			const stats = await secureFs.stat(worktreePath, file.path);
+			if (stats.size > MAX_LINE_COUNT_SIZE) continue;
+
+			const content = await secureFs.readFile(worktreePath, file.path);
+			const lineCount = content.split("\n").length;
+			file.additions = lineCount;
+			file.deletions = 0;
+		} catch {
+			// Skip files that fail validation or reading
+		}
+	}
+}
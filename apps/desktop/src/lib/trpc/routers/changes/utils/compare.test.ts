@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import type { ChangedFile } from "shared/changes-types";
+import { groupChangesByFile } from "./compare";
+
+function file(
+	path: string,
+	status: ChangedFile["status"] = "modified",
+): ChangedFile {
+	return { path, status, additions: 1, deletions: 0 };
+}
+
+describe("groupChangesByFile", () => {
+	test("lists the workspaces that touched each file", () => {
+		const files = groupChangesByFile([
+			{ workspaceId: "a", files: [file("src/app.ts"), file("README.md")] },
+			{
+				workspaceId: "b",
+				files: [file("src/app.ts"), file("src/new.ts", "untracked")],
+			},
+		]);
+
+		expect(files.map((f) => f.path)).toEqual([
+			"src/app.ts",
+			"README.md",
+			"src/new.ts",
+		]);
+		expect(files[0].changes.map((c) => c.workspaceId)).toEqual(["a", "b"]);
+		expect(files[2].changes).toEqual([
+			{ workspaceId: "b", status: "untracked", additions: 1, deletions: 0 },
+		]);
+	});
+
+	test("returns nothing when no workspace has changes", () => {
+		expect(
+			groupChangesByFile([
+				{ workspaceId: "a", files: [] },
+				{ workspaceId: "b", files: [] },
+			]),
+		).toEqual([]);
+	});
+});
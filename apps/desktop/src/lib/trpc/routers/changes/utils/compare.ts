@@ -0,0 +1,33 @@
+import type { ChangedFile, ComparedFile } from "shared/changes-types";
+
+/**
+ * Groups each workspace's changed files by path so every file lists the
+ * workspaces that touched it. Files touched by more workspaces come first,
+ * since those are where the results actually differ.
+ */
+export function groupChangesByFile(
+	workspaceChanges: { workspaceId: string; files: ChangedFile[] }[],
+): ComparedFile[] {
+	const byPath = new Map<string, ComparedFile>();
+
+	for (const { workspaceId, files } of workspaceChanges) {
+		for (const file of files) {
+			let entry = byPath.get(file.path);
+			if (!entry) {
+				entry = { path: file.path, changes: [] };
+				byPath.set(file.path, entry);
+			}
+			entry.changes.push({
+				workspaceId,
+				status: file.status,
+				additions: file.additions,
+				deletions: file.deletions,
+			});
+		}
+	}
+
+	return Array.from(byPath.values()).sort(
+		(a, b) =>
+			b.changes.length - a.changes.length || a.path.localeCompare(b.path),
+	);
+}
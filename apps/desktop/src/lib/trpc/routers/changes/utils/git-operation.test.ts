@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { execSync } from "node:child_process";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import simpleGit from "simple-git";
+import {
+	abortOperation,
+	continueOperation,
+	getGitOperationState,
+	skipOperation,
+} from "./git-operation";
+import { parseGitStatus } from "./parse-status";
+
+const TEST_DIR = join(__dirname, ".test-git-operation-tmp");
+
+function runGit(repoPath: string, command: string): string {
+	return execSync(`git ${command}`, {
+		cwd: repoPath,
+		encoding: "utf-8",
+		stdio: ["ignore", "pipe", "ignore"],
+	});
+}
+
+function commitFile(repoPath: string, file: string, content: string): string {
+	writeFileSync(join(repoPath, file), content);
+	runGit(repoPath, `add ${file}`);
+	runGit(repoPath, `commit -q -m "Set ${file} to ${content.trim()}"`);
+	return runGit(repoPath, "rev-parse HEAD").trim();
+}
+
+/** main and feature both change shared.txt from the same base */
+function createDivergedRepo(): string {
+	const repoPath = join(TEST_DIR, "repo");
+	mkdirSync(repoPath, { recursive: true });
+	runGit(repoPath, "init -q -b main");
+	runGit(repoPath, "config user.email 'test@test.com'");
+	runGit(repoPath, "config user.name 'Test'");
+	commitFile(repoPath, "shared.txt", "base\n");
+	runGit(repoPath, "checkout -q -b feature");
+	commitFile(repoPath, "shared.txt", "feature\n");
+	runGit(repoPath, "checkout -q main");
+	commitFile(repoPath, "shared.txt", "main\n");
+	return repoPath;
+}
+
+function tryGit(repoPath: string, command: string): void {
+	try {
+		runGit(repoPath, command);
+	} catch {
+		// Expected to stop on conflicts
+	}
+}
+
+describe("git operations", () => {
+	beforeEach(() => {
+		mkdirSync(TEST_DIR, { recursive: true });
+	});
+
+	afterEach(() => {
+		rmSync(TEST_DIR, { recursive: true, force: true });
+	});
+
+	test("reports no operation in a clean worktree", async () => {
+		const repoPath = createDivergedRepo();
+		expect(await getGitOperationState(simpleGit(repoPath))).toBeNull();
+	});
+
+	test("detects a conflicted merge and lists it as conflicted status", async () => {
+		const repoPath = createDivergedRepo();
+		const git = simpleGit(repoPath);
+		tryGit(repoPath, "merge feature");
+
+		expect(await getGitOperationState(git)).toEqual({
+			kind: "merge",
+			conflictedFiles: ["shared.txt"],
+		});
+
+		const parsed = parseGitStatus(await git.status());
+		expect(parsed.conflicted.map((file) => file.path)).toEqual(["shared.txt"]);
+		expect(parsed.staged).toEqual([]);
+		expect(parsed.unstaged).toEqual([]);
+	});
+
+	test("refuses to continue until conflicts are staged, then finishes", async () => {
+		const repoPath = createDivergedRepo();
+		const git = simpleGit(repoPath);
+		tryGit(repoPath, "merge feature");
+
+		await expect(continueOperation(git)).rejects.toThrow("shared.txt");
+
+		writeFileSync(join(repoPath, "shared.txt"), "both\n");
+		runGit(repoPath, "add shared.txt");
+
+		expect(await continueOperation(git)).toEqual({ success: true });
+		expect(await getGitOperationState(git)).toBeNull();
+		expect(runGit(repoPath, "rev-list --merges HEAD").trim()).not.toBe("");
+	});
+
+	test("does not skip a merge", async () => {
+		const repoPath = createDivergedRepo();
+		tryGit(repoPath, "merge feature");
+
+		await expect(skipOperation(simpleGit(repoPath))).rejects.toThrow(
+			"can't be skipped",
+		);
+	});
+
+	test("skips a conflicting cherry-pick", async () => {
+		const repoPath = createDivergedRepo();
+		const git = simpleGit(repoPath);
+		tryGit(repoPath, "cherry-pick feature");
+
+		expect((await getGitOperationState(git))?.kind).toBe("cherry-pick");
+
+		expect(await skipOperation(git)).toEqual({ success: true });
+		expect(readFileSync(join(repoPath, "shared.txt"), "utf-8")).toBe("main\n");
+	});
+
+	test("aborts a conflicted rebase back to the original branch", async () => {
+		const repoPath = createDivergedRepo();
+		const git = simpleGit(repoPath);
+		runGit(repoPath, "checkout -q feature");
+		const head = runGit(repoPath, "rev-parse HEAD").trim();
+		tryGit(repoPath, "rebase main");
+
+		expect((await getGitOperationState(git))?.kind).toBe("rebase");
+
+		await abortOperation(git);
+
+		expect(await getGitOperationState(git)).toBeNull();
+		expect(runGit(repoPath, "rev-parse HEAD").trim()).toBe(head);
+	});
+});
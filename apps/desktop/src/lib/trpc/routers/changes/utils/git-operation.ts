@@ -0,0 +1,141 @@
+import { existsSync, rmSync } from "node:fs";
+import path from "node:path";
+import type {
+	GitOperationKind,
+	GitOperationResult,
+	GitOperationState,
+} from "shared/changes-types";
+import type { SimpleGit } from "simple-git";
+
+/** Message used by reword/squash steps, kept in the git dir until the rebase ends */
+export const REBASE_MESSAGE_FILE = "SUPERSET_REBASE_MSG";
+
+/** Absolute path of a file in the worktree's git dir */
+export async function getGitPath(
+	git: SimpleGit,
+	name: string,
+): Promise<string> {
+	const [gitPath, topLevel] = await Promise.all([
+		git.raw(["rev-parse", "--git-path", name]),
+		git.raw(["rev-parse", "--show-toplevel"]),
+	]);
+	return path.resolve(topLevel.trim(), gitPath.trim());
+}
+
+/** Paths with unmerged index entries */
+export async function getConflictedFiles(git: SimpleGit): Promise<string[]> {
+	const output = await git.raw(["diff", "--name-only", "--diff-filter=U"]);
+	return output.split("\n").filter(Boolean);
+}
+
+/** Marker files git leaves in the git dir while each operation is underway */
+const OPERATION_MARKERS: [GitOperationKind, string][] = [
+	["rebase", "rebase-merge"],
+	["rebase", "rebase-apply"],
+	["merge", "MERGE_HEAD"],
+	["cherry-pick", "CHERRY_PICK_HEAD"],
+	["revert", "REVERT_HEAD"],
+];
+
+/** The operation a worktree is stopped in, or null */
+export async function getGitOperationState(
+	git: SimpleGit,
+): Promise<GitOperationState | null> {
+	const markers = await Promise.all(
+		OPERATION_MARKERS.map(([, name]) => getGitPath(git, name)),
+	);
+	const index = markers.findIndex((marker) => existsSync(marker));
+	const marker = OPERATION_MARKERS[index];
+	if (!marker) {
+		return null;
+	}
+	return { kind: marker[0], conflictedFiles: await getConflictedFiles(git) };
+}
+
+/** Environment that keeps git from opening an editor for commit messages */
+export function nonInteractiveEnv(
+	extra: Record<string, string> = {},
+): Record<string, string> {
+	const env: Record<string, string> = {};
+	for (const [key, value] of Object.entries(process.env)) {
+		if (value !== undefined) env[key] = value;
+	}
+	return { ...env, GIT_EDITOR: "true", ...extra };
+}
+
+/**
+ * Runs a command that may stop on conflicts. A stopped operation is reported
+ * with its state, any other failure is rethrown.
+ */
+export async function settleOperation(
+	git: SimpleGit,
+	run: () => Promise<unknown>,
+): Promise<GitOperationResult> {
+	try {
+		await run();
+	} catch (error) {
+		const operation = await getGitOperationState(git);
+		if (operation) {
+			return { success: false, operation };
+		}
+		await clearRebaseMessage(git);
+		throw error;
+	}
+
+	// A rebase can stop without a conflict, e.g. on a failing exec step
+	const operation = await getGitOperationState(git);
+	if (operation) {
+		return { success: false, operation };
+	}
+	await clearRebaseMessage(git);
+	return { success: true };
+}
+
+async function clearRebaseMessage(git: SimpleGit): Promise<void> {
+	rmSync(await getGitPath(git, REBASE_MESSAGE_FILE), { force: true });
+}
+
+async function requireOperation(git: SimpleGit): Promise<GitOperationState> {
+	const operation = await getGitOperationState(git);
+	if (!operation) {
+		throw new Error("No rebase, merge, cherry-pick or revert is in progress");
+	}
+	return operation;
+}
+
+/** Continue once every conflict is resolved and staged */
+export async function continueOperation(
+	git: SimpleGit,
+): Promise<GitOperationResult> {
+	const operation = await requireOperation(git);
+	if (operation.conflictedFiles.length > 0) {
+		throw new Error(
+			`Resolve conflicts in ${operation.conflictedFiles.join(", ")} first`,
+		);
+	}
+	return settleOperation(git, () =>
+		git.env(nonInteractiveEnv()).raw([operation.kind, "--continue"]),
+	);
+}
+
+/** Skip the commit the operation stopped on; merges have nothing to skip */
+export async function skipOperation(
+	git: SimpleGit,
+): Promise<GitOperationResult> {
+	const operation = await requireOperation(git);
+	if (operation.kind === "merge") {
+		throw new Error("A merge can't be skipped, only aborted");
+	}
+	return settleOperation(git, () =>
+		git.env(nonInteractiveEnv()).raw([operation.kind, "--skip"]),
+	);
+}
+
+/** Abort the operation, restoring the branch as it was before */
+export async function abortOperation(git: SimpleGit): Promise<void> {
+	const operation = await getGitOperationState(git);
+	if (operation) {
+		await git.raw([operation.kind, "--abort"]);
+	}
+	await clearRebaseMessage(git);
+}
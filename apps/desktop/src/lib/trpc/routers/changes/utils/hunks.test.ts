@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { execSync } from "node:child_process";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import simpleGit from "simple-git";
+import {
+	applyHunk,
+	buildHunkPatch,
+	getFileHunks,
+	parseFileDiff,
+} from "./hunks";
+
+const TEST_DIR = join(__dirname, ".test-hunks-tmp");
+
+const DIFF = `diff --git a/f.txt b/f.txt
+index 1111111..2222222 100644
+--- a/f.txt
++++ b/f.txt
+@@ -1,4 +1,5 @@
+ one
+-two
++TWO
++two and a half
+ three
+ four
+@@ -10,2 +11,2 @@ context
+ ten
+-eleven
++ELEVEN
+\\ No newline at end of file
+`;
+
+describe("parseFileDiff", () => {
+	test("splits the file header from its hunks", () => {
+		const diff = parseFileDiff(DIFF);
+
+		expect(diff.header).toHaveLength(4);
+		expect(diff.hunks.map((h) => h.header)).toEqual([
+			"@@ -1,4 +1,5 @@",
+			"@@ -10,2 +11,2 @@ context",
+		]);
+		expect(diff.hunks[1]).toMatchObject({
+			index: 1,
+			oldStart: 10,
+			oldLines: 2,
+			newStart: 11,
+			newLines: 2,
+		});
+		expect(diff.hunks[1].lines).toEqual([
+			" ten",
+			"-eleven",
+			"+ELEVEN",
+			"\\ No newline at end of file",
+		]);
+	});
+});
+
+describe("buildHunkPatch", () => {
+	const diff = parseFileDiff(DIFF);
+
+	test("keeps a whole hunk as is", () => {
+		expect(
+			buildHunkPatch(diff, "@@ -10,2 +11,2 @@ context", { reverse: false }),
+		).toBe(
+			`${diff.header.join("\n")}\n@@ -10,2 +11,2 @@\n ten\n-eleven\n+ELEVEN\n\\ No newline at end of file\n`,
+		);
+	});
+
+	test("forward: drops unselected additions and keeps unselected removals", () => {
+		const patch = buildHunkPatch(diff, "@@ -1,4 +1,5 @@", {
+			reverse: false,
+			lines: { start: 3, end: 3 },
+		});
+
+		expect(patch.split("\n").slice(4)).toEqual([
+			"@@ -1,4 +1,5 @@",
+			" one",
+			" two",
+			"+two and a half",
+			" three",
+			" four",
+			"",
+		]);
+	});
+
+	test("reverse: keeps unselected additions and drops unselected removals", () => {
+		const patch = buildHunkPatch(diff, "@@ -1,4 +1,5 @@", {
+			reverse: true,
+			lines: { start: 3, end: 3 },
+		});
+
+		expect(patch.split("\n").slice(4)).toEqual([
+			"@@ -1,4 +1,5 @@",
+			" one",
+			" TWO",
+			"+two and a half",
+			" three",
+			" four",
+			"",
+		]);
+	});
+
+	test("rejects stale hunks and empty selections", () => {
+		expect(() =>
+			buildHunkPatch(diff, "@@ -1,4 +1,6 @@", { reverse: false }),
+		).toThrow("diff has changed");
+		expect(() =>
+			buildHunkPatch(diff, "@@ -1,4 +1,5 @@", {
+				reverse: false,
+				lines: { start: 5, end: 5 },
+			}),
+		).toThrow("No changes");
+	});
+});
+
+describe("applyHunk", () => {
+	const original = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10", "11"];
+
+	function runGit(repoPath: string, command: string): string {
+		return execSync(`git ${command}`, { cwd: repoPath, encoding: "utf-8" });
+	}
+
+	/** A committed file with edits near the top and the bottom */
+	function createRepo(): string {
+		const repoPath = join(TEST_DIR, "repo");
+		mkdirSync(repoPath, { recursive: true });
+		runGit(repoPath, "init -q");
+		runGit(repoPath, "config user.email 'test@test.com'");
+		runGit(repoPath, "config user.name 'Test'");
+		writeFileSync(join(repoPath, "f.txt"), `${original.join("\n")}\n`);
+		runGit(repoPath, "add f.txt");
+		runGit(repoPath, "commit -q -m base");
+
+		const edited = [...original];
+		edited[0] = "ONE";
+		edited.splice(1, 0, "one and a half");
+		edited[edited.length - 1] = "ELEVEN";
+		writeFileSync(join(repoPath, "f.txt"), `${edited.join("\n")}\n`);
+		return repoPath;
+	}
+
+	beforeEach(() => {
+		mkdirSync(TEST_DIR, { recursive: true });
+	});
+
+	afterEach(() => {
+		rmSync(TEST_DIR, { recursive: true, force: true });
+	});
+
+	test("stages one hunk and unstages it again", async () => {
+		const repoPath = createRepo();
+		const git = simpleGit(repoPath);
+		const hunks = await getFileHunks(git, "f.txt", "stage");
+		expect(hunks).toHaveLength(2);
+
+		await applyHunk({
+			git,
+			filePath: "f.txt",
+			hunkHeader: hunks[1].header,
+			action: "stage",
+		});
+
+		expect(runGit(repoPath, "diff --cached --numstat")).toBe("1\t1\tf.txt\n");
+
+		const [staged] = await getFileHunks(git, "f.txt", "unstage");
+		await applyHunk({
+			git,
+			filePath: "f.txt",
+			hunkHeader: staged.header,
+			action: "unstage",
+		});
+
+		expect(runGit(repoPath, "diff --cached")).toBe("");
+		expect(runGit(repoPath, "diff --numstat")).toBe("3\t2\tf.txt\n");
+	});
+
+	test("stages a single added line", async () => {
+		const repoPath = createRepo();
+		const git = simpleGit(repoPath);
+		const [first] = await getFileHunks(git, "f.txt", "stage");
+
+		await applyHunk({
+			git,
+			filePath: "f.txt",
+			hunkHeader: first.header,
+			action: "stage",
+			lines: { start: 2, end: 2 },
+		});
+
+		expect(runGit(repoPath, "show :f.txt").split("\n").slice(0, 3)).toEqual([
+			"1",
+			"one and a half",
+			"2",
+		]);
+	});
+
+	test("discards a hunk from the working tree", async () => {
+		const repoPath = createRepo();
+		const git = simpleGit(repoPath);
+		const [first] = await getFileHunks(git, "f.txt", "discard");
+
+		await applyHunk({
+			git,
+			filePath: "f.txt",
+			hunkHeader: first.header,
+			action: "discard",
+		});
+
+		const content = readFileSync(join(repoPath, "f.txt"), "utf-8");
+		expect(content).toBe(
+			`${[...original.slice(0, 10), "ELEVEN"].join("\n")}\n`,
+		);
+	});
+});
@@ -0,0 +1,174 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { DiffHunk, HunkAction, HunkLineRange } from "shared/changes-types";
+import type { SimpleGit } from "simple-git";
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+interface ParsedHunk extends DiffHunk {
+	/** Body lines, each starting with " ", "+", "-" or "\" */
+	lines: string[];
+}
+
+/** One file's unified diff split into its header and hunks */
+export interface ParsedFileDiff {
+	/** "diff --git", "index", "---" and "+++" lines */
+	header: string[];
+	hunks: ParsedHunk[];
+}
+
+export function parseFileDiff(diff: string): ParsedFileDiff {
+	const header: string[] = [];
+	const hunks: ParsedHunk[] = [];
+	const lines = diff.split("\n");
+	// Drop the empty string after the final newline
+	if (lines[lines.length - 1] === "") lines.pop();
+
+	for (const line of lines) {
+		const match = HUNK_HEADER.exec(line);
+		if (match) {
+			hunks.push({
+				index: hunks.length,
+				header: line,
+				oldStart: Number(match[1]),
+				oldLines: match[2] === undefined ? 1 : Number(match[2]),
+				newStart: Number(match[3]),
+				newLines: match[4] === undefined ? 1 : Number(match[4]),
+				lines: [],
+			});
+			continue;
+		}
+		const hunk = hunks[hunks.length - 1];
+		if (hunk) {
+			hunk.lines.push(line);
+		} else {
+			header.push(line);
+		}
+	}
+
+	return { header, hunks };
+}
+
+/**
+ * Lines of a hunk picked by new-file line numbers. Removed lines have no new
+ * line number, so they count as sitting at the line that follows them.
+ */
+function selectLines(hunk: ParsedHunk, range: HunkLineRange): boolean[] {
+	let newLine = hunk.newStart;
+	return hunk.lines.map((line) => {
+		const selected = newLine >= range.start && newLine <= range.end;
+		if (line.startsWith(" ") || line.startsWith("+")) newLine++;
+		return selected;
+	});
+}
+
+/**
+ * Builds a patch holding one hunk, or some of its changed lines. Unselected
+ * changes are rewritten so the patch still applies: when applying forward
+ * they don't exist yet, when applying in reverse they already do.
+ */
+export function buildHunkPatch(
+	diff: ParsedFileDiff,
+	hunkHeader: string,
+	options: { reverse: boolean; lines?: HunkLineRange },
+): string {
+	const hunk = diff.hunks.find((h) => h.header === hunkHeader);
+	if (!hunk) {
+		throw new Error("The diff has changed; refresh and try again");
+	}
+
+	const selected = options.lines
+		? selectLines(hunk, options.lines)
+		: hunk.lines.map(() => true);
+	// Lines that exist on the side the patch is applied to
+	const keptAsContext = options.reverse ? "+" : "-";
+
+	const body: string[] = [];
+	let hasChanges = false;
+	let droppedPrevious = false;
+	hunk.lines.forEach((line, i) => {
+		const marker = line[0];
+		if (marker === "\\") {
+			// "No newline at end of file" belongs to the line before it
+			if (!droppedPrevious) body.push(line);
+			return;
+		}
+		droppedPrevious = false;
+		if (marker === " " || selected[i]) {
+			hasChanges ||= marker !== " ";
+			body.push(line);
+		} else if (marker === keptAsContext) {
+			body.push(` ${line.slice(1)}`);
+		} else {
+			droppedPrevious = true;
+		}
+	});
+
+	if (!hasChanges) {
+		throw new Error("No changes in the selected lines");
+	}
+
+	const oldLines = body.filter((l) => l[0] === " " || l[0] === "-").length;
+	const newLines = body.filter((l) => l[0] === " " || l[0] === "+").length;
+	const header = `@@ -${hunk.oldStart},${oldLines} +${hunk.newStart},${newLines} @@`;
+
+	return `${[...diff.header, header, ...body].join("\n")}\n`;
+}
+
+/** Diff that a hunk action reads its hunks from */
+function diffArgs(action: HunkAction, filePath: string): string[] {
+	const cached = action === "unstage" ? ["--cached"] : [];
+	return [
+		"diff",
+		...cached,
+		"--no-color",
+		"--no-ext-diff",
+		"-U3",
+		"--",
+		filePath,
+	];
+}
+
+/** Hunks of a file's unstaged (stage/discard) or staged (unstage) diff */
+export async function getFileHunks(
+	git: SimpleGit,
+	filePath: string,
+	action: HunkAction,
+): Promise<DiffHunk[]> {
+	const diff = parseFileDiff(await git.raw(diffArgs(action, filePath)));
+	return diff.hunks.map(({ lines: _lines, ...hunk }) => hunk);
+}
+
+/**
+ * Stages, unstages or discards one hunk (or lines of it) with `git apply`,
+ * using a patch cut from the file's current diff.
+ */
+export async function applyHunk(params: {
+	git: SimpleGit;
+	filePath: string;
+	hunkHeader: string;
+	action: HunkAction;
+	lines?: HunkLineRange;
+}): Promise<void> {
+	const { git, filePath, hunkHeader, action, lines } = params;
+	const diff = parseFileDiff(await git.raw(diffArgs(action, filePath)));
+	const reverse = action !== "stage";
+	const patch = buildHunkPatch(diff, hunkHeader, { reverse, lines });
+
+	const applyArgs = [
+		...(action === "discard" ? [] : ["--cached"]),
+		...(reverse ? ["--reverse"] : []),
+		"--recount",
+		"--whitespace=nowarn",
+	];
+
+	const tempDir = mkdtempSync(path.join(os.tmpdir(), "superset-hunk-"));
+	const patchFile = path.join(tempDir, "hunk.patch");
+	writeFileSync(patchFile, patch);
+	try {
+		await git.applyPatch(patchFile, applyArgs);
+	} finally {
+		rmSync(tempDir, { recursive: true, force: true });
+	}
+}
@@ -28,12 +28,19 @@ function toChangedFile(
 	};
 }
 
+/** Unmerged XY codes from `git status --porcelain` */
+const CONFLICT_CODES = new Set(["DD", "AU", "UD", "UA", "DU", "AA", "UU"]);
+
 export function parseGitStatus(
 	status: StatusResult,
-): Pick<GitChangesStatus, "branch" | "staged" | "unstaged" | "untracked"> {
+): Pick<
+	GitChangesStatus,
+	"branch" | "staged" | "unstaged" | "untracked" | "conflicted"
+> {
 	const staged: ChangedFile[] = [];
 	const unstaged: ChangedFile[] = [];
 	const untracked: ChangedFile[] = [];
+	const conflicted: ChangedFile[] = [];
 
 	for (const file of status.files) {
 		const path = file.path;
@@ -45,6 +52,17 @@ export function parseGitStatus(
 			continue;
 		}
 
+		// Unmerged paths are neither staged nor unstaged until resolved
+		if (CONFLICT_CODES.has(`${index}${working}`)) {
+			conflicted.push({
+				path,
+				status: index === "D" || working === "D" ? "deleted" : "modified",
+				additions: 0,
+				deletions: 0,
+			});
+			continue;
+		}
+
 		if (index && index !== " " && index !== "?") {
 			staged.push({
 				path,
@@ -70,6 +88,7 @@ export function parseGitStatus(
 		staged,
 		unstaged,
 		untracked,
+		conflicted,
 	};
 }
 
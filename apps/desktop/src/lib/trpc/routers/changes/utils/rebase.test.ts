@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { execSync } from "node:child_process";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import simpleGit from "simple-git";
+import { abortOperation, continueOperation } from "./git-operation";
+import { buildRebaseTodo, getRebaseState, rewriteHistory } from "./rebase";
+
+const TEST_DIR = join(__dirname, ".test-rebase-tmp");
+
+function runGit(repoPath: string, command: string): string {
+	return execSync(`git ${command}`, { cwd: repoPath, encoding: "utf-8" });
+}
+
+function commitFile(repoPath: string, file: string, content: string): string {
+	writeFileSync(join(repoPath, file), content);
+	runGit(repoPath, `add ${file}`);
+	runGit(repoPath, `commit -q -m "Edit ${file}: ${content.trim()}"`);
+	return runGit(repoPath, "rev-parse HEAD").trim();
+}
+
+/** A repo with a base commit followed by three branch commits */
+function createRepo(): { repoPath: string; base: string; commits: string[] } {
+	const repoPath = join(TEST_DIR, "repo");
+	mkdirSync(repoPath, { recursive: true });
+	runGit(repoPath, "init -q");
+	runGit(repoPath, "config user.email 'test@test.com'");
+	runGit(repoPath, "config user.name 'Test'");
+	const base = commitFile(repoPath, "base.txt", "base\n");
+	const commits = [
+		commitFile(repoPath, "a.txt", "one\n"),
+		commitFile(repoPath, "b.txt", "two\n"),
+		commitFile(repoPath, "a.txt", "three\n"),
+	];
+	return { repoPath, base, commits };
+}
+
+function subjects(repoPath: string, base: string): string[] {
+	return runGit(repoPath, `log --reverse --format=%s ${base}..HEAD`)
+		.trim()
+		.split("\n")
+		.filter(Boolean);
+}
+
+describe("buildRebaseTodo", () => {
+	const commits = ["aaa", "bbb", "ccc"];
+
+	test("squashes everything into the first commit and rewords it", () => {
+		expect(
+			buildRebaseTodo(commits, { type: "squashAll", message: "x" }, "/tmp/m"),
+		).toBe(
+			"pick aaa\nfixup bbb\nfixup ccc\nexec git commit --amend --only --allow-empty -F '/tmp/m'\n",
+		);
+	});
+
+	test("amends right after the reworded commit", () => {
+		expect(
+			buildRebaseTodo(
+				commits,
+				{ type: "reword", hash: "bbb", message: "x" },
+				"/tmp/it's",
+			),
+		).toBe(
+			"pick aaa\npick bbb\nexec git commit --amend --only --allow-empty -F '/tmp/it'\\''s'\npick ccc\n",
+		);
+	});
+
+	test("drops and fixes up single commits", () => {
+		expect(buildRebaseTodo(commits, { type: "drop", hash: "aaa" }, "m")).toBe(
+			"drop aaa\npick bbb\npick ccc\n",
+		);
+		expect(buildRebaseTodo(commits, { type: "fixup", hash: "ccc" }, "m")).toBe(
+			"pick aaa\npick bbb\nfixup ccc\n",
+		);
+	});
+
+	test("rejects operations that don't fit the branch", () => {
+		expect(() =>
+			buildRebaseTodo(commits, { type: "fixup", hash: "aaa" }, "m"),
+		).toThrow("no earlier commit");
+		expect(() =>
+			buildRebaseTodo(commits, { type: "drop", hash: "zzz" }, "m"),
+		).toThrow("not on this branch");
+		expect(() =>
+			buildRebaseTodo(
+				commits,
+				{ type: "reorder", order: ["aaa", "aaa", "bbb"] },
+				"m",
+			),
+		).toThrow("every commit once");
+		expect(() =>
+			buildRebaseTodo([], { type: "squashAll", message: "x" }, "m"),
+		).toThrow("no commits");
+	});
+});
+
+describe("rewriteHistory", () => {
+	beforeEach(() => {
+		mkdirSync(TEST_DIR, { recursive: true });
+	});
+
+	afterEach(() => {
+		rmSync(TEST_DIR, { recursive: true, force: true });
+	});
+
+	test("squashes all commits into one with a new message", async () => {
+		const { repoPath, base, commits } = createRepo();
+
+		const result = await rewriteHistory({
+			git: simpleGit(repoPath),
+			baseCommit: base,
+			commits,
+			operation: { type: "squashAll", message: "Add a and b\n\nDetails" },
+		});
+
+		expect(result).toEqual({ status: "done", needsForcePush: false });
+		expect(subjects(repoPath, base)).toEqual(["Add a and b"]);
+		expect(runGit(repoPath, "log -1 --format=%B").trim()).toBe(
+			"Add a and b\n\nDetails",
+		);
+		expect(readFileSync(join(repoPath, "a.txt"), "utf-8")).toBe("three\n");
+	});
+
+	test("rewords a commit in the middle and keeps uncommitted changes", async () => {
+		const { repoPath, base, commits } = createRepo();
+		writeFileSync(join(repoPath, "b.txt"), "dirty\n");
+
+		await rewriteHistory({
+			git: simpleGit(repoPath),
+			baseCommit: base,
+			commits,
+			operation: { type: "reword", hash: commits[1], message: "Better" },
+		});
+
+		expect(subjects(repoPath, base)).toEqual([
+			"Edit a.txt: one",
+			"Better",
+			"Edit a.txt: three",
+		]);
+		expect(readFileSync(join(repoPath, "b.txt"), "utf-8")).toBe("dirty\n");
+	});
+
+	test("stops on conflicts, then aborts back to the original branch", async () => {
+		const { repoPath, base, commits } = createRepo();
+		const git = simpleGit(repoPath);
+
+		// Dropping "one" conflicts with "three", which edits the same line
+		const result = await rewriteHistory({
+			git,
+			baseCommit: base,
+			commits,
+			operation: { type: "drop", hash: commits[0] },
+		});
+
+		expect(result.status).toBe("stopped");
+		expect(result.status === "stopped" && result.conflictedFiles).toEqual([
+			"a.txt",
+		]);
+		expect(await getRebaseState(git)).toEqual({ conflictedFiles: ["a.txt"] });
+
+		await abortOperation(git);
+
+		expect(await getRebaseState(git)).toBeNull();
+		expect(runGit(repoPath, "rev-parse HEAD").trim()).toBe(commits[2]);
+	});
+
+	test("continues once conflicts are resolved", async () => {
+		const { repoPath, base, commits } = createRepo();
+		const git = simpleGit(repoPath);
+
+		await rewriteHistory({
+			git,
+			baseCommit: base,
+			commits,
+			operation: { type: "drop", hash: commits[0] },
+		});
+		writeFileSync(join(repoPath, "a.txt"), "three\n");
+		runGit(repoPath, "add a.txt");
+
+		const result = await continueOperation(git);
+
+		expect(result).toEqual({ success: true });
+		expect(subjects(repoPath, base)).toEqual([
+			"Edit b.txt: two",
+			"Edit a.txt: three",
+		]);
+	});
+});
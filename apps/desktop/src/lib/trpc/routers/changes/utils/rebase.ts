@@ -0,0 +1,158 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type {
+	HistoryOperation,
+	HistoryRewriteResult,
+	RebaseState,
+} from "shared/changes-types";
+import { shellQuote } from "shared/utils/shell-quote";
+import type { SimpleGit } from "simple-git";
+import {
+	getGitOperationState,
+	getGitPath,
+	nonInteractiveEnv,
+	REBASE_MESSAGE_FILE,
+	settleOperation,
+} from "./git-operation";
+
+/**
+ * Builds a rebase todo list for an operation on a branch's commits (oldest
+ * first). Messages are applied by an exec step that amends the commit from
+ * messageFile, so no editor is needed.
+ */
+export function buildRebaseTodo(
+	commits: string[],
+	operation: HistoryOperation,
+	messageFile: string,
+): string {
+	if (commits.length === 0) {
+		throw new Error("There are no commits to rewrite");
+	}
+
+	const amend = `exec git commit --amend --only --allow-empty -F ${shellQuote(messageFile)}`;
+	const indexOf = (hash: string) => {
+		const index = commits.indexOf(hash);
+		if (index === -1) {
+			throw new Error(`Commit ${hash.slice(0, 7)} is not on this branch`);
+		}
+		return index;
+	};
+
+	let lines: string[];
+	switch (operation.type) {
+		case "squashAll":
+			lines = [
+				...commits.map((hash, i) => `${i === 0 ? "pick" : "fixup"} ${hash}`),
+				amend,
+			];
+			break;
+		case "reword": {
+			const index = indexOf(operation.hash);
+			lines = commits.flatMap((hash, i) =>
+				i === index ? [`pick ${hash}`, amend] : [`pick ${hash}`],
+			);
+			break;
+		}
+		case "drop": {
+			const index = indexOf(operation.hash);
+			lines = commits.map(
+				(hash, i) => `${i === index ? "drop" : "pick"} ${hash}`,
+			);
+			break;
+		}
+		case "fixup": {
+			const index = indexOf(operation.hash);
+			if (index === 0) {
+				throw new Error("The first commit has no earlier commit to fix up");
+			}
+			lines = commits.map(
+				(hash, i) => `${i === index ? "fixup" : "pick"} ${hash}`,
+			);
+			break;
+		}
+		case "reorder": {
+			const order = operation.order;
+			if (
+				order.length !== commits.length ||
+				new Set(order).size !== order.length
+			) {
+				throw new Error("The new order must list every commit once");
+			}
+			for (const hash of order) indexOf(hash);
+			lines = order.map((hash) => `pick ${hash}`);
+			break;
+		}
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+/** The in-progress rebase in a worktree, or null */
+export async function getRebaseState(
+	git: SimpleGit,
+): Promise<RebaseState | null> {
+	const operation = await getGitOperationState(git);
+	return operation?.kind === "rebase"
+		? { conflictedFiles: operation.conflictedFiles }
+		: null;
+}
+
+/**
+ * Rewrites the commits after baseCommit with an interactive rebase.
+ * Uncommitted changes are stashed for the duration and restored afterwards.
+ */
+export async function rewriteHistory(params: {
+	git: SimpleGit;
+	baseCommit: string;
+	/** Branch commits, oldest first */
+	commits: string[];
+	operation: HistoryOperation;
+}): Promise<HistoryRewriteResult> {
+	const { git, baseCommit, commits, operation } = params;
+
+	const inProgress = await getGitOperationState(git);
+	if (inProgress) {
+		throw new Error(`A ${inProgress.kind} is already in progress`);
+	}
+
+	const messageFile = await getGitPath(git, REBASE_MESSAGE_FILE);
+	const todo = buildRebaseTodo(commits, operation, messageFile);
+	if ("message" in operation) {
+		if (!operation.message.trim()) {
+			throw new Error("Commit message cannot be empty");
+		}
+		writeFileSync(messageFile, operation.message);
+	}
+
+	const tempDir = mkdtempSync(path.join(os.tmpdir(), "superset-rebase-"));
+	const todoFile = path.join(tempDir, "git-rebase-todo");
+	writeFileSync(todoFile, todo);
+
+	try {
+		// Never open an editor: the todo list is supplied and messages come from a file
+		const result = await settleOperation(git, () =>
+			git
+				.env(
+					nonInteractiveEnv({
+						GIT_SEQUENCE_EDITOR: `cp ${shellQuote(todoFile)}`,
+					}),
+				)
+				.raw([
+					"rebase",
+					"--interactive",
+					"--autostash",
+					"--no-autosquash",
+					baseCommit,
+				]),
+		);
+		return result.success
+			? { status: "done", needsForcePush: false }
+			: {
+					status: "stopped",
+					conflictedFiles: result.operation.conflictedFiles,
+				};
+	} finally {
+		rmSync(tempDir, { recursive: true, force: true });
+	}
+}
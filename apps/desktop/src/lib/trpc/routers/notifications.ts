@@ -1,10 +1,16 @@
 import { observable } from "@trpc/server/observable";
+import { agentActivityStore } from "main/lib/notifications/agent-events";
 import {
 	type AgentLifecycleEvent,
 	type NotificationIds,
 	notificationsEmitter,
 } from "main/lib/notifications/server";
 import { NOTIFICATION_EVENTS } from "shared/constants";
+import type {
+	PaneAgentActivity,
+	TerminalTriggerEvent,
+} from "shared/notification-types";
+import { z } from "zod";
 import { publicProcedure, router } from "..";
 
 type NotificationEvent =
@@ -12,7 +18,16 @@ type NotificationEvent =
 			type: typeof NOTIFICATION_EVENTS.AGENT_LIFECYCLE;
 			data?: AgentLifecycleEvent;
 	  }
-	| { type: typeof NOTIFICATION_EVENTS.FOCUS_TAB; data?: NotificationIds };
+	| { type: typeof NOTIFICATION_EVENTS.FOCUS_TAB; data?: NotificationIds }
+	| {
+			type: typeof NOTIFICATION_EVENTS.TERMINAL_TRIGGER;
+			data?: TerminalTriggerEvent;
+	  };
+
+type AgentActivityUpdate = {
+	paneId: string;
+	activity: PaneAgentActivity | null;
+};
 
 export const createNotificationsRouter = () => {
 	return router({
@@ -26,11 +41,19 @@ export const createNotificationsRouter = () => {
 					emit.next({ type: NOTIFICATION_EVENTS.FOCUS_TAB, data });
 				};
 
+				const onTerminalTrigger = (data: TerminalTriggerEvent) => {
+					emit.next({ type: NOTIFICATION_EVENTS.TERMINAL_TRIGGER, data });
+				};
+
 				notificationsEmitter.on(
 					NOTIFICATION_EVENTS.AGENT_LIFECYCLE,
 					onLifecycle,
 				);
 				notificationsEmitter.on(NOTIFICATION_EVENTS.FOCUS_TAB, onFocusTab);
+				notificationsEmitter.on(
+					NOTIFICATION_EVENTS.TERMINAL_TRIGGER,
+					onTerminalTrigger,
+				);
 
 				return () => {
 					notificationsEmitter.off(
@@ -38,8 +61,46 @@ export const createNotificationsRouter = () => {
 						onLifecycle,
 					);
 					notificationsEmitter.off(NOTIFICATION_EVENTS.FOCUS_TAB, onFocusTab);
+					notificationsEmitter.off(
+						NOTIFICATION_EVENTS.TERMINAL_TRIGGER,
+						onTerminalTrigger,
+					);
 				};
 			});
 		}),
+
+		/**
+		 * Per-pane agent activity (tool calls, notifications, token usage).
+		 * Replays the current state on subscribe, then streams changes.
+		 * Pass a paneId to only receive updates for that pane.
+		 */
+		agentActivity: publicProcedure
+			.input(z.object({ paneId: z.string().optional() }).optional())
+			.subscription(({ input }) => {
+				const paneId = input?.paneId;
+
+				return observable<AgentActivityUpdate>((emit) => {
+					const initial = paneId
+						? [agentActivityStore.get(paneId)]
+						: agentActivityStore.getAll();
+					for (const activity of initial) {
+						if (activity) emit.next({ paneId: activity.paneId, activity });
+					}
+
+					const onChange = (
+						changedPaneId: string,
+						activity: PaneAgentActivity | null,
+					) => {
+						if (paneId && changedPaneId !== paneId) return;
+						emit.next({ paneId: changedPaneId, activity });
+					};
+
+					agentActivityStore.on("change", onChange);
+
+					return () => {
+						agentActivityStore.off("change", onChange);
+					};
+				});
+			}),
 	});
 };
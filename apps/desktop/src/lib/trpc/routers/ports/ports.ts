@@ -2,13 +2,15 @@ import { workspaces } from "@superset/local-db";
 import { observable } from "@trpc/server/observable";
 import { eq } from "drizzle-orm";
 import { localDb } from "main/lib/local-db";
+import { reverseProxyServer } from "main/lib/reverse-proxy";
 import {
 	hasStaticPortsConfig,
 	loadStaticPorts,
 	staticPortsWatcher,
 } from "main/lib/static-ports";
 import { portManager } from "main/lib/terminal/port-manager";
-import type { DetectedPort, StaticPort } from "shared/types";
+import { PORTS } from "shared/constants";
+import type { DetectedPort, ProxyRoute, StaticPort } from "shared/types";
 import { z } from "zod";
 import { publicProcedure, router } from "../..";
 import { getWorkspacePath } from "../workspaces/utils/worktree";
@@ -43,6 +45,28 @@ export const createPortsRouter = () => {
 			});
 		}),
 
+		getProxyRoutes: publicProcedure.query(
+			(): { enabled: boolean; port: number; routes: ProxyRoute[] } => ({
+				enabled: reverseProxyServer.isRunning,
+				port: PORTS.REVERSE_PROXY,
+				routes: reverseProxyServer.getRoutes(),
+			}),
+		),
+
+		subscribeProxyRoutes: publicProcedure.subscription(() => {
+			return observable<ProxyRoute[]>((emit) => {
+				const onRoutes = (routes: ProxyRoute[]) => {
+					emit.next(routes);
+				};
+
+				reverseProxyServer.on("routes", onRoutes);
+
+				return () => {
+					reverseProxyServer.off("routes", onRoutes);
+				};
+			});
+		}),
+
 		hasStaticConfig: publicProcedure
 			.input(z.object({ workspaceId: z.string() }))
 			.query(({ input }): { hasStatic: boolean } => {
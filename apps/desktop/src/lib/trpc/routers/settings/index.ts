@@ -2,11 +2,21 @@ import {
 	settings,
 	TERMINAL_LINK_BEHAVIORS,
 	type TerminalPreset,
+	terminalTriggerSchema,
+	workspaceTemplateSchema,
 } from "@superset/local-db";
 import { localDb } from "main/lib/local-db";
+import { reverseProxyServer } from "main/lib/reverse-proxy";
 import {
+	agentActivityMonitor,
+	terminalTriggerManager,
+} from "main/lib/terminal";
+import {
+	DEFAULT_AGENT_IDLE_TIMEOUT_MINUTES,
 	DEFAULT_CONFIRM_ON_QUIT,
+	DEFAULT_REVERSE_PROXY_ENABLED,
 	DEFAULT_TERMINAL_LINK_BEHAVIOR,
+	DEFAULT_TERMINAL_RECORDING_ENABLED,
 } from "shared/constants";
 import { DEFAULT_RINGTONE_ID, RINGTONES } from "shared/ringtones";
 import { z } from "zod";
@@ -237,5 +247,145 @@ export const createSettingsRouter = () => {
 
 				return { success: true };
 			}),
+
+		getWorkspaceTemplates: publicProcedure.query(() => {
+			const row = getSettings();
+			return row.workspaceTemplates ?? [];
+		}),
+
+		/**
+		 * Replaces the user's workspace templates (edited as a whole list).
+		 * Project templates in .superset/config.json take precedence by name.
+		 */
+		setWorkspaceTemplates: publicProcedure
+			.input(
+				z.object({
+					templates: z
+						.array(workspaceTemplateSchema)
+						.refine(
+							(templates) =>
+								new Set(templates.map((t) => t.name)).size === templates.length,
+							"Template names must be unique",
+						),
+				}),
+			)
+			.mutation(({ input }) => {
+				localDb
+					.insert(settings)
+					.values({ id: 1, workspaceTemplates: input.templates })
+					.onConflictDoUpdate({
+						target: settings.id,
+						set: { workspaceTemplates: input.templates },
+					})
+					.run();
+
+				return { success: true };
+			}),
+
+		getTerminalTriggers: publicProcedure.query(() => {
+			const row = getSettings();
+			return row.terminalTriggers ?? [];
+		}),
+
+		/**
+		 * Replaces the user's terminal triggers (edited as a whole list) and
+		 * applies them to open terminals. Project triggers in
+		 * .superset/config.json take precedence by name.
+		 */
+		setTerminalTriggers: publicProcedure
+			.input(
+				z.object({
+					triggers: z
+						.array(terminalTriggerSchema)
+						.refine(
+							(triggers) =>
+								new Set(triggers.map((t) => t.name)).size === triggers.length,
+							"Trigger names must be unique",
+						),
+				}),
+			)
+			.mutation(({ input }) => {
+				localDb
+					.insert(settings)
+					.values({ id: 1, terminalTriggers: input.triggers })
+					.onConflictDoUpdate({
+						target: settings.id,
+						set: { terminalTriggers: input.triggers },
+					})
+					.run();
+
+				terminalTriggerManager.reload();
+
+				return { success: true };
+			}),
+
+		getTerminalRecording: publicProcedure.query(() => {
+			const row = getSettings();
+			return row.terminalRecordingEnabled ?? DEFAULT_TERMINAL_RECORDING_ENABLED;
+		}),
+
+		setTerminalRecording: publicProcedure
+			.input(z.object({ enabled: z.boolean() }))
+			.mutation(({ input }) => {
+				localDb
+					.insert(settings)
+					.values({ id: 1, terminalRecordingEnabled: input.enabled })
+					.onConflictDoUpdate({
+						target: settings.id,
+						set: { terminalRecordingEnabled: input.enabled },
+					})
+					.run();
+
+				return { success: true };
+			}),
+
+		getReverseProxy: publicProcedure.query(() => {
+			const row = getSettings();
+			return row.reverseProxyEnabled ?? DEFAULT_REVERSE_PROXY_ENABLED;
+		}),
+
+		setReverseProxy: publicProcedure
+			.input(z.object({ enabled: z.boolean() }))
+			.mutation(async ({ input }) => {
+				// Start before saving so a taken port doesn't leave it "enabled"
+				if (input.enabled) {
+					await reverseProxyServer.start();
+				} else {
+					reverseProxyServer.stop();
+				}
+
+				localDb
+					.insert(settings)
+					.values({ id: 1, reverseProxyEnabled: input.enabled })
+					.onConflictDoUpdate({
+						target: settings.id,
+						set: { reverseProxyEnabled: input.enabled },
+					})
+					.run();
+
+				return { success: true };
+			}),
+
+		getAgentIdleTimeout: publicProcedure.query(() => {
+			const row = getSettings();
+			return row.agentIdleTimeoutMinutes ?? DEFAULT_AGENT_IDLE_TIMEOUT_MINUTES;
+		}),
+
+		setAgentIdleTimeout: publicProcedure
+			.input(z.object({ minutes: z.number().int().min(0) }))
+			.mutation(({ input }) => {
+				localDb
+					.insert(settings)
+					.values({ id: 1, agentIdleTimeoutMinutes: input.minutes })
+					.onConflictDoUpdate({
+						target: settings.id,
+						set: { agentIdleTimeoutMinutes: input.minutes },
+					})
+					.run();
+
+				agentActivityMonitor.setIdleTimeout(input.minutes);
+
+				return { success: true };
+			}),
 	});
 };
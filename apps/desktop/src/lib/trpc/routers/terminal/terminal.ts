@@ -1,10 +1,18 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import { projects, workspaces, worktrees } from "@superset/local-db";
+import { projects, settings, workspaces, worktrees } from "@superset/local-db";
 import { observable } from "@trpc/server/observable";
 import { eq } from "drizzle-orm";
 import { localDb } from "main/lib/local-db";
-import { terminalManager } from "main/lib/terminal";
+import { agentActivityStore } from "main/lib/notifications/agent-events";
+import { getWorkspacePortEnv } from "main/lib/port-allocation";
+import {
+	getRecording,
+	listRecordings,
+	terminalManager,
+} from "main/lib/terminal";
+import { terminalShareServer } from "main/lib/terminal-share";
+import { DEFAULT_TERMINAL_RECORDING_ENABLED } from "shared/constants";
 import { z } from "zod";
 import { publicProcedure, router } from "../..";
 import { assertWorkspaceUsable } from "../workspaces/utils/usability";
@@ -78,6 +86,15 @@ export const createTerminalRouter = () => {
 							.get()
 					: undefined;
 
+				// Reserved ports keep parallel workspaces' dev servers apart
+				const portEnv = workspace
+					? getWorkspacePortEnv(workspaceId, workspacePath)
+					: undefined;
+
+				const record =
+					localDb.select().from(settings).get()?.terminalRecordingEnabled ??
+					DEFAULT_TERMINAL_RECORDING_ENABLED;
+
 				const result = await terminalManager.createOrAttach({
 					paneId,
 					tabId,
@@ -85,10 +102,12 @@ export const createTerminalRouter = () => {
 					workspaceName: workspace?.name,
 					workspacePath,
 					rootPath: project?.mainRepoPath,
+					portEnv,
 					cwd,
 					cols,
 					rows,
 					initialCommands,
+					record,
 				});
 
 				return {
@@ -143,6 +162,7 @@ export const createTerminalRouter = () => {
 			)
 			.mutation(async ({ input }) => {
 				await terminalManager.kill(input);
+				agentActivityStore.clear(input.paneId);
 			}),
 
 		/**
@@ -173,6 +193,110 @@ export const createTerminalRouter = () => {
 				await terminalManager.clearScrollback(input);
 			}),
 
+		/**
+		 * List asciicast recordings for a workspace (newest first)
+		 */
+		listRecordings: publicProcedure
+			.input(z.object({ workspaceId: z.string() }))
+			.query(async ({ input }) => {
+				return listRecordings(input.workspaceId);
+			}),
+
+		/**
+		 * Load a recording's header and events for replay
+		 */
+		getRecording: publicProcedure
+			.input(z.object({ workspaceId: z.string(), recordingId: z.string() }))
+			.query(async ({ input }) => {
+				const recording = await getRecording(input);
+				if (!recording) {
+					throw new Error("Recording not found");
+				}
+				return recording;
+			}),
+
+		/**
+		 * Last lines of a terminal's screen as plain text (attention inbox preview)
+		 */
+		getRecentLines: publicProcedure
+			.input(
+				z.object({
+					paneId: z.string(),
+					lineCount: z.number().int().min(1).max(200).default(20),
+				}),
+			)
+			.query(({ input }) => {
+				return terminalManager.getRecentLines(input);
+			}),
+
+		/**
+		 * Start streaming a pane to a browser page at a tokenized URL.
+		 * Sharing the same pane again updates its existing share's options.
+		 */
+		sharePane: publicProcedure
+			.input(
+				z.object({
+					paneId: z.string(),
+					workspaceId: z.string(),
+					allowWrite: z.boolean().optional(),
+					/** Reachable from other machines instead of only this one */
+					lanAccess: z.boolean().optional(),
+				}),
+			)
+			.mutation(async ({ input }) => {
+				return terminalShareServer.share(input);
+			}),
+
+		listShares: publicProcedure
+			.input(z.object({ workspaceId: z.string() }).optional())
+			.query(({ input }) => {
+				return terminalShareServer.list(input);
+			}),
+
+		setShareWritable: publicProcedure
+			.input(z.object({ shareId: z.string(), allowWrite: z.boolean() }))
+			.mutation(({ input }) => {
+				const share = terminalShareServer.setAllowWrite(
+					input.shareId,
+					input.allowWrite,
+				);
+				if (!share) {
+					throw new Error("Share not found");
+				}
+				return share;
+			}),
+
+		revokeShare: publicProcedure
+			.input(z.object({ shareId: z.string() }))
+			.mutation(async ({ input }) => {
+				terminalShareServer.revoke(input.shareId);
+			}),
+
+		/**
+		 * Commands run in a pane's shell, from shell integration markers
+		 */
+		getCommandHistory: publicProcedure
+			.input(z.object({ paneId: z.string() }))
+			.query(({ input }) => {
+				return terminalManager.getCommandHistory(input.paneId);
+			}),
+
+		/**
+		 * Search the output of every terminal in a workspace, including panes
+		 * that aren't mounted in the renderer
+		 */
+		searchWorkspace: publicProcedure
+			.input(
+				z.object({
+					workspaceId: z.string(),
+					query: z.string().min(1).max(200),
+					caseSensitive: z.boolean().default(false),
+				}),
+			)
+			.query(({ input }) => {
+				return terminalManager.searchWorkspace(input);
+			}),
+
 		getSession: publicProcedure
 			.input(z.string())
 			.query(async ({ input: paneId }) => {
@@ -27,13 +27,52 @@ const fileViewerStateSchema = z.object({
 	oldPath: z.string().optional(),
 });
 
+/**
+ * Zod schema for ReplayState persistence
+ */
+const replayStateSchema = z.object({
+	workspaceId: z.string(),
+	recordingId: z.string(),
+});
+
+/**
+ * Zod schema for WebviewState persistence
+ */
+const webviewStateSchema = z.object({
+	port: z.union([z.number(), z.literal("detected")]).optional(),
+});
+
+/**
+ * Zod schema for PullRequestState persistence
+ */
+const pullRequestStateSchema = z.object({
+	workspaceId: z.string(),
+	threadId: z.string().optional(),
+});
+
+/**
+ * Zod schema for CheckLogsState persistence
+ */
+const checkLogsStateSchema = z.object({
+	workspaceId: z.string(),
+	autoSend: z.boolean().optional(),
+	lastAutoSentFailure: z.string().optional(),
+});
+
 /**
  * Zod schema for Pane
  */
 const paneSchema = z.object({
 	id: z.string(),
 	tabId: z.string(),
-	type: z.enum(["terminal", "webview", "file-viewer"]),
+	type: z.enum([
+		"terminal",
+		"webview",
+		"file-viewer",
+		"replay",
+		"pull-request",
+		"check-logs",
+	]),
 	name: z.string(),
 	isNew: z.boolean().optional(),
 	status: z.enum(["idle", "working", "permission", "review"]).optional(),
@@ -43,6 +82,10 @@ const paneSchema = z.object({
 	cwd: z.string().nullable().optional(),
 	cwdConfirmed: z.boolean().optional(),
 	fileViewer: fileViewerStateSchema.optional(),
+	replay: replayStateSchema.optional(),
+	webview: webviewStateSchema.optional(),
+	pullRequest: pullRequestStateSchema.optional(),
+	checkLogs: checkLogsStateSchema.optional(),
 });
 
 /**
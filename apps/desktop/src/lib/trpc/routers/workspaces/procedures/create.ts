@@ -1,11 +1,7 @@
-import { homedir } from "node:os";
-import { join } from "node:path";
-import { projects, workspaces, worktrees } from "@superset/local-db";
+import { projects, workspaces } from "@superset/local-db";
 import { and, eq, isNull, not } from "drizzle-orm";
 import { track } from "main/lib/analytics";
 import { localDb } from "main/lib/local-db";
-import { workspaceInitManager } from "main/lib/workspace-init-manager";
-import { SUPERSET_DIR_NAME, WORKTREES_DIR_NAME } from "shared/constants";
 import { z } from "zod";
 import { publicProcedure, router } from "../../..";
 import {
@@ -13,6 +9,7 @@ import {
 	getBranchWorkspace,
 	getMaxWorkspaceTabOrder,
 	getProject,
+	getUserWorkspaceTemplates,
 	getWorktree,
 	setLastActiveWorkspace,
 	touchWorkspace,
@@ -24,10 +21,31 @@ import {
 	worktreeExists,
 } from "../utils/git";
 import { loadSetupConfig } from "../utils/setup";
-import { initializeWorkspaceWorktree } from "../utils/workspace-init";
+import {
+	listWorkspaceTemplates,
+	resolveWorkspaceTemplate,
+} from "../utils/templates";
+import { createWorktreeWorkspace } from "../utils/workspace-init";
 
 export const createCreateProcedures = () => {
 	return router({
+		/**
+		 * Templates available when creating a workspace in a project:
+		 * the project's .superset/config.json templates plus the user's own.
+		 */
+		listTemplates: publicProcedure
+			.input(z.object({ projectId: z.string() }))
+			.query(({ input }) => {
+				const project = getProject(input.projectId);
+				if (!project) {
+					return [];
+				}
+				return listWorkspaceTemplates({
+					setupConfig: loadSetupConfig(project.mainRepoPath),
+					userTemplates: getUserWorkspaceTemplates(),
+				});
+			}),
+
 		create: publicProcedure
 			.input(
 				z.object({
@@ -35,6 +53,8 @@ export const createCreateProcedures = () => {
 					name: z.string().optional(),
 					branchName: z.string().optional(),
 					baseBranch: z.string().optional(),
+					/** Template to open once initialized; null skips the default template */
+					templateName: z.string().nullable().optional(),
 				}),
 			)
 			.mutation(async ({ input }) => {
@@ -47,82 +67,26 @@ export const createCreateProcedures = () => {
 					throw new Error(`Project ${input.projectId} not found`);
 				}
 
-				const branch = input.branchName?.trim() || generateBranchName();
-
-				const worktreePath = join(
-					homedir(),
-					SUPERSET_DIR_NAME,
-					WORKTREES_DIR_NAME,
-					project.name,
-					branch,
-				);
-
-				// Use cached defaultBranch for fast path, will refresh in background
-				// If no cached value exists, use "main" as fallback (background will verify)
-				const defaultBranch = project.defaultBranch || "main";
-				const targetBranch = input.baseBranch || defaultBranch;
-
-				// Insert worktree record immediately (before git operations)
-				// gitStatus will be updated when initialization completes
-				const worktree = localDb
-					.insert(worktrees)
-					.values({
-						projectId: input.projectId,
-						path: worktreePath,
-						branch,
-						baseBranch: targetBranch,
-						gitStatus: null, // Will be set when init completes
-					})
-					.returning()
-					.get();
-
-				// Get max tab order for this project's workspaces
-				const maxTabOrder = getMaxWorkspaceTabOrder(input.projectId);
-
-				const workspace = localDb
-					.insert(workspaces)
-					.values({
-						projectId: input.projectId,
-						worktreeId: worktree.id,
-						type: "worktree",
-						branch,
-						name: input.name ?? branch,
-						tabOrder: maxTabOrder + 1,
-					})
-					.returning()
-					.get();
-
-				setLastActiveWorkspace(workspace.id);
-				activateProject(project);
-
-				// Track workspace creation (not initialization - that's tracked when it completes)
-				track("workspace_created", {
-					workspace_id: workspace.id,
-					project_id: project.id,
-					branch: branch,
-					base_branch: targetBranch,
+				// Load setup configuration (fast operation, can return with response)
+				// Resolved before any records are created so an unknown template fails cleanly
+				const setupConfig = loadSetupConfig(project.mainRepoPath);
+				const template = resolveWorkspaceTemplate({
+					setupConfig,
+					userTemplates: getUserWorkspaceTemplates(),
+					templateName: input.templateName,
 				});
 
-				workspaceInitManager.startJob(workspace.id, input.projectId);
-
-				// Start background initialization (DO NOT await - return immediately)
-				initializeWorkspaceWorktree({
-					workspaceId: workspace.id,
-					projectId: input.projectId,
-					worktreeId: worktree.id,
-					worktreePath,
-					branch,
-					baseBranch: targetBranch,
-					baseBranchWasExplicit: !!input.baseBranch,
-					mainRepoPath: project.mainRepoPath,
+				const { workspace, worktreePath } = createWorktreeWorkspace({
+					project,
+					branch: input.branchName?.trim() || generateBranchName(),
+					name: input.name,
+					baseBranch: input.baseBranch,
 				});
 
-				// Load setup configuration (fast operation, can return with response)
-				const setupConfig = loadSetupConfig(project.mainRepoPath);
-
 				return {
 					workspace,
 					initialCommands: setupConfig?.setup || null,
+					template,
 					worktreePath,
 					projectId: project.id,
 					isInitializing: true,
@@ -244,6 +244,7 @@ export const createDeleteProcedures = () => {
 				}
 
 				deleteWorkspace(input.id);
+				await terminalManager.deleteHistoryForWorkspace(input.id);
 
 				if (worktree) {
 					deleteWorktreeRecord(worktree.id);
@@ -280,6 +281,7 @@ export const createDeleteProcedures = () => {
 				);
 
 				deleteWorkspace(input.id); // keeps worktree on disk
+				await terminalManager.deleteHistoryForWorkspace(input.id);
 				hideProjectIfNoWorkspaces(workspace.projectId);
 				updateActiveWorkspaceIfRemoved(input.id);
 
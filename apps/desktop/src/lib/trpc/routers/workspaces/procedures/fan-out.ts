@@ -0,0 +1,167 @@
+import { randomBytes } from "node:crypto";
+import { fanOutGroups, workspaces } from "@superset/local-db";
+import { and, eq, isNull } from "drizzle-orm";
+import { track } from "main/lib/analytics";
+import { localDb } from "main/lib/local-db";
+import { z } from "zod";
+import { publicProcedure, router } from "../../..";
+import {
+	getProject,
+	getTerminalPresets,
+	getWorkspaceWithRelations,
+} from "../utils/db-helpers";
+import {
+	buildAgentCommands,
+	deriveFanOutBranchNames,
+	getFanOutWorkspaceName,
+} from "../utils/fan-out";
+import { getWorktreeDiffStats } from "../utils/git";
+import { loadSetupConfig } from "../utils/setup";
+import { createWorktreeWorkspace } from "../utils/workspace-init";
+
+/** Upper bound on workspaces created by one fan-out */
+const MAX_FAN_OUT_WORKSPACES = 8;
+
+export const createFanOutProcedures = () => {
+	return router({
+		/**
+		 * Runs one prompt across several new workspaces, one per agent preset.
+		 * Workspaces are created like `create` (returning before git finishes);
+		 * the renderer starts each agent once its workspace's setup succeeds.
+		 */
+		fanOut: publicProcedure
+			.input(
+				z.object({
+					projectId: z.string(),
+					prompt: z.string().trim().min(1),
+					baseBranch: z.string().optional(),
+					/** Terminal preset per workspace; a preset may appear more than once */
+					presetIds: z.array(z.string()).min(1).max(MAX_FAN_OUT_WORKSPACES),
+				}),
+			)
+			.mutation(({ input }) => {
+				const project = getProject(input.projectId);
+				if (!project) {
+					throw new Error(`Project ${input.projectId} not found`);
+				}
+
+				// Validate every preset before creating anything
+				const allPresets = getTerminalPresets();
+				const presets = input.presetIds.map((presetId) => {
+					const preset = allPresets.find((p) => p.id === presetId);
+					if (!preset) {
+						throw new Error(`Terminal preset ${presetId} not found`);
+					}
+					if (preset.commands.length === 0) {
+						throw new Error(`Preset "${preset.name}" has no commands to run`);
+					}
+					return preset;
+				});
+
+				const setupConfig = loadSetupConfig(project.mainRepoPath);
+				const baseBranch = input.baseBranch || project.defaultBranch || "main";
+
+				const group = localDb
+					.insert(fanOutGroups)
+					.values({
+						projectId: project.id,
+						prompt: input.prompt,
+						baseBranch,
+					})
+					.returning()
+					.get();
+
+				const branches = deriveFanOutBranchNames(
+					input.prompt,
+					presets.map((preset) => preset.name),
+					randomBytes(3).toString("hex"),
+				);
+
+				const runs = presets.map((preset, index) => {
+					const agent = {
+						name: preset.name,
+						commands: buildAgentCommands(preset.commands, input.prompt),
+					};
+					const { workspace } = createWorktreeWorkspace({
+						project,
+						branch: branches[index],
+						name: getFanOutWorkspaceName(input.prompt, preset.name),
+						baseBranch: input.baseBranch,
+						fanOut: {
+							groupId: group.id,
+							agent: agent.name,
+							agentCommands: agent.commands,
+						},
+					});
+					return { workspace, agent };
+				});
+
+				track("fan_out_created", {
+					fan_out_group_id: group.id,
+					project_id: project.id,
+					workspace_count: runs.length,
+				});
+
+				return {
+					group,
+					runs,
+					initialCommands: setupConfig?.setup || null,
+					projectId: project.id,
+				};
+			}),
+
+		getFanOutGroup: publicProcedure
+			.input(z.object({ groupId: z.string() }))
+			.query(({ input }) => {
+				const group = localDb
+					.select()
+					.from(fanOutGroups)
+					.where(eq(fanOutGroups.id, input.groupId))
+					.get();
+				if (!group) {
+					return null;
+				}
+
+				const groupWorkspaces = localDb
+					.select()
+					.from(workspaces)
+					.where(
+						and(
+							eq(workspaces.fanOutGroupId, group.id),
+							isNull(workspaces.deletingAt),
+						),
+					)
+					.all()
+					.sort((a, b) => a.createdAt - b.createdAt);
+
+				return { ...group, workspaces: groupWorkspaces };
+			}),
+
+		/**
+		 * Lines changed in a workspace since it branched off, including
+		 * uncommitted work. Null while the worktree is still being created.
+		 */
+		getDiffStats: publicProcedure
+			.input(z.object({ workspaceId: z.string() }))
+			.query(async ({ input }) => {
+				const relations = getWorkspaceWithRelations(input.workspaceId);
+				if (!relations?.worktree?.gitStatus || !relations.project) {
+					return null;
+				}
+
+				const { worktree, project } = relations;
+				try {
+					return await getWorktreeDiffStats(
+						worktree.path,
+						worktree.baseBranch || project.defaultBranch || "main",
+					);
+				} catch (error) {
+					console.warn(
+						`[fan-out] Failed to get diff stats for ${worktree.path}:`,
+						error,
+					);
+					return null;
+				}
+			}),
+	});
+};
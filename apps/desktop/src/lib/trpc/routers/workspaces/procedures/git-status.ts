@@ -1,6 +1,7 @@
 import { workspaces, worktrees } from "@superset/local-db";
 import { and, eq, isNull } from "drizzle-orm";
 import { localDb } from "main/lib/local-db";
+import type { FailedCheckLog } from "shared/types";
 import { z } from "zod";
 import { publicProcedure, router } from "../../..";
 import {
@@ -15,7 +16,7 @@ import {
 	getDefaultBranch,
 	refreshDefaultBranch,
 } from "../utils/git";
-import { fetchGitHubPRStatus } from "../utils/github";
+import { fetchFailedCheckLogs, fetchGitHubPRStatus } from "../utils/github";
 
 export const createGitStatusProcedures = () => {
 	return router({
@@ -113,6 +114,22 @@ export const createGitStatusProcedures = () => {
 				return freshStatus;
 			}),
 
+		/** Failed-step logs of the PR's failing GitHub Actions checks */
+		getCheckLogs: publicProcedure
+			.input(z.object({ workspaceId: z.string() }))
+			.query(async ({ input }): Promise<FailedCheckLog[]> => {
+				const workspace = getWorkspace(input.workspaceId);
+				const worktree = workspace?.worktreeId
+					? getWorktree(workspace.worktreeId)
+					: null;
+				if (!worktree) {
+					return [];
+				}
+
+				const status = await fetchGitHubPRStatus(worktree.path);
+				return fetchFailedCheckLogs(worktree.path, status?.pr?.checks ?? []);
+			}),
+
 		getWorktreeInfo: publicProcedure
 			.input(z.object({ workspaceId: z.string() }))
 			.query(({ input }) => {
@@ -3,8 +3,13 @@ import { workspaceInitManager } from "main/lib/workspace-init-manager";
 import type { WorkspaceInitProgress } from "shared/types/workspace-init";
 import { z } from "zod";
 import { publicProcedure, router } from "../../..";
-import { getProject, getWorkspaceWithRelations } from "../utils/db-helpers";
+import {
+	getProject,
+	getUserWorkspaceTemplates,
+	getWorkspaceWithRelations,
+} from "../utils/db-helpers";
 import { loadSetupConfig } from "../utils/setup";
+import { resolveWorkspaceTemplate } from "../utils/templates";
 import { initializeWorkspaceWorktree } from "../utils/workspace-init";
 
 export const createInitProcedures = () => {
@@ -113,7 +118,8 @@ export const createInitProcedures = () => {
 		/**
 		 * Get setup commands for a workspace.
 		 * Used as a fallback when pending terminal setup data is lost (e.g., after retry or app restart).
-		 * Re-reads the project config to get fresh commands.
+		 * Re-reads the project config to get fresh commands and the default template
+		 * (an explicitly picked template isn't persisted).
 		 */
 		getSetupCommands: publicProcedure
 			.input(z.object({ workspaceId: z.string() }))
@@ -132,10 +138,19 @@ export const createInitProcedures = () => {
 
 				// Re-read config from project to get fresh commands
 				const setupConfig = loadSetupConfig(project.mainRepoPath);
+				const { fanOutAgent, fanOutAgentCommands } = relations.workspace;
 
 				return {
 					projectId: project.id,
 					initialCommands: setupConfig?.setup ?? null,
+					template: resolveWorkspaceTemplate({
+						setupConfig,
+						userTemplates: getUserWorkspaceTemplates(),
+					}),
+					agent:
+						fanOutAgent && fanOutAgentCommands?.length
+							? { name: fanOutAgent, commands: fanOutAgentCommands }
+							: undefined,
 				};
 			}),
 	});
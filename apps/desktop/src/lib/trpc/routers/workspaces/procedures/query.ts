@@ -67,6 +67,7 @@ export const createQueryProcedures = () => {
 						updatedAt: number;
 						lastOpenedAt: number;
 						isUnread: boolean;
+						fanOutGroupId: string | null;
 					}>;
 				}
 			>();
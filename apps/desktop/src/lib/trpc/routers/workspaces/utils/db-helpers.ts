@@ -1,9 +1,12 @@
 import {
+	agentEvents,
 	projects,
 	type SelectProject,
 	type SelectWorkspace,
 	type SelectWorktree,
 	settings,
+	type TerminalPreset,
+	type WorkspaceTemplate,
 	workspaces,
 	worktrees,
 } from "@superset/local-db";
@@ -25,6 +28,22 @@ export function setLastActiveWorkspace(workspaceId: string | null): void {
 		.run();
 }
 
+/**
+ * Get the workspace templates defined in settings.
+ */
+export function getUserWorkspaceTemplates(): WorkspaceTemplate[] {
+	const row = localDb.select().from(settings).get();
+	return row?.workspaceTemplates ?? [];
+}
+
+/**
+ * Get the terminal presets defined in settings.
+ */
+export function getTerminalPresets(): TerminalPreset[] {
+	const row = localDb.select().from(settings).get();
+	return row?.terminalPresets ?? [];
+}
+
 /**
  * Get the maximum tab order for workspaces in a project (excluding those being deleted).
  * Returns -1 if no workspaces exist.
@@ -255,9 +274,14 @@ export function clearWorkspaceDeletingStatus(workspaceId: string): void {
 }
 
 /**
- * Delete a workspace record from the database.
+ * Delete a workspace record and its agent timeline from the database.
+ * Foreign keys are off in the local db, so dependent rows are removed here.
  */
 export function deleteWorkspace(workspaceId: string): void {
+	localDb
+		.delete(agentEvents)
+		.where(eq(agentEvents.workspaceId, workspaceId))
+		.run();
 	localDb.delete(workspaces).where(eq(workspaces.id, workspaceId)).run();
 }
 
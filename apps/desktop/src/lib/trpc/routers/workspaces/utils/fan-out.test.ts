@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import {
+	buildAgentCommands,
+	deriveFanOutBranchNames,
+	getFanOutWorkspaceName,
+	slugifyPrompt,
+} from "./fan-out";
+
+describe("slugifyPrompt", () => {
+	test("keeps short prompts whole", () => {
+		expect(slugifyPrompt("Fix the login bug!")).toBe("fix-the-login-bug");
+	});
+
+	test("cuts long prompts at a word boundary", () => {
+		expect(
+			slugifyPrompt(
+				"Refactor the settings router to use a shared upsert helper",
+			),
+		).toBe("refactor-the-settings-router-to");
+	});
+
+	test("falls back when nothing is left", () => {
+		expect(slugifyPrompt("🚀🚀")).toBe("fan-out");
+	});
+});
+
+describe("deriveFanOutBranchNames", () => {
+	test("derives one branch per agent with a shared suffix", () => {
+		expect(
+			deriveFanOutBranchNames(
+				"Fix login",
+				["Claude", "Codex", "claude"],
+				"a1b2c3",
+			),
+		).toEqual([
+			"fix-login-claude-a1b2c3",
+			"fix-login-codex-a1b2c3",
+			"fix-login-claude-2-a1b2c3",
+		]);
+	});
+});
+
+describe("getFanOutWorkspaceName", () => {
+	test("uses the agent and the prompt's first line", () => {
+		expect(getFanOutWorkspaceName("Fix login\nMore details", "Codex")).toBe(
+			"Codex: Fix login",
+		);
+		expect(
+			getFanOutWorkspaceName(
+				"Add pagination to every list endpoint in the API",
+				"Claude",
+			),
+		).toBe("Claude: Add pagination to every list endpoint in…");
+	});
+});
+
+describe("buildAgentCommands", () => {
+	test("appends the quoted prompt to the last command", () => {
+		expect(
+			buildAgentCommands(["nvm use", "claude"], "don't break 'prod'"),
+		).toEqual(["nvm use", `claude 'don'\\''t break '\\''prod'\\'''`]);
+	});
+
+	test("replaces the prompt placeholder", () => {
+		expect(
+			buildAgentCommands(["codex exec {{prompt}} --full-auto"], "fix it"),
+		).toEqual(["codex exec 'fix it' --full-auto"]);
+	});
+
+	test("returns nothing for presets without commands", () => {
+		expect(buildAgentCommands([], "fix it")).toEqual([]);
+	});
+});
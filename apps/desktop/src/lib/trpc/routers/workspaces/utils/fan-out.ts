@@ -0,0 +1,86 @@
+import { shellQuote } from "shared/utils/shell-quote";
+
+/** Placeholder in a preset command that is replaced with the fan-out prompt */
+export const FAN_OUT_PROMPT_PLACEHOLDER = "{{prompt}}";
+
+const MAX_PROMPT_SLUG_LENGTH = 32;
+const MAX_NAME_PROMPT_LENGTH = 40;
+
+function slugify(value: string): string {
+	return value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Branch-safe slug of the prompt's leading words, cut at a word boundary.
+ */
+export function slugifyPrompt(prompt: string): string {
+	const slug = slugify(prompt);
+	if (slug.length <= MAX_PROMPT_SLUG_LENGTH) {
+		return slug || "fan-out";
+	}
+
+	const truncated = slug.slice(0, MAX_PROMPT_SLUG_LENGTH);
+	const lastDash = truncated.lastIndexOf("-");
+	return lastDash > 0 ? truncated.slice(0, lastDash) : truncated;
+}
+
+/**
+ * One branch per agent: `<prompt-slug>-<agent-slug>-<suffix>`.
+ * The suffix is shared by the group; agents with the same slug get a counter.
+ */
+export function deriveFanOutBranchNames(
+	prompt: string,
+	agentNames: string[],
+	suffix: string,
+): string[] {
+	const promptSlug = slugifyPrompt(prompt);
+	const seen = new Map<string, number>();
+
+	return agentNames.map((agentName) => {
+		const agentSlug = slugify(agentName) || "agent";
+		const count = (seen.get(agentSlug) ?? 0) + 1;
+		seen.set(agentSlug, count);
+		const uniqueSlug = count > 1 ? `${agentSlug}-${count}` : agentSlug;
+		return `${promptSlug}-${uniqueSlug}-${suffix}`;
+	});
+}
+
+export function getFanOutWorkspaceName(
+	prompt: string,
+	agentName: string,
+): string {
+	const firstLine = prompt.trim().split("\n")[0] ?? "";
+	const summary =
+		firstLine.length > MAX_NAME_PROMPT_LENGTH
+			? `${firstLine.slice(0, MAX_NAME_PROMPT_LENGTH).trimEnd()}…`
+			: firstLine;
+	return `${agentName}: ${summary}`;
+}
+
+/**
+ * Commands that start an agent preset with the prompt.
+ * The prompt replaces every {{prompt}} placeholder, or is appended to the
+ * last command when the preset has none.
+ */
+export function buildAgentCommands(
+	commands: string[],
+	prompt: string,
+): string[] {
+	const quoted = shellQuote(prompt);
+	if (
+		commands.some((command) => command.includes(FAN_OUT_PROMPT_PLACEHOLDER))
+	) {
+		return commands.map((command) =>
+			command.replaceAll(FAN_OUT_PROMPT_PLACEHOLDER, quoted),
+		);
+	}
+
+	if (commands.length === 0) {
+		return [];
+	}
+	const last = commands[commands.length - 1];
+	return [...commands.slice(0, -1), `${last} ${quoted}`];
+}
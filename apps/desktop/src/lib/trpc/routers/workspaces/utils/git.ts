@@ -1,6 +1,6 @@
 import { execFile } from "node:child_process";
 import { randomBytes } from "node:crypto";
-import { mkdir, readFile, stat } from "node:fs/promises";
+import { mkdir, readFile, rm, stat } from "node:fs/promises";
 import { join } from "node:path";
 import { promisify } from "node:util";
 import simpleGit from "simple-git";
@@ -231,6 +231,36 @@ export async function removeWorktree(
 	}
 }
 
+/**
+ * Removes what an interrupted `git worktree add` left behind: the worktree
+ * registration, its directory and the branch it created. Only for worktrees
+ * that never finished initializing, so nothing in them is the user's.
+ */
+export async function removePartialWorktree(
+	mainRepoPath: string,
+	worktreePath: string,
+	branch: string,
+): Promise<void> {
+	const git = simpleGit(mainRepoPath);
+	const isRegistered = await worktreeExists(mainRepoPath, worktreePath);
+
+	if (isRegistered) {
+		await removeWorktree(mainRepoPath, worktreePath);
+	}
+	await rm(worktreePath, { recursive: true, force: true });
+	// Drops registrations whose directory is already gone
+	await git.raw(["worktree", "prune"]);
+
+	// A registered worktree means `worktree add -b` created the branch
+	if (isRegistered) {
+		try {
+			await git.raw(["branch", "-D", branch]);
+		} catch {
+			// Branch creation may not have completed
+		}
+	}
+}
+
 export async function getGitRoot(path: string): Promise<string> {
 	try {
 		const git = simpleGit(path);
@@ -406,6 +436,76 @@ export async function hasUncommittedChanges(
 	return !status.isClean();
 }
 
+export interface DiffStats {
+	filesChanged: number;
+	additions: number;
+	deletions: number;
+}
+
+/** Untracked files larger than this (1 MiB) count as changed without line counts */
+const MAX_UNTRACKED_LINE_COUNT_SIZE = 1024 * 1024;
+
+/**
+ * Commit a worktree forked from: merge-base with origin/baseBranch, then the
+ * local baseBranch. Falls back to HEAD when neither exists.
+ */
+export async function getMergeBase(
+	worktreePath: string,
+	baseBranch: string,
+): Promise<string> {
+	const git = simpleGit(worktreePath);
+	for (const ref of [`origin/${baseBranch}`, baseBranch]) {
+		try {
+			return (await git.raw(["merge-base", "HEAD", ref])).trim();
+		} catch {
+			// Try the next candidate
+		}
+	}
+	return "HEAD";
+}
+
+/**
+ * Changes in a worktree since it forked from baseBranch, including
+ * uncommitted and untracked files. Binary files count as changed only.
+ */
+export async function getWorktreeDiffStats(
+	worktreePath: string,
+	baseBranch: string,
+): Promise<DiffStats> {
+	const git = simpleGit(worktreePath);
+	const mergeBase = await getMergeBase(worktreePath, baseBranch);
+	const [numstat, untracked] = await Promise.all([
+		git.raw(["diff", "--numstat", mergeBase]),
+		git.raw(["ls-files", "--others", "--exclude-standard"]),
+	]);
+
+	const stats: DiffStats = { filesChanged: 0, additions: 0, deletions: 0 };
+	for (const line of numstat.split("\n")) {
+		const [added, deleted] = line.split("\t");
+		if (!line.trim() || added === undefined || deleted === undefined) {
+			continue;
+		}
+		stats.filesChanged++;
+		stats.additions += Number.parseInt(added, 10) || 0;
+		stats.deletions += Number.parseInt(deleted, 10) || 0;
+	}
+
+	for (const file of untracked.split("\n").filter(Boolean)) {
+		stats.filesChanged++;
+		try {
+			const filePath = join(worktreePath, file);
+			if ((await stat(filePath)).size > MAX_UNTRACKED_LINE_COUNT_SIZE) {
+				continue;
+			}
+			stats.additions += (await readFile(filePath, "utf-8")).split("\n").length;
+		} catch {
+			// File disappeared or is unreadable - keep it counted as changed
+		}
+	}
+
+	return stats;
+}
+
 export async function hasUnpushedCommits(
 	worktreePath: string,
 ): Promise<boolean> {
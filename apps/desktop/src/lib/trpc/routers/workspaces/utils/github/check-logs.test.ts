@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import {
+	extractFailureExcerpt,
+	getJobIdFromUrl,
+	parseFailedLog,
+} from "./check-logs";
+
+describe("getJobIdFromUrl", () => {
+	test("reads the job id from Actions and check-run URLs", () => {
+		expect(
+			getJobIdFromUrl("https://github.com/o/r/actions/runs/111/job/222"),
+		).toBe("222");
+		expect(getJobIdFromUrl("https://github.com/o/r/runs/333")).toBe("333");
+	});
+
+	test("returns null for other CI services", () => {
+		expect(getJobIdFromUrl("https://ci.example.com/build/1")).toBeNull();
+		expect(getJobIdFromUrl(undefined)).toBeNull();
+	});
+});
+
+describe("parseFailedLog", () => {
+	test("strips job, step, timestamp and color codes", () => {
+		const raw = [
+			"build\tRun tests\t2024-01-02T03:04:05.6789012Z \x1b[31mFAIL\x1b[0m src/a.test.ts",
+			"build\tRun tests\t2024-01-02T03:04:06.0000000Z   expected 1\tgot 2",
+			"",
+		].join("\n");
+
+		expect(parseFailedLog(raw)).toEqual([
+			"FAIL src/a.test.ts",
+			"  expected 1\tgot 2",
+		]);
+	});
+
+	test("strips escapes that could end a bracketed paste", () => {
+		expect(
+			parseFailedLog("build\tRun\tdone\x1b[201~\x1b]0;x\x07\x9b\r\nnext"),
+		).toEqual(["done", "next"]);
+	});
+});
+
+describe("extractFailureExcerpt", () => {
+	const lines = Array.from({ length: 100 }, (_, i) => `line ${i}`);
+
+	test("keeps context around errors and separates distant ones", () => {
+		const log = [...lines];
+		log[20] = "error: first";
+		log[80] = "Process failed";
+
+		const excerpt = extractFailureExcerpt(log).split("\n");
+
+		expect(excerpt[0]).toBe("line 15");
+		expect(excerpt).toContain("error: first");
+		expect(excerpt).toContain("...");
+		expect(excerpt[excerpt.length - 1]).toBe("line 90");
+	});
+
+	test("merges errors close to each other", () => {
+		const log = [...lines];
+		log[20] = "error: first";
+		log[25] = "error: second";
+
+		const excerpt = extractFailureExcerpt(log).split("\n");
+
+		expect(excerpt).not.toContain("...");
+		expect(excerpt[0]).toBe("line 15");
+		expect(excerpt[excerpt.length - 1]).toBe("line 35");
+	});
+
+	test("falls back to the end of the log", () => {
+		const excerpt = extractFailureExcerpt(lines).split("\n");
+		expect(excerpt).toHaveLength(40);
+		expect(excerpt[excerpt.length - 1]).toBe("line 99");
+	});
+});
@@ -0,0 +1,125 @@
+import type { CheckItem } from "@superset/local-db";
+import { stripControlCharacters } from "shared/control-characters";
+import type { FailedCheckLog } from "shared/types";
+import { runGh } from "./gh";
+
+/** Failed-step logs can be large; keep the end, where failures are */
+const MAX_LOG_LINES = 2000;
+const LOG_MAX_BUFFER = 32 * 1024 * 1024;
+
+const MAX_EXCERPT_LINES = 80;
+const CONTEXT_BEFORE = 5;
+const CONTEXT_AFTER = 10;
+/** Shown when no line looks like an error */
+const FALLBACK_TAIL_LINES = 40;
+
+const ERROR_LINE =
+	/##\[error\]|\b(error|errors|failed|failure|fatal|panic|exception)\b|✗|✖/i;
+const TIMESTAMP_PREFIX = /^\d{4}-\d{2}-\d{2}T[\d:.]+Z ?/;
+
+/**
+ * GitHub Actions job id from a check's details URL, either
+ * .../actions/runs/<run>/job/<job> or .../runs/<job> for check runs.
+ */
+export function getJobIdFromUrl(url: string | undefined): string | null {
+	if (!url) return null;
+	const match =
+		/\/actions\/runs\/\d+\/jobs?\/(\d+)/.exec(url) ??
+		/github\.com\/[^/]+\/[^/]+\/runs\/(\d+)/.exec(url);
+	return match?.[1] ?? null;
+}
+
+/**
+ * `gh run view --log-failed` prefixes each line with the job and step names
+ * and a timestamp; keeps just the output, without color codes or other
+ * control characters (the excerpt ends up in a terminal).
+ */
+export function parseFailedLog(raw: string): string[] {
+	const lines = raw.split("\n").map((line) => {
+		const columns = line.split("\t");
+		const output = columns.length >= 3 ? columns.slice(2).join("\t") : line;
+		return stripControlCharacters(output.replace(TIMESTAMP_PREFIX, ""));
+	});
+	while (lines.length > 0 && lines[lines.length - 1].trim() === "") {
+		lines.pop();
+	}
+	return lines.slice(-MAX_LOG_LINES);
+}
+
+/**
+ * The lines around the first errors, with "..." between separate spots.
+ * Falls back to the end of the log when nothing looks like an error.
+ */
+export function extractFailureExcerpt(lines: string[]): string {
+	const ranges: Array<[number, number]> = [];
+	let total = 0;
+	for (let i = 0; i < lines.length && total < MAX_EXCERPT_LINES; i++) {
+		if (!ERROR_LINE.test(lines[i])) continue;
+		const start = Math.max(0, i - CONTEXT_BEFORE);
+		const end = Math.min(lines.length, i + CONTEXT_AFTER + 1);
+		const last = ranges[ranges.length - 1];
+		if (last && start <= last[1]) {
+			total += end - last[1];
+			last[1] = end;
+		} else {
+			total += end - start;
+			ranges.push([start, end]);
+		}
+	}
+
+	if (ranges.length === 0) {
+		return lines.slice(-FALLBACK_TAIL_LINES).join("\n");
+	}
+	return ranges
+		.map(([start, end]) => lines.slice(start, end).join("\n"))
+		.join("\n...\n")
+		.split("\n")
+		.slice(0, MAX_EXCERPT_LINES)
+		.join("\n");
+}
+
+async function fetchCheckLog(
+	worktreePath: string,
+	check: CheckItem,
+): Promise<FailedCheckLog> {
+	const jobId = getJobIdFromUrl(check.url);
+	const result: FailedCheckLog = {
+		name: check.name,
+		url: check.url,
+		jobId,
+		log: null,
+		excerpt: null,
+	};
+	if (!jobId) {
+		return result;
+	}
+
+	try {
+		const raw = await runGh(
+			worktreePath,
+			["run", "view", "--job", jobId, "--log-failed"],
+			{ maxBuffer: LOG_MAX_BUFFER },
+		);
+		const lines = parseFailedLog(raw);
+		return {
+			...result,
+			log: lines.join("\n"),
+			excerpt: extractFailureExcerpt(lines),
+		};
+	} catch (error) {
+		// Logs expire and may be unavailable while the job is still running
+		console.warn(`[GitHub] Failed to fetch log for "${check.name}":`, error);
+		return result;
+	}
+}
+
+/** Failed-step logs of the given checks' GitHub Actions jobs */
+export async function fetchFailedCheckLogs(
+	worktreePath: string,
+	checks: CheckItem[],
+): Promise<FailedCheckLog[]> {
+	const failing = checks.filter((check) => check.status === "failure");
+	return Promise.all(
+		failing.map((check) => fetchCheckLog(worktreePath, check)),
+	);
+}
@@ -0,0 +1,29 @@
+import { execWithShellEnv } from "../shell-env";
+
+/**
+ * Runs `gh` in the worktree. Failures are rethrown with gh's own message
+ * (e.g. "a pull request for branch ... already exists") instead of the
+ * generic "Command failed" one.
+ */
+export async function runGh(
+	worktreePath: string,
+	args: string[],
+	options?: { maxBuffer?: number },
+): Promise<string> {
+	try {
+		const { stdout } = await execWithShellEnv("gh", args, {
+			...options,
+			cwd: worktreePath,
+		});
+		return stdout;
+	} catch (error) {
+		const stderr =
+			error && typeof error === "object" && "stderr" in error
+				? String(error.stderr).trim()
+				: "";
+		if (stderr) {
+			throw new Error(stderr);
+		}
+		throw error;
+	}
+}
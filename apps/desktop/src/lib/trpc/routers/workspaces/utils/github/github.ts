@@ -15,6 +15,11 @@ const execFileAsync = promisify(execFile);
 const cache = new Map<string, { data: GitHubStatus; timestamp: number }>();
 const CACHE_TTL_MS = 10_000;
 
+/** Drops a worktree's cached status, e.g. after opening a PR for it */
+export function clearGitHubStatusCache(worktreePath: string): void {
+	cache.delete(worktreePath);
+}
+
 /**
  * Fetches GitHub PR status for a worktree using the `gh` CLI.
  * Returns null if `gh` is not installed, not authenticated, or on error.
@@ -1 +1,9 @@
-export { fetchGitHubPRStatus } from "./github";
+export { fetchFailedCheckLogs } from "./check-logs";
+export { clearGitHubStatusCache, fetchGitHubPRStatus } from "./github";
+export {
+	type CreatePullRequestOptions,
+	createPullRequest,
+	fetchPullRequestReview,
+	replyToReviewThread,
+	setReviewThreadResolved,
+} from "./pull-requests";
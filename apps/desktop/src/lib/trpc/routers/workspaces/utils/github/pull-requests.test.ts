@@ -0,0 +1,120 @@
+import { describe, expect, test } from "bun:test";
+import { buildCreatePRArgs, parseReviewThreads } from "./pull-requests";
+import { GHReviewThreadsResponseSchema } from "./types";
+
+describe("buildCreatePRArgs", () => {
+	test("passes title, body and base", () => {
+		expect(
+			buildCreatePRArgs("feature", {
+				title: "Add login",
+				body: "",
+				base: "main",
+				draft: false,
+				reviewers: [],
+			}),
+		).toEqual([
+			"pr",
+			"create",
+			"--head",
+			"feature",
+			"--base",
+			"main",
+			"--title",
+			"Add login",
+			"--body",
+			"",
+		]);
+	});
+
+	test("adds draft and trimmed, non-empty reviewers", () => {
+		const args = buildCreatePRArgs("feature", {
+			title: "Add login",
+			body: "Body",
+			base: "develop",
+			draft: true,
+			reviewers: [" alice", "", "org/team "],
+		});
+
+		expect(args.slice(-3)).toEqual(["--draft", "--reviewer", "alice,org/team"]);
+	});
+});
+
+describe("parseReviewThreads", () => {
+	const response = GHReviewThreadsResponseSchema.parse({
+		data: {
+			repository: {
+				pullRequest: {
+					reviewThreads: {
+						nodes: [
+							{
+								id: "T1",
+								path: "src/app.ts",
+								line: 12,
+								originalLine: 10,
+								diffSide: "RIGHT",
+								isResolved: false,
+								isOutdated: false,
+								comments: {
+									nodes: [
+										{
+											id: "C1",
+											body: "Rename this",
+											createdAt: "2024-01-02T03:04:05Z",
+											url: "https://github.com/o/r/pull/1#c1",
+											author: { login: "alice" },
+										},
+										{
+											id: "C2",
+											body: "Done",
+											createdAt: "2024-01-02T04:00:00Z",
+											url: "https://github.com/o/r/pull/1#c2",
+											author: null,
+										},
+									],
+								},
+							},
+							{
+								id: "T2",
+								path: "src/old.ts",
+								line: null,
+								originalLine: 7,
+								diffSide: "LEFT",
+								isResolved: true,
+								isOutdated: true,
+								comments: { nodes: [] },
+							},
+						],
+					},
+				},
+			},
+		},
+	});
+
+	test("maps threads and their comments", () => {
+		const [thread] = parseReviewThreads(response);
+
+		expect(thread).toMatchObject({
+			id: "T1",
+			path: "src/app.ts",
+			line: 12,
+			side: "RIGHT",
+			isResolved: false,
+			isOutdated: false,
+		});
+		expect(thread.comments.map((c) => c.author)).toEqual(["alice", "ghost"]);
+		expect(thread.comments[0].createdAt).toBe(
+			Date.parse("2024-01-02T03:04:05Z"),
+		);
+	});
+
+	test("falls back to the original line for outdated threads", () => {
+		const [, outdated] = parseReviewThreads(response);
+		expect(outdated).toMatchObject({ line: 7, side: "LEFT", isOutdated: true });
+	});
+
+	test("returns no threads when the pull request is missing", () => {
+		expect(
+			parseReviewThreads({ data: { repository: { pullRequest: null } } }),
+		).toEqual([]);
+	});
+});
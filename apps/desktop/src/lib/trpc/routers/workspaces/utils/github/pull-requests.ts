@@ -0,0 +1,192 @@
+import type { PRReviewThread, PullRequestReview } from "shared/changes-types";
+import { runGh } from "./gh";
+import {
+	GHPRSummarySchema,
+	type GHReviewThreadsResponse,
+	GHReviewThreadsResponseSchema,
+} from "./types";
+
+const REVIEW_THREADS_QUERY = `
+query($owner: String!, $name: String!, $number: Int!) {
+	repository(owner: $owner, name: $name) {
+		pullRequest(number: $number) {
+			reviewThreads(first: 100) {
+				nodes {
+					id
+					path
+					line
+					originalLine
+					diffSide
+					isResolved
+					isOutdated
+					comments(first: 50) {
+						nodes { id body createdAt url author { login } }
+					}
+				}
+			}
+		}
+	}
+}`;
+
+const REPLY_MUTATION = `
+mutation($threadId: ID!, $body: String!) {
+	addPullRequestReviewThreadReply(input: { pullRequestReviewThreadId: $threadId, body: $body }) {
+		comment { id }
+	}
+}`;
+
+const RESOLVE_MUTATION = `
+mutation($threadId: ID!) {
+	resolveReviewThread(input: { threadId: $threadId }) { thread { id } }
+}`;
+
+const UNRESOLVE_MUTATION = `
+mutation($threadId: ID!) {
+	unresolveReviewThread(input: { threadId: $threadId }) { thread { id } }
+}`;
+
+export interface CreatePullRequestOptions {
+	title: string;
+	body: string;
+	/** Branch to merge into */
+	base: string;
+	draft: boolean;
+	/** GitHub logins or org/team slugs */
+	reviewers: string[];
+}
+
+export function buildCreatePRArgs(
+	branch: string,
+	options: CreatePullRequestOptions,
+): string[] {
+	const args = [
+		"pr",
+		"create",
+		"--head",
+		branch,
+		"--base",
+		options.base,
+		"--title",
+		options.title,
+		"--body",
+		options.body,
+	];
+	if (options.draft) {
+		args.push("--draft");
+	}
+	const reviewers = options.reviewers.map((r) => r.trim()).filter(Boolean);
+	if (reviewers.length > 0) {
+		args.push("--reviewer", reviewers.join(","));
+	}
+	return args;
+}
+
+/** Opens a pull request for an already pushed branch; returns its URL */
+export async function createPullRequest(
+	worktreePath: string,
+	branch: string,
+	options: CreatePullRequestOptions,
+): Promise<string> {
+	const stdout = await runGh(worktreePath, buildCreatePRArgs(branch, options));
+	// gh prints progress lines before the URL
+	const url = stdout.trim().split("\n").pop() ?? "";
+	return url.trim();
+}
+
+export function parseReviewThreads(
+	response: GHReviewThreadsResponse,
+): PRReviewThread[] {
+	const nodes = response.data.repository.pullRequest?.reviewThreads.nodes ?? [];
+	return nodes.map((thread) => ({
+		id: thread.id,
+		path: thread.path,
+		// Outdated threads lose their line; keep where they were left
+		line: thread.line ?? thread.originalLine,
+		side: thread.diffSide,
+		isResolved: thread.isResolved,
+		isOutdated: thread.isOutdated,
+		comments: thread.comments.nodes.map((comment) => ({
+			id: comment.id,
+			author: comment.author?.login ?? "ghost",
+			body: comment.body,
+			createdAt: new Date(comment.createdAt).getTime(),
+			url: comment.url,
+		})),
+	}));
+}
+
+/**
+ * The current branch's pull request with its review threads, or null when
+ * the branch has no pull request.
+ */
+export async function fetchPullRequestReview(
+	worktreePath: string,
+): Promise<PullRequestReview | null> {
+	let summary: { number: number; title: string; url: string };
+	try {
+		const stdout = await runGh(worktreePath, [
+			"pr",
+			"view",
+			"--json",
+			"number,title,url",
+		]);
+		summary = GHPRSummarySchema.parse(JSON.parse(stdout));
+	} catch (error) {
+		if (
+			error instanceof Error &&
+			error.message.includes("no pull requests found")
+		) {
+			return null;
+		}
+		throw error;
+	}
+
+	// gh fills {owner} and {repo} in from the worktree's remote
+	const stdout = await runGh(worktreePath, [
+		"api",
+		"graphql",
+		"-F",
+		"owner={owner}",
+		"-F",
+		"name={repo}",
+		"-F",
+		`number=${summary.number}`,
+		"-f",
+		`query=${REVIEW_THREADS_QUERY}`,
+	]);
+	const response = GHReviewThreadsResponseSchema.parse(JSON.parse(stdout));
+
+	return { ...summary, threads: parseReviewThreads(response) };
+}
+
+export async function replyToReviewThread(
+	worktreePath: string,
+	threadId: string,
+	body: string,
+): Promise<void> {
+	await runGh(worktreePath, [
+		"api",
+		"graphql",
+		"-f",
+		`threadId=${threadId}`,
+		"-f",
+		`body=${body}`,
+		"-f",
+		`query=${REPLY_MUTATION}`,
+	]);
+}
+
+export async function setReviewThreadResolved(
+	worktreePath: string,
+	threadId: string,
+	resolved: boolean,
+): Promise<void> {
+	await runGh(worktreePath, [
+		"api",
+		"graphql",
+		"-f",
+		`threadId=${threadId}`,
+		"-f",
+		`query=${resolved ? RESOLVE_MUTATION : UNRESOLVE_MUTATION}`,
+	]);
+}
@@ -46,3 +46,47 @@ export const GHRepoResponseSchema = z.object({
 });
 
 export type GHPRResponse = z.infer<typeof GHPRResponseSchema>;
+
+export const GHPRSummarySchema = z.object({
+	number: z.number(),
+	title: z.string(),
+	url: z.string(),
+});
+
+export const GHReviewCommentSchema = z.object({
+	id: z.string(),
+	body: z.string(),
+	createdAt: z.string(),
+	url: z.string(),
+	// Null when the author's account was deleted
+	author: z.object({ login: z.string() }).nullable(),
+});
+
+export const GHReviewThreadSchema = z.object({
+	id: z.string(),
+	path: z.string(),
+	line: z.number().nullable(),
+	originalLine: z.number().nullable(),
+	diffSide: z.enum(["LEFT", "RIGHT"]),
+	isResolved: z.boolean(),
+	isOutdated: z.boolean(),
+	comments: z.object({ nodes: z.array(GHReviewCommentSchema) }),
+});
+
+export const GHReviewThreadsResponseSchema = z.object({
+	data: z.object({
+		repository: z.object({
+			pullRequest: z
+				.object({
+					reviewThreads: z.object({
+						nodes: z.array(GHReviewThreadSchema),
+					}),
+				})
+				.nullable(),
+		}),
+	}),
+});
+
+export type GHReviewThreadsResponse = z.infer<
+	typeof GHReviewThreadsResponseSchema
+>;
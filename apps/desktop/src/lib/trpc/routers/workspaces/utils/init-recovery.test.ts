@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import { planInitRecovery } from "./init-recovery";
+
+const untouched = {
+	worktreeCreated: false,
+	worktreeRegistered: false,
+	worktreeOnDisk: false,
+};
+
+describe("planInitRecovery", () => {
+	test("keeps failed jobs failed", () => {
+		expect(planInitRecovery({ ...untouched, step: "failed" })).toEqual({
+			action: "keep_failed",
+		});
+	});
+
+	test("resumes from the start before the worktree is created", () => {
+		expect(planInitRecovery({ ...untouched, step: "fetching" })).toEqual({
+			action: "resume",
+			worktreeReady: false,
+		});
+	});
+
+	test("ignores a pre-existing directory before the worktree step", () => {
+		expect(
+			planInitRecovery({ ...untouched, step: "syncing", worktreeOnDisk: true }),
+		).toEqual({ action: "resume", worktreeReady: false });
+	});
+
+	test("resumes after the worktree once it was created", () => {
+		expect(
+			planInitRecovery({
+				step: "copying_config",
+				worktreeCreated: true,
+				worktreeRegistered: true,
+				worktreeOnDisk: true,
+			}),
+		).toEqual({ action: "resume", worktreeReady: true });
+	});
+
+	test("rolls back a created worktree that has since gone missing", () => {
+		expect(
+			planInitRecovery({
+				step: "finalizing",
+				worktreeCreated: true,
+				worktreeRegistered: true,
+				worktreeOnDisk: false,
+			}),
+		).toEqual({ action: "rollback" });
+	});
+
+	test("rolls back a worktree cut off during creation", () => {
+		expect(
+			planInitRecovery({
+				...untouched,
+				step: "creating_worktree",
+				worktreeRegistered: true,
+				worktreeOnDisk: true,
+			}),
+		).toEqual({ action: "rollback" });
+		expect(
+			planInitRecovery({
+				...untouched,
+				step: "creating_worktree",
+				worktreeOnDisk: true,
+			}),
+		).toEqual({ action: "rollback" });
+	});
+
+	test("retries creation when git never got to run", () => {
+		expect(
+			planInitRecovery({ ...untouched, step: "creating_worktree" }),
+		).toEqual({ action: "resume", worktreeReady: false });
+	});
+});
@@ -0,0 +1,56 @@
+import {
+	getStepIndex,
+	type WorkspaceInitStep,
+} from "shared/types/workspace-init";
+
+export type InitRecoveryPlan =
+	/** Run init again; with worktreeReady it starts at copying config */
+	| { action: "resume"; worktreeReady: boolean }
+	/** Remove the partial worktree and leave the job failed for retry */
+	| { action: "rollback" }
+	/** The job had already failed; show it as failed again */
+	| { action: "keep_failed" };
+
+export interface InterruptedInitState {
+	/** Persisted step the job was on when the app quit */
+	step: WorkspaceInitStep;
+	/** Whether `git worktree add` was recorded as finished */
+	worktreeCreated: boolean;
+	/** Whether `git worktree list` includes the worktree path */
+	worktreeRegistered: boolean;
+	/** Whether the worktree directory exists */
+	worktreeOnDisk: boolean;
+}
+
+/**
+ * Decides how to recover an init job left over from a previous run.
+ * Resumes from the last completed step when the worktree is either complete
+ * or untouched, and rolls back when it was left half-created.
+ */
+export function planInitRecovery({
+	step,
+	worktreeCreated,
+	worktreeRegistered,
+	worktreeOnDisk,
+}: InterruptedInitState): InitRecoveryPlan {
+	if (step === "failed") {
+		return { action: "keep_failed" };
+	}
+
+	if (worktreeCreated) {
+		return worktreeRegistered && worktreeOnDisk
+			? { action: "resume", worktreeReady: true }
+			: { action: "rollback" };
+	}
+
+	// Nothing is written to the worktree path before this step, so anything
+	// already there isn't ours to remove
+	if (getStepIndex(step) < getStepIndex("creating_worktree")) {
+		return { action: "resume", worktreeReady: false };
+	}
+
+	// `git worktree add` was cut off part way through
+	return worktreeRegistered || worktreeOnDisk
+		? { action: "rollback" }
+		: { action: "resume", worktreeReady: false };
+}
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import type { WorkspaceTemplate } from "@superset/local-db";
+import {
+	getProjectTemplates,
+	listWorkspaceTemplates,
+	resolveWorkspaceTemplate,
+} from "./templates";
+
+const agentTemplate: WorkspaceTemplate = {
+	name: "agent",
+	tabs: [{ layout: { type: "terminal", commands: ["claude"] } }],
+};
+
+const userTemplate: WorkspaceTemplate = {
+	name: "mine",
+	isDefault: true,
+	tabs: [{ layout: { type: "terminal" } }],
+};
+
+describe("getProjectTemplates", () => {
+	test("skips invalid templates but keeps valid ones", () => {
+		const templates = getProjectTemplates({
+			setup: ["bun install"],
+			templates: [
+				agentTemplate,
+				{ name: "broken", tabs: [] },
+				{
+					name: "bad-pane",
+					tabs: [{ layout: { type: "editor" } }],
+				},
+			] as unknown as WorkspaceTemplate[],
+		});
+		expect(templates).toEqual([agentTemplate]);
+	});
+
+	test("returns empty list without templates", () => {
+		expect(getProjectTemplates(null)).toEqual([]);
+		expect(getProjectTemplates({ setup: [] })).toEqual([]);
+	});
+});
+
+describe("resolveWorkspaceTemplate", () => {
+	test("prefers the project's defaultTemplate", () => {
+		expect(
+			resolveWorkspaceTemplate({
+				setupConfig: { templates: [agentTemplate], defaultTemplate: "agent" },
+				userTemplates: [userTemplate],
+			}),
+		).toEqual(agentTemplate);
+	});
+
+	test("falls back to a template marked isDefault", () => {
+		expect(
+			resolveWorkspaceTemplate({
+				setupConfig: { templates: [agentTemplate] },
+				userTemplates: [userTemplate],
+			}),
+		).toEqual(userTemplate);
+	});
+
+	test("returns null when opted out or nothing is configured", () => {
+		expect(
+			resolveWorkspaceTemplate({
+				setupConfig: { templates: [agentTemplate], defaultTemplate: "agent" },
+				userTemplates: [],
+				templateName: null,
+			}),
+		).toBeNull();
+		expect(
+			resolveWorkspaceTemplate({ setupConfig: null, userTemplates: [] }),
+		).toBeNull();
+	});
+
+	test("project templates shadow user templates with the same name", () => {
+		const shadowed = { ...userTemplate, name: "agent" };
+		expect(
+			resolveWorkspaceTemplate({
+				setupConfig: { templates: [agentTemplate] },
+				userTemplates: [shadowed],
+				templateName: "agent",
+			}),
+		).toEqual(agentTemplate);
+	});
+
+	test("throws for an unknown explicit template", () => {
+		expect(() =>
+			resolveWorkspaceTemplate({
+				setupConfig: null,
+				userTemplates: [],
+				templateName: "missing",
+			}),
+		).toThrow('Workspace template "missing" not found');
+	});
+});
+
+describe("listWorkspaceTemplates", () => {
+	test("lists project and user templates with the default flagged", () => {
+		expect(
+			listWorkspaceTemplates({
+				setupConfig: { templates: [agentTemplate], defaultTemplate: "agent" },
+				userTemplates: [userTemplate],
+			}),
+		).toEqual([
+			{
+				name: "agent",
+				description: undefined,
+				source: "project",
+				isDefault: true,
+			},
+			{
+				name: "mine",
+				description: undefined,
+				source: "user",
+				isDefault: false,
+			},
+		]);
+	});
+});
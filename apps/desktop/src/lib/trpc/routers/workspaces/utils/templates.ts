@@ -0,0 +1,139 @@
+import {
+	type WorkspaceTemplate,
+	workspaceTemplateSchema,
+} from "@superset/local-db";
+import type { SetupConfig } from "shared/types";
+
+export type WorkspaceTemplateSource = "project" | "user";
+
+export interface WorkspaceTemplateSummary {
+	name: string;
+	description?: string;
+	source: WorkspaceTemplateSource;
+	isDefault: boolean;
+}
+
+/**
+ * Validates templates from .superset/config.json. Invalid entries are skipped
+ * (with a warning) instead of discarding the whole config, so setup/teardown
+ * keep working while a template is being edited.
+ */
+export function getProjectTemplates(
+	setupConfig: SetupConfig | null,
+): WorkspaceTemplate[] {
+	const raw: unknown = setupConfig?.templates;
+	if (!Array.isArray(raw)) {
+		return [];
+	}
+
+	const templates: WorkspaceTemplate[] = [];
+	for (const entry of raw) {
+		const parsed = workspaceTemplateSchema.safeParse(entry);
+		if (parsed.success) {
+			templates.push(parsed.data);
+		} else {
+			console.warn(
+				"[workspace-templates] Skipping invalid template in config.json:",
+				parsed.error.issues,
+			);
+		}
+	}
+	return templates;
+}
+
+/**
+ * Project templates shadow user templates with the same name.
+ */
+function mergeTemplates(
+	projectTemplates: WorkspaceTemplate[],
+	userTemplates: WorkspaceTemplate[],
+): { template: WorkspaceTemplate; source: WorkspaceTemplateSource }[] {
+	const projectNames = new Set(projectTemplates.map((t) => t.name));
+	return [
+		...projectTemplates.map((template) => ({
+			template,
+			source: "project" as const,
+		})),
+		...userTemplates
+			.filter((template) => !projectNames.has(template.name))
+			.map((template) => ({ template, source: "user" as const })),
+	];
+}
+
+/**
+ * Name of the template applied when the user doesn't pick one:
+ * the project's defaultTemplate, then a project or user template marked isDefault.
+ */
+function getDefaultTemplateName(params: {
+	setupConfig: SetupConfig | null;
+	projectTemplates: WorkspaceTemplate[];
+	userTemplates: WorkspaceTemplate[];
+}): string | null {
+	const { setupConfig, projectTemplates, userTemplates } = params;
+	const merged = mergeTemplates(projectTemplates, userTemplates);
+
+	const configured = setupConfig?.defaultTemplate;
+	if (
+		configured &&
+		merged.some(({ template }) => template.name === configured)
+	) {
+		return configured;
+	}
+
+	return (
+		merged.find(({ template }) => template.isDefault)?.template.name ?? null
+	);
+}
+
+export function listWorkspaceTemplates(params: {
+	setupConfig: SetupConfig | null;
+	userTemplates: WorkspaceTemplate[];
+}): WorkspaceTemplateSummary[] {
+	const projectTemplates = getProjectTemplates(params.setupConfig);
+	const defaultName = getDefaultTemplateName({
+		setupConfig: params.setupConfig,
+		projectTemplates,
+		userTemplates: params.userTemplates,
+	});
+
+	return mergeTemplates(projectTemplates, params.userTemplates).map(
+		({ template, source }) => ({
+			name: template.name,
+			description: template.description,
+			source,
+			isDefault: template.name === defaultName,
+		}),
+	);
+}
+
+/**
+ * Picks the template to apply to a new workspace.
+ *
+ * @param templateName - explicit choice; null opts out, undefined uses the default
+ */
+export function resolveWorkspaceTemplate(params: {
+	setupConfig: SetupConfig | null;
+	userTemplates: WorkspaceTemplate[];
+	templateName?: string | null;
+}): WorkspaceTemplate | null {
+	const { setupConfig, userTemplates, templateName } = params;
+	if (templateName === null) {
+		return null;
+	}
+
+	const projectTemplates = getProjectTemplates(setupConfig);
+	const name =
+		templateName ??
+		getDefaultTemplateName({ setupConfig, projectTemplates, userTemplates });
+	if (!name) {
+		return null;
+	}
+
+	const match = mergeTemplates(projectTemplates, userTemplates).find(
+		({ template }) => template.name === name,
+	);
+	if (!match) {
+		throw new Error(`Workspace template "${name}" not found`);
+	}
+	return match.template;
+}
@@ -1,8 +1,25 @@
-import { projects, worktrees } from "@superset/local-db";
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import {
+	projects,
+	type SelectProject,
+	type SelectWorkspace,
+	type SelectWorkspaceInitJob,
+	workspaces,
+	worktrees,
+} from "@superset/local-db";
 import { eq } from "drizzle-orm";
 import { track } from "main/lib/analytics";
 import { localDb } from "main/lib/local-db";
 import { workspaceInitManager } from "main/lib/workspace-init-manager";
+import { SUPERSET_DIR_NAME, WORKTREES_DIR_NAME } from "shared/constants";
+import {
+	activateProject,
+	getMaxWorkspaceTabOrder,
+	getWorkspaceWithRelations,
+	setLastActiveWorkspace,
+} from "./db-helpers";
 import {
 	branchExistsOnRemote,
 	createWorktree,
@@ -10,9 +27,12 @@ import {
 	hasOriginRemote,
 	refExistsLocally,
 	refreshDefaultBranch,
+	removePartialWorktree,
 	removeWorktree,
 	sanitizeGitError,
+	worktreeExists,
 } from "./git";
+import { type InitRecoveryPlan, planInitRecovery } from "./init-recovery";
 import { copySupersetConfigToWorktree } from "./setup";
 
 export interface WorkspaceInitParams {
@@ -25,15 +45,19 @@ export interface WorkspaceInitParams {
 	/** If true, user explicitly specified baseBranch - don't auto-update it */
 	baseBranchWasExplicit: boolean;
 	mainRepoPath: string;
+	/**
+	 * The worktree was created by an interrupted run of this init; resume at
+	 * copying config
+	 */
+	worktreeReady?: boolean;
 }
 
 /**
- * Background initialization for workspace worktree.
- * This runs after the fast-path mutation returns, streaming progress to the renderer.
- *
- * Does NOT throw - errors are communicated via progress events.
+ * Steps 1-4: sync with the remote, pick a start point and create the
+ * worktree. Returns the effective base branch, or null when init should stop
+ * (failure already reported, or cancelled).
  */
-export async function initializeWorkspaceWorktree({
+async function syncAndCreateWorktree({
 	workspaceId,
 	projectId,
 	worktreeId,
@@ -42,194 +66,226 @@ export async function initializeWorkspaceWorktree({
 	baseBranch,
 	baseBranchWasExplicit,
 	mainRepoPath,
-}: WorkspaceInitParams): Promise<void> {
+}: WorkspaceInitParams): Promise<string | null> {
 	const manager = workspaceInitManager;
 
-	try {
-		// Acquire per-project lock to prevent concurrent git operations
-		await manager.acquireProjectLock(projectId);
+	// Step 1: Sync with remote
+	manager.updateProgress(workspaceId, "syncing", "Syncing with remote...");
+	const remoteDefaultBranch = await refreshDefaultBranch(mainRepoPath);
 
-		// Check cancellation before starting (use durable cancellation check)
-		// Note: We don't emit "failed" progress for cancellations because the workspace
-		// is being deleted. Emitting would trigger a refetch race condition where the
-		// workspace temporarily reappears. finalizeJob() in the finally block will
-		// still unblock waitForInit() callers.
-		if (manager.isCancellationRequested(workspaceId)) {
-			return;
+	// Track the effective baseBranch - may be updated if auto-derived and remote differs
+	let effectiveBaseBranch = baseBranch;
+
+	// Update project's default branch if it changed
+	if (remoteDefaultBranch) {
+		const project = localDb
+			.select()
+			.from(projects)
+			.where(eq(projects.id, projectId))
+			.get();
+		if (project && remoteDefaultBranch !== project.defaultBranch) {
+			localDb
+				.update(projects)
+				.set({ defaultBranch: remoteDefaultBranch })
+				.where(eq(projects.id, projectId))
+				.run();
 		}
 
-		// Step 1: Sync with remote
-		manager.updateProgress(workspaceId, "syncing", "Syncing with remote...");
-		const remoteDefaultBranch = await refreshDefaultBranch(mainRepoPath);
+		// If baseBranch was auto-derived and differs from remote,
+		// update the worktree record so retries use the correct branch
+		if (!baseBranchWasExplicit && remoteDefaultBranch !== baseBranch) {
+			console.log(
+				`[workspace-init] Auto-updating baseBranch from "${baseBranch}" to "${remoteDefaultBranch}" for workspace ${workspaceId}`,
+			);
+			effectiveBaseBranch = remoteDefaultBranch;
+			localDb
+				.update(worktrees)
+				.set({ baseBranch: remoteDefaultBranch })
+				.where(eq(worktrees.id, worktreeId))
+				.run();
+		}
+	}
 
-		// Track the effective baseBranch - may be updated if auto-derived and remote differs
-		let effectiveBaseBranch = baseBranch;
+	if (manager.isCancellationRequested(workspaceId)) {
+		return null;
+	}
 
-		// Update project's default branch if it changed
-		if (remoteDefaultBranch) {
-			const project = localDb
-				.select()
-				.from(projects)
-				.where(eq(projects.id, projectId))
-				.get();
-			if (project && remoteDefaultBranch !== project.defaultBranch) {
-				localDb
-					.update(projects)
-					.set({ defaultBranch: remoteDefaultBranch })
-					.where(eq(projects.id, projectId))
-					.run();
-			}
+	// Step 2: Verify remote and branch
+	manager.updateProgress(workspaceId, "verifying", "Verifying base branch...");
+	const hasRemote = await hasOriginRemote(mainRepoPath);
 
-			// If baseBranch was auto-derived and differs from remote,
-			// update the worktree record so retries use the correct branch
-			if (!baseBranchWasExplicit && remoteDefaultBranch !== baseBranch) {
-				console.log(
-					`[workspace-init] Auto-updating baseBranch from "${baseBranch}" to "${remoteDefaultBranch}" for workspace ${workspaceId}`,
-				);
-				effectiveBaseBranch = remoteDefaultBranch;
-				localDb
-					.update(worktrees)
-					.set({ baseBranch: remoteDefaultBranch })
-					.where(eq(worktrees.id, worktreeId))
-					.run();
-			}
+	// Helper to resolve local ref with proper fallback order
+	const resolveLocalStartPoint = async (
+		reason: string,
+	): Promise<string | null> => {
+		// Fallback order: origin/<branch> (local tracking) > local branch > fail
+		const originRef = `origin/${effectiveBaseBranch}`;
+		if (await refExistsLocally(mainRepoPath, originRef)) {
+			console.log(
+				`[workspace-init] ${reason}. Using local tracking ref: ${originRef}`,
+			);
+			return originRef;
 		}
-
-		if (manager.isCancellationRequested(workspaceId)) {
-			return;
+		if (await refExistsLocally(mainRepoPath, effectiveBaseBranch)) {
+			console.log(
+				`[workspace-init] ${reason}. Using local branch: ${effectiveBaseBranch}`,
+			);
+			return effectiveBaseBranch;
 		}
+		return null;
+	};
 
-		// Step 2: Verify remote and branch
-		manager.updateProgress(
-			workspaceId,
-			"verifying",
-			"Verifying base branch...",
+	let startPoint: string;
+	if (hasRemote) {
+		const branchCheck = await branchExistsOnRemote(
+			mainRepoPath,
+			effectiveBaseBranch,
 		);
-		const hasRemote = await hasOriginRemote(mainRepoPath);
-
-		// Helper to resolve local ref with proper fallback order
-		const resolveLocalStartPoint = async (
-			reason: string,
-		): Promise<string | null> => {
-			// Fallback order: origin/<branch> (local tracking) > local branch > fail
-			const originRef = `origin/${effectiveBaseBranch}`;
-			if (await refExistsLocally(mainRepoPath, originRef)) {
-				console.log(
-					`[workspace-init] ${reason}. Using local tracking ref: ${originRef}`,
-				);
-				return originRef;
-			}
-			if (await refExistsLocally(mainRepoPath, effectiveBaseBranch)) {
-				console.log(
-					`[workspace-init] ${reason}. Using local branch: ${effectiveBaseBranch}`,
-				);
-				return effectiveBaseBranch;
-			}
-			return null;
-		};
 
-		let startPoint: string;
-		if (hasRemote) {
-			const branchCheck = await branchExistsOnRemote(
-				mainRepoPath,
-				effectiveBaseBranch,
+		if (branchCheck.status === "error") {
+			// Network/auth error - can't verify, surface to user and try local fallback
+			const sanitizedError = sanitizeGitError(branchCheck.message);
+			console.warn(
+				`[workspace-init] Cannot verify remote branch: ${sanitizedError}. Falling back to local ref.`,
 			);
 
-			if (branchCheck.status === "error") {
-				// Network/auth error - can't verify, surface to user and try local fallback
-				const sanitizedError = sanitizeGitError(branchCheck.message);
-				console.warn(
-					`[workspace-init] Cannot verify remote branch: ${sanitizedError}. Falling back to local ref.`,
-				);
-
-				// Update progress to inform user about the network issue
-				manager.updateProgress(
-					workspaceId,
-					"verifying",
-					"Using local reference (remote unavailable)",
-					sanitizedError,
-				);
+			// Update progress to inform user about the network issue
+			manager.updateProgress(
+				workspaceId,
+				"verifying",
+				"Using local reference (remote unavailable)",
+				sanitizedError,
+			);
 
-				const localRef = await resolveLocalStartPoint("Remote unavailable");
-				if (!localRef) {
-					manager.updateProgress(
-						workspaceId,
-						"failed",
-						"No local reference available",
-						`Cannot reach remote and no local ref for "${effectiveBaseBranch}" exists. Please check your network connection and try again.`,
-					);
-					return;
-				}
-				startPoint = localRef;
-			} else if (branchCheck.status === "not_found") {
-				manager.updateProgress(
-					workspaceId,
-					"failed",
-					"Branch does not exist on remote",
-					`Branch "${effectiveBaseBranch}" does not exist on origin. Please delete this workspace and try again with a different base branch.`,
-				);
-				return;
-			} else {
-				// Branch exists on remote - use remote tracking ref
-				startPoint = `origin/${effectiveBaseBranch}`;
-			}
-		} else {
-			// No remote configured - use local fallback logic
-			const localRef = await resolveLocalStartPoint("No remote configured");
+			const localRef = await resolveLocalStartPoint("Remote unavailable");
 			if (!localRef) {
 				manager.updateProgress(
 					workspaceId,
 					"failed",
 					"No local reference available",
-					`No remote configured and no local ref for "${effectiveBaseBranch}" exists.`,
+					`Cannot reach remote and no local ref for "${effectiveBaseBranch}" exists. Please check your network connection and try again.`,
 				);
-				return;
+				return null;
 			}
 			startPoint = localRef;
+		} else if (branchCheck.status === "not_found") {
+			manager.updateProgress(
+				workspaceId,
+				"failed",
+				"Branch does not exist on remote",
+				`Branch "${effectiveBaseBranch}" does not exist on origin. Please delete this workspace and try again with a different base branch.`,
+			);
+			return null;
+		} else {
+			// Branch exists on remote - use remote tracking ref
+			startPoint = `origin/${effectiveBaseBranch}`;
 		}
+	} else {
+		// No remote configured - use local fallback logic
+		const localRef = await resolveLocalStartPoint("No remote configured");
+		if (!localRef) {
+			manager.updateProgress(
+				workspaceId,
+				"failed",
+				"No local reference available",
+				`No remote configured and no local ref for "${effectiveBaseBranch}" exists.`,
+			);
+			return null;
+		}
+		startPoint = localRef;
+	}
 
-		if (manager.isCancellationRequested(workspaceId)) {
-			return;
+	if (manager.isCancellationRequested(workspaceId)) {
+		return null;
+	}
+
+	// Step 3: Fetch latest
+	manager.updateProgress(workspaceId, "fetching", "Fetching latest changes...");
+	if (hasRemote) {
+		try {
+			await fetchDefaultBranch(mainRepoPath, effectiveBaseBranch);
+		} catch {
+			// Silently continue - branch exists on remote, just couldn't fetch
 		}
+	}
 
-		// Step 3: Fetch latest
-		manager.updateProgress(
-			workspaceId,
-			"fetching",
-			"Fetching latest changes...",
-		);
-		if (hasRemote) {
-			try {
-				await fetchDefaultBranch(mainRepoPath, effectiveBaseBranch);
-			} catch {
-				// Silently continue - branch exists on remote, just couldn't fetch
-			}
+	if (manager.isCancellationRequested(workspaceId)) {
+		return null;
+	}
+
+	// Step 4: Create worktree (SLOW)
+	manager.updateProgress(
+		workspaceId,
+		"creating_worktree",
+		"Creating git worktree...",
+	);
+	await createWorktree(mainRepoPath, branch, worktreePath, startPoint);
+	manager.markWorktreeCreated(workspaceId);
+
+	if (manager.isCancellationRequested(workspaceId)) {
+		// Cleanup: remove the worktree we just created
+		try {
+			await removeWorktree(mainRepoPath, worktreePath);
+		} catch (e) {
+			console.error(
+				"[workspace-init] Failed to cleanup worktree after cancel:",
+				e,
+			);
 		}
+		return null;
+	}
+
+	return effectiveBaseBranch;
+}
 
+/**
+ * Background initialization for workspace worktree.
+ * This runs after the fast-path mutation returns, streaming progress to the renderer.
+ *
+ * Does NOT throw - errors are communicated via progress events.
+ */
+export async function initializeWorkspaceWorktree({
+	workspaceId,
+	projectId,
+	worktreeId,
+	worktreePath,
+	branch,
+	baseBranch,
+	baseBranchWasExplicit,
+	mainRepoPath,
+	worktreeReady = false,
+}: WorkspaceInitParams): Promise<void> {
+	const manager = workspaceInitManager;
+
+	try {
+		// Acquire per-project lock to prevent concurrent git operations
+		await manager.acquireProjectLock(projectId);
+
+		// Check cancellation before starting (use durable cancellation check)
+		// Note: We don't emit "failed" progress for cancellations because the workspace
+		// is being deleted. Emitting would trigger a refetch race condition where the
+		// workspace temporarily reappears. finalizeJob() in the finally block will
+		// still unblock waitForInit() callers.
 		if (manager.isCancellationRequested(workspaceId)) {
 			return;
 		}
 
-		// Step 4: Create worktree (SLOW)
-		manager.updateProgress(
-			workspaceId,
-			"creating_worktree",
-			"Creating git worktree...",
-		);
-		await createWorktree(mainRepoPath, branch, worktreePath, startPoint);
-		manager.markWorktreeCreated(workspaceId);
-
-		if (manager.isCancellationRequested(workspaceId)) {
-			// Cleanup: remove the worktree we just created
-			try {
-				await removeWorktree(mainRepoPath, worktreePath);
-			} catch (e) {
-				console.error(
-					"[workspace-init] Failed to cleanup worktree after cancel:",
-					e,
-				);
+		let effectiveBaseBranch = baseBranch;
+		if (!worktreeReady) {
+			const preparedBaseBranch = await syncAndCreateWorktree({
+				workspaceId,
+				projectId,
+				worktreeId,
+				worktreePath,
+				branch,
+				baseBranch,
+				baseBranchWasExplicit,
+				mainRepoPath,
+			});
+			if (!preparedBaseBranch) {
+				return;
 			}
-			return;
+			effectiveBaseBranch = preparedBaseBranch;
 		}
 
 		// Step 5: Copy config
@@ -310,3 +366,213 @@ export async function initializeWorkspaceWorktree({
 		manager.releaseProjectLock(projectId);
 	}
 }
+
+export interface CreateWorktreeWorkspaceParams {
+	project: SelectProject;
+	branch: string;
+	name?: string;
+	/** Explicit base branch; defaults to the project's cached default branch */
+	baseBranch?: string;
+	fanOut?: { groupId: string; agent: string; agentCommands: string[] };
+}
+
+/**
+ * Inserts the worktree and workspace records and starts background
+ * initialization. Returns immediately without waiting for git.
+ */
+export function createWorktreeWorkspace({
+	project,
+	branch,
+	name,
+	baseBranch,
+	fanOut,
+}: CreateWorktreeWorkspaceParams): {
+	workspace: SelectWorkspace;
+	worktreePath: string;
+} {
+	const worktreePath = join(
+		homedir(),
+		SUPERSET_DIR_NAME,
+		WORKTREES_DIR_NAME,
+		project.name,
+		branch,
+	);
+
+	// Use cached defaultBranch for fast path, will refresh in background
+	// If no cached value exists, use "main" as fallback (background will verify)
+	const defaultBranch = project.defaultBranch || "main";
+	const targetBranch = baseBranch || defaultBranch;
+
+	// Insert worktree record immediately (before git operations)
+	// gitStatus will be updated when initialization completes
+	const worktree = localDb
+		.insert(worktrees)
+		.values({
+			projectId: project.id,
+			path: worktreePath,
+			branch,
+			baseBranch: targetBranch,
+			gitStatus: null, // Will be set when init completes
+		})
+		.returning()
+		.get();
+
+	// Get max tab order for this project's workspaces
+	const maxTabOrder = getMaxWorkspaceTabOrder(project.id);
+
+	const workspace = localDb
+		.insert(workspaces)
+		.values({
+			projectId: project.id,
+			worktreeId: worktree.id,
+			type: "worktree",
+			branch,
+			name: name ?? branch,
+			tabOrder: maxTabOrder + 1,
+			fanOutGroupId: fanOut?.groupId,
+			fanOutAgent: fanOut?.agent,
+			fanOutAgentCommands: fanOut?.agentCommands,
+		})
+		.returning()
+		.get();
+
+	setLastActiveWorkspace(workspace.id);
+	activateProject(project);
+
+	// Track workspace creation (not initialization - that's tracked when it completes)
+	track("workspace_created", {
+		workspace_id: workspace.id,
+		project_id: project.id,
+		branch: branch,
+		base_branch: targetBranch,
+	});
+
+	workspaceInitManager.startJob(workspace.id, project.id);
+
+	// Start background initialization (DO NOT await - return immediately)
+	initializeWorkspaceWorktree({
+		workspaceId: workspace.id,
+		projectId: project.id,
+		worktreeId: worktree.id,
+		worktreePath,
+		branch,
+		baseBranch: targetBranch,
+		baseBranchWasExplicit: !!baseBranch,
+		mainRepoPath: project.mainRepoPath,
+	});
+
+	return { workspace, worktreePath };
+}
+
+/**
+ * Recovers init jobs persisted by a previous run that quit before they
+ * finished: resumes them, or rolls back a half-created worktree and leaves
+ * the job failed. The outcome reaches the renderer as init progress.
+ */
+export async function reconcileInterruptedInits(): Promise<void> {
+	for (const job of workspaceInitManager.getPersistedJobs()) {
+		try {
+			await reconcileInitJob(job);
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error);
+			console.error(
+				`[workspace-init] Failed to recover init for ${job.workspaceId}:`,
+				errorMessage,
+			);
+			workspaceInitManager.restoreFailedJob({
+				workspaceId: job.workspaceId,
+				projectId: job.projectId,
+				step: "failed",
+				message: "Setup was interrupted",
+				error: errorMessage,
+			});
+		}
+	}
+}
+
+async function reconcileInitJob(job: SelectWorkspaceInitJob): Promise<void> {
+	const manager = workspaceInitManager;
+	const relations = getWorkspaceWithRelations(job.workspaceId);
+	const worktree = relations?.worktree;
+	const project = relations?.project;
+
+	// Deletion cleans up after itself; nothing to recover
+	if (!relations || relations.workspace.deletingAt || !worktree || !project) {
+		manager.clearJob(job.workspaceId);
+		return;
+	}
+
+	if (job.step === "failed") {
+		manager.restoreFailedJob({
+			workspaceId: job.workspaceId,
+			projectId: job.projectId,
+			step: "failed",
+			message: job.message,
+			error: job.error ?? undefined,
+		});
+		return;
+	}
+
+	await manager.acquireProjectLock(project.id);
+	let plan: InitRecoveryPlan;
+	try {
+		plan = planInitRecovery({
+			step: job.step,
+			worktreeCreated: job.worktreeCreated,
+			worktreeRegistered: await worktreeExists(
+				project.mainRepoPath,
+				worktree.path,
+			),
+			worktreeOnDisk: existsSync(worktree.path),
+		});
+
+		if (plan.action === "rollback") {
+			await removePartialWorktree(
+				project.mainRepoPath,
+				worktree.path,
+				worktree.branch,
+			);
+		}
+	} finally {
+		manager.releaseProjectLock(project.id);
+	}
+
+	console.log(
+		`[workspace-init] Recovering ${job.workspaceId} from "${job.step}": ${plan.action}`,
+	);
+
+	if (plan.action === "rollback") {
+		manager.restoreFailedJob({
+			workspaceId: job.workspaceId,
+			projectId: job.projectId,
+			step: "failed",
+			message: "Setup was interrupted",
+			error:
+				"The app was closed while the worktree was being created. The partial worktree was removed; retry to set it up again.",
+			recovery: "rolled_back",
+		});
+		return;
+	}
+
+	if (plan.action === "resume") {
+		manager.startJob(job.workspaceId, project.id, {
+			recovery: "resumed",
+			worktreeCreated: plan.worktreeReady,
+		});
+
+		// Run in background like a fresh init; the base branch was settled
+		// by the interrupted run, so treat it as explicit
+		initializeWorkspaceWorktree({
+			workspaceId: job.workspaceId,
+			projectId: project.id,
+			worktreeId: worktree.id,
+			worktreePath: worktree.path,
+			branch: worktree.branch,
+			baseBranch: worktree.baseBranch ?? project.defaultBranch ?? "main",
+			baseBranchWasExplicit: true,
+			mainRepoPath: project.mainRepoPath,
+			worktreeReady: plan.worktreeReady,
+		});
+	}
+}
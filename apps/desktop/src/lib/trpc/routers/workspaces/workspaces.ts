@@ -2,6 +2,7 @@ import { mergeRouters } from "../..";
 import { createBranchProcedures } from "./procedures/branch";
 import { createCreateProcedures } from "./procedures/create";
 import { createDeleteProcedures } from "./procedures/delete";
+import { createFanOutProcedures } from "./procedures/fan-out";
 import { createGitStatusProcedures } from "./procedures/git-status";
 import { createInitProcedures } from "./procedures/init";
 import { createQueryProcedures } from "./procedures/query";
@@ -11,17 +12,20 @@ import { createStatusProcedures } from "./procedures/status";
  * Workspaces router - manages workspace lifecycle, git operations, and status.
  *
  * Procedures are organized into logical groups:
- * - create: create, createBranchWorkspace, openWorktree
+ * - create: listTemplates, create, createBranchWorkspace, openWorktree
+ * - fan-out: fanOut, getFanOutGroup, getDiffStats
  * - delete: delete, close, canDelete
  * - query: get, getAll, getAllGrouped, getActive
  * - branch: getBranches, switchBranchWorkspace
- * - git-status: refreshGitStatus, getGitHubStatus, getWorktreeInfo, getWorktreesByProject
+ * - git-status: refreshGitStatus, getGitHubStatus, getCheckLogs, getWorktreeInfo,
+ *   getWorktreesByProject
  * - status: setActive, reorder, update, setUnread
  * - init: onInitProgress, retryInit, getInitProgress, getSetupCommands
  */
 export const createWorkspacesRouter = () => {
 	return mergeRouters(
 		createCreateProcedures(),
+		createFanOutProcedures(),
 		createDeleteProcedures(),
 		createQueryProcedures(),
 		createBranchProcedures(),
@@ -6,14 +6,20 @@ import path from "node:path";
 import { settings } from "@superset/local-db";
 import { app, BrowserWindow, dialog } from "electron";
 import { makeAppSetup } from "lib/electron-app/factories/app/setup";
+import { reconcileInterruptedInits } from "lib/trpc/routers/workspaces/utils/workspace-init";
 import { DEFAULT_CONFIRM_ON_QUIT, PROTOCOL_SCHEME } from "shared/constants";
 import { setupAgentHooks } from "./lib/agent-setup";
+import { setupAgentTimeline } from "./lib/agent-timeline";
 import { posthog } from "./lib/analytics";
 import { initAppState } from "./lib/app-state";
 import { authService, parseAuthDeepLink } from "./lib/auth";
 import { setupAutoUpdater } from "./lib/auto-updater";
 import { localDb } from "./lib/local-db";
+import { setupSyntheticAgentEvents } from "./lib/notifications/synthetic-events";
+import { setupTerminalTriggerEvents } from "./lib/notifications/terminal-trigger-events";
+import { reverseProxyServer, setupReverseProxy } from "./lib/reverse-proxy";
 import { terminalManager } from "./lib/terminal";
+import { pruneRecordings } from "./lib/terminal/recording";
 import { MainWindow } from "./windows/main";
 
 // Initialize local SQLite database (runs migrations + legacy data migration on import)
@@ -168,6 +174,7 @@ app.on("before-quit", async (event) => {
 	quitState = "cleaning";
 
 	try {
+		reverseProxyServer.stop();
 		await Promise.all([terminalManager.cleanup(), posthog?.shutdown()]);
 	} finally {
 		quitState = "ready-to-quit";
@@ -214,6 +221,19 @@ if (!gotTheLock) {
 			// App can continue without agent hooks, but log the failure
 		}
 
+		setupAgentTimeline();
+		pruneRecordings().catch((error) => {
+			console.error("[main] Failed to prune terminal recordings:", error);
+		});
+		setupSyntheticAgentEvents();
+		setupTerminalTriggerEvents();
+		setupReverseProxy();
+
+		// Runs git in the background; progress streams to the window once open
+		reconcileInterruptedInits().catch((error) => {
+			console.error("[main] Failed to recover workspace init jobs:", error);
+		});
+
 		await makeAppSetup(() => MainWindow());
 		setupAutoUpdater();
 
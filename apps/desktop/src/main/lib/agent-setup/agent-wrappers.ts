@@ -1,27 +1,23 @@
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
+import { shellQuote } from "shared/utils/shell-quote";
+import {
+	getOpenCodePluginTemplate,
+	OPENCODE_PLUGIN_FILE,
+	OPENCODE_PLUGIN_SIGNATURE,
+} from "./builtin-agents";
 import { getNotifyScriptPath } from "./notify-hook";
+import { BIN_DIR, HOOKS_DIR } from "./paths";
 import {
-	BIN_DIR,
-	HOOKS_DIR,
-	OPENCODE_CONFIG_DIR,
-	OPENCODE_PLUGIN_DIR,
-} from "./paths";
-
-export const WRAPPER_MARKER = "# Superset agent-wrapper v1";
-export const CLAUDE_SETTINGS_FILE = "claude-settings.json";
-export const OPENCODE_PLUGIN_FILE = "superset-notify.js";
-
-const OPENCODE_PLUGIN_SIGNATURE = "// Superset opencode plugin";
-const OPENCODE_PLUGIN_VERSION = "v8";
-export const OPENCODE_PLUGIN_MARKER = `${OPENCODE_PLUGIN_SIGNATURE} ${OPENCODE_PLUGIN_VERSION}`;
-
-const OPENCODE_PLUGIN_TEMPLATE_PATH = path.join(
-	__dirname,
-	"templates",
-	"opencode-plugin.template.js",
-);
+	type AgentDefinition,
+	type AgentHookContext,
+	getAgentRegistry,
+	renderAgentTemplate,
+} from "./registry";
+
+export const WRAPPER_SIGNATURE = "# Superset agent-wrapper";
+export const WRAPPER_MARKER = `${WRAPPER_SIGNATURE} v2`;
 
 const REAL_BINARY_RESOLVER = `find_real_binary() {
   local name="$1"
@@ -41,147 +37,154 @@ const REAL_BINARY_RESOLVER = `find_real_binary() {
 }
 `;
 
-function getMissingBinaryMessage(name: string): string {
-	return `Superset: ${name} not found in PATH. Install it and ensure it is on PATH, then retry.`;
+export interface AgentHookFile {
+	filePath: string;
+	content: string;
 }
 
-export function getClaudeWrapperPath(): string {
-	return path.join(BIN_DIR, "claude");
-}
-
-export function getCodexWrapperPath(): string {
-	return path.join(BIN_DIR, "codex");
-}
-
-export function getOpenCodeWrapperPath(): string {
-	return path.join(BIN_DIR, "opencode");
+function getMissingBinaryMessage(name: string): string {
+	return `Superset: ${name} not found in PATH. Install it and ensure it is on PATH, then retry.`;
 }
 
-export function getClaudeSettingsPath(): string {
-	return path.join(HOOKS_DIR, CLAUDE_SETTINGS_FILE);
+export function getAgentHookContext(): AgentHookContext {
+	return { notifyPath: getNotifyScriptPath(), hooksDir: HOOKS_DIR };
 }
 
-export function getOpenCodePluginPath(): string {
-	return path.join(OPENCODE_PLUGIN_DIR, OPENCODE_PLUGIN_FILE);
+export function getAgentWrapperPath(agent: AgentDefinition): string {
+	return path.join(BIN_DIR, agent.binary);
 }
 
-/** @see https://opencode.ai/docs/plugins */
-export function getOpenCodeGlobalPluginPath(): string {
-	const xdgConfigHome = process.env.XDG_CONFIG_HOME?.trim();
-	const configHome = xdgConfigHome?.length
-		? xdgConfigHome
-		: path.join(os.homedir(), ".config");
-	return path.join(configHome, "opencode", "plugin", OPENCODE_PLUGIN_FILE);
-}
-
-export function getClaudeSettingsContent(notifyPath: string): string {
-	const settings = {
-		hooks: {
-			UserPromptSubmit: [{ hooks: [{ type: "command", command: notifyPath }] }],
-			Stop: [{ hooks: [{ type: "command", command: notifyPath }] }],
-			PermissionRequest: [
-				{ matcher: "*", hooks: [{ type: "command", command: notifyPath }] },
-			],
-		},
-	};
-
-	return JSON.stringify(settings);
-}
-
-export function buildClaudeWrapperScript(settingsPath: string): string {
-	return `#!/bin/bash
-${WRAPPER_MARKER}
-# Superset wrapper for Claude Code
-# Injects notification hook settings
-
-${REAL_BINARY_RESOLVER}
-REAL_BIN="$(find_real_binary "claude")"
-if [ -z "$REAL_BIN" ]; then
-  echo "${getMissingBinaryMessage("claude")}" >&2
-  exit 127
-fi
+/** Directories the agent's hooks expect to exist under HOOKS_DIR */
+export function getAgentHookDirs(
+	agent: AgentDefinition,
+	context: AgentHookContext,
+): string[] {
+	const dirs: string[] = [];
+	for (const hook of agent.hooks) {
+		if (hook.type === "config-dir") {
+			dirs.push(path.join(context.hooksDir, hook.dirName));
+		} else if (hook.type === "plugin-file") {
+			dirs.push(path.dirname(path.join(context.hooksDir, hook.path)));
+		} else if (hook.type === "settings-flag") {
+			dirs.push(path.dirname(path.join(context.hooksDir, hook.fileName)));
+		}
+	}
+	return dirs;
+}
+
+/** Settings and plugin files the agent's hooks need on disk */
+export function getAgentHookFiles(
+	agent: AgentDefinition,
+	context: AgentHookContext,
+): AgentHookFile[] {
+	const files: AgentHookFile[] = [];
+	for (const hook of agent.hooks) {
+		if (hook.type === "settings-flag") {
+			files.push({
+				filePath: path.join(context.hooksDir, hook.fileName),
+				content: renderAgentTemplate(hook.content, context),
+			});
+		} else if (hook.type === "plugin-file") {
+			files.push({
+				filePath: path.join(context.hooksDir, hook.path),
+				content: renderAgentTemplate(hook.content, context),
+			});
+		}
+	}
+	return files;
+}
+
+export function buildAgentWrapperScript(
+	agent: AgentDefinition,
+	context: AgentHookContext,
+): string {
+	const exports = [`export SUPERSET_AGENT=${shellQuote(agent.id)}`];
+	const args: string[] = [];
+
+	for (const hook of agent.hooks) {
+		switch (hook.type) {
+			case "settings-flag":
+				args.push(hook.flag, path.join(context.hooksDir, hook.fileName));
+				break;
+			case "args":
+				args.push(...hook.args.map((arg) => renderAgentTemplate(arg, context)));
+				break;
+			case "env":
+				exports.push(
+					`export ${hook.name}=${shellQuote(renderAgentTemplate(hook.value, context))}`,
+				);
+				break;
+			case "config-dir":
+				exports.push(
+					`export ${hook.envVar}=${shellQuote(path.join(context.hooksDir, hook.dirName))}`,
+				);
+				break;
+			case "plugin-file":
+				break;
+		}
+	}
 
-exec "$REAL_BIN" --settings "${settingsPath}" "$@"
-`;
-}
+	const execArgs = [...args.map(shellQuote), '"$@"'].join(" ");
 
-export function buildCodexWrapperScript(notifyPath: string): string {
 	return `#!/bin/bash
 ${WRAPPER_MARKER}
-# Superset wrapper for Codex
-# Injects notification hook settings
+# Superset wrapper for ${agent.displayName}
+# Injects notification hooks from the agent registry
 
 ${REAL_BINARY_RESOLVER}
-REAL_BIN="$(find_real_binary "codex")"
+REAL_BIN="$(find_real_binary ${shellQuote(agent.binary)})"
 if [ -z "$REAL_BIN" ]; then
-  echo "${getMissingBinaryMessage("codex")}" >&2
+  echo "${getMissingBinaryMessage(agent.binary)}" >&2
   exit 127
 fi
 
-exec "$REAL_BIN" -c 'notify=["bash","${notifyPath}"]' "$@"
+${exports.join("\n")}
+exec "$REAL_BIN" ${execArgs}
 `;
 }
 
-export function buildOpenCodeWrapperScript(opencodeConfigDir: string): string {
-	return `#!/bin/bash
-${WRAPPER_MARKER}
-# Superset wrapper for OpenCode
-# Injects OPENCODE_CONFIG_DIR for notification plugin
-
-${REAL_BINARY_RESOLVER}
-REAL_BIN="$(find_real_binary "opencode")"
-if [ -z "$REAL_BIN" ]; then
-  echo "${getMissingBinaryMessage("opencode")}" >&2
-  exit 127
-fi
-
-export OPENCODE_CONFIG_DIR="${opencodeConfigDir}"
-exec "$REAL_BIN" "$@"
-`;
+/** @see https://opencode.ai/docs/plugins */
+export function getOpenCodeGlobalPluginPath(): string {
+	const xdgConfigHome = process.env.XDG_CONFIG_HOME?.trim();
+	const configHome = xdgConfigHome?.length
+		? xdgConfigHome
+		: path.join(os.homedir(), ".config");
+	return path.join(configHome, "opencode", "plugin", OPENCODE_PLUGIN_FILE);
 }
 
 export function getOpenCodePluginContent(notifyPath: string): string {
-	const template = fs.readFileSync(OPENCODE_PLUGIN_TEMPLATE_PATH, "utf-8");
-	return template
-		.replace("{{MARKER}}", OPENCODE_PLUGIN_MARKER)
-		.replace("{{NOTIFY_PATH}}", notifyPath);
-}
-
-function createClaudeSettings(): string {
-	const settingsPath = getClaudeSettingsPath();
-	const notifyPath = getNotifyScriptPath();
-	const settings = getClaudeSettingsContent(notifyPath);
-
-	fs.writeFileSync(settingsPath, settings, { mode: 0o644 });
-	return settingsPath;
-}
-
-export function createClaudeWrapper(): void {
-	const wrapperPath = getClaudeWrapperPath();
-	const settingsPath = createClaudeSettings();
-	const script = buildClaudeWrapperScript(settingsPath);
-	fs.writeFileSync(wrapperPath, script, { mode: 0o755 });
-	console.log("[agent-setup] Created Claude wrapper");
-}
-
-export function createCodexWrapper(): void {
-	const wrapperPath = getCodexWrapperPath();
-	const notifyPath = getNotifyScriptPath();
-	const script = buildCodexWrapperScript(notifyPath);
-	fs.writeFileSync(wrapperPath, script, { mode: 0o755 });
-	console.log("[agent-setup] Created Codex wrapper");
+	return getOpenCodePluginTemplate().replace("{{NOTIFY_PATH}}", notifyPath);
 }
 
 /**
- * Writes to environment-specific path only, NOT the global path.
- * Global path causes dev/prod conflicts when both are running.
+ * Writes hook files and the wrapper for every registered agent.
+ * Plugin files go to environment-specific paths only, NOT global paths,
+ * since global paths cause dev/prod conflicts when both are running.
  */
-export function createOpenCodePlugin(): void {
-	const pluginPath = getOpenCodePluginPath();
-	const notifyPath = getNotifyScriptPath();
-	const content = getOpenCodePluginContent(notifyPath);
-	fs.writeFileSync(pluginPath, content, { mode: 0o644 });
-	console.log("[agent-setup] Created OpenCode plugin");
+export function createAgentWrappers(): void {
+	const context = getAgentHookContext();
+
+	for (const agent of getAgentRegistry()) {
+		try {
+			for (const dir of getAgentHookDirs(agent, context)) {
+				fs.mkdirSync(dir, { recursive: true });
+			}
+			for (const file of getAgentHookFiles(agent, context)) {
+				fs.writeFileSync(file.filePath, file.content, { mode: 0o644 });
+			}
+			fs.writeFileSync(
+				getAgentWrapperPath(agent),
+				buildAgentWrapperScript(agent, context),
+				{ mode: 0o755 },
+			);
+			console.log(`[agent-setup] Created ${agent.displayName} wrapper`);
+		} catch (error) {
+			console.warn(
+				`[agent-setup] Failed to create ${agent.displayName} wrapper:`,
+				error,
+			);
+		}
+	}
 }
 
 /**
@@ -207,10 +210,3 @@ export function cleanupGlobalOpenCodePlugin(): void {
 		);
 	}
 }
-
-export function createOpenCodeWrapper(): void {
-	const wrapperPath = getOpenCodeWrapperPath();
-	const script = buildOpenCodeWrapperScript(OPENCODE_CONFIG_DIR);
-	fs.writeFileSync(wrapperPath, script, { mode: 0o755 });
-	console.log("[agent-setup] Created OpenCode wrapper");
-}
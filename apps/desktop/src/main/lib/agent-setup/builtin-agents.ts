@@ -0,0 +1,112 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { AgentDefinition } from "./registry";
+
+export const CLAUDE_SETTINGS_FILE = "claude-settings.json";
+export const OPENCODE_PLUGIN_FILE = "superset-notify.js";
+/** Relative to HOOKS_DIR */
+export const OPENCODE_CONFIG_DIR_NAME = "opencode";
+
+export const OPENCODE_PLUGIN_SIGNATURE = "// Superset opencode plugin";
+const OPENCODE_PLUGIN_VERSION = "v9";
+export const OPENCODE_PLUGIN_MARKER = `${OPENCODE_PLUGIN_SIGNATURE} ${OPENCODE_PLUGIN_VERSION}`;
+
+const OPENCODE_PLUGIN_TEMPLATE_PATH = path.join(
+	__dirname,
+	"templates",
+	"opencode-plugin.template.js",
+);
+
+/** Plugin source with {{NOTIFY_PATH}} left for the registry to render */
+export function getOpenCodePluginTemplate(): string {
+	const template = fs.readFileSync(OPENCODE_PLUGIN_TEMPLATE_PATH, "utf-8");
+	return template.replace("{{MARKER}}", OPENCODE_PLUGIN_MARKER);
+}
+
+function getClaudeSettings(): Record<string, unknown> {
+	const hook = { type: "command", command: "{{NOTIFY_PATH}}" };
+	return {
+		hooks: {
+			UserPromptSubmit: [{ hooks: [hook] }],
+			Stop: [{ hooks: [hook] }],
+			SubagentStop: [{ hooks: [hook] }],
+			Notification: [{ hooks: [hook] }],
+			PreToolUse: [{ matcher: "*", hooks: [hook] }],
+			PostToolUse: [{ matcher: "*", hooks: [hook] }],
+			PermissionRequest: [{ matcher: "*", hooks: [hook] }],
+		},
+	};
+}
+
+/**
+ * Agents Superset ships wrappers for. Users can override any of these by id
+ * in ~/.superset/agents.json.
+ */
+export function getBuiltinAgents(): AgentDefinition[] {
+	return [
+		{
+			id: "claude",
+			displayName: "Claude Code",
+			binary: "claude",
+			hooks: [
+				{
+					type: "settings-flag",
+					flag: "--settings",
+					fileName: CLAUDE_SETTINGS_FILE,
+					content: JSON.stringify(getClaudeSettings()),
+				},
+			],
+			events: {
+				UserPromptSubmit: "Start",
+				PreToolUse: "PreToolUse",
+				PostToolUse: "PostToolUse",
+				Notification: "Notification",
+				PermissionRequest: "PermissionRequest",
+				SubagentStop: "SubagentStop",
+				Stop: "Stop",
+			},
+		},
+		{
+			id: "codex",
+			displayName: "Codex",
+			binary: "codex",
+			hooks: [
+				{
+					type: "args",
+					args: ["-c", 'notify=["bash","{{NOTIFY_PATH}}"]'],
+				},
+			],
+			events: {
+				"agent-turn-complete": "Stop",
+			},
+		},
+		{
+			id: "opencode",
+			displayName: "OpenCode",
+			binary: "opencode",
+			hooks: [
+				{
+					type: "config-dir",
+					envVar: "OPENCODE_CONFIG_DIR",
+					dirName: OPENCODE_CONFIG_DIR_NAME,
+				},
+				{
+					type: "plugin-file",
+					path: path.join(
+						OPENCODE_CONFIG_DIR_NAME,
+						"plugin",
+						OPENCODE_PLUGIN_FILE,
+					),
+					content: getOpenCodePluginTemplate(),
+				},
+			],
+			events: {
+				Start: "Start",
+				PreToolUse: "PreToolUse",
+				PostToolUse: "PostToolUse",
+				PermissionRequest: "PermissionRequest",
+				Stop: "Stop",
+			},
+		},
+	];
+}
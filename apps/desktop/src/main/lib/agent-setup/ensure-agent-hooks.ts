@@ -1,31 +1,23 @@
 import { promises as fs, constants as fsConstants } from "node:fs";
 import path from "node:path";
 import {
-	buildClaudeWrapperScript,
-	buildCodexWrapperScript,
-	buildOpenCodeWrapperScript,
-	getClaudeSettingsContent,
-	getClaudeSettingsPath,
-	getClaudeWrapperPath,
-	getCodexWrapperPath,
+	buildAgentWrapperScript,
+	getAgentHookContext,
+	getAgentHookDirs,
+	getAgentHookFiles,
+	getAgentWrapperPath,
 	getOpenCodeGlobalPluginPath,
 	getOpenCodePluginContent,
-	getOpenCodePluginPath,
-	getOpenCodeWrapperPath,
-	OPENCODE_PLUGIN_MARKER,
-	WRAPPER_MARKER,
+	WRAPPER_SIGNATURE,
 } from "./agent-wrappers";
+import { OPENCODE_PLUGIN_MARKER } from "./builtin-agents";
 import {
 	getNotifyScriptContent,
 	getNotifyScriptPath,
 	NOTIFY_SCRIPT_MARKER,
 } from "./notify-hook";
-import {
-	BIN_DIR,
-	HOOKS_DIR,
-	OPENCODE_CONFIG_DIR,
-	OPENCODE_PLUGIN_DIR,
-} from "./paths";
+import { BIN_DIR, HOOKS_DIR } from "./paths";
+import { type AgentDefinition, reloadAgentRegistry } from "./registry";
 
 let inFlight: Promise<void> | null = null;
 
@@ -74,15 +66,72 @@ async function ensureScriptFile(params: {
 	}
 }
 
-async function ensureClaudeSettings(): Promise<void> {
-	const settingsPath = getClaudeSettingsPath();
-	const notifyPath = getNotifyScriptPath();
-	const existing = await readFileIfExists(settingsPath);
+/**
+ * Rewrites on any difference so registry changes (new hook events, edits to
+ * agents.json) take effect without a marker bump.
+ */
+async function ensureFileContent(params: {
+	filePath: string;
+	content: string;
+	mode: number;
+	logLabel: string;
+}): Promise<void> {
+	const { filePath, content, mode, logLabel } = params;
+	const existing = await readFileIfExists(filePath);
+
+	if (existing !== content) {
+		await fs.writeFile(filePath, content, { mode });
+		await fs.chmod(filePath, mode);
+		console.log(`[agent-setup] Rewrote ${logLabel}`);
+		return;
+	}
 
-	if (!existing || !existing.includes('"hooks"')) {
-		const content = getClaudeSettingsContent(notifyPath);
-		await fs.writeFile(settingsPath, content, { mode: 0o644 });
-		console.log("[agent-setup] Rewrote Claude settings");
+	const shouldBeExecutable = (mode & 0o111) !== 0;
+	if (shouldBeExecutable && !(await isExecutable(filePath))) {
+		await fs.chmod(filePath, mode);
+	}
+}
+
+async function ensureAgent(agent: AgentDefinition): Promise<void> {
+	const context = getAgentHookContext();
+
+	for (const dir of getAgentHookDirs(agent, context)) {
+		await fs.mkdir(dir, { recursive: true });
+	}
+
+	for (const file of getAgentHookFiles(agent, context)) {
+		await ensureFileContent({
+			filePath: file.filePath,
+			content: file.content,
+			mode: 0o644,
+			logLabel: `${agent.displayName} hook file ${path.basename(file.filePath)}`,
+		});
+	}
+
+	await ensureFileContent({
+		filePath: getAgentWrapperPath(agent),
+		content: buildAgentWrapperScript(agent, context),
+		mode: 0o755,
+		logLabel: `${agent.displayName} wrapper`,
+	});
+}
+
+/**
+ * Removes wrappers for agents that are no longer registered so they stop
+ * shadowing the real binary. Only touches files carrying our signature.
+ */
+async function removeStaleWrappers(agents: AgentDefinition[]): Promise<void> {
+	const expected = new Set(agents.map((agent) => agent.binary));
+	const entries = await fs.readdir(BIN_DIR);
+
+	for (const entry of entries) {
+		if (expected.has(entry)) continue;
+		const filePath = path.join(BIN_DIR, entry);
+		const content = await readFileIfExists(filePath).catch(() => null);
+		if (content?.includes(WRAPPER_SIGNATURE)) {
+			await fs.unlink(filePath);
+			console.log(`[agent-setup] Removed stale wrapper ${entry}`);
+		}
 	}
 }
 
@@ -100,8 +149,6 @@ export function ensureAgentHooks(): Promise<void> {
 
 		await fs.mkdir(BIN_DIR, { recursive: true });
 		await fs.mkdir(HOOKS_DIR, { recursive: true });
-		await fs.mkdir(OPENCODE_CONFIG_DIR, { recursive: true });
-		await fs.mkdir(OPENCODE_PLUGIN_DIR, { recursive: true });
 		const globalOpenCodePluginPath = getOpenCodeGlobalPluginPath();
 		try {
 			await fs.mkdir(path.dirname(globalOpenCodePluginPath), {
@@ -123,31 +170,18 @@ export function ensureAgentHooks(): Promise<void> {
 			logLabel: "notify hook",
 		});
 
-		await ensureClaudeSettings();
-
-		await ensureScriptFile({
-			filePath: getClaudeWrapperPath(),
-			content: buildClaudeWrapperScript(getClaudeSettingsPath()),
-			mode: 0o755,
-			marker: WRAPPER_MARKER,
-			logLabel: "Claude wrapper",
-		});
-
-		await ensureScriptFile({
-			filePath: getCodexWrapperPath(),
-			content: buildCodexWrapperScript(notifyPath),
-			mode: 0o755,
-			marker: WRAPPER_MARKER,
-			logLabel: "Codex wrapper",
-		});
-
-		await ensureScriptFile({
-			filePath: getOpenCodePluginPath(),
-			content: getOpenCodePluginContent(notifyPath),
-			mode: 0o644,
-			marker: OPENCODE_PLUGIN_MARKER,
-			logLabel: "OpenCode plugin",
-		});
+		const agents = reloadAgentRegistry();
+		for (const agent of agents) {
+			try {
+				await ensureAgent(agent);
+			} catch (error) {
+				console.warn(
+					`[agent-setup] Failed to ensure ${agent.displayName} hooks:`,
+					error,
+				);
+			}
+		}
+		await removeStaleWrappers(agents);
 
 		try {
 			await ensureScriptFile({
@@ -163,14 +197,6 @@ export function ensureAgentHooks(): Promise<void> {
 				error,
 			);
 		}
-
-		await ensureScriptFile({
-			filePath: getOpenCodeWrapperPath(),
-			content: buildOpenCodeWrapperScript(OPENCODE_CONFIG_DIR),
-			mode: 0o755,
-			marker: WRAPPER_MARKER,
-			logLabel: "OpenCode wrapper",
-		});
 	})().finally(() => {
 		inFlight = null;
 	});
@@ -1,28 +1,21 @@
 import fs from "node:fs";
 import {
 	cleanupGlobalOpenCodePlugin,
-	createClaudeWrapper,
-	createCodexWrapper,
-	createOpenCodePlugin,
-	createOpenCodeWrapper,
+	createAgentWrappers,
 } from "./agent-wrappers";
 import { createNotifyScript } from "./notify-hook";
-import {
-	BASH_DIR,
-	BIN_DIR,
-	HOOKS_DIR,
-	OPENCODE_PLUGIN_DIR,
-	ZSH_DIR,
-} from "./paths";
+import { BASH_DIR, BIN_DIR, FISH_DIR, HOOKS_DIR, ZSH_DIR } from "./paths";
 import {
 	createBashWrapper,
+	createFishIntegration,
 	createZshWrapper,
 	getShellArgs,
 	getShellEnv,
 } from "./shell-wrappers";
 
 /**
- * Sets up the ~/.superset directory structure and agent wrappers
+ * Sets up the ~/.superset directory structure and a wrapper for every agent
+ * in the registry (built-ins plus ~/.superset/agents.json)
  * Called on app startup
  */
 export function setupAgentHooks(): void {
@@ -33,21 +26,19 @@ export function setupAgentHooks(): void {
 	fs.mkdirSync(HOOKS_DIR, { recursive: true });
 	fs.mkdirSync(ZSH_DIR, { recursive: true });
 	fs.mkdirSync(BASH_DIR, { recursive: true });
-	fs.mkdirSync(OPENCODE_PLUGIN_DIR, { recursive: true });
+	fs.mkdirSync(FISH_DIR, { recursive: true });
 
 	// Clean up stale global plugins that may cause dev/prod conflicts
 	cleanupGlobalOpenCodePlugin();
 
 	// Create scripts
 	createNotifyScript();
-	createClaudeWrapper();
-	createCodexWrapper();
-	createOpenCodePlugin();
-	createOpenCodeWrapper();
+	createAgentWrappers();
 
 	// Create shell initialization wrappers
 	createZshWrapper();
 	createBashWrapper();
+	createFishIntegration();
 
 	console.log("[agent-setup] Agent hooks initialized");
 }
@@ -0,0 +1,214 @@
+import { describe, expect, it } from "bun:test";
+import {
+	buildAgentWrapperScript,
+	getAgentHookDirs,
+	getAgentHookFiles,
+} from "./agent-wrappers";
+import { getBuiltinAgents } from "./builtin-agents";
+import {
+	type AgentDefinition,
+	getAgentCommandPattern,
+	mergeAgentDefinitions,
+	parseAgentsConfig,
+	resolveAgentEventType,
+} from "./registry";
+
+const context = {
+	notifyPath: "/home/me/.superset/hooks/notify.sh",
+	hooksDir: "/home/me/.superset/hooks",
+};
+
+const gemini: AgentDefinition = {
+	id: "gemini",
+	displayName: "Gemini CLI",
+	binary: "gemini",
+	hooks: [
+		{ type: "env", name: "GEMINI_NOTIFY", value: "{{NOTIFY_PATH}}" },
+		{ type: "args", args: ["--hook", "it's {{HOOKS_DIR}}"] },
+	],
+	events: { AfterAgent: "Stop", BeforeAgent: "Start" },
+};
+
+describe("agent-setup/registry", () => {
+	describe("parseAgentsConfig", () => {
+		it("should parse agents and apply defaults", () => {
+			const agents = parseAgentsConfig(
+				JSON.stringify({
+					agents: [{ id: "aider", displayName: "Aider", binary: "aider" }],
+				}),
+			);
+			expect(agents).toEqual([
+				{
+					id: "aider",
+					displayName: "Aider",
+					binary: "aider",
+					hooks: [],
+					events: {},
+				},
+			]);
+		});
+
+		it("should serialize object file contents", () => {
+			const [agent] = parseAgentsConfig(
+				JSON.stringify({
+					agents: [
+						{
+							id: "amp",
+							displayName: "Amp",
+							binary: "amp",
+							hooks: [
+								{
+									type: "settings-flag",
+									flag: "--settings-file",
+									fileName: "amp.json",
+									content: { notify: "{{NOTIFY_PATH}}" },
+								},
+							],
+						},
+					],
+				}),
+			);
+			expect(getAgentHookFiles(agent, context)).toEqual([
+				{
+					filePath: "/home/me/.superset/hooks/amp.json",
+					content: '{"notify":"/home/me/.superset/hooks/notify.sh"}',
+				},
+			]);
+		});
+
+		it("should reject the whole file on invalid entries", () => {
+			const valid = { id: "aider", displayName: "Aider", binary: "aider" };
+			expect(
+				parseAgentsConfig(
+					JSON.stringify({
+						agents: [valid, { ...valid, id: "evil", binary: "rm -rf" }],
+					}),
+				),
+			).toEqual([]);
+			expect(
+				parseAgentsConfig(
+					JSON.stringify({
+						agents: [
+							{
+								...valid,
+								hooks: [
+									{ type: "plugin-file", path: "../../.bashrc", content: "x" },
+								],
+							},
+						],
+					}),
+				),
+			).toEqual([]);
+			expect(parseAgentsConfig("{ not json")).toEqual([]);
+		});
+	});
+
+	describe("mergeAgentDefinitions", () => {
+		it("should let user agents override built-ins by id", () => {
+			const builtins = getBuiltinAgents();
+			const merged = mergeAgentDefinitions(builtins, [
+				{ ...gemini, id: "codex", binary: "codex" },
+				gemini,
+			]);
+			expect(merged.map((agent) => agent.id)).toEqual([
+				"claude",
+				"codex",
+				"opencode",
+				"gemini",
+			]);
+			expect(merged[1].displayName).toBe("Gemini CLI");
+		});
+	});
+
+	describe("getAgentCommandPattern", () => {
+		it("should match registered binaries anywhere in a command", () => {
+			const pattern = getAgentCommandPattern([
+				...getBuiltinAgents(),
+				{ ...gemini, binary: "cursor-agent" },
+			]);
+			expect(pattern.test("cd repo && claude --resume")).toBe(true);
+			expect(pattern.test("cursor-agent")).toBe(true);
+			expect(pattern.test("claudette")).toBe(false);
+			expect(pattern.test("ls -la")).toBe(false);
+		});
+
+		it("should match nothing without agents", () => {
+			expect(getAgentCommandPattern([]).test("claude")).toBe(false);
+		});
+	});
+
+	describe("resolveAgentEventType", () => {
+		const agents = [...getBuiltinAgents(), gemini];
+
+		it("should prefer the agent's own mapping", () => {
+			const other: AgentDefinition = {
+				...gemini,
+				id: "other",
+				binary: "other",
+				events: { AfterAgent: "SubagentStop" },
+			};
+			expect(
+				resolveAgentEventType("AfterAgent", "other", [gemini, other]),
+			).toBe("SubagentStop");
+			expect(resolveAgentEventType("AfterAgent", undefined, agents)).toBe(
+				"Stop",
+			);
+		});
+
+		it("should map built-in event names", () => {
+			expect(
+				resolveAgentEventType("agent-turn-complete", "codex", agents),
+			).toBe("Stop");
+			expect(resolveAgentEventType("UserPromptSubmit", undefined, agents)).toBe(
+				"Start",
+			);
+		});
+
+		it("should map canonical names even without a mapping", () => {
+			expect(resolveAgentEventType("Stop", undefined, [])).toBe("Stop");
+		});
+
+		it("should return null for unknown events", () => {
+			expect(resolveAgentEventType("FutureEvent", "gemini", agents)).toBeNull();
+			expect(
+				resolveAgentEventType("constructor", undefined, agents),
+			).toBeNull();
+		});
+	});
+
+	describe("buildAgentWrapperScript", () => {
+		it("should export hook env vars and inject args before user args", () => {
+			const script = buildAgentWrapperScript(gemini, context);
+			expect(script).toContain("find_real_binary 'gemini'");
+			expect(script).toContain("export SUPERSET_AGENT='gemini'");
+			expect(script).toContain(
+				"export GEMINI_NOTIFY='/home/me/.superset/hooks/notify.sh'",
+			);
+			expect(script).toContain(
+				`exec "$REAL_BIN" '--hook' 'it'\\''s /home/me/.superset/hooks' "$@"`,
+			);
+		});
+
+		it("should build the built-in wrappers", () => {
+			const [claude, codex, opencode] = getBuiltinAgents();
+			expect(buildAgentWrapperScript(claude, context)).toContain(
+				`exec "$REAL_BIN" '--settings' '/home/me/.superset/hooks/claude-settings.json' "$@"`,
+			);
+			expect(buildAgentWrapperScript(codex, context)).toContain(
+				`exec "$REAL_BIN" '-c' 'notify=["bash","/home/me/.superset/hooks/notify.sh"]' "$@"`,
+			);
+			expect(buildAgentWrapperScript(opencode, context)).toContain(
+				"export OPENCODE_CONFIG_DIR='/home/me/.superset/hooks/opencode'",
+			);
+			expect(getAgentHookDirs(opencode, context)).toContain(
+				"/home/me/.superset/hooks/opencode/plugin",
+			);
+			const [plugin] = getAgentHookFiles(opencode, context);
+			expect(plugin.filePath).toBe(
+				"/home/me/.superset/hooks/opencode/plugin/superset-notify.js",
+			);
+			expect(plugin.content).toContain(context.notifyPath);
+			expect(plugin.content).not.toContain("{{");
+		});
+	});
+});
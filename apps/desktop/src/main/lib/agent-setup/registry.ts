@@ -0,0 +1,228 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { AgentActivityEventType } from "shared/notification-types";
+import { z } from "zod";
+import { SUPERSET_HOME_DIR } from "../app-environment";
+import { getBuiltinAgents } from "./builtin-agents";
+
+/**
+ * Declarative registry of CLI agents that get a Superset wrapper in
+ * ~/.superset/bin. Built-in agents can be overridden and new agents added in
+ * ~/.superset/agents.json, e.g.:
+ *
+ * {
+ *   "agents": [{
+ *     "id": "gemini",
+ *     "displayName": "Gemini CLI",
+ *     "binary": "gemini",
+ *     "hooks": [{ "type": "env", "name": "GEMINI_NOTIFY", "value": "{{NOTIFY_PATH}}" }],
+ *     "events": { "AfterAgent": "Stop", "BeforeAgent": "Start" }
+ *   }]
+ * }
+ *
+ * String values support {{NOTIFY_PATH}} (the notify hook script) and
+ * {{HOOKS_DIR}} (~/.superset/hooks) placeholders.
+ */
+export const AGENTS_CONFIG_PATH = path.join(SUPERSET_HOME_DIR, "agents.json");
+
+const AGENT_EVENT_TYPES = [
+	"Start",
+	"PreToolUse",
+	"PostToolUse",
+	"Notification",
+	"PermissionRequest",
+	"SubagentStop",
+	"Stop",
+] as const satisfies readonly AgentActivityEventType[];
+
+/** Ids and binaries end up in file names, shell scripts and a regex */
+const SAFE_NAME_PATTERN = /^[\w][\w.-]*$/;
+
+/** Relative to HOOKS_DIR, without escaping it */
+const relativeHookPathSchema = z
+	.string()
+	.min(1)
+	.refine(
+		(value) =>
+			!path.isAbsolute(value) && !path.normalize(value).startsWith(".."),
+		"Path must stay inside the hooks directory",
+	);
+
+const fileContentSchema = z
+	.union([z.string(), z.record(z.string(), z.unknown())])
+	.transform((value) =>
+		typeof value === "string" ? value : JSON.stringify(value),
+	);
+
+const agentHookInjectionSchema = z.discriminatedUnion("type", [
+	/** Write a settings file and pass it with a CLI flag (`claude --settings <file>`) */
+	z.object({
+		type: z.literal("settings-flag"),
+		flag: z.string().min(1),
+		fileName: relativeHookPathSchema,
+		content: fileContentSchema,
+	}),
+	/** Extra CLI args placed before the user's args */
+	z.object({
+		type: z.literal("args"),
+		args: z.array(z.string()),
+	}),
+	/** Environment variable exported before running the agent */
+	z.object({
+		type: z.literal("env"),
+		name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/),
+		value: z.string(),
+	}),
+	/** Point the agent at a config directory under HOOKS_DIR via an env var */
+	z.object({
+		type: z.literal("config-dir"),
+		envVar: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/),
+		dirName: relativeHookPathSchema,
+	}),
+	/** Plugin or config file written under HOOKS_DIR (usually inside a config-dir) */
+	z.object({
+		type: z.literal("plugin-file"),
+		path: relativeHookPathSchema,
+		content: fileContentSchema,
+	}),
+]);
+
+export const agentDefinitionSchema = z.object({
+	id: z.string().regex(SAFE_NAME_PATTERN),
+	displayName: z.string().min(1),
+	binary: z.string().regex(SAFE_NAME_PATTERN),
+	hooks: z.array(agentHookInjectionSchema).default([]),
+	/** Raw hook event name -> canonical event */
+	events: z.record(z.string(), z.enum(AGENT_EVENT_TYPES)).default({}),
+});
+
+const agentsConfigSchema = z.object({
+	agents: z.array(agentDefinitionSchema),
+});
+
+export type AgentHookInjection = z.infer<typeof agentHookInjectionSchema>;
+export type AgentDefinition = z.infer<typeof agentDefinitionSchema>;
+
+/**
+ * Parses agents.json. Invalid files are ignored as a whole (with a warning)
+ * so a typo can't leave wrappers half-written.
+ */
+export function parseAgentsConfig(raw: string): AgentDefinition[] {
+	let json: unknown;
+	try {
+		json = JSON.parse(raw);
+	} catch (error) {
+		console.warn(`[agent-setup] Failed to parse ${AGENTS_CONFIG_PATH}:`, error);
+		return [];
+	}
+
+	const parsed = agentsConfigSchema.safeParse(json);
+	if (!parsed.success) {
+		console.warn(
+			`[agent-setup] Ignoring invalid ${AGENTS_CONFIG_PATH}:`,
+			parsed.error.issues,
+		);
+		return [];
+	}
+	return parsed.data.agents;
+}
+
+function loadUserAgents(): AgentDefinition[] {
+	try {
+		return parseAgentsConfig(fs.readFileSync(AGENTS_CONFIG_PATH, "utf-8"));
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Built-in agents merged with user-configured ones. A user entry with the
+ * same id replaces the built-in definition.
+ */
+export function mergeAgentDefinitions(
+	builtins: AgentDefinition[],
+	userAgents: AgentDefinition[],
+): AgentDefinition[] {
+	const byId = new Map(builtins.map((agent) => [agent.id, agent]));
+	for (const agent of userAgents) {
+		byId.set(agent.id, agent);
+	}
+	return Array.from(byId.values());
+}
+
+let cachedAgents: AgentDefinition[] | null = null;
+
+export function getAgentRegistry(): AgentDefinition[] {
+	if (!cachedAgents) {
+		cachedAgents = mergeAgentDefinitions(getBuiltinAgents(), loadUserAgents());
+	}
+	return cachedAgents;
+}
+
+/** Re-read agents.json; called whenever hooks are (re)written */
+export function reloadAgentRegistry(): AgentDefinition[] {
+	cachedAgents = null;
+	return getAgentRegistry();
+}
+
+export function getAgent(id: string): AgentDefinition | undefined {
+	return getAgentRegistry().find((agent) => agent.id === id);
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Matches any registered agent binary anywhere in a command line
+ * (handles "cd repo && claude ...").
+ */
+export function getAgentCommandPattern(
+	agents: AgentDefinition[] = getAgentRegistry(),
+): RegExp {
+	if (agents.length === 0) return /(?!)/;
+	const binaries = agents.map((agent) => escapeRegExp(agent.binary));
+	return new RegExp(`\\b(${binaries.join("|")})\\b`);
+}
+
+/**
+ * Maps a raw hook event name to a canonical event. The given agent's mapping
+ * wins; otherwise any registered agent's mapping is used so payloads that
+ * don't identify their agent still resolve. Canonical names always map to
+ * themselves.
+ */
+export function resolveAgentEventType(
+	rawType: string,
+	agentId?: string,
+	agents: AgentDefinition[] = getAgentRegistry(),
+): AgentActivityEventType | null {
+	const lookup = (agent: AgentDefinition | undefined) =>
+		agent && Object.hasOwn(agent.events, rawType)
+			? agent.events[rawType]
+			: undefined;
+
+	const own = lookup(agents.find((candidate) => candidate.id === agentId));
+	if (own) return own;
+
+	for (const candidate of agents) {
+		const mapped = lookup(candidate);
+		if (mapped) return mapped;
+	}
+
+	const canonical = AGENT_EVENT_TYPES.find((type) => type === rawType);
+	return canonical ?? null;
+}
+
+export interface AgentHookContext {
+	notifyPath: string;
+	hooksDir: string;
+}
+
+export function renderAgentTemplate(
+	value: string,
+	context: AgentHookContext,
+): string {
+	return value
+		.replaceAll("{{NOTIFY_PATH}}", context.notifyPath)
+		.replaceAll("{{HOOKS_DIR}}", context.hooksDir);
+}
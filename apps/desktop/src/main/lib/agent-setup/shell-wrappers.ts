@@ -2,7 +2,24 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import { SUPERSET_DIR_NAME } from "shared/constants";
-import { BASH_DIR, ZSH_DIR } from "./paths";
+import { BASH_DIR, FISH_DIR, ZSH_DIR } from "./paths";
+
+export const SHELL_INTEGRATION_MARKER = "# Superset shell integration v2";
+
+/**
+ * Shell integration script for the given shell: emits OSC 133 prompt,
+ * command and exit markers plus OSC 633 command line and cwd reports
+ */
+function getShellIntegrationScript(shell: "zsh" | "bash" | "fish"): string {
+	const templatePath = path.join(
+		__dirname,
+		"templates",
+		`shell-integration.template.${shell}`,
+	);
+	return fs
+		.readFileSync(templatePath, "utf-8")
+		.replace("{{MARKER}}", SHELL_INTEGRATION_MARKER);
+}
 
 /**
  * Creates zsh initialization wrapper that intercepts shell startup
@@ -26,7 +43,8 @@ _superset_home="\${SUPERSET_ORIG_ZDOTDIR:-$HOME}"
 export ZDOTDIR="$_superset_home"
 [[ -f "$_superset_home/.zshrc" ]] && source "$_superset_home/.zshrc"
 export PATH="$HOME/${SUPERSET_DIR_NAME}/bin:$PATH"
-`;
+
+${getShellIntegrationScript("zsh")}`;
 	fs.writeFileSync(zshrcPath, zshrcScript, { mode: 0o644 });
 	console.log("[agent-setup] Created zsh wrapper");
 }
@@ -58,11 +76,27 @@ fi
 export PATH="$HOME/${SUPERSET_DIR_NAME}/bin:$PATH"
 # Minimal prompt (path/env shown in toolbar) - emerald to match app theme
 export PS1=$'\\[\\e[1;38;2;52;211;153m\\]❯\\[\\e[0m\\] '
-`;
+
+${getShellIntegrationScript("bash")}`;
 	fs.writeFileSync(rcfilePath, script, { mode: 0o644 });
 	console.log("[agent-setup] Created bash wrapper");
 }
 
+/**
+ * Creates fish shell integration as a vendor config snippet, which fish
+ * loads from XDG_DATA_DIRS after the system config and before the user's
+ */
+export function createFishIntegration(): void {
+	const confDir = path.join(FISH_DIR, "fish", "vendor_conf.d");
+	fs.mkdirSync(confDir, { recursive: true });
+	fs.writeFileSync(
+		path.join(confDir, "superset.fish"),
+		getShellIntegrationScript("fish"),
+		{ mode: 0o644 },
+	);
+	console.log("[agent-setup] Created fish integration");
+}
+
 /**
  * Returns shell-specific environment variables for intercepting shell initialization
  */
@@ -73,6 +107,13 @@ export function getShellEnv(shell: string): Record<string, string> {
 			ZDOTDIR: ZSH_DIR,
 		};
 	}
+	if (shell.includes("fish")) {
+		// Fish has no rcfile override; vendor_conf.d is found via XDG_DATA_DIRS
+		const dataDirs = process.env.XDG_DATA_DIRS || "/usr/local/share:/usr/share";
+		return {
+			XDG_DATA_DIRS: `${FISH_DIR}:${dataDirs}`,
+		};
+	}
 	// Bash doesn't need special env vars - we use --rcfile instead
 	return {};
 }
@@ -1,6 +1,6 @@
 #!/bin/bash
 {{MARKER}}
-# Called by CLI agents (Claude Code, Codex, etc.) when they complete or need input
+# Called by CLI agents from the agent registry on lifecycle and tool events
 
 # Only run if inside a Superset terminal
 [ -z "$SUPERSET_TAB_ID" ] && exit 0
@@ -12,35 +12,42 @@ else
   INPUT=$(cat)
 fi
 
-# Extract event type - Claude uses "hook_event_name", Codex uses "type"
-# Use flexible pattern to handle optional whitespace: "key": "value" or "key":"value"
-EVENT_TYPE=$(echo "$INPUT" | grep -oE '"hook_event_name"[[:space:]]*:[[:space:]]*"[^"]*"' | grep -oE '"[^"]*"$' | tr -d '"')
-if [ -z "$EVENT_TYPE" ]; then
-  # Check for Codex "type" field (e.g., "agent-turn-complete")
-  CODEX_TYPE=$(echo "$INPUT" | grep -oE '"type"[[:space:]]*:[[:space:]]*"[^"]*"' | grep -oE '"[^"]*"$' | tr -d '"')
-  if [ "$CODEX_TYPE" = "agent-turn-complete" ]; then
-    EVENT_TYPE="Stop"
-  fi
-fi
-
-# NOTE: We intentionally do NOT default to "Stop" if EVENT_TYPE is empty.
-# Parse failures should not trigger completion notifications.
-# The server will ignore requests with missing eventType (forward compatibility).
+# Nothing to report (parse failures must not look like completions)
+[ -z "$INPUT" ] && exit 0
 
-# Map UserPromptSubmit to Start for simpler handling
-[ "$EVENT_TYPE" = "UserPromptSubmit" ] && EVENT_TYPE="Start"
+# Escape a value for use inside a JSON string. Other control characters have
+# no place in an event and are dropped.
+json_escape() {
+  local value
+  value=$(printf '%s' "$1" | tr -d '\000-\010\013\014\016-\037')
+  value=${value//\\/\\\\}
+  value=${value//\"/\\\"}
+  value=${value//$'\n'/\\n}
+  value=${value//$'\r'/\\r}
+  value=${value//$'\t'/\\t}
+  printf '%s' "$value"
+}
 
-# If no event type was found, skip the notification
-# This prevents parse failures from causing false completion notifications
-[ -z "$EVENT_TYPE" ] && exit 0
+# The agent payload is forwarded as an escaped JSON string, so a malformed
+# payload can't invalidate the request; the server parses it and maps each
+# agent's fields (tool name, tool input, session id, transcript path, ...) to
+# one shape. SUPERSET_AGENT is exported by the agent wrapper and selects its
+# event mapping.
+BODY=$(printf '{"paneId":"%s","tabId":"%s","workspaceId":"%s","env":"%s","version":"%s","agent":"%s","payload":"%s"}' \
+  "$(json_escape "$SUPERSET_PANE_ID")" \
+  "$(json_escape "$SUPERSET_TAB_ID")" \
+  "$(json_escape "$SUPERSET_WORKSPACE_ID")" \
+  "$(json_escape "$SUPERSET_ENV")" \
+  "$(json_escape "$SUPERSET_HOOK_VERSION")" \
+  "$(json_escape "$SUPERSET_AGENT")" \
+  "$(json_escape "$INPUT")")
 
-# Timeouts prevent blocking agent completion if notification server is unresponsive
-curl -sG "http://127.0.0.1:${SUPERSET_PORT:-{{DEFAULT_PORT}}}/hook/complete" \
+# Posted in the background so the agent never waits on it (tool hooks fire on
+# every tool call); timeouts keep a stuck server from leaving curl around
+printf '%s' "$BODY" | curl -s -X POST "http://127.0.0.1:${SUPERSET_PORT:-{{DEFAULT_PORT}}}/hook/v1/event" \
+  -H "Content-Type: application/json" \
   --connect-timeout 1 --max-time 2 \
-  --data-urlencode "paneId=$SUPERSET_PANE_ID" \
-  --data-urlencode "tabId=$SUPERSET_TAB_ID" \
-  --data-urlencode "workspaceId=$SUPERSET_WORKSPACE_ID" \
-  --data-urlencode "eventType=$EVENT_TYPE" \
-  --data-urlencode "env=$SUPERSET_ENV" \
-  --data-urlencode "version=$SUPERSET_HOOK_VERSION" \
-  > /dev/null 2>&1
+  --data-binary @- \
+  > /dev/null 2>&1 &
+
+exit 0
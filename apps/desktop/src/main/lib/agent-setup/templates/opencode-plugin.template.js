@@ -4,8 +4,10 @@
  *
  * This plugin sends desktop notifications when OpenCode sessions need attention.
  * It hooks into session.status (busy/idle), session.idle, session.error, and permission.ask events.
+ * Tool calls (tool.execute.before/after) and token usage from assistant messages
+ * are forwarded too, so Superset can show what the agent is currently doing.
  *
- * ROBUSTNESS FEATURES (v8):
+ * ROBUSTNESS FEATURES (v9):
  * - Session-scoped: Tracks root sessionID, ignores events from other sessions
  * - Deduplication: Only sends Start on idle→busy, Stop on busy→idle transitions
  * - Safe defaults: On error, assumes child session to avoid false positives
@@ -23,8 +25,8 @@
  * @see https://github.com/sst/opencode/blob/dev/packages/app/src/context/notification.tsx
  */
 export const SupersetNotifyPlugin = async ({ $, client }) => {
-  if (globalThis.__supersetOpencodeNotifyPluginV8) return {};
-  globalThis.__supersetOpencodeNotifyPluginV8 = true;
+  if (globalThis.__supersetOpencodeNotifyPluginV9) return {};
+  globalThis.__supersetOpencodeNotifyPluginV9 = true;
 
   // Only run inside a Superset terminal session
   if (!process?.env?.SUPERSET_TAB_ID) return {};
@@ -36,6 +38,7 @@ export const SupersetNotifyPlugin = async ({ $, client }) => {
   let currentState = 'idle'; // 'idle' | 'busy'
   let rootSessionID = null;  // The session we're tracking (first busy session)
   let stopSent = false;      // Prevent duplicate Stop notifications
+  let lastUsage = null;      // Token usage of the latest assistant message
 
   const log = (...args) => {
     if (debug) console.log('[superset-plugin]', ...args);
@@ -44,9 +47,15 @@ export const SupersetNotifyPlugin = async ({ $, client }) => {
   /**
    * Sends a notification to Superset's notification server.
    * Best-effort only - failures are silently ignored to avoid breaking the agent.
+   * Extra fields use Claude's hook payload names so the server maps them the same way.
    */
-  const notify = async (hookEventName) => {
-    const payload = JSON.stringify({ hook_event_name: hookEventName });
+  const notify = async (hookEventName, fields = {}) => {
+    const payload = JSON.stringify({
+      agent: 'opencode',
+      hook_event_name: hookEventName,
+      session_id: rootSessionID ?? undefined,
+      ...fields,
+    });
     log('Sending notification:', hookEventName);
     try {
       await $`bash ${notifyPath} ${payload}`;
@@ -121,7 +130,7 @@ export const SupersetNotifyPlugin = async ({ $, client }) => {
    * Only sends Stop once per busy period and only for root session.
    * Resets rootSessionID after Stop so we can track new sessions.
    */
-  const handleStop = async (sessionID, reason) => {
+  const handleStop = async (sessionID, reason, error) => {
     // Only process events for our root session (if we have one)
     if (rootSessionID && sessionID !== rootSessionID) {
       log('Ignoring stop from non-root session:', sessionID, 'reason:', reason);
@@ -133,7 +142,7 @@ export const SupersetNotifyPlugin = async ({ $, client }) => {
       currentState = 'idle';
       stopSent = true;
       log('Stopping, reason:', reason);
-      await notify('Stop');
+      await notify('Stop', { usage: lastUsage ?? undefined, error });
       // Reset rootSessionID so we can track a new session if OpenCode starts another conversation
       rootSessionID = null;
       log('Reset rootSessionID for next session');
@@ -175,8 +184,26 @@ export const SupersetNotifyPlugin = async ({ $, client }) => {
 
       // Handle session errors (also means session stopped)
       if (event.type === "session.error") {
-        await handleStop(sessionID, 'session.error');
+        const error = event.properties?.error;
+        const message = error?.data?.message || error?.name;
+        await handleStop(sessionID, 'session.error', message);
       }
+
+      // Remember token usage so it can be reported with Stop
+      if (event.type === "message.updated") {
+        const info = event.properties?.info;
+        if (info?.role === "assistant" && info.sessionID === rootSessionID && info.tokens) {
+          lastUsage = info.tokens;
+        }
+      }
+    },
+    "tool.execute.before": async (input, output) => {
+      if (!rootSessionID || input?.sessionID !== rootSessionID) return;
+      await notify("PreToolUse", { tool_name: input.tool, tool_input: output?.args });
+    },
+    "tool.execute.after": async (input) => {
+      if (!rootSessionID || input?.sessionID !== rootSessionID) return;
+      await notify("PostToolUse", { tool_name: input.tool });
     },
     "permission.ask": async (_permission, output) => {
       if (output.status === "ask") {
@@ -0,0 +1,82 @@
+{{MARKER}}
+# Marks prompt, command and exit boundaries (OSC 133) and reports the
+# command line and cwd (OSC 633) so the terminal can track command history
+
+if [[ -z "$SUPERSET_SHELL_INTEGRATION_DISABLED" && -z "$__superset_integration_loaded" ]]; then
+  __superset_integration_loaded=1
+  __superset_executing=""
+  __superset_in_prompt=""
+
+  # Escape a value for an OSC 633 parameter: backslash, semicolon and newline
+  __superset_escape() {
+    local value="$1"
+    value="${value//\\/\\\\}"
+    value="${value//;/\\x3b}"
+    value="${value//$'\n'/\\x0a}"
+    printf '%s' "$value"
+  }
+
+  # First in PROMPT_COMMAND so $? is still the exit code of the last command
+  __superset_prompt_start() {
+    local exit_code=$?
+    __superset_in_prompt=""
+    if [[ -n "$__superset_executing" ]]; then
+      printf '\e]133;D;%s\a' "$exit_code"
+      __superset_executing=""
+    fi
+    return "$exit_code"
+  }
+
+  # Last in PROMPT_COMMAND so prompt themes that rebuild PS1 keep the markers
+  __superset_prompt_end() {
+    local exit_code=$?
+    printf '\e]633;P;Cwd=%s\a' "$(__superset_escape "$PWD")"
+    if [[ "$PS1" != *'\e]133;B\a'* ]]; then
+      PS1='\[\e]133;A\a\]'"$PS1"'\[\e]133;B\a\]'
+    fi
+    __superset_in_prompt=1
+    return "$exit_code"
+  }
+
+  # DEBUG fires before every simple command, including PROMPT_COMMAND itself;
+  # only the first one after the prompt is the command the user entered.
+  # Keeps $? so a chained DEBUG trap still sees the last command's status
+  __superset_preexec() {
+    local exit_code=$?
+    if [[ -n "$COMP_LINE" || -z "$__superset_in_prompt" ]] ||
+      [[ "$BASH_COMMAND" == __superset_prompt_start* ]]; then
+      return "$exit_code"
+    fi
+    __superset_in_prompt=""
+    local command_line
+    command_line="$(HISTTIMEFORMAT= builtin history 1 | sed -e 's/^ *[0-9]*\*\{0,1\} *//')"
+    printf '\e]633;E;%s\a' "$(__superset_escape "$command_line")"
+    printf '\e]133;C\a'
+    __superset_executing=1
+    return "$exit_code"
+  }
+
+  # Command of a `trap -p` line, e.g. `trap -- 'cmd' DEBUG` -> cmd
+  __superset_trap_command() {
+    [[ -n "$1" ]] || return
+    eval "set -- $1"
+    printf '%s' "$3"
+  }
+
+  if [[ -n "${bash_preexec_imported:-}${__bp_imported:-}" ]]; then
+    # bash-preexec owns the DEBUG trap and PROMPT_COMMAND; use its hooks
+    preexec_functions+=(__superset_preexec)
+    precmd_functions=(__superset_prompt_start "${precmd_functions[@]}" __superset_prompt_end)
+  else
+    PROMPT_COMMAND="__superset_prompt_start;${PROMPT_COMMAND:+$PROMPT_COMMAND;}__superset_prompt_end"
+    # Run a DEBUG trap the user already set after ours instead of replacing it
+    # (trap -p must run directly in the substitution to see the shell's traps)
+    __superset_prev_debug_trap="$(trap -p DEBUG)"
+    __superset_prev_debug_trap="$(__superset_trap_command "$__superset_prev_debug_trap")"
+    if [[ -n "$__superset_prev_debug_trap" ]]; then
+      trap '__superset_preexec; eval "$__superset_prev_debug_trap"' DEBUG
+    else
+      trap '__superset_preexec' DEBUG
+    fi
+  fi
+fi
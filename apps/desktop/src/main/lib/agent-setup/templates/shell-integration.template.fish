@@ -0,0 +1,32 @@
+{{MARKER}}
+# Marks prompt, command and exit boundaries (OSC 133) and reports the
+# command line and cwd (OSC 633) so the terminal can track command history
+
+if not set -q SUPERSET_SHELL_INTEGRATION_DISABLED; and not set -q __superset_integration_loaded
+    set -g __superset_integration_loaded 1
+    set -g __superset_executing ""
+
+    # Escape a value for an OSC 633 parameter: backslash, semicolon and newline
+    function __superset_escape
+        string replace -a '\\' '\\\\' -- $argv[1] | string replace -a ';' '\\x3b' | string join '\\x0a'
+    end
+
+    function __superset_prompt_start --on-event fish_prompt
+        printf '\e]633;P;Cwd=%s\a' (__superset_escape "$PWD")
+        printf '\e]133;A\a'
+    end
+
+    function __superset_preexec --on-event fish_preexec
+        printf '\e]633;E;%s\a' (__superset_escape "$argv[1]")
+        printf '\e]133;C\a'
+        set -g __superset_executing 1
+    end
+
+    function __superset_postexec --on-event fish_postexec
+        set -l exit_code $status
+        if test -n "$__superset_executing"
+            printf '\e]133;D;%s\a' $exit_code
+            set -g __superset_executing ""
+        end
+    end
+end
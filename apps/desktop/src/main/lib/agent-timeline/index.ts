@@ -0,0 +1,109 @@
+import { AGENT_EVENT_TYPES, agentEvents } from "@superset/local-db";
+import { and, desc, eq, gt, gte, isNull, lt, or, sql } from "drizzle-orm";
+import { localDb } from "main/lib/local-db";
+import { NOTIFICATION_EVENTS } from "shared/constants";
+import type { AgentLifecycleEvent } from "shared/notification-types";
+import { notificationsEmitter } from "../notifications/server";
+import { buildAgentTimeline, type PaneAgentTimeline } from "./timeline";
+
+export type {
+	AgentTimelineSegment,
+	AgentTimelineState,
+	PaneAgentTimeline,
+} from "./timeline";
+
+/** Events older than this are pruned on startup */
+const AGENT_EVENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Persists an agent lifecycle event and closes the pane's previous segment.
+ * Repeated events of the same type (e.g. UserPromptSubmit while already
+ * running) don't start a new segment.
+ */
+export function recordAgentEvent(
+	event: AgentLifecycleEvent,
+	now = Date.now(),
+): void {
+	const { paneId, workspaceId, eventType } = event;
+	if (!paneId || !workspaceId || !AGENT_EVENT_TYPES.includes(eventType)) {
+		return;
+	}
+
+	const previous = localDb
+		.select()
+		.from(agentEvents)
+		.where(eq(agentEvents.paneId, paneId))
+		.orderBy(desc(agentEvents.timestamp))
+		.limit(1)
+		.get();
+
+	if (previous?.eventType === eventType) return;
+
+	if (previous && previous.durationMs === null) {
+		localDb
+			.update(agentEvents)
+			.set({ durationMs: Math.max(0, now - previous.timestamp) })
+			.where(eq(agentEvents.id, previous.id))
+			.run();
+	}
+
+	localDb
+		.insert(agentEvents)
+		.values({ workspaceId, paneId, eventType, timestamp: now })
+		.run();
+}
+
+export function getWorkspaceAgentTimeline(params: {
+	workspaceId: string;
+	since: number;
+	now?: number;
+}): PaneAgentTimeline[] {
+	// Besides events inside the window, load each pane's last earlier event if
+	// its segment is still open or runs past `since`, so a run that started
+	// before the window keeps its leading segment
+	const rows = localDb
+		.select()
+		.from(agentEvents)
+		.where(
+			and(
+				eq(agentEvents.workspaceId, params.workspaceId),
+				or(
+					gte(agentEvents.timestamp, params.since),
+					isNull(agentEvents.durationMs),
+					gt(
+						sql`${agentEvents.timestamp} + ${agentEvents.durationMs}`,
+						params.since,
+					),
+				),
+			),
+		)
+		.all();
+
+	return buildAgentTimeline(rows, params.now ?? Date.now(), params.since);
+}
+
+/**
+ * Records lifecycle events from the notifications server for the timeline.
+ * Call once at startup.
+ */
+export function setupAgentTimeline(): void {
+	try {
+		localDb
+			.delete(agentEvents)
+			.where(lt(agentEvents.timestamp, Date.now() - AGENT_EVENT_RETENTION_MS))
+			.run();
+	} catch (error) {
+		console.error("[agent-timeline] Failed to prune old events:", error);
+	}
+
+	notificationsEmitter.on(
+		NOTIFICATION_EVENTS.AGENT_LIFECYCLE,
+		(event: AgentLifecycleEvent) => {
+			try {
+				recordAgentEvent(event);
+			} catch (error) {
+				console.error("[agent-timeline] Failed to record event:", error);
+			}
+		},
+	);
+}
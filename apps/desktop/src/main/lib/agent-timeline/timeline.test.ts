@@ -0,0 +1,106 @@
+import { describe, expect, it } from "bun:test";
+import { buildAgentTimeline } from "./timeline";
+
+describe("buildAgentTimeline", () => {
+	it("should split a pane's events into run, wait and idle segments", () => {
+		const [pane] = buildAgentTimeline(
+			[
+				{ paneId: "pane-1", eventType: "Start", timestamp: 0, durationMs: 100 },
+				{
+					paneId: "pane-1",
+					eventType: "PermissionRequest",
+					timestamp: 100,
+					durationMs: 50,
+				},
+				{
+					paneId: "pane-1",
+					eventType: "Start",
+					timestamp: 150,
+					durationMs: 50,
+				},
+				{
+					paneId: "pane-1",
+					eventType: "Stop",
+					timestamp: 200,
+					durationMs: null,
+				},
+			],
+			300,
+		);
+
+		expect(pane).toMatchObject({
+			paneId: "pane-1",
+			runCount: 2,
+			runningMs: 150,
+			waitingMs: 50,
+			idleMs: 100,
+		});
+		expect(
+			pane.segments.map((s) => [s.state, s.start, s.end, s.isOpen]),
+		).toEqual([
+			["running", 0, 100, false],
+			["waiting", 100, 150, false],
+			["running", 150, 200, false],
+			["idle", 200, 300, true],
+		]);
+	});
+
+	it("should sort panes by time spent waiting", () => {
+		const timelines = buildAgentTimeline(
+			[
+				{
+					paneId: "a",
+					eventType: "PermissionRequest",
+					timestamp: 0,
+					durationMs: 10,
+				},
+				{
+					paneId: "b",
+					eventType: "PermissionRequest",
+					timestamp: 0,
+					durationMs: 90,
+				},
+				{ paneId: "c", eventType: "Start", timestamp: 0, durationMs: 500 },
+			],
+			1000,
+		);
+
+		expect(timelines.map((t) => t.paneId)).toEqual(["b", "a", "c"]);
+	});
+
+	it("should order events by timestamp regardless of input order", () => {
+		const [pane] = buildAgentTimeline(
+			[
+				{ paneId: "p", eventType: "Stop", timestamp: 10, durationMs: null },
+				{ paneId: "p", eventType: "Start", timestamp: 0, durationMs: 10 },
+			],
+			20,
+		);
+
+		expect(pane.segments.map((s) => s.state)).toEqual(["running", "idle"]);
+	});
+
+	it("should clip segments that started before the window", () => {
+		const [pane] = buildAgentTimeline(
+			[
+				{ paneId: "p", eventType: "Stop", timestamp: 0, durationMs: 50 },
+				{ paneId: "p", eventType: "Start", timestamp: 50, durationMs: 100 },
+				{ paneId: "p", eventType: "Stop", timestamp: 150, durationMs: null },
+			],
+			200,
+			100,
+		);
+
+		expect(
+			pane.segments.map((s) => [s.state, s.start, s.end, s.isOpen]),
+		).toEqual([
+			["running", 100, 150, false],
+			["idle", 150, 200, true],
+		]);
+		expect(pane).toMatchObject({ runCount: 1, runningMs: 50, idleMs: 50 });
+	});
+
+	it("should return an empty list without events", () => {
+		expect(buildAgentTimeline([], 0)).toEqual([]);
+	});
+});
@@ -0,0 +1,87 @@
+import type { AgentEventType, SelectAgentEvent } from "@superset/local-db";
+
+export type AgentTimelineState = "running" | "waiting" | "idle";
+
+export interface AgentTimelineSegment {
+	state: AgentTimelineState;
+	start: number;
+	end: number;
+	/** True for the pane's latest segment, which extends to now */
+	isOpen: boolean;
+}
+
+export interface AgentTimelineTotals {
+	runningMs: number;
+	waitingMs: number;
+	idleMs: number;
+}
+
+export interface PaneAgentTimeline extends AgentTimelineTotals {
+	paneId: string;
+	segments: AgentTimelineSegment[];
+	/** Number of agent runs (Start events) in the window */
+	runCount: number;
+}
+
+const STATE_BY_EVENT_TYPE: Record<AgentEventType, AgentTimelineState> = {
+	Start: "running",
+	PermissionRequest: "waiting",
+	Stop: "idle",
+};
+
+/**
+ * Builds per-pane timelines from recorded agent events. Each event starts a
+ * segment lasting durationMs, or until `now` if no later event has closed it.
+ * Segments that began before `windowStart` are clipped to it, so a run already
+ * in progress when the window opens still shows from the window's first moment.
+ *
+ * Panes are sorted by time spent waiting for permission, most blocked first.
+ */
+export function buildAgentTimeline(
+	events: Pick<
+		SelectAgentEvent,
+		"paneId" | "eventType" | "timestamp" | "durationMs"
+	>[],
+	now: number,
+	windowStart = Number.NEGATIVE_INFINITY,
+): PaneAgentTimeline[] {
+	const byPane = new Map<string, PaneAgentTimeline>();
+
+	const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+	for (const event of sorted) {
+		const isOpen = event.durationMs === null;
+		const end = isOpen
+			? Math.max(now, event.timestamp)
+			: event.timestamp + Math.max(0, event.durationMs ?? 0);
+		if (event.timestamp < windowStart && end <= windowStart) continue;
+		const start = Math.max(event.timestamp, windowStart);
+
+		let pane = byPane.get(event.paneId);
+		if (!pane) {
+			pane = {
+				paneId: event.paneId,
+				segments: [],
+				runCount: 0,
+				runningMs: 0,
+				waitingMs: 0,
+				idleMs: 0,
+			};
+			byPane.set(event.paneId, pane);
+		}
+
+		const state = STATE_BY_EVENT_TYPE[event.eventType];
+		if (!state) continue;
+
+		pane.segments.push({ state, start, end, isOpen });
+		if (event.eventType === "Start") pane.runCount++;
+
+		const duration = end - start;
+		if (state === "running") pane.runningMs += duration;
+		else if (state === "waiting") pane.waitingMs += duration;
+		else pane.idleMs += duration;
+	}
+
+	return Array.from(byPane.values()).sort(
+		(a, b) => b.waitingMs - a.waitingMs || b.runningMs - a.runningMs,
+	);
+}
@@ -2,7 +2,9 @@ import { homedir } from "node:os";
 import { join } from "node:path";
 import { SUPERSET_DIR_NAME } from "shared/constants";
 
-export const SUPERSET_HOME_DIR = join(homedir(), SUPERSET_DIR_NAME);
+// SUPERSET_HOME_DIR overrides the location, e.g. so tests don't touch ~/.superset
+export const SUPERSET_HOME_DIR =
+	process.env.SUPERSET_HOME_DIR || join(homedir(), SUPERSET_DIR_NAME);
 
 // For lowdb - use our own path instead of app.getPath("userData")
 export const APP_STATE_PATH = join(SUPERSET_HOME_DIR, "app-state.json");
@@ -73,3 +73,21 @@ export function playNotificationSound(): void {
 	const soundPath = getSoundPath(filename);
 	playSoundFile(soundPath);
 }
+
+/**
+ * Plays a specific ringtone, or the user's selected one when no id is given.
+ */
+export function playRingtone(ringtoneId?: string): void {
+	if (!ringtoneId) {
+		playNotificationSound();
+		return;
+	}
+
+	const filename = getRingtoneFilename(ringtoneId);
+	if (!filename) {
+		console.warn(`[notification-sound] Unknown ringtone: ${ringtoneId}`);
+		return;
+	}
+
+	playSoundFile(getSoundPath(filename));
+}
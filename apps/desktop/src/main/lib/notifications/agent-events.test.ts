@@ -0,0 +1,261 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { AgentActivityEvent } from "shared/notification-types";
+import {
+	AgentActivityStore,
+	normalizeAgentEvent,
+	normalizeTokenUsage,
+	parseHookPayload,
+	readTranscriptUsage,
+	summarizeToolInput,
+	toLifecycleEventType,
+} from "./agent-events";
+
+describe("notifications/agent-events", () => {
+	describe("parseHookPayload", () => {
+		it("should parse a payload sent as a JSON string", () => {
+			expect(
+				parseHookPayload('{"hook_event_name":"Stop","session_id":"s1"}'),
+			).toEqual({ hook_event_name: "Stop", session_id: "s1" });
+		});
+
+		it("should pass through payloads sent as objects by older hooks", () => {
+			expect(parseHookPayload({ type: "agent-turn-complete" })).toEqual({
+				type: "agent-turn-complete",
+			});
+		});
+
+		it("should return null for malformed or non-object payloads", () => {
+			expect(parseHookPayload("not json {")).toBeNull();
+			expect(parseHookPayload("[1,2]")).toBeNull();
+			expect(parseHookPayload('"text"')).toBeNull();
+		});
+	});
+
+	describe("normalizeAgentEvent", () => {
+		it("should map a Claude PreToolUse payload", () => {
+			expect(
+				normalizeAgentEvent({
+					hook_event_name: "PreToolUse",
+					session_id: "session-1",
+					transcript_path: "/tmp/transcript.jsonl",
+					tool_name: "Bash",
+					tool_input: { command: "bun test", description: "Run tests" },
+				}),
+			).toEqual({
+				agent: "claude",
+				eventType: "PreToolUse",
+				sessionId: "session-1",
+				transcriptPath: "/tmp/transcript.jsonl",
+				toolName: "Bash",
+				toolInputSummary: "bun test",
+				message: undefined,
+				error: undefined,
+				tokenUsage: undefined,
+			});
+		});
+
+		it("should surface failed tool responses as errors", () => {
+			const event = normalizeAgentEvent({
+				hook_event_name: "PostToolUse",
+				tool_name: "Edit",
+				tool_input: { file_path: "src/index.ts" },
+				tool_response: { success: false, error: "old_string not found" },
+			});
+			expect(event?.error).toBe("old_string not found");
+			expect(event?.toolInputSummary).toBe("src/index.ts");
+		});
+
+		it("should map a Codex turn-complete payload", () => {
+			expect(
+				normalizeAgentEvent({
+					type: "agent-turn-complete",
+					"thread-id": "thread-1",
+					"last-assistant-message": "All done",
+				}),
+			).toMatchObject({
+				agent: "codex",
+				eventType: "Stop",
+				sessionId: "thread-1",
+				message: "All done",
+			});
+		});
+
+		it("should trust the agent field sent by the OpenCode plugin", () => {
+			expect(
+				normalizeAgentEvent({
+					agent: "opencode",
+					hook_event_name: "Stop",
+					usage: { input: 10, output: 5, cache: { read: 2, write: 1 } },
+				}),
+			).toMatchObject({
+				agent: "opencode",
+				eventType: "Stop",
+				tokenUsage: {
+					inputTokens: 10,
+					outputTokens: 5,
+					cacheReadTokens: 2,
+					cacheWriteTokens: 1,
+				},
+			});
+		});
+
+		it("should map UserPromptSubmit to Start", () => {
+			expect(
+				normalizeAgentEvent({ hook_event_name: "UserPromptSubmit" })?.eventType,
+			).toBe("Start");
+		});
+
+		it("should return null for unknown or missing event types", () => {
+			expect(
+				normalizeAgentEvent({ hook_event_name: "FutureEvent" }),
+			).toBeNull();
+			expect(normalizeAgentEvent({})).toBeNull();
+		});
+	});
+
+	describe("summarizeToolInput", () => {
+		it("should collapse whitespace and truncate long values", () => {
+			const summary = summarizeToolInput({
+				command: `echo\n${"x".repeat(300)}`,
+			});
+			expect(summary?.startsWith("echo x")).toBe(true);
+			expect(summary?.length).toBe(200);
+		});
+
+		it("should return undefined for inputs without a known field", () => {
+			expect(summarizeToolInput({ foo: 1 })).toBeUndefined();
+			expect(summarizeToolInput(undefined)).toBeUndefined();
+		});
+	});
+
+	describe("normalizeTokenUsage", () => {
+		it("should map Anthropic usage fields", () => {
+			expect(
+				normalizeTokenUsage({
+					input_tokens: 3,
+					output_tokens: 4,
+					cache_read_input_tokens: 100,
+					cache_creation_input_tokens: 20,
+				}),
+			).toEqual({
+				inputTokens: 3,
+				outputTokens: 4,
+				cacheReadTokens: 100,
+				cacheWriteTokens: 20,
+			});
+		});
+
+		it("should return undefined when no counts are present", () => {
+			expect(normalizeTokenUsage({ service_tier: "standard" })).toBeUndefined();
+			expect(normalizeTokenUsage(null)).toBeUndefined();
+		});
+	});
+
+	describe("toLifecycleEventType", () => {
+		it("should only collapse lifecycle events", () => {
+			expect(toLifecycleEventType("Start")).toBe("Start");
+			expect(toLifecycleEventType("Stop")).toBe("Stop");
+			expect(toLifecycleEventType("PermissionRequest")).toBe(
+				"PermissionRequest",
+			);
+			expect(toLifecycleEventType("PreToolUse")).toBeNull();
+			expect(toLifecycleEventType("SubagentStop")).toBeNull();
+		});
+	});
+
+	describe("readTranscriptUsage", () => {
+		let tmpDir: string;
+
+		beforeEach(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-events-"));
+		});
+
+		afterEach(() => {
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		});
+
+		it("should read usage from the last assistant message", async () => {
+			const transcriptPath = path.join(tmpDir, "transcript.jsonl");
+			fs.writeFileSync(
+				transcriptPath,
+				[
+					JSON.stringify({
+						type: "assistant",
+						message: { usage: { input_tokens: 1, output_tokens: 1 } },
+					}),
+					JSON.stringify({
+						type: "assistant",
+						message: { usage: { input_tokens: 7, output_tokens: 9 } },
+					}),
+					JSON.stringify({ type: "user", message: { content: "hi" } }),
+					"",
+				].join("\n"),
+			);
+
+			expect(await readTranscriptUsage(transcriptPath)).toEqual({
+				inputTokens: 7,
+				outputTokens: 9,
+				cacheReadTokens: undefined,
+				cacheWriteTokens: undefined,
+			});
+		});
+
+		it("should return undefined for missing or non-transcript files", async () => {
+			expect(
+				await readTranscriptUsage(path.join(tmpDir, "missing.jsonl")),
+			).toBeUndefined();
+			expect(await readTranscriptUsage("/etc/hosts")).toBeUndefined();
+		});
+	});
+
+	describe("AgentActivityStore", () => {
+		const makeEvent = (
+			eventType: AgentActivityEvent["eventType"],
+			timestamp: number,
+		): AgentActivityEvent => ({
+			agent: "claude",
+			eventType,
+			timestamp,
+			paneId: "pane-1",
+		});
+
+		it("should keep the latest event as current even when events arrive late", () => {
+			const store = new AgentActivityStore();
+			store.record("pane-1", makeEvent("Start", 2));
+			const activity = store.record("pane-1", makeEvent("Stop", 1));
+
+			expect(activity.current.eventType).toBe("Start");
+			expect(activity.recent.map((event) => event.eventType)).toEqual([
+				"Stop",
+				"Start",
+			]);
+		});
+
+		it("should cap recent events", () => {
+			const store = new AgentActivityStore();
+			for (let i = 0; i < 30; i++) {
+				store.record("pane-1", makeEvent("PreToolUse", i));
+			}
+			expect(store.get("pane-1")?.recent).toHaveLength(20);
+		});
+
+		it("should emit changes and clear panes", () => {
+			const store = new AgentActivityStore();
+			const changes: Array<[string, unknown]> = [];
+			store.on("change", (paneId, activity) =>
+				changes.push([paneId, activity]),
+			);
+
+			store.record("pane-1", makeEvent("Start", 1));
+			store.clear("pane-1");
+			store.clear("pane-1");
+
+			expect(changes).toHaveLength(2);
+			expect(changes[1]).toEqual(["pane-1", null]);
+			expect(store.getAll()).toEqual([]);
+		});
+	});
+});
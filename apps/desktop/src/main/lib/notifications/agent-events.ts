@@ -0,0 +1,306 @@
+import { EventEmitter } from "node:events";
+import fs from "node:fs/promises";
+import type {
+	AgentActivityEvent,
+	AgentActivityEventType,
+	AgentKind,
+	AgentTokenUsage,
+	PaneAgentActivity,
+} from "shared/notification-types";
+import { z } from "zod";
+import { getAgent, resolveAgentEventType } from "../agent-setup/registry";
+
+/**
+ * Structured agent events posted by the notify hook to /hook/v1/event.
+ *
+ * The hook forwards the agent's raw hook payload untouched (bash has no JSON
+ * parser to rely on), so all per-agent field mapping happens here:
+ * - Claude Code: hook input JSON (hook_event_name, tool_name, tool_input, ...)
+ * - Codex: notify JSON (type: "agent-turn-complete", thread-id, ...)
+ * - OpenCode: our plugin builds a Claude-shaped payload with agent: "opencode"
+ *
+ * Event names are resolved through the agent registry, so agents added in
+ * ~/.superset/agents.json only need an `events` mapping.
+ */
+
+export const agentEventRequestSchema = z.object({
+	paneId: z.string().optional(),
+	tabId: z.string().optional(),
+	workspaceId: z.string().optional(),
+	env: z.string().optional(),
+	version: z.string().optional(),
+	/** Registry id exported by the agent wrapper as SUPERSET_AGENT */
+	agent: z.string().optional(),
+	/**
+	 * The agent's hook payload. Hook v4+ sends it as a JSON string so a
+	 * malformed payload can't invalidate the whole request; older hooks
+	 * spliced it in as an object.
+	 */
+	payload: z.union([z.string(), z.record(z.string(), z.unknown())]),
+});
+
+export type AgentEventRequest = z.infer<typeof agentEventRequestSchema>;
+
+export type NormalizedAgentEvent = Omit<
+	AgentActivityEvent,
+	"paneId" | "tabId" | "workspaceId" | "timestamp"
+>;
+
+const MAX_SUMMARY_LENGTH = 200;
+const MAX_MESSAGE_LENGTH = 500;
+
+/** Tool input keys that best describe what a tool call is doing, in priority order */
+const TOOL_INPUT_SUMMARY_KEYS = [
+	"command",
+	"file_path",
+	"filePath",
+	"notebook_path",
+	"path",
+	"pattern",
+	"url",
+	"query",
+	"description",
+	"prompt",
+];
+
+function getString(
+	payload: Record<string, unknown>,
+	key: string,
+): string | undefined {
+	const value = payload[key];
+	return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function truncate(value: string, maxLength: number): string {
+	const singleLine = value.replace(/\s+/g, " ").trim();
+	return singleLine.length > maxLength
+		? `${singleLine.slice(0, maxLength - 1)}…`
+		: singleLine;
+}
+
+function detectAgent(
+	payload: Record<string, unknown>,
+	agentHint: string | undefined,
+): AgentKind {
+	for (const candidate of [agentHint, getString(payload, "agent")]) {
+		if (candidate && getAgent(candidate)) return candidate;
+	}
+	if (getString(payload, "type")) return "codex";
+	if (getString(payload, "hook_event_name")) return "claude";
+	return "unknown";
+}
+
+/** The hook payload as an object, or null when it isn't a JSON object */
+export function parseHookPayload(
+	payload: AgentEventRequest["payload"],
+): Record<string, unknown> | null {
+	if (typeof payload !== "string") return payload;
+	try {
+		const parsed: unknown = JSON.parse(payload);
+		return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+			? (parsed as Record<string, unknown>)
+			: null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Picks the most descriptive field of a tool's input for display,
+ * e.g. the command for Bash or the file path for Edit.
+ */
+export function summarizeToolInput(input: unknown): string | undefined {
+	if (typeof input === "string") {
+		return input ? truncate(input, MAX_SUMMARY_LENGTH) : undefined;
+	}
+	if (!input || typeof input !== "object") return undefined;
+
+	const record = input as Record<string, unknown>;
+	for (const key of TOOL_INPUT_SUMMARY_KEYS) {
+		const value = getString(record, key);
+		if (value) return truncate(value, MAX_SUMMARY_LENGTH);
+	}
+	return undefined;
+}
+
+function toCount(value: unknown): number | undefined {
+	return typeof value === "number" && Number.isFinite(value) && value >= 0
+		? value
+		: undefined;
+}
+
+/**
+ * Accepts Anthropic-style usage (input_tokens, cache_read_input_tokens, ...)
+ * and OpenCode-style usage ({ input, output, cache: { read, write } }).
+ */
+export function normalizeTokenUsage(
+	value: unknown,
+): AgentTokenUsage | undefined {
+	if (!value || typeof value !== "object") return undefined;
+
+	const usage = value as Record<string, unknown>;
+	const cache = (
+		usage.cache && typeof usage.cache === "object" ? usage.cache : {}
+	) as Record<string, unknown>;
+
+	const result: AgentTokenUsage = {
+		inputTokens: toCount(usage.input_tokens ?? usage.input),
+		outputTokens: toCount(usage.output_tokens ?? usage.output),
+		cacheReadTokens: toCount(usage.cache_read_input_tokens ?? cache.read),
+		cacheWriteTokens: toCount(usage.cache_creation_input_tokens ?? cache.write),
+	};
+
+	const hasAny = Object.values(result).some((count) => count !== undefined);
+	return hasAny ? result : undefined;
+}
+
+function getToolError(payload: Record<string, unknown>): string | undefined {
+	const error = getString(payload, "error");
+	if (error) return error;
+
+	const response = payload.tool_response;
+	if (response && typeof response === "object") {
+		const record = response as Record<string, unknown>;
+		if (record.is_error === true || record.success === false) {
+			return getString(record, "error") ?? "Tool call failed";
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Maps a raw hook payload to a canonical activity event.
+ *
+ * Returns null for unknown events so newer agent hooks don't break older
+ * servers (same forward-compatibility rule as mapEventType).
+ */
+export function normalizeAgentEvent(
+	payload: Record<string, unknown>,
+	agentHint?: string,
+): NormalizedAgentEvent | null {
+	const rawType =
+		getString(payload, "hook_event_name") ?? getString(payload, "type");
+	if (!rawType) return null;
+
+	const agent = detectAgent(payload, agentHint);
+	const eventType = resolveAgentEventType(rawType, agent);
+	if (!eventType) return null;
+
+	const toolName = getString(payload, "tool_name");
+	const message =
+		getString(payload, "message") ??
+		getString(payload, "last-assistant-message");
+	const error = getToolError(payload);
+
+	return {
+		agent,
+		eventType,
+		sessionId:
+			getString(payload, "session_id") ?? getString(payload, "thread-id"),
+		transcriptPath: getString(payload, "transcript_path"),
+		toolName,
+		toolInputSummary: toolName
+			? summarizeToolInput(payload.tool_input)
+			: undefined,
+		message: message ? truncate(message, MAX_MESSAGE_LENGTH) : undefined,
+		error: error ? truncate(error, MAX_MESSAGE_LENGTH) : undefined,
+		tokenUsage: normalizeTokenUsage(payload.usage),
+	};
+}
+
+/**
+ * Collapses activity events to the coarse states that drive pane status
+ * indicators and desktop notifications.
+ */
+export function toLifecycleEventType(
+	eventType: AgentActivityEventType,
+): "Start" | "Stop" | "PermissionRequest" | null {
+	if (
+		eventType === "Start" ||
+		eventType === "Stop" ||
+		eventType === "PermissionRequest"
+	) {
+		return eventType;
+	}
+	return null;
+}
+
+/** Only the tail is read; the last assistant turn is always near the end */
+const TRANSCRIPT_TAIL_BYTES = 256 * 1024;
+
+/**
+ * Reads the token usage of the last assistant message in a Claude Code
+ * transcript (JSONL). Claude hooks don't carry usage themselves.
+ */
+export async function readTranscriptUsage(
+	transcriptPath: string,
+): Promise<AgentTokenUsage | undefined> {
+	if (!transcriptPath.endsWith(".jsonl")) return undefined;
+
+	let handle: fs.FileHandle | undefined;
+	try {
+		handle = await fs.open(transcriptPath, "r");
+		const { size } = await handle.stat();
+		const length = Math.min(size, TRANSCRIPT_TAIL_BYTES);
+		const buffer = Buffer.alloc(length);
+		await handle.read(buffer, 0, length, size - length);
+
+		const lines = buffer.toString("utf8").split("\n").reverse();
+		for (const line of lines) {
+			if (!line.includes('"usage"')) continue;
+			try {
+				const entry = JSON.parse(line);
+				const usage = normalizeTokenUsage(entry?.message?.usage);
+				if (usage) return usage;
+			} catch {
+				// First line of the tail is usually cut mid-entry
+			}
+		}
+	} catch {
+		// Transcript missing or unreadable
+	} finally {
+		await handle?.close();
+	}
+	return undefined;
+}
+
+const MAX_RECENT_EVENTS = 20;
+
+/**
+ * Latest agent activity per pane, kept in memory so renderers that subscribe
+ * late (window reload) still see what each agent is currently doing.
+ *
+ * Emits "change" with (paneId, activity | null) on every update.
+ */
+export class AgentActivityStore extends EventEmitter {
+	private activities = new Map<string, PaneAgentActivity>();
+
+	record(paneId: string, event: AgentActivityEvent): PaneAgentActivity {
+		const previous = this.activities.get(paneId);
+		// Turn-end events may land late (transcript read), so order by timestamp
+		const recent = [...(previous?.recent ?? []), event]
+			.sort((a, b) => a.timestamp - b.timestamp)
+			.slice(-MAX_RECENT_EVENTS);
+		const current = recent[recent.length - 1] ?? event;
+		const activity: PaneAgentActivity = { paneId, current, recent };
+
+		this.activities.set(paneId, activity);
+		this.emit("change", paneId, activity);
+		return activity;
+	}
+
+	get(paneId: string): PaneAgentActivity | undefined {
+		return this.activities.get(paneId);
+	}
+
+	getAll(): PaneAgentActivity[] {
+		return Array.from(this.activities.values());
+	}
+
+	clear(paneId: string): void {
+		if (!this.activities.delete(paneId)) return;
+		this.emit("change", paneId, null);
+	}
+}
+
+export const agentActivityStore = new AgentActivityStore();
@@ -3,9 +3,21 @@ import express from "express";
 import { NOTIFICATION_EVENTS } from "shared/constants";
 import { debugLog } from "shared/debug";
 import { env } from "shared/env.shared";
-import type { AgentLifecycleEvent } from "shared/notification-types";
+import type {
+	AgentActivityEvent,
+	AgentLifecycleEvent,
+} from "shared/notification-types";
+import { resolveAgentEventType } from "../agent-setup/registry";
 import { appState } from "../app-state";
 import { HOOK_PROTOCOL_VERSION } from "../terminal/env";
+import {
+	agentActivityStore,
+	agentEventRequestSchema,
+	normalizeAgentEvent,
+	parseHookPayload,
+	readTranscriptUsage,
+	toLifecycleEventType,
+} from "./agent-events";
 
 // Re-export types for backwards compatibility
 export type {
@@ -24,8 +36,9 @@ export const notificationsEmitter = new EventEmitter();
 
 const app = express();
 
-// Parse JSON request bodies
-app.use(express.json());
+// Parse JSON request bodies. Agent hook payloads include full tool output
+// (e.g. PostToolUse file contents), so allow more than the 100kb default.
+app.use(express.json({ limit: "10mb" }));
 
 // CORS
 app.use((req, res, next) => {
@@ -39,7 +52,7 @@ app.use((req, res, next) => {
 
 /**
  * Maps incoming event types to canonical lifecycle events.
- * Handles variations from different agent CLIs.
+ * Handles variations from different agent CLIs via the agent registry.
  *
  * Returns null for unknown events - caller should ignore these gracefully
  * to maintain forward compatibility with newer hook versions.
@@ -55,16 +68,9 @@ export function mapEventType(
 	if (!eventType) {
 		return null; // Missing eventType should be ignored, not treated as Stop
 	}
-	if (eventType === "Start" || eventType === "UserPromptSubmit") {
-		return "Start";
-	}
-	if (eventType === "PermissionRequest") {
-		return "PermissionRequest";
-	}
-	if (eventType === "Stop" || eventType === "agent-turn-complete") {
-		return "Stop";
-	}
-	return null; // Unknown events are ignored for forward compatibility
+	const activityEventType = resolveAgentEventType(eventType);
+	// Unknown events are ignored for forward compatibility
+	return activityEventType ? toLifecycleEventType(activityEventType) : null;
 }
 
 /**
@@ -180,6 +186,104 @@ app.get("/hook/complete", (req, res) => {
 	res.json({ success: true, paneId: resolvedPaneId, tabId });
 });
 
+/**
+ * Structured agent events (v1). Unlike /hook/complete, the body carries the
+ * agent's full hook payload, normalized in agent-events.ts and stored per pane.
+ * Start/Stop/PermissionRequest are also re-emitted as lifecycle events so
+ * status indicators and desktop notifications keep working.
+ */
+app.post("/hook/v1/event", (req, res) => {
+	const parsed = agentEventRequestSchema.safeParse(req.body);
+	if (!parsed.success) {
+		return res.status(400).json({ success: false, error: "Invalid payload" });
+	}
+
+	const {
+		paneId,
+		tabId,
+		workspaceId,
+		env: clientEnv,
+		version,
+		agent,
+		payload,
+	} = parsed.data;
+
+	if (clientEnv && clientEnv !== SERVER_ENV) {
+		console.warn(
+			`[notifications] Environment mismatch: received ${clientEnv} event on ${SERVER_ENV} server. Ignoring request.`,
+		);
+		return res.json({ success: true, ignored: true, reason: "env_mismatch" });
+	}
+
+	if (version && version !== HOOK_PROTOCOL_VERSION) {
+		console.log(
+			`[notifications] Received hook v${version} event (server expects v${HOOK_PROTOCOL_VERSION})`,
+		);
+	}
+
+	const hookPayload = parseHookPayload(payload);
+	if (!hookPayload) {
+		console.warn(
+			`[notifications] Ignoring agent event with a malformed payload (agent: ${agent ?? "unknown"}, pane: ${paneId ?? "unknown"})`,
+		);
+		return res.json({ success: true, ignored: true, reason: "bad_payload" });
+	}
+
+	const normalized = normalizeAgentEvent(hookPayload, agent || undefined);
+
+	debugLog("notifications", "Received agent event:", {
+		eventType: normalized?.eventType,
+		agent: normalized?.agent,
+		toolName: normalized?.toolName,
+		paneId,
+		tabId,
+		workspaceId,
+	});
+
+	if (!normalized) {
+		return res.json({ success: true, ignored: true });
+	}
+
+	const resolvedPaneId = resolvePaneId(paneId, tabId, workspaceId);
+
+	// Respond before any transcript I/O so the agent is never held up
+	res.json({ success: true, paneId: resolvedPaneId, tabId });
+
+	const lifecycleEventType = toLifecycleEventType(normalized.eventType);
+	if (lifecycleEventType) {
+		const lifecycleEvent: AgentLifecycleEvent = {
+			paneId: resolvedPaneId,
+			tabId,
+			workspaceId,
+			eventType: lifecycleEventType,
+		};
+		notificationsEmitter.emit(
+			NOTIFICATION_EVENTS.AGENT_LIFECYCLE,
+			lifecycleEvent,
+		);
+	}
+
+	if (!resolvedPaneId) return;
+
+	void (async () => {
+		const event: AgentActivityEvent = {
+			...normalized,
+			paneId: resolvedPaneId,
+			tabId,
+			workspaceId,
+			timestamp: Date.now(),
+		};
+
+		const isTurnEnd =
+			event.eventType === "Stop" || event.eventType === "SubagentStop";
+		if (isTurnEnd && !event.tokenUsage && event.transcriptPath) {
+			event.tokenUsage = await readTranscriptUsage(event.transcriptPath);
+		}
+
+		agentActivityStore.record(resolvedPaneId, event);
+	})();
+});
+
 // Health check
 app.get("/health", (_req, res) => {
 	res.json({ status: "ok" });
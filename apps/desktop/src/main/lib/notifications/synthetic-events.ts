@@ -0,0 +1,38 @@
+import { settings } from "@superset/local-db";
+import { localDb } from "main/lib/local-db";
+import {
+	DEFAULT_AGENT_IDLE_TIMEOUT_MINUTES,
+	NOTIFICATION_EVENTS,
+} from "shared/constants";
+import { debugLog } from "shared/debug";
+import type { AgentLifecycleEvent } from "shared/notification-types";
+import { agentActivityMonitor } from "../terminal/activity-monitor";
+import { notificationsEmitter } from "./server";
+
+/**
+ * Connects the terminal activity monitor to the notifications emitter: hook
+ * events keep the monitor's view of each pane current, and events it infers
+ * from terminal output are emitted like hook events, so indicators, desktop
+ * notifications and the timeline don't need to tell them apart.
+ * Call once at startup.
+ */
+export function setupSyntheticAgentEvents(): void {
+	agentActivityMonitor.setIdleTimeout(
+		localDb.select().from(settings).get()?.agentIdleTimeoutMinutes ??
+			DEFAULT_AGENT_IDLE_TIMEOUT_MINUTES,
+	);
+
+	notificationsEmitter.on(
+		NOTIFICATION_EVENTS.AGENT_LIFECYCLE,
+		(event: AgentLifecycleEvent) => {
+			if (event.paneId) {
+				agentActivityMonitor.setStatus(event.paneId, event.eventType);
+			}
+		},
+	);
+
+	agentActivityMonitor.on("lifecycle", (event: AgentLifecycleEvent) => {
+		debugLog("notifications", "Synthetic lifecycle event:", event);
+		notificationsEmitter.emit(NOTIFICATION_EVENTS.AGENT_LIFECYCLE, event);
+	});
+}
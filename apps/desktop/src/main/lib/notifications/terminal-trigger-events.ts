@@ -0,0 +1,24 @@
+import { NOTIFICATION_EVENTS } from "shared/constants";
+import { debugLog } from "shared/debug";
+import type { TerminalTriggerEvent } from "shared/notification-types";
+import { playRingtone } from "../notification-sound";
+import { terminalTriggerManager } from "../terminal/trigger-manager";
+import { notificationsEmitter } from "./server";
+
+/**
+ * Runs terminal trigger actions that belong to main (ringtones) and forwards
+ * every trigger event to the notifications emitter, where the main window
+ * shows desktop notifications and the renderer handles pane actions.
+ * Call once at startup.
+ */
+export function setupTerminalTriggerEvents(): void {
+	terminalTriggerManager.on("trigger", (event: TerminalTriggerEvent) => {
+		debugLog("notifications", "Terminal trigger fired:", event);
+
+		if (event.action.type === "playRingtone") {
+			playRingtone(event.action.ringtoneId);
+		}
+
+		notificationsEmitter.emit(NOTIFICATION_EVENTS.TERMINAL_TRIGGER, event);
+	});
+}
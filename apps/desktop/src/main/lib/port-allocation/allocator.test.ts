@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import { WORKSPACE_PORTS } from "shared/constants";
+import { buildPortEnv, findFreePortBase, toPortEnvName } from "./allocator";
+
+const { RANGE_START, RANGE_END, BLOCK_SIZE } = WORKSPACE_PORTS;
+
+describe("findFreePortBase", () => {
+	test("starts at the beginning of the range", () => {
+		expect(findFreePortBase([])).toBe(RANGE_START);
+	});
+
+	test("fills the first gap", () => {
+		expect(findFreePortBase([RANGE_START, RANGE_START + 2 * BLOCK_SIZE])).toBe(
+			RANGE_START + BLOCK_SIZE,
+		);
+	});
+
+	test("returns null when the range is exhausted", () => {
+		const all: number[] = [];
+		for (let base = RANGE_START; base < RANGE_END; base += BLOCK_SIZE) {
+			all.push(base);
+		}
+		expect(findFreePortBase(all)).toBeNull();
+	});
+});
+
+describe("toPortEnvName", () => {
+	test("upper-snake-cases labels", () => {
+		expect(toPortEnvName("Web Server")).toBe("SUPERSET_PORT_WEB_SERVER");
+		expect(toPortEnvName("api-v2")).toBe("SUPERSET_PORT_API_V2");
+		expect(toPortEnvName("  ✨ ")).toBeNull();
+	});
+});
+
+describe("buildPortEnv", () => {
+	test("numbers named ports from the base in order", () => {
+		expect(buildPortEnv(20010, [{ label: "web" }, { label: "API" }])).toEqual({
+			SUPERSET_PORT_BASE: "20010",
+			SUPERSET_PORT_WEB: "20010",
+			SUPERSET_PORT_API: "20011",
+		});
+	});
+
+	test("skips clashing names and ports past the block", () => {
+		const labels = Array.from({ length: BLOCK_SIZE + 2 }, (_, i) => ({
+			label: `p${i}`,
+		}));
+		const env = buildPortEnv(20000, [{ label: "base" }, ...labels]);
+
+		expect(env.SUPERSET_PORT_BASE).toBe("20000");
+		expect(env.SUPERSET_PORT_P0).toBe("20001");
+		expect(env[`SUPERSET_PORT_P${BLOCK_SIZE - 1}`]).toBeUndefined();
+	});
+});
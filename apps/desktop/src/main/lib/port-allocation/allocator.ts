@@ -0,0 +1,49 @@
+import { WORKSPACE_PORTS } from "shared/constants";
+
+/**
+ * Lowest block start in the workspace port range not taken by another
+ * workspace, or null when every block is in use.
+ */
+export function findFreePortBase(usedBases: Iterable<number>): number | null {
+	const used = new Set(usedBases);
+	for (
+		let base = WORKSPACE_PORTS.RANGE_START;
+		base + WORKSPACE_PORTS.BLOCK_SIZE <= WORKSPACE_PORTS.RANGE_END;
+		base += WORKSPACE_PORTS.BLOCK_SIZE
+	) {
+		if (!used.has(base)) return base;
+	}
+	return null;
+}
+
+/** "Web Server" -> "SUPERSET_PORT_WEB_SERVER" */
+export function toPortEnvName(label: string): string | null {
+	const name = label
+		.toUpperCase()
+		.replace(/[^A-Z0-9]+/g, "_")
+		.replace(/^_+|_+$/g, "");
+	return name ? `SUPERSET_PORT_${name}` : null;
+}
+
+/**
+ * Env vars for a workspace's port block: SUPERSET_PORT_BASE, then one var per
+ * named port from .superset/ports.json, numbered from the base in file order.
+ * Names beyond the block size or clashing with an earlier one are skipped.
+ */
+export function buildPortEnv(
+	portBase: number,
+	namedPorts: Array<{ label: string }> = [],
+): Record<string, string> {
+	const portEnv: Record<string, string> = {
+		SUPERSET_PORT_BASE: String(portBase),
+	};
+
+	namedPorts.slice(0, WORKSPACE_PORTS.BLOCK_SIZE).forEach(({ label }, i) => {
+		const name = toPortEnvName(label);
+		if (name && !(name in portEnv)) {
+			portEnv[name] = String(portBase + i);
+		}
+	});
+
+	return portEnv;
+}
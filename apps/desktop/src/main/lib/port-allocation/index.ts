@@ -0,0 +1,56 @@
+import { workspaces } from "@superset/local-db";
+import { eq } from "drizzle-orm";
+import { localDb } from "main/lib/local-db";
+import { loadStaticPorts } from "main/lib/static-ports";
+import { buildPortEnv, findFreePortBase } from "./allocator";
+
+export { buildPortEnv, findFreePortBase, toPortEnvName } from "./allocator";
+
+/**
+ * The workspace's reserved port block start, reserving one on first use.
+ * Blocks are freed when the workspace row is deleted. Returns null for
+ * unknown workspaces or when the range is exhausted.
+ */
+export function ensureWorkspacePortBase(workspaceId: string): number | null {
+	const workspace = localDb
+		.select()
+		.from(workspaces)
+		.where(eq(workspaces.id, workspaceId))
+		.get();
+	if (!workspace) return null;
+	if (workspace.portBase !== null) return workspace.portBase;
+
+	const usedBases = localDb
+		.select()
+		.from(workspaces)
+		.all()
+		.flatMap((row) => (row.portBase !== null ? [row.portBase] : []));
+
+	const portBase = findFreePortBase(usedBases);
+	if (portBase === null) {
+		console.warn("[port-allocation] No free port blocks left");
+		return null;
+	}
+
+	localDb
+		.update(workspaces)
+		.set({ portBase })
+		.where(eq(workspaces.id, workspaceId))
+		.run();
+	return portBase;
+}
+
+/**
+ * Port env vars for the workspace's terminals and scripts. Named ports come
+ * from the worktree's .superset/ports.json when it is valid.
+ */
+export function getWorkspacePortEnv(
+	workspaceId: string,
+	workspacePath?: string,
+): Record<string, string> {
+	const portBase = ensureWorkspacePortBase(workspaceId);
+	if (portBase === null) return {};
+
+	const staticPorts = workspacePath ? loadStaticPorts(workspacePath) : null;
+	return buildPortEnv(portBase, staticPorts?.ports ?? []);
+}
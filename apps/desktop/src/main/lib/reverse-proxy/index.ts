@@ -0,0 +1,18 @@
+import { settings } from "@superset/local-db";
+import { localDb } from "main/lib/local-db";
+import { DEFAULT_REVERSE_PROXY_ENABLED } from "shared/constants";
+import { reverseProxyServer } from "./server";
+
+export { reverseProxyServer } from "./server";
+
+/** Starts the proxy at launch when it was left enabled */
+export function setupReverseProxy(): void {
+	const enabled =
+		localDb.select().from(settings).get()?.reverseProxyEnabled ??
+		DEFAULT_REVERSE_PROXY_ENABLED;
+	if (!enabled) return;
+
+	reverseProxyServer.start().catch((error) => {
+		console.error("[reverse-proxy] Failed to start:", error);
+	});
+}
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import type { DetectedPort } from "shared/types";
+import {
+	buildProxyRoutes,
+	findRoute,
+	normalizeHost,
+	toHostLabel,
+} from "./routes";
+
+function detected(
+	workspaceId: string,
+	port: number,
+	detectedAt: number,
+): DetectedPort {
+	return {
+		port,
+		pid: 1,
+		processName: "node",
+		paneId: "pane-1",
+		workspaceId,
+		detectedAt,
+		address: "127.0.0.1",
+	};
+}
+
+describe("toHostLabel", () => {
+	test("makes names DNS-safe", () => {
+		expect(toHostLabel("Fix Login (v2)")).toBe("fix-login-v2");
+		expect(toHostLabel("feature/ÜI")).toBe("feature-i");
+		expect(toHostLabel("!!!")).toBe("workspace");
+		expect(toHostLabel("a".repeat(80))).toHaveLength(63);
+	});
+});
+
+describe("normalizeHost", () => {
+	test("drops the port, case and trailing dot", () => {
+		expect(normalizeHost("My-App.localhost:31421")).toBe("my-app.localhost");
+		expect(normalizeHost("app.localhost.")).toBe("app.localhost");
+		expect(normalizeHost(undefined)).toBe("");
+	});
+});
+
+describe("buildProxyRoutes", () => {
+	const workspaces = [
+		{ id: "ws-aaaaaaaa-1", name: "Feature" },
+		{ id: "ws-bbbbbbbb-2", name: "feature" },
+		{ id: "ws-cccccccc-3", name: "Idle" },
+	];
+
+	test("routes each workspace to its earliest detected port", () => {
+		const routes = buildProxyRoutes({
+			workspaces,
+			detectedPorts: [
+				detected("ws-aaaaaaaa-1", 5173, 20),
+				detected("ws-aaaaaaaa-1", 3000, 10),
+				detected("ws-bbbbbbbb-2", 3001, 5),
+			],
+			staticPorts: [],
+			proxyPort: 31421,
+		});
+
+		expect(routes).toEqual([
+			{
+				hostname: "feature.localhost",
+				url: "http://feature.localhost:31421",
+				workspaceId: "ws-aaaaaaaa-1",
+				port: 3000,
+				label: null,
+			},
+			{
+				hostname: "feature-ws-bbbbb.localhost",
+				url: "http://feature-ws-bbbbb.localhost:31421",
+				workspaceId: "ws-bbbbbbbb-2",
+				port: 3001,
+				label: null,
+			},
+		]);
+	});
+
+	test("adds label subdomains for static ports", () => {
+		const routes = buildProxyRoutes({
+			workspaces,
+			detectedPorts: [],
+			staticPorts: [
+				{ workspaceId: "ws-cccccccc-3", port: 4000, label: "Web" },
+				{ workspaceId: "ws-cccccccc-3", port: 4001, label: "API Server" },
+			],
+			proxyPort: 31421,
+		});
+
+		expect(routes.map((r) => [r.hostname, r.port])).toEqual([
+			["idle.localhost", 4000],
+			["web.idle.localhost", 4000],
+			["api-server.idle.localhost", 4001],
+		]);
+	});
+});
+
+describe("findRoute", () => {
+	test("matches the Host header", () => {
+		const routes = buildProxyRoutes({
+			workspaces: [{ id: "ws-1", name: "app" }],
+			detectedPorts: [detected("ws-1", 3000, 1)],
+			staticPorts: [],
+			proxyPort: 31421,
+		});
+
+		expect(findRoute(routes, "APP.localhost:31421")?.port).toBe(3000);
+		expect(findRoute(routes, "other.localhost:31421")).toBeUndefined();
+	});
+});
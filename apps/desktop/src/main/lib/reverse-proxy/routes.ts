@@ -0,0 +1,98 @@
+import type { DetectedPort, ProxyRoute, StaticPort } from "shared/types";
+
+const FALLBACK_HOST_LABEL = "workspace";
+/** DNS labels are limited to 63 characters */
+const MAX_HOST_LABEL_LENGTH = 63;
+
+/** "Fix Login (v2)" -> "fix-login-v2" */
+export function toHostLabel(name: string): string {
+	const label = name
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "")
+		.slice(0, MAX_HOST_LABEL_LENGTH)
+		.replace(/-+$/, "");
+	return label || FALLBACK_HOST_LABEL;
+}
+
+/** Strips the port and trailing dot from a Host header */
+export function normalizeHost(host: string | undefined): string {
+	if (!host) return "";
+	return host.trim().toLowerCase().replace(/:\d+$/, "").replace(/\.$/, "");
+}
+
+/**
+ * Routes for every workspace with a port:
+ * - `<workspace>.localhost` goes to the workspace's earliest detected port,
+ *   or its first static port when nothing has been detected
+ * - `<label>.<workspace>.localhost` goes to each labelled static port
+ *
+ * Workspaces are named in the given order; a later workspace whose name
+ * collides with an earlier one gets its id appended.
+ */
+export function buildProxyRoutes({
+	workspaces,
+	detectedPorts,
+	staticPorts,
+	proxyPort,
+}: {
+	workspaces: Array<{ id: string; name: string }>;
+	detectedPorts: DetectedPort[];
+	staticPorts: StaticPort[];
+	proxyPort: number;
+}): ProxyRoute[] {
+	const routes: ProxyRoute[] = [];
+	const takenLabels = new Set<string>();
+
+	const addRoute = (route: Omit<ProxyRoute, "url">) => {
+		routes.push({ ...route, url: `http://${route.hostname}:${proxyPort}` });
+	};
+
+	for (const workspace of workspaces) {
+		const detected = detectedPorts
+			.filter((port) => port.workspaceId === workspace.id)
+			.sort((a, b) => a.detectedAt - b.detectedAt);
+		const configured = staticPorts.filter(
+			(port) => port.workspaceId === workspace.id,
+		);
+		const primaryPort = detected[0]?.port ?? configured[0]?.port;
+		if (primaryPort === undefined) continue;
+
+		let hostLabel = toHostLabel(workspace.name);
+		if (takenLabels.has(hostLabel)) {
+			hostLabel = `${hostLabel}-${workspace.id.slice(0, 8).toLowerCase()}`;
+		}
+		takenLabels.add(hostLabel);
+		const workspaceHost = `${hostLabel}.localhost`;
+
+		addRoute({
+			hostname: workspaceHost,
+			workspaceId: workspace.id,
+			port: primaryPort,
+			label: null,
+		});
+
+		const takenSubdomains = new Set<string>();
+		for (const { port, label } of configured) {
+			const subdomain = toHostLabel(label);
+			if (takenSubdomains.has(subdomain)) continue;
+			takenSubdomains.add(subdomain);
+			addRoute({
+				hostname: `${subdomain}.${workspaceHost}`,
+				workspaceId: workspace.id,
+				port,
+				label,
+			});
+		}
+	}
+
+	return routes;
+}
+
+export function findRoute(
+	routes: ProxyRoute[],
+	host: string | undefined,
+): ProxyRoute | undefined {
+	const hostname = normalizeHost(host);
+	return routes.find((route) => route.hostname === hostname);
+}
@@ -0,0 +1,216 @@
+import { EventEmitter } from "node:events";
+import http from "node:http";
+import type { Socket } from "node:net";
+import { projects, workspaces, worktrees } from "@superset/local-db";
+import httpProxy from "http-proxy";
+import { localDb } from "main/lib/local-db";
+import { loadStaticPorts, staticPortsWatcher } from "main/lib/static-ports";
+import { portManager } from "main/lib/terminal/port-manager";
+import { PORTS } from "shared/constants";
+import type { ProxyRoute, StaticPort } from "shared/types";
+import { buildProxyRoutes, findRoute } from "./routes";
+
+/**
+ * Workspaces that can be routed to, oldest first so a name collision never
+ * renames an existing hostname, with the path their ports.json lives in.
+ */
+function loadWorkspaces(): Array<{ id: string; name: string; path: string }> {
+	const projectPaths = new Map(
+		localDb
+			.select()
+			.from(projects)
+			.all()
+			.map((project) => [project.id, project.mainRepoPath]),
+	);
+	const worktreePaths = new Map(
+		localDb
+			.select()
+			.from(worktrees)
+			.all()
+			.map((worktree) => [worktree.id, worktree.path]),
+	);
+
+	return localDb
+		.select()
+		.from(workspaces)
+		.all()
+		.filter((workspace) => workspace.deletingAt === null)
+		.sort((a, b) => a.createdAt - b.createdAt)
+		.flatMap((workspace) => {
+			const path =
+				workspace.type === "branch"
+					? projectPaths.get(workspace.projectId)
+					: workspace.worktreeId
+						? worktreePaths.get(workspace.worktreeId)
+						: undefined;
+			return path ? [{ id: workspace.id, name: workspace.name, path }] : [];
+		});
+}
+
+// Unknown hosts rebuild the routes at most this often, since a rebuild reads
+// the database and every workspace's ports.json synchronously
+const MISS_REFRESH_INTERVAL_MS = 5_000;
+
+function sendText(res: http.ServerResponse, status: number, body: string) {
+	res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8" });
+	res.end(body);
+}
+
+/**
+ * Opt-in HTTP and WebSocket reverse proxy that gives each workspace a
+ * stable `<workspace>.localhost:<port>` address, plus
+ * `<label>.<workspace>.localhost` for labelled static ports. Routes follow
+ * PortManager and ports.json changes; requests for an unknown host rebuild
+ * them (throttled) in case a workspace was created or renamed.
+ *
+ * Listens on loopback only, and only while enabled in settings.
+ */
+class ReverseProxyServer extends EventEmitter {
+	private server: http.Server | null = null;
+	private routes: ProxyRoute[] = [];
+	private lastRefreshAt = 0;
+	private proxy = httpProxy.createProxyServer({ ws: true, xfwd: true });
+
+	constructor() {
+		super();
+		this.proxy.on("error", (error, _req, res) => {
+			if (res instanceof http.ServerResponse) {
+				if (!res.headersSent) {
+					sendText(res, 502, `Nothing answered: ${error.message}`);
+				} else {
+					res.end();
+				}
+			} else {
+				(res as Socket).destroy();
+			}
+		});
+	}
+
+	get isRunning(): boolean {
+		return this.server !== null;
+	}
+
+	getRoutes(): ProxyRoute[] {
+		if (this.isRunning) {
+			this.refresh();
+		}
+		return this.routes;
+	}
+
+	start(): Promise<void> {
+		if (this.server) return Promise.resolve();
+
+		return new Promise((resolve, reject) => {
+			const server = http.createServer((req, res) =>
+				this.handleRequest(req, res),
+			);
+			server.on("upgrade", (req, socket, head) =>
+				this.handleUpgrade(req, socket as Socket, head),
+			);
+			server.once("error", (error) => {
+				this.server = null;
+				this.unsubscribe();
+				reject(error);
+			});
+			server.listen(PORTS.REVERSE_PROXY, "127.0.0.1", () => {
+				console.log(`[reverse-proxy] Listening on port ${PORTS.REVERSE_PROXY}`);
+				resolve();
+			});
+			this.server = server;
+			this.subscribe();
+			this.refresh();
+		});
+	}
+
+	stop(): void {
+		if (!this.server) return;
+		this.unsubscribe();
+		this.server.close();
+		this.server.closeAllConnections();
+		this.server = null;
+		this.routes = [];
+		this.emit("routes", this.routes);
+		console.log("[reverse-proxy] Stopped");
+	}
+
+	/** Rebuilds the route table, emitting "routes" when it changed */
+	refresh = (): void => {
+		this.lastRefreshAt = Date.now();
+		const targets = loadWorkspaces();
+		const staticPorts: StaticPort[] = targets.flatMap(({ id, path }) =>
+			(loadStaticPorts(path).ports ?? []).map((port) => ({
+				...port,
+				workspaceId: id,
+			})),
+		);
+		const routes = buildProxyRoutes({
+			workspaces: targets,
+			detectedPorts: portManager.getAllPorts(),
+			staticPorts,
+			proxyPort: PORTS.REVERSE_PROXY,
+		});
+
+		if (JSON.stringify(routes) !== JSON.stringify(this.routes)) {
+			this.routes = routes;
+			this.emit("routes", routes);
+		}
+	};
+
+	private subscribe(): void {
+		portManager.on("port:add", this.refresh);
+		portManager.on("port:remove", this.refresh);
+		staticPortsWatcher.on("change", this.refresh);
+	}
+
+	private unsubscribe(): void {
+		portManager.off("port:add", this.refresh);
+		portManager.off("port:remove", this.refresh);
+		staticPortsWatcher.off("change", this.refresh);
+	}
+
+	private resolveRoute(host: string | undefined): ProxyRoute | undefined {
+		const route = findRoute(this.routes, host);
+		if (route) return route;
+		if (Date.now() - this.lastRefreshAt < MISS_REFRESH_INTERVAL_MS) {
+			return undefined;
+		}
+		this.refresh();
+		return findRoute(this.routes, host);
+	}
+
+	private handleRequest(
+		req: http.IncomingMessage,
+		res: http.ServerResponse,
+	): void {
+		const route = this.resolveRoute(req.headers.host);
+		if (!route) {
+			const known = this.routes.map((r) => `  ${r.url}`).join("\n");
+			sendText(
+				res,
+				404,
+				known
+					? `No workspace is served at this address. Available:\n${known}\n`
+					: "No workspace has a running server.\n",
+			);
+			return;
+		}
+		this.proxy.web(req, res, { target: `http://localhost:${route.port}` });
+	}
+
+	private handleUpgrade(
+		req: http.IncomingMessage,
+		socket: Socket,
+		head: Buffer,
+	): void {
+		const route = this.resolveRoute(req.headers.host);
+		if (!route) {
+			socket.destroy();
+			return;
+		}
+		this.proxy.ws(req, socket, head, {
+			target: `ws://localhost:${route.port}`,
+		});
+	}
+}
+
+export const reverseProxyServer = new ReverseProxyServer();
@@ -0,0 +1,382 @@
+import { spawn } from "node:child_process";
+import net from "node:net";
+import path from "node:path";
+import type { IDisposable } from "node-pty";
+import type { PtyProcess } from "../terminal/types";
+import {
+	type AttachResult,
+	createMessageParser,
+	encodeMessage,
+	type HostedSessionInfo,
+	type HostMessage,
+	type HostRequestMessage,
+	type HostRequests,
+	type HostRequestType,
+	type SpawnParams,
+	TERMINAL_HOST_PROTOCOL_VERSION,
+} from "./protocol";
+
+/** How long to wait for a freshly spawned daemon to start listening */
+const DAEMON_STARTUP_TIMEOUT_MS = 3000;
+const CONNECT_RETRY_INTERVAL_MS = 100;
+const REQUEST_TIMEOUT_MS = 5000;
+
+/** Built alongside main/index.js by electron-vite (see electron.vite.config.ts) */
+const DAEMON_SCRIPT_NAME = "terminal-host.js";
+
+type ExitEvent = { exitCode: number; signal?: number };
+
+/**
+ * node-pty compatible handle for a PTY owned by the terminal host daemon.
+ *
+ * Events that arrive before the first listener subscribes are buffered, so
+ * output produced between an attach response and setupDataHandler() isn't lost.
+ */
+export class RemotePty implements PtyProcess {
+	private dataListeners = new Set<(data: string) => void>();
+	private exitListeners = new Set<(event: ExitEvent) => void>();
+	private pendingData: string[] = [];
+	private pendingExit: ExitEvent | null = null;
+
+	/** Set once the host replies; 0 until then */
+	pid = 0;
+
+	constructor(
+		private client: TerminalHostClient,
+		readonly paneId: string,
+	) {}
+
+	onData(listener: (data: string) => void): IDisposable {
+		this.dataListeners.add(listener);
+		const pending = this.pendingData.splice(0, this.pendingData.length);
+		for (const data of pending) {
+			listener(data);
+		}
+		return { dispose: () => this.dataListeners.delete(listener) };
+	}
+
+	onExit(listener: (event: ExitEvent) => void): IDisposable {
+		this.exitListeners.add(listener);
+		if (this.pendingExit) {
+			const event = this.pendingExit;
+			this.pendingExit = null;
+			listener(event);
+		}
+		return { dispose: () => this.exitListeners.delete(listener) };
+	}
+
+	write(data: string): void {
+		this.client.notify("write", { paneId: this.paneId, data });
+	}
+
+	resize(cols: number, rows: number): void {
+		this.client.notify("resize", { paneId: this.paneId, cols, rows });
+	}
+
+	kill(signal?: string): void {
+		this.client.notify("kill", { paneId: this.paneId, signal });
+	}
+
+	/** @internal Called by the client when the host pushes output */
+	handleData(data: string): void {
+		if (this.dataListeners.size === 0) {
+			this.pendingData.push(data);
+			return;
+		}
+		for (const listener of this.dataListeners) {
+			listener(data);
+		}
+	}
+
+	/** @internal Called by the client when the hosted PTY exits */
+	handleExit(event: ExitEvent): void {
+		if (this.exitListeners.size === 0) {
+			this.pendingExit = event;
+			return;
+		}
+		for (const listener of this.exitListeners) {
+			listener(event);
+		}
+	}
+}
+
+interface PendingRequest {
+	resolve: (value: unknown) => void;
+	reject: (error: Error) => void;
+	timeout: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Main-process connection to the terminal host daemon.
+ *
+ * Lazily connects on first use, spawning the daemon (as a detached
+ * ELECTRON_RUN_AS_NODE process) if nothing is listening on the socket.
+ * Once a connection attempt fails or the protocol version mismatches, the
+ * client reports itself unavailable and TerminalManager falls back to
+ * in-process PTYs.
+ */
+export class TerminalHostClient {
+	private socket: net.Socket | null = null;
+	private connecting: Promise<boolean> | null = null;
+	private unavailable = false;
+	private isDisconnecting = false;
+	private nextRequestId = 1;
+	private pendingRequests = new Map<number, PendingRequest>();
+	private ptys = new Map<string, RemotePty>();
+
+	constructor(
+		private socketPath: string,
+		private daemonScriptPath = path.join(__dirname, DAEMON_SCRIPT_NAME),
+	) {}
+
+	get isConnected(): boolean {
+		return this.socket !== null && !this.socket.destroyed;
+	}
+
+	/**
+	 * Ensure a connection to the daemon. Resolves false when the host can't be
+	 * used, in which case callers should fall back to in-process terminals.
+	 */
+	connect(): Promise<boolean> {
+		if (this.isConnected) return Promise.resolve(true);
+		if (this.unavailable) return Promise.resolve(false);
+		if (this.connecting) return this.connecting;
+
+		this.connecting = this.establishConnection()
+			.catch((error) => {
+				console.warn(
+					"[terminal-host] Unavailable, using in-process terminals:",
+					error,
+				);
+				this.unavailable = true;
+				return false;
+			})
+			.finally(() => {
+				this.connecting = null;
+			});
+
+		return this.connecting;
+	}
+
+	private async establishConnection(): Promise<boolean> {
+		let socket = await this.tryConnect();
+
+		if (!socket) {
+			this.spawnDaemon();
+			const deadline = Date.now() + DAEMON_STARTUP_TIMEOUT_MS;
+			while (!socket && Date.now() < deadline) {
+				await new Promise((resolve) =>
+					setTimeout(resolve, CONNECT_RETRY_INTERVAL_MS),
+				);
+				socket = await this.tryConnect();
+			}
+		}
+
+		if (!socket) {
+			throw new Error(`Daemon did not start listening on ${this.socketPath}`);
+		}
+
+		this.attachSocket(socket);
+
+		const { version } = await this.request("hello", {});
+		if (version !== TERMINAL_HOST_PROTOCOL_VERSION) {
+			this.disconnect();
+			throw new Error(
+				`Protocol mismatch: host v${version}, client v${TERMINAL_HOST_PROTOCOL_VERSION}`,
+			);
+		}
+
+		return true;
+	}
+
+	private tryConnect(): Promise<net.Socket | null> {
+		return new Promise((resolve) => {
+			const socket = net.createConnection(this.socketPath);
+			const onError = () => {
+				socket.destroy();
+				resolve(null);
+			};
+			socket.once("error", onError);
+			socket.once("connect", () => {
+				socket.off("error", onError);
+				resolve(socket);
+			});
+		});
+	}
+
+	private spawnDaemon(): void {
+		const child = spawn(process.execPath, [this.daemonScriptPath], {
+			detached: true,
+			stdio: "ignore",
+			env: { ...process.env, ELECTRON_RUN_AS_NODE: "1" },
+		});
+		child.unref();
+		console.log(`[terminal-host] Spawned daemon (pid ${child.pid})`);
+	}
+
+	private attachSocket(socket: net.Socket): void {
+		this.socket = socket;
+		socket.setEncoding("utf8");
+
+		const feed = createMessageParser<HostMessage>(
+			(message) => this.handleMessage(message),
+			(error) =>
+				console.warn("[terminal-host] Dropped malformed frame:", error),
+		);
+		socket.on("data", (chunk: string) => feed(chunk));
+		socket.on("error", (error) => {
+			console.warn("[terminal-host] Socket error:", error);
+		});
+		socket.on("close", () => this.handleClose());
+	}
+
+	private handleMessage(message: HostMessage): void {
+		if ("id" in message) {
+			const pending = this.pendingRequests.get(message.id);
+			if (!pending) return;
+			this.pendingRequests.delete(message.id);
+			clearTimeout(pending.timeout);
+			if ("error" in message) {
+				pending.reject(new Error(message.error));
+			} else {
+				pending.resolve(message.result);
+			}
+			return;
+		}
+
+		const remotePty = this.ptys.get(message.paneId);
+		if (!remotePty) return;
+
+		if (message.type === "data") {
+			remotePty.handleData(message.data);
+		} else {
+			this.ptys.delete(message.paneId);
+			remotePty.handleExit({
+				exitCode: message.exitCode,
+				signal: message.signal,
+			});
+		}
+	}
+
+	private handleClose(): void {
+		this.socket = null;
+
+		for (const pending of this.pendingRequests.values()) {
+			clearTimeout(pending.timeout);
+			pending.reject(new Error("Terminal host connection closed"));
+		}
+		this.pendingRequests.clear();
+
+		const ptys = Array.from(this.ptys.values());
+		this.ptys.clear();
+
+		// Intentional disconnect (app quit) leaves hosted sessions running.
+		// An unexpected close means the daemon died and took its PTYs with it.
+		if (this.isDisconnecting) {
+			this.isDisconnecting = false;
+			return;
+		}
+
+		console.warn("[terminal-host] Connection to daemon lost");
+		for (const remotePty of ptys) {
+			remotePty.handleExit({ exitCode: 1 });
+		}
+	}
+
+	request<K extends HostRequestType>(
+		type: K,
+		params: HostRequests[K]["params"],
+	): Promise<HostRequests[K]["result"]> {
+		const socket = this.socket;
+		if (!socket || socket.destroyed) {
+			return Promise.reject(new Error("Terminal host is not connected"));
+		}
+
+		const id = this.nextRequestId++;
+		return new Promise((resolve, reject) => {
+			const timeout = setTimeout(() => {
+				this.pendingRequests.delete(id);
+				reject(new Error(`Terminal host request "${type}" timed out`));
+			}, REQUEST_TIMEOUT_MS);
+			timeout.unref();
+
+			this.pendingRequests.set(id, {
+				resolve: resolve as (value: unknown) => void,
+				reject,
+				timeout,
+			});
+			const message: HostRequestMessage<K> = { id, type, params };
+			socket.write(encodeMessage(message));
+		});
+	}
+
+	/** Fire-and-forget request; failures are logged, not thrown */
+	notify<K extends HostRequestType>(
+		type: K,
+		params: HostRequests[K]["params"],
+	): void {
+		this.request(type, params).catch((error) => {
+			console.warn(`[terminal-host] ${type} failed:`, error);
+		});
+	}
+
+	// Ptys are registered before the request is sent: the host may push output
+	// in the same chunk as its response, ahead of the awaiting continuation.
+
+	async spawn(params: SpawnParams): Promise<RemotePty> {
+		const remotePty = this.registerPty(params.paneId);
+		try {
+			const { pid } = await this.request("spawn", params);
+			remotePty.pid = pid;
+			return remotePty;
+		} catch (error) {
+			this.unregisterPty(remotePty);
+			throw error;
+		}
+	}
+
+	async attach(
+		paneId: string,
+	): Promise<{ pty: RemotePty; info: AttachResult } | null> {
+		const remotePty = this.registerPty(paneId);
+		try {
+			const info = await this.request("attach", { paneId });
+			if (!info) {
+				this.unregisterPty(remotePty);
+				return null;
+			}
+			remotePty.pid = info.pid;
+			return { pty: remotePty, info };
+		} catch (error) {
+			this.unregisterPty(remotePty);
+			throw error;
+		}
+	}
+
+	private registerPty(paneId: string): RemotePty {
+		const remotePty = new RemotePty(this, paneId);
+		this.ptys.set(paneId, remotePty);
+		return remotePty;
+	}
+
+	private unregisterPty(remotePty: RemotePty): void {
+		if (this.ptys.get(remotePty.paneId) === remotePty) {
+			this.ptys.delete(remotePty.paneId);
+		}
+	}
+
+	list(): Promise<HostedSessionInfo[]> {
+		return this.request("list", {});
+	}
+
+	/**
+	 * Close the connection while leaving hosted sessions running.
+	 * The next app launch reattaches through attach().
+	 */
+	disconnect(): void {
+		if (!this.socket) return;
+		this.isDisconnecting = true;
+		this.socket.end();
+		this.socket.destroy();
+	}
+}
@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import fs from "node:fs";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import type * as pty from "node-pty";
+import { TerminalHostClient } from "./client";
+import { TerminalHost } from "./host";
+
+interface FakePty {
+	pid: number;
+	write: ReturnType<typeof mock>;
+	resize: ReturnType<typeof mock>;
+	kill: ReturnType<typeof mock>;
+	onData: (callback: (data: string) => void) => { dispose: () => void };
+	onExit: (
+		callback: (event: { exitCode: number; signal?: number }) => void,
+	) => { dispose: () => void };
+	emitData: (data: string) => void;
+	emitExit: (exitCode: number) => void;
+}
+
+function createFakePty(pid: number): FakePty {
+	let dataCallback: ((data: string) => void) | undefined;
+	let exitCallback:
+		| ((event: { exitCode: number; signal?: number }) => void)
+		| undefined;
+
+	const fake: FakePty = {
+		pid,
+		write: mock(() => {}),
+		resize: mock(() => {}),
+		kill: mock(() => fake.emitExit(0)),
+		onData: (callback) => {
+			dataCallback = callback;
+			return { dispose: () => {} };
+		},
+		onExit: (callback) => {
+			exitCallback = callback;
+			return { dispose: () => {} };
+		},
+		emitData: (data) => dataCallback?.(data),
+		emitExit: (exitCode) => exitCallback?.({ exitCode }),
+	};
+	return fake;
+}
+
+function waitFor(predicate: () => boolean, timeoutMs = 1000): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const start = Date.now();
+		const check = () => {
+			if (predicate()) return resolve();
+			if (Date.now() - start > timeoutMs) {
+				return reject(new Error("Timed out waiting for condition"));
+			}
+			setTimeout(check, 5);
+		};
+		check();
+	});
+}
+
+const spawnParams = {
+	paneId: "pane-1",
+	workspaceId: "workspace-1",
+	shell: "/bin/zsh",
+	args: ["-l"],
+	cwd: "/tmp",
+	cols: 80,
+	rows: 24,
+	env: {},
+};
+
+describe("TerminalHost", () => {
+	let tempDir: string;
+	let socketPath: string;
+	let server: net.Server;
+	let host: TerminalHost;
+	let fakePtys: FakePty[];
+	let clients: TerminalHostClient[];
+
+	function createClient() {
+		const client = new TerminalHostClient(socketPath, "/nonexistent");
+		clients.push(client);
+		return client;
+	}
+
+	beforeEach(async () => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "terminal-host-test-"));
+		socketPath = path.join(tempDir, "host.sock");
+		fakePtys = [];
+		clients = [];
+
+		host = new TerminalHost({
+			spawn: (() => {
+				const fake = createFakePty(1000 + fakePtys.length);
+				fakePtys.push(fake);
+				return fake as unknown as pty.IPty;
+			}) as unknown as typeof pty.spawn,
+		});
+		server = net.createServer((socket) => host.handleConnection(socket));
+		await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+	});
+
+	afterEach(async () => {
+		for (const client of clients) {
+			client.disconnect();
+		}
+		await waitFor(() => host.connectionCount === 0);
+		host.dispose();
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	it("should spawn a PTY and stream its output to the client", async () => {
+		const client = createClient();
+		expect(await client.connect()).toBe(true);
+
+		const remotePty = await client.spawn(spawnParams);
+		expect(remotePty.pid).toBe(1000);
+
+		const received: string[] = [];
+		remotePty.onData((data) => received.push(data));
+		fakePtys[0].emitData("hello");
+
+		await waitFor(() => received.length > 0);
+		expect(received).toEqual(["hello"]);
+	});
+
+	it("should forward write and resize to the hosted PTY", async () => {
+		const client = createClient();
+		await client.connect();
+		const remotePty = await client.spawn(spawnParams);
+
+		remotePty.write("ls\n");
+		remotePty.resize(120, 40);
+
+		await waitFor(() => fakePtys[0].resize.mock.calls.length > 0);
+		expect(fakePtys[0].write).toHaveBeenCalledWith("ls\n");
+		expect(fakePtys[0].resize).toHaveBeenCalledWith(120, 40);
+	});
+
+	it("should keep sessions alive after the client disconnects", async () => {
+		const first = createClient();
+		await first.connect();
+		await first.spawn(spawnParams);
+		fakePtys[0].emitData("before restart");
+
+		first.disconnect();
+		await waitFor(() => host.connectionCount === 0);
+		expect(host.sessionCount).toBe(1);
+		expect(fakePtys[0].kill).not.toHaveBeenCalled();
+
+		const second = createClient();
+		await second.connect();
+		const attached = await second.attach("pane-1");
+
+		expect(attached).not.toBeNull();
+		expect(attached?.info.pid).toBe(1000);
+		expect(attached?.info.scrollback).toContain("before restart");
+	});
+
+	it("should return stored viewport position on attach", async () => {
+		const client = createClient();
+		await client.connect();
+		await client.spawn(spawnParams);
+
+		await client.request("setViewport", { paneId: "pane-1", viewportY: 42 });
+		const attached = await client.attach("pane-1");
+
+		expect(attached?.info.viewportY).toBe(42);
+	});
+
+	it("should return null when attaching to an unknown pane", async () => {
+		const client = createClient();
+		await client.connect();
+
+		expect(await client.attach("missing")).toBeNull();
+	});
+
+	it("should report exit and drop the session when the PTY exits", async () => {
+		const client = createClient();
+		await client.connect();
+		const remotePty = await client.spawn(spawnParams);
+
+		let exitCode: number | undefined;
+		remotePty.onExit((event) => {
+			exitCode = event.exitCode;
+		});
+		remotePty.kill();
+
+		await waitFor(() => exitCode !== undefined);
+		expect(exitCode).toBe(0);
+		expect(host.sessionCount).toBe(0);
+	});
+
+	it("should reject spawning over a running session", async () => {
+		const client = createClient();
+		await client.connect();
+		await client.spawn(spawnParams);
+
+		await expect(client.spawn(spawnParams)).rejects.toThrow("already running");
+	});
+
+	it("should emit idle once sessions and connections are gone", async () => {
+		const client = createClient();
+		await client.connect();
+		const remotePty = await client.spawn(spawnParams);
+
+		let idle = false;
+		host.on("idle", () => {
+			idle = true;
+		});
+
+		remotePty.kill();
+		await waitFor(() => host.sessionCount === 0);
+		expect(idle).toBe(false);
+
+		client.disconnect();
+		await waitFor(() => idle);
+	});
+});
@@ -0,0 +1,288 @@
+import { EventEmitter } from "node:events";
+import type { Socket } from "node:net";
+import type { SerializeAddon } from "@xterm/addon-serialize";
+import type { Terminal as HeadlessTerminal } from "@xterm/headless";
+import type * as pty from "node-pty";
+import { createHeadlessTerminal } from "../terminal/headless";
+import {
+	containsClearScrollbackSequence,
+	extractContentAfterClear,
+} from "../terminal-escape-filter";
+import {
+	type AttachResult,
+	createMessageParser,
+	encodeMessage,
+	type HostEvent,
+	type HostedSessionInfo,
+	type HostRequest,
+	type HostResponse,
+	type SpawnParams,
+	TERMINAL_HOST_PROTOCOL_VERSION,
+} from "./protocol";
+
+interface HostedSession {
+	pty: pty.IPty;
+	paneId: string;
+	workspaceId: string;
+	cwd: string;
+	cols: number;
+	rows: number;
+	headless: HeadlessTerminal;
+	serializer: SerializeAddon;
+	isAlive: boolean;
+	viewportY?: number;
+	/** Connections that receive data/exit events for this pane */
+	subscribers: Set<Socket>;
+}
+
+type SpawnFn = typeof pty.spawn;
+
+/**
+ * Owns PTYs on behalf of the main process so they outlive it.
+ *
+ * Each hosted session keeps its own headless xterm mirror, so a main process
+ * that reconnects after a restart can rebuild the pane from serialized
+ * scrollback without replaying anything. Emits "idle" when no sessions and no
+ * connections remain, letting the daemon entry decide when to exit.
+ */
+export class TerminalHost extends EventEmitter {
+	private sessions = new Map<string, HostedSession>();
+	private connections = new Set<Socket>();
+	private spawnPty: SpawnFn;
+
+	constructor(options: { spawn: SpawnFn }) {
+		super();
+		this.spawnPty = options.spawn;
+	}
+
+	get sessionCount(): number {
+		return this.sessions.size;
+	}
+
+	get connectionCount(): number {
+		return this.connections.size;
+	}
+
+	handleConnection(socket: Socket): void {
+		this.connections.add(socket);
+		socket.setEncoding("utf8");
+
+		const feed = createMessageParser<HostRequest>(
+			(request) => this.handleRequest(socket, request),
+			(error) =>
+				console.warn("[terminal-host] Dropped malformed frame:", error),
+		);
+
+		socket.on("data", (chunk: string) => feed(chunk));
+		socket.on("error", () => {
+			// Connection errors are followed by close; nothing else to do
+		});
+		socket.on("close", () => {
+			this.connections.delete(socket);
+			for (const session of this.sessions.values()) {
+				session.subscribers.delete(socket);
+			}
+			this.emitIfIdle();
+		});
+	}
+
+	private handleRequest(socket: Socket, request: HostRequest): void {
+		let response: HostResponse;
+		try {
+			response = { id: request.id, result: this.dispatch(socket, request) };
+		} catch (error) {
+			response = {
+				id: request.id,
+				error: error instanceof Error ? error.message : String(error),
+			};
+		}
+
+		if (!socket.destroyed) {
+			socket.write(encodeMessage(response));
+		}
+	}
+
+	private dispatch(socket: Socket, request: HostRequest): unknown {
+		switch (request.type) {
+			case "hello":
+				return { version: TERMINAL_HOST_PROTOCOL_VERSION };
+			case "spawn":
+				return this.spawn(socket, request.params);
+			case "attach":
+				return this.attach(socket, request.params.paneId);
+			case "list":
+				return Array.from(this.sessions.values()).map(toSessionInfo);
+			case "write":
+				this.getAliveSession(request.params.paneId).pty.write(
+					request.params.data,
+				);
+				return null;
+			case "resize": {
+				const { paneId, cols, rows } = request.params;
+				const session = this.getAliveSession(paneId);
+				session.pty.resize(cols, rows);
+				session.headless.resize(cols, rows);
+				session.cols = cols;
+				session.rows = rows;
+				return null;
+			}
+			case "kill":
+				this.getAliveSession(request.params.paneId).pty.kill(
+					request.params.signal,
+				);
+				return null;
+			case "setViewport": {
+				const session = this.sessions.get(request.params.paneId);
+				if (session) {
+					session.viewportY = request.params.viewportY;
+				}
+				return null;
+			}
+			case "clearScrollback": {
+				const session = this.sessions.get(request.params.paneId);
+				if (session) {
+					this.resetHeadless(session);
+				}
+				return null;
+			}
+		}
+	}
+
+	private spawn(socket: Socket, params: SpawnParams): { pid: number } {
+		const existing = this.sessions.get(params.paneId);
+		if (existing?.isAlive) {
+			throw new Error(`Session ${params.paneId} is already running`);
+		}
+
+		const ptyProcess = this.spawnPty(params.shell, params.args, {
+			name: "xterm-256color",
+			cols: params.cols,
+			rows: params.rows,
+			cwd: params.cwd,
+			env: params.env,
+		});
+
+		const { headless, serializer } = createHeadlessTerminal({
+			cols: params.cols,
+			rows: params.rows,
+		});
+
+		const session: HostedSession = {
+			pty: ptyProcess,
+			paneId: params.paneId,
+			workspaceId: params.workspaceId,
+			cwd: params.cwd,
+			cols: params.cols,
+			rows: params.rows,
+			headless,
+			serializer,
+			isAlive: true,
+			subscribers: new Set([socket]),
+		};
+
+		ptyProcess.onData((data) => {
+			if (containsClearScrollbackSequence(data)) {
+				this.resetHeadless(session);
+				const contentAfterClear = extractContentAfterClear(data);
+				if (contentAfterClear) {
+					session.headless.write(contentAfterClear);
+				}
+			} else {
+				session.headless.write(data);
+			}
+			this.broadcast(session, { type: "data", paneId: session.paneId, data });
+		});
+
+		ptyProcess.onExit(({ exitCode, signal }) => {
+			session.isAlive = false;
+			this.broadcast(session, {
+				type: "exit",
+				paneId: session.paneId,
+				exitCode,
+				signal,
+			});
+			session.headless.dispose();
+			// Only remove if a newer session hasn't replaced this one
+			if (this.sessions.get(session.paneId) === session) {
+				this.sessions.delete(session.paneId);
+			}
+			this.emitIfIdle();
+		});
+
+		this.sessions.set(params.paneId, session);
+		return { pid: ptyProcess.pid };
+	}
+
+	private attach(socket: Socket, paneId: string): AttachResult | null {
+		const session = this.sessions.get(paneId);
+		if (!session?.isAlive) {
+			return null;
+		}
+
+		session.subscribers.add(socket);
+		return {
+			...toSessionInfo(session),
+			scrollback: session.serializer.serialize(),
+		};
+	}
+
+	private getAliveSession(paneId: string): HostedSession {
+		const session = this.sessions.get(paneId);
+		if (!session?.isAlive) {
+			throw new Error(`Terminal session ${paneId} not found or not alive`);
+		}
+		return session;
+	}
+
+	private resetHeadless(session: HostedSession): void {
+		// Recreate headless (xterm writes are async, so clear() alone is unreliable)
+		session.headless.dispose();
+		const { headless, serializer } = createHeadlessTerminal({
+			cols: session.cols,
+			rows: session.rows,
+		});
+		session.headless = headless;
+		session.serializer = serializer;
+	}
+
+	private broadcast(session: HostedSession, event: HostEvent): void {
+		const frame = encodeMessage(event);
+		for (const socket of session.subscribers) {
+			if (!socket.destroyed) {
+				socket.write(frame);
+			}
+		}
+	}
+
+	private emitIfIdle(): void {
+		if (this.sessions.size === 0 && this.connections.size === 0) {
+			this.emit("idle");
+		}
+	}
+
+	/** Kill every hosted PTY. Used when the daemon is asked to shut down. */
+	dispose(): void {
+		for (const session of this.sessions.values()) {
+			if (session.isAlive) {
+				try {
+					session.pty.kill();
+				} catch {
+					// Already gone
+				}
+			}
+		}
+	}
+}
+
+function toSessionInfo(session: HostedSession): HostedSessionInfo {
+	return {
+		paneId: session.paneId,
+		workspaceId: session.workspaceId,
+		pid: session.pty.pid,
+		cwd: session.cwd,
+		cols: session.cols,
+		rows: session.rows,
+		isAlive: session.isAlive,
+		viewportY: session.viewportY,
+	};
+}
@@ -0,0 +1,24 @@
+import { env } from "shared/env.shared";
+import { TerminalHostClient } from "./client";
+import { getTerminalHostSocketPath } from "./protocol";
+
+export { RemotePty, TerminalHostClient } from "./client";
+export type { AttachResult, HostedSessionInfo } from "./protocol";
+
+/**
+ * The daemon relies on Unix sockets and ELECTRON_RUN_AS_NODE, so it's only
+ * used inside Electron on macOS/Linux. Tests and Windows keep in-process PTYs.
+ */
+function isTerminalHostSupported(): boolean {
+	return (
+		process.platform !== "win32" &&
+		Boolean(process.versions.electron) &&
+		env.NODE_ENV !== "test"
+	);
+}
+
+/** Singleton client, or null when terminals should stay in-process */
+export const terminalHostClient: TerminalHostClient | null =
+	isTerminalHostSupported()
+		? new TerminalHostClient(getTerminalHostSocketPath())
+		: null;
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "bun:test";
+import { createMessageParser, encodeMessage } from "./protocol";
+
+describe("createMessageParser", () => {
+	it("should parse a single framed message", () => {
+		const messages: unknown[] = [];
+		const feed = createMessageParser((message) => messages.push(message));
+
+		feed(encodeMessage({ type: "data", paneId: "pane-1", data: "hello" }));
+
+		expect(messages).toEqual([
+			{ type: "data", paneId: "pane-1", data: "hello" },
+		]);
+	});
+
+	it("should buffer partial lines until the newline arrives", () => {
+		const messages: unknown[] = [];
+		const feed = createMessageParser((message) => messages.push(message));
+		const frame = encodeMessage({ id: 1, result: null });
+
+		feed(frame.slice(0, 5));
+		expect(messages).toEqual([]);
+
+		feed(frame.slice(5));
+		expect(messages).toEqual([{ id: 1, result: null }]);
+	});
+
+	it("should parse multiple messages in one chunk", () => {
+		const messages: unknown[] = [];
+		const feed = createMessageParser((message) => messages.push(message));
+
+		feed(
+			encodeMessage({ id: 1, result: null }) +
+				encodeMessage({ id: 2, error: "boom" }),
+		);
+
+		expect(messages).toEqual([
+			{ id: 1, result: null },
+			{ id: 2, error: "boom" },
+		]);
+	});
+
+	it("should keep newlines inside string payloads intact", () => {
+		const messages: unknown[] = [];
+		const feed = createMessageParser((message) => messages.push(message));
+
+		feed(encodeMessage({ type: "data", paneId: "pane-1", data: "a\r\nb\n" }));
+
+		expect(messages).toEqual([
+			{ type: "data", paneId: "pane-1", data: "a\r\nb\n" },
+		]);
+	});
+
+	it("should skip malformed lines and keep parsing", () => {
+		const messages: unknown[] = [];
+		const errors: string[] = [];
+		const feed = createMessageParser(
+			(message) => messages.push(message),
+			(_error, line) => errors.push(line),
+		);
+
+		feed(`not json\n${encodeMessage({ id: 3, result: null })}`);
+
+		expect(errors).toEqual(["not json"]);
+		expect(messages).toEqual([{ id: 3, result: null }]);
+	});
+});
@@ -0,0 +1,122 @@
+import path from "node:path";
+import { SUPERSET_HOME_DIR } from "../app-environment";
+
+/**
+ * Wire protocol between the main process and the terminal host daemon.
+ *
+ * Messages are newline-delimited JSON over a local Unix socket. The client
+ * sends requests tagged with an `id`; the host replies with a response carrying
+ * the same `id`. The host also pushes untagged `data`/`exit` events for panes
+ * the connection has spawned or attached to.
+ *
+ * Increment the version when making breaking changes. A client that sees a
+ * different version falls back to in-process terminals instead of killing
+ * the sessions an older host still owns.
+ */
+export const TERMINAL_HOST_PROTOCOL_VERSION = 1;
+
+export const TERMINAL_HOST_SOCKET_NAME = "terminal-host.sock";
+
+export function getTerminalHostSocketPath(): string {
+	return path.join(SUPERSET_HOME_DIR, TERMINAL_HOST_SOCKET_NAME);
+}
+
+export interface HostedSessionInfo {
+	paneId: string;
+	workspaceId: string;
+	pid: number;
+	cwd: string;
+	cols: number;
+	rows: number;
+	isAlive: boolean;
+	viewportY?: number;
+}
+
+export interface AttachResult extends HostedSessionInfo {
+	scrollback: string;
+}
+
+export interface SpawnParams {
+	paneId: string;
+	workspaceId: string;
+	shell: string;
+	args: string[];
+	cwd: string;
+	cols: number;
+	rows: number;
+	env: Record<string, string>;
+}
+
+/** Request payloads keyed by request type, with their result types */
+export interface HostRequests {
+	hello: { params: Record<string, never>; result: { version: number } };
+	spawn: { params: SpawnParams; result: { pid: number } };
+	attach: { params: { paneId: string }; result: AttachResult | null };
+	list: { params: Record<string, never>; result: HostedSessionInfo[] };
+	write: { params: { paneId: string; data: string }; result: null };
+	resize: {
+		params: { paneId: string; cols: number; rows: number };
+		result: null;
+	};
+	kill: { params: { paneId: string; signal?: string }; result: null };
+	setViewport: { params: { paneId: string; viewportY: number }; result: null };
+	clearScrollback: { params: { paneId: string }; result: null };
+}
+
+export type HostRequestType = keyof HostRequests;
+
+/** A request of one type, as sent on the wire */
+export interface HostRequestMessage<K extends HostRequestType> {
+	id: number;
+	type: K;
+	params: HostRequests[K]["params"];
+}
+
+export type HostRequest = {
+	[K in HostRequestType]: HostRequestMessage<K>;
+}[HostRequestType];
+
+export type HostResponse =
+	| { id: number; result: unknown }
+	| { id: number; error: string };
+
+export type HostEvent =
+	| { type: "data"; paneId: string; data: string }
+	| { type: "exit"; paneId: string; exitCode: number; signal?: number };
+
+export type HostMessage = HostResponse | HostEvent;
+
+export function encodeMessage<K extends HostRequestType>(
+	message: HostRequestMessage<K> | HostMessage,
+): string {
+	return `${JSON.stringify(message)}\n`;
+}
+
+/**
+ * Returns a feed function that splits a byte stream into JSON messages.
+ * Partial lines are buffered until their newline arrives; malformed lines are
+ * reported through onError and skipped so one bad frame can't wedge the stream.
+ */
+export function createMessageParser<T>(
+	onMessage: (message: T) => void,
+	onError?: (error: unknown, line: string) => void,
+): (chunk: string) => void {
+	let buffer = "";
+
+	return (chunk: string) => {
+		buffer += chunk;
+		let newlineIndex = buffer.indexOf("\n");
+		while (newlineIndex !== -1) {
+			const line = buffer.slice(0, newlineIndex);
+			buffer = buffer.slice(newlineIndex + 1);
+			if (line.trim()) {
+				try {
+					onMessage(JSON.parse(line) as T);
+				} catch (error) {
+					onError?.(error, line);
+				}
+			}
+			newlineIndex = buffer.indexOf("\n");
+		}
+	};
+}
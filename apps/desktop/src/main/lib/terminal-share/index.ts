@@ -0,0 +1,2 @@
+export { type TerminalShareInfo, terminalShareServer } from "./server";
+export type { TerminalShare } from "./shares";
@@ -0,0 +1,338 @@
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import express, { type Request, type Response } from "express";
+import { PORTS } from "shared/constants";
+import { terminalManager } from "../terminal";
+import { type TerminalShare, TerminalShareRegistry } from "./shares";
+
+/** Viewer page plus xterm.js, copied next to the main bundle at build time */
+const VIEWER_DIR = path.join(__dirname, "share-viewer");
+
+// Keeps idle event streams from being closed by proxies and sleeping laptops
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+const LOOPBACK_HOST = "127.0.0.1";
+const ALL_INTERFACES_HOST = "0.0.0.0";
+
+export interface TerminalShareInfo {
+	id: string;
+	paneId: string;
+	workspaceId: string;
+	url: string;
+	allowWrite: boolean;
+	lanAccess: boolean;
+	createdAt: number;
+	expiresAt: number;
+	viewerCount: number;
+}
+
+/** First non-internal IPv4 address, so teammates on the network can connect */
+function getLanAddress(): string {
+	for (const addresses of Object.values(os.networkInterfaces())) {
+		for (const address of addresses ?? []) {
+			if (address.family === "IPv4" && !address.internal) {
+				return address.address;
+			}
+		}
+	}
+	return LOOPBACK_HOST;
+}
+
+function isLoopbackRequest(req: Request): boolean {
+	const address = req.socket.remoteAddress ?? "";
+	return (
+		address === "127.0.0.1" ||
+		address === "::1" ||
+		address === "::ffff:127.0.0.1"
+	);
+}
+
+function sendEvent(res: Response, event: string, data: unknown): void {
+	res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Opt-in HTTP endpoint for watching a pane from a browser. Each share has a
+ * random token; /s/<token> serves an xterm.js page that replays the pane's
+ * scrollback and follows live output over server-sent events. Input is only
+ * accepted for shares in write mode.
+ *
+ * The server only listens while at least one pane is shared, on loopback
+ * unless a share opted in to LAN access, and requests from other machines are
+ * refused for shares that didn't. Share links expire after SHARE_TTL_MS, and
+ * revoking or expiring a share disconnects its viewers.
+ *
+ * This is a separate server rather than routes on the notifications app: that
+ * app must stay loopback-only (agent hooks post to it unauthenticated), while
+ * LAN sharing needs to listen on every interface.
+ */
+class TerminalShareServer {
+	private registry = new TerminalShareRegistry();
+	private server: http.Server | null = null;
+	/** Address the server is bound to while listening */
+	private host: string | null = null;
+	/** Open event streams per share id */
+	private viewers = new Map<string, Set<Response>>();
+	/** Pane exit listeners per share id */
+	private exitListeners = new Map<string, (exitCode: number) => void>();
+	/** Timers revoking each share when its link expires */
+	private expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+	private app = this.createApp();
+
+	/**
+	 * Share a pane. Sharing an already shared pane applies the new options to
+	 * its existing share.
+	 */
+	async share(params: {
+		paneId: string;
+		workspaceId: string;
+		allowWrite?: boolean;
+		lanAccess?: boolean;
+	}): Promise<TerminalShareInfo> {
+		if (!terminalManager.getScrollbackSnapshot(params.paneId)) {
+			throw new Error("Terminal session not found or not alive");
+		}
+
+		const existing = this.registry.getByPaneId(params.paneId);
+		const wasWritable = existing?.allowWrite;
+		const share = this.registry.create(params);
+
+		try {
+			await this.listen();
+		} catch (error) {
+			this.revoke(share.id);
+			throw error;
+		}
+
+		if (existing) {
+			if (share.allowWrite !== wasWritable) {
+				this.broadcast(share.id, "mode", { allowWrite: share.allowWrite });
+			}
+		} else {
+			// Viewers see the exit, then the share goes away with the pane
+			const onExit = (exitCode: number) => {
+				this.broadcast(share.id, "exit", { exitCode });
+				this.revoke(share.id);
+			};
+			terminalManager.once(`exit:${share.paneId}`, onExit);
+			this.exitListeners.set(share.id, onExit);
+
+			const expiryTimer = setTimeout(
+				() => this.revoke(share.id),
+				share.expiresAt - Date.now(),
+			);
+			expiryTimer.unref();
+			this.expiryTimers.set(share.id, expiryTimer);
+		}
+
+		return this.toInfo(share);
+	}
+
+	setAllowWrite(id: string, allowWrite: boolean): TerminalShareInfo | null {
+		const share = this.registry.setAllowWrite(id, allowWrite);
+		if (!share) {
+			return null;
+		}
+		this.broadcast(id, "mode", { allowWrite });
+		return this.toInfo(share);
+	}
+
+	revoke(id: string): void {
+		const share = this.registry.revoke(id);
+		if (!share) return;
+
+		const onExit = this.exitListeners.get(id);
+		if (onExit) {
+			terminalManager.off(`exit:${share.paneId}`, onExit);
+			this.exitListeners.delete(id);
+		}
+		clearTimeout(this.expiryTimers.get(id));
+		this.expiryTimers.delete(id);
+
+		this.broadcast(id, "revoked", {});
+		for (const res of this.viewers.get(id) ?? []) {
+			res.end();
+		}
+		this.viewers.delete(id);
+
+		if (this.registry.size === 0) {
+			this.stop();
+		} else if (share.lanAccess) {
+			// Drop back to loopback once no remaining share needs the LAN
+			this.listen().catch((error) => {
+				console.error("[terminal-share] Failed to rebind:", error);
+			});
+		}
+	}
+
+	list(params?: { workspaceId?: string }): TerminalShareInfo[] {
+		return this.registry
+			.list()
+			.filter(
+				(share) =>
+					!params?.workspaceId || share.workspaceId === params.workspaceId,
+			)
+			.map((share) => this.toInfo(share));
+	}
+
+	/** Revoke every share and stop listening */
+	revokeAll(): void {
+		for (const share of this.registry.list()) {
+			this.revoke(share.id);
+		}
+		this.stop();
+	}
+
+	private toInfo(share: TerminalShare): TerminalShareInfo {
+		return {
+			id: share.id,
+			paneId: share.paneId,
+			workspaceId: share.workspaceId,
+			url: `http://${share.lanAccess ? getLanAddress() : LOOPBACK_HOST}:${PORTS.TERMINAL_SHARE}/s/${share.token}`,
+			allowWrite: share.allowWrite,
+			lanAccess: share.lanAccess,
+			createdAt: share.createdAt,
+			expiresAt: share.expiresAt,
+			viewerCount: this.viewers.get(share.id)?.size ?? 0,
+		};
+	}
+
+	private broadcast(id: string, event: string, data: unknown): void {
+		for (const res of this.viewers.get(id) ?? []) {
+			sendEvent(res, event, data);
+		}
+	}
+
+	/**
+	 * Listen on all interfaces while any share allows LAN access, otherwise on
+	 * loopback. Rebinding drops open streams; viewers' EventSources reconnect.
+	 */
+	private listen(): Promise<void> {
+		const host = this.registry.list().some((share) => share.lanAccess)
+			? ALL_INTERFACES_HOST
+			: LOOPBACK_HOST;
+		if (this.server && this.host === host) return Promise.resolve();
+		this.stop();
+
+		return new Promise((resolve, reject) => {
+			const server = http.createServer(this.app);
+			server.once("error", (error) => {
+				this.server = null;
+				this.host = null;
+				reject(error);
+			});
+			server.listen(PORTS.TERMINAL_SHARE, host, () => {
+				console.log(
+					`[terminal-share] Listening on ${host}:${PORTS.TERMINAL_SHARE}`,
+				);
+				resolve();
+			});
+			this.server = server;
+			this.host = host;
+		});
+	}
+
+	private stop(): void {
+		if (!this.server) return;
+		this.server.close();
+		this.server.closeAllConnections();
+		this.server = null;
+		this.host = null;
+		console.log("[terminal-share] Stopped");
+	}
+
+	/** Share for a request's token, if it may be reached from where it came */
+	private getShareForRequest(req: Request): TerminalShare | undefined {
+		const share = this.registry.getByToken(req.params.token);
+		if (!share || (!share.lanAccess && !isLoopbackRequest(req))) {
+			return undefined;
+		}
+		return share;
+	}
+
+	private createApp(): express.Express {
+		const app = express();
+
+		app.use(
+			"/assets",
+			express.static(path.join(VIEWER_DIR, "xterm"), { fallthrough: false }),
+		);
+
+		app.get("/s/:token", (req, res) => {
+			if (!this.getShareForRequest(req)) {
+				return res.status(404).send("This share has ended.");
+			}
+			res.setHeader("Cache-Control", "no-store");
+			res.sendFile(path.join(VIEWER_DIR, "index.html"));
+		});
+
+		app.get("/s/:token/events", (req, res) => {
+			const share = this.getShareForRequest(req);
+			const snapshot =
+				share && terminalManager.getScrollbackSnapshot(share.paneId);
+			if (!share || !snapshot) {
+				return res.status(404).end();
+			}
+
+			res.writeHead(200, {
+				"Content-Type": "text/event-stream",
+				"Cache-Control": "no-store",
+				Connection: "keep-alive",
+			});
+			sendEvent(res, "snapshot", { ...snapshot, allowWrite: share.allowWrite });
+
+			const onData = (data: string) => sendEvent(res, "data", data);
+			const onResize = (cols: number, rows: number) =>
+				sendEvent(res, "resize", { cols, rows });
+			terminalManager.on(`data:${share.paneId}`, onData);
+			terminalManager.on(`resize:${share.paneId}`, onResize);
+
+			const heartbeat = setInterval(() => {
+				res.write(": keepalive\n\n");
+			}, HEARTBEAT_INTERVAL_MS);
+			heartbeat.unref();
+
+			let viewers = this.viewers.get(share.id);
+			if (!viewers) {
+				viewers = new Set();
+				this.viewers.set(share.id, viewers);
+			}
+			viewers.add(res);
+
+			req.on("close", () => {
+				clearInterval(heartbeat);
+				terminalManager.off(`data:${share.paneId}`, onData);
+				terminalManager.off(`resize:${share.paneId}`, onResize);
+				this.viewers.get(share.id)?.delete(res);
+			});
+		});
+
+		app.post("/s/:token/input", express.json({ limit: "64kb" }), (req, res) => {
+			const share = this.getShareForRequest(req);
+			if (!share) {
+				return res.status(404).end();
+			}
+			if (!share.allowWrite) {
+				return res.status(403).json({ error: "This share is read-only" });
+			}
+
+			const data: unknown = req.body?.data;
+			if (typeof data !== "string") {
+				return res.status(400).json({ error: "Missing input data" });
+			}
+
+			try {
+				terminalManager.write({ paneId: share.paneId, data });
+				res.status(204).end();
+			} catch {
+				res.status(410).json({ error: "Terminal is no longer running" });
+			}
+		});
+
+		return app;
+	}
+}
+
+export const terminalShareServer = new TerminalShareServer();
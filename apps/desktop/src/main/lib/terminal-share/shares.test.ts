@@ -0,0 +1,92 @@
+import { describe, expect, it } from "bun:test";
+import { SHARE_TTL_MS, TerminalShareRegistry } from "./shares";
+
+describe("TerminalShareRegistry", () => {
+	it("should create read-only shares with a URL-safe token", () => {
+		const registry = new TerminalShareRegistry();
+		const share = registry.create({ paneId: "pane-1", workspaceId: "ws-1" });
+
+		expect(share.allowWrite).toBe(false);
+		expect(share.token).toMatch(/^[\w-]{32}$/);
+		expect(registry.getByToken(share.token)).toBe(share);
+	});
+
+	it("should return the existing share when a pane is shared again", () => {
+		const registry = new TerminalShareRegistry();
+		const first = registry.create({ paneId: "pane-1", workspaceId: "ws-1" });
+		const second = registry.create({
+			paneId: "pane-1",
+			workspaceId: "ws-1",
+			allowWrite: true,
+		});
+
+		expect(second).toBe(first);
+		expect(registry.size).toBe(1);
+	});
+
+	it("should apply new options when a pane is shared again", () => {
+		const registry = new TerminalShareRegistry();
+		const first = registry.create({ paneId: "pane-1", workspaceId: "ws-1" });
+		const { token, expiresAt } = first;
+
+		registry.create({
+			paneId: "pane-1",
+			workspaceId: "ws-1",
+			allowWrite: true,
+			lanAccess: true,
+		});
+		expect(first).toMatchObject({
+			allowWrite: true,
+			lanAccess: true,
+			token,
+			expiresAt,
+		});
+
+		registry.create({ paneId: "pane-1", workspaceId: "ws-1" });
+		expect(first.allowWrite).toBe(true);
+	});
+
+	it("should keep shares local and expiring by default", () => {
+		const registry = new TerminalShareRegistry();
+		const share = registry.create({ paneId: "pane-1", workspaceId: "ws-1" });
+
+		expect(share.lanAccess).toBe(false);
+		expect(share.expiresAt - share.createdAt).toBe(SHARE_TTL_MS);
+	});
+
+	it("should not resolve an expired token", () => {
+		const registry = new TerminalShareRegistry();
+		const share = registry.create({ paneId: "pane-1", workspaceId: "ws-1" });
+
+		share.expiresAt = Date.now() - 1;
+		expect(registry.getByToken(share.token)).toBeUndefined();
+	});
+
+	it("should not find shares by a wrong or partial token", () => {
+		const registry = new TerminalShareRegistry();
+		const share = registry.create({ paneId: "pane-1", workspaceId: "ws-1" });
+
+		expect(registry.getByToken("")).toBeUndefined();
+		expect(registry.getByToken(share.token.slice(0, -1))).toBeUndefined();
+		expect(registry.getByToken(`${share.token}x`)).toBeUndefined();
+	});
+
+	it("should stop resolving a token once revoked", () => {
+		const registry = new TerminalShareRegistry();
+		const share = registry.create({ paneId: "pane-1", workspaceId: "ws-1" });
+
+		expect(registry.revoke(share.id)).toBe(share);
+		expect(registry.getByToken(share.token)).toBeUndefined();
+		expect(registry.getByPaneId("pane-1")).toBeUndefined();
+		expect(registry.revoke(share.id)).toBeUndefined();
+	});
+
+	it("should toggle write mode", () => {
+		const registry = new TerminalShareRegistry();
+		const share = registry.create({ paneId: "pane-1", workspaceId: "ws-1" });
+
+		registry.setAllowWrite(share.id, true);
+		expect(registry.getByToken(share.token)?.allowWrite).toBe(true);
+		expect(registry.setAllowWrite("missing", true)).toBeUndefined();
+	});
+});
@@ -0,0 +1,116 @@
+import { randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+
+/** A pane shared with viewers who know its token */
+export interface TerminalShare {
+	id: string;
+	/** Secret in the share URL; anyone with it can watch the pane */
+	token: string;
+	paneId: string;
+	workspaceId: string;
+	/** Viewers may type into the pane */
+	allowWrite: boolean;
+	/** Viewers on other machines may connect; otherwise only this one */
+	lanAccess: boolean;
+	createdAt: number;
+	/** The token stops working after this */
+	expiresAt: number;
+}
+
+/** How long a share link works before it has to be shared again */
+export const SHARE_TTL_MS = 60 * 60 * 1000;
+
+function generateToken(): string {
+	return randomBytes(24).toString("base64url");
+}
+
+function tokensMatch(a: string, b: string): boolean {
+	const bufferA = Buffer.from(a);
+	const bufferB = Buffer.from(b);
+	return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * In-memory list of active shares, at most one per pane. Shares are never
+ * persisted: restarting the app revokes them all.
+ */
+export class TerminalShareRegistry {
+	private shares = new Map<string, TerminalShare>();
+
+	/**
+	 * Share a pane, or return its existing share with the given options
+	 * applied. The existing share keeps its token and expiry.
+	 */
+	create(params: {
+		paneId: string;
+		workspaceId: string;
+		allowWrite?: boolean;
+		lanAccess?: boolean;
+	}): TerminalShare {
+		const existing = this.getByPaneId(params.paneId);
+		if (existing) {
+			existing.allowWrite = params.allowWrite ?? existing.allowWrite;
+			existing.lanAccess = params.lanAccess ?? existing.lanAccess;
+			return existing;
+		}
+
+		const now = Date.now();
+		const share: TerminalShare = {
+			id: randomUUID(),
+			token: generateToken(),
+			paneId: params.paneId,
+			workspaceId: params.workspaceId,
+			allowWrite: params.allowWrite ?? false,
+			lanAccess: params.lanAccess ?? false,
+			createdAt: now,
+			expiresAt: now + SHARE_TTL_MS,
+		};
+		this.shares.set(share.id, share);
+		return share;
+	}
+
+	get(id: string): TerminalShare | undefined {
+		return this.shares.get(id);
+	}
+
+	/** Share for a token, unless it has expired */
+	getByToken(token: string): TerminalShare | undefined {
+		const now = Date.now();
+		for (const share of this.shares.values()) {
+			if (share.expiresAt > now && tokensMatch(share.token, token)) {
+				return share;
+			}
+		}
+		return undefined;
+	}
+
+	getByPaneId(paneId: string): TerminalShare | undefined {
+		for (const share of this.shares.values()) {
+			if (share.paneId === paneId) {
+				return share;
+			}
+		}
+		return undefined;
+	}
+
+	setAllowWrite(id: string, allowWrite: boolean): TerminalShare | undefined {
+		const share = this.shares.get(id);
+		if (share) {
+			share.allowWrite = allowWrite;
+		}
+		return share;
+	}
+
+	revoke(id: string): TerminalShare | undefined {
+		const share = this.shares.get(id);
+		this.shares.delete(id);
+		return share;
+	}
+
+	list(): TerminalShare[] {
+		return Array.from(this.shares.values());
+	}
+
+	get size(): number {
+		return this.shares.size;
+	}
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "bun:test";
+import {
+	detectLifecycleEvent,
+	getIdleTimeoutMs,
+	isPermissionPromptVisible,
+	type PaneActivitySnapshot,
+} from "./activity-detection";
+
+const IDLE_TIMEOUT_MS = 15 * 60_000;
+
+function snapshot(
+	overrides: Partial<PaneActivitySnapshot>,
+): PaneActivitySnapshot {
+	return {
+		status: "idle",
+		agentRunning: true,
+		hasForegroundProcess: true,
+		promptVisible: false,
+		quietForMs: 0,
+		idleTimeoutMs: IDLE_TIMEOUT_MS,
+		respondedToInput: false,
+		resumedAfterStop: false,
+		...overrides,
+	};
+}
+
+describe("isPermissionPromptVisible", () => {
+	it("should match known agent approval prompts", () => {
+		expect(isPermissionPromptVisible(["", " Do you want to proceed?"])).toBe(
+			true,
+		);
+		expect(
+			isPermissionPromptVisible([
+				"Would you like to run the following command?",
+			]),
+		).toBe(true);
+		expect(
+			isPermissionPromptVisible([
+				"Add file to the chat? (Y)es/(N)o/(D)on't ask again [Yes]:",
+			]),
+		).toBe(true);
+	});
+
+	it("should ignore ordinary output", () => {
+		expect(
+			isPermissionPromptVisible([
+				"Running tests...",
+				"You can allow CORS in the config",
+			]),
+		).toBe(false);
+	});
+});
+
+describe("detectLifecycleEvent", () => {
+	it("should stop a working pane once the shell prompt is back", () => {
+		expect(
+			detectLifecycleEvent(
+				snapshot({ status: "working", hasForegroundProcess: false }),
+			),
+		).toBe("Stop");
+		expect(
+			detectLifecycleEvent(
+				snapshot({ status: "idle", hasForegroundProcess: false }),
+			),
+		).toBeNull();
+	});
+
+	it("should report a visible permission prompt once", () => {
+		expect(
+			detectLifecycleEvent(
+				snapshot({ status: "working", promptVisible: true }),
+			),
+		).toBe("PermissionRequest");
+		expect(
+			detectLifecycleEvent(
+				snapshot({
+					status: "permission",
+					promptVisible: true,
+					quietForMs: IDLE_TIMEOUT_MS * 2,
+				}),
+			),
+		).toBeNull();
+	});
+
+	it("should ignore prompts when no agent is running", () => {
+		expect(
+			detectLifecycleEvent(
+				snapshot({ agentRunning: false, promptVisible: true }),
+			),
+		).toBeNull();
+	});
+
+	it("should stop after the pane goes quiet (e.g. after Ctrl+C)", () => {
+		expect(
+			detectLifecycleEvent(
+				snapshot({ status: "working", quietForMs: IDLE_TIMEOUT_MS }),
+			),
+		).toBe("Stop");
+		expect(
+			detectLifecycleEvent(
+				snapshot({ status: "working", quietForMs: IDLE_TIMEOUT_MS - 1 }),
+			),
+		).toBeNull();
+	});
+
+	it("should not stop on silence when the idle timeout is off", () => {
+		expect(
+			detectLifecycleEvent(
+				snapshot({
+					status: "working",
+					quietForMs: IDLE_TIMEOUT_MS * 10,
+					idleTimeoutMs: null,
+				}),
+			),
+		).toBeNull();
+	});
+
+	it("should start again when the agent resumes output after going quiet", () => {
+		expect(detectLifecycleEvent(snapshot({ resumedAfterStop: true }))).toBe(
+			"Start",
+		);
+		expect(
+			detectLifecycleEvent(
+				snapshot({ status: "working", resumedAfterStop: true }),
+			),
+		).toBeNull();
+		expect(
+			detectLifecycleEvent(
+				snapshot({ agentRunning: false, resumedAfterStop: true }),
+			),
+		).toBeNull();
+	});
+
+	it("should stop when a permission prompt is dismissed without resuming", () => {
+		expect(
+			detectLifecycleEvent(
+				snapshot({ status: "permission", quietForMs: IDLE_TIMEOUT_MS }),
+			),
+		).toBe("Stop");
+	});
+
+	it("should start when a running agent responds to input", () => {
+		expect(detectLifecycleEvent(snapshot({ respondedToInput: true }))).toBe(
+			"Start",
+		);
+		expect(
+			detectLifecycleEvent(
+				snapshot({ status: "permission", respondedToInput: true }),
+			),
+		).toBe("Start");
+		expect(
+			detectLifecycleEvent(
+				snapshot({ agentRunning: false, respondedToInput: true }),
+			),
+		).toBeNull();
+	});
+});
+
+describe("getIdleTimeoutMs", () => {
+	it("should convert minutes and treat 0 as off", () => {
+		expect(getIdleTimeoutMs(15)).toBe(900_000);
+		expect(getIdleTimeoutMs(0)).toBeNull();
+	});
+});
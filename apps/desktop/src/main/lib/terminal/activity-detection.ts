@@ -0,0 +1,118 @@
+import type { AgentLifecycleEvent } from "shared/notification-types";
+
+export type AgentLifecycleEventType = AgentLifecycleEvent["eventType"];
+
+/** Lifecycle state of a pane as last reported by hooks or synthetic events */
+export type PaneAgentStatus = "idle" | "working" | "permission";
+
+/**
+ * Silence timeout for the agent idle timeout setting, in minutes; 0 turns it
+ * off so only a returned shell prompt stops an agent.
+ */
+export function getIdleTimeoutMs(minutes: number): number | null {
+	return minutes > 0 ? minutes * 60_000 : null;
+}
+
+/**
+ * Questions agents print while waiting for approval. Matched against the
+ * last lines of the screen, so they only need to be specific enough not to
+ * show up in ordinary agent output.
+ */
+export const PERMISSION_PROMPT_PATTERNS: RegExp[] = [
+	// Claude Code: "Do you want to proceed?", "Do you want to make this edit to x?"
+	/\bdo you want to (proceed|make this edit|create|allow|run)\b/i,
+	// Codex: "Would you like to run the following command?"
+	/\bwould you like to (run|make|apply|allow)\b/i,
+	/\ballow (this|command|once|always)\b.*\?/i,
+	// aider: "(Y)es/(N)o/(D)on't ask again"
+	/\(y\)es\/\(n\)o/i,
+	/[[(]y\/n[\])]/i,
+	/\bwaiting for (your )?approval\b/i,
+];
+
+export function isPermissionPromptVisible(lines: string[]): boolean {
+	return lines.some((line) =>
+		PERMISSION_PROMPT_PATTERNS.some((pattern) => pattern.test(line)),
+	);
+}
+
+export interface PaneActivitySnapshot {
+	status: PaneAgentStatus;
+	/** An agent command was started in the pane and hasn't exited */
+	agentRunning: boolean;
+	/** The shell has a child process; false once the shell prompt is back */
+	hasForegroundProcess: boolean;
+	/** A permission prompt is on the bottom of the screen */
+	promptVisible: boolean;
+	/** Time since the pane last produced output */
+	quietForMs: number;
+	/**
+	 * Silence after which a running agent is assumed to have stopped (e.g. after
+	 * Ctrl+C), or null to never infer a Stop from silence
+	 */
+	idleTimeoutMs: number | null;
+	/** Output arrived after input was last submitted to the running agent */
+	respondedToInput: boolean;
+	/** The agent produced output on its own after a Stop inferred from silence */
+	resumedAfterStop: boolean;
+}
+
+/**
+ * Lifecycle event implied by what a pane's output shows, or null when the
+ * current status already matches. Covers what hooks can't report: Ctrl+C,
+ * denied permissions and agents without hook support.
+ */
+export function detectLifecycleEvent(
+	snapshot: PaneActivitySnapshot,
+): AgentLifecycleEventType | null {
+	const {
+		status,
+		agentRunning,
+		hasForegroundProcess,
+		promptVisible,
+		quietForMs,
+		idleTimeoutMs,
+		respondedToInput,
+		resumedAfterStop,
+	} = snapshot;
+
+	// Shell prompt is back - whatever was running has exited
+	if (!hasForegroundProcess) {
+		return status === "idle" ? null : "Stop";
+	}
+
+	if (promptVisible) {
+		const isAgent = agentRunning || status === "working";
+		return isAgent && status !== "permission" ? "PermissionRequest" : null;
+	}
+
+	if (idleTimeoutMs !== null && quietForMs >= idleTimeoutMs) {
+		return status === "idle" ? null : "Stop";
+	}
+
+	if (!agentRunning || status === "working") {
+		return null;
+	}
+	if (respondedToInput || (status === "idle" && resumedAfterStop)) {
+		return "Start";
+	}
+
+	return null;
+}
+
+/**
+ * Status a pane is in after a lifecycle event. Stop maps to idle here; the
+ * renderer decides between idle and review.
+ */
+export function getStatusAfterEvent(
+	eventType: AgentLifecycleEventType,
+): PaneAgentStatus {
+	switch (eventType) {
+		case "Start":
+			return "working";
+		case "PermissionRequest":
+			return "permission";
+		case "Stop":
+			return "idle";
+	}
+}
@@ -0,0 +1,218 @@
+import { EventEmitter } from "node:events";
+import { DEFAULT_AGENT_IDLE_TIMEOUT_MINUTES } from "shared/constants";
+import type { AgentLifecycleEvent } from "shared/notification-types";
+import { getAgentCommandPattern } from "../agent-setup/registry";
+import {
+	type AgentLifecycleEventType,
+	detectLifecycleEvent,
+	getIdleTimeoutMs,
+	getStatusAfterEvent,
+	isPermissionPromptVisible,
+	type PaneAgentStatus,
+} from "./activity-detection";
+import { getBufferTail } from "./headless";
+import { getProcessTree } from "./port-scanner";
+import type { TerminalSession } from "./types";
+
+// How often panes with a running agent are re-evaluated (in ms)
+const TICK_INTERVAL_MS = 2000;
+
+// Screen lines searched for permission prompts
+const PROMPT_LINE_COUNT = 12;
+
+// Output this soon after a keystroke is treated as its echo, not agent activity
+const ECHO_WINDOW_MS = 1000;
+
+interface MonitoredPane {
+	session: TerminalSession;
+	status: PaneAgentStatus;
+	agentRunning: boolean;
+	/** When input was last submitted to the running agent */
+	submittedAt: number | null;
+	/** When anything was last typed into the pane */
+	lastInputAt: number;
+	/** When a Stop was inferred from silence while the agent kept running */
+	quietStopAt: number | null;
+}
+
+/**
+ * Infers agent lifecycle events from terminal output, for the cases hooks
+ * don't cover: Ctrl+C, denied permissions, tool failures and agents with no
+ * hook support. Emits "lifecycle" with an AgentLifecycleEvent whenever a
+ * pane's output contradicts its last known status.
+ */
+class AgentActivityMonitor extends EventEmitter {
+	private panes = new Map<string, MonitoredPane>();
+	private tickInterval: ReturnType<typeof setInterval> | null = null;
+	private isTicking = false;
+	private idleTimeoutMs = getIdleTimeoutMs(DEFAULT_AGENT_IDLE_TIMEOUT_MINUTES);
+
+	/** Applies the agent idle timeout setting */
+	setIdleTimeout(minutes: number): void {
+		this.idleTimeoutMs = getIdleTimeoutMs(minutes);
+	}
+
+	/**
+	 * Start watching a session. `agentCommand` marks sessions whose initial
+	 * commands launch an agent.
+	 */
+	registerSession(
+		session: TerminalSession,
+		options?: { agentCommand?: boolean },
+	): void {
+		this.panes.set(session.paneId, {
+			session,
+			status: "idle",
+			agentRunning: options?.agentCommand ?? false,
+			submittedAt: null,
+			lastInputAt: 0,
+			quietStopAt: null,
+		});
+		this.startTicking();
+	}
+
+	unregisterSession(paneId: string): void {
+		this.panes.delete(paneId);
+		if (this.panes.size === 0) {
+			this.stopTicking();
+		}
+	}
+
+	/**
+	 * Called with everything written to a pane. A submitted line either goes
+	 * to the running agent or, if it launches one, marks the agent as running.
+	 */
+	recordInput(paneId: string, data: string): void {
+		const pane = this.panes.get(paneId);
+		if (!pane) return;
+		pane.lastInputAt = Date.now();
+		if (!/[\r\n]/.test(data)) return;
+
+		if (pane.agentRunning) {
+			pane.submittedAt = Date.now();
+			return;
+		}
+
+		// Read the submitted line off the screen so history recall and line
+		// editing are accounted for
+		const [commandLine] = getBufferTail(pane.session.headless, 1);
+		if (commandLine && getAgentCommandPattern().test(commandLine)) {
+			pane.agentRunning = true;
+		}
+	}
+
+	/**
+	 * Keep a pane's status in sync with lifecycle events from any source.
+	 */
+	setStatus(paneId: string, eventType: AgentLifecycleEventType): void {
+		const pane = this.panes.get(paneId);
+		if (!pane) return;
+
+		pane.status = getStatusAfterEvent(eventType);
+		pane.quietStopAt = null;
+		// Only an agent sends Start or PermissionRequest
+		if (eventType !== "Stop") {
+			pane.agentRunning = true;
+		}
+	}
+
+	private startTicking(): void {
+		if (this.tickInterval) return;
+
+		this.tickInterval = setInterval(() => {
+			this.tick().catch((error) => {
+				console.error("[AgentActivityMonitor] Tick error:", error);
+			});
+		}, TICK_INTERVAL_MS);
+
+		// Don't prevent Node from exiting
+		this.tickInterval.unref();
+	}
+
+	stopTicking(): void {
+		if (this.tickInterval) {
+			clearInterval(this.tickInterval);
+			this.tickInterval = null;
+		}
+	}
+
+	private async tick(): Promise<void> {
+		if (this.isTicking) return;
+		this.isTicking = true;
+
+		try {
+			for (const [paneId, pane] of this.panes) {
+				if (!pane.session.isAlive) continue;
+				if (!pane.agentRunning && pane.status === "idle") continue;
+
+				await this.evaluatePane(paneId, pane);
+			}
+		} finally {
+			this.isTicking = false;
+		}
+	}
+
+	private async evaluatePane(
+		paneId: string,
+		pane: MonitoredPane,
+	): Promise<void> {
+		const { session } = pane;
+		const quietForMs = Date.now() - session.lastOutputAt;
+
+		// Only look for a returned shell prompt once output has settled
+		let hasForegroundProcess = true;
+		if (quietForMs >= TICK_INTERVAL_MS) {
+			const pids = await getProcessTree(session.pty.pid);
+			hasForegroundProcess = pids.length > 1;
+		}
+
+		// Session may have exited or been replaced while scanning
+		if (this.panes.get(paneId) !== pane || !session.isAlive) return;
+
+		const respondedToInput =
+			pane.submittedAt !== null && session.lastOutputAt > pane.submittedAt;
+		const resumedAfterStop =
+			pane.quietStopAt !== null &&
+			session.lastOutputAt > pane.quietStopAt &&
+			session.lastOutputAt - pane.lastInputAt > ECHO_WINDOW_MS;
+
+		const eventType = detectLifecycleEvent({
+			status: pane.status,
+			agentRunning: pane.agentRunning,
+			hasForegroundProcess,
+			promptVisible: isPermissionPromptVisible(
+				getBufferTail(session.headless, PROMPT_LINE_COUNT),
+			),
+			quietForMs,
+			idleTimeoutMs: this.idleTimeoutMs,
+			respondedToInput,
+			resumedAfterStop,
+		});
+
+		if (respondedToInput) {
+			pane.submittedAt = null;
+		}
+		if (!hasForegroundProcess) {
+			pane.agentRunning = false;
+			pane.submittedAt = null;
+		}
+
+		if (!eventType) return;
+
+		pane.status = getStatusAfterEvent(eventType);
+		const event: AgentLifecycleEvent = {
+			paneId,
+			workspaceId: session.workspaceId,
+			eventType,
+		};
+		this.emit("lifecycle", event);
+
+		// Set after emitting, since the event comes back through setStatus.
+		// A Stop with the agent still in the foreground only came from silence;
+		// remember it so the agent picking back up reports Start again
+		pane.quietStopAt =
+			eventType === "Stop" && hasForegroundProcess ? Date.now() : null;
+	}
+}
+
+export const agentActivityMonitor = new AgentActivityMonitor();
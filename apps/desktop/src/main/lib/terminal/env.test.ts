@@ -664,6 +664,19 @@ describe("env", () => {
 				expect(result.SUPERSET_PORT).toBeDefined();
 				expect(typeof result.SUPERSET_PORT).toBe("string");
 			});
+
+			it("should include the workspace's reserved ports", () => {
+				const result = buildTerminalEnv({
+					...baseParams,
+					portEnv: {
+						SUPERSET_PORT_BASE: "20010",
+						SUPERSET_PORT_WEB: "20010",
+					},
+				});
+
+				expect(result.SUPERSET_PORT_BASE).toBe("20010");
+				expect(result.SUPERSET_PORT_WEB).toBe("20010");
+			});
 		});
 
 		it("should include SUPERSET_ENV for dev/prod separation", () => {
@@ -675,7 +688,7 @@ describe("env", () => {
 		it("should include SUPERSET_HOOK_VERSION for protocol versioning", () => {
 			const result = buildTerminalEnv(baseParams);
 			expect(result.SUPERSET_HOOK_VERSION).toBeDefined();
-			expect(result.SUPERSET_HOOK_VERSION).toBe("2");
+			expect(result.SUPERSET_HOOK_VERSION).toBe("3");
 		});
 	});
 });
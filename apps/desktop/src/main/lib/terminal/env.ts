@@ -10,7 +10,7 @@ import { getShellEnv } from "../agent-setup/shell-wrappers";
  * Increment when making breaking changes to the hook protocol.
  * The server logs this for debugging version mismatches.
  */
-export const HOOK_PROTOCOL_VERSION = "2";
+export const HOOK_PROTOCOL_VERSION = "3";
 
 export const FALLBACK_SHELL = os.platform() === "win32" ? "cmd.exe" : "/bin/sh";
 export const SHELL_CRASH_THRESHOLD_MS = 1000;
@@ -327,6 +327,7 @@ export function buildTerminalEnv(params: {
 	workspaceName?: string;
 	workspacePath?: string;
 	rootPath?: string;
+	portEnv?: Record<string, string>;
 }): Record<string, string> {
 	const {
 		shell,
@@ -336,6 +337,7 @@ export function buildTerminalEnv(params: {
 		workspaceName,
 		workspacePath,
 		rootPath,
+		portEnv,
 	} = params;
 
 	// Get Electron's process.env and filter to only allowlisted safe vars
@@ -366,6 +368,7 @@ export function buildTerminalEnv(params: {
 		SUPERSET_ENV: env.NODE_ENV === "development" ? "development" : "production",
 		// Hook protocol version for forward compatibility
 		SUPERSET_HOOK_VERSION: HOOK_PROTOCOL_VERSION,
+		...portEnv,
 	};
 
 	delete terminalEnv.GOOGLE_API_KEY;
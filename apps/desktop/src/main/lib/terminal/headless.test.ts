@@ -0,0 +1,90 @@
+import { describe, expect, it } from "bun:test";
+import {
+	createHeadlessTerminal,
+	getBufferTail,
+	searchBuffer,
+} from "./headless";
+
+function write(
+	headless: ReturnType<typeof createHeadlessTerminal>["headless"],
+	data: string,
+) {
+	return new Promise<void>((resolve) => headless.write(data, resolve));
+}
+
+describe("getBufferTail", () => {
+	it("should return the last lines up to the cursor", async () => {
+		const { headless } = createHeadlessTerminal({ cols: 40, rows: 10 });
+		await write(headless, "one\r\ntwo\r\nthree\r\nDo you want to proceed?\r\n");
+
+		expect(getBufferTail(headless, 2)).toEqual([
+			"three",
+			"Do you want to proceed?",
+		]);
+		headless.dispose();
+	});
+
+	it("should join wrapped rows into one line", async () => {
+		const { headless } = createHeadlessTerminal({ cols: 10, rows: 5 });
+		await write(headless, "abcdefghijklmno\r\n");
+
+		expect(getBufferTail(headless, 5)).toEqual(["abcdefghijklmno"]);
+		headless.dispose();
+	});
+
+	it("should return an empty list for an empty buffer", () => {
+		const { headless } = createHeadlessTerminal({ cols: 40, rows: 10 });
+		expect(getBufferTail(headless, 5)).toEqual([]);
+		headless.dispose();
+	});
+});
+
+describe("searchBuffer", () => {
+	it("should return matching lines with context", async () => {
+		const { headless } = createHeadlessTerminal({ cols: 40, rows: 10 });
+		await write(
+			headless,
+			"$ npm test\r\nPASS a.test.ts\r\nFAIL b.test.ts\r\ndone\r\n",
+		);
+
+		expect(searchBuffer(headless, "fail")).toEqual({
+			matches: [
+				{
+					row: 2,
+					column: 0,
+					text: "FAIL b.test.ts",
+					before: ["PASS a.test.ts"],
+					after: ["done"],
+				},
+			],
+			truncated: false,
+		});
+		expect(
+			searchBuffer(headless, "fail", { caseSensitive: true }).matches,
+		).toEqual([]);
+		headless.dispose();
+	});
+
+	it("should match across wrapped rows", async () => {
+		const { headless } = createHeadlessTerminal({ cols: 10, rows: 5 });
+		await write(headless, "abcdefghijklmno\r\n");
+
+		const { matches } = searchBuffer(headless, "jklm");
+		expect(matches).toHaveLength(1);
+		expect(matches[0]).toMatchObject({ row: 0, column: 9 });
+		headless.dispose();
+	});
+
+	it("should keep the most recent matches when truncating", async () => {
+		const { headless } = createHeadlessTerminal({ cols: 40, rows: 10 });
+		await write(headless, "error 1\r\nerror 2\r\nerror 3\r\n");
+
+		const result = searchBuffer(headless, "error", { maxMatches: 2 });
+		expect(result.truncated).toBe(true);
+		expect(result.matches.map((match) => match.text)).toEqual([
+			"error 2",
+			"error 3",
+		]);
+		headless.dispose();
+	});
+});
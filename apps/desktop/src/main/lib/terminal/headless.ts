@@ -0,0 +1,142 @@
+import { SerializeAddon } from "@xterm/addon-serialize";
+import { Terminal as HeadlessTerminal } from "@xterm/headless";
+
+const DEFAULT_SCROLLBACK = 10000;
+
+/**
+ * Create a headless xterm with a serializer attached. Kept free of node-pty so
+ * the terminal host daemon can mirror output without pulling in session code.
+ */
+export function createHeadlessTerminal(params: {
+	cols: number;
+	rows: number;
+	scrollback?: number;
+}): { headless: HeadlessTerminal; serializer: SerializeAddon } {
+	const { cols, rows, scrollback = DEFAULT_SCROLLBACK } = params;
+
+	const headless = new HeadlessTerminal({
+		cols,
+		rows,
+		scrollback,
+		allowProposedApi: true,
+	});
+
+	const serializer = new SerializeAddon();
+	// SerializeAddon types expect browser Terminal, but works with headless at runtime
+	headless.loadAddon(
+		serializer as unknown as Parameters<typeof headless.loadAddon>[0],
+	);
+
+	return { headless, serializer };
+}
+
+/**
+ * Plain-text lines at the bottom of the buffer (up to the cursor row), with
+ * trailing blank lines dropped. Wrapped rows are joined back into one line.
+ */
+export function getBufferTail(
+	headless: HeadlessTerminal,
+	lineCount: number,
+): string[] {
+	const buffer = headless.buffer.active;
+	const lastRow = buffer.baseY + buffer.cursorY;
+
+	const lines: string[] = [];
+	let current = "";
+	for (let row = lastRow; row >= 0 && lines.length < lineCount; row--) {
+		const line = buffer.getLine(row);
+		if (!line) continue;
+		current = line.translateToString(true) + current;
+		if (!line.isWrapped) {
+			// Skip blank rows below the last output (e.g. an empty cursor row)
+			if (lines.length > 0 || current.trim() !== "") {
+				lines.push(current);
+			}
+			current = "";
+		}
+	}
+
+	return lines.reverse();
+}
+
+export interface BufferSearchMatch {
+	/** Buffer row the matching line starts on (wrapped lines span more rows) */
+	row: number;
+	/** Offset of the first match within the line */
+	column: number;
+	text: string;
+	before: string[];
+	after: string[];
+}
+
+/**
+ * Plain-text lines of the whole buffer with wrapped rows joined, each with
+ * the row it starts on. Trailing blank lines are dropped.
+ */
+function getBufferLines(
+	headless: HeadlessTerminal,
+): { row: number; text: string }[] {
+	const buffer = headless.buffer.active;
+	const lines: { row: number; text: string }[] = [];
+
+	for (let row = 0; row < buffer.length; row++) {
+		const line = buffer.getLine(row);
+		if (!line) continue;
+		const text = line.translateToString(true);
+		const previous = lines[lines.length - 1];
+		if (line.isWrapped && previous) {
+			previous.text += text;
+		} else {
+			lines.push({ row, text });
+		}
+	}
+
+	while (lines.length > 0 && lines[lines.length - 1].text.trim() === "") {
+		lines.pop();
+	}
+	return lines;
+}
+
+/**
+ * Lines of the buffer containing `query`, with surrounding lines for context.
+ * When there are more than `maxMatches`, the most recent ones are kept.
+ */
+export function searchBuffer(
+	headless: HeadlessTerminal,
+	query: string,
+	options: {
+		caseSensitive?: boolean;
+		contextLines?: number;
+		maxMatches?: number;
+	} = {},
+): { matches: BufferSearchMatch[]; truncated: boolean } {
+	const { caseSensitive = false, contextLines = 1, maxMatches = 50 } = options;
+	if (!query) return { matches: [], truncated: false };
+
+	const lines = getBufferLines(headless);
+	const needle = caseSensitive ? query : query.toLowerCase();
+	const matches: BufferSearchMatch[] = [];
+
+	for (let index = lines.length - 1; index >= 0; index--) {
+		const { row, text } = lines[index];
+		const column = (caseSensitive ? text : text.toLowerCase()).indexOf(needle);
+		if (column === -1) continue;
+
+		if (matches.length === maxMatches) {
+			return { matches: matches.reverse(), truncated: true };
+		}
+		matches.push({
+			row,
+			column,
+			text,
+			before: lines
+				.slice(Math.max(0, index - contextLines), index)
+				.map((line) => line.text),
+			after: lines
+				.slice(index + 1, index + 1 + contextLines)
+				.map((line) => line.text),
+		});
+	}
+
+	return { matches: matches.reverse(), truncated: false };
+}
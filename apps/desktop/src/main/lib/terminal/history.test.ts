@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import fs from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+import {
+	deletePaneHistory,
+	deleteWorkspaceHistory,
+	loadHistory,
+	saveHistory,
+	TERMINAL_HISTORY_DIR,
+	truncateHistory,
+} from "./history";
+
+const WORKSPACE_ID = `history-test-${process.pid}`;
+
+describe("truncateHistory", () => {
+	it("should return data unchanged when under the limit", () => {
+		expect(truncateHistory("line 1\r\nline 2\r\n", 100)).toBe(
+			"line 1\r\nline 2\r\n",
+		);
+	});
+
+	it("should keep the tail starting at a line boundary", () => {
+		const data = "first line\r\nsecond line\r\nthird line\r\n";
+		const result = truncateHistory(data, 20);
+
+		expect(result).toBe("third line\r\n");
+		expect(Buffer.byteLength(result)).toBeLessThanOrEqual(20);
+	});
+
+	it("should measure the limit in bytes, not characters", () => {
+		const data = `${"é".repeat(20)}\nend`;
+		const result = truncateHistory(data, 10);
+
+		expect(result).toBe("end");
+	});
+
+	it("should fall back to a raw tail when there is no newline", () => {
+		expect(truncateHistory("abcdefghij", 4)).toBe("ghij");
+	});
+});
+
+describe("history persistence", () => {
+	afterEach(async () => {
+		await deleteWorkspaceHistory(WORKSPACE_ID);
+	});
+
+	it("should round-trip saved scrollback", async () => {
+		await saveHistory({
+			workspaceId: WORKSPACE_ID,
+			paneId: "pane-1",
+			scrollback: "\x1b[32mhello\x1b[0m\r\n",
+		});
+
+		expect(
+			await loadHistory({ workspaceId: WORKSPACE_ID, paneId: "pane-1" }),
+		).toBe("\x1b[32mhello\x1b[0m\r\n");
+	});
+
+	it("should write under the test home directory", () => {
+		expect(TERMINAL_HISTORY_DIR.startsWith(homedir())).toBe(false);
+	});
+
+	it("should survive concurrent saves of the same pane", async () => {
+		await Promise.all(
+			["first\r\n", "second\r\n", "third\r\n"].map((scrollback) =>
+				saveHistory({
+					workspaceId: WORKSPACE_ID,
+					paneId: "pane-1",
+					scrollback,
+				}),
+			),
+		);
+
+		const saved = await loadHistory({
+			workspaceId: WORKSPACE_ID,
+			paneId: "pane-1",
+		});
+		expect(saved).toMatch(/^(first|second|third)\r\n$/);
+		expect(
+			fs.readdirSync(path.join(TERMINAL_HISTORY_DIR, WORKSPACE_ID)),
+		).toEqual(["pane-1.ansi"]);
+	});
+
+	it("should return null when nothing was saved", async () => {
+		expect(
+			await loadHistory({ workspaceId: WORKSPACE_ID, paneId: "missing" }),
+		).toBeNull();
+	});
+
+	it("should delete a single pane's history", async () => {
+		await saveHistory({
+			workspaceId: WORKSPACE_ID,
+			paneId: "pane-1",
+			scrollback: "one",
+		});
+		await saveHistory({
+			workspaceId: WORKSPACE_ID,
+			paneId: "pane-2",
+			scrollback: "two",
+		});
+
+		await deletePaneHistory({ workspaceId: WORKSPACE_ID, paneId: "pane-1" });
+
+		expect(
+			await loadHistory({ workspaceId: WORKSPACE_ID, paneId: "pane-1" }),
+		).toBeNull();
+		expect(
+			await loadHistory({ workspaceId: WORKSPACE_ID, paneId: "pane-2" }),
+		).toBe("two");
+	});
+
+	it("should delete the whole workspace directory", async () => {
+		await saveHistory({
+			workspaceId: WORKSPACE_ID,
+			paneId: "pane-1",
+			scrollback: "one",
+		});
+
+		await deleteWorkspaceHistory(WORKSPACE_ID);
+
+		expect(fs.existsSync(path.join(TERMINAL_HISTORY_DIR, WORKSPACE_ID))).toBe(
+			false,
+		);
+	});
+
+	it("should ignore ids that would escape the history directory", async () => {
+		await saveHistory({
+			workspaceId: "../escape",
+			paneId: "pane-1",
+			scrollback: "nope",
+		});
+
+		expect(fs.existsSync(path.join(TERMINAL_HISTORY_DIR, "..", "escape"))).toBe(
+			false,
+		);
+		expect(
+			await loadHistory({ workspaceId: WORKSPACE_ID, paneId: "../pane" }),
+		).toBeNull();
+	});
+});
@@ -0,0 +1,107 @@
+import { randomBytes } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { SUPERSET_HOME_DIR } from "main/lib/app-environment";
+
+/**
+ * On-disk snapshots of terminal scrollback, so a pane whose shell is gone
+ * (app quit, crash, reboot) can still show its history when reopened.
+ *
+ * Layout: ~/.superset/terminal-history/<workspaceId>/<paneId>.ansi
+ */
+export const TERMINAL_HISTORY_DIR = path.join(
+	SUPERSET_HOME_DIR,
+	"terminal-history",
+);
+
+/** Per-pane cap; older output is dropped from the front */
+export const MAX_HISTORY_BYTES = 1024 * 1024;
+
+const HISTORY_FILE_EXTENSION = ".ansi";
+
+/** Ids come from the renderer; only allow characters that are safe in a path */
+const SAFE_ID_PATTERN = /^[\w-]+$/;
+
+export const RESTORED_HISTORY_BANNER =
+	"\x1b[0m\r\n\x1b[2m── session ended — restored history ──\x1b[0m\r\n\r\n";
+
+function getWorkspaceHistoryDir(workspaceId: string): string | null {
+	if (!SAFE_ID_PATTERN.test(workspaceId)) return null;
+	return path.join(TERMINAL_HISTORY_DIR, workspaceId);
+}
+
+function getHistoryPath(workspaceId: string, paneId: string): string | null {
+	const dir = getWorkspaceHistoryDir(workspaceId);
+	if (!dir || !SAFE_ID_PATTERN.test(paneId)) return null;
+	return path.join(dir, `${paneId}${HISTORY_FILE_EXTENSION}`);
+}
+
+/**
+ * Keep the last maxBytes of serialized output, starting at a line boundary so
+ * the replay doesn't begin mid escape sequence.
+ */
+export function truncateHistory(
+	data: string,
+	maxBytes = MAX_HISTORY_BYTES,
+): string {
+	const buffer = Buffer.from(data, "utf8");
+	if (buffer.length <= maxBytes) return data;
+
+	const tail = buffer.subarray(buffer.length - maxBytes).toString("utf8");
+	const lineStart = tail.indexOf("\n");
+	return lineStart === -1 ? tail : tail.slice(lineStart + 1);
+}
+
+export async function saveHistory(params: {
+	workspaceId: string;
+	paneId: string;
+	scrollback: string;
+}): Promise<void> {
+	const { workspaceId, paneId, scrollback } = params;
+	const filePath = getHistoryPath(workspaceId, paneId);
+	if (!filePath) return;
+
+	await fs.mkdir(path.dirname(filePath), { recursive: true });
+	// Write then rename so a crash mid-write never leaves a torn snapshot. The
+	// temp name is unique so concurrent saves of a pane can't share it.
+	const tempPath = `${filePath}.${process.pid}-${randomBytes(4).toString("hex")}.tmp`;
+	try {
+		await fs.writeFile(tempPath, truncateHistory(scrollback), "utf8");
+		await fs.rename(tempPath, filePath);
+	} catch (error) {
+		await fs.rm(tempPath, { force: true });
+		throw error;
+	}
+}
+
+export async function loadHistory(params: {
+	workspaceId: string;
+	paneId: string;
+}): Promise<string | null> {
+	const filePath = getHistoryPath(params.workspaceId, params.paneId);
+	if (!filePath) return null;
+
+	try {
+		const data = await fs.readFile(filePath, "utf8");
+		return data || null;
+	} catch {
+		return null;
+	}
+}
+
+export async function deletePaneHistory(params: {
+	workspaceId: string;
+	paneId: string;
+}): Promise<void> {
+	const filePath = getHistoryPath(params.workspaceId, params.paneId);
+	if (!filePath) return;
+	await fs.rm(filePath, { force: true });
+}
+
+export async function deleteWorkspaceHistory(
+	workspaceId: string,
+): Promise<void> {
+	const dir = getWorkspaceHistoryDir(workspaceId);
+	if (!dir) return;
+	await fs.rm(dir, { recursive: true, force: true });
+}
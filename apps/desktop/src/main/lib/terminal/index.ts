@@ -1,6 +1,19 @@
+export { agentActivityMonitor } from "./activity-monitor";
+export type { BufferSearchMatch } from "./headless";
 export { TerminalManager, terminalManager } from "./manager";
+export {
+	type Asciicast,
+	type AsciicastEvent,
+	type AsciicastHeader,
+	getRecording,
+	listRecordings,
+	type RecordingInfo,
+} from "./recording";
+export type { ShellCommand } from "./shell-integration";
+export { terminalTriggerManager } from "./trigger-manager";
 export type {
 	CreateSessionParams,
+	PaneSearchResult,
 	SessionResult,
 	TerminalDataEvent,
 	TerminalEvent,
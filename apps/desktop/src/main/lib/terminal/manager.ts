@@ -1,25 +1,62 @@
 import { EventEmitter } from "node:events";
 import { track } from "main/lib/analytics";
 import { ensureAgentHooks } from "../agent-setup/ensure-agent-hooks";
+import { getAgentCommandPattern } from "../agent-setup/registry";
+import { type TerminalHostClient, terminalHostClient } from "../terminal-host";
+import { agentActivityMonitor } from "./activity-monitor";
 import { FALLBACK_SHELL, SHELL_CRASH_THRESHOLD_MS } from "./env";
-import { portManager } from "./port-manager";
 import {
 	createHeadlessTerminal,
+	getBufferTail,
+	searchBuffer,
+} from "./headless";
+import {
+	deletePaneHistory,
+	deleteWorkspaceHistory,
+	loadHistory,
+	RESTORED_HISTORY_BANNER,
+	saveHistory,
+} from "./history";
+import { portManager } from "./port-manager";
+import { AsciicastRecorder } from "./recording";
+import {
+	attachSession,
 	createSession,
 	flushSession,
 	getSerializedScrollback,
 	setupDataHandler,
 } from "./session";
+import type { ShellCommand } from "./shell-integration";
+import { terminalTriggerManager } from "./trigger-manager";
 import type {
 	CreateSessionParams,
 	InternalCreateSessionParams,
+	PaneSearchResult,
 	SessionResult,
 	TerminalSession,
 } from "./types";
 
+/** How often live sessions are snapshotted to disk for cold restore */
+const HISTORY_SNAPSHOT_INTERVAL_MS = 30_000;
+
 export class TerminalManager extends EventEmitter {
 	private sessions = new Map<string, TerminalSession>();
 	private pendingSessions = new Map<string, Promise<SessionResult>>();
+	/** Daemon that owns PTYs across app restarts; null keeps PTYs in-process */
+	private host: TerminalHostClient | null;
+	/** Whether scrollback is snapshotted to disk and replayed on reopen */
+	private persistHistory: boolean;
+	private historyTimer: ReturnType<typeof setInterval> | null = null;
+	private pendingHistoryWrites = new Set<Promise<void>>();
+
+	constructor(options?: {
+		host?: TerminalHostClient | null;
+		persistHistory?: boolean;
+	}) {
+		super();
+		this.host = options?.host ?? null;
+		this.persistHistory = options?.persistHistory ?? false;
+	}
 
 	async createOrAttach(params: CreateSessionParams): Promise<SessionResult> {
 		const { paneId, cols, rows } = params;
@@ -45,11 +82,24 @@ export class TerminalManager extends EventEmitter {
 			};
 		}
 
-		// Create new session
-		const creationPromise = this.doCreateSession({
-			...params,
-			existingScrollback: existing ? getSerializedScrollback(existing) : null,
-		});
+		// Reattach to a PTY the host kept alive across an app restart,
+		// otherwise create a new session seeded with whatever history survives
+		const creationPromise = (async () => {
+			if (existing) {
+				return this.doCreateSession({
+					...params,
+					existingScrollback: getSerializedScrollback(existing),
+				});
+			}
+
+			const attached = await this.tryAttachHostedSession(params);
+			if (attached) return attached;
+
+			return this.doCreateSession({
+				...params,
+				existingScrollback: await this.loadRestoredHistory(params),
+			});
+		})();
 		this.pendingSessions.set(paneId, creationPromise);
 
 		try {
@@ -59,6 +109,75 @@ export class TerminalManager extends EventEmitter {
 		}
 	}
 
+	/**
+	 * Scrollback saved to disk by a previous run, with a banner marking where
+	 * the old session ended. Null when there's nothing to restore.
+	 */
+	private async loadRestoredHistory(
+		params: CreateSessionParams,
+	): Promise<string | null> {
+		if (!this.persistHistory) return null;
+
+		const history = await loadHistory({
+			workspaceId: params.workspaceId,
+			paneId: params.paneId,
+		});
+		return history ? history + RESTORED_HISTORY_BANNER : null;
+	}
+
+	/**
+	 * Returns the connected host, or null to use in-process PTYs.
+	 */
+	private async getHost(): Promise<TerminalHostClient | null> {
+		if (!this.host) return null;
+		return (await this.host.connect()) ? this.host : null;
+	}
+
+	private async tryAttachHostedSession(
+		params: CreateSessionParams,
+	): Promise<SessionResult | null> {
+		const { paneId, workspaceId, cols, rows } = params;
+
+		const host = await this.getHost();
+		if (!host) return null;
+
+		let attached: Awaited<ReturnType<TerminalHostClient["attach"]>>;
+		try {
+			attached = await host.attach(paneId);
+		} catch (error) {
+			console.warn(
+				`[TerminalManager] Failed to attach hosted session ${paneId}:`,
+				error,
+			);
+			return null;
+		}
+		if (!attached) return null;
+
+		const session = attachSession(params, attached, (id, data) => {
+			this.emit(`data:${id}`, data);
+		});
+		this.startRecording(session, params);
+
+		setupDataHandler(session, undefined, true);
+		this.setupExitHandler(session, { ...params, existingScrollback: null });
+		this.sessions.set(paneId, session);
+		portManager.registerSession(session, workspaceId);
+		agentActivityMonitor.registerSession(session);
+		terminalTriggerManager.registerSession(session);
+		this.startHistorySnapshots();
+
+		if (cols !== undefined && rows !== undefined) {
+			this.resize({ paneId, cols, rows });
+		}
+
+		return {
+			isNew: false,
+			scrollback: attached.info.scrollback,
+			wasRecovered: true,
+			viewportY: attached.info.viewportY,
+		};
+	}
+
 	private async doCreateSession(
 		params: InternalCreateSessionParams,
 	): Promise<SessionResult> {
@@ -69,12 +188,17 @@ export class TerminalManager extends EventEmitter {
 		});
 
 		// Create the session
-		const session = await createSession(params, (id, data) => {
-			this.emit(`data:${id}`, data);
-		});
+		const session = await createSession(
+			params,
+			(id, data) => {
+				this.emit(`data:${id}`, data);
+			},
+			await this.getHost(),
+		);
+		this.startRecording(session, params);
 
 		// Match agent commands anywhere in the string (handles "cd repo && claude ...")
-		const agentCommandPattern = /\b(claude|codex|opencode)\b/;
+		const agentCommandPattern = getAgentCommandPattern();
 		const shouldAwaitAgentHooks =
 			initialCommands?.some((command) => agentCommandPattern.test(command)) ??
 			false;
@@ -93,6 +217,11 @@ export class TerminalManager extends EventEmitter {
 		this.sessions.set(paneId, session);
 
 		portManager.registerSession(session, workspaceId);
+		agentActivityMonitor.registerSession(session, {
+			agentCommand: shouldAwaitAgentHooks,
+		});
+		terminalTriggerManager.registerSession(session);
+		this.startHistorySnapshots();
 
 		// Track terminal opened (only fires once per session creation)
 		track("terminal_opened", { workspace_id: workspaceId, pane_id: paneId });
@@ -104,6 +233,28 @@ export class TerminalManager extends EventEmitter {
 		};
 	}
 
+	private startRecording(
+		session: TerminalSession,
+		params: CreateSessionParams,
+	): void {
+		if (!params.record) return;
+
+		try {
+			session.recorder = new AsciicastRecorder({
+				workspaceId: session.workspaceId,
+				paneId: session.paneId,
+				cols: session.cols,
+				rows: session.rows,
+				shell: session.shell,
+			});
+		} catch (error) {
+			console.warn(
+				`[TerminalManager] Failed to start recording for ${session.paneId}:`,
+				error,
+			);
+		}
+	}
+
 	private setupExitHandler(
 		session: TerminalSession,
 		params: InternalCreateSessionParams,
@@ -146,6 +297,8 @@ export class TerminalManager extends EventEmitter {
 
 			// Unregister from port manager (also removes detected ports)
 			portManager.unregisterSession(paneId);
+			agentActivityMonitor.unregisterSession(paneId);
+			terminalTriggerManager.unregisterSession(paneId);
 
 			this.emit(`exit:${paneId}`, exitCode, signal);
 
@@ -167,6 +320,7 @@ export class TerminalManager extends EventEmitter {
 
 		session.pty.write(data);
 		session.lastActive = Date.now();
+		agentActivityMonitor.recordInput(paneId, data);
 	}
 
 	resize(params: { paneId: string; cols: number; rows: number }): void {
@@ -197,6 +351,10 @@ export class TerminalManager extends EventEmitter {
 		try {
 			session.pty.resize(cols, rows);
 			session.headless.resize(cols, rows);
+			if (session.cols !== cols || session.rows !== rows) {
+				session.recorder?.resize(cols, rows);
+				this.emit(`resize:${paneId}`, cols, rows);
+			}
 			session.cols = cols;
 			session.rows = rows;
 			session.lastActive = Date.now();
@@ -237,6 +395,20 @@ export class TerminalManager extends EventEmitter {
 		} else {
 			this.sessions.delete(paneId);
 		}
+
+		// Pane was closed, so there's nothing left to restore into
+		if (this.persistHistory) {
+			await this.waitForHistoryWrites();
+			await deletePaneHistory({
+				workspaceId: session.workspaceId,
+				paneId,
+			}).catch((error) => {
+				console.warn(
+					`[TerminalManager] Failed to delete history for ${paneId}:`,
+					error,
+				);
+			});
+		}
 	}
 
 	detach(params: { paneId: string; viewportY?: number }): void {
@@ -251,6 +423,10 @@ export class TerminalManager extends EventEmitter {
 		session.lastActive = Date.now();
 		if (viewportY !== undefined) {
 			session.viewportY = viewportY;
+			// Keep the host's copy current so a relaunch restores the scroll position
+			if (this.host?.isConnected) {
+				this.host.notify("setViewport", { paneId, viewportY });
+			}
 		}
 	}
 
@@ -273,7 +449,12 @@ export class TerminalManager extends EventEmitter {
 		});
 		session.headless = headless;
 		session.serializer = serializer;
+		session.commandTracker.attach(headless);
 		session.lastActive = Date.now();
+
+		if (this.host?.isConnected) {
+			this.host.notify("clearScrollback", { paneId });
+		}
 	}
 
 	getSession(
@@ -291,6 +472,84 @@ export class TerminalManager extends EventEmitter {
 		};
 	}
 
+	/**
+	 * Serialized scrollback and size of a live session, for viewers outside
+	 * the renderer (e.g. shared panes)
+	 */
+	getScrollbackSnapshot(
+		paneId: string,
+	): { scrollback: string; cols: number; rows: number } | null {
+		const session = this.sessions.get(paneId);
+		if (!session || !session.isAlive) {
+			return null;
+		}
+		return {
+			scrollback: getSerializedScrollback(session),
+			cols: session.cols,
+			rows: session.rows,
+		};
+	}
+
+	/**
+	 * Last lines of a terminal's screen as plain text, for previews outside the
+	 * pane (e.g. permission prompts in the attention inbox).
+	 */
+	getRecentLines(params: {
+		paneId: string;
+		lineCount: number;
+	}): string[] | null {
+		const session = this.sessions.get(params.paneId);
+		if (!session) {
+			return null;
+		}
+		return getBufferTail(session.headless, params.lineCount);
+	}
+
+	/**
+	 * Commands run in a pane's shell, oldest first. Empty when the shell has
+	 * no integration (e.g. sh, or a wrapper that failed to load).
+	 */
+	getCommandHistory(paneId: string): ShellCommand[] {
+		const session = this.sessions.get(paneId);
+		if (!session) {
+			return [];
+		}
+		return session.commandTracker.getHistory();
+	}
+
+	/**
+	 * Search the scrollback of every live session in a workspace, whether or
+	 * not its pane is currently mounted in the renderer.
+	 */
+	searchWorkspace(params: {
+		workspaceId: string;
+		query: string;
+		caseSensitive?: boolean;
+		maxMatchesPerPane?: number;
+	}): PaneSearchResult[] {
+		const results: PaneSearchResult[] = [];
+
+		for (const [paneId, session] of this.sessions.entries()) {
+			if (session.workspaceId !== params.workspaceId || !session.isAlive) {
+				continue;
+			}
+
+			const { matches, truncated } = searchBuffer(
+				session.headless,
+				params.query,
+				{
+					caseSensitive: params.caseSensitive,
+					maxMatches: params.maxMatchesPerPane,
+				},
+			);
+			if (matches.length > 0) {
+				results.push({ paneId, matches, truncated });
+			}
+		}
+
+		return results;
+	}
+
 	async killByWorkspaceId(
 		workspaceId: string,
 	): Promise<{ killed: number; failed: number }> {
@@ -376,6 +635,70 @@ export class TerminalManager extends EventEmitter {
 		});
 	}
 
+	/**
+	 * Remove saved scrollback for a workspace. Call after its sessions have been
+	 * killed so an exiting session can't write a fresh snapshot afterwards.
+	 */
+	async deleteHistoryForWorkspace(workspaceId: string): Promise<void> {
+		await this.waitForHistoryWrites();
+		try {
+			await deleteWorkspaceHistory(workspaceId);
+		} catch (error) {
+			console.warn(
+				`[TerminalManager] Failed to delete history for workspace ${workspaceId}:`,
+				error,
+			);
+		}
+	}
+
+	private startHistorySnapshots(): void {
+		if (!this.persistHistory || this.historyTimer) return;
+
+		this.historyTimer = setInterval(() => {
+			this.snapshotHistory();
+		}, HISTORY_SNAPSHOT_INTERVAL_MS);
+		this.historyTimer.unref();
+	}
+
+	private stopHistorySnapshots(): void {
+		if (this.historyTimer) {
+			clearInterval(this.historyTimer);
+			this.historyTimer = null;
+		}
+	}
+
+	/** Write the current scrollback of every live session to disk */
+	private snapshotHistory(): Promise<void> {
+		const writes: Promise<void>[] = [];
+
+		for (const [paneId, session] of this.sessions.entries()) {
+			if (!session.isAlive) continue;
+
+			const write = saveHistory({
+				workspaceId: session.workspaceId,
+				paneId,
+				scrollback: getSerializedScrollback(session),
+			})
+				.catch((error) => {
+					console.warn(
+						`[TerminalManager] Failed to save history for ${paneId}:`,
+						error,
+					);
+				})
+				.finally(() => {
+					this.pendingHistoryWrites.delete(write);
+				});
+			this.pendingHistoryWrites.add(write);
+			writes.push(write);
+		}
+
+		return Promise.all(writes).then(() => undefined);
+	}
+
+	private async waitForHistoryWrites(): Promise<void> {
+		await Promise.all(this.pendingHistoryWrites);
+	}
+
 	getSessionCountByWorkspaceId(workspaceId: string): number {
 		return Array.from(this.sessions.values()).filter(
 			(session) => session.workspaceId === workspaceId && session.isAlive,
@@ -410,7 +733,26 @@ export class TerminalManager extends EventEmitter {
 		}
 	}
 
+	/**
+	 * Called on app quit. Hosted sessions are left running in the daemon so the
+	 * next launch can reattach; in-process sessions are killed.
+	 */
 	async cleanup(): Promise<void> {
+		this.stopHistorySnapshots();
+		if (this.persistHistory) {
+			await this.snapshotHistory();
+		}
+
+		if (this.host?.isConnected) {
+			for (const session of this.sessions.values()) {
+				flushSession(session);
+			}
+			this.host.disconnect();
+			this.sessions.clear();
+			this.removeAllListeners();
+			return;
+		}
+
 		const exitPromises: Promise<void>[] = [];
 
 		for (const [paneId, session] of this.sessions.entries()) {
@@ -445,4 +787,7 @@ export class TerminalManager extends EventEmitter {
 }
 
 /** Singleton terminal manager instance */
-export const terminalManager = new TerminalManager();
+export const terminalManager = new TerminalManager({
+	host: terminalHostClient,
+	persistHistory: true,
+});
@@ -0,0 +1,252 @@
+import { describe, expect, it } from "bun:test";
+import type { TerminalTrigger } from "@superset/local-db";
+import {
+	expandTriggerCommand,
+	expandTriggerTemplate,
+	type OutputTriggerMatch,
+	OutputTriggerMatcher,
+	resolveTriggerAction,
+	toPlainLine,
+} from "./output-triggers";
+
+function createMatcher(triggers: TerminalTrigger[]) {
+	const matches: OutputTriggerMatch[] = [];
+	let now = 0;
+	const matcher = new OutputTriggerMatcher(
+		(match) => matches.push(match),
+		() => now,
+	);
+	matcher.setTriggers(triggers);
+	return {
+		matcher,
+		matches,
+		advance: (ms: number) => {
+			now += ms;
+		},
+	};
+}
+
+const buildFailed: TerminalTrigger = {
+	name: "Build failed",
+	pattern: "error TS(\\d+)",
+	action: { type: "notify" },
+};
+
+describe("toPlainLine", () => {
+	it("should strip colors, OSC sequences and trailing carriage returns", () => {
+		expect(toPlainLine("\x1b[1;31merror\x1b[0m: boom\r")).toBe("error: boom");
+		expect(toPlainLine("\x1b]633;P;Cwd=/tmp\x07$ ls")).toBe("$ ls");
+	});
+
+	it("should keep only the last carriage-return segment", () => {
+		expect(toPlainLine("Downloading 10%\rDownloading 100%")).toBe(
+			"Downloading 100%",
+		);
+	});
+
+	it("should drop an escape sequence cut off at the end", () => {
+		expect(toPlainLine("ready\x1b[3")).toBe("ready");
+	});
+});
+
+describe("expandTriggerTemplate", () => {
+	it("should substitute the match and capture groups", () => {
+		expect(
+			expandTriggerTemplate("Open $1 on port $2 ($0)", [
+				"localhost:3000",
+				"localhost",
+				"3000",
+			]),
+		).toBe("Open localhost on port 3000 (localhost:3000)");
+	});
+
+	it("should replace missing groups with an empty string", () => {
+		expect(expandTriggerTemplate("[$3]", ["a"])).toBe("[]");
+	});
+});
+
+describe("resolveTriggerAction", () => {
+	const match = (action: TerminalTrigger["action"]): OutputTriggerMatch => ({
+		trigger: { name: "Dev server", pattern: "http://\\S+", action },
+		line: "Local: http://localhost:5173/",
+		groups: ["http://localhost:5173/"],
+	});
+
+	it("should default notifications to the trigger name and line", () => {
+		expect(resolveTriggerAction(match({ type: "notify" }))).toEqual({
+			type: "notify",
+			title: "Dev server",
+			body: "Local: http://localhost:5173/",
+		});
+	});
+
+	it("should open the matched text when no url is configured", () => {
+		expect(resolveTriggerAction(match({ type: "openUrl" }))).toEqual({
+			type: "openUrl",
+			url: "http://localhost:5173/",
+		});
+	});
+
+	it("should expand placeholders in commands single-quoted", () => {
+		expect(
+			resolveTriggerAction(
+				match({ type: "runCommand", command: "curl -I $0", pane: "Logs" }),
+			),
+		).toEqual({
+			type: "runCommand",
+			command: "curl -I 'http://localhost:5173/'",
+			pane: "Logs",
+		});
+	});
+
+	it("should only open http(s) urls", () => {
+		expect(
+			resolveTriggerAction(
+				match({ type: "openUrl", url: "file:///etc/passwd?$0" }),
+			),
+		).toBeNull();
+		expect(
+			resolveTriggerAction({
+				...match({ type: "openUrl" }),
+				groups: ["javascript:alert(1)"],
+			}),
+		).toBeNull();
+	});
+});
+
+describe("expandTriggerCommand", () => {
+	it("should keep shell metacharacters in captures inert", () => {
+		expect(
+			expandTriggerCommand("echo $1", ["x", "$(rm -rf ~); `id` | sh"]),
+		).toBe("echo '$(rm -rf ~); `id` | sh'");
+	});
+
+	it("should refuse captures that could break out of quotes", () => {
+		expect(expandTriggerCommand("echo $1", ["x", "'; rm -rf ~; '"])).toBeNull();
+		expect(expandTriggerCommand("echo $1", ["x", "a\\"])).toBeNull();
+		// Unreferenced groups don't matter
+		expect(expandTriggerCommand("echo $0", ["ok", "'"])).toBe("echo 'ok'");
+	});
+
+	it("should refuse templates that quote or escape a placeholder", () => {
+		const groups = ["x", "$(id)"];
+		expect(expandTriggerCommand('notify-send "$1"', groups)).toBeNull();
+		expect(expandTriggerCommand("open '$1'", groups)).toBeNull();
+		expect(expandTriggerCommand('echo "a" \\$1', groups)).toBeNull();
+		expect(expandTriggerCommand("echo $$1", groups)).toBeNull();
+	});
+
+	it("should allow quotes elsewhere in the template", () => {
+		expect(
+			expandTriggerCommand(`notify-send "Port" $1 'done "ok"'`, ["x", "$(id)"]),
+		).toBe(`notify-send "Port" '$(id)' 'done "ok"'`);
+		expect(expandTriggerCommand('echo "\\"" $1', ["x", "y"])).toBe(
+			`echo "\\"" 'y'`,
+		);
+	});
+});
+
+describe("OutputTriggerMatcher", () => {
+	it("should match complete lines and expose capture groups", () => {
+		const { matcher, matches } = createMatcher([buildFailed]);
+
+		matcher.write("src/a.ts(1,1): \x1b[31merror TS2304\x1b[0m: nope\r\n");
+
+		expect(matches).toHaveLength(1);
+		expect(matches[0].line).toBe("src/a.ts(1,1): error TS2304: nope");
+		expect(matches[0].groups).toEqual(["error TS2304", "2304"]);
+	});
+
+	it("should quote or refuse malicious captures from output", () => {
+		const { matcher, matches, advance } = createMatcher([
+			{
+				name: "Open port",
+				pattern: "listening on (.+)",
+				action: { type: "runCommand", command: "curl -I $1" },
+			},
+		]);
+		matcher.write("listening on $(touch /tmp/pwned) `id`\n");
+		advance(60_000);
+		matcher.write("listening on ';reboot;'\n");
+
+		expect(matches.map((match) => resolveTriggerAction(match))).toEqual([
+			{ type: "runCommand", command: "curl -I '$(touch /tmp/pwned) `id`'" },
+			null,
+		]);
+	});
+
+	it("should match lines split across chunks", () => {
+		const { matcher, matches } = createMatcher([
+			{ ...buildFailed, pattern: "Compiled successfully" },
+		]);
+
+		matcher.write("Compiled succ");
+		matcher.write("essfully in 2s\n");
+
+		expect(matches).toHaveLength(1);
+		expect(matches[0].line).toBe("Compiled successfully in 2s");
+	});
+
+	it("should fire on an unterminated line only once", () => {
+		const { matcher, matches } = createMatcher([
+			{ ...buildFailed, pattern: "password:", cooldownMs: 0 },
+		]);
+
+		matcher.write("[sudo] password:");
+		matcher.write(" ");
+		matcher.write("\r\n");
+
+		expect(matches).toHaveLength(1);
+	});
+
+	it("should be case-insensitive unless configured otherwise", () => {
+		const { matcher, matches } = createMatcher([
+			{ ...buildFailed, name: "loose", pattern: "error" },
+			{ ...buildFailed, name: "strict", pattern: "error", caseSensitive: true },
+		]);
+
+		matcher.write("ERROR: disk full\n");
+
+		expect(matches.map((m) => m.trigger.name)).toEqual(["loose"]);
+	});
+
+	it("should respect the cooldown per trigger", () => {
+		const { matcher, matches, advance } = createMatcher([
+			{ ...buildFailed, cooldownMs: 1000 },
+		]);
+
+		matcher.write("error TS1\nerror TS2\n");
+		expect(matches).toHaveLength(1);
+
+		advance(999);
+		matcher.write("error TS3\n");
+		expect(matches).toHaveLength(1);
+
+		advance(1);
+		matcher.write("error TS4\n");
+		expect(matches).toHaveLength(2);
+		expect(matches[1].groups[1]).toBe("4");
+	});
+
+	it("should keep cooldowns when triggers are reloaded", () => {
+		const { matcher, matches } = createMatcher([buildFailed]);
+
+		matcher.write("error TS1\n");
+		matcher.setTriggers([buildFailed]);
+		matcher.write("error TS2\n");
+
+		expect(matches).toHaveLength(1);
+	});
+
+	it("should skip disabled triggers and invalid patterns", () => {
+		const { matcher, matches } = createMatcher([
+			{ ...buildFailed, enabled: false },
+			{ ...buildFailed, name: "broken", pattern: "(" },
+		]);
+
+		matcher.write("error TS1\n");
+
+		expect(matcher.hasTriggers).toBe(false);
+		expect(matches).toHaveLength(0);
+	});
+});
@@ -0,0 +1,241 @@
+import type {
+	TerminalTrigger,
+	TerminalTriggerAction,
+} from "@superset/local-db";
+import { ESCAPE_SEQUENCE_PATTERN } from "shared/control-characters";
+
+/** Minimum time between firings of a trigger in one pane, unless configured */
+export const DEFAULT_TRIGGER_COOLDOWN_MS = 2000;
+
+/** Longest unterminated line kept for matching; older text is dropped */
+const MAX_PARTIAL_LINE_LENGTH = 4096;
+
+// An escape sequence cut off at the end of a chunk
+// biome-ignore lint/suspicious/noControlCharactersInRegex: matching terminal escapes
+const INCOMPLETE_ESCAPE_PATTERN = /\x1b[^\x07]*$/;
+
+// biome-ignore lint/suspicious/noControlCharactersInRegex: matching control characters
+const CONTROL_CHARACTER_PATTERN = /[\x00-\x08\x0b-\x1f\x7f]/g;
+
+export interface OutputTriggerMatch {
+	trigger: TerminalTrigger;
+	/** The output line the pattern matched, without escape sequences */
+	line: string;
+	/** Whole match followed by capture groups (unmatched groups are "") */
+	groups: string[];
+}
+
+interface CompiledTrigger {
+	trigger: TerminalTrigger;
+	regex: RegExp;
+	cooldownMs: number;
+}
+
+/**
+ * Reduce a line of raw terminal output to the text it displays. Carriage
+ * returns overwrite the line (progress bars), so only the last segment counts.
+ */
+export function toPlainLine(raw: string): string {
+	const text = raw
+		.replace(ESCAPE_SEQUENCE_PATTERN, "")
+		.replace(INCOMPLETE_ESCAPE_PATTERN, "")
+		.replace(/\r+$/, "");
+	const lastReturn = text.lastIndexOf("\r");
+	return (lastReturn === -1 ? text : text.slice(lastReturn + 1)).replace(
+		CONTROL_CHARACTER_PATTERN,
+		"",
+	);
+}
+
+// Captures that can't be single-quoted the same way in bash, zsh and fish
+const UNQUOTABLE_CAPTURE_PATTERN = /['\\]/;
+
+/** Substitute $0 (whole match) and $1-$9 (capture groups) in an action field */
+export function expandTriggerTemplate(
+	template: string,
+	groups: string[],
+	quote: (value: string) => string = (value) => value,
+): string {
+	return template.replace(/\$(\d)/g, (_, index: string) => {
+		return quote(groups[Number(index)] ?? "");
+	});
+}
+
+/**
+ * Whether every placeholder in a command template stands on its own: not
+ * inside quotes, where the quotes added around its capture would close the
+ * template's own, and not after a backslash or `$`, which would change how
+ * the shell reads the opening quote.
+ */
+function hasOnlyBarePlaceholders(template: string): boolean {
+	let quote: string | null = null;
+	for (let i = 0; i < template.length; i++) {
+		const char = template[i];
+		if (char === "$" && /\d/.test(template[i + 1] ?? "")) {
+			if (quote || template[i - 1] === "$") return false;
+		} else if (quote === "'") {
+			if (char === "'") quote = null;
+		} else if (char === "\\") {
+			if (/^\$\d/.test(template.slice(i + 1, i + 3))) return false;
+			i++;
+		} else if (char === '"' || char === "'") {
+			quote = quote === char ? null : (quote ?? char);
+		}
+	}
+	return true;
+}
+
+/**
+ * Expand a command template with every capture single-quoted, since captures
+ * are untrusted terminal output typed into a shell. Null when the template
+ * quotes or escapes a placeholder itself, or a capture holds a quote or
+ * backslash, which single quotes can't carry in every shell.
+ */
+export function expandTriggerCommand(
+	template: string,
+	groups: string[],
+): string | null {
+	if (!hasOnlyBarePlaceholders(template)) {
+		return null;
+	}
+	const referenced = Array.from(
+		template.matchAll(/\$(\d)/g),
+		([, index]) => groups[Number(index)] ?? "",
+	);
+	if (referenced.some((group) => UNQUOTABLE_CAPTURE_PATTERN.test(group))) {
+		return null;
+	}
+	return expandTriggerTemplate(template, groups, (value) => `'${value}'`);
+}
+
+/** The url if it is an absolute http(s) URL, otherwise null */
+function toWebUrl(value: string): string | null {
+	try {
+		const url = new URL(value);
+		return url.protocol === "http:" || url.protocol === "https:" ? value : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * The action to run for a match, with placeholders expanded and defaults
+ * filled in: notifications show the trigger name and matched line, and
+ * openUrl opens the matched text. Null when the match can't be used safely:
+ * a command capture that can't be quoted, or a url that isn't http(s).
+ */
+export function resolveTriggerAction(
+	match: OutputTriggerMatch,
+): TerminalTriggerAction | null {
+	const { action } = match.trigger;
+	const expand = (template: string) =>
+		expandTriggerTemplate(template, match.groups);
+
+	switch (action.type) {
+		case "notify":
+			return {
+				type: "notify",
+				title: action.title ? expand(action.title) : match.trigger.name,
+				body: action.body ? expand(action.body) : match.line,
+			};
+		case "runCommand": {
+			const command = expandTriggerCommand(action.command, match.groups);
+			return command === null ? null : { ...action, command };
+		}
+		case "openUrl": {
+			const url = toWebUrl(expand(action.url ?? "$0"));
+			return url === null ? null : { type: "openUrl", url };
+		}
+		default:
+			return action;
+	}
+}
+
+/**
+ * Matches a pane's output against its triggers line by line. Output arrives in
+ * arbitrary chunks, so unterminated lines are buffered; they are also matched
+ * as they grow, so prompts that wait for input on the same line still fire.
+ * Each trigger fires at most once per line and respects its cooldown.
+ */
+export class OutputTriggerMatcher {
+	private triggers: CompiledTrigger[] = [];
+	private partialLine = "";
+	/** Triggers that already fired on the current unterminated line */
+	private firedOnPartial = new Set<string>();
+	/** Last firing time by trigger name */
+	private lastFiredAt = new Map<string, number>();
+
+	constructor(
+		private onMatch: (match: OutputTriggerMatch) => void,
+		private now: () => number = Date.now,
+	) {}
+
+	/**
+	 * Replace the triggers to match. Disabled triggers and invalid patterns are
+	 * skipped; cooldowns carry over for triggers that keep their name.
+	 */
+	setTriggers(triggers: TerminalTrigger[]): void {
+		this.triggers = [];
+		for (const trigger of triggers) {
+			if (trigger.enabled === false) continue;
+			try {
+				this.triggers.push({
+					trigger,
+					regex: new RegExp(trigger.pattern, trigger.caseSensitive ? "" : "i"),
+					cooldownMs: trigger.cooldownMs ?? DEFAULT_TRIGGER_COOLDOWN_MS,
+				});
+			} catch {
+				console.warn(
+					`[output-triggers] Skipping "${trigger.name}": invalid pattern ${trigger.pattern}`,
+				);
+			}
+		}
+	}
+
+	get hasTriggers(): boolean {
+		return this.triggers.length > 0;
+	}
+
+	write(data: string): void {
+		if (!this.hasTriggers) return;
+
+		const lines = (this.partialLine + data).split("\n");
+		this.partialLine = (lines.pop() ?? "").slice(-MAX_PARTIAL_LINE_LENGTH);
+
+		for (const line of lines) {
+			this.matchLine(toPlainLine(line));
+			this.firedOnPartial.clear();
+		}
+
+		if (this.partialLine) {
+			this.matchLine(toPlainLine(this.partialLine), true);
+		}
+	}
+
+	private matchLine(line: string, isPartial = false): void {
+		if (!line) return;
+
+		for (const { trigger, regex, cooldownMs } of this.triggers) {
+			if (this.firedOnPartial.has(trigger.name)) continue;
+
+			const match = regex.exec(line);
+			if (!match) continue;
+
+			const now = this.now();
+			const lastFiredAt = this.lastFiredAt.get(trigger.name);
+			if (lastFiredAt !== undefined && now - lastFiredAt < cooldownMs) {
+				continue;
+			}
+
+			this.lastFiredAt.set(trigger.name, now);
+			if (isPartial) {
+				this.firedOnPartial.add(trigger.name);
+			}
+			this.onMatch({
+				trigger,
+				line,
+				groups: Array.from(match, (group) => group ?? ""),
+			});
+		}
+	}
+}
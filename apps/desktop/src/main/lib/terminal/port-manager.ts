@@ -1,11 +1,18 @@
 import { EventEmitter } from "node:events";
 import type { DetectedPort } from "shared/types";
-import { getListeningPortsForPids, getProcessTree } from "./port-scanner";
+import { getListeningPortsForProcessTrees } from "./port-scanner";
 import type { TerminalSession } from "./types";
 
 // How often to poll for port changes (in ms)
 const SCAN_INTERVAL_MS = 2500;
 
+// Sessions that printed within this window are scanned on every poll; servers
+// usually log around the time they bind (in ms)
+const ACTIVE_WINDOW_MS = 10_000;
+
+// How often every session is scanned regardless of output (in ms)
+const FULL_SCAN_INTERVAL_MS = 30_000;
+
 // Ports to ignore (common system ports that are usually not dev servers)
 const IGNORED_PORTS = new Set([22, 80, 443, 5432, 3306, 6379, 27017]);
 
@@ -20,6 +27,7 @@ class PortManager extends EventEmitter {
 	private scanInterval: ReturnType<typeof setInterval> | null = null;
 	private pendingHintScans = new Map<string, ReturnType<typeof setTimeout>>();
 	private isScanning = false;
+	private lastFullScanAt = 0;
 
 	constructor() {
 		super();
@@ -49,13 +57,15 @@ class PortManager extends EventEmitter {
 	}
 
 	/**
-	 * Start periodic scanning of all registered sessions
+	 * Start periodic scanning of registered sessions
 	 */
 	private startPeriodicScan(): void {
 		if (this.scanInterval) return;
 
 		this.scanInterval = setInterval(() => {
-			this.scanAllSessions().catch((error) => {
+			const isFullScan =
+				Date.now() - this.lastFullScanAt >= FULL_SCAN_INTERVAL_MS;
+			this.scanSessions(isFullScan).catch((error) => {
 				console.error("[PortManager] Scan error:", error);
 			});
 		}, SCAN_INTERVAL_MS);
@@ -80,35 +90,54 @@ class PortManager extends EventEmitter {
 	}
 
 	/**
-	 * Scan all registered sessions for ports
+	 * Whether a periodic scan should look at a session: it printed recently,
+	 * or it has ports that may have closed since
+	 */
+	private shouldScan(paneId: string, session: TerminalSession): boolean {
+		if (Date.now() - session.lastOutputAt < ACTIVE_WINDOW_MS) return true;
+		for (const port of this.ports.values()) {
+			if (port.paneId === paneId) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Scan registered sessions for ports. A full scan covers every session;
+	 * otherwise only those picked by shouldScan.
 	 */
-	private async scanAllSessions(): Promise<void> {
+	private async scanSessions(isFullScan: boolean): Promise<void> {
 		if (this.isScanning) return;
 		this.isScanning = true;
 
 		try {
-			const panePortMap = new Map<
-				string,
-				{ workspaceId: string; pids: number[] }
+			if (isFullScan) {
+				this.lastFullScanAt = Date.now();
+			}
+
+			const panesByPid = new Map<
+				number,
+				{ paneId: string; workspaceId: string }
 			>();
 
 			for (const [paneId, { session, workspaceId }] of this.sessions) {
 				if (!session.isAlive) continue;
+				if (!isFullScan && !this.shouldScan(paneId, session)) continue;
 
 				try {
-					const pid = session.pty.pid;
-					const pids = await getProcessTree(pid);
-					if (pids.length > 0) {
-						panePortMap.set(paneId, { workspaceId, pids });
-					}
+					panesByPid.set(session.pty.pid, { paneId, workspaceId });
 				} catch {
 					// Session may have exited
 				}
 			}
 
-			for (const [paneId, { workspaceId, pids }] of panePortMap) {
-				const portInfos = await getListeningPortsForPids(pids);
-				this.updatePortsForPane(paneId, workspaceId, portInfos);
+			const portsByPid = await getListeningPortsForProcessTrees([
+				...panesByPid.keys(),
+			]);
+
+			for (const [pid, { paneId, workspaceId }] of panesByPid) {
+				// Skip panes unregistered while the scan was running
+				if (!this.sessions.has(paneId)) continue;
+				this.updatePortsForPane(paneId, workspaceId, portsByPid.get(pid) ?? []);
 			}
 
 			for (const [key, port] of this.ports) {
@@ -227,7 +256,7 @@ class PortManager extends EventEmitter {
 	 * Useful for testing or when you know ports have changed
 	 */
 	async forceScan(): Promise<void> {
-		await this.scanAllSessions();
+		await this.scanSessions(true);
 	}
 }
 
@@ -1,4 +1,14 @@
-import { describe, expect, it } from "bun:test";
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { type ChildProcess, execSync, spawn } from "node:child_process";
+import { readFileSync } from "node:fs";
+import pidtree from "pidtree";
+import {
+	decodeProcAddress,
+	getListeningPortsForProcessTrees,
+	getListeningPortsLsof,
+	parseProcNetTcp,
+	parseSocketInode,
+} from "./port-scanner";
 
 /**
  * Tests for lsof output parsing logic.
@@ -324,3 +334,175 @@ node      12345 kietho   23u  IPv4 0x1234567890ab          0t0                 T
 		});
 	});
 });
+
+describe("parseProcNetTcp", () => {
+	const header =
+		"  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode";
+
+	it("keys listening sockets by inode", () => {
+		const content = `${header}
+   0: 0100007F:0BB8 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 4242 1 0000000000000000 100 0 0 10 0
+   1: 00000000:1F90 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 4343 1 0000000000000000 100 0 0 10 0`;
+
+		const sockets = parseProcNetTcp(content);
+
+		expect(sockets.get(4242)).toEqual({ address: "127.0.0.1", port: 3000 });
+		expect(sockets.get(4343)).toEqual({ address: "0.0.0.0", port: 8080 });
+	});
+
+	it("skips sockets that are not listening", () => {
+		const content = `${header}
+   0: 0100007F:0BB8 0100007F:D431 01 00000000:00000000 00:00000000 00000000  1000        0 4242 1 0000000000000000 20 4 30 10 -1`;
+
+		expect(parseProcNetTcp(content).size).toBe(0);
+	});
+
+	it("parses IPv6 rows", () => {
+		const content = `${header}
+   0: 00000000000000000000000001000000:0BB8 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 5151 1 0000000000000000 100 0 0 10 0`;
+
+		expect(parseProcNetTcp(content).get(5151)).toEqual({
+			address: "::1",
+			port: 3000,
+		});
+	});
+
+	it("handles empty content", () => {
+		expect(parseProcNetTcp("").size).toBe(0);
+	});
+});
+
+describe("decodeProcAddress", () => {
+	it("decodes little-endian IPv4 words", () => {
+		expect(decodeProcAddress("0100007F")).toBe("127.0.0.1");
+		expect(decodeProcAddress("0101A8C0")).toBe("192.168.1.1");
+	});
+
+	it("decodes and compresses IPv6 addresses", () => {
+		expect(decodeProcAddress("00000000000000000000000000000000")).toBe("::");
+		expect(decodeProcAddress("0000000000000000FFFF00000100007F")).toBe(
+			"::ffff:7f00:1",
+		);
+		expect(decodeProcAddress("B80D0120000000000000000001000000")).toBe(
+			"2001:db8::1",
+		);
+	});
+});
+
+describe("parseSocketInode", () => {
+	it("parses socket link targets", () => {
+		expect(parseSocketInode("socket:[12345]")).toBe(12345);
+	});
+
+	it("ignores other fd targets", () => {
+		expect(parseSocketInode("pipe:[12345]")).toBeNull();
+		expect(parseSocketInode("/dev/pts/3")).toBeNull();
+	});
+});
+
+function hasLsof(): boolean {
+	try {
+		execSync("command -v lsof", { stdio: "ignore" });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** CPU time in ms used by this process and the children it has waited on */
+function cpuTimeMs(): number {
+	const { user, system } = process.cpuUsage();
+	// Fields after the parenthesised comm; cutime and cstime are 14th and 15th
+	const stat = readFileSync("/proc/self/stat", "utf8");
+	const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+	const childTicks = Number(fields[13]) + Number(fields[14]);
+	// USER_HZ is 100 on every Linux ABI
+	return (user + system) / 1000 + childTicks * 10;
+}
+
+async function measureCpu(run: () => Promise<unknown>): Promise<number> {
+	const start = cpuTimeMs();
+	await run();
+	return cpuTimeMs() - start;
+}
+
+describe.skipIf(process.platform !== "linux" || !hasLsof())(
+	"scan benchmark with 50 sessions",
+	() => {
+		const SESSION_COUNT = 50;
+		const ACTIVE_SESSION_COUNT = 5;
+		const children: ChildProcess[] = [];
+		let rootPids: number[] = [];
+		let server: ChildProcess;
+		let serverPort = 0;
+
+		beforeAll(async () => {
+			server = spawn(process.execPath, [
+				"-e",
+				"const s = require('node:net').createServer().listen(0, '127.0.0.1', () => console.log(s.address().port))",
+			]);
+			serverPort = await new Promise<number>((resolve) => {
+				server.stdout?.once("data", (data) =>
+					resolve(Number.parseInt(String(data), 10)),
+				);
+			});
+			children.push(server);
+
+			for (let i = 1; i < SESSION_COUNT; i++) {
+				children.push(spawn("sleep", ["120"]));
+			}
+			rootPids = children.map((child) => child.pid as number);
+		});
+
+		afterAll(() => {
+			for (const child of children) {
+				child.kill();
+			}
+		});
+
+		/** What every poll used to do: pidtree and lsof for each session */
+		const legacyScan = async (pids: number[]) => {
+			const results = new Map<
+				number,
+				Awaited<ReturnType<typeof getListeningPortsLsof>>
+			>();
+			for (const root of pids) {
+				const tree = await pidtree(root, { root: true }).catch(() => []);
+				results.set(root, await getListeningPortsLsof(tree));
+			}
+			return results;
+		};
+
+		it("finds the same listener as lsof", async () => {
+			const [legacy, proc] = await Promise.all([
+				legacyScan([server.pid as number]),
+				getListeningPortsForProcessTrees([server.pid as number]),
+			]);
+
+			const expected = [
+				{
+					port: serverPort,
+					pid: server.pid,
+					address: "127.0.0.1",
+				},
+			];
+			expect(legacy.get(server.pid as number)).toMatchObject(expected);
+			expect(proc.get(server.pid as number)).toMatchObject(expected);
+		}, 30_000);
+
+		it("uses less CPU than polling every session with lsof", async () => {
+			const legacyMs = await measureCpu(() => legacyScan(rootPids));
+			const fullProcMs = await measureCpu(() =>
+				getListeningPortsForProcessTrees(rootPids),
+			);
+			const activeProcMs = await measureCpu(() =>
+				getListeningPortsForProcessTrees(
+					rootPids.slice(0, ACTIVE_SESSION_COUNT),
+				),
+			);
+
+			expect(fullProcMs).toBeLessThan(legacyMs);
+			expect(activeProcMs).toBeLessThan(legacyMs / 10);
+		}, 60_000);
+	},
+);
@@ -1,4 +1,5 @@
 import { exec } from "node:child_process";
+import { access, readdir, readFile, readlink } from "node:fs/promises";
 import os from "node:os";
 import { promisify } from "node:util";
 import pidtree from "pidtree";
@@ -15,10 +16,17 @@ export interface PortInfo {
 	processName: string;
 }
 
+/** TCP state code for LISTEN in /proc/net/tcp{,6} */
+const TCP_LISTEN_STATE = "0A";
+
 /**
  * Get all child PIDs of a process (including the process itself)
  */
 export async function getProcessTree(pid: number): Promise<number[]> {
+	if (os.platform() === "linux" && (await hasProcChildren())) {
+		return getProcessTreeProc(pid);
+	}
+
 	try {
 		return await pidtree(pid, { root: true });
 	} catch {
@@ -29,7 +37,8 @@ export async function getProcessTree(pid: number): Promise<number[]> {
 
 /**
  * Get listening TCP ports for a set of PIDs
- * Cross-platform implementation using lsof (macOS/Linux) or netstat (Windows)
+ * Cross-platform implementation using /proc (Linux), lsof (macOS) or
+ * netstat (Windows)
  */
 export async function getListeningPortsForPids(
 	pids: number[],
@@ -38,7 +47,15 @@ export async function getListeningPortsForPids(
 
 	const platform = os.platform();
 
-	if (platform === "darwin" || platform === "linux") {
+	if (platform === "linux") {
+		try {
+			return await getListeningPortsProc(pids);
+		} catch {
+			// /proc unreadable (e.g. hidepid); lsof may still have access
+			return getListeningPortsLsof(pids);
+		}
+	}
+	if (platform === "darwin") {
 		return getListeningPortsLsof(pids);
 	}
 	if (platform === "win32") {
@@ -49,9 +66,226 @@ export async function getListeningPortsForPids(
 }
 
 /**
- * macOS/Linux implementation using lsof
+ * Get listening TCP ports for several process trees at once, keyed by root
+ * PID. On Linux the socket tables are read once for the whole batch.
+ */
+export async function getListeningPortsForProcessTrees(
+	rootPids: number[],
+): Promise<Map<number, PortInfo[]>> {
+	const result = new Map<number, PortInfo[]>();
+	const trees = await Promise.all(
+		rootPids.map(async (root) => ({ root, pids: await getProcessTree(root) })),
+	);
+
+	if (os.platform() === "linux") {
+		try {
+			const listeners = await readListeningSockets();
+			for (const { root, pids } of trees) {
+				result.set(root, await findListeningPorts(pids, listeners));
+			}
+			return result;
+		} catch {
+			// Fall through to the per-tree scan
+		}
+	}
+
+	for (const { root, pids } of trees) {
+		result.set(root, await getListeningPortsForPids(pids));
+	}
+	return result;
+}
+
+interface ListeningSocket {
+	address: string;
+	port: number;
+}
+
+/**
+ * Parse /proc/net/tcp or /proc/net/tcp6 into listening sockets keyed by
+ * inode.
+ *
+ * Format: sl local_address rem_address st ... uid timeout inode ...
+ * Example:   0: 0100007F:0BB8 00000000:0000 0A ... 1000 0 12345 ...
+ */
+export function parseProcNetTcp(content: string): Map<number, ListeningSocket> {
+	const sockets = new Map<number, ListeningSocket>();
+
+	for (const line of content.split("\n").slice(1)) {
+		const columns = line.trim().split(/\s+/);
+		if (columns.length < 10 || columns[3] !== TCP_LISTEN_STATE) continue;
+
+		const [hexAddress, hexPort] = columns[1].split(":");
+		const port = Number.parseInt(hexPort, 16);
+		const inode = Number.parseInt(columns[9], 10);
+		if (!hexAddress || !(port > 0) || !(inode > 0)) continue;
+
+		sockets.set(inode, { address: decodeProcAddress(hexAddress), port });
+	}
+
+	return sockets;
+}
+
+/**
+ * Addresses in /proc/net are 32-bit words in host (little-endian) order:
+ * 0100007F is 127.0.0.1. IPv6 addresses are four such words.
+ */
+export function decodeProcAddress(hex: string): string {
+	const bytes: number[] = [];
+	for (let word = 0; word < hex.length; word += 8) {
+		for (let i = 6; i >= 0; i -= 2) {
+			bytes.push(Number.parseInt(hex.slice(word + i, word + i + 2), 16));
+		}
+	}
+
+	if (bytes.length === 4) {
+		return bytes.join(".");
+	}
+
+	const groups: string[] = [];
+	for (let i = 0; i < bytes.length; i += 2) {
+		groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+	}
+	return compressIpv6(groups);
+}
+
+/** Collapse the longest run of zero groups to "::" */
+function compressIpv6(groups: string[]): string {
+	let bestStart = -1;
+	let bestLength = 0;
+	for (let i = 0; i < groups.length; i++) {
+		if (groups[i] !== "0") continue;
+		let end = i;
+		while (end < groups.length && groups[end] === "0") end++;
+		if (end - i > bestLength && end - i > 1) {
+			bestStart = i;
+			bestLength = end - i;
+		}
+		i = end;
+	}
+
+	if (bestStart === -1) return groups.join(":");
+	const head = groups.slice(0, bestStart).join(":");
+	const tail = groups.slice(bestStart + bestLength).join(":");
+	return `${head}::${tail}`;
+}
+
+/** Parse the inode out of an fd link target such as "socket:[12345]" */
+export function parseSocketInode(linkTarget: string): number | null {
+	const match = linkTarget.match(/^socket:\[(\d+)\]$/);
+	return match ? Number.parseInt(match[1], 10) : null;
+}
+
+let procChildrenSupported: Promise<boolean> | null = null;
+
+/** /proc/<pid>/task/<tid>/children needs CONFIG_PROC_CHILDREN */
+function hasProcChildren(): Promise<boolean> {
+	procChildrenSupported ??= access(
+		`/proc/self/task/${process.pid}/children`,
+	).then(
+		() => true,
+		() => false,
+	);
+	return procChildrenSupported;
+}
+
+/**
+ * Walk a process tree through /proc/<pid>/task/<tid>/children, which lists
+ * the children forked by each thread
+ */
+async function getProcessTreeProc(rootPid: number): Promise<number[]> {
+	const pids: number[] = [];
+	const queue = [rootPid];
+
+	for (let i = 0; i < queue.length; i++) {
+		const pid = queue[i];
+		let tids: string[];
+		try {
+			tids = await readdir(`/proc/${pid}/task`);
+		} catch {
+			// Process exited
+			continue;
+		}
+
+		pids.push(pid);
+		for (const tid of tids) {
+			const children = await readFile(
+				`/proc/${pid}/task/${tid}/children`,
+				"utf8",
+			).catch(() => "");
+			for (const child of children.split(/\s+/)) {
+				if (child) queue.push(Number.parseInt(child, 10));
+			}
+		}
+	}
+
+	return pids;
+}
+
+async function readListeningSockets(): Promise<Map<number, ListeningSocket>> {
+	const [tcp, tcp6] = await Promise.all([
+		readFile("/proc/net/tcp", "utf8"),
+		readFile("/proc/net/tcp6", "utf8").catch(() => ""),
+	]);
+	return new Map([...parseProcNetTcp(tcp), ...parseProcNetTcp(tcp6)]);
+}
+
+/**
+ * Match the socket fds of each PID against the listening socket inodes
+ */
+async function findListeningPorts(
+	pids: number[],
+	listeners: Map<number, ListeningSocket>,
+): Promise<PortInfo[]> {
+	if (listeners.size === 0) return [];
+
+	const ports: PortInfo[] = [];
+	for (const pid of pids) {
+		let fds: string[];
+		try {
+			fds = await readdir(`/proc/${pid}/fd`);
+		} catch {
+			// Exited, or owned by another user
+			continue;
+		}
+
+		// A socket can be open on several fds of the same process
+		const sockets = new Set<ListeningSocket>();
+		for (const fd of fds) {
+			const target = await readlink(`/proc/${pid}/fd/${fd}`).catch(() => "");
+			const inode = parseSocketInode(target);
+			const socket = inode === null ? undefined : listeners.get(inode);
+			if (socket) sockets.add(socket);
+		}
+		if (sockets.size === 0) continue;
+
+		const comm = await readFile(`/proc/${pid}/comm`, "utf8").catch(() => "");
+		for (const socket of sockets) {
+			ports.push({
+				port: socket.port,
+				pid,
+				address: socket.address,
+				processName: comm.trim() || "unknown",
+			});
+		}
+	}
+
+	return ports;
+}
+
+/**
+ * Linux implementation reading socket tables and fds from /proc, which
+ * avoids spawning lsof on every scan
+ */
+async function getListeningPortsProc(pids: number[]): Promise<PortInfo[]> {
+	return findListeningPorts(pids, await readListeningSockets());
+}
+
+/**
+ * lsof implementation, used on macOS and as the Linux fallback
  */
-async function getListeningPortsLsof(pids: number[]): Promise<PortInfo[]> {
+export async function getListeningPortsLsof(
+	pids: number[],
+): Promise<PortInfo[]> {
 	try {
 		const pidArg = pids.join(",");
 		const pidSet = new Set(pids);
@@ -0,0 +1,194 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import fs from "node:fs";
+import path from "node:path";
+import {
+	AsciicastRecorder,
+	getRecording,
+	listRecordings,
+	parseAsciicast,
+	pruneRecordings,
+	RECORDING_RETENTION_MS,
+	RECORDINGS_DIR,
+} from "./recording";
+
+const WORKSPACE_ID = `recording-test-${process.pid}`;
+
+describe("parseAsciicast", () => {
+	it("should parse header and events", () => {
+		const content = [
+			JSON.stringify({ version: 2, width: 80, height: 24, timestamp: 1 }),
+			JSON.stringify([0.5, "o", "hello"]),
+			JSON.stringify([1.25, "r", "100x30"]),
+			"",
+		].join("\n");
+
+		const { header, events } = parseAsciicast(content);
+
+		expect(header.width).toBe(80);
+		expect(header.height).toBe(24);
+		expect(events).toEqual([
+			[0.5, "o", "hello"],
+			[1.25, "r", "100x30"],
+		]);
+	});
+
+	it("should skip a truncated final line", () => {
+		const content = [
+			JSON.stringify({ version: 2, width: 80, height: 24, timestamp: 1 }),
+			JSON.stringify([0.5, "o", "hello"]),
+			'[1.0, "o", "unfinis',
+		].join("\n");
+
+		expect(parseAsciicast(content).events).toEqual([[0.5, "o", "hello"]]);
+	});
+
+	it("should reject other asciicast versions", () => {
+		expect(() =>
+			parseAsciicast(JSON.stringify({ version: 1, width: 80, height: 24 })),
+		).toThrow("Unsupported asciicast version");
+	});
+});
+
+describe("AsciicastRecorder", () => {
+	afterEach(() => {
+		fs.rmSync(path.join(RECORDINGS_DIR, WORKSPACE_ID), {
+			recursive: true,
+			force: true,
+		});
+	});
+
+	it("should write a recording that can be listed and read back", async () => {
+		const recorder = new AsciicastRecorder({
+			workspaceId: WORKSPACE_ID,
+			paneId: "pane-1",
+			cols: 80,
+			rows: 24,
+			shell: "/bin/zsh",
+		});
+		recorder.output("$ ls\r\n");
+		recorder.resize(120, 40);
+		recorder.output("file.txt\r\n");
+		await recorder.close();
+
+		const recordings = await listRecordings(WORKSPACE_ID);
+		expect(recordings).toHaveLength(1);
+		expect(recordings[0].paneId).toBe("pane-1");
+		expect(recordings[0].workspaceId).toBe(WORKSPACE_ID);
+
+		const recording = await getRecording({
+			workspaceId: WORKSPACE_ID,
+			recordingId: recordings[0].id,
+		});
+		expect(recording?.header).toMatchObject({
+			version: 2,
+			width: 80,
+			height: 24,
+			env: { SHELL: "/bin/zsh", TERM: "xterm-256color" },
+		});
+		expect(recording?.events.map(([, type, data]) => [type, data])).toEqual([
+			["o", "$ ls\r\n"],
+			["r", "120x40"],
+			["o", "file.txt\r\n"],
+		]);
+	});
+
+	it("should ignore writes after close", async () => {
+		const recorder = new AsciicastRecorder({
+			workspaceId: WORKSPACE_ID,
+			paneId: "pane-1",
+			cols: 80,
+			rows: 24,
+		});
+		await recorder.close();
+		recorder.output("late");
+
+		const [info] = await listRecordings(WORKSPACE_ID);
+		const recording = await getRecording({
+			workspaceId: WORKSPACE_ID,
+			recordingId: info.id,
+		});
+		expect(recording?.events).toEqual([]);
+	});
+
+	it("should reject ids that would escape the recordings directory", () => {
+		expect(
+			() =>
+				new AsciicastRecorder({
+					workspaceId: "../escape",
+					paneId: "pane-1",
+					cols: 80,
+					rows: 24,
+				}),
+		).toThrow("Invalid recording id");
+	});
+});
+
+describe("getRecording", () => {
+	it("should return null for a missing recording", async () => {
+		expect(
+			await getRecording({ workspaceId: WORKSPACE_ID, recordingId: "nope.1" }),
+		).toBeNull();
+	});
+
+	it("should return null for ids containing path separators", async () => {
+		expect(
+			await getRecording({
+				workspaceId: WORKSPACE_ID,
+				recordingId: "../../secret",
+			}),
+		).toBeNull();
+	});
+});
+
+describe("listRecordings", () => {
+	it("should return an empty list for an unknown workspace", async () => {
+		expect(await listRecordings("no-such-workspace")).toEqual([]);
+	});
+});
+
+describe("pruneRecordings", () => {
+	const dir = path.join(RECORDINGS_DIR, WORKSPACE_ID);
+	const now = Date.now();
+
+	const writeRecording = (startedAt: number, bytes: number) => {
+		fs.mkdirSync(dir, { recursive: true });
+		fs.writeFileSync(
+			path.join(dir, `pane-1.${startedAt}.cast`),
+			"x".repeat(bytes),
+		);
+	};
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("should delete recordings past the retention period", async () => {
+		writeRecording(now - RECORDING_RETENTION_MS - 1000, 10);
+		writeRecording(now - 1000, 10);
+
+		expect(await pruneRecordings({ now })).toBe(1);
+		expect(
+			(await listRecordings(WORKSPACE_ID)).map((r) => r.startedAt),
+		).toEqual([now - 1000]);
+	});
+
+	it("should delete the oldest recordings over the size budget", async () => {
+		writeRecording(now - 3000, 100);
+		writeRecording(now - 2000, 100);
+		writeRecording(now - 1000, 100);
+
+		await pruneRecordings({ now, maxTotalBytes: 250 });
+
+		expect(
+			(await listRecordings(WORKSPACE_ID)).map((r) => r.startedAt),
+		).toEqual([now - 1000, now - 2000]);
+	});
+
+	it("should remove workspace directories it empties", async () => {
+		writeRecording(now - RECORDING_RETENTION_MS - 1000, 10);
+
+		await pruneRecordings({ now });
+
+		expect(fs.existsSync(dir)).toBe(false);
+	});
+});
@@ -0,0 +1,303 @@
+import fs from "node:fs";
+import fsp from "node:fs/promises";
+import path from "node:path";
+import { SUPERSET_HOME_DIR } from "main/lib/app-environment";
+
+/**
+ * Per-pane terminal recordings in asciicast v2 format
+ * (https://docs.asciinema.org/manual/asciicast/v2/), so agent sessions can be
+ * replayed after the pane is gone.
+ *
+ * Layout: ~/.superset/recordings/<workspaceId>/<paneId>.<startedAtMs>.cast
+ */
+export const RECORDINGS_DIR = path.join(SUPERSET_HOME_DIR, "recordings");
+
+/** Stop appending once a recording reaches this size */
+export const MAX_RECORDING_BYTES = 20 * 1024 * 1024;
+
+/** Recordings older than this are pruned on startup */
+export const RECORDING_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Oldest recordings are pruned on startup until the rest fit in this */
+export const MAX_TOTAL_RECORDINGS_BYTES = 1024 * 1024 * 1024;
+
+const RECORDING_FILE_EXTENSION = ".cast";
+
+/** Ids come from the renderer; only allow characters that are safe in a path */
+const SAFE_ID_PATTERN = /^[\w.-]+$/;
+
+export interface AsciicastHeader {
+	version: 2;
+	width: number;
+	height: number;
+	/** Unix timestamp (seconds) of the start of the recording */
+	timestamp: number;
+	title?: string;
+	env?: Record<string, string>;
+}
+
+/** o = output, i = input, r = resize ("COLSxROWS"), m = marker */
+export type AsciicastEventType = "o" | "i" | "r" | "m";
+
+/** [seconds since start, event type, data] */
+export type AsciicastEvent = [number, AsciicastEventType, string];
+
+export interface Asciicast {
+	header: AsciicastHeader;
+	events: AsciicastEvent[];
+}
+
+export interface RecordingInfo {
+	/** Unique within the workspace; pass back to getRecording */
+	id: string;
+	workspaceId: string;
+	paneId: string;
+	startedAt: number;
+	sizeBytes: number;
+}
+
+function isSafeId(id: string): boolean {
+	return SAFE_ID_PATTERN.test(id) && id !== "." && id !== "..";
+}
+
+function getWorkspaceRecordingsDir(workspaceId: string): string | null {
+	if (!isSafeId(workspaceId)) return null;
+	return path.join(RECORDINGS_DIR, workspaceId);
+}
+
+/**
+ * Appends output to an asciicast file as it arrives. Writes are buffered by the
+ * stream; failures disable the recorder rather than affecting the terminal.
+ */
+export class AsciicastRecorder {
+	readonly filePath: string;
+	private stream: fs.WriteStream | null;
+	private startTime: number;
+	private bytesWritten = 0;
+
+	constructor(params: {
+		workspaceId: string;
+		paneId: string;
+		cols: number;
+		rows: number;
+		shell?: string;
+	}) {
+		const { workspaceId, paneId, cols, rows, shell } = params;
+		const dir = getWorkspaceRecordingsDir(workspaceId);
+		if (!dir || !isSafeId(paneId)) {
+			throw new Error(`Invalid recording id: ${workspaceId}/${paneId}`);
+		}
+
+		this.startTime = Date.now();
+		fs.mkdirSync(dir, { recursive: true });
+		this.filePath = path.join(
+			dir,
+			`${paneId}.${this.startTime}${RECORDING_FILE_EXTENSION}`,
+		);
+
+		this.stream = fs.createWriteStream(this.filePath, { flags: "a" });
+		this.stream.on("error", (error) => {
+			console.warn(
+				`[AsciicastRecorder] Disabling recording ${this.filePath}:`,
+				error,
+			);
+			this.stream = null;
+		});
+
+		const header: AsciicastHeader = {
+			version: 2,
+			width: cols,
+			height: rows,
+			timestamp: Math.floor(this.startTime / 1000),
+			env: { TERM: "xterm-256color", ...(shell ? { SHELL: shell } : {}) },
+		};
+		this.writeLine(JSON.stringify(header));
+	}
+
+	output(data: string): void {
+		this.writeEvent("o", data);
+	}
+
+	resize(cols: number, rows: number): void {
+		this.writeEvent("r", `${cols}x${rows}`);
+	}
+
+	close(): Promise<void> {
+		const stream = this.stream;
+		this.stream = null;
+		if (!stream) return Promise.resolve();
+		return new Promise((resolve) => stream.end(resolve));
+	}
+
+	private writeEvent(type: AsciicastEventType, data: string): void {
+		const elapsed = (Date.now() - this.startTime) / 1000;
+		const event: AsciicastEvent = [Number(elapsed.toFixed(6)), type, data];
+		this.writeLine(JSON.stringify(event));
+	}
+
+	private writeLine(line: string): void {
+		if (!this.stream) return;
+
+		const bytes = Buffer.byteLength(line) + 1;
+		if (this.bytesWritten + bytes > MAX_RECORDING_BYTES) {
+			console.warn(
+				`[AsciicastRecorder] ${this.filePath} reached ${MAX_RECORDING_BYTES} bytes, stopping`,
+			);
+			void this.close();
+			return;
+		}
+
+		this.bytesWritten += bytes;
+		this.stream.write(`${line}\n`);
+	}
+}
+
+/**
+ * Parse an asciicast v2 file. Lines that aren't valid events are skipped, so a
+ * recording cut off mid-write (crash, size cap) still plays up to that point.
+ */
+export function parseAsciicast(content: string): Asciicast {
+	const lines = content.split("\n");
+	const header = JSON.parse(lines[0] ?? "") as AsciicastHeader;
+	if (header?.version !== 2) {
+		throw new Error("Unsupported asciicast version");
+	}
+
+	const events: AsciicastEvent[] = [];
+	for (const line of lines.slice(1)) {
+		if (!line.trim()) continue;
+		try {
+			const event = JSON.parse(line);
+			if (
+				Array.isArray(event) &&
+				typeof event[0] === "number" &&
+				typeof event[1] === "string" &&
+				typeof event[2] === "string"
+			) {
+				events.push(event as AsciicastEvent);
+			}
+		} catch {
+			// Truncated final line
+		}
+	}
+
+	return { header, events };
+}
+
+/** Parse "<paneId>.<startedAt>.cast" back into its parts */
+function parseRecordingFileName(
+	fileName: string,
+): { id: string; paneId: string; startedAt: number } | null {
+	if (!fileName.endsWith(RECORDING_FILE_EXTENSION)) return null;
+
+	const id = fileName.slice(0, -RECORDING_FILE_EXTENSION.length);
+	const separator = id.lastIndexOf(".");
+	if (separator <= 0) return null;
+
+	const startedAt = Number(id.slice(separator + 1));
+	if (!Number.isFinite(startedAt)) return null;
+
+	return { id, paneId: id.slice(0, separator), startedAt };
+}
+
+/** Recordings for a workspace, newest first */
+export async function listRecordings(
+	workspaceId: string,
+): Promise<RecordingInfo[]> {
+	const dir = getWorkspaceRecordingsDir(workspaceId);
+	if (!dir) return [];
+
+	let fileNames: string[];
+	try {
+		fileNames = await fsp.readdir(dir);
+	} catch {
+		return [];
+	}
+
+	const recordings = await Promise.all(
+		fileNames.map(async (fileName): Promise<RecordingInfo | null> => {
+			const parsed = parseRecordingFileName(fileName);
+			if (!parsed) return null;
+			try {
+				const stats = await fsp.stat(path.join(dir, fileName));
+				return { ...parsed, workspaceId, sizeBytes: stats.size };
+			} catch {
+				return null;
+			}
+		}),
+	);
+
+	return recordings
+		.filter((recording): recording is RecordingInfo => recording !== null)
+		.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getRecording(params: {
+	workspaceId: string;
+	recordingId: string;
+}): Promise<Asciicast | null> {
+	const dir = getWorkspaceRecordingsDir(params.workspaceId);
+	if (!dir || !isSafeId(params.recordingId)) return null;
+
+	let content: string;
+	try {
+		content = await fsp.readFile(
+			path.join(dir, `${params.recordingId}${RECORDING_FILE_EXTENSION}`),
+			"utf8",
+		);
+	} catch {
+		return null;
+	}
+
+	return parseAsciicast(content);
+}
+
+/**
+ * Delete recordings past the retention period, then the oldest remaining ones
+ * until the total fits the size budget. Returns how many were deleted.
+ */
+export async function pruneRecordings(params?: {
+	now?: number;
+	maxTotalBytes?: number;
+}): Promise<number> {
+	const now = params?.now ?? Date.now();
+	const maxTotalBytes = params?.maxTotalBytes ?? MAX_TOTAL_RECORDINGS_BYTES;
+
+	let workspaceIds: string[];
+	try {
+		workspaceIds = await fsp.readdir(RECORDINGS_DIR);
+	} catch {
+		return 0;
+	}
+
+	const recordings = (
+		await Promise.all(workspaceIds.map((id) => listRecordings(id)))
+	)
+		.flat()
+		.sort((a, b) => b.startedAt - a.startedAt);
+
+	let totalBytes = 0;
+	let deleted = 0;
+	for (const recording of recordings) {
+		totalBytes += recording.sizeBytes;
+		const isExpired = now - recording.startedAt > RECORDING_RETENTION_MS;
+		if (!isExpired && totalBytes <= maxTotalBytes) continue;
+
+		await fsp.rm(
+			path.join(
+				RECORDINGS_DIR,
+				recording.workspaceId,
+				`${recording.id}${RECORDING_FILE_EXTENSION}`,
+			),
+			{ force: true },
+		);
+		deleted++;
+	}
+
+	// Drop workspace directories left empty
+	for (const workspaceId of workspaceIds) {
+		await fsp.rmdir(path.join(RECORDINGS_DIR, workspaceId)).catch(() => {});
+	}
+
+	return deleted;
+}
@@ -1,6 +1,5 @@
 import os from "node:os";
-import { SerializeAddon } from "@xterm/addon-serialize";
-import { Terminal as HeadlessTerminal } from "@xterm/headless";
+import type { Terminal as HeadlessTerminal } from "@xterm/headless";
 import * as pty from "node-pty";
 import { getShellArgs } from "../agent-setup";
 import { DataBatcher } from "../data-batcher";
@@ -8,38 +7,22 @@ import {
 	containsClearScrollbackSequence,
 	extractContentAfterClear,
 } from "../terminal-escape-filter";
+import type { AttachResult, TerminalHostClient } from "../terminal-host";
 import { buildTerminalEnv, FALLBACK_SHELL, getDefaultShell } from "./env";
-import type { InternalCreateSessionParams, TerminalSession } from "./types";
+import { createHeadlessTerminal } from "./headless";
+import { ShellCommandTracker } from "./shell-integration";
+import type {
+	CreateSessionParams,
+	InternalCreateSessionParams,
+	PtyProcess,
+	TerminalSession,
+} from "./types";
 
 const DEFAULT_COLS = 80;
 const DEFAULT_ROWS = 24;
-const DEFAULT_SCROLLBACK = 10000;
 /** Max time to wait for agent hooks before running initial commands */
 const AGENT_HOOKS_TIMEOUT_MS = 2000;
 
-export function createHeadlessTerminal(params: {
-	cols: number;
-	rows: number;
-	scrollback?: number;
-}): { headless: HeadlessTerminal; serializer: SerializeAddon } {
-	const { cols, rows, scrollback = DEFAULT_SCROLLBACK } = params;
-
-	const headless = new HeadlessTerminal({
-		cols,
-		rows,
-		scrollback,
-		allowProposedApi: true,
-	});
-
-	const serializer = new SerializeAddon();
-	// SerializeAddon types expect browser Terminal, but works with headless at runtime
-	headless.loadAddon(
-		serializer as unknown as Parameters<typeof headless.loadAddon>[0],
-	);
-
-	return { headless, serializer };
-}
-
 export function getSerializedScrollback(session: TerminalSession): string {
 	return session.serializer.serialize();
 }
@@ -56,16 +39,32 @@ export function recoverScrollback(params: {
 	return false;
 }
 
-function spawnPty(params: {
+async function spawnPty(params: {
+	paneId: string;
+	workspaceId: string;
 	shell: string;
 	cols: number;
 	rows: number;
 	cwd: string;
 	env: Record<string, string>;
-}): pty.IPty {
-	const { shell, cols, rows, cwd, env } = params;
+	host?: TerminalHostClient | null;
+}): Promise<PtyProcess> {
+	const { paneId, workspaceId, shell, cols, rows, cwd, env, host } = params;
 	const shellArgs = getShellArgs(shell);
 
+	if (host) {
+		return host.spawn({
+			paneId,
+			workspaceId,
+			shell,
+			args: shellArgs,
+			cwd,
+			cols,
+			rows,
+			env,
+		});
+	}
+
 	return pty.spawn(shell, shellArgs, {
 		name: "xterm-256color",
 		cols,
@@ -78,6 +77,7 @@ function spawnPty(params: {
 export async function createSession(
 	params: InternalCreateSessionParams,
 	onData: (paneId: string, data: string) => void,
+	host?: TerminalHostClient | null,
 ): Promise<TerminalSession> {
 	const {
 		paneId,
@@ -86,6 +86,7 @@ export async function createSession(
 		workspaceName,
 		workspacePath,
 		rootPath,
+		portEnv,
 		cwd,
 		cols,
 		rows,
@@ -106,6 +107,7 @@ export async function createSession(
 		workspaceName,
 		workspacePath,
 		rootPath,
+		portEnv,
 	});
 
 	const { headless, serializer } = createHeadlessTerminal({
@@ -117,13 +119,18 @@ export async function createSession(
 		existingScrollback,
 		headless,
 	});
+	const commandTracker = new ShellCommandTracker();
+	commandTracker.attach(headless);
 
-	const ptyProcess = spawnPty({
+	const ptyProcess = await spawnPty({
+		paneId,
+		workspaceId,
 		shell,
 		cols: terminalCols,
 		rows: terminalRows,
 		cwd: workingDir,
 		env,
+		host,
 	});
 
 	const dataBatcher = new DataBatcher((batchedData) => {
@@ -138,6 +145,7 @@ export async function createSession(
 		cols: terminalCols,
 		rows: terminalRows,
 		lastActive: Date.now(),
+		lastOutputAt: Date.now(),
 		headless,
 		serializer,
 		isAlive: true,
@@ -146,6 +154,55 @@ export async function createSession(
 		shell,
 		startTime: Date.now(),
 		usedFallback: useFallbackShell,
+		commandTracker,
+	};
+}
+
+/**
+ * Build a session around a PTY that is still running in the terminal host
+ * daemon (e.g. after an app restart). The headless terminal is seeded from the
+ * host's serialized scrollback, and the session is marked recovered so initial
+ * commands are never replayed.
+ */
+export function attachSession(
+	params: CreateSessionParams,
+	attached: { pty: PtyProcess; info: AttachResult },
+	onData: (paneId: string, data: string) => void,
+): TerminalSession {
+	const { paneId, workspaceId } = params;
+	const { pty: ptyProcess, info } = attached;
+
+	const { headless, serializer } = createHeadlessTerminal({
+		cols: info.cols,
+		rows: info.rows,
+	});
+	recoverScrollback({ existingScrollback: info.scrollback, headless });
+	const commandTracker = new ShellCommandTracker();
+	commandTracker.attach(headless);
+
+	const dataBatcher = new DataBatcher((batchedData) => {
+		onData(paneId, batchedData);
+	});
+
+	return {
+		pty: ptyProcess,
+		paneId,
+		workspaceId,
+		cwd: info.cwd,
+		cols: info.cols,
+		rows: info.rows,
+		lastActive: Date.now(),
+		lastOutputAt: Date.now(),
+		headless,
+		serializer,
+		isAlive: true,
+		wasRecovered: true,
+		dataBatcher,
+		shell: getDefaultShell(),
+		startTime: Date.now(),
+		usedFallback: false,
+		viewportY: info.viewportY,
+		commandTracker,
 	};
 }
 
@@ -171,6 +228,7 @@ export function setupDataHandler(
 			});
 			session.headless = headless;
 			session.serializer = serializer;
+			session.commandTracker.attach(headless);
 			const contentAfterClear = extractContentAfterClear(data);
 			if (contentAfterClear) {
 				session.headless.write(contentAfterClear);
@@ -180,6 +238,9 @@ export function setupDataHandler(
 		}
 
 		session.dataBatcher.write(data);
+		session.recorder?.output(data);
+		session.triggerMatcher?.write(data);
+		session.lastOutputAt = Date.now();
 
 		if (initialCommandString && !commandsSent) {
 			commandsSent = true;
@@ -208,4 +269,5 @@ export function setupDataHandler(
 export function flushSession(session: TerminalSession): void {
 	session.dataBatcher.dispose();
 	session.headless.dispose();
+	void session.recorder?.close();
 }
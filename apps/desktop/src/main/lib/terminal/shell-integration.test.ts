@@ -0,0 +1,121 @@
+import { describe, expect, it } from "bun:test";
+import { createHeadlessTerminal } from "./headless";
+import { MAX_COMMAND_HISTORY, ShellCommandTracker } from "./shell-integration";
+
+function write(
+	headless: ReturnType<typeof createHeadlessTerminal>["headless"],
+	data: string,
+) {
+	return new Promise<void>((resolve) => headless.write(data, resolve));
+}
+
+function runCommand(command: string, cwd: string, exitCode: number): string {
+	return [
+		`\x1b]633;P;Cwd=${cwd}\x07`,
+		"\x1b]133;A\x07$ \x1b]133;B\x07",
+		`${command}\r\n`,
+		`\x1b]633;E;${command}\x07\x1b]133;C\x07`,
+		"output\r\n",
+		`\x1b]133;D;${exitCode}\x07`,
+	].join("");
+}
+
+describe("ShellCommandTracker", () => {
+	it("should record commands with cwd and exit code", async () => {
+		const { headless } = createHeadlessTerminal({ cols: 80, rows: 10 });
+		const tracker = new ShellCommandTracker();
+		tracker.attach(headless);
+
+		await write(headless, runCommand("ls", "/repo", 0));
+		await write(headless, runCommand("false", "/repo/src", 1));
+
+		const history = tracker.getHistory();
+		expect(history).toHaveLength(2);
+		expect(history[0]).toMatchObject({
+			command: "ls",
+			cwd: "/repo",
+			exitCode: 0,
+		});
+		expect(history[1]).toMatchObject({
+			command: "false",
+			cwd: "/repo/src",
+			exitCode: 1,
+		});
+		expect(history[1]?.endedAt).not.toBeNull();
+		headless.dispose();
+	});
+
+	it("should handle sequences split across writes", async () => {
+		const { headless } = createHeadlessTerminal({ cols: 80, rows: 10 });
+		const tracker = new ShellCommandTracker();
+		tracker.attach(headless);
+
+		const data = runCommand("echo a\\x3bb", "/tmp", 0);
+		for (const chunk of [data.slice(0, 7), data.slice(7, 40), data.slice(40)]) {
+			await write(headless, chunk);
+		}
+
+		expect(tracker.getHistory()).toMatchObject([
+			{ command: "echo a;b", cwd: "/tmp", exitCode: 0 },
+		]);
+		headless.dispose();
+	});
+
+	it("should include the running command", async () => {
+		const { headless } = createHeadlessTerminal({ cols: 80, rows: 10 });
+		const tracker = new ShellCommandTracker();
+		tracker.attach(headless);
+
+		await write(headless, "\x1b]633;E;sleep 10\x07\x1b]133;C\x07");
+
+		expect(tracker.getHistory()).toMatchObject([
+			{ command: "sleep 10", endedAt: null, exitCode: null },
+		]);
+		headless.dispose();
+	});
+
+	it("should end a command when the prompt returns without an exit code", async () => {
+		const { headless } = createHeadlessTerminal({ cols: 80, rows: 10 });
+		const tracker = new ShellCommandTracker();
+		tracker.attach(headless);
+
+		await write(headless, "\x1b]633;E;vim\x07\x1b]133;C\x07\x1b]133;A\x07");
+
+		const [command] = tracker.getHistory();
+		expect(command?.endedAt).not.toBeNull();
+		expect(command?.exitCode).toBeNull();
+		headless.dispose();
+	});
+
+	it("should keep history across a recreated headless terminal", async () => {
+		const first = createHeadlessTerminal({ cols: 80, rows: 10 });
+		const tracker = new ShellCommandTracker();
+		tracker.attach(first.headless);
+		await write(first.headless, runCommand("clear", "/repo", 0));
+		first.headless.dispose();
+
+		const second = createHeadlessTerminal({ cols: 80, rows: 10 });
+		tracker.attach(second.headless);
+		await write(second.headless, runCommand("ls", "/repo", 0));
+
+		expect(tracker.getHistory().map((c) => c.command)).toEqual(["clear", "ls"]);
+		second.headless.dispose();
+	});
+
+	it("should cap the history length", async () => {
+		const { headless } = createHeadlessTerminal({ cols: 80, rows: 10 });
+		const tracker = new ShellCommandTracker();
+		tracker.attach(headless);
+
+		const commands: string[] = [];
+		for (let i = 0; i < MAX_COMMAND_HISTORY + 5; i++) {
+			commands.push(runCommand(`cmd${i}`, "/repo", 0));
+		}
+		await write(headless, commands.join(""));
+
+		const history = tracker.getHistory();
+		expect(history).toHaveLength(MAX_COMMAND_HISTORY);
+		expect(history[0]?.command).toBe("cmd5");
+		headless.dispose();
+	});
+});
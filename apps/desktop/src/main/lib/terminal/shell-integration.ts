@@ -0,0 +1,105 @@
+import type { Terminal as HeadlessTerminal } from "@xterm/headless";
+import {
+	OSC_SEMANTIC_PROMPT,
+	OSC_SHELL_PROPERTIES,
+	parseShellIntegrationSequence,
+	type ShellIntegrationMark,
+} from "shared/shell-integration";
+
+/** Commands kept per session; older ones are dropped */
+export const MAX_COMMAND_HISTORY = 200;
+
+/** A command run at a shell prompt, as reported by shell integration */
+export interface ShellCommand {
+	command: string;
+	/** Shell cwd when the command started, if the shell reported it */
+	cwd: string | null;
+	startedAt: number;
+	/** Null while the command is still running */
+	endedAt: number | null;
+	/** Null while running, or if the shell didn't report one */
+	exitCode: number | null;
+}
+
+/**
+ * Builds a session's command history from the OSC 133/633 sequences emitted by
+ * our shell wrappers. Sequences are read through the session's headless xterm,
+ * so ones split across PTY chunks are handled by xterm's parser.
+ */
+export class ShellCommandTracker {
+	private commands: ShellCommand[] = [];
+	private running: ShellCommand | null = null;
+	private cwd: string | null = null;
+	private commandLine: string | null = null;
+
+	/**
+	 * Register OSC handlers on a headless terminal. Call again whenever the
+	 * session's headless terminal is recreated; history carries over.
+	 */
+	attach(headless: HeadlessTerminal): void {
+		for (const identifier of [OSC_SEMANTIC_PROMPT, OSC_SHELL_PROPERTIES]) {
+			headless.parser.registerOscHandler(identifier, (data) => {
+				const mark = parseShellIntegrationSequence(identifier, data);
+				if (mark) {
+					this.handleMark(mark);
+				}
+				// Let other handlers see the sequence too
+				return false;
+			});
+		}
+	}
+
+	/** Finished commands plus the running one, oldest first */
+	getHistory(): ShellCommand[] {
+		const history = this.commands.map((command) => ({ ...command }));
+		if (this.running) {
+			history.push({ ...this.running });
+		}
+		return history;
+	}
+
+	private handleMark(mark: ShellIntegrationMark): void {
+		switch (mark.type) {
+			case "cwd":
+				this.cwd = mark.cwd;
+				break;
+			case "commandLine":
+				this.commandLine = mark.command;
+				break;
+			case "commandExecuted":
+				this.finishRunning(null);
+				this.running = {
+					command: this.commandLine ?? "",
+					cwd: this.cwd,
+					startedAt: Date.now(),
+					endedAt: null,
+					exitCode: null,
+				};
+				this.commandLine = null;
+				break;
+			case "commandFinished":
+				this.finishRunning(mark.exitCode);
+				break;
+			case "promptStart":
+				// Shells that skip D (e.g. after Ctrl+C in some setups) still
+				// end the command when the prompt comes back
+				this.finishRunning(null);
+				break;
+			case "commandStart":
+				break;
+		}
+	}
+
+	private finishRunning(exitCode: number | null): void {
+		if (!this.running) return;
+
+		this.running.endedAt = Date.now();
+		this.running.exitCode = exitCode;
+		this.commands.push(this.running);
+		this.running = null;
+
+		if (this.commands.length > MAX_COMMAND_HISTORY) {
+			this.commands.splice(0, this.commands.length - MAX_COMMAND_HISTORY);
+		}
+	}
+}
@@ -0,0 +1,160 @@
+import { EventEmitter } from "node:events";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+	projects,
+	settings,
+	type TerminalTrigger,
+	terminalTriggerSchema,
+	workspaces,
+} from "@superset/local-db";
+import { eq } from "drizzle-orm";
+import { localDb } from "main/lib/local-db";
+import { CONFIG_FILE_NAME, PROJECT_SUPERSET_DIR_NAME } from "shared/constants";
+import type { TerminalTriggerEvent } from "shared/notification-types";
+import {
+	type OutputTriggerMatch,
+	OutputTriggerMatcher,
+	resolveTriggerAction,
+} from "./output-triggers";
+import type { TerminalSession } from "./types";
+
+/**
+ * Reads triggers from a project's .superset/config.json. Invalid entries are
+ * skipped with a warning so the rest of the config keeps working.
+ */
+function loadProjectTriggers(mainRepoPath: string): TerminalTrigger[] {
+	const configPath = join(
+		mainRepoPath,
+		PROJECT_SUPERSET_DIR_NAME,
+		CONFIG_FILE_NAME,
+	);
+	if (!existsSync(configPath)) {
+		return [];
+	}
+
+	let raw: unknown;
+	try {
+		raw = JSON.parse(readFileSync(configPath, "utf-8"))?.triggers;
+	} catch (error) {
+		console.error(
+			`[terminal-triggers] Failed to read ${configPath}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		return [];
+	}
+	if (!Array.isArray(raw)) {
+		return [];
+	}
+
+	const triggers: TerminalTrigger[] = [];
+	for (const entry of raw) {
+		const parsed = terminalTriggerSchema.safeParse(entry);
+		if (parsed.success) {
+			triggers.push(parsed.data);
+		} else {
+			console.warn(
+				"[terminal-triggers] Skipping invalid trigger in config.json:",
+				parsed.error.issues,
+			);
+		}
+	}
+	return triggers;
+}
+
+/**
+ * Global triggers from settings plus the workspace's project triggers, which
+ * shadow global ones with the same name.
+ */
+function loadTriggers(workspaceId: string): TerminalTrigger[] {
+	try {
+		const userTriggers: TerminalTrigger[] =
+			localDb.select().from(settings).get()?.terminalTriggers ?? [];
+
+		const workspace = localDb
+			.select()
+			.from(workspaces)
+			.where(eq(workspaces.id, workspaceId))
+			.get();
+		const project = workspace
+			? localDb
+					.select()
+					.from(projects)
+					.where(eq(projects.id, workspace.projectId))
+					.get()
+			: undefined;
+		const projectTriggers = project
+			? loadProjectTriggers(project.mainRepoPath)
+			: [];
+
+		const projectNames = new Set(projectTriggers.map((t) => t.name));
+		return [
+			...projectTriggers,
+			...userTriggers.filter((trigger) => !projectNames.has(trigger.name)),
+		];
+	} catch (error) {
+		console.error("[terminal-triggers] Failed to load triggers:", error);
+		return [];
+	}
+}
+
+/**
+ * Matches terminal output against user-defined triggers. Each session gets an
+ * OutputTriggerMatcher fed from its data handler; matches are emitted as
+ * "trigger" with a TerminalTriggerEvent for main and the renderer to act on.
+ *
+ * Project triggers are read when a terminal starts, so edits to config.json
+ * apply to new terminals; call reload() after changing the global triggers.
+ */
+class TerminalTriggerManager extends EventEmitter {
+	private sessions = new Map<string, TerminalSession>();
+
+	registerSession(session: TerminalSession): void {
+		const matcher = new OutputTriggerMatcher((match) =>
+			this.handleMatch(session, match),
+		);
+		matcher.setTriggers(loadTriggers(session.workspaceId));
+		session.triggerMatcher = matcher;
+		this.sessions.set(session.paneId, session);
+	}
+
+	unregisterSession(paneId: string): void {
+		this.sessions.delete(paneId);
+	}
+
+	/** Re-read triggers for every open terminal */
+	reload(): void {
+		const triggersByWorkspace = new Map<string, TerminalTrigger[]>();
+		for (const session of this.sessions.values()) {
+			let triggers = triggersByWorkspace.get(session.workspaceId);
+			if (!triggers) {
+				triggers = loadTriggers(session.workspaceId);
+				triggersByWorkspace.set(session.workspaceId, triggers);
+			}
+			session.triggerMatcher?.setTriggers(triggers);
+		}
+	}
+
+	private handleMatch(
+		session: TerminalSession,
+		match: OutputTriggerMatch,
+	): void {
+		const action = resolveTriggerAction(match);
+		if (!action) {
+			console.warn(
+				`[output-triggers] Ignoring "${match.trigger.name}": its ${match.trigger.action.type} action is unsafe for the matched text or quotes a placeholder`,
+			);
+			return;
+		}
+
+		const event: TerminalTriggerEvent = {
+			paneId: session.paneId,
+			workspaceId: session.workspaceId,
+			triggerName: match.trigger.name,
+			line: match.line,
+			action,
+		};
+		this.emit("trigger", event);
+	}
+}
+
+export const terminalTriggerManager = new TerminalTriggerManager();
@@ -2,15 +2,30 @@ import type { SerializeAddon } from "@xterm/addon-serialize";
 import type { Terminal as HeadlessTerminal } from "@xterm/headless";
 import type * as pty from "node-pty";
 import type { DataBatcher } from "../data-batcher";
+import type { BufferSearchMatch } from "./headless";
+import type { OutputTriggerMatcher } from "./output-triggers";
+import type { AsciicastRecorder } from "./recording";
+import type { ShellCommandTracker } from "./shell-integration";
+
+/**
+ * The subset of node-pty's IPty that sessions rely on. Implemented by node-pty
+ * directly and by RemotePty for PTYs owned by the terminal host daemon.
+ */
+export type PtyProcess = Pick<
+	pty.IPty,
+	"pid" | "onData" | "onExit" | "write" | "resize" | "kill"
+>;
 
 export interface TerminalSession {
-	pty: pty.IPty;
+	pty: PtyProcess;
 	paneId: string;
 	workspaceId: string;
 	cwd: string;
 	cols: number;
 	rows: number;
 	lastActive: number;
+	/** When the PTY last produced output, for idle detection */
+	lastOutputAt: number;
 	headless: HeadlessTerminal;
 	serializer: SerializeAddon;
 	isAlive: boolean;
@@ -21,6 +36,12 @@ export interface TerminalSession {
 	usedFallback: boolean;
 	/** Saved viewport scroll position for restoration on reattach */
 	viewportY?: number;
+	/** Asciicast recorder, present when recording is enabled for this session */
+	recorder?: AsciicastRecorder;
+	/** Output triggers, present when any apply to this session's workspace */
+	triggerMatcher?: OutputTriggerMatcher;
+	/** Command history from shell integration sequences */
+	commandTracker: ShellCommandTracker;
 }
 
 export interface TerminalDataEvent {
@@ -36,6 +57,14 @@ export interface TerminalExitEvent {
 
 export type TerminalEvent = TerminalDataEvent | TerminalExitEvent;
 
+/** Matches of a workspace-wide search in one pane's buffer */
+export interface PaneSearchResult {
+	paneId: string;
+	matches: BufferSearchMatch[];
+	/** More lines matched than were returned */
+	truncated: boolean;
+}
+
 export interface SessionResult {
 	isNew: boolean;
 	scrollback: string;
@@ -51,10 +80,14 @@ export interface CreateSessionParams {
 	workspaceName?: string;
 	workspacePath?: string;
 	rootPath?: string;
+	/** Reserved dev-server ports (SUPERSET_PORT_BASE and named ports) */
+	portEnv?: Record<string, string>;
 	cwd?: string;
 	cols?: number;
 	rows?: number;
 	initialCommands?: string[];
+	/** Record output to an asciicast file for later replay */
+	record?: boolean;
 }
 
 export interface InternalCreateSessionParams extends CreateSessionParams {
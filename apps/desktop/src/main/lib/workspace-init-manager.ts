@@ -1,6 +1,13 @@
 import { EventEmitter } from "node:events";
+import {
+	type SelectWorkspaceInitJob,
+	workspaceInitJobs,
+} from "@superset/local-db";
+import { eq } from "drizzle-orm";
+import { localDb } from "main/lib/local-db";
 import type {
 	WorkspaceInitProgress,
+	WorkspaceInitRecovery,
 	WorkspaceInitStep,
 } from "shared/types/workspace-init";
 
@@ -18,9 +25,9 @@ interface InitJob {
  * - Cancellation support
  * - Per-project mutex to prevent concurrent git operations
  *
- * This is an in-memory manager - state is NOT persisted across app restarts.
- * If the app restarts during initialization, the workspace may be left in
- * an incomplete state requiring manual cleanup (documented limitation).
+ * Each job's step is also persisted to the workspace_init_jobs table, so a
+ * restart during initialization can be reconciled on the next launch (see
+ * reconcileInterruptedInits). Locks and cancellation are in-memory only.
  */
 class WorkspaceInitManager extends EventEmitter {
 	private jobs = new Map<string, InitJob>();
@@ -67,9 +74,21 @@ class WorkspaceInitManager extends EventEmitter {
 	}
 
 	/**
-	 * Start tracking a new initialization job
+	 * Jobs persisted by a previous run of the app
 	 */
-	startJob(workspaceId: string, projectId: string): void {
+	getPersistedJobs(): SelectWorkspaceInitJob[] {
+		return localDb.select().from(workspaceInitJobs).all();
+	}
+
+	/**
+	 * Start tracking a new initialization job. `recovery` and
+	 * `worktreeCreated` are set when resuming a job from a previous run.
+	 */
+	startJob(
+		workspaceId: string,
+		projectId: string,
+		options?: { recovery?: WorkspaceInitRecovery; worktreeCreated?: boolean },
+	): void {
 		if (this.jobs.has(workspaceId)) {
 			console.warn(
 				`[workspace-init] Job already exists for ${workspaceId}, clearing old job`,
@@ -94,19 +113,39 @@ class WorkspaceInitManager extends EventEmitter {
 			projectId,
 			step: "pending",
 			message: "Preparing...",
+			recovery: options?.recovery,
 		};
 
-		this.jobs.set(workspaceId, {
+		const job: InitJob = {
 			workspaceId,
 			projectId,
 			progress,
 			cancelled: false,
-			worktreeCreated: false,
-		});
+			worktreeCreated: options?.worktreeCreated ?? false,
+		};
+		this.jobs.set(workspaceId, job);
+		this.persistJob(job);
 
 		this.emit("progress", progress);
 	}
 
+	/**
+	 * Show a job from a previous run as failed, without starting it
+	 */
+	restoreFailedJob(progress: WorkspaceInitProgress): void {
+		const job: InitJob = {
+			workspaceId: progress.workspaceId,
+			projectId: progress.projectId,
+			progress: { ...progress, step: "failed" },
+			cancelled: false,
+			worktreeCreated: false,
+		};
+		this.jobs.set(job.workspaceId, job);
+		this.persistJob(job);
+
+		this.emit("progress", job.progress);
+	}
+
 	/**
 	 * Update progress for an initialization job
 	 */
@@ -129,6 +168,12 @@ class WorkspaceInitManager extends EventEmitter {
 			error,
 		};
 
+		if (step === "ready") {
+			this.deletePersistedJob(workspaceId);
+		} else {
+			this.persistJob(job);
+		}
+
 		this.emit("progress", job.progress);
 
 		// Clean up ready jobs after a delay
@@ -148,6 +193,7 @@ class WorkspaceInitManager extends EventEmitter {
 		const job = this.jobs.get(workspaceId);
 		if (job) {
 			job.worktreeCreated = true;
+			this.persistJob(job);
 		}
 	}
 
@@ -198,6 +244,7 @@ class WorkspaceInitManager extends EventEmitter {
 	 */
 	clearJob(workspaceId: string): void {
 		this.jobs.delete(workspaceId);
+		this.deletePersistedJob(workspaceId);
 		this.donePromises.delete(workspaceId);
 		this.doneResolvers.delete(workspaceId);
 		this.cancellations.delete(workspaceId);
@@ -296,6 +343,51 @@ class WorkspaceInitManager extends EventEmitter {
 	hasProjectLock(projectId: string): boolean {
 		return this.projectLocks.has(projectId);
 	}
+
+	private persistJob(job: InitJob): void {
+		const values = {
+			step: job.progress.step,
+			message: job.progress.message,
+			error: job.progress.error ?? null,
+			worktreeCreated: job.worktreeCreated,
+			updatedAt: Date.now(),
+		};
+
+		// Persistence is best-effort; the workspace row may already be deleted
+		try {
+			localDb
+				.insert(workspaceInitJobs)
+				.values({
+					workspaceId: job.workspaceId,
+					projectId: job.projectId,
+					...values,
+				})
+				.onConflictDoUpdate({
+					target: workspaceInitJobs.workspaceId,
+					set: values,
+				})
+				.run();
+		} catch (error) {
+			console.error(
+				`[workspace-init] Failed to persist job for ${job.workspaceId}:`,
+				error,
+			);
+		}
+	}
+
+	private deletePersistedJob(workspaceId: string): void {
+		try {
+			localDb
+				.delete(workspaceInitJobs)
+				.where(eq(workspaceInitJobs.workspaceId, workspaceId))
+				.run();
+		} catch (error) {
+			console.error(
+				`[workspace-init] Failed to delete persisted job for ${workspaceId}:`,
+				error,
+			);
+		}
+	}
 }
 
 /** Singleton workspace initialization manager instance */
@@ -0,0 +1,91 @@
+/**
+ * Terminal host daemon entry point.
+ *
+ * Spawned detached by TerminalHostClient with ELECTRON_RUN_AS_NODE=1 so PTYs
+ * survive main process restarts (quit, crash, auto-update). Listens on a Unix
+ * socket in the Superset home dir and exits once it has been idle - no
+ * sessions and no connected clients - for IDLE_EXIT_DELAY_MS.
+ */
+import fs from "node:fs";
+import net from "node:net";
+import * as pty from "node-pty";
+import { TerminalHost } from "../lib/terminal-host/host";
+import { getTerminalHostSocketPath } from "../lib/terminal-host/protocol";
+
+const IDLE_EXIT_DELAY_MS = 30_000;
+
+const socketPath = getTerminalHostSocketPath();
+const host = new TerminalHost({ spawn: pty.spawn });
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+function cancelIdleExit(): void {
+	if (idleTimer) {
+		clearTimeout(idleTimer);
+		idleTimer = null;
+	}
+}
+
+function shutdown(code: number): void {
+	host.dispose();
+	server.close();
+	try {
+		fs.unlinkSync(socketPath);
+	} catch {
+		// Already removed
+	}
+	process.exit(code);
+}
+
+host.on("idle", () => {
+	cancelIdleExit();
+	idleTimer = setTimeout(() => {
+		if (host.sessionCount === 0 && host.connectionCount === 0) {
+			console.log("[terminal-host] Idle, exiting");
+			shutdown(0);
+		}
+	}, IDLE_EXIT_DELAY_MS);
+});
+
+const server = net.createServer((socket) => {
+	cancelIdleExit();
+	host.handleConnection(socket);
+});
+
+/**
+ * A leftover socket file either belongs to a live daemon (keep it, exit) or to
+ * one that crashed (remove it so we can listen).
+ */
+function claimSocket(onClaimed: () => void): void {
+	if (!fs.existsSync(socketPath)) {
+		onClaimed();
+		return;
+	}
+
+	const probe = net.createConnection(socketPath);
+	probe.once("connect", () => {
+		probe.destroy();
+		console.log("[terminal-host] Another daemon is already running");
+		process.exit(0);
+	});
+	probe.once("error", () => {
+		fs.rmSync(socketPath, { force: true });
+		onClaimed();
+	});
+}
+
+claimSocket(() => {
+	server.listen(socketPath, () => {
+		// Socket is the only access control - keep it private to the user
+		fs.chmodSync(socketPath, 0o600);
+		console.log(`[terminal-host] Listening on ${socketPath}`);
+		host.emit("idle");
+	});
+});
+
+server.on("error", (error) => {
+	console.error("[terminal-host] Server error:", error);
+	shutdown(1);
+});
+
+process.on("SIGTERM", () => shutdown(0));
+process.on("SIGINT", () => shutdown(0));
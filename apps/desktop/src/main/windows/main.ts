@@ -7,6 +7,7 @@ import { createWindow } from "lib/electron-app/factories/windows/create";
 import { createAppRouter } from "lib/trpc/routers";
 import { localDb } from "main/lib/local-db";
 import { NOTIFICATION_EVENTS, PORTS } from "shared/constants";
+import type { TerminalTriggerEvent } from "shared/notification-types";
 import { createIPCHandler } from "trpc-electron/main";
 import { productName } from "~/package.json";
 import { appState } from "../lib/app-state";
@@ -18,6 +19,7 @@ import {
 	notificationsEmitter,
 } from "../lib/notifications/server";
 import { terminalManager } from "../lib/terminal";
+import { terminalShareServer } from "../lib/terminal-share";
 import {
 	getInitialWindowBounds,
 	loadWindowState,
@@ -64,6 +66,13 @@ export async function MainWindow() {
 		},
 	});
 
+	// Browser panes load arbitrary pages; never hand them the app's preload
+	window.webContents.on("will-attach-webview", (_event, webPreferences) => {
+		delete webPreferences.preload;
+		webPreferences.nodeIntegration = false;
+		webPreferences.contextIsolation = true;
+	});
+
 	createApplicationMenu();
 	registerMenuHotkeyUpdates();
 
@@ -170,6 +179,35 @@ export async function MainWindow() {
 		},
 	);
 
+	// Desktop notifications from terminal triggers with a "notify" action
+	notificationsEmitter.on(
+		NOTIFICATION_EVENTS.TERMINAL_TRIGGER,
+		(event: TerminalTriggerEvent) => {
+			if (event.action.type !== "notify" || !Notification.isSupported()) {
+				return;
+			}
+
+			const notification = new Notification({
+				title: event.action.title || event.triggerName,
+				body: event.action.body,
+				silent: true,
+			});
+
+			playNotificationSound();
+
+			notification.on("click", () => {
+				window.show();
+				window.focus();
+				notificationsEmitter.emit(NOTIFICATION_EVENTS.FOCUS_TAB, {
+					paneId: event.paneId,
+					workspaceId: event.workspaceId,
+				});
+			});
+
+			notification.show();
+		},
+	);
+
 	window.webContents.on("did-finish-load", async () => {
 		// Restore maximized state if it was saved
 		if (initialBounds.isMaximized) {
@@ -191,6 +229,8 @@ export async function MainWindow() {
 		});
 
 		server.close();
+		// Shares stream through terminal listeners that are removed below
+		terminalShareServer.revokeAll();
 		notificationsEmitter.removeAllListeners();
 		// Remove terminal listeners to prevent duplicates when window reopens on macOS
 		terminalManager.detachAllListeners();
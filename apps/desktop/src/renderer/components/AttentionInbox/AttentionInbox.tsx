@@ -0,0 +1,101 @@
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@superset/ui/dialog";
+import { trpc } from "renderer/lib/trpc";
+import { useSetActiveWorkspace } from "renderer/react-query/workspaces/useSetActiveWorkspace";
+import { useAppStore } from "renderer/stores/app-state";
+import {
+	useAttentionInboxOpen,
+	useAttentionInboxStore,
+} from "renderer/stores/attention-inbox";
+import { useTabsStore } from "renderer/stores/tabs/store";
+import { AttentionInboxItem } from "./AttentionInboxItem";
+
+/**
+ * Lists every pane waiting on a permission prompt, across all workspaces,
+ * so requests can be answered without switching to each pane.
+ */
+export function AttentionInbox() {
+	const isOpen = useAttentionInboxOpen();
+	const setOpen = useAttentionInboxStore((s) => s.setOpen);
+	const panes = useTabsStore((s) => s.panes);
+	const tabs = useTabsStore((s) => s.tabs);
+	const { data: workspaces } = trpc.workspaces.getAll.useQuery(undefined, {
+		enabled: isOpen,
+	});
+	const setActiveWorkspace = useSetActiveWorkspace();
+
+	const requests = Object.values(panes)
+		.filter((pane) => pane.status === "permission")
+		.map((pane) => {
+			const tab = tabs.find((t) => t.id === pane.tabId);
+			const workspace = workspaces?.find((w) => w.id === tab?.workspaceId);
+			return {
+				pane,
+				workspaceId: tab?.workspaceId,
+				workspaceName: workspace?.name ?? "Workspace",
+			};
+		});
+
+	const handleGoToPane = (
+		paneId: string,
+		tabId: string,
+		workspaceId: string | undefined,
+	) => {
+		if (!workspaceId) return;
+		setOpen(false);
+
+		const appState = useAppStore.getState();
+		if (appState.currentView !== "workspace") {
+			appState.setView("workspace");
+		}
+
+		setActiveWorkspace.mutate(
+			{ id: workspaceId },
+			{
+				onSuccess: () => {
+					const state = useTabsStore.getState();
+					if (!state.panes[paneId]) return;
+					state.setActiveTab(workspaceId, tabId);
+					state.setFocusedPane(tabId, paneId);
+				},
+			},
+		);
+	};
+
+	return (
+		<Dialog open={isOpen} onOpenChange={setOpen}>
+			<DialogContent className="max-w-2xl">
+				<DialogHeader>
+					<DialogTitle>Needs Attention</DialogTitle>
+					<DialogDescription>
+						Agents waiting for permission across all workspaces
+					</DialogDescription>
+				</DialogHeader>
+				<div className="flex max-h-[70vh] flex-col gap-3 overflow-y-auto">
+					{requests.length === 0 ? (
+						<p className="py-6 text-center text-sm text-muted-foreground">
+							No agents are waiting for input
+						</p>
+					) : (
+						requests.map(({ pane, workspaceId, workspaceName }) => (
+							<AttentionInboxItem
+								key={pane.id}
+								paneId={pane.id}
+								paneName={pane.name}
+								workspaceName={workspaceName}
+								onGoToPane={() =>
+									handleGoToPane(pane.id, pane.tabId, workspaceId)
+								}
+							/>
+						))
+					)}
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,119 @@
+import { Button } from "@superset/ui/button";
+import { Input } from "@superset/ui/input";
+import { toast } from "@superset/ui/sonner";
+import { useState } from "react";
+import { trpc } from "renderer/lib/trpc";
+import { useTabsStore } from "renderer/stores/tabs/store";
+import type { PaneStatus } from "shared/tabs-types";
+import { buildCustomReply, PERMISSION_RESPONSES } from "./responses";
+
+/** Terminal lines shown per request, enough for a typical permission prompt */
+const PREVIEW_LINE_COUNT = 15;
+const PREVIEW_REFETCH_INTERVAL_MS = 1000;
+
+interface AttentionInboxItemProps {
+	paneId: string;
+	paneName: string;
+	workspaceName: string;
+	onGoToPane: () => void;
+}
+
+export function AttentionInboxItem({
+	paneId,
+	paneName,
+	workspaceName,
+	onGoToPane,
+}: AttentionInboxItemProps) {
+	const [reply, setReply] = useState("");
+	const setPaneStatus = useTabsStore((s) => s.setPaneStatus);
+
+	const { data: lines } = trpc.terminal.getRecentLines.useQuery(
+		{ paneId, lineCount: PREVIEW_LINE_COUNT },
+		{ refetchInterval: PREVIEW_REFETCH_INTERVAL_MS },
+	);
+	const writeMutation = trpc.terminal.write.useMutation();
+
+	const respond = (data: string, nextStatus: PaneStatus) => {
+		writeMutation.mutate(
+			{ paneId, data },
+			{
+				onSuccess: () => {
+					// Hooks report the next state, but clear the prompt right away
+					setPaneStatus(paneId, nextStatus);
+				},
+				onError: (error) => {
+					toast.error(`Failed to respond: ${error.message}`);
+				},
+			},
+		);
+	};
+
+	const handleSendReply = () => {
+		const text = reply.trim();
+		if (!text) return;
+		respond(buildCustomReply(text), "working");
+		setReply("");
+	};
+
+	return (
+		<div className="flex flex-col gap-2 rounded-md border border-border p-3">
+			<div className="flex items-center justify-between gap-2">
+				<div className="flex min-w-0 items-center gap-2">
+					<span className="size-2 shrink-0 rounded-full bg-red-500" />
+					<span className="truncate text-sm font-medium">{paneName}</span>
+					<span className="truncate text-xs text-muted-foreground">
+						{workspaceName}
+					</span>
+				</div>
+				<Button variant="ghost" size="sm" onClick={onGoToPane}>
+					Go to pane
+				</Button>
+			</div>
+
+			<pre className="max-h-56 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 font-mono text-xs">
+				{lines === null
+					? "Terminal session not running"
+					: (lines ?? []).join("\n") || " "}
+			</pre>
+
+			<div className="flex items-center gap-2">
+				<Button
+					size="sm"
+					onClick={() => respond(PERMISSION_RESPONSES.approve, "working")}
+					disabled={writeMutation.isPending || lines === null}
+				>
+					Approve
+				</Button>
+				<Button
+					size="sm"
+					variant="outline"
+					onClick={() => respond(PERMISSION_RESPONSES.deny, "idle")}
+					disabled={writeMutation.isPending || lines === null}
+				>
+					Deny
+				</Button>
+				<Input
+					value={reply}
+					onChange={(e) => setReply(e.target.value)}
+					onKeyDown={(e) => {
+						if (e.key === "Enter") {
+							e.preventDefault();
+							handleSendReply();
+						}
+					}}
+					placeholder="Reply…"
+					className="h-8 flex-1 text-xs"
+					disabled={lines === null}
+				/>
+				<Button
+					size="sm"
+					variant="outline"
+					onClick={handleSendReply}
+					disabled={!reply.trim() || writeMutation.isPending || lines === null}
+				>
+					Send
+				</Button>
+			</div>
+		</div>
+	);
+}
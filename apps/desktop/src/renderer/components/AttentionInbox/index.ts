@@ -0,0 +1 @@
+export { AttentionInbox } from "./AttentionInbox";
@@ -0,0 +1,16 @@
+/**
+ * Keystrokes written to the PTY to answer a permission prompt.
+ *
+ * Claude Code, Codex and OpenCode all highlight "allow once" by default and
+ * cancel the prompt on Escape, so Enter/Escape work across agents without
+ * knowing which one is running.
+ */
+export const PERMISSION_RESPONSES = {
+	approve: "\r",
+	deny: "\x1b",
+} as const;
+
+/** A typed reply is submitted like the user pressed Enter after typing it */
+export function buildCustomReply(text: string): string {
+	return `${text.replace(/\r?\n/g, " ")}\r`;
+}
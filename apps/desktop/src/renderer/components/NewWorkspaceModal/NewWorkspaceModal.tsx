@@ -40,6 +40,7 @@ import {
 	usePreSelectedProjectId,
 } from "renderer/stores/new-workspace-modal";
 import { ExistingWorktreesList } from "./components/ExistingWorktreesList";
+import { FanOutForm } from "./components/FanOutForm";
 
 function generateBranchFromTitle(title: string): string {
 	if (!title.trim()) return "";
@@ -54,7 +55,23 @@ function generateBranchFromTitle(title: string): string {
 		.slice(0, 50);
 }
 
-type Mode = "existing" | "new";
+type Mode = "existing" | "new" | "fan-out";
+
+const MODE_OPTIONS: { value: Mode; label: string }[] = [
+	{ value: "new", label: "New" },
+	{ value: "fan-out", label: "Fan out" },
+	{ value: "existing", label: "Existing" },
+];
+
+/** Template select values that don't name a template */
+const DEFAULT_TEMPLATE_VALUE = "__default__";
+const NO_TEMPLATE_VALUE = "__none__";
+
+function toTemplateName(value: string): string | null | undefined {
+	if (value === DEFAULT_TEMPLATE_VALUE) return undefined;
+	if (value === NO_TEMPLATE_VALUE) return null;
+	return value;
+}
 
 export function NewWorkspaceModal() {
 	const isOpen = useNewWorkspaceModalOpen();
@@ -73,6 +90,7 @@ export function NewWorkspaceModal() {
 	const [baseBranchOpen, setBaseBranchOpen] = useState(false);
 	const [branchSearch, setBranchSearch] = useState("");
 	const [showAdvanced, setShowAdvanced] = useState(false);
+	const [templateValue, setTemplateValue] = useState(DEFAULT_TEMPLATE_VALUE);
 	const titleInputRef = useRef<HTMLInputElement>(null);
 
 	// Debounced title update to reduce re-renders from derived state calculations
@@ -104,6 +122,11 @@ export function NewWorkspaceModal() {
 		{ projectId: selectedProjectId ?? "" },
 		{ enabled: !!selectedProjectId },
 	);
+	const { data: templates = [] } = trpc.workspaces.listTemplates.useQuery(
+		{ projectId: selectedProjectId ?? "" },
+		{ enabled: !!selectedProjectId },
+	);
+	const defaultTemplate = templates.find((template) => template.isDefault);
 	const createWorkspace = useCreateWorkspace();
 
 	const currentProjectId = activeWorkspace?.projectId;
@@ -131,10 +154,11 @@ export function NewWorkspaceModal() {
 	// Effective base branch - use explicit selection or fall back to default
 	const effectiveBaseBranch = baseBranch ?? branchData?.defaultBranch ?? null;
 
-	// Reset base branch when project changes
+	// Reset base branch and template when project changes
 	// biome-ignore lint/correctness/useExhaustiveDependencies: intentionally reset when project changes
 	useEffect(() => {
 		setBaseBranch(null);
+		setTemplateValue(DEFAULT_TEMPLATE_VALUE);
 	}, [selectedProjectId]);
 
 	// Auto-generate branch name from title (unless manually edited)
@@ -154,6 +178,7 @@ export function NewWorkspaceModal() {
 		setBaseBranch(null);
 		setBranchSearch("");
 		setShowAdvanced(false);
+		setTemplateValue(DEFAULT_TEMPLATE_VALUE);
 	};
 
 	// Focus title input when modal opens and project is selected
@@ -203,6 +228,7 @@ export function NewWorkspaceModal() {
 				name: workspaceName,
 				branchName: customBranchName,
 				baseBranch: effectiveBaseBranch || undefined,
+				templateName: toTemplateName(templateValue),
 			});
 
 			// Close modal immediately - workspace appears in sidebar
@@ -257,28 +283,20 @@ export function NewWorkspaceModal() {
 					<>
 						<div className="px-4 pb-3">
 							<div className="flex p-0.5 bg-muted rounded-md">
-								<button
-									type="button"
-									onClick={() => setMode("new")}
-									className={`flex-1 px-3 py-1 text-xs font-medium rounded-sm transition-colors ${
-										mode === "new"
-											? "bg-background text-foreground shadow-sm"
-											: "text-muted-foreground hover:text-foreground"
-									}`}
-								>
-									New
-								</button>
-								<button
-									type="button"
-									onClick={() => setMode("existing")}
-									className={`flex-1 px-3 py-1 text-xs font-medium rounded-sm transition-colors ${
-										mode === "existing"
-											? "bg-background text-foreground shadow-sm"
-											: "text-muted-foreground hover:text-foreground"
-									}`}
-								>
-									Existing
-								</button>
+								{MODE_OPTIONS.map((option) => (
+									<button
+										key={option.value}
+										type="button"
+										onClick={() => setMode(option.value)}
+										className={`flex-1 px-3 py-1 text-xs font-medium rounded-sm transition-colors ${
+											mode === option.value
+												? "bg-background text-foreground shadow-sm"
+												: "text-muted-foreground hover:text-foreground"
+										}`}
+									>
+										{option.label}
+									</button>
+								))}
 							</div>
 						</div>
 
@@ -430,6 +448,40 @@ export function NewWorkspaceModal() {
 													</Popover>
 												)}
 											</div>
+
+											{templates.length > 0 && (
+												<div className="space-y-1.5">
+													<span className="text-xs text-muted-foreground">
+														Template
+													</span>
+													<Select
+														value={templateValue}
+														onValueChange={setTemplateValue}
+													>
+														<SelectTrigger className="w-full h-8 text-sm">
+															<SelectValue />
+														</SelectTrigger>
+														<SelectContent>
+															<SelectItem value={DEFAULT_TEMPLATE_VALUE}>
+																{defaultTemplate
+																	? `Default (${defaultTemplate.name})`
+																	: "Default (none)"}
+															</SelectItem>
+															<SelectItem value={NO_TEMPLATE_VALUE}>
+																None
+															</SelectItem>
+															{templates.map((template) => (
+																<SelectItem
+																	key={template.name}
+																	value={template.name}
+																>
+																	{template.name}
+																</SelectItem>
+															))}
+														</SelectContent>
+													</Select>
+												</div>
+											)}
 										</CollapsibleContent>
 									</Collapsible>
 
@@ -441,6 +493,11 @@ export function NewWorkspaceModal() {
 										Create Workspace
 									</Button>
 								</div>
+							) : mode === "fan-out" ? (
+								<FanOutForm
+									projectId={selectedProjectId}
+									onCreated={handleClose}
+								/>
 							) : (
 								<ExistingWorktreesList
 									projectId={selectedProjectId}
@@ -0,0 +1,149 @@
+import { Button } from "@superset/ui/button";
+import { Checkbox } from "@superset/ui/checkbox";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@superset/ui/select";
+import { toast } from "@superset/ui/sonner";
+import { Textarea } from "@superset/ui/textarea";
+import { useState } from "react";
+import { trpc } from "renderer/lib/trpc";
+import { useFanOut } from "renderer/react-query/workspaces";
+import { useOpenFanOut } from "renderer/stores/app-state";
+
+interface FanOutFormProps {
+	projectId: string;
+	onCreated: () => void;
+}
+
+export function FanOutForm({ projectId, onCreated }: FanOutFormProps) {
+	const [prompt, setPrompt] = useState("");
+	const [baseBranch, setBaseBranch] = useState<string | null>(null);
+	const [selectedPresetIds, setSelectedPresetIds] = useState<string[]>([]);
+	const { data: branchData } = trpc.projects.getBranches.useQuery({
+		projectId,
+	});
+	const { data: presets = [] } = trpc.settings.getTerminalPresets.useQuery();
+	const fanOut = useFanOut();
+	const openFanOut = useOpenFanOut();
+
+	const effectiveBaseBranch = baseBranch ?? branchData?.defaultBranch ?? null;
+	const agentPresets = presets.filter((preset) => preset.commands.length > 0);
+	const canSubmit =
+		prompt.trim().length > 0 &&
+		selectedPresetIds.length > 0 &&
+		!fanOut.isPending;
+
+	const togglePreset = (presetId: string, checked: boolean) => {
+		setSelectedPresetIds((ids) =>
+			checked ? [...ids, presetId] : ids.filter((id) => id !== presetId),
+		);
+	};
+
+	const handleFanOut = async () => {
+		if (!canSubmit) return;
+
+		try {
+			const result = await fanOut.mutateAsync({
+				projectId,
+				prompt: prompt.trim(),
+				baseBranch: effectiveBaseBranch || undefined,
+				presetIds: selectedPresetIds,
+			});
+			onCreated();
+			openFanOut(result.group.id);
+			const count = result.runs.length;
+			toast.success(
+				`Fanned out to ${count} ${count === 1 ? "workspace" : "workspaces"}`,
+				{
+					description: "Agents start once each workspace is set up",
+				},
+			);
+		} catch (err) {
+			toast.error(err instanceof Error ? err.message : "Failed to fan out");
+		}
+	};
+
+	return (
+		<div className="space-y-3">
+			<Textarea
+				className="min-h-20 text-sm"
+				placeholder="Prompt for every agent"
+				value={prompt}
+				onChange={(e) => setPrompt(e.target.value)}
+				onKeyDown={(e) => {
+					if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+						e.preventDefault();
+						handleFanOut();
+					}
+				}}
+			/>
+
+			<div className="space-y-1.5">
+				<span className="text-xs text-muted-foreground">Base branch</span>
+				<Select value={effectiveBaseBranch ?? ""} onValueChange={setBaseBranch}>
+					<SelectTrigger className="w-full h-8 text-sm font-mono">
+						<SelectValue placeholder="Select branch..." />
+					</SelectTrigger>
+					<SelectContent>
+						{branchData?.branches.map((branch) => (
+							<SelectItem key={branch.name} value={branch.name}>
+								{branch.name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+
+			<div className="space-y-1.5">
+				<span className="text-xs text-muted-foreground">
+					Agents (one workspace each)
+				</span>
+				{agentPresets.length === 0 ? (
+					<p className="text-xs text-muted-foreground">
+						Add a terminal preset that starts an agent to fan out
+					</p>
+				) : (
+					<div className="max-h-40 space-y-1 overflow-y-auto">
+						{agentPresets.map((preset) => (
+							<label
+								key={preset.id}
+								htmlFor={`fan-out-${preset.id}`}
+								className="flex items-center gap-2 rounded-sm px-1 py-1 text-sm hover:bg-accent/50"
+							>
+								<Checkbox
+									id={`fan-out-${preset.id}`}
+									checked={selectedPresetIds.includes(preset.id)}
+									onCheckedChange={(checked) =>
+										togglePreset(preset.id, checked === true)
+									}
+								/>
+								<span className="truncate">{preset.name}</span>
+								<span className="ml-auto truncate font-mono text-xs text-muted-foreground">
+									{preset.commands.at(-1)}
+								</span>
+							</label>
+						))}
+					</div>
+				)}
+				<p className="text-xs text-muted-foreground/60">
+					The prompt replaces {"{{prompt}}"} in a preset's commands, or is
+					appended to its last command
+				</p>
+			</div>
+
+			<Button
+				className="w-full h-8 text-sm"
+				onClick={handleFanOut}
+				disabled={!canSubmit}
+			>
+				{selectedPresetIds.length > 1
+					? `Fan Out to ${selectedPresetIds.length} Workspaces`
+					: "Fan Out"}
+			</Button>
+		</div>
+	);
+}
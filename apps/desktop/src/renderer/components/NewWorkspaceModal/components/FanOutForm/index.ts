@@ -0,0 +1 @@
+export { FanOutForm } from "./FanOutForm";
@@ -0,0 +1,213 @@
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@superset/ui/dialog";
+import { Input } from "@superset/ui/input";
+import { cn } from "@superset/ui/utils";
+import debounce from "lodash/debounce";
+import { useEffect, useMemo, useState } from "react";
+import { PiTextAa } from "react-icons/pi";
+import { trpc } from "renderer/lib/trpc";
+import { useSetActiveWorkspace } from "renderer/react-query/workspaces/useSetActiveWorkspace";
+import { useAppStore } from "renderer/stores/app-state";
+import { useTabsStore } from "renderer/stores/tabs/store";
+import {
+	type TerminalReveal,
+	useTerminalCallbacksStore,
+} from "renderer/stores/tabs/terminal-callbacks";
+import {
+	useTerminalOutputSearchOpen,
+	useTerminalOutputSearchStore,
+} from "renderer/stores/terminal-output-search";
+
+function HighlightedLine({
+	text,
+	column,
+	length,
+}: {
+	text: string;
+	column: number;
+	length: number;
+}) {
+	return (
+		<>
+			{text.slice(0, column)}
+			<mark className="rounded-sm bg-yellow-500/30 text-foreground">
+				{text.slice(column, column + length)}
+			</mark>
+			{text.slice(column + length)}
+		</>
+	);
+}
+
+/**
+ * Searches the output of every terminal in the active workspace, including
+ * panes in background tabs, and jumps to the picked line.
+ */
+export function TerminalOutputSearch() {
+	const isOpen = useTerminalOutputSearchOpen();
+	const setOpen = useTerminalOutputSearchStore((s) => s.setOpen);
+	const [input, setInput] = useState("");
+	const [query, setQuery] = useState("");
+	const [caseSensitive, setCaseSensitive] = useState(false);
+	const panes = useTabsStore((s) => s.panes);
+	const tabs = useTabsStore((s) => s.tabs);
+	const setActiveWorkspace = useSetActiveWorkspace();
+	const { data: activeWorkspace } = trpc.workspaces.getActive.useQuery();
+	const workspaceId = activeWorkspace?.id;
+
+	const debouncedSetQuery = useMemo(
+		() => debounce((value: string) => setQuery(value.trim()), 200),
+		[],
+	);
+
+	useEffect(() => {
+		return () => {
+			debouncedSetQuery.cancel();
+		};
+	}, [debouncedSetQuery]);
+
+	const { data: results = [], isFetching } =
+		trpc.terminal.searchWorkspace.useQuery(
+			{ workspaceId: workspaceId ?? "", query, caseSensitive },
+			{ enabled: isOpen && !!workspaceId && query.length > 0 },
+		);
+
+	const handleGoToMatch = (paneId: string, reveal: TerminalReveal) => {
+		const pane = panes[paneId];
+		if (!pane || !workspaceId) return;
+		setOpen(false);
+
+		const appState = useAppStore.getState();
+		if (appState.currentView !== "workspace") {
+			appState.setView("workspace");
+		}
+
+		useTerminalCallbacksStore.getState().requestReveal(paneId, reveal);
+		setActiveWorkspace.mutate(
+			{ id: workspaceId },
+			{
+				onSuccess: () => {
+					const state = useTabsStore.getState();
+					if (!state.panes[paneId]) return;
+					state.setActiveTab(workspaceId, pane.tabId);
+					state.setFocusedPane(pane.tabId, paneId);
+				},
+			},
+		);
+	};
+
+	const matchCount = results.reduce(
+		(count, result) => count + result.matches.length,
+		0,
+	);
+
+	return (
+		<Dialog open={isOpen} onOpenChange={setOpen}>
+			<DialogContent className="max-w-3xl">
+				<DialogHeader>
+					<DialogTitle>Search Terminals</DialogTitle>
+					<DialogDescription>
+						Output of every terminal in{" "}
+						{activeWorkspace?.name ?? "this workspace"}
+					</DialogDescription>
+				</DialogHeader>
+				<div className="flex items-center gap-2">
+					<Input
+						autoFocus
+						value={input}
+						placeholder="Search output"
+						onChange={(e) => {
+							setInput(e.target.value);
+							debouncedSetQuery(e.target.value);
+						}}
+					/>
+					<button
+						type="button"
+						title="Match case"
+						onClick={() => setCaseSensitive((prev) => !prev)}
+						className={cn(
+							"rounded p-2 transition-colors",
+							caseSensitive
+								? "bg-primary/20 text-foreground"
+								: "text-muted-foreground hover:bg-muted-foreground/20 hover:text-foreground",
+						)}
+					>
+						<PiTextAa className="size-4" />
+					</button>
+				</div>
+				<div className="flex max-h-[60vh] flex-col gap-3 overflow-y-auto">
+					{query && !isFetching && matchCount === 0 && (
+						<p className="py-6 text-center text-sm text-muted-foreground">
+							No matches
+						</p>
+					)}
+					{results.map((result) => {
+						const pane = panes[result.paneId];
+						const tab = tabs.find((t) => t.id === pane?.tabId);
+						return (
+							<div key={result.paneId} className="flex flex-col gap-1">
+								<div className="flex items-center gap-2 text-xs font-medium">
+									<span className="truncate">{pane?.name ?? "Terminal"}</span>
+									{tab && (
+										<span className="truncate text-muted-foreground">
+											{tab.userTitle ?? tab.name}
+										</span>
+									)}
+									<span className="ml-auto text-muted-foreground">
+										{result.matches.length}
+										{result.truncated ? "+" : ""}
+									</span>
+								</div>
+								{result.matches.map((match) => (
+									<button
+										key={match.row}
+										type="button"
+										onClick={() =>
+											handleGoToMatch(result.paneId, {
+												row: match.row,
+												column: match.column,
+												length: query.length,
+												text: match.text,
+											})
+										}
+										className="rounded-md bg-muted/50 px-2 py-1 text-left font-mono text-xs hover:bg-accent"
+									>
+										{match.before.map((line, index) => (
+											<div
+												// biome-ignore lint/suspicious/noArrayIndexKey: context lines have no identity
+												key={index}
+												className="truncate whitespace-pre text-muted-foreground"
+											>
+												{line || " "}
+											</div>
+										))}
+										<div className="truncate whitespace-pre">
+											<HighlightedLine
+												text={match.text}
+												column={match.column}
+												length={query.length}
+											/>
+										</div>
+										{match.after.map((line, index) => (
+											<div
+												// biome-ignore lint/suspicious/noArrayIndexKey: context lines have no identity
+												key={index}
+												className="truncate whitespace-pre text-muted-foreground"
+											>
+												{line || " "}
+											</div>
+										))}
+									</button>
+								))}
+							</div>
+						);
+					})}
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1 @@
+export { TerminalOutputSearch } from "./TerminalOutputSearch";
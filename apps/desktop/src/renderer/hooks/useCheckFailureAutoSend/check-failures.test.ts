@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+import { formatCheckFailurePrompt, getFailureKey } from "./check-failures";
+
+describe("getFailureKey", () => {
+	test("keys only failing checks, independent of order", () => {
+		const key = getFailureKey([
+			{ name: "lint", status: "failure", url: "https://ci/2" },
+			{ name: "build", status: "success", url: "https://ci/3" },
+			{ name: "test", status: "failure", url: "https://ci/1" },
+		]);
+
+		expect(key).toBe("https://ci/1\nhttps://ci/2");
+		expect(
+			getFailureKey([
+				{ name: "test", status: "failure", url: "https://ci/1" },
+				{ name: "lint", status: "failure", url: "https://ci/2" },
+			]),
+		).toBe(key);
+	});
+
+	test("falls back to the name and is empty without failures", () => {
+		expect(getFailureKey([{ name: "external", status: "failure" }])).toBe(
+			"external",
+		);
+		expect(getFailureKey([{ name: "test", status: "pending" }])).toBe("");
+	});
+});
+
+describe("formatCheckFailurePrompt", () => {
+	test("includes each check's excerpt", () => {
+		const prompt = formatCheckFailurePrompt([
+			{
+				name: "test",
+				jobId: "1",
+				log: "full",
+				excerpt: "Error: expected 1",
+			},
+			{ name: "deploy", jobId: null, log: null, excerpt: null },
+		]);
+
+		expect(prompt).toStartWith("Fix the failure in these CI checks");
+		expect(prompt).toContain("## test\n\n```\nError: expected 1\n```");
+		expect(prompt).toContain("## deploy\n\n```\n(log unavailable)\n```");
+	});
+
+	test("words a single check in the singular", () => {
+		expect(
+			formatCheckFailurePrompt([
+				{ name: "lint", jobId: "2", log: "x", excerpt: "x" },
+			]),
+		).toStartWith("Fix the failure in this CI check on the pull request:");
+	});
+});
@@ -0,0 +1,28 @@
+import type { CheckItem } from "@superset/local-db";
+import type { FailedCheckLog } from "shared/types";
+
+/**
+ * Identifies a set of failing checks. Re-runs get new job URLs, so the key
+ * changes whenever checks fail again, even with the same names.
+ */
+export function getFailureKey(checks: CheckItem[]): string {
+	return checks
+		.filter((check) => check.status === "failure")
+		.map((check) => check.url ?? check.name)
+		.sort()
+		.join("\n");
+}
+
+/** Turns failing checks into a prompt asking the agent to fix them */
+export function formatCheckFailurePrompt(checks: FailedCheckLog[]): string {
+	const sections = checks.map((check) => {
+		const output = check.excerpt ?? "(log unavailable)";
+		return [`## ${check.name}`, "", "```", output, "```"].join("\n");
+	});
+	const subject = checks.length === 1 ? "this CI check" : "these CI checks";
+	return [
+		`Fix the failure in ${subject} on the pull request:`,
+		"",
+		...sections,
+	].join("\n");
+}
@@ -0,0 +1,2 @@
+export { formatCheckFailurePrompt, getFailureKey } from "./check-failures";
+export { useCheckFailureAutoSend } from "./useCheckFailureAutoSend";
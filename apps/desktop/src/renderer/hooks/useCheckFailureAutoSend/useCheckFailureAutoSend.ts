@@ -0,0 +1,74 @@
+import { useEffect } from "react";
+import { useSendToAgent } from "renderer/hooks/useSendToAgent";
+import { trpc } from "renderer/lib/trpc";
+import { useTabsStore } from "renderer/stores/tabs/store";
+import type { Pane } from "renderer/stores/tabs/types";
+import { formatCheckFailurePrompt, getFailureKey } from "./check-failures";
+
+const STATUS_POLL_INTERVAL_MS = 30_000;
+
+/**
+ * Hook that sends new CI failures to the workspace's agent for every check
+ * logs pane with auto-send on, and submits them. Runs at the app level so it
+ * keeps polling while the pane's tab or workspace isn't shown.
+ */
+export function useCheckFailureAutoSend() {
+	const utils = trpc.useUtils();
+	const sendToAgent = useSendToAgent();
+
+	useEffect(() => {
+		let isPolling = false;
+
+		const poll = async () => {
+			if (isPolling) return;
+			isPolling = true;
+
+			try {
+				const { panes } = useTabsStore.getState();
+				const panesByWorkspace = new Map<string, Pane[]>();
+				for (const pane of Object.values(panes)) {
+					if (!pane.checkLogs?.autoSend) continue;
+					const { workspaceId } = pane.checkLogs;
+					panesByWorkspace.set(workspaceId, [
+						...(panesByWorkspace.get(workspaceId) ?? []),
+						pane,
+					]);
+				}
+
+				for (const [workspaceId, watchingPanes] of panesByWorkspace) {
+					const status = await utils.workspaces.getGitHubStatus.fetch({
+						workspaceId,
+					});
+					const failureKey = getFailureKey(status?.pr?.checks ?? []);
+					const isNew = watchingPanes.some(
+						(pane) => pane.checkLogs?.lastAutoSentFailure !== failureKey,
+					);
+					if (!failureKey || !isNew) continue;
+
+					// Record first so a failed send isn't retried every poll
+					const { updateCheckLogsState } = useTabsStore.getState();
+					for (const pane of watchingPanes) {
+						updateCheckLogsState(pane.id, { lastAutoSentFailure: failureKey });
+					}
+
+					const failed = await utils.workspaces.getCheckLogs.fetch({
+						workspaceId,
+					});
+					if (failed.length > 0) {
+						await sendToAgent(workspaceId, formatCheckFailurePrompt(failed), {
+							submit: true,
+							focus: false,
+						});
+					}
+				}
+			} catch (error) {
+				console.error("[check-logs] Auto-send poll failed:", error);
+			} finally {
+				isPolling = false;
+			}
+		};
+
+		const interval = setInterval(() => void poll(), STATUS_POLL_INTERVAL_MS);
+		return () => clearInterval(interval);
+	}, [utils, sendToAgent]);
+}
@@ -0,0 +1,30 @@
+import { describe, expect, test } from "bun:test";
+import { pickAgentPaneId, toBracketedPaste } from "./agent-pane";
+
+describe("pickAgentPaneId", () => {
+	const activity = [
+		{ paneId: "a", segments: [{ start: 10 }, { start: 50 }] },
+		{ paneId: "b", segments: [{ start: 30 }] },
+	];
+
+	test("picks the pane with the latest agent activity", () => {
+		expect(pickAgentPaneId(activity, new Set(["a", "b"]))).toBe("a");
+	});
+
+	test("skips panes that are no longer open", () => {
+		expect(pickAgentPaneId(activity, new Set(["b"]))).toBe("b");
+		expect(pickAgentPaneId(activity, new Set(["c"]))).toBeNull();
+	});
+});
+
+describe("toBracketedPaste", () => {
+	test("wraps multi-line text in paste markers", () => {
+		expect(toBracketedPaste("a\nb")).toBe("\x1b[200~a\nb\x1b[201~");
+	});
+
+	test("strips sequences that would end the paste early", () => {
+		expect(toBracketedPaste("ok\x1b[201~\rrm -rf ~\x9b201~")).toBe(
+			"\x1b[200~okrm -rf ~201~\x1b[201~",
+		);
+	});
+});
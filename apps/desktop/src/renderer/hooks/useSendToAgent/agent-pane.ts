@@ -0,0 +1,35 @@
+import { stripControlCharacters } from "shared/control-characters";
+
+/** Agent activity per pane, as returned by agentTimeline.getWorkspaceTimeline */
+interface AgentPaneActivity {
+	paneId: string;
+	segments: { start: number }[];
+}
+
+/**
+ * The open terminal pane an agent ran in most recently, or null when no open
+ * pane has agent activity.
+ */
+export function pickAgentPaneId(
+	activity: AgentPaneActivity[],
+	openTerminalPaneIds: Set<string>,
+): string | null {
+	let latest: { paneId: string; start: number } | null = null;
+	for (const pane of activity) {
+		if (!openTerminalPaneIds.has(pane.paneId)) continue;
+		const start = pane.segments[pane.segments.length - 1]?.start ?? 0;
+		if (!latest || start > latest.start) {
+			latest = { paneId: pane.paneId, start };
+		}
+	}
+	return latest?.paneId ?? null;
+}
+
+/**
+ * Wraps text in bracketed paste markers so the agent's input box takes it as
+ * one paste instead of submitting at the first newline. Control characters
+ * are stripped first so the text can't end the paste itself.
+ */
+export function toBracketedPaste(text: string): string {
+	return `\x1b[200~${stripControlCharacters(text)}\x1b[201~`;
+}
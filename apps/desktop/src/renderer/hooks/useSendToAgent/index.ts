@@ -0,0 +1 @@
+export { useSendToAgent } from "./useSendToAgent";
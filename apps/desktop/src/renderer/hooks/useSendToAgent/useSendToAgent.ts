@@ -0,0 +1,75 @@
+import { toast } from "@superset/ui/sonner";
+import { useCallback } from "react";
+import { trpc } from "renderer/lib/trpc";
+import { useTabsStore } from "renderer/stores/tabs/store";
+import { pickAgentPaneId, toBracketedPaste } from "./agent-pane";
+
+interface SendToAgentOptions {
+	/** Press Enter after pasting instead of leaving the prompt to edit */
+	submit?: boolean;
+	/** Switch to the agent's pane (default true) */
+	focus?: boolean;
+}
+
+/**
+ * Returns a function that pastes a prompt into a workspace's agent terminal
+ * (the open pane an agent ran in last) and focuses it. By default the prompt
+ * is pasted, not submitted, so it can be edited first. Resolves to whether
+ * the prompt was sent.
+ */
+export function useSendToAgent() {
+	const utils = trpc.useUtils();
+	const writeMutation = trpc.terminal.write.useMutation();
+
+	return useCallback(
+		async (
+			workspaceId: string,
+			prompt: string,
+			{ submit = false, focus = true }: SendToAgentOptions = {},
+		): Promise<boolean> => {
+			const { panes, tabs, setActiveTab, setFocusedPane } =
+				useTabsStore.getState();
+			const workspaceTabIds = new Set(
+				tabs.filter((t) => t.workspaceId === workspaceId).map((t) => t.id),
+			);
+			const openTerminalPaneIds = new Set(
+				Object.values(panes)
+					.filter((p) => p.type === "terminal" && workspaceTabIds.has(p.tabId))
+					.map((p) => p.id),
+			);
+
+			const timeline = await utils.agentTimeline.getWorkspaceTimeline.fetch({
+				workspaceId,
+			});
+			const agentPaneId = pickAgentPaneId(timeline.panes, openTerminalPaneIds);
+			const agentPane = agentPaneId ? panes[agentPaneId] : undefined;
+			if (!agentPane) {
+				toast.error("No agent terminal is open in this workspace");
+				return false;
+			}
+
+			try {
+				await writeMutation.mutateAsync({
+					paneId: agentPane.id,
+					data: toBracketedPaste(prompt),
+				});
+				// Sent separately so the agent sees Enter as a keypress, not
+				// part of the paste
+				if (submit) {
+					await writeMutation.mutateAsync({ paneId: agentPane.id, data: "\r" });
+				}
+			} catch (error) {
+				toast.error(
+					`Failed to send to agent: ${error instanceof Error ? error.message : String(error)}`,
+				);
+				return false;
+			}
+			if (focus) {
+				setActiveTab(workspaceId, agentPane.tabId);
+				setFocusedPane(agentPane.tabId, agentPane.id);
+			}
+			return true;
+		},
+		[utils, writeMutation.mutateAsync],
+	);
+}
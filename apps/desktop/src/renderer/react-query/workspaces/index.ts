@@ -3,6 +3,7 @@ export { useCreateBranchWorkspace } from "./useCreateBranchWorkspace";
 export { useCreateWorkspace } from "./useCreateWorkspace";
 export { useDeleteWorkspace } from "./useDeleteWorkspace";
 export { useDeleteWorktree } from "./useDeleteWorktree";
+export { useFanOut } from "./useFanOut";
 export { useOpenWorktree } from "./useOpenWorktree";
 export { useReorderWorkspaces } from "./useReorderWorkspaces";
 export { useSetActiveWorkspace } from "./useSetActiveWorkspace";
@@ -7,7 +7,8 @@ import { useWorkspaceInitStore } from "renderer/stores/workspace-init";
  *
  * For worktree workspaces with async initialization:
  * - Returns immediately after workspace record is created
- * - Terminal tab is created by WorkspaceInitEffects when initialization completes
+ * - Terminal tab (and the workspace template's tabs, if any) are created by
+ *   WorkspaceInitEffects when initialization completes
  *
  * For branch workspaces (no async init):
  * - Terminal setup is triggered immediately via WorkspaceInitEffects
@@ -35,6 +36,7 @@ export function useCreateWorkspace(
 				workspaceId: data.workspace.id,
 				projectId: data.projectId,
 				initialCommands: data.initialCommands,
+				template: data.template,
 			});
 
 			// Handle race condition: if init already completed before we added to pending,
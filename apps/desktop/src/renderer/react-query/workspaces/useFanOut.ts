@@ -0,0 +1,37 @@
+import { trpc } from "renderer/lib/trpc";
+import { useWorkspaceInitStore } from "renderer/stores/workspace-init";
+
+/**
+ * Mutation hook for fanning a prompt out across several new workspaces.
+ *
+ * Like useCreateWorkspace, each workspace is queued in the pending setup store;
+ * WorkspaceInitEffects runs the setup script and starts the workspace's agent
+ * in its own tab once initialization completes.
+ */
+export function useFanOut(
+	options?: Parameters<typeof trpc.workspaces.fanOut.useMutation>[0],
+) {
+	const utils = trpc.useUtils();
+	const addPendingTerminalSetup = useWorkspaceInitStore(
+		(s) => s.addPendingTerminalSetup,
+	);
+
+	return trpc.workspaces.fanOut.useMutation({
+		...options,
+		onSuccess: async (data, ...rest) => {
+			await utils.workspaces.invalidate();
+
+			for (const run of data.runs) {
+				addPendingTerminalSetup({
+					workspaceId: run.workspace.id,
+					projectId: data.projectId,
+					initialCommands: data.initialCommands,
+					template: null,
+					agent: run.agent,
+				});
+			}
+
+			await options?.onSuccess?.(data, ...rest);
+		},
+	});
+}
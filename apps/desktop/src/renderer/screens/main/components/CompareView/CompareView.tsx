@@ -0,0 +1,165 @@
+import { Button } from "@superset/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger,
+} from "@superset/ui/dropdown-menu";
+import { useState } from "react";
+import { LuPlus, LuX } from "react-icons/lu";
+import { trpc } from "renderer/lib/trpc";
+import {
+	useCloseCompare,
+	useCompareWorkspaceIds,
+	useSetCompareWorkspaceIds,
+} from "renderer/stores/app-state";
+import { ComparedFileDiffs } from "./ComparedFileDiffs";
+import { ComparedFileList } from "./ComparedFileList";
+
+/**
+ * Side-by-side comparison of what competing workspaces changed since the
+ * base branch they share, with per-file diffs and cherry-picking.
+ */
+export function CompareView() {
+	const workspaceIds = useCompareWorkspaceIds();
+	const setWorkspaceIds = useSetCompareWorkspaceIds();
+	const closeCompare = useCloseCompare();
+	const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+	const { data: comparable = [] } =
+		trpc.changes.getComparableWorkspaces.useQuery(
+			{ workspaceId: workspaceIds[0] ?? "" },
+			{ enabled: workspaceIds.length > 0 },
+		);
+	const { data: comparison, error } =
+		trpc.changes.getWorkspaceComparison.useQuery(
+			{ workspaceIds },
+			{ enabled: workspaceIds.length >= 2 },
+		);
+
+	const addable = comparable.filter(
+		(workspace) => !workspaceIds.includes(workspace.id),
+	);
+	const files = comparison?.files ?? [];
+	const activePath =
+		selectedPath && files.some((file) => file.path === selectedPath)
+			? selectedPath
+			: (files[0]?.path ?? null);
+
+	const renderBody = () => {
+		if (workspaceIds.length < 2) {
+			return (
+				<div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+					Add another workspace from the same base branch to compare
+				</div>
+			);
+		}
+		if (error) {
+			return (
+				<div className="flex flex-1 items-center justify-center text-sm text-destructive">
+					{error.message}
+				</div>
+			);
+		}
+		if (!comparison) {
+			return null;
+		}
+		return (
+			<div className="flex min-h-0 flex-1">
+				<div className="w-72 shrink-0 overflow-y-auto border-r border-border/50">
+					<ComparedFileList
+						files={files}
+						workspaces={comparison.workspaces}
+						selectedPath={activePath}
+						onSelect={setSelectedPath}
+					/>
+				</div>
+				<div className="min-w-0 flex-1">
+					{activePath && (
+						<ComparedFileDiffs
+							workspaces={comparison.workspaces}
+							baseBranch={comparison.baseBranch}
+							filePath={activePath}
+						/>
+					)}
+				</div>
+			</div>
+		);
+	};
+
+	return (
+		<div className="flex-1 flex flex-col bg-card overflow-hidden">
+			<div className="flex items-center gap-2 px-4 py-2 border-b border-border/50">
+				<div className="flex min-w-0 flex-1 flex-wrap items-center gap-1.5">
+					<span className="mr-1 text-sm font-medium">Compare</span>
+					{workspaceIds.map((workspaceId) => {
+						const workspace = comparable.find((w) => w.id === workspaceId);
+						return (
+							<span
+								key={workspaceId}
+								className="flex items-center gap-1 rounded-sm bg-muted py-0.5 pl-2 pr-1 text-xs"
+							>
+								<span className="max-w-40 truncate">
+									{workspace?.name ?? "Workspace"}
+								</span>
+								<button
+									type="button"
+									aria-label="Remove from comparison"
+									onClick={() =>
+										setWorkspaceIds(
+											workspaceIds.filter((id) => id !== workspaceId),
+										)
+									}
+									className="text-muted-foreground hover:text-foreground"
+								>
+									<LuX className="size-3" />
+								</button>
+							</span>
+						);
+					})}
+					{addable.length > 0 && (
+						<DropdownMenu>
+							<DropdownMenuTrigger asChild>
+								<Button variant="ghost" size="sm" className="h-6 gap-1 text-xs">
+									<LuPlus className="size-3" />
+									Add
+								</Button>
+							</DropdownMenuTrigger>
+							<DropdownMenuContent align="start" className="text-xs">
+								{addable.map((workspace) => (
+									<DropdownMenuItem
+										key={workspace.id}
+										className="text-xs"
+										onClick={() =>
+											setWorkspaceIds([...workspaceIds, workspace.id])
+										}
+									>
+										<span className="truncate">{workspace.name}</span>
+										<span className="ml-2 truncate font-mono text-muted-foreground">
+											{workspace.branch}
+										</span>
+									</DropdownMenuItem>
+								))}
+							</DropdownMenuContent>
+						</DropdownMenu>
+					)}
+					{comparison && (
+						<span className="text-xs text-muted-foreground">
+							from <span className="font-mono">{comparison.baseBranch}</span>
+						</span>
+					)}
+				</div>
+				<Button
+					variant="ghost"
+					size="icon"
+					onClick={closeCompare}
+					className="size-7 text-foreground/60 hover:text-foreground shrink-0"
+				>
+					<LuX className="size-4" />
+				</Button>
+			</div>
+
+			{renderBody()}
+		</div>
+	);
+}
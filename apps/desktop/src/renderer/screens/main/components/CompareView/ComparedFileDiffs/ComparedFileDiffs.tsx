@@ -0,0 +1,248 @@
+import {
+	AlertDialog,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@superset/ui/alert-dialog";
+import { Button } from "@superset/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger,
+} from "@superset/ui/dropdown-menu";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@superset/ui/select";
+import { toast } from "@superset/ui/sonner";
+import { useState } from "react";
+import { HiChevronDown } from "react-icons/hi2";
+import { LuLoader } from "react-icons/lu";
+import { trpc } from "renderer/lib/trpc";
+import { DiffViewer } from "renderer/screens/main/components/WorkspaceView/ContentView/ChangesContent/components/DiffViewer";
+import type { ComparedWorkspace } from "shared/changes-types";
+
+const BASE_REFERENCE = "base";
+
+interface ComparedFileDiffsProps {
+	workspaces: ComparedWorkspace[];
+	baseBranch: string;
+	filePath: string;
+}
+
+/**
+ * One diff per workspace against a shared reference: the base branch by
+ * default (an N-way view), or one of the workspaces to see how the others
+ * differ from it.
+ */
+export function ComparedFileDiffs({
+	workspaces,
+	baseBranch,
+	filePath,
+}: ComparedFileDiffsProps) {
+	const [reference, setReference] = useState(BASE_REFERENCE);
+	const utils = trpc.useUtils();
+	const workspaceIds = workspaces.map((workspace) => workspace.workspaceId);
+	const { data, isLoading } = trpc.changes.getComparedFileVersions.useQuery({
+		workspaceIds,
+		filePath,
+	});
+
+	const [pendingOverwrite, setPendingOverwrite] = useState<{
+		sourceWorkspaceId: string;
+		targetWorkspaceId: string;
+	} | null>(null);
+
+	const cherryPick = trpc.changes.cherryPickFile.useMutation({
+		onSuccess: (result, variables) => {
+			const target = workspaces.find(
+				(workspace) => workspace.workspaceId === variables.targetWorkspaceId,
+			);
+			if (result.hasLocalChanges) {
+				setPendingOverwrite({
+					sourceWorkspaceId: variables.sourceWorkspaceId,
+					targetWorkspaceId: variables.targetWorkspaceId,
+				});
+				return;
+			}
+			toast.success(`Copied ${filePath} into ${target?.name ?? "workspace"}`);
+			utils.changes.getWorkspaceComparison.invalidate();
+			utils.changes.getComparedFileVersions.invalidate();
+			utils.changes.getStatus.invalidate();
+		},
+		onError: (error) => {
+			toast.error(`Failed to copy file: ${error.message}`);
+		},
+	});
+
+	const overwriteTargetName = workspaces.find(
+		(workspace) =>
+			workspace.workspaceId === pendingOverwrite?.targetWorkspaceId,
+	)?.name;
+
+	const referenceVersion = data?.versions.find(
+		(version) => version.workspaceId === reference,
+	);
+	const original = referenceVersion ? referenceVersion.content : data?.base;
+	const versions =
+		data?.versions.filter((version) => version.workspaceId !== reference) ?? [];
+
+	return (
+		<div className="flex h-full flex-col">
+			<div className="flex items-center gap-2 border-b border-border/50 px-3 py-2">
+				<span className="min-w-0 flex-1 truncate font-mono text-xs">
+					{filePath}
+				</span>
+				<span className="text-xs text-muted-foreground">Compare against</span>
+				<Select value={reference} onValueChange={setReference}>
+					<SelectTrigger className="h-7 w-48 text-xs">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={BASE_REFERENCE} className="text-xs">
+							{baseBranch} (base)
+						</SelectItem>
+						{workspaces.map((workspace) => (
+							<SelectItem
+								key={workspace.workspaceId}
+								value={workspace.workspaceId}
+								className="text-xs"
+							>
+								{workspace.name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+
+			{isLoading || !data ? (
+				<div className="flex flex-1 items-center justify-center text-muted-foreground">
+					<LuLoader className="mr-2 size-4 animate-spin" />
+					<span className="text-sm">Loading file...</span>
+				</div>
+			) : (
+				<div className="flex-1 space-y-3 overflow-y-auto p-3">
+					{versions.map((version) => {
+						const workspace = workspaces.find(
+							(w) => w.workspaceId === version.workspaceId,
+						);
+						const targets = workspaces.filter(
+							(w) => w.workspaceId !== version.workspaceId,
+						);
+
+						return (
+							<section
+								key={version.workspaceId}
+								className="overflow-hidden rounded-md border border-border/50"
+							>
+								<div className="flex items-center gap-2 bg-muted/50 px-3 py-1.5">
+									<span className="truncate text-sm font-medium">
+										{workspace?.name}
+									</span>
+									<span className="truncate font-mono text-xs text-muted-foreground">
+										{workspace?.branch}
+									</span>
+									{!version.exists && (
+										<span className="text-xs text-red-600 dark:text-red-400">
+											deleted
+										</span>
+									)}
+									<DropdownMenu>
+										<DropdownMenuTrigger asChild>
+											<Button
+												variant="ghost"
+												size="sm"
+												className="ml-auto h-6 gap-1 text-xs"
+												disabled={cherryPick.isPending}
+											>
+												Use this version in
+												<HiChevronDown className="size-3" />
+											</Button>
+										</DropdownMenuTrigger>
+										<DropdownMenuContent align="end" className="text-xs">
+											{targets.map((target) => (
+												<DropdownMenuItem
+													key={target.workspaceId}
+													className="text-xs"
+													onClick={() =>
+														cherryPick.mutate({
+															sourceWorkspaceId: version.workspaceId,
+															targetWorkspaceId: target.workspaceId,
+															filePath,
+														})
+													}
+												>
+													{target.name}
+												</DropdownMenuItem>
+											))}
+										</DropdownMenuContent>
+									</DropdownMenu>
+								</div>
+								<div className="h-96">
+									<DiffViewer
+										contents={{
+											original: original ?? "",
+											modified: version.content,
+											language: data.language,
+										}}
+										viewMode="side-by-side"
+										filePath={filePath}
+									/>
+								</div>
+							</section>
+						);
+					})}
+				</div>
+			)}
+			<AlertDialog
+				open={pendingOverwrite !== null}
+				onOpenChange={(open) => !open && setPendingOverwrite(null)}
+			>
+				<AlertDialogContent className="max-w-[340px] gap-0 p-0">
+					<AlertDialogHeader className="px-4 pt-4 pb-2">
+						<AlertDialogTitle className="font-medium">
+							Overwrite uncommitted changes?
+						</AlertDialogTitle>
+						<AlertDialogDescription>
+							{filePath} has uncommitted changes in{" "}
+							{overwriteTargetName ?? "the target workspace"}. They will be
+							lost.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter className="px-4 pb-4 pt-2 flex-row justify-end gap-2">
+						<Button
+							variant="ghost"
+							size="sm"
+							className="h-7 px-3 text-xs"
+							onClick={() => setPendingOverwrite(null)}
+						>
+							Cancel
+						</Button>
+						<Button
+							variant="destructive"
+							size="sm"
+							className="h-7 px-3 text-xs"
+							onClick={() => {
+								if (!pendingOverwrite) return;
+								cherryPick.mutate({
+									...pendingOverwrite,
+									filePath,
+									overwriteLocalChanges: true,
+								});
+								setPendingOverwrite(null);
+							}}
+						>
+							Overwrite
+						</Button>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</div>
+	);
+}
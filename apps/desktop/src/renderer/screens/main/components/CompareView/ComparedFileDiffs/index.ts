@@ -0,0 +1 @@
+export { ComparedFileDiffs } from "./ComparedFileDiffs";
@@ -0,0 +1,78 @@
+import { cn } from "@superset/ui/utils";
+import {
+	getStatusColor,
+	getStatusIndicator,
+} from "renderer/screens/main/components/WorkspaceView/Sidebar/ChangesView/utils";
+import type { ComparedFile, ComparedWorkspace } from "shared/changes-types";
+
+interface ComparedFileListProps {
+	files: ComparedFile[];
+	workspaces: ComparedWorkspace[];
+	selectedPath: string | null;
+	onSelect: (path: string) => void;
+}
+
+/**
+ * Files changed by any compared workspace, with who touched each one.
+ * Files touched by several workspaces come first - that's where they compete.
+ */
+export function ComparedFileList({
+	files,
+	workspaces,
+	selectedPath,
+	onSelect,
+}: ComparedFileListProps) {
+	const workspaceNames = new Map(
+		workspaces.map((workspace) => [workspace.workspaceId, workspace.name]),
+	);
+
+	if (files.length === 0) {
+		return (
+			<div className="px-3 py-6 text-center text-xs text-muted-foreground">
+				No changes since the base branch
+			</div>
+		);
+	}
+
+	return (
+		<div className="flex flex-col">
+			{files.map((file) => (
+				<button
+					key={file.path}
+					type="button"
+					onClick={() => onSelect(file.path)}
+					className={cn(
+						"flex flex-col gap-1 px-3 py-1.5 text-left hover:bg-accent/50",
+						selectedPath === file.path && "bg-accent",
+					)}
+				>
+					<span className="truncate font-mono text-xs" title={file.path}>
+						{file.path}
+					</span>
+					<div className="flex flex-wrap gap-1">
+						{file.changes.map((change) => (
+							<span
+								key={change.workspaceId}
+								className={cn(
+									"flex items-center gap-1 rounded-sm bg-muted px-1 text-[10px]",
+									getStatusColor(change.status),
+								)}
+							>
+								{getStatusIndicator(change.status)}
+								<span className="max-w-24 truncate text-foreground/80">
+									{workspaceNames.get(change.workspaceId)}
+								</span>
+								<span className="text-green-600 dark:text-green-400">
+									+{change.additions}
+								</span>
+								<span className="text-red-600 dark:text-red-400">
+									-{change.deletions}
+								</span>
+							</span>
+						))}
+					</div>
+				</button>
+			))}
+		</div>
+	);
+}
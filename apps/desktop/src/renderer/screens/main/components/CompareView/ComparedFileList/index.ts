@@ -0,0 +1 @@
+export { ComparedFileList } from "./ComparedFileList";
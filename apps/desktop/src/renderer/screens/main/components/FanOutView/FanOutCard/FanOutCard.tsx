@@ -0,0 +1,122 @@
+import { Button } from "@superset/ui/button";
+import { cn } from "@superset/ui/utils";
+import { useMemo } from "react";
+import { GoGitBranch } from "react-icons/go";
+import { trpc } from "renderer/lib/trpc";
+import { AsciiSpinner } from "renderer/screens/main/components/AsciiSpinner";
+import { StatusIndicator } from "renderer/screens/main/components/StatusIndicator";
+import { useTabsStore } from "renderer/stores/tabs/store";
+import { extractPaneIdsFromLayout } from "renderer/stores/tabs/utils";
+import { useWorkspaceInitProgress } from "renderer/stores/workspace-init";
+import { getHighestPriorityStatus } from "shared/tabs-types";
+
+/** Diff stats are recomputed in git, so poll gently while agents work */
+const DIFF_STATS_REFETCH_INTERVAL = 10_000;
+
+const STATUS_LABELS = {
+	working: "Working",
+	permission: "Needs input",
+	review: "Ready for review",
+} as const;
+
+interface FanOutCardProps {
+	workspaceId: string;
+	agent: string;
+	branch: string;
+	onOpen: () => void;
+}
+
+export function FanOutCard({
+	workspaceId,
+	agent,
+	branch,
+	onOpen,
+}: FanOutCardProps) {
+	const tabs = useTabsStore((s) => s.tabs);
+	const panes = useTabsStore((s) => s.panes);
+	const initProgress = useWorkspaceInitProgress(workspaceId);
+	const { data: diffStats } = trpc.workspaces.getDiffStats.useQuery(
+		{ workspaceId },
+		{ refetchInterval: DIFF_STATS_REFETCH_INTERVAL },
+	);
+
+	// Same aggregation as the sidebar's workspace status
+	const status = useMemo(() => {
+		function* paneStatuses() {
+			for (const tab of tabs) {
+				if (tab.workspaceId !== workspaceId) continue;
+				for (const paneId of extractPaneIdsFromLayout(tab.layout)) {
+					yield panes[paneId]?.status;
+				}
+			}
+		}
+		return getHighestPriorityStatus(paneStatuses());
+	}, [tabs, panes, workspaceId]);
+
+	const isInitializing =
+		initProgress !== undefined &&
+		initProgress.step !== "ready" &&
+		initProgress.step !== "failed";
+	const hasFailed = initProgress?.step === "failed";
+
+	return (
+		<div className="flex flex-col gap-3 rounded-lg border border-border/50 bg-background/50 p-3">
+			<div className="flex items-center justify-between gap-2">
+				<span className="truncate text-sm font-medium">{agent}</span>
+				<Button
+					variant="outline"
+					size="sm"
+					className="h-6 px-2 text-xs"
+					onClick={onOpen}
+				>
+					Open
+				</Button>
+			</div>
+
+			<span className="flex items-center gap-1.5 truncate text-xs text-muted-foreground">
+				<GoGitBranch className="size-3 shrink-0" />
+				<span className="truncate font-mono">{branch}</span>
+			</span>
+
+			<div className="flex items-center gap-2 text-xs">
+				{isInitializing ? (
+					<>
+						<AsciiSpinner className="text-sm" />
+						<span className="text-muted-foreground">Setting up</span>
+					</>
+				) : hasFailed ? (
+					<span className="text-destructive-foreground">Setup failed</span>
+				) : status ? (
+					<>
+						<StatusIndicator status={status} />
+						<span>{STATUS_LABELS[status]}</span>
+					</>
+				) : (
+					<span className="text-muted-foreground">Idle</span>
+				)}
+			</div>
+
+			<div
+				className={cn(
+					"flex items-center gap-3 border-t border-border/50 pt-2 font-mono text-xs",
+					!diffStats && "text-muted-foreground",
+				)}
+			>
+				{diffStats ? (
+					<>
+						<span className="text-emerald-500">+{diffStats.additions}</span>
+						<span className="text-destructive-foreground">
+							-{diffStats.deletions}
+						</span>
+						<span className="text-muted-foreground">
+							{diffStats.filesChanged}{" "}
+							{diffStats.filesChanged === 1 ? "file" : "files"}
+						</span>
+					</>
+				) : (
+					<span>No changes yet</span>
+				)}
+			</div>
+		</div>
+	);
+}
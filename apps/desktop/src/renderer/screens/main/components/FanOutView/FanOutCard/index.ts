@@ -0,0 +1 @@
+export { FanOutCard } from "./FanOutCard";
@@ -0,0 +1,89 @@
+import { Button } from "@superset/ui/button";
+import { LuX } from "react-icons/lu";
+import { trpc } from "renderer/lib/trpc";
+import { useSetActiveWorkspace } from "renderer/react-query/workspaces";
+import {
+	useCloseFanOut,
+	useFanOutGroupId,
+	useOpenCompare,
+} from "renderer/stores/app-state";
+import { FanOutCard } from "./FanOutCard";
+
+/**
+ * Side-by-side comparison of the workspaces created by one fan-out:
+ * each agent's pane status and the size of its diff.
+ */
+export function FanOutView() {
+	const groupId = useFanOutGroupId();
+	const closeFanOut = useCloseFanOut();
+	const openCompare = useOpenCompare();
+	const setActiveWorkspace = useSetActiveWorkspace();
+	const { data: group, isLoading } = trpc.workspaces.getFanOutGroup.useQuery(
+		{ groupId: groupId ?? "" },
+		{ enabled: !!groupId },
+	);
+
+	const handleOpen = (workspaceId: string) => {
+		setActiveWorkspace.mutate({ id: workspaceId });
+		closeFanOut();
+	};
+
+	return (
+		<div className="flex-1 flex flex-col bg-card overflow-hidden">
+			<div className="flex items-center gap-3 px-4 py-2 border-b border-border/50">
+				<div className="flex-1 min-w-0">
+					<p className="truncate text-sm font-medium">
+						{group?.prompt ?? "Fan-out"}
+					</p>
+					{group && (
+						<p className="text-xs text-muted-foreground">
+							{group.workspaces.length}{" "}
+							{group.workspaces.length === 1 ? "workspace" : "workspaces"} from{" "}
+							<span className="font-mono">{group.baseBranch}</span>
+						</p>
+					)}
+				</div>
+				{group && group.workspaces.length >= 2 && (
+					<Button
+						variant="secondary"
+						size="sm"
+						className="h-7 text-xs"
+						onClick={() =>
+							openCompare(group.workspaces.map((workspace) => workspace.id))
+						}
+					>
+						Compare Changes
+					</Button>
+				)}
+				<Button
+					variant="ghost"
+					size="icon"
+					onClick={closeFanOut}
+					className="size-7 text-foreground/60 hover:text-foreground shrink-0"
+				>
+					<LuX className="size-4" />
+				</Button>
+			</div>
+
+			<div className="flex-1 overflow-y-auto p-4">
+				{!isLoading && (!group || group.workspaces.length === 0) ? (
+					<div className="py-8 text-center text-sm text-muted-foreground">
+						This fan-out has no open workspaces
+					</div>
+				) : (
+					<div className="grid grid-cols-[repeat(auto-fill,minmax(220px,1fr))] gap-3">
+						{group?.workspaces.map((workspace) => (
+							<FanOutCard
+								key={workspace.id}
+								workspaceId={workspace.id}
+								agent={workspace.fanOutAgent ?? workspace.name}
+								branch={workspace.branch}
+								onOpen={() => handleOpen(workspace.id)}
+							/>
+						))}
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
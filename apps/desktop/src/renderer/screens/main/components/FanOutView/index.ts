@@ -0,0 +1 @@
+export { FanOutView } from "./FanOutView";
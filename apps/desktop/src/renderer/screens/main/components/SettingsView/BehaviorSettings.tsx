@@ -7,9 +7,18 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from "@superset/ui/select";
+import { toast } from "@superset/ui/sonner";
 import { Switch } from "@superset/ui/switch";
 import { trpc } from "renderer/lib/trpc";
 
+const AGENT_IDLE_TIMEOUT_OPTIONS = [
+	{ minutes: 5, label: "5 minutes" },
+	{ minutes: 15, label: "15 minutes" },
+	{ minutes: 30, label: "30 minutes" },
+	{ minutes: 60, label: "1 hour" },
+	{ minutes: 0, label: "Never" },
+];
+
 export function BehaviorSettings() {
 	const utils = trpc.useUtils();
 
@@ -37,6 +46,85 @@ export function BehaviorSettings() {
 		setConfirmOnQuit.mutate({ enabled });
 	};
 
+	// Terminal recording setting
+	const { data: terminalRecording, isLoading: isRecordingLoading } =
+		trpc.settings.getTerminalRecording.useQuery();
+	const setTerminalRecording = trpc.settings.setTerminalRecording.useMutation({
+		onMutate: async ({ enabled }) => {
+			await utils.settings.getTerminalRecording.cancel();
+			const previous = utils.settings.getTerminalRecording.getData();
+			utils.settings.getTerminalRecording.setData(undefined, enabled);
+			return { previous };
+		},
+		onError: (_err, _vars, context) => {
+			if (context?.previous !== undefined) {
+				utils.settings.getTerminalRecording.setData(
+					undefined,
+					context.previous,
+				);
+			}
+		},
+		onSettled: () => {
+			utils.settings.getTerminalRecording.invalidate();
+		},
+	});
+
+	const handleRecordingToggle = (enabled: boolean) => {
+		setTerminalRecording.mutate({ enabled });
+	};
+
+	// Workspace hostnames (reverse proxy) setting
+	const { data: reverseProxy, isLoading: isReverseProxyLoading } =
+		trpc.settings.getReverseProxy.useQuery();
+	const setReverseProxy = trpc.settings.setReverseProxy.useMutation({
+		onMutate: async ({ enabled }) => {
+			await utils.settings.getReverseProxy.cancel();
+			const previous = utils.settings.getReverseProxy.getData();
+			utils.settings.getReverseProxy.setData(undefined, enabled);
+			return { previous };
+		},
+		onError: (err, _vars, context) => {
+			toast.error("Failed to start the workspace proxy", {
+				description: err.message,
+			});
+			if (context?.previous !== undefined) {
+				utils.settings.getReverseProxy.setData(undefined, context.previous);
+			}
+		},
+		onSettled: () => {
+			utils.settings.getReverseProxy.invalidate();
+			utils.ports.getProxyRoutes.invalidate();
+		},
+	});
+
+	const handleReverseProxyToggle = (enabled: boolean) => {
+		setReverseProxy.mutate({ enabled });
+	};
+
+	// Agent idle timeout setting
+	const { data: agentIdleTimeout, isLoading: isIdleTimeoutLoading } =
+		trpc.settings.getAgentIdleTimeout.useQuery();
+	const setAgentIdleTimeout = trpc.settings.setAgentIdleTimeout.useMutation({
+		onMutate: async ({ minutes }) => {
+			await utils.settings.getAgentIdleTimeout.cancel();
+			const previous = utils.settings.getAgentIdleTimeout.getData();
+			utils.settings.getAgentIdleTimeout.setData(undefined, minutes);
+			return { previous };
+		},
+		onError: (_err, _vars, context) => {
+			if (context?.previous !== undefined) {
+				utils.settings.getAgentIdleTimeout.setData(undefined, context.previous);
+			}
+		},
+		onSettled: () => {
+			utils.settings.getAgentIdleTimeout.invalidate();
+		},
+	});
+
+	const handleIdleTimeoutChange = (value: string) => {
+		setAgentIdleTimeout.mutate({ minutes: Number(value) });
+	};
+
 	// Terminal link behavior setting
 	const { data: terminalLinkBehavior, isLoading: isLoadingLinkBehavior } =
 		trpc.settings.getTerminalLinkBehavior.useQuery();
@@ -124,6 +212,71 @@ export function BehaviorSettings() {
 						</SelectContent>
 					</Select>
 				</div>
+
+				<div className="flex items-center justify-between">
+					<div className="space-y-0.5">
+						<Label htmlFor="agent-idle-timeout" className="text-sm font-medium">
+							Agent idle timeout
+						</Label>
+						<p className="text-xs text-muted-foreground">
+							Mark an agent as stopped after its terminal has been silent this
+							long
+						</p>
+					</div>
+					<Select
+						value={String(agentIdleTimeout ?? 15)}
+						onValueChange={handleIdleTimeoutChange}
+						disabled={isIdleTimeoutLoading || setAgentIdleTimeout.isPending}
+					>
+						<SelectTrigger id="agent-idle-timeout" className="w-[180px]">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{AGENT_IDLE_TIMEOUT_OPTIONS.map((option) => (
+								<SelectItem key={option.minutes} value={String(option.minutes)}>
+									{option.label}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+
+				{/* Terminal recording */}
+				<div className="flex items-center justify-between">
+					<div className="space-y-0.5">
+						<Label htmlFor="terminal-recording" className="text-sm font-medium">
+							Record terminal sessions
+						</Label>
+						<p className="text-xs text-muted-foreground">
+							Save new terminal output as recordings you can replay later
+						</p>
+					</div>
+					<Switch
+						id="terminal-recording"
+						checked={terminalRecording ?? false}
+						onCheckedChange={handleRecordingToggle}
+						disabled={isRecordingLoading || setTerminalRecording.isPending}
+					/>
+				</div>
+
+				{/* Workspace hostnames */}
+				<div className="flex items-center justify-between">
+					<div className="space-y-0.5">
+						<Label htmlFor="reverse-proxy" className="text-sm font-medium">
+							Workspace hostnames
+						</Label>
+						<p className="text-xs text-muted-foreground">
+							Serve each workspace's dev server at a stable
+							&lt;workspace&gt;.localhost address
+						</p>
+					</div>
+					<Switch
+						id="reverse-proxy"
+						checked={reverseProxy ?? false}
+						onCheckedChange={handleReverseProxyToggle}
+						disabled={isReverseProxyLoading || setReverseProxy.isPending}
+					/>
+				</div>
 			</div>
 		</div>
 	);
@@ -7,6 +7,8 @@ import { PresetsSettings } from "./PresetsSettings";
 import { ProjectSettings } from "./ProjectSettings";
 import { RingtonesSettings } from "./RingtonesSettings";
 import { TeamSettings } from "./TeamSettings";
+import { TemplatesSettings } from "./TemplatesSettings";
+import { TriggersSettings } from "./TriggersSettings";
 import { WorkspaceSettings } from "./WorkspaceSettings";
 
 interface SettingsContentProps {
@@ -24,6 +26,8 @@ export function SettingsContent({ activeSection }: SettingsContentProps) {
 			{activeSection === "ringtones" && <RingtonesSettings />}
 			{activeSection === "keyboard" && <KeyboardShortcutsSettings />}
 			{activeSection === "presets" && <PresetsSettings />}
+			{activeSection === "templates" && <TemplatesSettings />}
+			{activeSection === "triggers" && <TriggersSettings />}
 			{activeSection === "behavior" && <BehaviorSettings />}
 		</div>
 	);
@@ -2,9 +2,11 @@ import { cn } from "@superset/ui/utils";
 import {
 	HiOutlineAdjustmentsHorizontal,
 	HiOutlineBell,
+	HiOutlineBolt,
 	HiOutlineCog6Tooth,
 	HiOutlineCommandLine,
 	HiOutlinePaintBrush,
+	HiOutlineRectangleGroup,
 	HiOutlineUser,
 	HiOutlineUserGroup,
 } from "react-icons/hi2";
@@ -50,6 +52,16 @@ const GENERAL_SECTIONS: {
 		label: "Presets",
 		icon: <HiOutlineCog6Tooth className="h-4 w-4" />,
 	},
+	{
+		id: "templates",
+		label: "Templates",
+		icon: <HiOutlineRectangleGroup className="h-4 w-4" />,
+	},
+	{
+		id: "triggers",
+		label: "Triggers",
+		icon: <HiOutlineBolt className="h-4 w-4" />,
+	},
 	{
 		id: "behavior",
 		label: "Behavior",
@@ -0,0 +1,129 @@
+import { Button } from "@superset/ui/button";
+import { toast } from "@superset/ui/sonner";
+import { Textarea } from "@superset/ui/textarea";
+import { useEffect, useState } from "react";
+import { trpc } from "renderer/lib/trpc";
+
+const EXAMPLE_TEMPLATE = `[
+  {
+    "name": "Agent + dev server",
+    "isDefault": true,
+    "tabs": [
+      {
+        "layout": {
+          "direction": "row",
+          "first": { "type": "terminal", "name": "Agent", "commands": ["claude"] },
+          "second": {
+            "direction": "column",
+            "first": { "type": "terminal", "commands": ["bun dev"] },
+            "second": { "type": "webview", "port": "detected" }
+          }
+        }
+      }
+    ]
+  }
+]`;
+
+function formatTemplates(templates: unknown[]): string {
+	return templates.length > 0 ? JSON.stringify(templates, null, 2) : "";
+}
+
+export function TemplatesSettings() {
+	const utils = trpc.useUtils();
+	const { data: templates, isLoading } =
+		trpc.settings.getWorkspaceTemplates.useQuery();
+	const setWorkspaceTemplates = trpc.settings.setWorkspaceTemplates.useMutation(
+		{
+			onSuccess: () => {
+				utils.settings.getWorkspaceTemplates.invalidate();
+				utils.workspaces.listTemplates.invalidate();
+				toast.success("Templates saved");
+			},
+			onError: (error) => {
+				toast.error("Failed to save templates", {
+					description: error.message,
+				});
+			},
+		},
+	);
+
+	const [draft, setDraft] = useState("");
+	const [parseError, setParseError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (templates) {
+			setDraft(formatTemplates(templates));
+		}
+	}, [templates]);
+
+	const isDirty =
+		templates !== undefined && draft !== formatTemplates(templates);
+
+	const handleSave = () => {
+		let parsed: unknown;
+		try {
+			parsed = draft.trim() ? JSON.parse(draft) : [];
+		} catch (error) {
+			setParseError(error instanceof Error ? error.message : "Invalid JSON");
+			return;
+		}
+		if (!Array.isArray(parsed)) {
+			setParseError("Templates must be a JSON array");
+			return;
+		}
+		setParseError(null);
+		setWorkspaceTemplates.mutate({
+			templates: parsed as Parameters<
+				typeof setWorkspaceTemplates.mutate
+			>[0]["templates"],
+		});
+	};
+
+	return (
+		<div className="p-6 max-w-4xl w-full">
+			<div className="mb-8">
+				<h2 className="text-xl font-semibold">Workspace Templates</h2>
+				<p className="text-sm text-muted-foreground mt-1">
+					Pane layouts opened when a new workspace finishes setting up.
+					Templates in a project's .superset/config.json take precedence over
+					ones with the same name here.
+				</p>
+			</div>
+
+			<div className="space-y-3">
+				<Textarea
+					className="min-h-80 font-mono text-xs"
+					placeholder={EXAMPLE_TEMPLATE}
+					value={draft}
+					onChange={(e) => {
+						setDraft(e.target.value);
+						setParseError(null);
+					}}
+					disabled={isLoading}
+					spellCheck={false}
+				/>
+				{parseError && <p className="text-xs text-destructive">{parseError}</p>}
+				<div className="flex justify-end gap-2">
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={() => {
+							setDraft(formatTemplates(templates ?? []));
+							setParseError(null);
+						}}
+						disabled={!isDirty}
+					>
+						Reset
+					</Button>
+					<Button
+						size="sm"
+						onClick={handleSave}
+						disabled={!isDirty || setWorkspaceTemplates.isPending}
+					>
+						Save
+					</Button>
+				</div>
+			</div>
+		</div>
+	);
+}
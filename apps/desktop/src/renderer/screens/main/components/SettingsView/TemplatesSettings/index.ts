@@ -0,0 +1 @@
+export { TemplatesSettings } from "./TemplatesSettings";
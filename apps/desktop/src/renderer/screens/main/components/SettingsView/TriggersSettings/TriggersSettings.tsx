@@ -0,0 +1,156 @@
+import { Button } from "@superset/ui/button";
+import { toast } from "@superset/ui/sonner";
+import { Textarea } from "@superset/ui/textarea";
+import { useEffect, useState } from "react";
+import { trpc } from "renderer/lib/trpc";
+
+const EXAMPLE_TRIGGERS = `[
+  {
+    "name": "Type errors",
+    "pattern": "Found (\\\\d+) errors?",
+    "action": { "type": "notify", "title": "Build failed", "body": "$1 type errors" }
+  },
+  {
+    "name": "Dev server",
+    "pattern": "https?://localhost:\\\\d+\\\\S*",
+    "action": { "type": "openUrl" }
+  },
+  {
+    "name": "Needs password",
+    "pattern": "password:",
+    "action": { "type": "setStatus", "status": "permission" }
+  },
+  {
+    "name": "Tests passed",
+    "pattern": "\\\\d+ pass",
+    "caseSensitive": true,
+    "action": { "type": "playRingtone", "ringtoneId": "arcade" }
+  }
+]`;
+
+const ACTION_HELP = [
+	["notify", "desktop notification (title, body)"],
+	["setStatus", "pane indicator (idle, working, permission, review)"],
+	["runCommand", "run command in the pane named pane, added if missing"],
+	["openUrl", "open url (default: the match) in the tab's browser pane"],
+	["playRingtone", "play ringtoneId (default: your notification sound)"],
+];
+
+function formatTriggers(triggers: unknown[]): string {
+	return triggers.length > 0 ? JSON.stringify(triggers, null, 2) : "";
+}
+
+export function TriggersSettings() {
+	const utils = trpc.useUtils();
+	const { data: triggers, isLoading } =
+		trpc.settings.getTerminalTriggers.useQuery();
+	const setTerminalTriggers = trpc.settings.setTerminalTriggers.useMutation({
+		onSuccess: () => {
+			utils.settings.getTerminalTriggers.invalidate();
+			toast.success("Triggers saved");
+		},
+		onError: (error) => {
+			toast.error("Failed to save triggers", {
+				description: error.message,
+			});
+		},
+	});
+
+	const [draft, setDraft] = useState("");
+	const [parseError, setParseError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (triggers) {
+			setDraft(formatTriggers(triggers));
+		}
+	}, [triggers]);
+
+	const isDirty = triggers !== undefined && draft !== formatTriggers(triggers);
+
+	const handleSave = () => {
+		let parsed: unknown;
+		try {
+			parsed = draft.trim() ? JSON.parse(draft) : [];
+		} catch (error) {
+			setParseError(error instanceof Error ? error.message : "Invalid JSON");
+			return;
+		}
+		if (!Array.isArray(parsed)) {
+			setParseError("Triggers must be a JSON array");
+			return;
+		}
+		setParseError(null);
+		setTerminalTriggers.mutate({
+			triggers: parsed as Parameters<
+				typeof setTerminalTriggers.mutate
+			>[0]["triggers"],
+		});
+	};
+
+	return (
+		<div className="p-6 max-w-4xl w-full">
+			<div className="mb-8">
+				<h2 className="text-xl font-semibold">Terminal Triggers</h2>
+				<p className="text-sm text-muted-foreground mt-1">
+					Run an action when a line of terminal output matches a regular
+					expression. Action text can use $0 for the match and $1-$9 for capture
+					groups; in commands they are inserted single-quoted, so leave them
+					outside quotes. Triggers in a project's .superset/config.json take
+					precedence over ones with the same name here.
+				</p>
+			</div>
+
+			<div className="space-y-3">
+				<Textarea
+					className="min-h-80 font-mono text-xs"
+					placeholder={EXAMPLE_TRIGGERS}
+					value={draft}
+					onChange={(e) => {
+						setDraft(e.target.value);
+						setParseError(null);
+					}}
+					disabled={isLoading}
+					spellCheck={false}
+				/>
+				{parseError && <p className="text-xs text-destructive">{parseError}</p>}
+				<div className="flex justify-end gap-2">
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={() => {
+							setDraft(formatTriggers(triggers ?? []));
+							setParseError(null);
+						}}
+						disabled={!isDirty}
+					>
+						Reset
+					</Button>
+					<Button
+						size="sm"
+						onClick={handleSave}
+						disabled={!isDirty || setTerminalTriggers.isPending}
+					>
+						Save
+					</Button>
+				</div>
+			</div>
+
+			<div className="mt-8 space-y-2">
+				<h3 className="text-sm font-medium">Actions</h3>
+				<dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+					{ACTION_HELP.map(([type, description]) => (
+						<div key={type} className="contents">
+							<dt className="font-mono">{type}</dt>
+							<dd className="text-muted-foreground">{description}</dd>
+						</div>
+					))}
+				</dl>
+				<p className="text-xs text-muted-foreground">
+					Each trigger fires at most once per line and waits cooldownMs (default
+					2000) before firing again in the same terminal. Set enabled to false
+					to pause a trigger.
+				</p>
+			</div>
+		</div>
+	);
+}
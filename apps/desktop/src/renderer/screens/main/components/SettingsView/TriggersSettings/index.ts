@@ -0,0 +1 @@
+export { TriggersSettings } from "./TriggersSettings";
@@ -12,9 +12,10 @@ import type { ChangeCategory, ChangedFile } from "shared/changes-types";
 
 /** Priority order for selecting the first file to open */
 const FILE_CATEGORIES: Array<{
-	key: "againstBase" | "staged" | "unstaged" | "untracked";
+	key: "conflicted" | "againstBase" | "staged" | "unstaged" | "untracked";
 	category: ChangeCategory;
 }> = [
+	{ key: "conflicted", category: "conflicted" },
 	{ key: "againstBase", category: "against-base" },
 	{ key: "staged", category: "staged" },
 	{ key: "unstaged", category: "unstaged" },
@@ -15,7 +15,8 @@ import {
  * When a workspace creation is initiated from a dialog (e.g., InitGitDialog,
  * CloneRepoDialog), the dialog may close before initialization completes.
  * This component ensures the terminal is still created when the workspace
- * becomes ready.
+ * becomes ready, opens the workspace template's tabs if one applies, and
+ * starts the agent of a fan-out workspace.
  *
  * Also handles the case where pending setup data is lost (e.g., after retry
  * or app restart) by fetching setup commands from the backend on demand.
@@ -34,6 +35,7 @@ export function WorkspaceInitEffects() {
 	const processingRef = useRef<Set<string>>(new Set());
 
 	const addTab = useTabsStore((state) => state.addTab);
+	const addTemplateTabs = useTabsStore((state) => state.addTemplateTabs);
 	const setTabAutoTitle = useTabsStore((state) => state.setTabAutoTitle);
 	const createOrAttach = trpc.terminal.createOrAttach.useMutation();
 	const openConfigModal = useOpenConfigModal();
@@ -41,26 +43,66 @@ export function WorkspaceInitEffects() {
 	const utils = trpc.useUtils();
 
 	// Helper to create terminal with setup commands
+	// Uses mutateAsync: callbacks passed to mutate() only fire for the latest call,
+	// and several workspaces (e.g. a fan-out) can become ready at once
 	const handleTerminalSetup = useCallback(
 		(setup: PendingTerminalSetup, onComplete: () => void) => {
+			// Opened after the template tabs so the agent's tab is active
+			const startAgent = () => {
+				const { agent } = setup;
+				if (!agent) return;
+				const { tabId, paneId } = addTab(setup.workspaceId);
+				setTabAutoTitle(tabId, agent.name);
+				createOrAttach
+					.mutateAsync({
+						paneId,
+						tabId,
+						workspaceId: setup.workspaceId,
+						initialCommands: agent.commands,
+					})
+					.catch((error: Error) => {
+						console.error(
+							"[WorkspaceInitEffects] Failed to start agent:",
+							error,
+						);
+						toast.error(`Failed to start ${agent.name}`, {
+							description: error.message,
+						});
+					});
+			};
+
 			if (
 				Array.isArray(setup.initialCommands) &&
 				setup.initialCommands.length > 0
 			) {
+				const { agent } = setup;
+				// A fan-out agent runs in the setup terminal after the setup commands.
+				// Initial commands are joined with &&, so it only starts once setup succeeds
+				const initialCommands = agent
+					? [...setup.initialCommands, ...agent.commands]
+					: setup.initialCommands;
+				if (agent && setup.template) {
+					addTemplateTabs(setup.workspaceId, setup.template);
+				}
 				const { tabId, paneId } = addTab(setup.workspaceId);
-				setTabAutoTitle(tabId, "Workspace Setup");
-				createOrAttach.mutate(
-					{
+				setTabAutoTitle(tabId, agent ? agent.name : "Workspace Setup");
+				// Template tabs open after the setup tab so the template's first tab is active;
+				// their terminals start as soon as they mount
+				if (!agent && setup.template) {
+					addTemplateTabs(setup.workspaceId, setup.template);
+				}
+				createOrAttach
+					.mutateAsync({
 						paneId,
 						tabId,
 						workspaceId: setup.workspaceId,
-						initialCommands: setup.initialCommands,
-					},
-					{
-						onSuccess: () => {
+						initialCommands,
+					})
+					.then(
+						() => {
 							onComplete();
 						},
-						onError: (error) => {
+						(error: Error) => {
 							console.error(
 								"[WorkspaceInitEffects] Failed to create terminal:",
 								error,
@@ -79,7 +121,7 @@ export function WorkspaceInitEffects() {
 											paneId: newPaneId,
 											tabId: newTabId,
 											workspaceId: setup.workspaceId,
-											initialCommands: setup.initialCommands ?? undefined,
+											initialCommands,
 										});
 									},
 								},
@@ -87,8 +129,13 @@ export function WorkspaceInitEffects() {
 							// Still complete to prevent infinite retries
 							onComplete();
 						},
-					},
-				);
+					);
+			} else if (setup.template || setup.agent) {
+				if (setup.template) {
+					addTemplateTabs(setup.workspaceId, setup.template);
+				}
+				startAgent();
+				onComplete();
 			} else {
 				// Show config toast if no setup commands
 				toast.info("No setup script configured", {
@@ -106,6 +153,7 @@ export function WorkspaceInitEffects() {
 		},
 		[
 			addTab,
+			addTemplateTabs,
 			setTabAutoTitle,
 			createOrAttach,
 			openConfigModal,
@@ -175,6 +223,8 @@ export function WorkspaceInitEffects() {
 						workspaceId,
 						projectId: setupData.projectId,
 						initialCommands: setupData.initialCommands,
+						template: setupData.template,
+						agent: setupData.agent,
 					};
 
 					handleTerminalSetup(fetchedSetup, () => {
@@ -1,5 +1,5 @@
 import { Tooltip, TooltipContent, TooltipTrigger } from "@superset/ui/tooltip";
-import { LuExternalLink } from "react-icons/lu";
+import { LuExternalLink, LuPanelRight } from "react-icons/lu";
 import { trpc } from "renderer/lib/trpc";
 import { useTabsStore } from "renderer/stores/tabs/store";
 import type { MergedPort } from "shared/types";
@@ -16,6 +16,7 @@ export function MergedPortBadge({
 }: MergedPortBadgeProps) {
 	const setActiveTab = useTabsStore((s) => s.setActiveTab);
 	const setFocusedPane = useTabsStore((s) => s.setFocusedPane);
+	const openBrowserPane = useTabsStore((s) => s.openBrowserPane);
 	const setActiveMutation = trpc.workspaces.setActive.useMutation();
 	const utils = trpc.useUtils();
 
@@ -51,6 +52,14 @@ export function MergedPortBadge({
 		setFocusedPane(pane.tabId, port.paneId);
 	};
 
+	const handleOpenInPane = async () => {
+		if (!isCurrentWorkspace) {
+			await setActiveMutation.mutateAsync({ id: port.workspaceId });
+			await utils.workspaces.getActive.invalidate();
+		}
+		openBrowserPane(port.workspaceId, `http://localhost:${port.port}`);
+	};
+
 	const handleOpenInBrowser = () => {
 		window.open(`http://localhost:${port.port}`, "_blank");
 	};
@@ -73,6 +82,14 @@ export function MergedPortBadge({
 					>
 						{displayContent}
 					</button>
+					<button
+						type="button"
+						onClick={handleOpenInPane}
+						aria-label={`Open ${port.label || `port ${port.port}`} in a browser pane`}
+						className="opacity-0 group-hover:opacity-100 transition-opacity hover:text-foreground focus-visible:opacity-100 focus-visible:outline-none"
+					>
+						<LuPanelRight className="size-3" strokeWidth={STROKE_WIDTH} />
+					</button>
 					<button
 						type="button"
 						onClick={handleOpenInBrowser}
@@ -13,6 +13,7 @@ interface Workspace {
 	name: string;
 	tabOrder: number;
 	isUnread: boolean;
+	fanOutGroupId: string | null;
 }
 
 interface ProjectSectionProps {
@@ -87,6 +88,7 @@ export function ProjectSection({
 										type={workspace.type}
 										isActive={workspace.id === activeWorkspaceId}
 										isUnread={workspace.isUnread}
+										fanOutGroupId={workspace.fanOutGroupId}
 										index={index}
 										shortcutIndex={shortcutBaseIndex + index}
 										isCollapsed={isSidebarCollapsed}
@@ -136,6 +138,7 @@ export function ProjectSection({
 									type={workspace.type}
 									isActive={workspace.id === activeWorkspaceId}
 									isUnread={workspace.isUnread}
+									fanOutGroupId={workspace.fanOutGroupId}
 									index={index}
 									shortcutIndex={shortcutBaseIndex + index}
 								/>
@@ -28,7 +28,11 @@ import {
 import { AsciiSpinner } from "renderer/screens/main/components/AsciiSpinner";
 import { StatusIndicator } from "renderer/screens/main/components/StatusIndicator";
 import { useWorkspaceRename } from "renderer/screens/main/hooks/useWorkspaceRename";
-import { useCloseWorkspacesList } from "renderer/stores/app-state";
+import {
+	useCloseWorkspacesList,
+	useOpenCompare,
+	useOpenFanOut,
+} from "renderer/stores/app-state";
 import { useTabsStore } from "renderer/stores/tabs/store";
 import { extractPaneIdsFromLayout } from "renderer/stores/tabs/utils";
 import { getHighestPriorityStatus } from "shared/tabs-types";
@@ -58,6 +62,8 @@ interface WorkspaceListItemProps {
 	type: "worktree" | "branch";
 	isActive: boolean;
 	isUnread?: boolean;
+	/** Fan-out group the workspace was created by, if any */
+	fanOutGroupId?: string | null;
 	index: number;
 	shortcutIndex?: number;
 	/** Whether the sidebar is in collapsed mode (icon-only view) */
@@ -73,6 +79,7 @@ export function WorkspaceListItem({
 	type,
 	isActive,
 	isUnread = false,
+	fanOutGroupId = null,
 	index,
 	shortcutIndex,
 	isCollapsed = false,
@@ -81,6 +88,8 @@ export function WorkspaceListItem({
 	const setActiveWorkspace = useSetActiveWorkspace();
 	const reorderWorkspaces = useReorderWorkspaces();
 	const closeWorkspacesList = useCloseWorkspacesList();
+	const openFanOut = useOpenFanOut();
+	const openCompare = useOpenCompare();
 	const [hasHovered, setHasHovered] = useState(false);
 	const rename = useWorkspaceRename(id, name);
 	const tabs = useTabsStore((s) => s.tabs);
@@ -516,6 +525,16 @@ export function WorkspaceListItem({
 						<ContextMenuItem onSelect={handleOpenInFinder}>
 							Open in Finder
 						</ContextMenuItem>
+						{fanOutGroupId && (
+							<ContextMenuItem onSelect={() => openFanOut(fanOutGroupId)}>
+								Compare Fan-out
+							</ContextMenuItem>
+						)}
+						{!isBranchWorkspace && (
+							<ContextMenuItem onSelect={() => openCompare([id])}>
+								Compare Changes…
+							</ContextMenuItem>
+						)}
 						<ContextMenuSeparator />
 						{unreadMenuItem}
 					</ContextMenuContent>
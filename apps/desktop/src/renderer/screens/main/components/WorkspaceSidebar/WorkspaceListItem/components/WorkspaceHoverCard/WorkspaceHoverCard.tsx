@@ -3,11 +3,14 @@ import { formatDistanceToNow } from "date-fns";
 import { FaGithub } from "react-icons/fa";
 import {
 	LuExternalLink,
+	LuFileText,
 	LuLoaderCircle,
 	LuTriangleAlert,
 } from "react-icons/lu";
 import { trpc } from "renderer/lib/trpc";
+import { useSetActiveWorkspace } from "renderer/react-query/workspaces";
 import { usePRStatus } from "renderer/screens/main/hooks";
+import { useTabsStore } from "renderer/stores/tabs/store";
 import { STROKE_WIDTH } from "../../../constants";
 import { ChecksList } from "./components/ChecksList";
 import { ChecksSummary } from "./components/ChecksSummary";
@@ -35,6 +38,14 @@ export function WorkspaceHoverCardContent({
 		isLoading: isLoadingGithub,
 	} = usePRStatus({ workspaceId });
 
+	const setActiveWorkspace = useSetActiveWorkspace();
+	const addCheckLogsPane = useTabsStore((s) => s.addCheckLogsPane);
+
+	const handleViewCheckLogs = () => {
+		setActiveWorkspace.mutate({ id: workspaceId });
+		addCheckLogsPane(workspaceId);
+	};
+
 	const needsRebase = worktreeInfo?.gitStatus?.needsRebase;
 
 	const worktreeName = worktreeInfo?.worktreeName;
@@ -132,6 +143,17 @@ export function WorkspaceHoverCardContent({
 								<ReviewStatus status={pr.reviewDecision} />
 							</div>
 							{pr.checks.length > 0 && <ChecksList checks={pr.checks} />}
+							{pr.checksStatus === "failure" && (
+								<Button
+									variant="ghost"
+									size="sm"
+									className="w-full h-7 text-xs gap-1.5"
+									onClick={handleViewCheckLogs}
+								>
+									<LuFileText className="size-3" />
+									View Failure Logs
+								</Button>
+							)}
 						</div>
 					)}
 
@@ -1,6 +1,7 @@
 import { DiffEditor, type DiffOnMount } from "@monaco-editor/react";
 import type * as Monaco from "monaco-editor";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
 import { LuLoader } from "react-icons/lu";
 import {
 	MONACO_EDITOR_OPTIONS,
@@ -9,13 +10,25 @@ import {
 	useMonacoReady,
 } from "renderer/contexts/MonacoProvider";
 import type { Tab } from "renderer/stores/tabs/types";
-import type { DiffViewMode, FileContents } from "shared/changes-types";
+import type {
+	DiffViewMode,
+	FileContents,
+	HunkLineRange,
+} from "shared/changes-types";
 import {
 	EditorContextMenu,
 	type PaneActions,
 	registerCopyPathLineAction,
 	useEditorActions,
 } from "../../../components/EditorContextMenu";
+import { type DiffHunkActions, HunkToolbar } from "./HunkToolbar";
+import {
+	type DiffReviewThreads,
+	ReviewThreadMarker,
+} from "./ReviewThreadMarker";
+import { useViewZones } from "./useViewZones";
+
+const ZONE_HEIGHT_PX = 24;
 
 function scrollToFirstDiff(
 	editor: Monaco.editor.IStandaloneDiffEditor,
@@ -54,6 +67,10 @@ interface DiffViewerProps {
 	onChange?: (content: string) => void;
 	// Optional context menu props - when provided, wraps editor with context menu
 	contextMenuProps?: DiffViewerContextMenuProps;
+	/** Per-hunk stage/unstage/discard controls (inline view only) */
+	hunkActions?: DiffHunkActions;
+	/** Pull request review threads to show below their lines (inline view only) */
+	reviewThreads?: DiffReviewThreads;
 }
 
 export function DiffViewer({
@@ -64,6 +81,8 @@ export function DiffViewer({
 	onSave,
 	onChange,
 	contextMenuProps,
+	hunkActions,
+	reviewThreads,
 }: DiffViewerProps) {
 	const isMonacoReady = useMonacoReady();
 	const diffEditorRef = useRef<Monaco.editor.IStandaloneDiffEditor | null>(
@@ -150,6 +169,72 @@ export function DiffViewer({
 		};
 	}, [isEditorMounted, onChange]);
 
+	// Non-empty selection in the modified editor, for line-level hunk actions
+	const [selection, setSelection] = useState<HunkLineRange | null>(null);
+	const hunks = hunkActions?.hunks;
+	const hasHunkActions = !!hunkActions;
+
+	useEffect(() => {
+		const editor = modifiedEditorRef.current;
+		if (!isEditorMounted || !editor || !hasHunkActions) return;
+
+		const listener = editor.onDidChangeCursorSelection(({ selection: s }) => {
+			if (s.isEmpty()) {
+				setSelection(null);
+				return;
+			}
+			// A selection ending at column 1 doesn't include that line
+			const end =
+				s.endColumn === 1 && s.endLineNumber > s.startLineNumber
+					? s.endLineNumber - 1
+					: s.endLineNumber;
+			setSelection({ start: s.startLineNumber, end });
+		});
+		return () => listener.dispose();
+	}, [isEditorMounted, hasHunkActions]);
+
+	// Toolbars above each hunk and review threads below their lines. Inline
+	// view only: the side-by-side layout has no room for them.
+	const isInline = viewMode === "inline";
+	const hunkZones = useMemo(
+		() =>
+			isInline
+				? hunks?.map((hunk) => ({
+						key: hunk.header,
+						// A hunk that only removes lines starts after newStart
+						afterLineNumber:
+							hunk.newLines === 0 ? hunk.newStart : hunk.newStart - 1,
+						heightInPx: ZONE_HEIGHT_PX,
+					}))
+				: undefined,
+		[isInline, hunks],
+	);
+	const anchoredThreads = useMemo(
+		() =>
+			reviewThreads?.threads.filter(
+				(thread) =>
+					thread.side === "RIGHT" &&
+					thread.line !== null &&
+					!thread.isOutdated &&
+					!thread.isResolved,
+			),
+		[reviewThreads?.threads],
+	);
+	const threadZones = useMemo(
+		() =>
+			isInline
+				? anchoredThreads?.map((thread) => ({
+						key: thread.id,
+						afterLineNumber: thread.line ?? 0,
+						heightInPx: ZONE_HEIGHT_PX,
+					}))
+				: undefined,
+		[isInline, anchoredThreads],
+	);
+	const modifiedEditor = isEditorMounted ? modifiedEditorRef.current : null;
+	const hunkZoneNodes = useViewZones(modifiedEditor, hunkZones);
+	const threadZoneNodes = useViewZones(modifiedEditor, threadZones);
+
 	// Get the active editor (modified or original)
 	const getEditor = useCallback(() => {
 		return (
@@ -173,6 +258,35 @@ export function DiffViewer({
 		);
 	}
 
+	const threadMarkers = anchoredThreads?.map((thread) => {
+		const node = threadZoneNodes.get(thread.id);
+		return node && reviewThreads
+			? createPortal(
+					<ReviewThreadMarker
+						thread={thread}
+						onOpen={() => reviewThreads.onOpenThread(thread)}
+					/>,
+					node,
+					thread.id,
+				)
+			: null;
+	});
+
+	const hunkToolbars = hunkActions?.hunks.map((hunk) => {
+		const node = hunkZoneNodes.get(hunk.header);
+		return node
+			? createPortal(
+					<HunkToolbar
+						hunk={hunk}
+						hunkActions={hunkActions}
+						selection={selection}
+					/>,
+					node,
+					hunk.header,
+				)
+			: null;
+	});
+
 	const diffEditor = (
 		<DiffEditor
 			height="100%"
@@ -201,7 +315,13 @@ export function DiffViewer({
 
 	// If no context menu props, return plain editor
 	if (!contextMenuProps) {
-		return <div className="h-full w-full">{diffEditor}</div>;
+		return (
+			<div className="h-full w-full">
+				{diffEditor}
+				{hunkToolbars}
+				{threadMarkers}
+			</div>
+		);
 	}
 
 	// Wrap with custom context menu
@@ -217,7 +337,11 @@ export function DiffViewer({
 
 	return (
 		<EditorContextMenu editorActions={editorActions} paneActions={paneActions}>
-			<div className="h-full w-full">{diffEditor}</div>
+			<div className="h-full w-full">
+				{diffEditor}
+				{hunkToolbars}
+				{threadMarkers}
+			</div>
 		</EditorContextMenu>
 	);
 }
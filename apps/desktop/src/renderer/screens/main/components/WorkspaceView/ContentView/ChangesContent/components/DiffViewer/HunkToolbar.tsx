@@ -0,0 +1,70 @@
+import { Button } from "@superset/ui/button";
+import { cn } from "@superset/ui/utils";
+import type { DiffHunk, HunkLineRange } from "shared/changes-types";
+
+export interface DiffHunkAction {
+	label: string;
+	destructive?: boolean;
+	onRun: (hunk: DiffHunk, lines?: HunkLineRange) => void;
+}
+
+/** Per-hunk controls shown above each hunk of an inline diff */
+export interface DiffHunkActions {
+	hunks: DiffHunk[];
+	actions: DiffHunkAction[];
+	disabled?: boolean;
+}
+
+/** The part of a selection that falls on the hunk's modified-side lines */
+function selectedLinesInHunk(
+	hunk: DiffHunk,
+	selection: HunkLineRange | null,
+): HunkLineRange | undefined {
+	if (!selection) return undefined;
+	const last = hunk.newStart + hunk.newLines - 1;
+	const start = Math.max(selection.start, hunk.newStart);
+	const end = Math.min(selection.end, last);
+	return start <= end ? { start, end } : undefined;
+}
+
+interface HunkToolbarProps {
+	hunk: DiffHunk;
+	hunkActions: DiffHunkActions;
+	selection: HunkLineRange | null;
+}
+
+export function HunkToolbar({
+	hunk,
+	hunkActions,
+	selection,
+}: HunkToolbarProps) {
+	const lines = selectedLinesInHunk(hunk, selection);
+
+	return (
+		// Keep Monaco from treating clicks as editor mouse-downs
+		<div
+			role="toolbar"
+			className="flex h-full items-center gap-1 px-2 font-sans"
+			onMouseDown={(e) => e.stopPropagation()}
+		>
+			<span className="mr-1 truncate font-mono text-[10px] text-muted-foreground">
+				{hunk.header}
+			</span>
+			{hunkActions.actions.map((action) => (
+				<Button
+					key={action.label}
+					variant="ghost"
+					size="sm"
+					className={cn(
+						"h-5 px-1.5 text-[10px]",
+						action.destructive && "text-destructive hover:text-destructive",
+					)}
+					disabled={hunkActions.disabled}
+					onClick={() => action.onRun(hunk, lines)}
+				>
+					{action.label} {lines ? "Lines" : "Hunk"}
+				</Button>
+			))}
+		</div>
+	);
+}
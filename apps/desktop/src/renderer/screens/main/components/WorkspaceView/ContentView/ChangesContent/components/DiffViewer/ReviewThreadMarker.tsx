@@ -0,0 +1,42 @@
+import { LuMessageSquare } from "react-icons/lu";
+import type { PRReviewThread } from "shared/changes-types";
+
+/** Pull request review threads to anchor below their lines in the diff */
+export interface DiffReviewThreads {
+	threads: PRReviewThread[];
+	onOpenThread: (thread: PRReviewThread) => void;
+}
+
+interface ReviewThreadMarkerProps {
+	thread: PRReviewThread;
+	onOpen: () => void;
+}
+
+export function ReviewThreadMarker({
+	thread,
+	onOpen,
+}: ReviewThreadMarkerProps) {
+	const [first] = thread.comments;
+	const replies = thread.comments.length - 1;
+
+	return (
+		<button
+			type="button"
+			onClick={onOpen}
+			// Keep Monaco from treating clicks as editor mouse-downs
+			onMouseDown={(e) => e.stopPropagation()}
+			className="flex h-full w-full items-center gap-1.5 border-l-2 border-primary bg-primary/5 px-2 text-left font-sans text-xs hover:bg-primary/10"
+		>
+			<LuMessageSquare className="size-3.5 shrink-0 text-primary" />
+			{first && <span className="shrink-0 font-medium">{first.author}</span>}
+			<span className="truncate text-muted-foreground">
+				{first?.body.split("\n")[0]}
+			</span>
+			{replies > 0 && (
+				<span className="shrink-0 text-muted-foreground">
+					· {replies} {replies === 1 ? "reply" : "replies"}
+				</span>
+			)}
+		</button>
+	);
+}
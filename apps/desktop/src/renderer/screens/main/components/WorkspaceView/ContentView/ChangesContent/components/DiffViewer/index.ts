@@ -1 +1,3 @@
 export { DiffViewer } from "./DiffViewer";
+export type { DiffHunkAction, DiffHunkActions } from "./HunkToolbar";
+export type { DiffReviewThreads } from "./ReviewThreadMarker";
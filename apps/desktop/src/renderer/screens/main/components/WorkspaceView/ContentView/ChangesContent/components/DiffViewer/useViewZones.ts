@@ -0,0 +1,50 @@
+import type * as Monaco from "monaco-editor";
+import { useEffect, useState } from "react";
+
+export interface ViewZoneSpec {
+	key: string;
+	afterLineNumber: number;
+	heightInPx: number;
+}
+
+/**
+ * Reserves a view zone per spec in the editor and returns each zone's DOM
+ * node by key, for rendering React content into it with a portal. Zones are
+ * recreated whenever `zones` changes, so callers should memoize it.
+ */
+export function useViewZones(
+	editor: Monaco.editor.ICodeEditor | null,
+	zones: ViewZoneSpec[] | undefined,
+): Map<string, HTMLElement> {
+	const [nodes, setNodes] = useState<Map<string, HTMLElement>>(new Map());
+
+	useEffect(() => {
+		if (!editor || !zones) return;
+
+		const zoneNodes = new Map<string, HTMLElement>();
+		const zoneIds: string[] = [];
+		editor.changeViewZones((accessor) => {
+			for (const zone of zones) {
+				const domNode = document.createElement("div");
+				zoneIds.push(
+					accessor.addZone({
+						afterLineNumber: zone.afterLineNumber,
+						heightInPx: zone.heightInPx,
+						domNode,
+					}),
+				);
+				zoneNodes.set(zone.key, domNode);
+			}
+		});
+		setNodes(zoneNodes);
+
+		return () => {
+			editor.changeViewZones((accessor) => {
+				for (const id of zoneIds) accessor.removeZone(id);
+			});
+			setNodes(new Map());
+		};
+	}, [editor, zones]);
+
+	return nodes;
+}
@@ -12,11 +12,16 @@ import {
 import type { ReactNode } from "react";
 import {
 	LuArrowDownToLine,
+	LuArrowUpToLine,
 	LuColumns2,
+	LuCopy,
 	LuEraser,
+	LuHistory,
 	LuMoveRight,
 	LuPlus,
+	LuRadio,
 	LuRows2,
+	LuTerminal,
 	LuX,
 } from "react-icons/lu";
 import { useHotkeyText } from "renderer/stores/hotkeys";
@@ -33,6 +38,17 @@ interface TabContentContextMenuProps {
 	availableTabs: Tab[];
 	onMoveToTab: (tabId: string) => void;
 	onMoveToNewTab: () => void;
+	/** Recordings that can be opened in a replay pane, newest first */
+	recordings?: { id: string; label: string }[];
+	onOpenRecording?: (recordingId: string) => void;
+	/** Shell integration actions; hidden when not provided */
+	onJumpToPreviousCommand?: () => void;
+	onCopyLastCommandOutput?: () => void;
+	/** Commands from the pane's shell history, newest first */
+	recentCommands?: string[];
+	onInsertCommand?: (command: string) => void;
+	onShareTerminal?: () => void;
+	onOpenChange?: (open: boolean) => void;
 }
 
 export function TabContentContextMenu({
@@ -46,6 +62,14 @@ export function TabContentContextMenu({
 	availableTabs,
 	onMoveToTab,
 	onMoveToNewTab,
+	recordings = [],
+	onOpenRecording,
+	onJumpToPreviousCommand,
+	onCopyLastCommandOutput,
+	recentCommands = [],
+	onInsertCommand,
+	onShareTerminal,
+	onOpenChange,
 }: TabContentContextMenuProps) {
 	// Filter out current tab from available targets
 	const targetTabs = availableTabs.filter((t) => t.id !== currentTabId);
@@ -53,9 +77,11 @@ export function TabContentContextMenu({
 	const showClearShortcut = clearShortcut !== "Unassigned";
 	const scrollToBottomShortcut = useHotkeyText("SCROLL_TO_BOTTOM");
 	const showScrollToBottomShortcut = scrollToBottomShortcut !== "Unassigned";
+	const prevCommandShortcut = useHotkeyText("PREV_COMMAND");
+	const showPrevCommandShortcut = prevCommandShortcut !== "Unassigned";
 
 	return (
-		<ContextMenu>
+		<ContextMenu onOpenChange={onOpenChange}>
 			<ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
 			<ContextMenuContent>
 				<ContextMenuItem onSelect={onSplitHorizontal}>
@@ -80,6 +106,64 @@ export function TabContentContextMenu({
 						<ContextMenuShortcut>{scrollToBottomShortcut}</ContextMenuShortcut>
 					)}
 				</ContextMenuItem>
+				{onJumpToPreviousCommand && (
+					<ContextMenuItem onSelect={onJumpToPreviousCommand}>
+						<LuArrowUpToLine className="size-4" />
+						Previous Command
+						{showPrevCommandShortcut && (
+							<ContextMenuShortcut>{prevCommandShortcut}</ContextMenuShortcut>
+						)}
+					</ContextMenuItem>
+				)}
+				{onCopyLastCommandOutput && (
+					<ContextMenuItem onSelect={onCopyLastCommandOutput}>
+						<LuCopy className="size-4" />
+						Copy Last Command Output
+					</ContextMenuItem>
+				)}
+				{onInsertCommand && recentCommands.length > 0 && (
+					<ContextMenuSub>
+						<ContextMenuSubTrigger className="gap-2">
+							<LuTerminal className="size-4" />
+							Recent Commands
+						</ContextMenuSubTrigger>
+						<ContextMenuSubContent className="max-w-96">
+							{recentCommands.map((command) => (
+								<ContextMenuItem
+									key={command}
+									onSelect={() => onInsertCommand(command)}
+									className="font-mono text-xs"
+								>
+									<span className="truncate">{command}</span>
+								</ContextMenuItem>
+							))}
+						</ContextMenuSubContent>
+					</ContextMenuSub>
+				)}
+				{onOpenRecording && recordings.length > 0 && (
+					<ContextMenuSub>
+						<ContextMenuSubTrigger className="gap-2">
+							<LuHistory className="size-4" />
+							Replay Recording
+						</ContextMenuSubTrigger>
+						<ContextMenuSubContent>
+							{recordings.map((recording) => (
+								<ContextMenuItem
+									key={recording.id}
+									onSelect={() => onOpenRecording(recording.id)}
+								>
+									{recording.label}
+								</ContextMenuItem>
+							))}
+						</ContextMenuSubContent>
+					</ContextMenuSub>
+				)}
+				{onShareTerminal && (
+					<ContextMenuItem onSelect={onShareTerminal}>
+						<LuRadio className="size-4" />
+						Share Terminal…
+					</ContextMenuItem>
+				)}
 				<ContextMenuSeparator />
 				<ContextMenuSub>
 					<ContextMenuSubTrigger className="gap-2">
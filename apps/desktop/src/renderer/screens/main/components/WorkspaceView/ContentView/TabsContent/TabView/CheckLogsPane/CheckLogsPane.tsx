@@ -0,0 +1,174 @@
+import { Label } from "@superset/ui/label";
+import { Switch } from "@superset/ui/switch";
+import { useEffect } from "react";
+import { LuRotateCw } from "react-icons/lu";
+import type { MosaicBranch } from "react-mosaic-component";
+import {
+	formatCheckFailurePrompt,
+	getFailureKey,
+} from "renderer/hooks/useCheckFailureAutoSend";
+import { useSendToAgent } from "renderer/hooks/useSendToAgent";
+import { trpc } from "renderer/lib/trpc";
+import { useTabsStore } from "renderer/stores/tabs/store";
+import { BasePaneWindow, PaneToolbarActions } from "../components";
+import { FailedCheckCard } from "./components/FailedCheckCard";
+
+const STATUS_REFETCH_INTERVAL_MS = 30_000;
+
+interface CheckLogsPaneProps {
+	paneId: string;
+	path: MosaicBranch[];
+	isActive: boolean;
+	tabId: string;
+	splitPaneAuto: (
+		tabId: string,
+		sourcePaneId: string,
+		dimensions: { width: number; height: number },
+		path?: MosaicBranch[],
+	) => void;
+	removePane: (paneId: string) => void;
+	setFocusedPane: (tabId: string, paneId: string) => void;
+}
+
+export function CheckLogsPane({
+	paneId,
+	path,
+	isActive,
+	tabId,
+	splitPaneAuto,
+	removePane,
+	setFocusedPane,
+}: CheckLogsPaneProps) {
+	const checkLogs = useTabsStore((s) => s.panes[paneId]?.checkLogs);
+	const updateCheckLogsState = useTabsStore((s) => s.updateCheckLogsState);
+	const workspaceId = checkLogs?.workspaceId ?? "";
+	const autoSend = checkLogs?.autoSend ?? false;
+	const utils = trpc.useUtils();
+	const sendToAgent = useSendToAgent();
+
+	const {
+		data: checks,
+		isLoading,
+		error,
+		refetch,
+		isFetching,
+	} = trpc.workspaces.getCheckLogs.useQuery(
+		{ workspaceId },
+		{ enabled: !!workspaceId, retry: false },
+	);
+
+	// Watch the PR's checks so new failures show up. Auto-send polls on its
+	// own in useCheckFailureAutoSend, so it works while this pane is hidden
+	const { data: githubStatus } = trpc.workspaces.getGitHubStatus.useQuery(
+		{ workspaceId },
+		{ enabled: !!workspaceId, refetchInterval: STATUS_REFETCH_INTERVAL_MS },
+	);
+	const failureKey = getFailureKey(githubStatus?.pr?.checks ?? []);
+
+	// biome-ignore lint/correctness/useExhaustiveDependencies: Refetch when the failing checks change
+	useEffect(() => {
+		if (failureKey) {
+			utils.workspaces.getCheckLogs.invalidate({ workspaceId });
+		}
+	}, [failureKey]);
+
+	const handleAutoSendChange = (enabled: boolean) => {
+		// Only failures that happen from now on are sent automatically
+		updateCheckLogsState(paneId, {
+			autoSend: enabled,
+			lastAutoSentFailure: failureKey,
+		});
+	};
+
+	const failedChecks = checks ?? [];
+
+	const renderBody = () => {
+		if (isLoading) {
+			return (
+				<div className="flex h-full items-center justify-center text-muted-foreground">
+					Loading check logs...
+				</div>
+			);
+		}
+		if (error) {
+			return (
+				<div className="flex h-full items-center justify-center px-4 text-center text-muted-foreground">
+					{error.message}
+				</div>
+			);
+		}
+		if (failedChecks.length === 0) {
+			return (
+				<div className="flex h-full items-center justify-center text-muted-foreground">
+					No failing checks
+				</div>
+			);
+		}
+		return (
+			<div className="flex h-full flex-col gap-2 overflow-y-auto p-3">
+				{failedChecks.map((check) => (
+					<FailedCheckCard
+						key={check.url ?? check.name}
+						check={check}
+						onSendToAgent={() =>
+							sendToAgent(workspaceId, formatCheckFailurePrompt([check]))
+						}
+					/>
+				))}
+			</div>
+		);
+	};
+
+	return (
+		<BasePaneWindow
+			paneId={paneId}
+			path={path}
+			tabId={tabId}
+			isActive={isActive}
+			splitPaneAuto={splitPaneAuto}
+			removePane={removePane}
+			setFocusedPane={setFocusedPane}
+			renderToolbar={(handlers) => (
+				<div className="flex h-full w-full items-center justify-between gap-3 px-3">
+					<div className="flex min-w-0 items-center gap-3 text-xs text-muted-foreground">
+						<span className="font-medium">
+							{failedChecks.length > 0
+								? `${failedChecks.length} failing check${failedChecks.length === 1 ? "" : "s"}`
+								: "Check Logs"}
+						</span>
+						<div className="flex items-center gap-1.5">
+							<Switch
+								id={`check-logs-auto-send-${paneId}`}
+								checked={autoSend}
+								onCheckedChange={handleAutoSendChange}
+							/>
+							<Label
+								htmlFor={`check-logs-auto-send-${paneId}`}
+								className="text-xs font-normal"
+							>
+								Auto-send new failures
+							</Label>
+						</div>
+					</div>
+					<PaneToolbarActions
+						splitOrientation={handlers.splitOrientation}
+						onSplitPane={handlers.onSplitPane}
+						onClosePane={handlers.onClosePane}
+						leadingActions={
+							<button
+								type="button"
+								onClick={() => refetch()}
+								disabled={isFetching}
+								className="rounded p-0.5 text-muted-foreground/60 transition-colors hover:text-muted-foreground disabled:opacity-50"
+							>
+								<LuRotateCw className="size-3.5" />
+							</button>
+						}
+					/>
+				</div>
+			)}
+		>
+			{renderBody()}
+		</BasePaneWindow>
+	);
+}
@@ -0,0 +1,61 @@
+import { Button } from "@superset/ui/button";
+import { useState } from "react";
+import { LuBot, LuExternalLink } from "react-icons/lu";
+import type { FailedCheckLog } from "shared/types";
+
+interface FailedCheckCardProps {
+	check: FailedCheckLog;
+	onSendToAgent: () => void;
+}
+
+export function FailedCheckCard({
+	check,
+	onSendToAgent,
+}: FailedCheckCardProps) {
+	const [showFullLog, setShowFullLog] = useState(false);
+	const output = showFullLog ? check.log : check.excerpt;
+
+	return (
+		<div className="flex flex-col gap-2 rounded-md border border-border p-3">
+			<div className="flex items-center justify-between gap-2">
+				<span className="truncate text-sm font-medium">{check.name}</span>
+				<div className="flex shrink-0 items-center gap-1">
+					{check.log && (
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={() => setShowFullLog((show) => !show)}
+						>
+							{showFullLog ? "Show excerpt" : "Show full log"}
+						</Button>
+					)}
+					{check.url && (
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={() => window.open(check.url, "_blank")}
+						>
+							<LuExternalLink className="size-3.5" />
+							Open
+						</Button>
+					)}
+					<Button variant="ghost" size="sm" onClick={onSendToAgent}>
+						<LuBot className="size-3.5" />
+						Send to Agent
+					</Button>
+				</div>
+			</div>
+			{output ? (
+				<pre className="max-h-96 overflow-auto rounded bg-muted/50 p-2 font-mono text-xs whitespace-pre">
+					{output}
+				</pre>
+			) : (
+				<p className="text-xs text-muted-foreground">
+					{check.jobId
+						? "The log couldn't be fetched"
+						: "Logs are only available for GitHub Actions checks"}
+				</p>
+			)}
+		</div>
+	);
+}
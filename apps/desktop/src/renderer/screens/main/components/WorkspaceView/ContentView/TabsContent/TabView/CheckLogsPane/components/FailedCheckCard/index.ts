@@ -0,0 +1 @@
+export { FailedCheckCard } from "./FailedCheckCard";
@@ -0,0 +1 @@
+export { CheckLogsPane } from "./CheckLogsPane";
@@ -5,10 +5,13 @@ import { useTabsStore } from "renderer/stores/tabs/store";
 import type { Tab } from "renderer/stores/tabs/types";
 import type { FileViewerMode } from "shared/tabs-types";
 import { BasePaneWindow } from "../components";
+import { ConflictResolver } from "./components/ConflictResolver";
 import { FileViewerContent } from "./components/FileViewerContent";
 import { FileViewerToolbar } from "./components/FileViewerToolbar";
 import { useFileContent } from "./hooks/useFileContent";
 import { useFileSave } from "./hooks/useFileSave";
+import { useHunkActions } from "./hooks/useHunkActions";
+import { useReviewThreads } from "./hooks/useReviewThreads";
 import { UnsavedChangesDialog } from "./UnsavedChangesDialog";
 
 interface FileViewerPaneProps {
@@ -104,6 +107,23 @@ export function FileViewerPane({
 		},
 	);
 
+	const hunkActions = useHunkActions({
+		worktreePath,
+		filePath,
+		diffCategory,
+		isDirty,
+	});
+
+	const workspaceId = useTabsStore(
+		(s) => s.tabs.find((t) => t.id === tabId)?.workspaceId,
+	);
+	const reviewThreads = useReviewThreads({
+		worktreePath,
+		workspaceId,
+		filePath,
+		diffCategory,
+	});
+
 	const handleEditorChange = useCallback((value: string | undefined) => {
 		if (value === undefined) return;
 		if (originalContentRef.current === "") {
@@ -178,6 +198,26 @@ export function FileViewerPane({
 		}
 	};
 
+	// The resolved file is staged, so show what resolving it changed
+	const handleConflictResolved = () => {
+		const panes = useTabsStore.getState().panes;
+		const currentPane = panes[paneId];
+		if (!currentPane?.fileViewer) return;
+		useTabsStore.setState({
+			panes: {
+				...panes,
+				[paneId]: {
+					...currentPane,
+					fileViewer: {
+						...currentPane.fileViewer,
+						viewMode: "diff",
+						diffCategory: "staged",
+					},
+				},
+			},
+		});
+	};
+
 	const handleViewModeChange = (value: string) => {
 		if (!value) return;
 		const newMode = value as FileViewerMode;
@@ -245,7 +285,8 @@ export function FileViewerPane({
 		filePath.endsWith(".md") ||
 		filePath.endsWith(".markdown") ||
 		filePath.endsWith(".mdx");
-	const hasDiff = !!diffCategory;
+	const hasConflict = diffCategory === "conflicted";
+	const hasDiff = !!diffCategory && !hasConflict;
 	const hasDraft = draftContentRef.current !== null;
 	const isDiffEditable =
 		(diffCategory === "staged" || diffCategory === "unstaged") && !hasDraft;
@@ -273,6 +314,7 @@ export function FileViewerPane({
 							isPinned={isPinned}
 							isMarkdown={isMarkdown}
 							hasDiff={hasDiff}
+							hasConflict={hasConflict}
 							showEditableBadge={showEditableBadge}
 							splitOrientation={handlers.splitOrientation}
 							onViewModeChange={handleViewModeChange}
@@ -283,33 +325,43 @@ export function FileViewerPane({
 					</div>
 				)}
 			>
-				<FileViewerContent
-					viewMode={viewMode}
-					filePath={filePath}
-					isLoadingRaw={isLoadingRaw}
-					isLoadingDiff={isLoadingDiff}
-					rawFileData={rawFileData}
-					diffData={diffData}
-					isDiffEditable={isDiffEditable}
-					editorRef={editorRef}
-					originalContentRef={originalContentRef}
-					draftContentRef={draftContentRef}
-					initialLine={initialLine}
-					initialColumn={initialColumn}
-					onSaveRaw={handleSaveRaw}
-					onSaveDiff={isDiffEditable ? handleSaveDiff : undefined}
-					onEditorChange={handleEditorChange}
-					onDiffChange={isDiffEditable ? handleDiffChange : undefined}
-					setIsDirty={setIsDirty}
-					// Context menu props
-					onSplitHorizontal={() => splitPaneHorizontal(tabId, paneId, path)}
-					onSplitVertical={() => splitPaneVertical(tabId, paneId, path)}
-					onClosePane={() => removePane(paneId)}
-					currentTabId={tabId}
-					availableTabs={availableTabs}
-					onMoveToTab={onMoveToTab}
-					onMoveToNewTab={onMoveToNewTab}
-				/>
+				{viewMode === "conflict" ? (
+					<ConflictResolver
+						worktreePath={worktreePath}
+						filePath={filePath}
+						onResolved={handleConflictResolved}
+					/>
+				) : (
+					<FileViewerContent
+						viewMode={viewMode}
+						filePath={filePath}
+						isLoadingRaw={isLoadingRaw}
+						isLoadingDiff={isLoadingDiff}
+						rawFileData={rawFileData}
+						diffData={diffData}
+						isDiffEditable={isDiffEditable}
+						editorRef={editorRef}
+						originalContentRef={originalContentRef}
+						draftContentRef={draftContentRef}
+						initialLine={initialLine}
+						initialColumn={initialColumn}
+						onSaveRaw={handleSaveRaw}
+						onSaveDiff={isDiffEditable ? handleSaveDiff : undefined}
+						onEditorChange={handleEditorChange}
+						onDiffChange={isDiffEditable ? handleDiffChange : undefined}
+						setIsDirty={setIsDirty}
+						hunkActions={hunkActions}
+						reviewThreads={reviewThreads}
+						// Context menu props
+						onSplitHorizontal={() => splitPaneHorizontal(tabId, paneId, path)}
+						onSplitVertical={() => splitPaneVertical(tabId, paneId, path)}
+						onClosePane={() => removePane(paneId)}
+						currentTabId={tabId}
+						availableTabs={availableTabs}
+						onMoveToTab={onMoveToTab}
+						onMoveToNewTab={onMoveToNewTab}
+					/>
+				)}
 			</BasePaneWindow>
 			<UnsavedChangesDialog
 				open={showUnsavedDialog}
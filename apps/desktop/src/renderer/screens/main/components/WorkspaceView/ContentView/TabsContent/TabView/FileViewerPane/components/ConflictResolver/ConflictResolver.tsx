@@ -0,0 +1,184 @@
+import Editor, { type OnMount } from "@monaco-editor/react";
+import { Button } from "@superset/ui/button";
+import { toast } from "@superset/ui/sonner";
+import type * as Monaco from "monaco-editor";
+import { useCallback, useRef } from "react";
+import { LuLoader } from "react-icons/lu";
+import {
+	MONACO_EDITOR_OPTIONS,
+	registerSaveAction,
+	SUPERSET_THEME,
+	useMonacoReady,
+} from "renderer/contexts/MonacoProvider";
+import { trpc } from "renderer/lib/trpc";
+
+const CONFLICT_MARKER = /^(<{7}|>{7})( |$)/m;
+
+const READ_ONLY_OPTIONS = {
+	...MONACO_EDITOR_OPTIONS,
+	readOnly: true,
+	domReadOnly: true,
+};
+
+interface ConflictResolverProps {
+	worktreePath: string;
+	filePath: string;
+	/** Called once the file is resolved and staged */
+	onResolved: () => void;
+}
+
+function SideHeader({ label }: { label: string }) {
+	return (
+		<div className="px-2 py-1 text-[10px] font-medium uppercase tracking-wide text-muted-foreground border-b border-border">
+			{label}
+		</div>
+	);
+}
+
+/**
+ * Three-pane merge editor: both sides of a conflict read-only on top and the
+ * editable result below. Saving stages the result as resolved.
+ */
+export function ConflictResolver({
+	worktreePath,
+	filePath,
+	onResolved,
+}: ConflictResolverProps) {
+	const isMonacoReady = useMonacoReady();
+	const resultEditorRef = useRef<Monaco.editor.IStandaloneCodeEditor | null>(
+		null,
+	);
+	const utils = trpc.useUtils();
+
+	const { data: versions, isLoading } =
+		trpc.changes.getConflictVersions.useQuery(
+			{ worktreePath, filePath },
+			{ refetchOnWindowFocus: false },
+		);
+
+	const resolveConflict = trpc.changes.resolveConflict.useMutation({
+		onSuccess: () => {
+			toast.success(`Resolved ${filePath}`);
+			utils.changes.getStatus.invalidate();
+			onResolved();
+		},
+		onError: (error) => toast.error(`Failed to resolve: ${error.message}`),
+	});
+
+	const handleMarkResolved = useCallback(() => {
+		const content = resultEditorRef.current?.getValue();
+		if (content === undefined) return;
+		if (CONFLICT_MARKER.test(content)) {
+			toast.error("Conflict markers remain", {
+				description: "Remove every <<<<<<< and >>>>>>> block first",
+			});
+			return;
+		}
+		resolveConflict.mutate({
+			worktreePath,
+			filePath,
+			resolution: { type: "content", content },
+		});
+	}, [resolveConflict, worktreePath, filePath]);
+
+	const handleResultMount: OnMount = useCallback(
+		(editor) => {
+			resultEditorRef.current = editor;
+			registerSaveAction(editor, handleMarkResolved);
+		},
+		[handleMarkResolved],
+	);
+
+	if (isLoading || !isMonacoReady) {
+		return (
+			<div className="flex items-center justify-center h-full text-muted-foreground">
+				<LuLoader className="w-4 h-4 animate-spin mr-2" />
+				<span>Loading conflict...</span>
+			</div>
+		);
+	}
+
+	if (!versions) {
+		return (
+			<div className="flex items-center justify-center h-full text-muted-foreground">
+				Conflict not available
+			</div>
+		);
+	}
+
+	const takeSide = (type: "ours" | "theirs") =>
+		resolveConflict.mutate({
+			worktreePath,
+			filePath,
+			resolution: { type },
+		});
+
+	return (
+		<div className="flex flex-col h-full min-h-0">
+			<div className="flex items-center justify-end gap-1.5 px-2 py-1 border-b border-border">
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-6 text-xs"
+					onClick={() => takeSide("ours")}
+					disabled={resolveConflict.isPending}
+				>
+					Use {versions.oursLabel}
+				</Button>
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-6 text-xs"
+					onClick={() => takeSide("theirs")}
+					disabled={resolveConflict.isPending}
+				>
+					Use {versions.theirsLabel}
+				</Button>
+				<Button
+					size="sm"
+					className="h-6 text-xs"
+					onClick={handleMarkResolved}
+					disabled={resolveConflict.isPending}
+				>
+					Mark Resolved
+				</Button>
+			</div>
+
+			<div className="grid grid-cols-2 flex-1 min-h-0 border-b border-border">
+				<div className="flex flex-col min-h-0 border-r border-border">
+					<SideHeader label={versions.oursLabel} />
+					<Editor
+						height="100%"
+						language={versions.language}
+						value={versions.ours}
+						theme={SUPERSET_THEME}
+						options={READ_ONLY_OPTIONS}
+					/>
+				</div>
+				<div className="flex flex-col min-h-0">
+					<SideHeader label={versions.theirsLabel} />
+					<Editor
+						height="100%"
+						language={versions.language}
+						value={versions.theirs}
+						theme={SUPERSET_THEME}
+						options={READ_ONLY_OPTIONS}
+					/>
+				</div>
+			</div>
+
+			<div className="flex flex-col flex-1 min-h-0">
+				<SideHeader label="Result" />
+				<Editor
+					key={filePath}
+					height="100%"
+					language={versions.language}
+					defaultValue={versions.result}
+					theme={SUPERSET_THEME}
+					onMount={handleResultMount}
+					options={MONACO_EDITOR_OPTIONS}
+				/>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1 @@
+export { ConflictResolver } from "./ConflictResolver";
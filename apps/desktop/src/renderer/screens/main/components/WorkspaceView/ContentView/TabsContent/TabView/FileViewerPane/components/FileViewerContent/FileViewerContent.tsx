@@ -12,7 +12,11 @@ import {
 import type { Tab } from "renderer/stores/tabs/types";
 import { detectLanguage } from "shared/detect-language";
 import type { FileViewerMode } from "shared/tabs-types";
-import { DiffViewer } from "../../../../../ChangesContent/components/DiffViewer";
+import {
+	type DiffHunkActions,
+	type DiffReviewThreads,
+	DiffViewer,
+} from "../../../../../ChangesContent/components/DiffViewer";
 import { registerCopyPathLineAction } from "../../../../../components/EditorContextMenu";
 import { FileEditorContextMenu } from "../FileEditorContextMenu";
 
@@ -57,6 +61,8 @@ interface FileViewerContentProps {
 	onEditorChange: (value: string | undefined) => void;
 	onDiffChange?: (content: string) => void;
 	setIsDirty: (dirty: boolean) => void;
+	hunkActions?: DiffHunkActions;
+	reviewThreads?: DiffReviewThreads;
 	// Context menu props
 	onSplitHorizontal: () => void;
 	onSplitVertical: () => void;
@@ -85,6 +91,8 @@ export function FileViewerContent({
 	onEditorChange,
 	onDiffChange,
 	setIsDirty,
+	hunkActions,
+	reviewThreads,
 	// Context menu props
 	onSplitHorizontal,
 	onSplitVertical,
@@ -191,6 +199,8 @@ export function FileViewerContent({
 				editable={isDiffEditable}
 				onSave={isDiffEditable ? onSaveDiff : undefined}
 				onChange={isDiffEditable ? onDiffChange : undefined}
+				hunkActions={hunkActions}
+				reviewThreads={reviewThreads}
 				contextMenuProps={{
 					onSplitHorizontal,
 					onSplitVertical,
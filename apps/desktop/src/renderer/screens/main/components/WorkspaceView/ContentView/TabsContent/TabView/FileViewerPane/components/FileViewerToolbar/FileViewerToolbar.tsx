@@ -17,6 +17,8 @@ interface FileViewerToolbarProps {
 	isPinned: boolean;
 	isMarkdown: boolean;
 	hasDiff: boolean;
+	/** Whether the file is conflicted, offering the conflict resolver */
+	hasConflict: boolean;
 	showEditableBadge: boolean;
 	splitOrientation: SplitOrientation;
 	onViewModeChange: (value: string) => void;
@@ -34,6 +36,7 @@ export function FileViewerToolbar({
 	isPinned,
 	isMarkdown,
 	hasDiff,
+	hasConflict,
 	showEditableBadge,
 	splitOrientation,
 	onViewModeChange,
@@ -96,6 +99,14 @@ export function FileViewerToolbar({
 							Diff
 						</ToggleGroupItem>
 					)}
+					{hasConflict && (
+						<ToggleGroupItem
+							value="conflict"
+							className="h-5 px-1.5 text-[10px]"
+						>
+							Conflict
+						</ToggleGroupItem>
+					)}
 				</ToggleGroup>
 				<PaneToolbarActions
 					splitOrientation={splitOrientation}
@@ -1,11 +1,12 @@
 import { useEffect } from "react";
 import { trpc } from "renderer/lib/trpc";
 import type { ChangeCategory } from "shared/changes-types";
+import type { FileViewerMode } from "shared/tabs-types";
 
 interface UseFileContentParams {
 	worktreePath: string;
 	filePath: string;
-	viewMode: "raw" | "diff" | "rendered";
+	viewMode: FileViewerMode;
 	diffCategory?: ChangeCategory;
 	commitHash?: string;
 	oldPath?: string;
@@ -30,12 +31,18 @@ export function useFileContent({
 		{ enabled: !!worktreePath && diffCategory === "against-base" },
 	);
 	const effectiveBaseBranch = branchData?.defaultBranch ?? "main";
+	// Conflicts are shown by the conflict resolver rather than as a diff
+	const diffSource = diffCategory === "conflicted" ? undefined : diffCategory;
 
 	const { data: rawFileData, isLoading: isLoadingRaw } =
 		trpc.changes.readWorkingFile.useQuery(
 			{ worktreePath, filePath },
 			{
-				enabled: viewMode !== "diff" && !!filePath && !!worktreePath,
+				enabled:
+					viewMode !== "diff" &&
+					viewMode !== "conflict" &&
+					!!filePath &&
+					!!worktreePath,
 			},
 		);
 
@@ -45,14 +52,14 @@ export function useFileContent({
 				worktreePath,
 				filePath,
 				oldPath,
-				category: diffCategory ?? "unstaged",
+				category: diffSource ?? "unstaged",
 				commitHash,
 				defaultBranch:
 					diffCategory === "against-base" ? effectiveBaseBranch : undefined,
 			},
 			{
 				enabled:
-					viewMode === "diff" && !!diffCategory && !!filePath && !!worktreePath,
+					viewMode === "diff" && !!diffSource && !!filePath && !!worktreePath,
 			},
 		);
 
@@ -0,0 +1 @@
+export { useHunkActions } from "./useHunkActions";
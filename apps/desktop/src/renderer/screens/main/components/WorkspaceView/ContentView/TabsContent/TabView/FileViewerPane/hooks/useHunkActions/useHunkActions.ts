@@ -0,0 +1,84 @@
+import { toast } from "@superset/ui/sonner";
+import { trpc } from "renderer/lib/trpc";
+import type {
+	ChangeCategory,
+	DiffHunk,
+	HunkLineRange,
+} from "shared/changes-types";
+import type { DiffHunkActions } from "../../../../../ChangesContent/components/DiffViewer";
+
+interface UseHunkActionsParams {
+	worktreePath: string;
+	filePath: string;
+	diffCategory?: ChangeCategory;
+	/** Unsaved edits would be lost or misapplied, so actions pause meanwhile */
+	isDirty: boolean;
+}
+
+/**
+ * Stage/discard controls for unstaged diffs and unstage controls for staged
+ * ones; other diff categories have no per-hunk actions.
+ */
+export function useHunkActions({
+	worktreePath,
+	filePath,
+	diffCategory,
+	isDirty,
+}: UseHunkActionsParams): DiffHunkActions | undefined {
+	const isStaged = diffCategory === "staged";
+	const hasHunkActions = isStaged || diffCategory === "unstaged";
+	const utils = trpc.useUtils();
+
+	const { data: hunks } = trpc.changes.getHunks.useQuery(
+		{ worktreePath, filePath, staged: isStaged },
+		{ enabled: hasHunkActions && !!worktreePath && !!filePath },
+	);
+
+	const mutationOptions = (verb: string) => ({
+		onSuccess: () => {
+			utils.changes.getHunks.invalidate();
+			utils.changes.getFileContents.invalidate();
+			utils.changes.readWorkingFile.invalidate();
+			utils.changes.getStatus.invalidate();
+		},
+		onError: (error: { message: string }) =>
+			toast.error(`Failed to ${verb}: ${error.message}`),
+	});
+	const stageHunk = trpc.changes.stageHunk.useMutation(
+		mutationOptions("stage"),
+	);
+	const unstageHunk = trpc.changes.unstageHunk.useMutation(
+		mutationOptions("unstage"),
+	);
+	const discardHunk = trpc.changes.discardHunk.useMutation(
+		mutationOptions("discard"),
+	);
+
+	if (!hasHunkActions || !hunks) {
+		return undefined;
+	}
+
+	const run =
+		(mutation: typeof stageHunk) => (hunk: DiffHunk, lines?: HunkLineRange) =>
+			mutation.mutate({
+				worktreePath,
+				filePath,
+				hunkHeader: hunk.header,
+				lines,
+			});
+
+	return {
+		hunks,
+		disabled:
+			isDirty ||
+			stageHunk.isPending ||
+			unstageHunk.isPending ||
+			discardHunk.isPending,
+		actions: isStaged
+			? [{ label: "Unstage", onRun: run(unstageHunk) }]
+			: [
+					{ label: "Stage", onRun: run(stageHunk) },
+					{ label: "Discard", destructive: true, onRun: run(discardHunk) },
+				],
+	};
+}
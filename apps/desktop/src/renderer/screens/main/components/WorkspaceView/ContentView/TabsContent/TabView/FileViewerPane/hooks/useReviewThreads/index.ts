@@ -0,0 +1 @@
+export { useReviewThreads } from "./useReviewThreads";
@@ -0,0 +1,43 @@
+import { useMemo } from "react";
+import { trpc } from "renderer/lib/trpc";
+import { useTabsStore } from "renderer/stores/tabs/store";
+import type { ChangeCategory } from "shared/changes-types";
+import type { DiffReviewThreads } from "../../../../../ChangesContent/components/DiffViewer";
+
+interface UseReviewThreadsParams {
+	worktreePath: string;
+	workspaceId?: string;
+	filePath: string;
+	diffCategory?: ChangeCategory;
+}
+
+/**
+ * The file's pull request review threads, for the against-base diff only:
+ * that is the diff the pull request shows, so its line numbers match.
+ */
+export function useReviewThreads({
+	worktreePath,
+	workspaceId,
+	filePath,
+	diffCategory,
+}: UseReviewThreadsParams): DiffReviewThreads | undefined {
+	const addPullRequestPane = useTabsStore((s) => s.addPullRequestPane);
+	const isAgainstBase = diffCategory === "against-base";
+
+	const { data: review } = trpc.changes.getPullRequestReview.useQuery(
+		{ worktreePath },
+		{ enabled: isAgainstBase && !!worktreePath, retry: false },
+	);
+
+	// Memoized: the diff viewer recreates its view zones when threads change
+	return useMemo(() => {
+		if (!isAgainstBase || !review || !workspaceId) {
+			return undefined;
+		}
+		return {
+			threads: review.threads.filter((thread) => thread.path === filePath),
+			onOpenThread: (thread) =>
+				addPullRequestPane(workspaceId, { threadId: thread.id }),
+		};
+	}, [isAgainstBase, review, workspaceId, filePath, addPullRequestPane]);
+}
@@ -0,0 +1,193 @@
+import { toast } from "@superset/ui/sonner";
+import { useState } from "react";
+import { LuRotateCw } from "react-icons/lu";
+import type { MosaicBranch } from "react-mosaic-component";
+import { useSendToAgent } from "renderer/hooks/useSendToAgent";
+import { trpc } from "renderer/lib/trpc";
+import { useTabsStore } from "renderer/stores/tabs/store";
+import { BasePaneWindow, PaneToolbarActions } from "../components";
+import { ReviewThreadCard } from "./components/ReviewThreadCard";
+import { formatThreadPrompt } from "./review-prompt";
+
+const REVIEW_REFETCH_INTERVAL_MS = 30_000;
+
+interface PullRequestPaneProps {
+	paneId: string;
+	path: MosaicBranch[];
+	isActive: boolean;
+	tabId: string;
+	worktreePath: string;
+	splitPaneAuto: (
+		tabId: string,
+		sourcePaneId: string,
+		dimensions: { width: number; height: number },
+		path?: MosaicBranch[],
+	) => void;
+	removePane: (paneId: string) => void;
+	setFocusedPane: (tabId: string, paneId: string) => void;
+}
+
+export function PullRequestPane({
+	paneId,
+	path,
+	isActive,
+	tabId,
+	worktreePath,
+	splitPaneAuto,
+	removePane,
+	setFocusedPane,
+}: PullRequestPaneProps) {
+	const pullRequest = useTabsStore((s) => s.panes[paneId]?.pullRequest);
+	const workspaceId = pullRequest?.workspaceId ?? "";
+	const addFileViewerPane = useTabsStore((s) => s.addFileViewerPane);
+	const [showResolved, setShowResolved] = useState(false);
+	const utils = trpc.useUtils();
+
+	const {
+		data: review,
+		isLoading,
+		error,
+		refetch,
+		isFetching,
+	} = trpc.changes.getPullRequestReview.useQuery(
+		{ worktreePath },
+		{ refetchInterval: REVIEW_REFETCH_INTERVAL_MS, retry: false },
+	);
+
+	const onSuccess = () => utils.changes.getPullRequestReview.invalidate();
+	const replyMutation = trpc.changes.replyToReviewThread.useMutation({
+		onSuccess,
+		onError: (err) => toast.error(`Reply failed: ${err.message}`),
+	});
+	const resolveMutation = trpc.changes.resolveReviewThread.useMutation({
+		onSuccess,
+		onError: (err) => toast.error(`Failed to update thread: ${err.message}`),
+	});
+	const sendToAgent = useSendToAgent();
+
+	const threads = review?.threads ?? [];
+	const resolvedCount = threads.filter((t) => t.isResolved).length;
+	const visibleThreads = showResolved
+		? threads
+		: threads.filter((t) => !t.isResolved);
+
+	const renderBody = () => {
+		if (isLoading) {
+			return (
+				<div className="flex h-full items-center justify-center text-muted-foreground">
+					Loading review...
+				</div>
+			);
+		}
+		if (error) {
+			return (
+				<div className="flex h-full items-center justify-center px-4 text-center text-muted-foreground">
+					{error.message}
+				</div>
+			);
+		}
+		if (!review) {
+			return (
+				<div className="flex h-full items-center justify-center text-muted-foreground">
+					This branch has no pull request
+				</div>
+			);
+		}
+		if (visibleThreads.length === 0) {
+			return (
+				<div className="flex h-full items-center justify-center text-muted-foreground">
+					No unresolved review comments
+				</div>
+			);
+		}
+		return (
+			<div className="flex h-full flex-col gap-2 overflow-y-auto p-3">
+				{visibleThreads.map((thread) => (
+					<ReviewThreadCard
+						key={thread.id}
+						thread={thread}
+						isFocused={thread.id === pullRequest?.threadId}
+						isPending={replyMutation.isPending || resolveMutation.isPending}
+						onReply={(body, onSent) =>
+							replyMutation.mutate(
+								{ worktreePath, threadId: thread.id, body },
+								{ onSuccess: onSent },
+							)
+						}
+						onToggleResolved={() =>
+							resolveMutation.mutate({
+								worktreePath,
+								threadId: thread.id,
+								resolved: !thread.isResolved,
+							})
+						}
+						onSendToAgent={() =>
+							sendToAgent(workspaceId, formatThreadPrompt(thread))
+						}
+						onOpenFile={() =>
+							addFileViewerPane(workspaceId, {
+								filePath: thread.path,
+								diffCategory: "against-base",
+							})
+						}
+					/>
+				))}
+			</div>
+		);
+	};
+
+	return (
+		<BasePaneWindow
+			paneId={paneId}
+			path={path}
+			tabId={tabId}
+			isActive={isActive}
+			splitPaneAuto={splitPaneAuto}
+			removePane={removePane}
+			setFocusedPane={setFocusedPane}
+			renderToolbar={(handlers) => (
+				<div className="flex h-full w-full items-center justify-between gap-3 px-3">
+					<div className="flex min-w-0 items-center gap-2 text-xs text-muted-foreground">
+						{review ? (
+							<button
+								type="button"
+								onClick={() => window.open(review.url, "_blank")}
+								className="truncate font-medium hover:text-foreground"
+							>
+								#{review.number} {review.title}
+							</button>
+						) : (
+							<span className="font-medium">Pull Request</span>
+						)}
+						{resolvedCount > 0 && (
+							<button
+								type="button"
+								onClick={() => setShowResolved((show) => !show)}
+								className="shrink-0 hover:text-foreground"
+							>
+								{showResolved ? "Hide" : "Show"} {resolvedCount} resolved
+							</button>
+						)}
+					</div>
+					<PaneToolbarActions
+						splitOrientation={handlers.splitOrientation}
+						onSplitPane={handlers.onSplitPane}
+						onClosePane={handlers.onClosePane}
+						leadingActions={
+							<button
+								type="button"
+								onClick={() => refetch()}
+								disabled={isFetching}
+								className="rounded p-0.5 text-muted-foreground/60 transition-colors hover:text-muted-foreground disabled:opacity-50"
+							>
+								<LuRotateCw className="size-3.5" />
+							</button>
+						}
+					/>
+				</div>
+			)}
+		>
+			{renderBody()}
+		</BasePaneWindow>
+	);
+}
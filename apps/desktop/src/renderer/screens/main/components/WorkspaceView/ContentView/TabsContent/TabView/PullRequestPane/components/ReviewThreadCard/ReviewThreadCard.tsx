@@ -0,0 +1,126 @@
+import { Badge } from "@superset/ui/badge";
+import { Button } from "@superset/ui/button";
+import { Textarea } from "@superset/ui/textarea";
+import { cn } from "@superset/ui/utils";
+import { useEffect, useRef, useState } from "react";
+import { LuBot, LuCheck, LuFileCode, LuRotateCcw } from "react-icons/lu";
+import { formatRelativeTime } from "renderer/lib/formatRelativeTime";
+import type { PRReviewThread } from "shared/changes-types";
+
+interface ReviewThreadCardProps {
+	thread: PRReviewThread;
+	/** Scrolls the card into view and highlights it */
+	isFocused: boolean;
+	isPending: boolean;
+	onReply: (body: string, onSent: () => void) => void;
+	onToggleResolved: () => void;
+	onSendToAgent: () => void;
+	onOpenFile: () => void;
+}
+
+export function ReviewThreadCard({
+	thread,
+	isFocused,
+	isPending,
+	onReply,
+	onToggleResolved,
+	onSendToAgent,
+	onOpenFile,
+}: ReviewThreadCardProps) {
+	const [reply, setReply] = useState("");
+	const cardRef = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		if (isFocused) {
+			cardRef.current?.scrollIntoView({ block: "nearest" });
+		}
+	}, [isFocused]);
+
+	const handleReply = () => {
+		const body = reply.trim();
+		if (!body) return;
+		onReply(body, () => setReply(""));
+	};
+
+	return (
+		<div
+			ref={cardRef}
+			className={cn(
+				"flex flex-col gap-2 rounded-md border border-border p-3",
+				isFocused && "border-primary",
+				thread.isResolved && "opacity-70",
+			)}
+		>
+			<div className="flex items-center justify-between gap-2">
+				<button
+					type="button"
+					onClick={onOpenFile}
+					className="flex min-w-0 items-center gap-1.5 text-xs font-mono text-muted-foreground hover:text-foreground"
+				>
+					<LuFileCode className="size-3.5 shrink-0" />
+					<span className="truncate">
+						{thread.path}
+						{thread.line !== null && `:${thread.line}`}
+					</span>
+				</button>
+				<div className="flex shrink-0 items-center gap-1">
+					{thread.isOutdated && <Badge variant="outline">Outdated</Badge>}
+					{thread.isResolved && <Badge variant="secondary">Resolved</Badge>}
+				</div>
+			</div>
+
+			{thread.comments.map((comment) => (
+				<div key={comment.id} className="flex flex-col gap-0.5">
+					<div className="flex items-center gap-2 text-xs">
+						<span className="font-medium">{comment.author}</span>
+						<span className="text-muted-foreground">
+							{formatRelativeTime(comment.createdAt)}
+						</span>
+					</div>
+					<p className="whitespace-pre-wrap break-words text-sm">
+						{comment.body}
+					</p>
+				</div>
+			))}
+
+			<Textarea
+				placeholder="Reply..."
+				value={reply}
+				onChange={(e) => setReply(e.target.value)}
+				className="min-h-[52px] resize-none text-xs"
+				onKeyDown={(e) => {
+					if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+						e.preventDefault();
+						handleReply();
+					}
+				}}
+			/>
+			<div className="flex items-center justify-end gap-1">
+				<Button variant="ghost" size="sm" onClick={onSendToAgent}>
+					<LuBot className="size-3.5" />
+					Send to Agent
+				</Button>
+				<Button
+					variant="ghost"
+					size="sm"
+					onClick={onToggleResolved}
+					disabled={isPending}
+				>
+					{thread.isResolved ? (
+						<LuRotateCcw className="size-3.5" />
+					) : (
+						<LuCheck className="size-3.5" />
+					)}
+					{thread.isResolved ? "Unresolve" : "Resolve"}
+				</Button>
+				<Button
+					size="sm"
+					onClick={handleReply}
+					disabled={isPending || !reply.trim()}
+				>
+					Reply
+				</Button>
+			</div>
+		</div>
+	);
+}
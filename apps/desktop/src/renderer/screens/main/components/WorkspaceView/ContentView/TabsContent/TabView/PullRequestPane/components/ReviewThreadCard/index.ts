@@ -0,0 +1 @@
+export { ReviewThreadCard } from "./ReviewThreadCard";
@@ -0,0 +1 @@
+export { PullRequestPane } from "./PullRequestPane";
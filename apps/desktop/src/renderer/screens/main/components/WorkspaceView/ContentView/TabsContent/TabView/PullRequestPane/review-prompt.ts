@@ -0,0 +1,22 @@
+import type { PRReviewThread } from "shared/changes-types";
+import { stripControlCharacters } from "shared/control-characters";
+
+/**
+ * Turns a review thread into a prompt asking the agent to address it.
+ * Comment text is untrusted and goes into a terminal, so it is stripped of
+ * control characters.
+ */
+export function formatThreadPrompt(thread: PRReviewThread): string {
+	const location =
+		thread.line !== null ? `${thread.path}:${thread.line}` : thread.path;
+	const comments = thread.comments.map(
+		(comment) => `@${comment.author}: ${comment.body.trim()}`,
+	);
+	return stripControlCharacters(
+		[
+			`Address this pull request review comment on ${location}:`,
+			"",
+			...comments,
+		].join("\n"),
+	);
+}
@@ -0,0 +1,274 @@
+import "@xterm/xterm/css/xterm.css";
+import { Slider } from "@superset/ui/slider";
+import { Terminal as XTerm } from "@xterm/xterm";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { LuPause, LuPlay, LuRotateCcw } from "react-icons/lu";
+import type { MosaicBranch } from "react-mosaic-component";
+import { trpc } from "renderer/lib/trpc";
+import { useTabsStore } from "renderer/stores/tabs/store";
+import { useTerminalTheme } from "renderer/stores/theme";
+import { TERMINAL_OPTIONS } from "../../Terminal/config";
+import {
+	getDefaultTerminalBg,
+	getDefaultTerminalTheme,
+} from "../../Terminal/helpers";
+import { BasePaneWindow, PaneToolbarActions } from "../components";
+import {
+	collectPlaybackChunks,
+	formatPlaybackTime,
+	getEventIndexAtTime,
+	getRecordingDuration,
+	type PlaybackChunk,
+	type Recording,
+} from "./playback";
+
+interface ReplayPaneProps {
+	paneId: string;
+	path: MosaicBranch[];
+	isActive: boolean;
+	tabId: string;
+	splitPaneAuto: (
+		tabId: string,
+		sourcePaneId: string,
+		dimensions: { width: number; height: number },
+		path?: MosaicBranch[],
+	) => void;
+	removePane: (paneId: string) => void;
+	setFocusedPane: (tabId: string, paneId: string) => void;
+}
+
+export function ReplayPane({
+	paneId,
+	path,
+	isActive,
+	tabId,
+	splitPaneAuto,
+	removePane,
+	setFocusedPane,
+}: ReplayPaneProps) {
+	// Use granular selector to only get this pane's replay data
+	const replay = useTabsStore((s) => s.panes[paneId]?.replay);
+	const terminalTheme = useTerminalTheme();
+
+	const {
+		data: recording,
+		isLoading,
+		error,
+	} = trpc.terminal.getRecording.useQuery(
+		{
+			workspaceId: replay?.workspaceId ?? "",
+			recordingId: replay?.recordingId ?? "",
+		},
+		{ enabled: !!replay, staleTime: Number.POSITIVE_INFINITY, retry: false },
+	);
+
+	const containerRef = useRef<HTMLDivElement>(null);
+	const xtermRef = useRef<XTerm | null>(null);
+	const positionRef = useRef(0);
+	const eventIndexRef = useRef(0);
+	const [isPlaying, setIsPlaying] = useState(false);
+	const [position, setPosition] = useState(0);
+
+	const duration = recording ? getRecordingDuration(recording.events) : 0;
+
+	const applyChunks = useCallback((chunks: PlaybackChunk[]) => {
+		const xterm = xtermRef.current;
+		if (!xterm) return;
+		for (const chunk of chunks) {
+			if (chunk.type === "output") {
+				xterm.write(chunk.data);
+			} else {
+				xterm.resize(chunk.cols, chunk.rows);
+			}
+		}
+	}, []);
+
+	const seek = useCallback(
+		(time: number, data: Recording) => {
+			const xterm = xtermRef.current;
+			if (!xterm) return;
+
+			// Rebuild the screen from the start; asciicast has no keyframes
+			const index = getEventIndexAtTime(data.events, time);
+			xterm.reset();
+			xterm.resize(data.header.width, data.header.height);
+			applyChunks(collectPlaybackChunks(data.events, 0, index));
+
+			positionRef.current = time;
+			eventIndexRef.current = index;
+			setPosition(time);
+		},
+		[applyChunks],
+	);
+
+	// Create the read-only terminal once the recording is loaded
+	useEffect(() => {
+		const container = containerRef.current;
+		if (!container || !recording) return;
+
+		const xterm = new XTerm({
+			...TERMINAL_OPTIONS,
+			theme: getDefaultTerminalTheme(),
+			cols: recording.header.width,
+			rows: recording.header.height,
+			cursorBlink: false,
+			disableStdin: true,
+		});
+		xterm.open(container);
+		xtermRef.current = xterm;
+
+		positionRef.current = 0;
+		eventIndexRef.current = 0;
+		setPosition(0);
+		setIsPlaying(true);
+
+		return () => {
+			setIsPlaying(false);
+			xterm.dispose();
+			xtermRef.current = null;
+		};
+	}, [recording]);
+
+	// Also runs after the terminal is created for a newly loaded recording
+	// biome-ignore lint/correctness/useExhaustiveDependencies: recording recreates the terminal
+	useEffect(() => {
+		const xterm = xtermRef.current;
+		if (!xterm || !terminalTheme) return;
+		xterm.options.theme = terminalTheme;
+	}, [terminalTheme, recording]);
+
+	// Advance playback in real time, writing events as their timestamps pass
+	useEffect(() => {
+		if (!isPlaying || !recording) return;
+
+		let frameId: number;
+		let lastFrame = performance.now();
+
+		const tick = (now: number) => {
+			positionRef.current = Math.min(
+				positionRef.current + (now - lastFrame) / 1000,
+				duration,
+			);
+			lastFrame = now;
+
+			const index = getEventIndexAtTime(recording.events, positionRef.current);
+			if (index > eventIndexRef.current) {
+				applyChunks(
+					collectPlaybackChunks(recording.events, eventIndexRef.current, index),
+				);
+				eventIndexRef.current = index;
+			}
+			setPosition(positionRef.current);
+
+			if (positionRef.current >= duration) {
+				setIsPlaying(false);
+				return;
+			}
+			frameId = requestAnimationFrame(tick);
+		};
+
+		frameId = requestAnimationFrame(tick);
+		return () => cancelAnimationFrame(frameId);
+	}, [isPlaying, recording, duration, applyChunks]);
+
+	const isFinished = duration > 0 && position >= duration;
+
+	const handleTogglePlay = () => {
+		if (!recording) return;
+		if (isFinished) {
+			seek(0, recording);
+			setIsPlaying(true);
+			return;
+		}
+		setIsPlaying((playing) => !playing);
+	};
+
+	const handleSeek = (values: number[]) => {
+		if (!recording) return;
+		seek(values[0] ?? 0, recording);
+	};
+
+	const terminalBg = terminalTheme?.background ?? getDefaultTerminalBg();
+
+	const renderBody = () => {
+		if (!replay) {
+			return (
+				<div className="flex h-full w-full items-center justify-center text-muted-foreground">
+					Recording unavailable
+				</div>
+			);
+		}
+		if (isLoading) {
+			return (
+				<div className="flex h-full w-full items-center justify-center text-muted-foreground">
+					Loading recording...
+				</div>
+			);
+		}
+		if (error || !recording) {
+			return (
+				<div className="flex h-full w-full items-center justify-center text-muted-foreground">
+					{error?.message ?? "Recording not found"}
+				</div>
+			);
+		}
+		return (
+			<div
+				ref={containerRef}
+				className="h-full w-full overflow-auto p-2"
+				style={{ backgroundColor: terminalBg }}
+			/>
+		);
+	};
+
+	return (
+		<BasePaneWindow
+			paneId={paneId}
+			path={path}
+			tabId={tabId}
+			isActive={isActive}
+			splitPaneAuto={splitPaneAuto}
+			removePane={removePane}
+			setFocusedPane={setFocusedPane}
+			renderToolbar={(handlers) => (
+				<div className="flex h-full w-full items-center justify-between gap-3 px-3">
+					<div className="flex min-w-0 flex-1 items-center gap-2">
+						<button
+							type="button"
+							onClick={handleTogglePlay}
+							disabled={!recording}
+							className="rounded p-0.5 text-muted-foreground/60 transition-colors hover:text-muted-foreground disabled:opacity-50"
+						>
+							{isFinished ? (
+								<LuRotateCcw className="size-3.5" />
+							) : isPlaying ? (
+								<LuPause className="size-3.5" />
+							) : (
+								<LuPlay className="size-3.5" />
+							)}
+						</button>
+						<Slider
+							className="max-w-64 flex-1"
+							min={0}
+							max={duration || 1}
+							step={0.1}
+							value={[position]}
+							onValueChange={handleSeek}
+							disabled={!recording}
+						/>
+						<span className="shrink-0 text-xs tabular-nums text-muted-foreground">
+							{formatPlaybackTime(position)} / {formatPlaybackTime(duration)}
+						</span>
+					</div>
+					<PaneToolbarActions
+						splitOrientation={handlers.splitOrientation}
+						onSplitPane={handlers.onSplitPane}
+						onClosePane={handlers.onClosePane}
+					/>
+				</div>
+			)}
+		>
+			{renderBody()}
+		</BasePaneWindow>
+	);
+}
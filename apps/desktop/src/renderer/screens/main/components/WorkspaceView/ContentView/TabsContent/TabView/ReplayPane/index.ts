@@ -0,0 +1 @@
+export { ReplayPane } from "./ReplayPane";
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "bun:test";
+import {
+	collectPlaybackChunks,
+	formatPlaybackTime,
+	getEventIndexAtTime,
+	getRecordingDuration,
+	type RecordingEvent,
+} from "./playback";
+
+const events: RecordingEvent[] = [
+	[0.1, "o", "a"],
+	[0.2, "o", "b"],
+	[0.5, "r", "100x30"],
+	[0.7, "i", "typed"],
+	[1.0, "o", "c"],
+	[1.0, "o", "d"],
+];
+
+describe("getRecordingDuration", () => {
+	it("should return the last event time", () => {
+		expect(getRecordingDuration(events)).toBe(1.0);
+	});
+
+	it("should return 0 for an empty recording", () => {
+		expect(getRecordingDuration([])).toBe(0);
+	});
+});
+
+describe("getEventIndexAtTime", () => {
+	it("should return 0 before the first event", () => {
+		expect(getEventIndexAtTime(events, 0)).toBe(0);
+	});
+
+	it("should include events at exactly the given time", () => {
+		expect(getEventIndexAtTime(events, 0.2)).toBe(2);
+		expect(getEventIndexAtTime(events, 1.0)).toBe(6);
+	});
+
+	it("should return the event count past the end", () => {
+		expect(getEventIndexAtTime(events, 99)).toBe(events.length);
+	});
+});
+
+describe("collectPlaybackChunks", () => {
+	it("should merge consecutive output and keep resizes in order", () => {
+		expect(collectPlaybackChunks(events, 0, events.length)).toEqual([
+			{ type: "output", data: "ab" },
+			{ type: "resize", cols: 100, rows: 30 },
+			{ type: "output", data: "cd" },
+		]);
+	});
+
+	it("should only include events in the requested range", () => {
+		expect(collectPlaybackChunks(events, 1, 2)).toEqual([
+			{ type: "output", data: "b" },
+		]);
+	});
+
+	it("should skip malformed resize events", () => {
+		expect(collectPlaybackChunks([[0, "r", "bogus"]], 0, 1)).toEqual([]);
+	});
+});
+
+describe("formatPlaybackTime", () => {
+	it("should format as m:ss", () => {
+		expect(formatPlaybackTime(0)).toBe("0:00");
+		expect(formatPlaybackTime(65.9)).toBe("1:05");
+		expect(formatPlaybackTime(600)).toBe("10:00");
+	});
+});
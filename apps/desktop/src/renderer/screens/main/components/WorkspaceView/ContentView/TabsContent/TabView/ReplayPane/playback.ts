@@ -0,0 +1,89 @@
+import type { RouterOutputs } from "renderer/lib/trpc";
+
+export type Recording = RouterOutputs["terminal"]["getRecording"];
+export type RecordingEvent = Recording["events"][number];
+
+export type PlaybackChunk =
+	| { type: "output"; data: string }
+	| { type: "resize"; cols: number; rows: number };
+
+/**
+ * Length of the recording in seconds (timestamp of the last event)
+ */
+export function getRecordingDuration(events: RecordingEvent[]): number {
+	return events.length > 0 ? events[events.length - 1][0] : 0;
+}
+
+/**
+ * Number of events at or before the given time, i.e. the index of the first
+ * event that hasn't happened yet. Events are sorted by time.
+ */
+export function getEventIndexAtTime(
+	events: RecordingEvent[],
+	time: number,
+): number {
+	let low = 0;
+	let high = events.length;
+	while (low < high) {
+		const mid = (low + high) >>> 1;
+		if (events[mid][0] <= time) {
+			low = mid + 1;
+		} else {
+			high = mid;
+		}
+	}
+	return low;
+}
+
+/**
+ * Convert events[from, to) into what the terminal needs to apply, merging
+ * consecutive output so seeking writes one chunk instead of thousands.
+ * Input and marker events don't affect the screen and are skipped.
+ */
+export function collectPlaybackChunks(
+	events: RecordingEvent[],
+	from: number,
+	to: number,
+): PlaybackChunk[] {
+	const chunks: PlaybackChunk[] = [];
+	let pendingOutput = "";
+
+	for (let i = from; i < to; i++) {
+		const [, type, data] = events[i];
+		if (type === "o") {
+			pendingOutput += data;
+		} else if (type === "r") {
+			const size = parseResize(data);
+			if (!size) continue;
+			if (pendingOutput) {
+				chunks.push({ type: "output", data: pendingOutput });
+				pendingOutput = "";
+			}
+			chunks.push({ type: "resize", ...size });
+		}
+	}
+
+	if (pendingOutput) {
+		chunks.push({ type: "output", data: pendingOutput });
+	}
+	return chunks;
+}
+
+function parseResize(data: string): { cols: number; rows: number } | null {
+	const match = data.match(/^(\d+)x(\d+)$/);
+	if (!match) return null;
+	return {
+		cols: Number.parseInt(match[1], 10),
+		rows: Number.parseInt(match[2], 10),
+	};
+}
+
+/**
+ * Format seconds as m:ss for the playback position label
+ */
+export function formatPlaybackTime(seconds: number): string {
+	const totalSeconds = Math.max(0, Math.floor(seconds));
+	const minutes = Math.floor(totalSeconds / 60);
+	const remainder = totalSeconds % 60;
+	return `${minutes}:${remainder.toString().padStart(2, "0")}`;
+}
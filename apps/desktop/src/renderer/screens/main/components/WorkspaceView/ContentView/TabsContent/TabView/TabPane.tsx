@@ -1,5 +1,7 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
+import { LuRadio } from "react-icons/lu";
 import type { MosaicBranch } from "react-mosaic-component";
+import { trpc } from "renderer/lib/trpc";
 import {
 	registerPaneRef,
 	unregisterPaneRef,
@@ -10,7 +12,15 @@ import type { Tab } from "renderer/stores/tabs/types";
 import { TabContentContextMenu } from "../TabContentContextMenu";
 import { Terminal } from "../Terminal";
 import { DirectoryNavigator } from "../Terminal/DirectoryNavigator";
-import { BasePaneWindow, PaneToolbarActions } from "./components";
+import {
+	AgentActivityLabel,
+	BasePaneWindow,
+	PaneToolbarActions,
+	ShareTerminalDialog,
+} from "./components";
+
+const MAX_RECORDING_MENU_ITEMS = 10;
+const MAX_RECENT_COMMAND_MENU_ITEMS = 10;
 
 interface TabPaneProps {
 	paneId: string;
@@ -65,6 +75,9 @@ export function TabPane({
 	const getScrollToBottomCallback = useTerminalCallbacksStore(
 		(s) => s.getScrollToBottomCallback,
 	);
+	const commandActions = useTerminalCallbacksStore((s) =>
+		s.commandActions.get(paneId),
+	);
 
 	useEffect(() => {
 		const container = terminalContainerRef.current;
@@ -84,6 +97,57 @@ export function TabPane({
 		getScrollToBottomCallback(paneId)?.();
 	};
 
+	const [isShareOpen, setIsShareOpen] = useState(false);
+	const { data: shares } = trpc.terminal.listShares.useQuery({ workspaceId });
+	const isShared = shares?.some((share) => share.paneId === paneId) ?? false;
+
+	const addReplayPane = useTabsStore((s) => s.addReplayPane);
+	const { data: recordings } = trpc.terminal.listRecordings.useQuery({
+		workspaceId,
+	});
+	const recordingItems = (recordings ?? [])
+		.slice(0, MAX_RECORDING_MENU_ITEMS)
+		.map((recording) => {
+			const startedAt = new Date(recording.startedAt).toLocaleString();
+			return {
+				id: recording.id,
+				label:
+					recording.paneId === paneId ? `${startedAt} (this pane)` : startedAt,
+			};
+		});
+
+	const handleOpenRecording = (recordingId: string) => {
+		const label = recordingItems.find((r) => r.id === recordingId)?.label;
+		addReplayPane(workspaceId, {
+			recordingId,
+			name: label ? `Replay ${label}` : undefined,
+		});
+	};
+
+	// History is kept by the main process, so it outlives renderer reloads
+	const { data: commandHistory, refetch: refetchCommandHistory } =
+		trpc.terminal.getCommandHistory.useQuery({ paneId });
+	const writeToTerminal = trpc.terminal.write.useMutation();
+	const recentCommands = Array.from(
+		new Set(
+			(commandHistory ?? [])
+				.map((entry) => entry.command.trim())
+				.filter(Boolean)
+				.reverse(),
+		),
+	).slice(0, MAX_RECENT_COMMAND_MENU_ITEMS);
+
+	// Typed at the prompt without Enter so it can be edited before running
+	const handleInsertCommand = (command: string) => {
+		writeToTerminal.mutate({ paneId, data: command });
+	};
+
+	const handleContextMenuOpenChange = (open: boolean) => {
+		if (open) {
+			refetchCommandHistory();
+		}
+	};
+
 	return (
 		<BasePaneWindow
 			paneId={paneId}
@@ -101,6 +165,17 @@ export function TabPane({
 							currentCwd={paneCwd}
 							cwdConfirmed={paneCwdConfirmed}
 						/>
+						<AgentActivityLabel paneId={paneId} />
+						{isShared && (
+							<button
+								type="button"
+								onClick={() => setIsShareOpen(true)}
+								className="flex shrink-0 items-center gap-1 text-xs text-emerald-500 hover:text-emerald-400"
+							>
+								<LuRadio className="size-3.5" />
+								Sharing
+							</button>
+						)}
 					</div>
 					<PaneToolbarActions
 						splitOrientation={handlers.splitOrientation}
@@ -121,11 +196,25 @@ export function TabPane({
 				availableTabs={availableTabs}
 				onMoveToTab={onMoveToTab}
 				onMoveToNewTab={onMoveToNewTab}
+				recordings={recordingItems}
+				onOpenRecording={handleOpenRecording}
+				onJumpToPreviousCommand={commandActions?.jumpToPreviousCommand}
+				onCopyLastCommandOutput={commandActions?.copyLastCommandOutput}
+				recentCommands={recentCommands}
+				onInsertCommand={handleInsertCommand}
+				onShareTerminal={() => setIsShareOpen(true)}
+				onOpenChange={handleContextMenuOpenChange}
 			>
 				<div ref={terminalContainerRef} className="w-full h-full">
 					<Terminal tabId={paneId} workspaceId={workspaceId} />
 				</div>
 			</TabContentContextMenu>
+			<ShareTerminalDialog
+				paneId={paneId}
+				workspaceId={workspaceId}
+				open={isShareOpen}
+				onOpenChange={setIsShareOpen}
+			/>
 		</BasePaneWindow>
 	);
 }
@@ -0,0 +1,288 @@
+import type { DidNavigateInPageEvent, WebviewTag } from "electron";
+import { useEffect, useRef, useState } from "react";
+import {
+	LuArrowLeft,
+	LuArrowRight,
+	LuCode,
+	LuRotateCw,
+	LuX,
+} from "react-icons/lu";
+import type { MosaicBranch } from "react-mosaic-component";
+import { trpc } from "renderer/lib/trpc";
+import { useTabsStore } from "renderer/stores/tabs/store";
+import type { DetectedPort } from "shared/types";
+import { BasePaneWindow, PaneToolbarActions } from "../components";
+import { getWorkspacePartition, normalizeAddress } from "./address";
+
+const NAV_BUTTON_CLASS =
+	"rounded p-0.5 text-muted-foreground/60 transition-colors hover:text-muted-foreground disabled:opacity-30 disabled:hover:text-muted-foreground/60";
+
+interface WebviewPaneProps {
+	paneId: string;
+	path: MosaicBranch[];
+	isActive: boolean;
+	tabId: string;
+	workspaceId: string;
+	splitPaneAuto: (
+		tabId: string,
+		sourcePaneId: string,
+		dimensions: { width: number; height: number },
+		path?: MosaicBranch[],
+	) => void;
+	removePane: (paneId: string) => void;
+	setFocusedPane: (tabId: string, paneId: string) => void;
+}
+
+/** Earliest port opened by one of the workspace's terminals */
+function pickWorkspacePort(
+	ports: DetectedPort[],
+	workspaceId: string,
+): DetectedPort | undefined {
+	return ports
+		.filter((port) => port.workspaceId === workspaceId)
+		.sort((a, b) => a.detectedAt - b.detectedAt)[0];
+}
+
+export function WebviewPane({
+	paneId,
+	path,
+	isActive,
+	tabId,
+	workspaceId,
+	splitPaneAuto,
+	removePane,
+	setFocusedPane,
+}: WebviewPaneProps) {
+	const url = useTabsStore((s) => s.panes[paneId]?.url);
+	const name = useTabsStore((s) => s.panes[paneId]?.name);
+	const waitingForPort = useTabsStore(
+		(s) =>
+			!s.panes[paneId]?.url && s.panes[paneId]?.webview?.port === "detected",
+	);
+	const setPaneUrl = useTabsStore((s) => s.setPaneUrl);
+
+	const { data: initialPorts } = trpc.ports.getAll.useQuery(undefined, {
+		enabled: waitingForPort,
+	});
+
+	useEffect(() => {
+		if (!waitingForPort || !initialPorts) return;
+		const port = pickWorkspacePort(initialPorts, workspaceId);
+		if (port) {
+			setPaneUrl(paneId, `http://localhost:${port.port}`);
+		}
+	}, [waitingForPort, initialPorts, workspaceId, paneId, setPaneUrl]);
+
+	trpc.ports.subscribe.useSubscription(undefined, {
+		enabled: waitingForPort,
+		onData: (event) => {
+			if (event.type === "add" && event.port.workspaceId === workspaceId) {
+				setPaneUrl(paneId, `http://localhost:${event.port.port}`);
+			}
+		},
+	});
+
+	const webviewRef = useRef<WebviewTag | null>(null);
+	// Url the webview is showing, to tell our own navigations from new urls
+	const currentUrlRef = useRef(url);
+	// The src attribute only seeds the first load; later urls go through loadURL
+	const [initialUrl, setInitialUrl] = useState(url);
+	const [address, setAddress] = useState(url ?? "");
+	const [isReady, setIsReady] = useState(false);
+	const [isLoading, setIsLoading] = useState(false);
+	const [canGoBack, setCanGoBack] = useState(false);
+	const [canGoForward, setCanGoForward] = useState(false);
+	const [isDevToolsOpen, setIsDevToolsOpen] = useState(false);
+
+	// Urls set from outside (address bar, ports, terminal links, triggers)
+	useEffect(() => {
+		if (!url || url === currentUrlRef.current) return;
+		currentUrlRef.current = url;
+		setAddress(url);
+		if (!initialUrl) {
+			setInitialUrl(url);
+		} else if (isReady) {
+			webviewRef.current?.loadURL(url).catch(() => {
+				// Failed loads show the webview's own error page
+			});
+		}
+	}, [url, initialUrl, isReady]);
+
+	useEffect(() => {
+		const webview = webviewRef.current;
+		if (!webview || !initialUrl) return;
+
+		const syncHistory = () => {
+			setCanGoBack(webview.canGoBack());
+			setCanGoForward(webview.canGoForward());
+		};
+		const handleNavigate = (event: { url: string }) => {
+			currentUrlRef.current = event.url;
+			setAddress(event.url);
+			setPaneUrl(paneId, event.url);
+			syncHistory();
+		};
+		const handleInPageNavigate = (event: DidNavigateInPageEvent) => {
+			if (event.isMainFrame) handleNavigate(event);
+		};
+		const handleDomReady = () => {
+			setIsReady(true);
+			syncHistory();
+		};
+		const handleStartLoading = () => setIsLoading(true);
+		const handleStopLoading = () => setIsLoading(false);
+		const handleDevToolsOpened = () => setIsDevToolsOpen(true);
+		const handleDevToolsClosed = () => setIsDevToolsOpen(false);
+
+		webview.addEventListener("dom-ready", handleDomReady);
+		webview.addEventListener("did-navigate", handleNavigate);
+		webview.addEventListener("did-navigate-in-page", handleInPageNavigate);
+		webview.addEventListener("did-start-loading", handleStartLoading);
+		webview.addEventListener("did-stop-loading", handleStopLoading);
+		webview.addEventListener("devtools-opened", handleDevToolsOpened);
+		webview.addEventListener("devtools-closed", handleDevToolsClosed);
+		return () => {
+			webview.removeEventListener("dom-ready", handleDomReady);
+			webview.removeEventListener("did-navigate", handleNavigate);
+			webview.removeEventListener("did-navigate-in-page", handleInPageNavigate);
+			webview.removeEventListener("did-start-loading", handleStartLoading);
+			webview.removeEventListener("did-stop-loading", handleStopLoading);
+			webview.removeEventListener("devtools-opened", handleDevToolsOpened);
+			webview.removeEventListener("devtools-closed", handleDevToolsClosed);
+		};
+	}, [initialUrl, paneId, setPaneUrl]);
+
+	const handleSubmitAddress = (e: React.FormEvent) => {
+		e.preventDefault();
+		const nextUrl = normalizeAddress(address);
+		if (!nextUrl) return;
+		if (nextUrl === currentUrlRef.current) {
+			webviewRef.current?.reload();
+			return;
+		}
+		setPaneUrl(paneId, nextUrl);
+	};
+
+	const handleReload = () => {
+		const webview = webviewRef.current;
+		if (!webview) return;
+		if (isLoading) {
+			webview.stop();
+		} else {
+			webview.reload();
+		}
+	};
+
+	const handleToggleDevTools = () => {
+		const webview = webviewRef.current;
+		if (!webview) return;
+		if (webview.isDevToolsOpened()) {
+			webview.closeDevTools();
+		} else {
+			webview.openDevTools();
+		}
+	};
+
+	const renderBody = () => {
+		if (initialUrl) {
+			return (
+				<webview
+					ref={webviewRef as React.Ref<HTMLWebViewElement>}
+					src={initialUrl}
+					partition={getWorkspacePartition(workspaceId)}
+					className="h-full w-full"
+				/>
+			);
+		}
+		return (
+			<div className="flex h-full w-full items-center justify-center text-sm text-muted-foreground">
+				{waitingForPort ? "Waiting for a dev server port..." : "Enter a URL"}
+			</div>
+		);
+	};
+
+	return (
+		<BasePaneWindow
+			paneId={paneId}
+			path={path}
+			tabId={tabId}
+			isActive={isActive}
+			splitPaneAuto={splitPaneAuto}
+			removePane={removePane}
+			setFocusedPane={setFocusedPane}
+			renderToolbar={(handlers) => (
+				<div className="flex h-full w-full items-center justify-between gap-2 px-3">
+					<div className="flex shrink-0 items-center gap-1">
+						<button
+							type="button"
+							aria-label="Back"
+							onClick={() => webviewRef.current?.goBack()}
+							disabled={!canGoBack}
+							className={NAV_BUTTON_CLASS}
+						>
+							<LuArrowLeft className="size-3.5" />
+						</button>
+						<button
+							type="button"
+							aria-label="Forward"
+							onClick={() => webviewRef.current?.goForward()}
+							disabled={!canGoForward}
+							className={NAV_BUTTON_CLASS}
+						>
+							<LuArrowRight className="size-3.5" />
+						</button>
+						<button
+							type="button"
+							aria-label={isLoading ? "Stop" : "Reload"}
+							onClick={handleReload}
+							disabled={!isReady}
+							className={NAV_BUTTON_CLASS}
+						>
+							{isLoading ? (
+								<LuX className="size-3.5" />
+							) : (
+								<LuRotateCw className="size-3.5" />
+							)}
+						</button>
+					</div>
+					<form onSubmit={handleSubmitAddress} className="min-w-0 flex-1">
+						<input
+							type="text"
+							aria-label="Address"
+							value={address}
+							placeholder={name}
+							spellCheck={false}
+							onChange={(e) => setAddress(e.target.value)}
+							onFocus={(e) => e.target.select()}
+							onKeyDown={(e) => {
+								if (e.key === "Escape") {
+									setAddress(currentUrlRef.current ?? "");
+									e.currentTarget.blur();
+								}
+							}}
+							className="h-5 w-full rounded bg-muted/50 px-2 font-mono text-xs text-muted-foreground outline-none focus:bg-muted focus:text-foreground"
+						/>
+					</form>
+					<PaneToolbarActions
+						splitOrientation={handlers.splitOrientation}
+						onSplitPane={handlers.onSplitPane}
+						onClosePane={handlers.onClosePane}
+						leadingActions={
+							<button
+								type="button"
+								aria-label="Toggle developer tools"
+								onClick={handleToggleDevTools}
+								disabled={!isReady}
+								className={`${NAV_BUTTON_CLASS} ${isDevToolsOpen ? "text-foreground" : ""}`}
+							>
+								<LuCode className="size-3.5" />
+							</button>
+						}
+					/>
+				</div>
+			)}
+		>
+			{renderBody()}
+		</BasePaneWindow>
+	);
+}
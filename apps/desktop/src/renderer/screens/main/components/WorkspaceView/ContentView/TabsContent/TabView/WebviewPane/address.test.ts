@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import { getWorkspacePartition, normalizeAddress } from "./address";
+
+describe("normalizeAddress", () => {
+	test("keeps urls with a scheme", () => {
+		expect(normalizeAddress("https://example.com/a")).toBe(
+			"https://example.com/a",
+		);
+		expect(normalizeAddress(" about:blank ")).toBe("about:blank");
+	});
+
+	test("uses http for local addresses and bare ports", () => {
+		expect(normalizeAddress("localhost:3000/docs")).toBe(
+			"http://localhost:3000/docs",
+		);
+		expect(normalizeAddress("127.0.0.1:8080")).toBe("http://127.0.0.1:8080");
+		expect(normalizeAddress("5173")).toBe("http://localhost:5173");
+		expect(normalizeAddress(":4000/api")).toBe("http://localhost:4000/api");
+	});
+
+	test("uses https for other hosts", () => {
+		expect(normalizeAddress("example.com")).toBe("https://example.com");
+		expect(normalizeAddress("example.com:8443")).toBe(
+			"https://example.com:8443",
+		);
+	});
+
+	test("ignores empty input", () => {
+		expect(normalizeAddress("   ")).toBeNull();
+	});
+});
+
+describe("getWorkspacePartition", () => {
+	test("persists per workspace", () => {
+		expect(getWorkspacePartition("ws-1")).toBe("persist:workspace-ws-1");
+	});
+});
@@ -0,0 +1,25 @@
+const SCHEME = /^[a-z][a-z\d+.-]*:/i;
+const LOCAL_HOST =
+	/^(localhost|127\.\d+\.\d+\.\d+|0\.0\.0\.0|\[::1\])(:\d+)?(\/|$)/i;
+
+/**
+ * Turns what was typed in the address bar into a url. Local addresses and
+ * bare ports default to http, everything else to https.
+ */
+export function normalizeAddress(input: string): string | null {
+	const address = input.trim();
+	if (!address) return null;
+	if (/^\d{2,5}$/.test(address)) return `http://localhost:${address}`;
+	if (/^:\d{2,5}(\/.*)?$/.test(address)) return `http://localhost${address}`;
+	if (SCHEME.test(address) && !/^[^/]+:\d/.test(address)) return address;
+	if (LOCAL_HOST.test(address)) return `http://${address}`;
+	return `https://${address}`;
+}
+
+/**
+ * Session partition shared by a workspace's browser panes, so cookies and
+ * storage persist across restarts without leaking between workspaces.
+ */
+export function getWorkspacePartition(workspaceId: string): string {
+	return `persist:workspace-${workspaceId}`;
+}
@@ -0,0 +1 @@
+export { WebviewPane } from "./WebviewPane";
@@ -0,0 +1,102 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from "@superset/ui/tooltip";
+import { useState } from "react";
+import { trpc } from "renderer/lib/trpc";
+import type {
+	AgentActivityEvent,
+	PaneAgentActivity,
+} from "shared/notification-types";
+
+/** Agents configured in ~/.superset/agents.json fall back to their id */
+const AGENT_LABELS: Record<string, string> = {
+	claude: "Claude",
+	codex: "Codex",
+	opencode: "OpenCode",
+	unknown: "Agent",
+};
+
+function describeEvent(event: AgentActivityEvent): string {
+	switch (event.eventType) {
+		case "Start":
+			return "Thinking";
+		case "PreToolUse":
+			return event.toolInputSummary
+				? `${event.toolName} ${event.toolInputSummary}`
+				: `Running ${event.toolName ?? "tool"}`;
+		case "PostToolUse":
+			return event.error
+				? `${event.toolName ?? "Tool"} failed`
+				: `Finished ${event.toolName ?? "tool"}`;
+		case "Notification":
+			return event.message ?? "Notification";
+		case "PermissionRequest":
+			return `Needs permission${event.toolName ? ` for ${event.toolName}` : ""}`;
+		case "SubagentStop":
+			return "Subagent finished";
+		case "Stop":
+			return event.error ? "Stopped with error" : "Done";
+	}
+}
+
+function formatTokens(event: AgentActivityEvent): string | null {
+	const usage = event.tokenUsage;
+	if (!usage) return null;
+	const input =
+		(usage.inputTokens ?? 0) +
+		(usage.cacheReadTokens ?? 0) +
+		(usage.cacheWriteTokens ?? 0);
+	return `${input.toLocaleString()} in / ${(usage.outputTokens ?? 0).toLocaleString()} out`;
+}
+
+interface AgentActivityLabelProps {
+	paneId: string;
+}
+
+/**
+ * Shows what the agent running in a terminal pane is currently doing,
+ * based on structured hook events from the notifications server.
+ */
+export function AgentActivityLabel({ paneId }: AgentActivityLabelProps) {
+	const [activity, setActivity] = useState<PaneAgentActivity | null>(null);
+
+	trpc.notifications.agentActivity.useSubscription(
+		{ paneId },
+		{
+			onData: (update) => {
+				if (update.paneId === paneId) setActivity(update.activity);
+			},
+		},
+	);
+
+	if (!activity) return null;
+
+	const { current, recent } = activity;
+	const tokens = formatTokens(current);
+
+	return (
+		<Tooltip>
+			<TooltipTrigger asChild>
+				<span className="min-w-0 truncate text-xs text-muted-foreground">
+					{AGENT_LABELS[current.agent] ?? current.agent}:{" "}
+					{describeEvent(current)}
+				</span>
+			</TooltipTrigger>
+			<TooltipContent side="bottom" className="max-w-96">
+				<div className="flex flex-col gap-0.5 text-xs">
+					{recent
+						.slice(-5)
+						.reverse()
+						.map((event) => (
+							<span key={`${event.timestamp}-${event.eventType}`}>
+								{new Date(event.timestamp).toLocaleTimeString()}{" "}
+								{describeEvent(event)}
+							</span>
+						))}
+					{current.error && (
+						<span className="text-destructive">{current.error}</span>
+					)}
+					{tokens && <span className="text-muted-foreground">{tokens}</span>}
+				</div>
+			</TooltipContent>
+		</Tooltip>
+	);
+}
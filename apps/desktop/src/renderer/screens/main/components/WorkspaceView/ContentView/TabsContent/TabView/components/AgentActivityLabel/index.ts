@@ -0,0 +1 @@
+export { AgentActivityLabel } from "./AgentActivityLabel";
@@ -0,0 +1,234 @@
+import {
+	AlertDialog,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@superset/ui/alert-dialog";
+import { Button } from "@superset/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@superset/ui/dialog";
+import { Input } from "@superset/ui/input";
+import { Label } from "@superset/ui/label";
+import { toast } from "@superset/ui/sonner";
+import { Switch } from "@superset/ui/switch";
+import { useState } from "react";
+import { LuCopy } from "react-icons/lu";
+import { trpc } from "renderer/lib/trpc";
+
+// Viewer count is only known to the main process, so poll while open
+const SHARE_REFETCH_INTERVAL_MS = 3000;
+
+interface ShareTerminalDialogProps {
+	paneId: string;
+	workspaceId: string;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Starts, configures and stops sharing a pane through a tokenized link to a
+ * browser view. Links only work on this machine unless network access is
+ * turned on, and letting viewers type has to be confirmed.
+ */
+export function ShareTerminalDialog({
+	paneId,
+	workspaceId,
+	open,
+	onOpenChange,
+}: ShareTerminalDialogProps) {
+	const [allowWrite, setAllowWrite] = useState(false);
+	const [lanAccess, setLanAccess] = useState(false);
+	const [isConfirmingWrite, setIsConfirmingWrite] = useState(false);
+	const utils = trpc.useUtils();
+	const { data: shares } = trpc.terminal.listShares.useQuery(
+		{ workspaceId },
+		{ enabled: open, refetchInterval: open && SHARE_REFETCH_INTERVAL_MS },
+	);
+	const share = shares?.find((s) => s.paneId === paneId);
+
+	const invalidateShares = () => utils.terminal.listShares.invalidate();
+	const sharePane = trpc.terminal.sharePane.useMutation({
+		onSuccess: invalidateShares,
+		onError: (error) =>
+			toast.error(`Failed to share terminal: ${error.message}`),
+	});
+	const setShareWritable = trpc.terminal.setShareWritable.useMutation({
+		onSuccess: invalidateShares,
+	});
+	const revokeShare = trpc.terminal.revokeShare.useMutation({
+		onSuccess: () => {
+			invalidateShares();
+			toast.success("Stopped sharing terminal");
+		},
+	});
+
+	const handleCopy = async () => {
+		if (!share) return;
+		await navigator.clipboard.writeText(share.url);
+		toast.success("Share link copied to clipboard");
+	};
+
+	const applyAllowWrite = (checked: boolean) => {
+		if (share) {
+			setShareWritable.mutate({ shareId: share.id, allowWrite: checked });
+		} else {
+			setAllowWrite(checked);
+		}
+	};
+
+	// Typing into the pane runs commands as the user, so ask before enabling
+	const handleWriteToggle = (checked: boolean) => {
+		if (checked) {
+			setIsConfirmingWrite(true);
+		} else {
+			applyAllowWrite(false);
+		}
+	};
+
+	const handleLanToggle = (checked: boolean) => {
+		if (share) {
+			sharePane.mutate({ paneId, workspaceId, lanAccess: checked });
+		} else {
+			setLanAccess(checked);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-md">
+				<DialogHeader>
+					<DialogTitle>Share Terminal</DialogTitle>
+					<DialogDescription>
+						Anyone with the link can watch this terminal in a browser until you
+						stop sharing or the link expires.
+					</DialogDescription>
+				</DialogHeader>
+
+				{share && (
+					<div className="space-y-1.5">
+						<div className="flex gap-2">
+							<Input
+								readOnly
+								value={share.url}
+								className="font-mono text-xs"
+								onFocus={(event) => event.target.select()}
+							/>
+							<Button
+								variant="secondary"
+								size="icon"
+								onClick={handleCopy}
+								aria-label="Copy share link"
+							>
+								<LuCopy className="size-4" />
+							</Button>
+						</div>
+						<p className="text-xs text-muted-foreground">
+							{share.viewerCount === 0
+								? "No one is watching yet"
+								: `${share.viewerCount} ${share.viewerCount === 1 ? "viewer" : "viewers"} watching`}
+							{` · Expires at ${new Date(share.expiresAt).toLocaleTimeString()}`}
+						</p>
+					</div>
+				)}
+
+				<div className="flex items-center justify-between">
+					<div className="space-y-0.5">
+						<Label htmlFor="share-lan-access" className="text-sm font-medium">
+							Allow access from your network
+						</Label>
+						<p className="text-xs text-muted-foreground">
+							Other devices on your network can open the link
+						</p>
+					</div>
+					<Switch
+						id="share-lan-access"
+						checked={share?.lanAccess ?? lanAccess}
+						onCheckedChange={handleLanToggle}
+						disabled={sharePane.isPending}
+					/>
+				</div>
+
+				<div className="flex items-center justify-between">
+					<div className="space-y-0.5">
+						<Label htmlFor="share-allow-write" className="text-sm font-medium">
+							Allow viewers to type
+						</Label>
+						<p className="text-xs text-muted-foreground">
+							Viewers' keystrokes are sent to this terminal
+						</p>
+					</div>
+					<Switch
+						id="share-allow-write"
+						checked={share?.allowWrite ?? allowWrite}
+						onCheckedChange={handleWriteToggle}
+						disabled={setShareWritable.isPending}
+					/>
+				</div>
+
+				<DialogFooter>
+					{share ? (
+						<Button
+							variant="destructive"
+							onClick={() => revokeShare.mutate({ shareId: share.id })}
+							disabled={revokeShare.isPending}
+						>
+							Stop Sharing
+						</Button>
+					) : (
+						<Button
+							onClick={() =>
+								sharePane.mutate({ paneId, workspaceId, allowWrite, lanAccess })
+							}
+							disabled={sharePane.isPending}
+						>
+							Start Sharing
+						</Button>
+					)}
+				</DialogFooter>
+			</DialogContent>
+
+			<AlertDialog open={isConfirmingWrite} onOpenChange={setIsConfirmingWrite}>
+				<AlertDialogContent className="max-w-[340px] gap-0 p-0">
+					<AlertDialogHeader className="px-4 pt-4 pb-2">
+						<AlertDialogTitle className="font-medium">
+							Let viewers type?
+						</AlertDialogTitle>
+						<AlertDialogDescription>
+							Anyone with the link will be able to run commands in this terminal
+							as you.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter className="px-4 pb-4 pt-2 flex-row justify-end gap-2">
+						<Button
+							variant="ghost"
+							size="sm"
+							className="h-7 px-3 text-xs"
+							onClick={() => setIsConfirmingWrite(false)}
+						>
+							Cancel
+						</Button>
+						<Button
+							variant="destructive"
+							size="sm"
+							className="h-7 px-3 text-xs"
+							onClick={() => {
+								setIsConfirmingWrite(false);
+								applyAllowWrite(true);
+							}}
+						>
+							Allow Typing
+						</Button>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</Dialog>
+	);
+}
@@ -0,0 +1 @@
+export { ShareTerminalDialog } from "./ShareTerminalDialog";
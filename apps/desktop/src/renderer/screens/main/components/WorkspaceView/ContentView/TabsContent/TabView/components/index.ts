@@ -1,2 +1,4 @@
+export { AgentActivityLabel } from "./AgentActivityLabel";
 export { BasePaneWindow, type PaneHandlers } from "./BasePaneWindow";
 export { PaneToolbarActions } from "./PaneToolbarActions";
+export { ShareTerminalDialog } from "./ShareTerminalDialog";
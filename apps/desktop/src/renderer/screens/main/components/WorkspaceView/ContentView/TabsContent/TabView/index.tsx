@@ -16,8 +16,12 @@ import {
 	cleanLayout,
 	extractPaneIdsFromLayout,
 } from "renderer/stores/tabs/utils";
+import { CheckLogsPane } from "./CheckLogsPane";
 import { FileViewerPane } from "./FileViewerPane";
+import { PullRequestPane } from "./PullRequestPane";
+import { ReplayPane } from "./ReplayPane";
 import { TabPane } from "./TabPane";
+import { WebviewPane } from "./WebviewPane";
 
 interface TabViewProps {
 	tab: Tab;
@@ -139,6 +143,75 @@ export function TabView({ tab }: TabViewProps) {
 				);
 			}
 
+			// Route replay panes to ReplayPane component
+			if (paneInfo.type === "replay") {
+				return (
+					<ReplayPane
+						paneId={paneId}
+						path={path}
+						isActive={isActive}
+						tabId={tab.id}
+						splitPaneAuto={splitPaneAuto}
+						removePane={removePane}
+						setFocusedPane={setFocusedPane}
+					/>
+				);
+			}
+
+			// Route pull-request panes to PullRequestPane component
+			if (paneInfo.type === "pull-request") {
+				if (!worktreePath) {
+					return (
+						<div className="w-full h-full flex items-center justify-center text-muted-foreground">
+							Workspace path unavailable
+						</div>
+					);
+				}
+				return (
+					<PullRequestPane
+						paneId={paneId}
+						path={path}
+						isActive={isActive}
+						tabId={tab.id}
+						worktreePath={worktreePath}
+						splitPaneAuto={splitPaneAuto}
+						removePane={removePane}
+						setFocusedPane={setFocusedPane}
+					/>
+				);
+			}
+
+			// Route check-logs panes to CheckLogsPane component
+			if (paneInfo.type === "check-logs") {
+				return (
+					<CheckLogsPane
+						paneId={paneId}
+						path={path}
+						isActive={isActive}
+						tabId={tab.id}
+						splitPaneAuto={splitPaneAuto}
+						removePane={removePane}
+						setFocusedPane={setFocusedPane}
+					/>
+				);
+			}
+
+			// Route webview panes to WebviewPane component
+			if (paneInfo.type === "webview") {
+				return (
+					<WebviewPane
+						paneId={paneId}
+						path={path}
+						isActive={isActive}
+						tabId={tab.id}
+						workspaceId={tab.workspaceId}
+						splitPaneAuto={splitPaneAuto}
+						removePane={removePane}
+						setFocusedPane={setFocusedPane}
+					/>
+				);
+			}
+
 			// Default: terminal panes
 			return (
 				<TabPane
@@ -23,9 +23,17 @@ import {
 } from "./helpers";
 import { parseCwd } from "./parseCwd";
 import { ScrollToBottomButton } from "./ScrollToBottomButton";
+import {
+	type ShellIntegration,
+	setupShellIntegration,
+} from "./shellIntegration";
 import { TerminalSearch } from "./TerminalSearch";
 import type { TerminalProps, TerminalStreamEvent } from "./types";
-import { shellEscapePaths, smoothScrollToBottom } from "./utils";
+import {
+	revealTerminalLine,
+	shellEscapePaths,
+	smoothScrollToBottom,
+} from "./utils";
 
 export const Terminal = ({ tabId, workspaceId }: TerminalProps) => {
 	const paneId = tabId;
@@ -39,6 +47,7 @@ export const Terminal = ({ tabId, workspaceId }: TerminalProps) => {
 	const xtermRef = useRef<XTerm | null>(null);
 	const fitAddonRef = useRef<FitAddon | null>(null);
 	const searchAddonRef = useRef<SearchAddon | null>(null);
+	const shellIntegrationRef = useRef<ShellIntegration | null>(null);
 	const isExitedRef = useRef(false);
 	const pendingEventsRef = useRef<TerminalStreamEvent[]>([]);
 	const commandBufferRef = useRef("");
@@ -55,6 +64,7 @@ export const Terminal = ({ tabId, workspaceId }: TerminalProps) => {
 		(s) => s.focusedPaneIds[pane?.tabId ?? ""],
 	);
 	const addFileViewerPane = useTabsStore((s) => s.addFileViewerPane);
+	const openBrowserPane = useTabsStore((s) => s.openBrowserPane);
 	const setPaneStatus = useTabsStore((s) => s.setPaneStatus);
 	const terminalTheme = useTerminalTheme();
 
@@ -149,6 +159,13 @@ export const Terminal = ({ tabId, workspaceId }: TerminalProps) => {
 	const handleFileLinkClickRef = useRef(handleFileLinkClick);
 	handleFileLinkClickRef.current = handleFileLinkClick;
 
+	const handleUrlLinkClick = useCallback(
+		(url: string) => openBrowserPane(workspaceId, url),
+		[openBrowserPane, workspaceId],
+	);
+	const handleUrlLinkClickRef = useRef(handleUrlLinkClick);
+	handleUrlLinkClickRef.current = handleUrlLinkClick;
+
 	// Seed cwd from initialCwd or workspace path (shell spawns there)
 	// OSC-7 will override if/when the shell reports directory changes
 	useEffect(() => {
@@ -226,6 +243,12 @@ export const Terminal = ({ tabId, workspaceId }: TerminalProps) => {
 	const unregisterScrollToBottomCallbackRef = useRef(
 		useTerminalCallbacksStore.getState().unregisterScrollToBottomCallback,
 	);
+	const registerCommandActionsRef = useRef(
+		useTerminalCallbacksStore.getState().registerCommandActions,
+	);
+	const unregisterCommandActionsRef = useRef(
+		useTerminalCallbacksStore.getState().unregisterCommandActions,
+	);
 
 	const parentTabIdRef = useRef(parentTabId);
 	parentTabIdRef.current = parentTabId;
@@ -316,6 +339,24 @@ export const Terminal = ({ tabId, workspaceId }: TerminalProps) => {
 		[isFocused],
 	);
 
+	useAppHotkey(
+		"PREV_COMMAND",
+		() => {
+			shellIntegrationRef.current?.jumpToPreviousCommand();
+		},
+		{ enabled: isFocused, preventDefault: true },
+		[isFocused],
+	);
+
+	useAppHotkey(
+		"NEXT_COMMAND",
+		() => {
+			shellIntegrationRef.current?.jumpToNextCommand();
+		},
+		{ enabled: isFocused, preventDefault: true },
+		[isFocused],
+	);
+
 	useEffect(() => {
 		const container = terminalRef.current;
 		if (!container) return;
@@ -331,9 +372,12 @@ export const Terminal = ({ tabId, workspaceId }: TerminalProps) => {
 			initialTheme: initialThemeRef.current,
 			onFileLinkClick: (path, line, column) =>
 				handleFileLinkClickRef.current(path, line, column),
+			onUrlLinkClick: (url) => handleUrlLinkClickRef.current(url),
 		});
+		const shellIntegration = setupShellIntegration(xterm);
 		xtermRef.current = xterm;
 		fitAddonRef.current = fitAddon;
+		shellIntegrationRef.current = shellIntegration;
 		isExitedRef.current = false;
 		setXtermInstance(xterm);
 
@@ -536,6 +580,22 @@ export const Terminal = ({ tabId, workspaceId }: TerminalProps) => {
 		// Register scroll to bottom callback for context menu access
 		registerScrollToBottomCallbackRef.current(paneId, handleScrollToBottom);
 
+		registerCommandActionsRef.current(paneId, {
+			jumpToPreviousCommand: shellIntegration.jumpToPreviousCommand,
+			jumpToNextCommand: shellIntegration.jumpToNextCommand,
+			copyLastCommandOutput: () => {
+				const output = shellIntegration.getLastCommandOutput();
+				if (output === null) {
+					toast.error("No finished command to copy output from");
+					return;
+				}
+				navigator.clipboard
+					.writeText(output)
+					.then(() => toast.success("Command output copied to clipboard"))
+					.catch(() => toast.error("Failed to copy command output"));
+			},
+		});
+
 		const cleanupFocus = setupFocusListener(xterm, () =>
 			handleTerminalFocusRef.current(),
 		);
@@ -566,18 +626,34 @@ export const Terminal = ({ tabId, workspaceId }: TerminalProps) => {
 			cleanupQuerySuppression();
 			unregisterClearCallbackRef.current(paneId);
 			unregisterScrollToBottomCallbackRef.current(paneId);
+			unregisterCommandActionsRef.current(paneId);
 			debouncedSetTabAutoTitleRef.current?.cancel?.();
 			const viewportY = xterm.buffer.active.viewportY;
 			// Detach instead of kill to keep PTY running for reattachment
 			detachRef.current({ paneId, viewportY });
 			setSubscriptionEnabled(false);
+			shellIntegration.dispose();
 			xterm.dispose();
 			xtermRef.current = null;
 			searchAddonRef.current = null;
+			shellIntegrationRef.current = null;
 			setXtermInstance(null);
 		};
 	}, [paneId, workspaceId, workspaceCwd]);
 
+	// Jump to a line picked in workspace-wide search, once scrollback is loaded
+	const pendingReveal = useTerminalCallbacksStore((s) =>
+		s.pendingReveals.get(paneId),
+	);
+	useEffect(() => {
+		if (!pendingReveal || !xtermInstance || !subscriptionEnabled) return;
+		useTerminalCallbacksStore.getState().clearReveal(paneId);
+		// Empty write runs the callback after queued output has been parsed
+		xtermInstance.write("", () => {
+			revealTerminalLine(xtermInstance, pendingReveal);
+		});
+	}, [pendingReveal, xtermInstance, subscriptionEnabled, paneId]);
+
 	useEffect(() => {
 		const xterm = xtermRef.current;
 		if (!xterm || !terminalTheme) return;
@@ -97,6 +97,8 @@ export interface CreateTerminalOptions {
 	cwd?: string;
 	initialTheme?: ITheme | null;
 	onFileLinkClick?: (path: string, line?: number, column?: number) => void;
+	/** Handles ⌘⇧-clicked urls; plain ⌘-click opens the external browser */
+	onUrlLinkClick?: (url: string) => void;
 }
 
 export function createTerminalInstance(
@@ -107,7 +109,7 @@ export function createTerminalInstance(
 	fitAddon: FitAddon;
 	cleanup: () => void;
 } {
-	const { cwd, initialTheme, onFileLinkClick } = options;
+	const { cwd, initialTheme, onFileLinkClick, onUrlLinkClick } = options;
 
 	// Use provided theme, or fall back to localStorage-based default to prevent flash
 	const theme = initialTheme ?? getDefaultTerminalTheme();
@@ -140,7 +142,11 @@ export function createTerminalInstance(
 
 	const cleanupQuerySuppression = suppressQueryResponses(xterm);
 
-	const urlLinkProvider = new UrlLinkProvider(xterm, (_event, uri) => {
+	const urlLinkProvider = new UrlLinkProvider(xterm, (event, uri) => {
+		if (event.shiftKey && onUrlLinkClick) {
+			onUrlLinkClick(uri);
+			return;
+		}
 		trpcClient.external.openUrl.mutate(uri).catch((error) => {
 			console.error("[Terminal] Failed to open URL:", uri, error);
 			toast.error("Failed to open URL", {
@@ -0,0 +1,235 @@
+import type {
+	IBuffer,
+	IDecoration,
+	IDisposable,
+	IMarker,
+	Terminal as XTerm,
+} from "@xterm/xterm";
+import {
+	OSC_SEMANTIC_PROMPT,
+	OSC_SHELL_PROPERTIES,
+	parseShellIntegrationSequence,
+	type ShellIntegrationMark,
+} from "shared/shell-integration";
+
+/** Commands whose marks are kept; older ones are disposed */
+const MAX_TRACKED_COMMANDS = 500;
+
+const GUTTER_WIDTH_PX = 3;
+const FALLBACK_SUCCESS_COLOR = "#34d399";
+const FALLBACK_FAILURE_COLOR = "#f87171";
+const FALLBACK_UNKNOWN_COLOR = "#737373";
+
+interface TrackedCommand {
+	/** Start of the prompt the command was typed at */
+	promptMarker: IMarker;
+	/** First row of the command's output */
+	outputMarker: IMarker | null;
+	/** Row the cursor was on when the command finished */
+	endMarker: IMarker | null;
+	/** Cursor column when the command finished, to trim the last row */
+	endColumn: number;
+	decoration?: IDecoration;
+}
+
+export interface ShellIntegration {
+	jumpToPreviousCommand: () => void;
+	jumpToNextCommand: () => void;
+	/** Output of the last finished command, or null if there is none */
+	getLastCommandOutput: () => string | null;
+	dispose: () => void;
+}
+
+/**
+ * Text of buffer rows from `startRow` to `endRow` inclusive, with wrapped
+ * rows joined and the last row cut at `endColumn`.
+ */
+function getRowsText(
+	buffer: IBuffer,
+	startRow: number,
+	endRow: number,
+	endColumn: number,
+): string {
+	const lines: string[] = [];
+	for (let row = startRow; row <= endRow; row++) {
+		const line = buffer.getLine(row);
+		if (!line) continue;
+		const text =
+			row === endRow
+				? line.translateToString(true, 0, endColumn)
+				: line.translateToString(true);
+		if (line.isWrapped && lines.length > 0) {
+			lines[lines.length - 1] += text;
+		} else {
+			lines.push(text);
+		}
+	}
+	while (lines.length > 0 && lines[lines.length - 1] === "") {
+		lines.pop();
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Tracks command boundaries from the OSC 133/633 sequences our shell
+ * wrappers emit: marks each finished command's prompt with a gutter bar
+ * colored by exit code, and supports jumping between prompts and copying
+ * the last command's output. Scrollback restored on reattach carries no
+ * sequences, so only commands run while the pane is mounted are tracked.
+ */
+export function setupShellIntegration(xterm: XTerm): ShellIntegration {
+	const commands: TrackedCommand[] = [];
+	let current: TrackedCommand | null = null;
+
+	const getColor = (exitCode: number | null): string => {
+		const theme = xterm.options.theme;
+		if (exitCode === null) {
+			return theme?.brightBlack ?? FALLBACK_UNKNOWN_COLOR;
+		}
+		return exitCode === 0
+			? (theme?.green ?? FALLBACK_SUCCESS_COLOR)
+			: (theme?.red ?? FALLBACK_FAILURE_COLOR);
+	};
+
+	const decorate = (command: TrackedCommand, exitCode: number | null) => {
+		const color = getColor(exitCode);
+		const decoration = xterm.registerDecoration({
+			marker: command.promptMarker,
+			x: 0,
+			width: 1,
+			overviewRulerOptions: { color, position: "left" },
+		});
+		decoration?.onRender((element) => {
+			element.style.width = `${GUTTER_WIDTH_PX}px`;
+			element.style.backgroundColor = color;
+			element.style.pointerEvents = "none";
+		});
+		command.decoration = decoration;
+	};
+
+	const disposeCommand = (command: TrackedCommand) => {
+		command.decoration?.dispose();
+		command.promptMarker.dispose();
+		command.outputMarker?.dispose();
+		command.endMarker?.dispose();
+	};
+
+	const finishCurrent = (exitCode: number | null) => {
+		if (!current?.outputMarker) return;
+
+		current.endMarker = xterm.registerMarker(0) ?? null;
+		current.endColumn = xterm.buffer.active.cursorX;
+		decorate(current, exitCode);
+		commands.push(current);
+		current = null;
+
+		if (commands.length > MAX_TRACKED_COMMANDS) {
+			for (const command of commands.splice(
+				0,
+				commands.length - MAX_TRACKED_COMMANDS,
+			)) {
+				disposeCommand(command);
+			}
+		}
+	};
+
+	const handleMark = (mark: ShellIntegrationMark) => {
+		switch (mark.type) {
+			case "promptStart": {
+				finishCurrent(null);
+				// A prompt with no command run (e.g. an empty Enter) is replaced
+				if (current) {
+					disposeCommand(current);
+				}
+				const promptMarker = xterm.registerMarker(0);
+				current = promptMarker
+					? { promptMarker, outputMarker: null, endMarker: null, endColumn: 0 }
+					: null;
+				break;
+			}
+			case "commandExecuted":
+				if (current && !current.outputMarker) {
+					current.outputMarker = xterm.registerMarker(0) ?? null;
+				}
+				break;
+			case "commandFinished":
+				finishCurrent(mark.exitCode);
+				break;
+			default:
+				break;
+		}
+	};
+
+	const disposables: IDisposable[] = [
+		OSC_SEMANTIC_PROMPT,
+		OSC_SHELL_PROPERTIES,
+	].map((identifier) =>
+		xterm.parser.registerOscHandler(identifier, (data) => {
+			const mark = parseShellIntegrationSequence(identifier, data);
+			if (mark) {
+				handleMark(mark);
+			}
+			return false;
+		}),
+	);
+
+	/** Prompt rows still in the buffer, oldest first, including the current one */
+	const getPromptRows = (): number[] => {
+		const rows = commands.map((command) => command.promptMarker.line);
+		if (current) {
+			rows.push(current.promptMarker.line);
+		}
+		return rows.filter((row) => row >= 0);
+	};
+
+	return {
+		jumpToPreviousCommand: () => {
+			const viewportY = xterm.buffer.active.viewportY;
+			const row = getPromptRows()
+				.reverse()
+				.find((promptRow) => promptRow < viewportY);
+			if (row !== undefined) {
+				xterm.scrollToLine(row);
+			}
+		},
+
+		jumpToNextCommand: () => {
+			const viewportY = xterm.buffer.active.viewportY;
+			const row = getPromptRows().find((promptRow) => promptRow > viewportY);
+			if (row !== undefined) {
+				xterm.scrollToLine(row);
+			} else {
+				xterm.scrollToBottom();
+			}
+		},
+
+		getLastCommandOutput: () => {
+			for (let i = commands.length - 1; i >= 0; i--) {
+				const { outputMarker, endMarker, endColumn } = commands[i];
+				if (!outputMarker || !endMarker) continue;
+				if (outputMarker.line < 0 || endMarker.line < 0) continue;
+				return getRowsText(
+					xterm.buffer.active,
+					outputMarker.line,
+					endMarker.line,
+					endColumn,
+				);
+			}
+			return null;
+		},
+
+		dispose: () => {
+			for (const disposable of disposables) {
+				disposable.dispose();
+			}
+			for (const command of commands) {
+				disposeCommand(command);
+			}
+			if (current) {
+				disposeCommand(current);
+			}
+			commands.length = 0;
+			current = null;
+		},
+	};
+}
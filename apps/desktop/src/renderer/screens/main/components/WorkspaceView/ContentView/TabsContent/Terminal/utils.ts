@@ -1,6 +1,10 @@
-import type { Terminal } from "@xterm/xterm";
+import type { IBuffer, Terminal } from "@xterm/xterm";
+import type { TerminalReveal } from "renderer/stores/tabs/terminal-callbacks";
 import { quote } from "shell-quote";
 
+/** How far from the expected row to look for the revealed line */
+const REVEAL_SEARCH_RADIUS = 500;
+
 export function shellEscapePaths(paths: string[]): string {
 	return quote(paths);
 }
@@ -16,3 +20,53 @@ export function smoothScrollToBottom(terminal: Terminal): void {
 		terminal.scrollToBottom();
 	}
 }
+
+/** Text of the line starting at `row`, with wrapped rows joined */
+function getLineText(buffer: IBuffer, row: number): string | null {
+	const line = buffer.getLine(row);
+	if (!line || line.isWrapped) return null;
+
+	let text = line.translateToString(true);
+	for (let next = row + 1; next < buffer.length; next++) {
+		const wrapped = buffer.getLine(next);
+		if (!wrapped?.isWrapped) break;
+		text += wrapped.translateToString(true);
+	}
+	return text;
+}
+
+/**
+ * Row of the line with the given text closest to `expectedRow`, or
+ * `expectedRow` itself when it can't be found.
+ */
+function findLineRow(
+	buffer: IBuffer,
+	text: string,
+	expectedRow: number,
+): number {
+	for (let offset = 0; offset <= REVEAL_SEARCH_RADIUS; offset++) {
+		for (const row of [expectedRow - offset, expectedRow + offset]) {
+			if (row < 0 || row >= buffer.length) continue;
+			if (getLineText(buffer, row) === text) return row;
+		}
+	}
+	return Math.min(Math.max(0, expectedRow), buffer.length - 1);
+}
+
+/**
+ * Scroll a match found in the main process's copy of the buffer into view
+ * and select it. The renderer's buffer can be offset by a few rows (e.g. a
+ * smaller scrollback), so the line is looked up by its text.
+ */
+export function revealTerminalLine(
+	terminal: Terminal,
+	reveal: TerminalReveal,
+): void {
+	const buffer = terminal.buffer.active;
+	const lineRow = findLineRow(buffer, reveal.text, reveal.row);
+	const row = lineRow + Math.floor(reveal.column / terminal.cols);
+	const column = reveal.column % terminal.cols;
+
+	terminal.scrollToLine(Math.max(0, row - Math.floor(terminal.rows / 2)));
+	terminal.select(column, row, reveal.length);
+}
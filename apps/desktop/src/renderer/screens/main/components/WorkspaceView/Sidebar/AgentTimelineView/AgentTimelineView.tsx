@@ -0,0 +1,134 @@
+import {
+	Collapsible,
+	CollapsibleContent,
+	CollapsibleTrigger,
+} from "@superset/ui/collapsible";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@superset/ui/tooltip";
+import { cn } from "@superset/ui/utils";
+import { useState } from "react";
+import { HiChevronRight } from "react-icons/hi2";
+import { trpc } from "renderer/lib/trpc";
+import { useTabsStore } from "renderer/stores/tabs/store";
+import { formatDuration, getSegmentPosition } from "./utils";
+
+/** Durations of open segments grow while the view is visible */
+const REFETCH_INTERVAL_MS = 30_000;
+
+/** Same colors as StatusIndicator: amber = working, red = needs input */
+const SEGMENT_COLORS = {
+	running: "bg-amber-500",
+	waiting: "bg-red-500",
+	idle: "bg-muted-foreground/20",
+} as const;
+
+const SEGMENT_LABELS = {
+	running: "Running",
+	waiting: "Waiting for permission",
+	idle: "Idle",
+} as const;
+
+interface AgentTimelineViewProps {
+	workspaceId: string;
+}
+
+/**
+ * Agent runs, permission waits and idle time per pane over the last day,
+ * most blocked panes first.
+ */
+export function AgentTimelineView({ workspaceId }: AgentTimelineViewProps) {
+	const [isExpanded, setIsExpanded] = useState(false);
+	const panes = useTabsStore((s) => s.panes);
+
+	const { data } = trpc.agentTimeline.getWorkspaceTimeline.useQuery(
+		{ workspaceId },
+		{ refetchInterval: isExpanded ? REFETCH_INTERVAL_MS : false },
+	);
+
+	const timelines = data?.panes ?? [];
+	if (timelines.length === 0) return null;
+
+	const rangeStart = Math.min(
+		...timelines.flatMap((pane) => pane.segments.map((s) => s.start)),
+	);
+	const rangeEnd = data?.now ?? Date.now();
+
+	return (
+		<Collapsible
+			open={isExpanded}
+			onOpenChange={setIsExpanded}
+			className="min-w-0 shrink-0 border-t border-border"
+		>
+			<CollapsibleTrigger
+				className={cn(
+					"flex w-full items-center gap-1.5 px-2 py-1.5 text-left",
+					"cursor-pointer transition-colors hover:bg-accent/30",
+				)}
+			>
+				<HiChevronRight
+					className={cn(
+						"size-3 shrink-0 text-muted-foreground transition-transform duration-150",
+						isExpanded && "rotate-90",
+					)}
+				/>
+				<span className="truncate text-xs font-medium">Agent Timeline</span>
+				<span className="shrink-0 text-[10px] text-muted-foreground">
+					{timelines.length}
+				</span>
+			</CollapsibleTrigger>
+
+			<CollapsibleContent className="max-h-64 overflow-y-auto px-2 pb-2">
+				<div className="flex flex-col gap-2.5">
+					{timelines.map((timeline) => (
+						<div key={timeline.paneId} className="flex min-w-0 flex-col gap-1">
+							<div className="flex min-w-0 items-baseline justify-between gap-2">
+								<span className="truncate text-xs">
+									{panes[timeline.paneId]?.name ?? "Closed pane"}
+								</span>
+								<span className="shrink-0 text-[10px] text-muted-foreground">
+									{timeline.runCount} {timeline.runCount === 1 ? "run" : "runs"}
+								</span>
+							</div>
+
+							<div className="relative h-2 w-full overflow-hidden rounded-sm bg-muted">
+								{timeline.segments.map((segment) => {
+									const { left, width } = getSegmentPosition(
+										segment,
+										rangeStart,
+										rangeEnd,
+									);
+									return (
+										<Tooltip key={`${segment.start}-${segment.state}`}>
+											<TooltipTrigger asChild>
+												<span
+													className={cn(
+														"absolute inset-y-0",
+														SEGMENT_COLORS[segment.state],
+													)}
+													style={{ left: `${left}%`, width: `${width}%` }}
+												/>
+											</TooltipTrigger>
+											<TooltipContent side="top" showArrow={false}>
+												{SEGMENT_LABELS[segment.state]}{" "}
+												{formatDuration(segment.end - segment.start)}
+												{segment.isOpen ? " (ongoing)" : ""} ·{" "}
+												{new Date(segment.start).toLocaleTimeString()}
+											</TooltipContent>
+										</Tooltip>
+									);
+								})}
+							</div>
+
+							<div className="flex gap-2 text-[10px] text-muted-foreground">
+								<span>Run {formatDuration(timeline.runningMs)}</span>
+								<span className={cn(timeline.waitingMs > 0 && "text-red-500")}>
+									Waiting {formatDuration(timeline.waitingMs)}
+								</span>
+								<span>Idle {formatDuration(timeline.idleMs)}</span>
+							</div>
+						</div>
+					))}
+				</div>
+			</CollapsibleContent>
+		</Collapsible>
+	);
+}
@@ -0,0 +1 @@
+export { AgentTimelineView } from "./AgentTimelineView";
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "bun:test";
+import { formatDuration, getSegmentPosition } from "./utils";
+
+describe("formatDuration", () => {
+	it("should format seconds, minutes and hours", () => {
+		expect(formatDuration(0)).toBe("0s");
+		expect(formatDuration(45_900)).toBe("45s");
+		expect(formatDuration(12 * 60_000)).toBe("12m");
+		expect(formatDuration(65 * 60_000)).toBe("1h 5m");
+		expect(formatDuration(120 * 60_000)).toBe("2h");
+	});
+
+	it("should clamp negative durations", () => {
+		expect(formatDuration(-5)).toBe("0s");
+	});
+});
+
+describe("getSegmentPosition", () => {
+	it("should position segments as percentages of the range", () => {
+		expect(getSegmentPosition({ start: 25, end: 75 }, 0, 100)).toEqual({
+			left: 25,
+			width: 50,
+		});
+	});
+
+	it("should clip segments to the range", () => {
+		expect(getSegmentPosition({ start: -50, end: 50 }, 0, 100)).toEqual({
+			left: 0,
+			width: 50,
+		});
+		expect(getSegmentPosition({ start: 90, end: 200 }, 0, 100)).toEqual({
+			left: 90,
+			width: 10,
+		});
+	});
+
+	it("should keep very short segments visible", () => {
+		expect(getSegmentPosition({ start: 50, end: 50 }, 0, 100).width).toBe(0.5);
+	});
+});
@@ -0,0 +1,31 @@
+/** Compact duration label: "45s", "12m", "1h 5m" */
+export function formatDuration(ms: number): string {
+	const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+	if (totalSeconds < 60) return `${totalSeconds}s`;
+
+	const totalMinutes = Math.floor(totalSeconds / 60);
+	if (totalMinutes < 60) return `${totalMinutes}m`;
+
+	const hours = Math.floor(totalMinutes / 60);
+	const minutes = totalMinutes % 60;
+	return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+}
+
+/**
+ * Position of a segment within [rangeStart, rangeEnd] as CSS percentages.
+ * Segments are given a minimum width so short waits stay visible.
+ */
+export function getSegmentPosition(
+	segment: { start: number; end: number },
+	rangeStart: number,
+	rangeEnd: number,
+	minWidthPercent = 0.5,
+): { left: number; width: number } {
+	const span = Math.max(1, rangeEnd - rangeStart);
+	const start = Math.min(Math.max(segment.start, rangeStart), rangeEnd);
+	const end = Math.min(Math.max(segment.end, start), rangeEnd);
+
+	const left = ((start - rangeStart) / span) * 100;
+	const width = Math.max(((end - start) / span) * 100, minWidthPercent);
+	return { left, width: Math.min(width, 100 - left) };
+}
@@ -3,15 +3,32 @@ import { toast } from "@superset/ui/sonner";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@superset/ui/tooltip";
 import { useEffect, useState } from "react";
 import { HiMiniMinus, HiMiniPlus } from "react-icons/hi2";
+import { LuCombine } from "react-icons/lu";
 import { trpc } from "renderer/lib/trpc";
 import { useChangesStore } from "renderer/stores/changes";
-import type { ChangeCategory, ChangedFile } from "shared/changes-types";
+import { useTabsStore } from "renderer/stores/tabs/store";
+import type {
+	ChangeCategory,
+	ChangedFile,
+	CommitInfo,
+	GitOperationResult,
+	HistoryCommit,
+	HistoryOperation,
+	HistoryRewriteResult,
+} from "shared/changes-types";
 
 import { CategorySection } from "./components/CategorySection";
 import { ChangesHeader } from "./components/ChangesHeader";
 import { CommitInput } from "./components/CommitInput";
-import { CommitItem } from "./components/CommitItem";
+import { type CommitActions, CommitItem } from "./components/CommitItem";
+import { CommitMessageDialog } from "./components/CommitMessageDialog";
 import { FileList } from "./components/FileList";
+import { OperationBanner } from "./components/OperationBanner";
+
+type MessageDialogState =
+	| { type: "reword"; commit: HistoryCommit }
+	| { type: "squashAll" }
+	| null;
 
 interface ChangesViewProps {
 	/** Single click - opens in preview mode */
@@ -36,6 +53,8 @@ export function ChangesView({
 	const worktreePath = activeWorkspace?.worktreePath;
 
 	const { baseBranch } = useChangesStore();
+	const addPullRequestPane = useTabsStore((s) => s.addPullRequestPane);
+	const addCheckLogsPane = useTabsStore((s) => s.addCheckLogsPane);
 	const { data: branchData } = trpc.changes.getBranches.useQuery(
 		{ worktreePath: worktreePath || "" },
 		{ enabled: !!worktreePath },
@@ -65,11 +84,159 @@ export function ChangesView({
 			},
 		);
 
+	const { data: history, refetch: refetchHistory } =
+		trpc.changes.getCommits.useQuery(
+			{ worktreePath: worktreePath || "", baseBranch: effectiveBaseBranch },
+			{
+				enabled: !!worktreePath,
+				refetchInterval: 2500,
+				refetchOnWindowFocus: true,
+			},
+		);
+
 	const handleRefresh = () => {
 		refetch();
 		refetchGithubStatus();
+		refetchHistory();
+	};
+
+	const [messageDialog, setMessageDialog] = useState<MessageDialogState>(null);
+
+	const forcePushMutation = trpc.changes.push.useMutation({
+		onSuccess: () => {
+			toast.success("Force pushed");
+			handleRefresh();
+		},
+		onError: (error) => toast.error(`Force push failed: ${error.message}`),
+	});
+
+	const handleRewriteResult = (result: HistoryRewriteResult) => {
+		handleRefresh();
+		if (result.status === "stopped") {
+			toast.error("Rebase stopped on conflicts", {
+				description: "Resolve and stage the conflicted files, then continue",
+			});
+			return;
+		}
+		setMessageDialog(null);
+		if (result.needsForcePush && worktreePath) {
+			toast("History rewritten", {
+				description:
+					"Already-pushed commits changed, so a force push is needed",
+				action: {
+					label: "Force push",
+					onClick: () =>
+						forcePushMutation.mutate({ worktreePath, force: true }),
+				},
+				duration: 10000,
+			});
+		} else {
+			toast.success("History rewritten");
+		}
 	};
 
+	const rewriteHistoryMutation = trpc.changes.rewriteHistory.useMutation({
+		onSuccess: handleRewriteResult,
+		onError: (error) => {
+			console.error("Failed to rewrite history:", error);
+			toast.error(`Failed to rewrite history: ${error.message}`);
+		},
+	});
+
+	const handleOperationResult = (result: GitOperationResult) => {
+		handleRefresh();
+		if (result.success) {
+			toast.success("Done");
+		} else {
+			toast.error("Stopped on conflicts", {
+				description: "Resolve the conflicted files, then continue",
+			});
+		}
+	};
+
+	const continueOperationMutation = trpc.changes.continueOperation.useMutation({
+		onSuccess: handleOperationResult,
+		onError: (error) => toast.error(`Continue failed: ${error.message}`),
+	});
+
+	const skipOperationMutation = trpc.changes.skipOperation.useMutation({
+		onSuccess: handleOperationResult,
+		onError: (error) => toast.error(`Skip failed: ${error.message}`),
+	});
+
+	const abortOperationMutation = trpc.changes.abortOperation.useMutation({
+		onSuccess: () => {
+			toast.success("Aborted");
+			handleRefresh();
+		},
+		onError: (error) => toast.error(`Abort failed: ${error.message}`),
+	});
+
+	const isRewriting =
+		rewriteHistoryMutation.isPending ||
+		continueOperationMutation.isPending ||
+		skipOperationMutation.isPending ||
+		abortOperationMutation.isPending;
+
+	const rewrite = (operation: HistoryOperation) => {
+		if (!worktreePath) return;
+		rewriteHistoryMutation.mutate({
+			worktreePath,
+			baseBranch: effectiveBaseBranch,
+			operation,
+		});
+	};
+
+	// Rewriting needs a linear branch and no operation already underway
+	const canRewrite =
+		!!history && !history.hasMerges && !history.rebase && !status?.operation;
+	const historyCommits = history?.commits ?? [];
+
+	/** Menu actions for a commit, by its position in the newest-first list */
+	const getCommitActions = (commit: CommitInfo): CommitActions | undefined => {
+		const index = historyCommits.findIndex((c) => c.hash === commit.hash);
+		const historyCommit = historyCommits[index];
+		if (!canRewrite || !historyCommit) return undefined;
+
+		const move = (offset: number) => {
+			const newestFirst = historyCommits.map((c) => c.hash);
+			const target = index + offset;
+			[newestFirst[index], newestFirst[target]] = [
+				newestFirst[target],
+				newestFirst[index],
+			];
+			rewrite({ type: "reorder", order: newestFirst.reverse() });
+		};
+		const isOldest = index === historyCommits.length - 1;
+
+		return {
+			onReword: () =>
+				setMessageDialog({ type: "reword", commit: historyCommit }),
+			onFixup: isOldest
+				? undefined
+				: () => rewrite({ type: "fixup", hash: commit.hash }),
+			onMoveUp: index === 0 ? undefined : () => move(-1),
+			onMoveDown: isOldest ? undefined : () => move(1),
+			onDrop: () => rewrite({ type: "drop", hash: commit.hash }),
+			disabled: isRewriting,
+		};
+	};
+
+	const handleMessageSubmit = (message: string) => {
+		if (!messageDialog) return;
+		rewrite(
+			messageDialog.type === "reword"
+				? { type: "reword", hash: messageDialog.commit.hash, message }
+				: { type: "squashAll", message },
+		);
+	};
+
+	const squashMessage = historyCommits
+		.slice()
+		.reverse()
+		.map((commit) => commit.fullMessage)
+		.join("\n\n");
+
 	const stageAllMutation = trpc.changes.stageAll.useMutation({
 		onSuccess: () => refetch(),
 		onError: (error) => {
@@ -257,7 +424,8 @@ export function ChangesView({
 		status.commits.length > 0 ||
 		status.staged.length > 0 ||
 		status.unstaged.length > 0 ||
-		status.untracked.length > 0;
+		status.untracked.length > 0 ||
+		status.conflicted.length > 0;
 
 	const commitsWithFiles = status.commits.map((commit) => ({
 		...commit,
@@ -269,9 +437,10 @@ export function ChangesView({
 	const hasStagedChanges = status.staged.length > 0;
 	const hasExistingPR = !!githubStatus?.pr;
 	const prUrl = githubStatus?.pr?.url;
+	const hasFailingChecks = githubStatus?.pr?.checksStatus === "failure";
 
 	return (
-		<div className="flex flex-col h-full">
+		<div className="flex flex-col flex-1 min-h-0">
 			<ChangesHeader
 				onRefresh={handleRefresh}
 				viewMode={fileListViewMode}
@@ -288,15 +457,55 @@ export function ChangesView({
 				hasUpstream={status.hasUpstream}
 				hasExistingPR={hasExistingPR}
 				prUrl={prUrl}
+				branch={status.branch}
+				baseBranch={effectiveBaseBranch}
+				commits={historyCommits}
+				hasFailingChecks={hasFailingChecks}
+				onOpenReview={() =>
+					activeWorkspace && addPullRequestPane(activeWorkspace.id)
+				}
+				onOpenCheckLogs={() =>
+					activeWorkspace && addCheckLogsPane(activeWorkspace.id)
+				}
 				onRefresh={handleRefresh}
 			/>
 
+			{status.operation && (
+				<OperationBanner
+					operation={status.operation}
+					isPending={isRewriting}
+					onAbort={() => abortOperationMutation.mutate({ worktreePath })}
+					onSkip={() => skipOperationMutation.mutate({ worktreePath })}
+					onContinue={() => continueOperationMutation.mutate({ worktreePath })}
+				/>
+			)}
+
 			{!hasChanges ? (
 				<div className="flex-1 flex items-center justify-center text-muted-foreground text-sm px-4 text-center">
 					No changes detected
 				</div>
 			) : (
 				<div className="flex-1 overflow-y-auto">
+					{/* Conflicts of a stopped rebase/merge/cherry-pick */}
+					<CategorySection
+						title="Conflicts"
+						count={status.conflicted.length}
+						isExpanded={expandedSections.conflicted}
+						onToggle={() => toggleSection("conflicted")}
+					>
+						<FileList
+							files={status.conflicted}
+							viewMode={fileListViewMode}
+							selectedFile={selectedFile}
+							selectedCommitHash={selectedCommitHash}
+							onFileSelect={(file) => handleFileSelect(file, "conflicted")}
+							onFileDoubleClick={(file) =>
+								handleFileDoubleClick(file, "conflicted")
+							}
+							worktreePath={worktreePath}
+						/>
+					</CategorySection>
+
 					{/* Against base branch */}
 					<CategorySection
 						title={`Against ${effectiveBaseBranch}`}
@@ -323,6 +532,27 @@ export function ChangesView({
 						count={status.commits.length}
 						isExpanded={expandedSections.committed}
 						onToggle={() => toggleSection("committed")}
+						actions={
+							canRewrite &&
+							historyCommits.length > 1 && (
+								<Tooltip>
+									<TooltipTrigger asChild>
+										<Button
+											variant="ghost"
+											size="icon"
+											className="h-6 w-6"
+											onClick={() => setMessageDialog({ type: "squashAll" })}
+											disabled={isRewriting}
+										>
+											<LuCombine className="w-4 h-4" />
+										</Button>
+									</TooltipTrigger>
+									<TooltipContent side="bottom">
+										Squash all into one
+									</TooltipContent>
+								</Tooltip>
+							)
+						}
 					>
 						{commitsWithFiles.map((commit) => (
 							<CommitItem
@@ -336,6 +566,7 @@ export function ChangesView({
 								onFileDoubleClick={handleCommitFileDoubleClick}
 								viewMode={fileListViewMode}
 								worktreePath={worktreePath}
+								actions={getCommitActions(commit)}
 							/>
 						))}
 					</CategorySection>
@@ -440,6 +671,27 @@ export function ChangesView({
 					</CategorySection>
 				</div>
 			)}
+
+			<CommitMessageDialog
+				open={messageDialog !== null}
+				onOpenChange={(open) => !open && setMessageDialog(null)}
+				title={
+					messageDialog?.type === "reword" ? "Reword Commit" : "Squash Commits"
+				}
+				description={
+					messageDialog?.type === "reword"
+						? `Change the message of ${messageDialog.commit.shortHash}.`
+						: `Combine all ${historyCommits.length} commits since ${effectiveBaseBranch} into one.`
+				}
+				initialMessage={
+					messageDialog?.type === "reword"
+						? messageDialog.commit.fullMessage
+						: squashMessage
+				}
+				submitLabel={messageDialog?.type === "reword" ? "Reword" : "Squash"}
+				isPending={rewriteHistoryMutation.isPending}
+				onSubmit={handleMessageSubmit}
+			/>
 		</div>
 	);
 }
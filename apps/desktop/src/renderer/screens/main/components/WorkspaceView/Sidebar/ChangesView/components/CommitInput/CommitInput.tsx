@@ -16,10 +16,15 @@ import {
 	HiArrowsUpDown,
 	HiArrowTopRightOnSquare,
 	HiArrowUp,
+	HiChatBubbleLeftRight,
 	HiCheck,
 	HiChevronDown,
+	HiExclamationTriangle,
 } from "react-icons/hi2";
 import { trpc } from "renderer/lib/trpc";
+import type { HistoryCommit } from "shared/changes-types";
+import { getPRDefaults } from "../../utils/pr-defaults";
+import { CreatePRDialog, type CreatePRFormValues } from "../CreatePRDialog";
 
 interface CommitInputProps {
 	worktreePath: string;
@@ -29,6 +34,14 @@ interface CommitInputProps {
 	hasUpstream: boolean;
 	hasExistingPR: boolean;
 	prUrl?: string;
+	branch: string;
+	baseBranch: string;
+	/** Branch commits, newest first, for prefilling a new PR */
+	commits: HistoryCommit[];
+	/** The PR has failing CI checks */
+	hasFailingChecks: boolean;
+	onOpenReview: () => void;
+	onOpenCheckLogs: () => void;
 	onRefresh: () => void;
 }
 
@@ -42,10 +55,17 @@ export function CommitInput({
 	hasUpstream,
 	hasExistingPR,
 	prUrl,
+	branch,
+	baseBranch,
+	commits,
+	hasFailingChecks,
+	onOpenReview,
+	onOpenCheckLogs,
 	onRefresh,
 }: CommitInputProps) {
 	const [commitMessage, setCommitMessage] = useState("");
 	const [isOpen, setIsOpen] = useState(false);
+	const [isCreatePROpen, setIsCreatePROpen] = useState(false);
 
 	const commitMutation = trpc.changes.commit.useMutation({
 		onSuccess: () => {
@@ -56,6 +76,11 @@ export function CommitInput({
 		onError: (error) => toast.error(`Commit failed: ${error.message}`),
 	});
 
+	const toastConflicts = (action: string) =>
+		toast.error(`${action} stopped on conflicts`, {
+			description: "Resolve the conflicted files, then continue or abort",
+		});
+
 	const pushMutation = trpc.changes.push.useMutation({
 		onSuccess: () => {
 			toast.success("Pushed");
@@ -65,27 +90,39 @@ export function CommitInput({
 	});
 
 	const pullMutation = trpc.changes.pull.useMutation({
-		onSuccess: () => {
-			toast.success("Pulled");
+		onSuccess: (result) => {
+			if (result.success) {
+				toast.success("Pulled");
+			} else {
+				toastConflicts("Pull");
+			}
 			onRefresh();
 		},
 		onError: (error) => toast.error(`Pull failed: ${error.message}`),
 	});
 
 	const syncMutation = trpc.changes.sync.useMutation({
-		onSuccess: () => {
-			toast.success("Synced");
+		onSuccess: (result) => {
+			if (result.success) {
+				toast.success("Synced");
+			} else {
+				toastConflicts("Sync");
+			}
 			onRefresh();
 		},
 		onError: (error) => toast.error(`Sync failed: ${error.message}`),
 	});
 
 	const createPRMutation = trpc.changes.createPR.useMutation({
-		onSuccess: () => {
-			toast.success("Opening GitHub...");
+		onSuccess: ({ url }) => {
+			setIsCreatePROpen(false);
+			toast.success("Pull request created", {
+				action: { label: "Open", onClick: () => window.open(url, "_blank") },
+			});
 			onRefresh();
 		},
-		onError: (error) => toast.error(`Failed: ${error.message}`),
+		onError: (error) =>
+			toast.error(`Failed to create pull request: ${error.message}`),
 	});
 
 	const isPending =
@@ -106,7 +143,9 @@ export function CommitInput({
 		pushMutation.mutate({ worktreePath, setUpstream: true });
 	const handlePull = () => pullMutation.mutate({ worktreePath });
 	const handleSync = () => syncMutation.mutate({ worktreePath });
-	const handleCreatePR = () => createPRMutation.mutate({ worktreePath });
+	const handleCreatePR = () => setIsCreatePROpen(true);
+	const handleSubmitPR = (values: CreatePRFormValues) =>
+		createPRMutation.mutate({ worktreePath, ...values });
 	const handleOpenPR = () => prUrl && window.open(prUrl, "_blank");
 
 	const handleCommitAndPush = () => {
@@ -325,10 +364,25 @@ export function CommitInput({
 						<DropdownMenuSeparator />
 
 						{hasExistingPR ? (
-							<DropdownMenuItem onClick={handleOpenPR} className="text-xs">
-								<HiArrowTopRightOnSquare className="size-3.5" />
-								Open Pull Request
-							</DropdownMenuItem>
+							<>
+								<DropdownMenuItem onClick={handleOpenPR} className="text-xs">
+									<HiArrowTopRightOnSquare className="size-3.5" />
+									Open Pull Request
+								</DropdownMenuItem>
+								<DropdownMenuItem onClick={onOpenReview} className="text-xs">
+									<HiChatBubbleLeftRight className="size-3.5" />
+									Review Comments
+								</DropdownMenuItem>
+								{hasFailingChecks && (
+									<DropdownMenuItem
+										onClick={onOpenCheckLogs}
+										className="text-xs"
+									>
+										<HiExclamationTriangle className="size-3.5" />
+										Failed Check Logs
+									</DropdownMenuItem>
+								)}
+							</>
 						) : (
 							<DropdownMenuItem onClick={handleCreatePR} className="text-xs">
 								<HiArrowTopRightOnSquare className="size-3.5" />
@@ -338,6 +392,16 @@ export function CommitInput({
 					</DropdownMenuContent>
 				</DropdownMenu>
 			</ButtonGroup>
+			<CreatePRDialog
+				open={isCreatePROpen}
+				onOpenChange={setIsCreatePROpen}
+				worktreePath={worktreePath}
+				branch={branch}
+				baseBranch={baseBranch}
+				defaults={getPRDefaults(commits, branch)}
+				isPending={createPRMutation.isPending}
+				onSubmit={handleSubmitPR}
+			/>
 		</div>
 	);
 }
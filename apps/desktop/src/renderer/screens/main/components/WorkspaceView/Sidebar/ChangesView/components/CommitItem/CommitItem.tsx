@@ -1,9 +1,46 @@
+import {
+	AlertDialog,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@superset/ui/alert-dialog";
+import { Button } from "@superset/ui/button";
+import {
+	ContextMenu,
+	ContextMenuContent,
+	ContextMenuItem,
+	ContextMenuSeparator,
+	ContextMenuTrigger,
+} from "@superset/ui/context-menu";
+import { useState } from "react";
+import {
+	LuArrowDown,
+	LuArrowUp,
+	LuCombine,
+	LuPencil,
+	LuTrash2,
+} from "react-icons/lu";
 import type { ChangedFile, CommitInfo } from "shared/changes-types";
 import type { ChangesViewMode } from "../../types";
 import { formatRelativeDate } from "../../utils";
 import { CollapsibleRow } from "../CollapsibleRow";
 import { FileList } from "../FileList";
 
+/** History rewriting actions; omitted callbacks hide their menu item */
+export interface CommitActions {
+	onReword: () => void;
+	/** Fold into the commit before it, keeping that commit's message */
+	onFixup?: () => void;
+	/** Move one position newer */
+	onMoveUp?: () => void;
+	/** Move one position older */
+	onMoveDown?: () => void;
+	onDrop: () => void;
+	disabled?: boolean;
+}
+
 interface CommitItemProps {
 	commit: CommitInfo;
 	isExpanded: boolean;
@@ -17,6 +54,7 @@ interface CommitItemProps {
 	viewMode: ChangesViewMode;
 	/** Worktree path for constructing absolute paths */
 	worktreePath?: string;
+	actions?: CommitActions;
 }
 
 function CommitHeader({
@@ -51,7 +89,9 @@ export function CommitItem({
 	onFileDoubleClick,
 	viewMode,
 	worktreePath,
+	actions,
 }: CommitItemProps) {
+	const [showDropDialog, setShowDropDialog] = useState(false);
 	const hasFiles = commit.files.length > 0;
 
 	const handleFileSelect = (file: ChangedFile) => {
@@ -64,7 +104,7 @@ export function CommitItem({
 
 	const isCommitSelected = selectedCommitHash === commit.hash;
 
-	return (
+	const row = (
 		<CollapsibleRow
 			isExpanded={isExpanded}
 			onToggle={() => onToggle()}
@@ -91,4 +131,99 @@ export function CommitItem({
 			)}
 		</CollapsibleRow>
 	);
+
+	if (!actions) {
+		return row;
+	}
+
+	return (
+		<>
+			<ContextMenu>
+				<ContextMenuTrigger asChild>
+					<div>{row}</div>
+				</ContextMenuTrigger>
+				<ContextMenuContent className="w-48">
+					<ContextMenuItem
+						onClick={actions.onReword}
+						disabled={actions.disabled}
+					>
+						<LuPencil className="mr-2 size-4" />
+						Reword...
+					</ContextMenuItem>
+					{actions.onFixup && (
+						<ContextMenuItem
+							onClick={actions.onFixup}
+							disabled={actions.disabled}
+						>
+							<LuCombine className="mr-2 size-4" />
+							Fixup into Previous
+						</ContextMenuItem>
+					)}
+					{(actions.onMoveUp || actions.onMoveDown) && <ContextMenuSeparator />}
+					{actions.onMoveUp && (
+						<ContextMenuItem
+							onClick={actions.onMoveUp}
+							disabled={actions.disabled}
+						>
+							<LuArrowUp className="mr-2 size-4" />
+							Move Up
+						</ContextMenuItem>
+					)}
+					{actions.onMoveDown && (
+						<ContextMenuItem
+							onClick={actions.onMoveDown}
+							disabled={actions.disabled}
+						>
+							<LuArrowDown className="mr-2 size-4" />
+							Move Down
+						</ContextMenuItem>
+					)}
+					<ContextMenuSeparator />
+					<ContextMenuItem
+						onClick={() => setShowDropDialog(true)}
+						disabled={actions.disabled}
+						className="text-destructive focus:text-destructive"
+					>
+						<LuTrash2 className="mr-2 size-4" />
+						Drop Commit
+					</ContextMenuItem>
+				</ContextMenuContent>
+			</ContextMenu>
+
+			<AlertDialog open={showDropDialog} onOpenChange={setShowDropDialog}>
+				<AlertDialogContent className="max-w-[340px] gap-0 p-0">
+					<AlertDialogHeader className="px-4 pt-4 pb-2">
+						<AlertDialogTitle className="font-medium">
+							Drop commit {commit.shortHash}?
+						</AlertDialogTitle>
+						<AlertDialogDescription>
+							Its changes are removed from the branch. Later commits that depend
+							on them may conflict.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter className="px-4 pb-4 pt-2 flex-row justify-end gap-2">
+						<Button
+							variant="ghost"
+							size="sm"
+							className="h-7 px-3 text-xs"
+							onClick={() => setShowDropDialog(false)}
+						>
+							Cancel
+						</Button>
+						<Button
+							variant="destructive"
+							size="sm"
+							className="h-7 px-3 text-xs"
+							onClick={() => {
+								setShowDropDialog(false);
+								actions.onDrop();
+							}}
+						>
+							Drop
+						</Button>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</>
+	);
 }
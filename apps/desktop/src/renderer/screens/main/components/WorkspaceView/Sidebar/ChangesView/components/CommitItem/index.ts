@@ -1 +1 @@
-export { CommitItem } from "./CommitItem";
+export { type CommitActions, CommitItem } from "./CommitItem";
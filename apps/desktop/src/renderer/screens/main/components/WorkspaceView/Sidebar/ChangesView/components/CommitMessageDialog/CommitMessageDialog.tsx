@@ -0,0 +1,77 @@
+import { Button } from "@superset/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@superset/ui/dialog";
+import { Textarea } from "@superset/ui/textarea";
+import { useEffect, useState } from "react";
+
+interface CommitMessageDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	title: string;
+	description: string;
+	initialMessage: string;
+	submitLabel: string;
+	isPending?: boolean;
+	onSubmit: (message: string) => void;
+}
+
+/** Asks for a commit message when rewording or squashing commits */
+export function CommitMessageDialog({
+	open,
+	onOpenChange,
+	title,
+	description,
+	initialMessage,
+	submitLabel,
+	isPending,
+	onSubmit,
+}: CommitMessageDialogProps) {
+	const [message, setMessage] = useState(initialMessage);
+
+	useEffect(() => {
+		if (open) setMessage(initialMessage);
+	}, [open, initialMessage]);
+
+	const canSubmit = message.trim().length > 0 && !isPending;
+
+	const handleKeyDown = (e: React.KeyboardEvent) => {
+		if (e.key === "Enter" && (e.metaKey || e.ctrlKey) && canSubmit) {
+			e.preventDefault();
+			onSubmit(message);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-md">
+				<DialogHeader>
+					<DialogTitle>{title}</DialogTitle>
+					<DialogDescription>{description}</DialogDescription>
+				</DialogHeader>
+
+				<Textarea
+					value={message}
+					onChange={(e) => setMessage(e.target.value)}
+					onKeyDown={handleKeyDown}
+					className="min-h-[120px] font-mono text-xs"
+					autoFocus
+				/>
+
+				<DialogFooter>
+					<Button variant="ghost" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button onClick={() => onSubmit(message)} disabled={!canSubmit}>
+						{submitLabel}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
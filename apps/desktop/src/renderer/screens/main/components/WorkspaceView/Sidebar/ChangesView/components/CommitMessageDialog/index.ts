@@ -0,0 +1 @@
+export { CommitMessageDialog } from "./CommitMessageDialog";
@@ -0,0 +1,181 @@
+import { Button } from "@superset/ui/button";
+import { Checkbox } from "@superset/ui/checkbox";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@superset/ui/dialog";
+import { Input } from "@superset/ui/input";
+import { Label } from "@superset/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@superset/ui/select";
+import { Textarea } from "@superset/ui/textarea";
+import { useEffect, useState } from "react";
+import { trpc } from "renderer/lib/trpc";
+import type { PRDefaults } from "../../utils/pr-defaults";
+
+export interface CreatePRFormValues {
+	title: string;
+	body: string;
+	base: string;
+	draft: boolean;
+	reviewers: string[];
+}
+
+interface CreatePRDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	worktreePath: string;
+	branch: string;
+	baseBranch: string;
+	defaults: PRDefaults;
+	isPending?: boolean;
+	onSubmit: (values: CreatePRFormValues) => void;
+}
+
+/** Title, body, base, reviewers and draft state for a new pull request */
+export function CreatePRDialog({
+	open,
+	onOpenChange,
+	worktreePath,
+	branch,
+	baseBranch,
+	defaults,
+	isPending,
+	onSubmit,
+}: CreatePRDialogProps) {
+	const [title, setTitle] = useState(defaults.title);
+	const [body, setBody] = useState(defaults.body);
+	const [base, setBase] = useState(baseBranch);
+	const [reviewers, setReviewers] = useState("");
+	const [draft, setDraft] = useState(false);
+
+	const { data: branchData } = trpc.changes.getBranches.useQuery(
+		{ worktreePath },
+		{ enabled: open && !!worktreePath },
+	);
+	const baseBranches = (branchData?.remote ?? []).filter((b) => b !== branch);
+
+	// Prefill each time the dialog opens, keeping reviewers and draft
+	// biome-ignore lint/correctness/useExhaustiveDependencies: Reset on open only
+	useEffect(() => {
+		if (!open) return;
+		setTitle(defaults.title);
+		setBody(defaults.body);
+		setBase(baseBranch);
+	}, [open]);
+
+	const canSubmit = title.trim().length > 0 && !!base && !isPending;
+
+	const handleSubmit = () => {
+		if (!canSubmit) return;
+		onSubmit({
+			title: title.trim(),
+			body,
+			base,
+			draft,
+			reviewers: reviewers.split(","),
+		});
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-lg">
+				<DialogHeader>
+					<DialogTitle>Create Pull Request</DialogTitle>
+					<DialogDescription>
+						Pushes <span className="font-mono">{branch}</span> and opens a pull
+						request on GitHub
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="flex flex-col gap-3">
+					<div className="space-y-1.5">
+						<Label htmlFor="create-pr-title">Title</Label>
+						<Input
+							id="create-pr-title"
+							value={title}
+							onChange={(e) => setTitle(e.target.value)}
+							autoFocus
+						/>
+					</div>
+
+					<div className="space-y-1.5">
+						<Label htmlFor="create-pr-body">Description</Label>
+						<Textarea
+							id="create-pr-body"
+							value={body}
+							onChange={(e) => setBody(e.target.value)}
+							onKeyDown={(e) => {
+								if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+									e.preventDefault();
+									handleSubmit();
+								}
+							}}
+							className="min-h-[140px] text-xs"
+						/>
+					</div>
+
+					<div className="grid grid-cols-2 gap-3">
+						<div className="space-y-1.5">
+							<Label>Base branch</Label>
+							<Select value={base} onValueChange={setBase}>
+								<SelectTrigger className="w-full h-8 text-sm font-mono">
+									<SelectValue placeholder="Select branch..." />
+								</SelectTrigger>
+								<SelectContent>
+									{(baseBranches.includes(base)
+										? baseBranches
+										: [base, ...baseBranches]
+									).map((name) => (
+										<SelectItem key={name} value={name}>
+											{name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className="space-y-1.5">
+							<Label htmlFor="create-pr-reviewers">Reviewers</Label>
+							<Input
+								id="create-pr-reviewers"
+								placeholder="alice, org/team"
+								value={reviewers}
+								onChange={(e) => setReviewers(e.target.value)}
+								className="h-8"
+							/>
+						</div>
+					</div>
+
+					<div className="flex items-center gap-2">
+						<Checkbox
+							id="create-pr-draft"
+							checked={draft}
+							onCheckedChange={(checked) => setDraft(checked === true)}
+						/>
+						<Label htmlFor="create-pr-draft" className="font-normal">
+							Create as draft
+						</Label>
+					</div>
+				</div>
+
+				<DialogFooter>
+					<Button variant="ghost" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button onClick={handleSubmit} disabled={!canSubmit}>
+						{isPending ? "Creating..." : "Create Pull Request"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1 @@
+export { CreatePRDialog, type CreatePRFormValues } from "./CreatePRDialog";
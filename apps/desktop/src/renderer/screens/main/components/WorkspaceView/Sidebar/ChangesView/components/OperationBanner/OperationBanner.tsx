@@ -0,0 +1,74 @@
+import { Button } from "@superset/ui/button";
+import { LuTriangleAlert } from "react-icons/lu";
+import type { GitOperationKind, GitOperationState } from "shared/changes-types";
+
+const OPERATION_TITLES: Record<GitOperationKind, string> = {
+	rebase: "Rebase in progress",
+	merge: "Merge in progress",
+	"cherry-pick": "Cherry-pick in progress",
+	revert: "Revert in progress",
+};
+
+interface OperationBannerProps {
+	operation: GitOperationState;
+	isPending: boolean;
+	onAbort: () => void;
+	onSkip: () => void;
+	onContinue: () => void;
+}
+
+/** Shown while a rebase, merge, cherry-pick or revert is stopped mid-way */
+export function OperationBanner({
+	operation,
+	isPending,
+	onAbort,
+	onSkip,
+	onContinue,
+}: OperationBannerProps) {
+	const conflictCount = operation.conflictedFiles.length;
+	const canSkip = operation.kind !== "merge";
+
+	return (
+		<div className="mx-2 my-1.5 rounded-md border border-yellow-500/40 bg-yellow-500/10 p-2 text-xs">
+			<div className="flex items-center gap-1.5 font-medium">
+				<LuTriangleAlert className="size-3.5 shrink-0 text-yellow-500" />
+				{OPERATION_TITLES[operation.kind]}
+			</div>
+			<p className="mt-1 text-muted-foreground">
+				{conflictCount > 0
+					? `Resolve ${conflictCount} conflicted ${conflictCount === 1 ? "file" : "files"} below, then continue.`
+					: "No conflicts left. Continue to finish."}
+			</p>
+			<div className="mt-2 flex justify-end gap-1.5">
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-6 text-xs"
+					onClick={onAbort}
+					disabled={isPending}
+				>
+					Abort
+				</Button>
+				{canSkip && (
+					<Button
+						variant="ghost"
+						size="sm"
+						className="h-6 text-xs"
+						onClick={onSkip}
+						disabled={isPending}
+					>
+						Skip Commit
+					</Button>
+				)}
+				<Button
+					size="sm"
+					className="h-6 text-xs"
+					onClick={onContinue}
+					disabled={isPending || conflictCount > 0}
+				>
+					Continue
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1 @@
+export { OperationBanner } from "./OperationBanner";
@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import type { HistoryCommit } from "shared/changes-types";
+import { getPRDefaults } from "./pr-defaults";
+
+function commit(message: string, fullMessage = message): HistoryCommit {
+	return {
+		hash: message,
+		shortHash: message.slice(0, 7),
+		message,
+		author: "Test",
+		date: new Date(0),
+		files: [],
+		isPushed: false,
+		fullMessage,
+	};
+}
+
+describe("getPRDefaults", () => {
+	test("uses a single commit's subject and body", () => {
+		expect(
+			getPRDefaults(
+				[commit("Add login", "Add login\n\nWith OAuth.\nAnd tests.\n")],
+				"feature/login",
+			),
+		).toEqual({ title: "Add login", body: "With OAuth.\nAnd tests." });
+	});
+
+	test("titles several commits after the branch and lists them oldest first", () => {
+		expect(
+			getPRDefaults(
+				[commit("Add tests"), commit("Add login")],
+				"user/fix-login_flow",
+			),
+		).toEqual({ title: "Fix login flow", body: "- Add login\n- Add tests" });
+	});
+});
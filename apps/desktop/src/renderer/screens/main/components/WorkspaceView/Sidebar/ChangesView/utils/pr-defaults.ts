@@ -0,0 +1,36 @@
+import type { HistoryCommit } from "shared/changes-types";
+
+export interface PRDefaults {
+	title: string;
+	body: string;
+}
+
+/** "feature/fix-login_flow" -> "Fix login flow" */
+function titleFromBranch(branch: string): string {
+	const name = (branch.split("/").pop() ?? branch)
+		.replace(/[-_]+/g, " ")
+		.trim();
+	return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Prefills a new pull request from the branch's commits (newest first): a
+ * single commit lends its message, several are listed under a title made
+ * from the branch name.
+ */
+export function getPRDefaults(
+	commits: HistoryCommit[],
+	branch: string,
+): PRDefaults {
+	if (commits.length === 1) {
+		const [subject, ...rest] = commits[0].fullMessage.trim().split("\n");
+		return { title: subject.trim(), body: rest.join("\n").trim() };
+	}
+	return {
+		title: titleFromBranch(branch),
+		body: [...commits]
+			.reverse()
+			.map((commit) => `- ${commit.message}`)
+			.join("\n"),
+	};
+}
@@ -1,6 +1,7 @@
 import { trpc } from "renderer/lib/trpc";
 import { useTabsStore } from "renderer/stores/tabs/store";
 import type { ChangeCategory, ChangedFile } from "shared/changes-types";
+import { AgentTimelineView } from "./AgentTimelineView";
 import { ChangesView } from "./ChangesView";
 
 export function Sidebar() {
@@ -68,6 +69,7 @@ export function Sidebar() {
 				onFileOpen={handleFileOpen}
 				onFileOpenPinned={handleFileOpenPinned}
 			/>
+			{workspaceId && <AgentTimelineView workspaceId={workspaceId} />}
 		</aside>
 	);
 }
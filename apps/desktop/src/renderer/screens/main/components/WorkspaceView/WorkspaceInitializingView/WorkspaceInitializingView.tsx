@@ -179,7 +179,9 @@ export function WorkspaceInitializingView({
 						{/* Title and description */}
 						<div className="space-y-2">
 							<h2 className="text-lg font-medium text-foreground">
-								Workspace setup failed
+								{progress?.recovery === "rolled_back"
+									? "Setup was interrupted"
+									: "Workspace setup failed"}
 							</h2>
 							<p className="text-sm text-muted-foreground">{workspaceName}</p>
 							{progress?.error && (
@@ -320,7 +322,9 @@ export function WorkspaceInitializingView({
 
 				{/* Helper text */}
 				<p className="text-xs text-muted-foreground/60">
-					Takes 10s to a few minutes depending on the size of your repo
+					{progress?.recovery === "resumed"
+						? "Resuming setup that was interrupted when the app closed"
+						: "Takes 10s to a few minutes depending on the size of your repo"}
 				</p>
 			</div>
 		</div>
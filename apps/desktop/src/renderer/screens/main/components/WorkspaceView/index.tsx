@@ -21,7 +21,8 @@ export function WorkspaceView() {
 
 	// Also check for incomplete init after app restart:
 	// - worktree type workspace with null/undefined gitStatus means init never completed
-	// - This handles the case where app restarts during init (in-memory progress lost)
+	// - Covers a restart during init until reconcileInterruptedInits reports
+	//   progress, and workspaces whose init job was never persisted
 	// - Uses explicit check instead of == null to avoid lint issues
 	const gitStatus = activeWorkspace?.worktree?.gitStatus;
 	const hasIncompleteInit =
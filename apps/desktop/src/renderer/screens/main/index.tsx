@@ -4,15 +4,19 @@ import { useFeatureFlagEnabled } from "posthog-js/react";
 import { useCallback, useState } from "react";
 import { DndProvider } from "react-dnd";
 import { HiArrowPath } from "react-icons/hi2";
+import { AttentionInbox } from "renderer/components/AttentionInbox";
 import { NewWorkspaceModal } from "renderer/components/NewWorkspaceModal";
 import { SetupConfigModal } from "renderer/components/SetupConfigModal";
+import { TerminalOutputSearch } from "renderer/components/TerminalOutputSearch";
 import { UpdateRequiredPage } from "renderer/components/UpdateRequiredPage";
 import { useUpdateListener } from "renderer/components/UpdateToast";
 import { useAuth } from "renderer/contexts/AuthProvider";
+import { useCheckFailureAutoSend } from "renderer/hooks/useCheckFailureAutoSend";
 import { useVersionCheck } from "renderer/hooks/useVersionCheck";
 import { trpc } from "renderer/lib/trpc";
 import { SignInScreen } from "renderer/screens/sign-in";
 import { useCurrentView, useOpenSettings } from "renderer/stores/app-state";
+import { useToggleAttentionInbox } from "renderer/stores/attention-inbox";
 import { useAppHotkey, useHotkeysSync } from "renderer/stores/hotkeys";
 import { useOpenNewWorkspaceModal } from "renderer/stores/new-workspace-modal";
 import { useSidebarStore } from "renderer/stores/sidebar-state";
@@ -21,7 +25,9 @@ import { useTabsStore } from "renderer/stores/tabs/store";
 import type { Tab } from "renderer/stores/tabs/types";
 import { useAgentHookListener } from "renderer/stores/tabs/useAgentHookListener";
 import { useTabsWithPresets } from "renderer/stores/tabs/useTabsWithPresets";
+import { useTerminalTriggerListener } from "renderer/stores/tabs/useTerminalTriggerListener";
 import { findPanePath, getFirstPaneId } from "renderer/stores/tabs/utils";
+import { useToggleTerminalOutputSearch } from "renderer/stores/terminal-output-search";
 import { useWorkspaceInitStore } from "renderer/stores/workspace-init";
 import {
 	COLLAPSED_WORKSPACE_SIDEBAR_WIDTH,
@@ -31,6 +37,8 @@ import {
 import { dragDropManager } from "../../lib/dnd";
 import { AppFrame } from "./components/AppFrame";
 import { Background } from "./components/Background";
+import { CompareView } from "./components/CompareView";
+import { FanOutView } from "./components/FanOutView";
 import { ResizablePanel } from "./components/ResizablePanel";
 import { SettingsView } from "./components/SettingsView";
 import { StartView } from "./components/StartView";
@@ -73,6 +81,8 @@ export function MainScreen() {
 	const currentView = useCurrentView();
 	const openSettings = useOpenSettings();
 	const openNewWorkspaceModal = useOpenNewWorkspaceModal();
+	const toggleAttentionInbox = useToggleAttentionInbox();
+	const toggleTerminalOutputSearch = useToggleTerminalOutputSearch();
 	const toggleSidebar = useSidebarStore((s) => s.toggleSidebar);
 	const {
 		isOpen: isWorkspaceSidebarOpen,
@@ -106,6 +116,8 @@ export function MainScreen() {
 	const tabs = useTabsStore((s) => s.tabs);
 
 	useAgentHookListener();
+	useTerminalTriggerListener();
+	useCheckFailureAutoSend();
 	useUpdateListener();
 	useHotkeysSync();
 
@@ -159,6 +171,20 @@ export function MainScreen() {
 		openNewWorkspaceModal,
 	]);
 
+	useAppHotkey(
+		"OPEN_ATTENTION_INBOX",
+		() => toggleAttentionInbox(),
+		undefined,
+		[toggleAttentionInbox],
+	);
+
+	useAppHotkey(
+		"SEARCH_ALL_TERMINALS",
+		() => toggleTerminalOutputSearch(),
+		undefined,
+		[toggleTerminalOutputSearch],
+	);
+
 	/**
 	 * Resolves the target pane for split operations.
 	 * If the focused pane is desynced from layout (e.g., was removed),
@@ -300,6 +326,12 @@ export function MainScreen() {
 		if (currentView === "workspaces-list") {
 			return <WorkspacesListView />;
 		}
+		if (currentView === "fan-out") {
+			return <FanOutView />;
+		}
+		if (currentView === "compare") {
+			return <CompareView />;
+		}
 		return <WorkspaceView />;
 	};
 
@@ -394,6 +426,8 @@ export function MainScreen() {
 			</AppFrame>
 			<SetupConfigModal />
 			<NewWorkspaceModal />
+			<AttentionInbox />
+			<TerminalOutputSearch />
 			<WorkspaceInitEffects />
 		</DndProvider>
 	);
@@ -1,7 +1,13 @@
 import { create } from "zustand";
 import { devtools } from "zustand/middleware";
 
-export type AppView = "workspace" | "settings" | "tasks" | "workspaces-list";
+export type AppView =
+	| "workspace"
+	| "settings"
+	| "tasks"
+	| "workspaces-list"
+	| "fan-out"
+	| "compare";
 export type SettingsSection =
 	| "account"
 	| "project"
@@ -10,6 +16,8 @@ export type SettingsSection =
 	| "appearance"
 	| "keyboard"
 	| "presets"
+	| "templates"
+	| "triggers"
 	| "ringtones"
 	| "behavior";
 
@@ -19,6 +27,10 @@ interface AppState {
 	isTasksTabOpen: boolean;
 	isWorkspacesListOpen: boolean;
 	settingsSection: SettingsSection;
+	/** Fan-out group shown in the "fan-out" view */
+	fanOutGroupId: string | null;
+	/** Workspaces shown side by side in the "compare" view */
+	compareWorkspaceIds: string[];
 	setView: (view: AppView) => void;
 	openSettings: (section?: SettingsSection) => void;
 	closeSettings: () => void;
@@ -28,6 +40,11 @@ interface AppState {
 	closeTasks: () => void;
 	openWorkspacesList: () => void;
 	closeWorkspacesList: () => void;
+	openFanOut: (groupId: string) => void;
+	closeFanOut: () => void;
+	openCompare: (workspaceIds: string[]) => void;
+	setCompareWorkspaceIds: (workspaceIds: string[]) => void;
+	closeCompare: () => void;
 }
 
 export const useAppStore = create<AppState>()(
@@ -38,6 +55,8 @@ export const useAppStore = create<AppState>()(
 			isTasksTabOpen: false,
 			isWorkspacesListOpen: false,
 			settingsSection: "project",
+			fanOutGroupId: null,
+			compareWorkspaceIds: [],
 
 			setView: (view) => {
 				set({ currentView: view });
@@ -78,6 +97,26 @@ export const useAppStore = create<AppState>()(
 			closeWorkspacesList: () => {
 				set({ currentView: "workspace", isWorkspacesListOpen: false });
 			},
+
+			openFanOut: (groupId) => {
+				set({ currentView: "fan-out", fanOutGroupId: groupId });
+			},
+
+			closeFanOut: () => {
+				set({ currentView: "workspace", fanOutGroupId: null });
+			},
+
+			openCompare: (workspaceIds) => {
+				set({ currentView: "compare", compareWorkspaceIds: workspaceIds });
+			},
+
+			setCompareWorkspaceIds: (workspaceIds) => {
+				set({ compareWorkspaceIds: workspaceIds });
+			},
+
+			closeCompare: () => {
+				set({ currentView: "workspace", compareWorkspaceIds: [] });
+			},
 		}),
 		{ name: "AppStore" },
 	),
@@ -99,3 +138,13 @@ export const useOpenWorkspacesList = () =>
 	useAppStore((state) => state.openWorkspacesList);
 export const useCloseWorkspacesList = () =>
 	useAppStore((state) => state.closeWorkspacesList);
+export const useFanOutGroupId = () =>
+	useAppStore((state) => state.fanOutGroupId);
+export const useOpenFanOut = () => useAppStore((state) => state.openFanOut);
+export const useCloseFanOut = () => useAppStore((state) => state.closeFanOut);
+export const useCompareWorkspaceIds = () =>
+	useAppStore((state) => state.compareWorkspaceIds);
+export const useOpenCompare = () => useAppStore((state) => state.openCompare);
+export const useSetCompareWorkspaceIds = () =>
+	useAppStore((state) => state.setCompareWorkspaceIds);
+export const useCloseCompare = () => useAppStore((state) => state.closeCompare);
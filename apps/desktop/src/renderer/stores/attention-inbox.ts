@@ -0,0 +1,31 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+
+interface AttentionInboxState {
+	isOpen: boolean;
+	setOpen: (isOpen: boolean) => void;
+	toggle: () => void;
+}
+
+export const useAttentionInboxStore = create<AttentionInboxState>()(
+	devtools(
+		(set, get) => ({
+			isOpen: false,
+
+			setOpen: (isOpen: boolean) => {
+				set({ isOpen });
+			},
+
+			toggle: () => {
+				set({ isOpen: !get().isOpen });
+			},
+		}),
+		{ name: "AttentionInboxStore" },
+	),
+);
+
+// Convenience hooks
+export const useAttentionInboxOpen = () =>
+	useAttentionInboxStore((state) => state.isOpen);
+export const useToggleAttentionInbox = () =>
+	useAttentionInboxStore((state) => state.toggle);
@@ -48,6 +48,7 @@ const initialState = {
 		committed: true,
 		staged: true,
 		unstaged: true,
+		conflicted: true,
 	},
 	baseBranch: null,
 	showRenderedMarkdown: {} as Record<string, boolean>,
@@ -145,6 +146,18 @@ export const useChangesStore = create<ChangesState>()(
 					baseBranch: state.baseBranch,
 					showRenderedMarkdown: state.showRenderedMarkdown,
 				}),
+				// Sections added since the state was persisted start expanded
+				merge: (persisted, current) => {
+					const state = persisted as Partial<ChangesState>;
+					return {
+						...current,
+						...state,
+						expandedSections: {
+							...current.expandedSections,
+							...state.expandedSections,
+						},
+					};
+				},
 			},
 		),
 		{ name: "ChangesStore" },
@@ -0,0 +1,44 @@
+import type { MosaicNode } from "react-mosaic-component";
+import type { PaneType } from "shared/tabs-types";
+import type { Pane, Tab, TabsState } from "../types";
+
+/**
+ * Finds the pane of the given type in any of the workspace's tabs. Used for
+ * panes that exist once per workspace (pull request, check logs).
+ */
+export function findWorkspacePane(
+	state: TabsState,
+	workspaceId: string,
+	type: PaneType,
+): Pane | undefined {
+	const tabIds = new Set(
+		state.tabs.filter((t) => t.workspaceId === workspaceId).map((t) => t.id),
+	);
+	return Object.values(state.panes).find(
+		(p) => p.type === type && tabIds.has(p.tabId),
+	);
+}
+
+/**
+ * Splits the tab so the new pane takes the right half, and focuses it.
+ */
+export function splitTabWithPane(
+	state: TabsState,
+	tab: Tab,
+	pane: Pane,
+): Pick<TabsState, "tabs" | "panes" | "focusedPaneIds"> {
+	const newLayout: MosaicNode<string> = {
+		direction: "row",
+		first: tab.layout,
+		second: pane.id,
+		splitPercentage: 50,
+	};
+
+	return {
+		tabs: state.tabs.map((t) =>
+			t.id === tab.id ? { ...t, layout: newLayout } : t,
+		),
+		panes: { ...state.panes, [pane.id]: pane },
+		focusedPaneIds: { ...state.focusedPaneIds, [tab.id]: pane.id },
+	};
+}
@@ -2,4 +2,5 @@ export * from "./store";
 export * from "./types";
 export * from "./useAgentHookListener";
 export * from "./useTabsWithPresets";
+export * from "./useTerminalTriggerListener";
 export * from "./utils";
@@ -1,15 +1,29 @@
 import type { MosaicNode } from "react-mosaic-component";
 import { updateTree } from "react-mosaic-component";
+import type { FileViewerMode } from "shared/tabs-types";
 import { create } from "zustand";
 import { devtools, persist } from "zustand/middleware";
 import { trpcTabsStorage } from "../../lib/trpc-storage";
 import { movePaneToNewTab, movePaneToTab } from "./actions/move-pane";
-import type { AddFileViewerPaneOptions, TabsState, TabsStore } from "./types";
+import { findWorkspacePane, splitTabWithPane } from "./actions/workspace-pane";
+import type {
+	AddFileViewerPaneOptions,
+	AddPullRequestPaneOptions,
+	AddReplayPaneOptions,
+	AddWebviewPaneOptions,
+	TabsState,
+	TabsStore,
+} from "./types";
 import {
 	type CreatePaneOptions,
+	createCheckLogsPane,
 	createFileViewerPane,
 	createPane,
+	createPullRequestPane,
+	createReplayPane,
+	createTabsFromTemplate,
 	createTabWithPane,
+	createWebviewPane,
 	extractPaneIdsFromLayout,
 	getAdjacentPaneId,
 	getFirstPaneId,
@@ -120,6 +134,47 @@ export const useTabsStore = create<TabsStore>()(
 					return { tabId: tab.id, paneId: pane.id };
 				},
 
+				addTemplateTabs: (workspaceId, template) => {
+					const state = get();
+					const created = createTabsFromTemplate(workspaceId, template);
+					if (created.length === 0) return [];
+
+					const newPanes = { ...state.panes };
+					const newFocusedPaneIds = { ...state.focusedPaneIds };
+					for (const { tab, panes } of created) {
+						for (const pane of panes) {
+							newPanes[pane.id] = pane;
+						}
+						newFocusedPaneIds[tab.id] = panes[0].id;
+					}
+
+					const firstTabId = created[0].tab.id;
+					const currentActiveId = state.activeTabIds[workspaceId];
+					const historyStack = state.tabHistoryStacks[workspaceId] || [];
+					const newHistoryStack = currentActiveId
+						? [
+								currentActiveId,
+								...historyStack.filter((id) => id !== currentActiveId),
+							]
+						: historyStack;
+
+					set({
+						tabs: [...state.tabs, ...created.map(({ tab }) => tab)],
+						panes: newPanes,
+						activeTabIds: {
+							...state.activeTabIds,
+							[workspaceId]: firstTabId,
+						},
+						focusedPaneIds: newFocusedPaneIds,
+						tabHistoryStacks: {
+							...state.tabHistoryStacks,
+							[workspaceId]: newHistoryStack,
+						},
+					});
+
+					return created.map(({ tab }) => tab.id);
+				},
+
 				removeTab: (tabId) => {
 					const state = get();
 					const tabToRemove = state.tabs.find((t) => t.id === tabId);
@@ -362,6 +417,61 @@ export const useTabsStore = create<TabsStore>()(
 					return newPane.id;
 				},
 
+				addWebviewPane: (tabId: string, options: AddWebviewPaneOptions) => {
+					const state = get();
+					const tab = state.tabs.find((t) => t.id === tabId);
+					if (!tab) return "";
+
+					const newPane = createWebviewPane(tabId, options);
+
+					const newLayout: MosaicNode<string> = {
+						direction: "row",
+						first: tab.layout,
+						second: newPane.id,
+						splitPercentage: 50,
+					};
+
+					set({
+						tabs: state.tabs.map((t) =>
+							t.id === tabId ? { ...t, layout: newLayout } : t,
+						),
+						panes: { ...state.panes, [newPane.id]: newPane },
+						focusedPaneIds: {
+							...state.focusedPaneIds,
+							[tabId]: newPane.id,
+						},
+					});
+
+					return newPane.id;
+				},
+
+				openBrowserPane: (workspaceId: string, url: string) => {
+					const state = get();
+
+					const existingPane = findWorkspacePane(state, workspaceId, "webview");
+					if (existingPane) {
+						get().setPaneUrl(existingPane.id, url);
+						get().setActiveTab(workspaceId, existingPane.tabId);
+						get().setFocusedPane(existingPane.tabId, existingPane.id);
+						return existingPane.id;
+					}
+
+					const activeTabId = state.activeTabIds[workspaceId];
+					if (activeTabId && state.tabs.some((t) => t.id === activeTabId)) {
+						return get().addWebviewPane(activeTabId, { url });
+					}
+
+					const { tabId, paneId } = get().addTab(workspaceId);
+					const browserPane = createWebviewPane(tabId, { url });
+					set((s) => ({
+						panes: {
+							...s.panes,
+							[paneId]: { ...browserPane, id: paneId },
+						},
+					}));
+					return paneId;
+				},
+
 				addFileViewerPane: (
 					workspaceId: string,
 					options: AddFileViewerPaneOptions,
@@ -463,8 +573,10 @@ export const useTabsStore = create<TabsStore>()(
 							options.filePath.split("/").pop() || options.filePath;
 
 						// Determine default view mode
-						let viewMode: "raw" | "rendered" | "diff" = "raw";
-						if (options.diffCategory) {
+						let viewMode: FileViewerMode = "raw";
+						if (options.diffCategory === "conflicted") {
+							viewMode = "conflict";
+						} else if (options.diffCategory) {
 							viewMode = "diff";
 						} else if (
 							options.filePath.endsWith(".md") ||
@@ -526,6 +638,170 @@ export const useTabsStore = create<TabsStore>()(
 					return newPane.id;
 				},
 
+				addReplayPane: (workspaceId: string, options: AddReplayPaneOptions) => {
+					const state = get();
+					const activeTabId = state.activeTabIds[workspaceId];
+					const activeTab = state.tabs.find((t) => t.id === activeTabId);
+					const replayOptions = { ...options, workspaceId };
+
+					// If no active tab, create a new one and convert its pane to a replay
+					if (!activeTab) {
+						const { tabId, paneId } = get().addTab(workspaceId);
+						const replayPane = createReplayPane(tabId, replayOptions);
+						set((s) => ({
+							panes: {
+								...s.panes,
+								[paneId]: { ...replayPane, id: paneId },
+							},
+						}));
+						return paneId;
+					}
+
+					// Recording already open in this tab - just focus it
+					const existingPane = extractPaneIdsFromLayout(activeTab.layout)
+						.map((id) => state.panes[id])
+						.find(
+							(p) =>
+								p?.type === "replay" &&
+								p.replay?.workspaceId === workspaceId &&
+								p.replay.recordingId === options.recordingId,
+						);
+
+					if (existingPane) {
+						set({
+							focusedPaneIds: {
+								...state.focusedPaneIds,
+								[activeTab.id]: existingPane.id,
+							},
+						});
+						return existingPane.id;
+					}
+
+					const newPane = createReplayPane(activeTab.id, replayOptions);
+
+					const newLayout: MosaicNode<string> = {
+						direction: "row",
+						first: activeTab.layout,
+						second: newPane.id,
+						splitPercentage: 50,
+					};
+
+					set({
+						tabs: state.tabs.map((t) =>
+							t.id === activeTab.id ? { ...t, layout: newLayout } : t,
+						),
+						panes: { ...state.panes, [newPane.id]: newPane },
+						focusedPaneIds: {
+							...state.focusedPaneIds,
+							[activeTab.id]: newPane.id,
+						},
+					});
+
+					return newPane.id;
+				},
+
+				addPullRequestPane: (
+					workspaceId: string,
+					options: AddPullRequestPaneOptions = {},
+				) => {
+					const state = get();
+					const prOptions = { ...options, workspaceId };
+
+					// One PR pane per workspace - reuse it wherever it is
+					const existingPane = findWorkspacePane(
+						state,
+						workspaceId,
+						"pull-request",
+					);
+					if (existingPane) {
+						get().setActiveTab(workspaceId, existingPane.tabId);
+						set((s) => ({
+							panes: {
+								...s.panes,
+								[existingPane.id]: {
+									...existingPane,
+									pullRequest: prOptions,
+								},
+							},
+							focusedPaneIds: {
+								...s.focusedPaneIds,
+								[existingPane.tabId]: existingPane.id,
+							},
+						}));
+						return existingPane.id;
+					}
+
+					const activeTabId = state.activeTabIds[workspaceId];
+					const activeTab = state.tabs.find((t) => t.id === activeTabId);
+
+					// If no active tab, create a new one and convert its pane
+					if (!activeTab) {
+						const { tabId, paneId } = get().addTab(workspaceId);
+						const prPane = createPullRequestPane(tabId, prOptions);
+						set((s) => ({
+							panes: {
+								...s.panes,
+								[paneId]: { ...prPane, id: paneId },
+							},
+						}));
+						return paneId;
+					}
+
+					const newPane = createPullRequestPane(activeTab.id, prOptions);
+					set(splitTabWithPane(state, activeTab, newPane));
+					return newPane.id;
+				},
+
+				addCheckLogsPane: (workspaceId: string) => {
+					const state = get();
+
+					const existingPane = findWorkspacePane(
+						state,
+						workspaceId,
+						"check-logs",
+					);
+					if (existingPane) {
+						get().setActiveTab(workspaceId, existingPane.tabId);
+						get().setFocusedPane(existingPane.tabId, existingPane.id);
+						return existingPane.id;
+					}
+
+					const activeTabId = state.activeTabIds[workspaceId];
+					const activeTab = state.tabs.find((t) => t.id === activeTabId);
+
+					if (!activeTab) {
+						const { tabId, paneId } = get().addTab(workspaceId);
+						const logsPane = createCheckLogsPane(tabId, workspaceId);
+						set((s) => ({
+							panes: {
+								...s.panes,
+								[paneId]: { ...logsPane, id: paneId },
+							},
+						}));
+						return paneId;
+					}
+
+					const newPane = createCheckLogsPane(activeTab.id, workspaceId);
+					set(splitTabWithPane(state, activeTab, newPane));
+					return newPane.id;
+				},
+
+				updateCheckLogsState: (paneId, patch) => {
+					set((state) => {
+						const pane = state.panes[paneId];
+						if (!pane?.checkLogs) return state;
+						return {
+							panes: {
+								...state.panes,
+								[paneId]: {
+									...pane,
+									checkLogs: { ...pane.checkLogs, ...patch },
+								},
+							},
+						};
+					});
+				},
+
 				removePane: (paneId) => {
 					const state = get();
 					const pane = state.panes[paneId];
@@ -671,6 +947,19 @@ export const useTabsStore = create<TabsStore>()(
 					});
 				},
 
+				setPaneUrl: (paneId, url) => {
+					const state = get();
+					const pane = state.panes[paneId];
+					if (!pane || pane.url === url) return;
+
+					set({
+						panes: {
+							...state.panes,
+							[paneId]: { ...pane, url },
+						},
+					});
+				},
+
 				clearPaneInitialData: (paneId) => {
 					set((state) => {
 						const pane = state.panes[paneId];
@@ -1,8 +1,27 @@
 import { create } from "zustand";
 
+/** A line to scroll to and select once the pane's terminal is ready */
+export interface TerminalReveal {
+	/** Row in the main process's buffer; the renderer's may be slightly off */
+	row: number;
+	column: number;
+	length: number;
+	/** Text of the line, used to find it if rows differ */
+	text: string;
+}
+
+/** Shell integration actions for a pane, from OSC 133 command marks */
+export interface TerminalCommandActions {
+	jumpToPreviousCommand: () => void;
+	jumpToNextCommand: () => void;
+	copyLastCommandOutput: () => void;
+}
+
 interface TerminalCallbacksState {
 	clearCallbacks: Map<string, () => void>;
 	scrollToBottomCallbacks: Map<string, () => void>;
+	commandActions: Map<string, TerminalCommandActions>;
+	pendingReveals: Map<string, TerminalReveal>;
 	registerClearCallback: (paneId: string, callback: () => void) => void;
 	unregisterClearCallback: (paneId: string) => void;
 	getClearCallback: (paneId: string) => (() => void) | undefined;
@@ -12,12 +31,22 @@ interface TerminalCallbacksState {
 	) => void;
 	unregisterScrollToBottomCallback: (paneId: string) => void;
 	getScrollToBottomCallback: (paneId: string) => (() => void) | undefined;
+	registerCommandActions: (
+		paneId: string,
+		actions: TerminalCommandActions,
+	) => void;
+	unregisterCommandActions: (paneId: string) => void;
+	getCommandActions: (paneId: string) => TerminalCommandActions | undefined;
+	requestReveal: (paneId: string, reveal: TerminalReveal) => void;
+	clearReveal: (paneId: string) => void;
 }
 
 export const useTerminalCallbacksStore = create<TerminalCallbacksState>()(
 	(set, get) => ({
 		clearCallbacks: new Map(),
 		scrollToBottomCallbacks: new Map(),
+		commandActions: new Map(),
+		pendingReveals: new Map(),
 
 		registerClearCallback: (paneId, callback) => {
 			set((state) => {
@@ -58,5 +87,42 @@ export const useTerminalCallbacksStore = create<TerminalCallbacksState>()(
 		getScrollToBottomCallback: (paneId) => {
 			return get().scrollToBottomCallbacks.get(paneId);
 		},
+
+		registerCommandActions: (paneId, actions) => {
+			set((state) => {
+				const newActions = new Map(state.commandActions);
+				newActions.set(paneId, actions);
+				return { commandActions: newActions };
+			});
+		},
+
+		unregisterCommandActions: (paneId) => {
+			set((state) => {
+				const newActions = new Map(state.commandActions);
+				newActions.delete(paneId);
+				return { commandActions: newActions };
+			});
+		},
+
+		getCommandActions: (paneId) => {
+			return get().commandActions.get(paneId);
+		},
+
+		requestReveal: (paneId, reveal) => {
+			set((state) => {
+				const newReveals = new Map(state.pendingReveals);
+				newReveals.set(paneId, reveal);
+				return { pendingReveals: newReveals };
+			});
+		},
+
+		clearReveal: (paneId) => {
+			set((state) => {
+				if (!state.pendingReveals.has(paneId)) return state;
+				const newReveals = new Map(state.pendingReveals);
+				newReveals.delete(paneId);
+				return { pendingReveals: newReveals };
+			});
+		},
 	}),
 );
@@ -1,8 +1,10 @@
+import type { WorkspaceTemplate } from "@superset/local-db";
 import type { MosaicBranch, MosaicNode } from "react-mosaic-component";
 import type { ChangeCategory } from "shared/changes-types";
 import type {
 	BaseTab,
 	BaseTabsState,
+	CheckLogsState,
 	Pane,
 	PaneStatus,
 	PaneType,
@@ -33,6 +35,16 @@ export interface TabsState extends Omit<BaseTabsState, "tabs"> {
 export interface AddTabOptions {
 	initialCommands?: string[];
 	initialCwd?: string;
+	/** Pane name, "Terminal" if omitted */
+	name?: string;
+}
+
+/**
+ * Options for opening a url in a webview pane
+ */
+export interface AddWebviewPaneOptions {
+	url: string;
+	name?: string;
 }
 
 /**
@@ -51,6 +63,23 @@ export interface AddFileViewerPaneOptions {
 	isPinned?: boolean;
 }
 
+/**
+ * Options for opening a terminal recording in a replay pane
+ */
+export interface AddReplayPaneOptions {
+	recordingId: string;
+	/** Display name for the pane (e.g., recording start time) */
+	name?: string;
+}
+
+/**
+ * Options for opening the pull request pane
+ */
+export interface AddPullRequestPaneOptions {
+	/** Review thread to scroll to */
+	threadId?: string;
+}
+
 /**
  * Actions available on the tabs store
  */
@@ -60,6 +89,11 @@ export interface TabsStore extends TabsState {
 		workspaceId: string,
 		options?: AddTabOptions,
 	) => { tabId: string; paneId: string };
+	/** Opens every tab of a workspace template; returns the new tab ids */
+	addTemplateTabs: (
+		workspaceId: string,
+		template: WorkspaceTemplate,
+	) => string[];
 	removeTab: (tabId: string) => void;
 	renameTab: (tabId: string, newName: string) => void;
 	setTabAutoTitle: (tabId: string, title: string) => void;
@@ -74,10 +108,25 @@ export interface TabsStore extends TabsState {
 
 	// Pane operations
 	addPane: (tabId: string, options?: AddTabOptions) => string;
+	addWebviewPane: (tabId: string, options: AddWebviewPaneOptions) => string;
+	/** Loads the url in the workspace's browser pane, adding one if needed */
+	openBrowserPane: (workspaceId: string, url: string) => string;
 	addFileViewerPane: (
 		workspaceId: string,
 		options: AddFileViewerPaneOptions,
 	) => string;
+	addReplayPane: (workspaceId: string, options: AddReplayPaneOptions) => string;
+	/** Opens (or focuses) the pane listing the workspace PR's review threads */
+	addPullRequestPane: (
+		workspaceId: string,
+		options?: AddPullRequestPaneOptions,
+	) => string;
+	/** Opens (or focuses) the pane showing the workspace PR's failing checks */
+	addCheckLogsPane: (workspaceId: string) => string;
+	updateCheckLogsState: (
+		paneId: string,
+		patch: Partial<Omit<CheckLogsState, "workspaceId">>,
+	) => void;
 	removePane: (paneId: string) => void;
 	setFocusedPane: (tabId: string, paneId: string) => void;
 	markPaneAsUsed: (paneId: string) => void;
@@ -89,6 +138,7 @@ export interface TabsStore extends TabsState {
 		confirmed: boolean,
 	) => void;
 	clearPaneInitialData: (paneId: string) => void;
+	setPaneUrl: (paneId: string, url: string) => void;
 	/** Pin a file-viewer pane so it won't be replaced by new file clicks */
 	pinPane: (paneId: string) => void;
 
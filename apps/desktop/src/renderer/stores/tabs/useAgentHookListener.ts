@@ -17,20 +17,12 @@ import { resolveNotificationTarget } from "./utils/resolve-notification-target";
  * - PermissionRequest → "permission" (red pulsing indicator)
  * - Terminal Exit → "idle" (handled in Terminal.tsx, clears stuck indicators)
  *
- * KNOWN LIMITATIONS (External - Claude Code / OpenCode hook systems):
- *
- * 1. User Interrupt (Ctrl+C): Claude Code's Stop hook does NOT fire when the user
- *    interrupts the agent. However, the terminal exit handler in Terminal.tsx
- *    will automatically clear the "working" indicator when the process exits.
- *
- * 2. Permission Denied: No hook fires when the user denies a permission request.
- *    The terminal exit handler will clear the "permission" indicator on process exit.
- *
- * 3. Tool Failures: No hook fires when a tool execution fails. The status
- *    continues until the agent stops or terminal exits.
- *
- * Note: Terminal exit detection (in Terminal.tsx) provides a reliable fallback
- * for clearing stuck indicators when agent hooks fail to fire.
+ * HOOK GAPS: Claude Code / OpenCode hooks don't fire on user interrupt (Ctrl+C),
+ * denied permissions or tool failures, and some agents have no hooks at all.
+ * Main fills these in by watching each terminal's output (quiet time,
+ * permission prompts on screen, the shell prompt returning) and emitting
+ * synthetic lifecycle events, which arrive here like hook events.
+ * Terminal exit (handled in Terminal.tsx) still clears indicators as a last resort.
  */
 export function useAgentHookListener() {
 	const setActiveWorkspace = useSetActiveWorkspace();
@@ -39,6 +31,7 @@ export function useAgentHookListener() {
 	// Use ref to avoid stale closure in subscription callback
 	const activeWorkspaceRef = useRef(activeWorkspace);
 	activeWorkspaceRef.current = activeWorkspace;
+	const trpcUtils = trpc.useUtils();
 
 	trpc.notifications.subscribe.useSubscription(undefined, {
 		onData: (event) => {
@@ -60,6 +53,11 @@ export function useAgentHookListener() {
 
 				if (!paneId) return;
 
+				// Timeline rows are written by main on the same event
+				trpcUtils.agentTimeline.getWorkspaceTimeline.invalidate({
+					workspaceId,
+				});
+
 				const lifecycleEvent = event.data;
 				if (!lifecycleEvent) return;
 
@@ -0,0 +1,66 @@
+import { toast } from "@superset/ui/sonner";
+import { trpc } from "renderer/lib/trpc";
+import { NOTIFICATION_EVENTS } from "shared/constants";
+import { useTabsStore } from "./store";
+
+/**
+ * Hook that runs the pane actions of terminal triggers fired in main.
+ * Desktop notifications and ringtones are handled in main.
+ *
+ * ACTIONS:
+ * - setStatus → sets the status indicator of the pane that matched
+ * - runCommand → runs in the named terminal pane of the same tab, adding the
+ *   pane if it doesn't exist (later firings then reuse it)
+ * - openUrl → loads the url in the tab's webview pane, adding one if needed
+ */
+export function useTerminalTriggerListener() {
+	const writeMutation = trpc.terminal.write.useMutation();
+
+	trpc.notifications.subscribe.useSubscription(undefined, {
+		onData: (event) => {
+			if (event.type !== NOTIFICATION_EVENTS.TERMINAL_TRIGGER || !event.data) {
+				return;
+			}
+
+			const { paneId, triggerName, action } = event.data;
+			const state = useTabsStore.getState();
+			const pane = state.panes[paneId];
+			if (!pane) return;
+
+			const tabPanes = state.getPanesForTab(pane.tabId);
+
+			if (action.type === "setStatus") {
+				state.setPaneStatus(paneId, action.status);
+			} else if (action.type === "runCommand") {
+				const targetName = action.pane ?? triggerName;
+				const target = tabPanes.find(
+					(p) => p.type === "terminal" && p.name === targetName,
+				);
+
+				if (target) {
+					writeMutation.mutate(
+						{ paneId: target.id, data: `${action.command}\n` },
+						{
+							onError: (error) =>
+								toast.error(`Trigger "${triggerName}" failed`, {
+									description: error.message,
+								}),
+						},
+					);
+				} else {
+					state.addPane(pane.tabId, {
+						name: targetName,
+						initialCommands: [action.command],
+					});
+				}
+			} else if (action.type === "openUrl" && action.url) {
+				const webviewPane = tabPanes.find((p) => p.type === "webview");
+				if (webviewPane) {
+					state.setPaneUrl(webviewPane.id, action.url);
+				} else {
+					state.addWebviewPane(pane.tabId, { url: action.url });
+				}
+			}
+		},
+	});
+}
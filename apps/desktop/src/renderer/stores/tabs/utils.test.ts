@@ -1,6 +1,11 @@
 import { describe, expect, it } from "bun:test";
 import type { MosaicNode } from "react-mosaic-component";
-import { findPanePath, getAdjacentPaneId } from "./utils";
+import {
+	createTabsFromTemplate,
+	extractPaneIdsFromLayout,
+	findPanePath,
+	getAdjacentPaneId,
+} from "./utils";
 
 describe("findPanePath", () => {
 	it("returns empty array for single pane layout matching the id", () => {
@@ -189,3 +194,76 @@ describe("getAdjacentPaneId", () => {
 		expect(getAdjacentPaneId(layout, "pane-4")).toBe("pane-3"); // Last pane goes to previous
 	});
 });
+
+describe("createTabsFromTemplate", () => {
+	it("builds a split layout with terminal and webview panes", () => {
+		const [{ tab, panes }] = createTabsFromTemplate("ws-1", {
+			name: "Agent",
+			tabs: [
+				{
+					layout: {
+						direction: "row",
+						splitPercentage: 60,
+						first: { type: "terminal", name: "Claude", commands: ["claude"] },
+						second: {
+							direction: "column",
+							first: {
+								type: "terminal",
+								commands: ["bun dev"],
+								cwd: "apps/web",
+							},
+							second: { type: "webview", port: "detected" },
+						},
+					},
+				},
+			],
+		});
+
+		expect(tab.name).toBe("Agent");
+		expect(tab.workspaceId).toBe("ws-1");
+		expect(extractPaneIdsFromLayout(tab.layout)).toEqual(
+			panes.map((pane) => pane.id),
+		);
+		expect(typeof tab.layout === "object" && tab.layout.splitPercentage).toBe(
+			60,
+		);
+
+		const [agent, devServer, browser] = panes;
+		expect(agent).toMatchObject({
+			type: "terminal",
+			name: "Claude",
+			tabId: tab.id,
+			initialCommands: ["claude"],
+		});
+		expect(devServer).toMatchObject({
+			type: "terminal",
+			initialCommands: ["bun dev"],
+			initialCwd: "apps/web",
+		});
+		expect(browser).toMatchObject({
+			type: "webview",
+			url: undefined,
+			webview: { port: "detected" },
+		});
+	});
+
+	it("resolves fixed ports to localhost urls and names multiple tabs", () => {
+		const created = createTabsFromTemplate("ws-1", {
+			name: "Dev",
+			tabs: [
+				{ layout: { type: "terminal" } },
+				{ name: "Docs", layout: { type: "webview", port: 3000 } },
+				{ layout: { type: "webview", url: "https://example.com" } },
+			],
+		});
+
+		expect(created.map(({ tab }) => tab.name)).toEqual([
+			"Dev 1",
+			"Docs",
+			"Dev 3",
+		]);
+		expect(created[1].panes[0].url).toBe("http://localhost:3000");
+		expect(created[2].panes[0].url).toBe("https://example.com");
+		expect(created[0].panes[0].initialCommands).toBeUndefined();
+	});
+});
@@ -1,3 +1,8 @@
+import type {
+	WorkspaceTemplate,
+	WorkspaceTemplateLayout,
+	WorkspaceTemplatePane,
+} from "@superset/local-db";
 import type { MosaicBranch, MosaicNode } from "react-mosaic-component";
 import type { ChangeCategory } from "shared/changes-types";
 import type {
@@ -73,6 +78,7 @@ export const getPaneIdsInVisualOrder = extractPaneIdsFromLayout;
 export interface CreatePaneOptions {
 	initialCommands?: string[];
 	initialCwd?: string;
+	name?: string;
 }
 
 /**
@@ -89,7 +95,7 @@ export const createPane = (
 		id,
 		tabId,
 		type,
-		name: "Terminal",
+		name: options?.name ?? "Terminal",
 		isNew: true,
 		initialCommands: options?.initialCommands,
 		initialCwd: options?.initialCwd,
@@ -125,7 +131,9 @@ export const createFileViewerPane = (
 
 	// Determine default view mode based on file and category
 	let defaultViewMode: FileViewerMode = "raw";
-	if (options.diffCategory) {
+	if (options.diffCategory === "conflicted") {
+		defaultViewMode = "conflict";
+	} else if (options.diffCategory) {
 		defaultViewMode = "diff";
 	} else if (
 		MARKDOWN_EXTENSIONS.some((ext) => options.filePath.endsWith(ext))
@@ -157,6 +165,182 @@ export const createFileViewerPane = (
 	};
 };
 
+/**
+ * Options for creating a replay pane
+ */
+export interface CreateReplayPaneOptions {
+	workspaceId: string;
+	recordingId: string;
+	name?: string;
+}
+
+/**
+ * Creates a new replay pane for an asciicast recording
+ */
+export const createReplayPane = (
+	tabId: string,
+	options: CreateReplayPaneOptions,
+): Pane => {
+	const id = generateId("pane");
+
+	return {
+		id,
+		tabId,
+		type: "replay",
+		name: options.name ?? "Replay",
+		replay: {
+			workspaceId: options.workspaceId,
+			recordingId: options.recordingId,
+		},
+	};
+};
+
+/**
+ * Options for creating a pull request pane
+ */
+export interface CreatePullRequestPaneOptions {
+	workspaceId: string;
+	threadId?: string;
+}
+
+/**
+ * Creates a new pane listing the review threads of the workspace's PR
+ */
+export const createPullRequestPane = (
+	tabId: string,
+	options: CreatePullRequestPaneOptions,
+): Pane => {
+	const id = generateId("pane");
+
+	return {
+		id,
+		tabId,
+		type: "pull-request",
+		name: "Pull Request",
+		pullRequest: {
+			workspaceId: options.workspaceId,
+			threadId: options.threadId,
+		},
+	};
+};
+
+/**
+ * Creates a new pane showing the failing CI checks of the workspace's PR
+ */
+export const createCheckLogsPane = (
+	tabId: string,
+	workspaceId: string,
+): Pane => {
+	const id = generateId("pane");
+
+	return {
+		id,
+		tabId,
+		type: "check-logs",
+		name: "Check Logs",
+		checkLogs: { workspaceId },
+	};
+};
+
+/**
+ * Options for creating a webview pane
+ */
+export interface CreateWebviewPaneOptions {
+	name?: string;
+	url?: string;
+	port?: number | "detected";
+}
+
+/**
+ * Creates a new webview pane. A fixed port resolves to a localhost url
+ * immediately; "detected" leaves the url empty until a port shows up.
+ */
+export const createWebviewPane = (
+	tabId: string,
+	options: CreateWebviewPaneOptions,
+): Pane => {
+	const id = generateId("pane");
+	const url =
+		options.url ??
+		(typeof options.port === "number"
+			? `http://localhost:${options.port}`
+			: undefined);
+
+	return {
+		id,
+		tabId,
+		type: "webview",
+		name: options.name ?? "Browser",
+		url,
+		webview: options.port !== undefined ? { port: options.port } : undefined,
+	};
+};
+
+const createTemplatePane = (
+	tabId: string,
+	templatePane: WorkspaceTemplatePane,
+): Pane => {
+	if (templatePane.type === "webview") {
+		return createWebviewPane(tabId, templatePane);
+	}
+
+	const pane = createPane(tabId, "terminal", {
+		initialCommands: templatePane.commands?.length
+			? templatePane.commands
+			: undefined,
+		initialCwd: templatePane.cwd || undefined,
+	});
+	return templatePane.name ? { ...pane, name: templatePane.name } : pane;
+};
+
+const buildTemplateLayout = (
+	tabId: string,
+	layout: WorkspaceTemplateLayout,
+	panes: Pane[],
+): MosaicNode<string> => {
+	if ("type" in layout) {
+		const pane = createTemplatePane(tabId, layout);
+		panes.push(pane);
+		return pane.id;
+	}
+
+	return {
+		direction: layout.direction,
+		first: buildTemplateLayout(tabId, layout.first, panes),
+		second: buildTemplateLayout(tabId, layout.second, panes),
+		splitPercentage: layout.splitPercentage,
+	};
+};
+
+/**
+ * Creates the tabs and panes described by a workspace template.
+ * Panes are returned in visual order, so the first one is the natural focus target.
+ */
+export const createTabsFromTemplate = (
+	workspaceId: string,
+	template: WorkspaceTemplate,
+): { tab: Tab; panes: Pane[] }[] => {
+	return template.tabs.map((templateTab, index) => {
+		const tabId = generateId("tab");
+		const panes: Pane[] = [];
+		const layout = buildTemplateLayout(tabId, templateTab.layout, panes);
+
+		const tab: Tab = {
+			id: tabId,
+			name:
+				templateTab.name ||
+				(template.tabs.length > 1
+					? `${template.name} ${index + 1}`
+					: template.name),
+			workspaceId,
+			layout,
+			createdAt: Date.now(),
+		};
+
+		return { tab, panes };
+	});
+};
+
 /**
  * Generates a static tab name based on existing tabs
  * (e.g., "Terminal 1", "Terminal 2", finding the next available number)
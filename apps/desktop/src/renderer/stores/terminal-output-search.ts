@@ -0,0 +1,31 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+
+interface TerminalOutputSearchState {
+	isOpen: boolean;
+	setOpen: (isOpen: boolean) => void;
+	toggle: () => void;
+}
+
+export const useTerminalOutputSearchStore = create<TerminalOutputSearchState>()(
+	devtools(
+		(set, get) => ({
+			isOpen: false,
+
+			setOpen: (isOpen: boolean) => {
+				set({ isOpen });
+			},
+
+			toggle: () => {
+				set({ isOpen: !get().isOpen });
+			},
+		}),
+		{ name: "TerminalOutputSearchStore" },
+	),
+);
+
+// Convenience hooks
+export const useTerminalOutputSearchOpen = () =>
+	useTerminalOutputSearchStore((state) => state.isOpen);
+export const useToggleTerminalOutputSearch = () =>
+	useTerminalOutputSearchStore((state) => state.toggle);
@@ -1,3 +1,4 @@
+import type { WorkspaceTemplate } from "@superset/local-db";
 import type { WorkspaceInitProgress } from "shared/types/workspace-init";
 import { create } from "zustand";
 import { devtools } from "zustand/middleware";
@@ -10,6 +11,10 @@ export interface PendingTerminalSetup {
 	workspaceId: string;
 	projectId: string;
 	initialCommands: string[] | null;
+	/** Layout opened alongside the setup terminal */
+	template: WorkspaceTemplate | null;
+	/** Agent started in its own tab (fan-out workspaces) */
+	agent?: { name: string; commands: string[] };
 }
 
 interface WorkspaceInitState {
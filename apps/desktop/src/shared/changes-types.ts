@@ -16,7 +16,8 @@ export type ChangeCategory =
 	| "against-base"
 	| "committed"
 	| "staged"
-	| "unstaged";
+	| "unstaged"
+	| "conflicted";
 
 /** A changed file entry */
 export interface ChangedFile {
@@ -46,6 +47,8 @@ export interface GitChangesStatus {
 	staged: ChangedFile[];
 	unstaged: ChangedFile[];
 	untracked: ChangedFile[];
+	conflicted: ChangedFile[]; // Unmerged paths of an in-progress operation
+	operation: GitOperationState | null; // Rebase/merge/etc. stopped mid-way
 	ahead: number; // Commits ahead of default branch
 	behind: number; // Commits behind default branch
 	// Tracking branch status (for push/pull)
@@ -54,6 +57,55 @@ export interface GitChangesStatus {
 	hasUpstream: boolean; // Whether branch has an upstream tracking branch
 }
 
+/** A multi-step git operation that can stop on conflicts */
+export type GitOperationKind = "rebase" | "merge" | "cherry-pick" | "revert";
+
+/** An operation waiting on the user, with the files it stopped on */
+export interface GitOperationState {
+	kind: GitOperationKind;
+	conflictedFiles: string[];
+}
+
+/** Outcome of pull/sync or continuing an operation */
+export type GitOperationResult =
+	| { success: true }
+	| { success: false; operation: GitOperationState };
+
+/** The sides of a conflicted file, read from the index stages */
+export interface ConflictVersions {
+	/** Common ancestor (stage 1); empty when the file was added on both sides */
+	base: string;
+	/** Stage 2: HEAD, which during a rebase is the branch being rebased onto */
+	ours: string;
+	/** Stage 3: the commit being merged, picked or replayed */
+	theirs: string;
+	/** Working tree file, with conflict markers until resolved */
+	result: string;
+	oursLabel: string;
+	theirsLabel: string;
+	language: string;
+}
+
+/** A hunk of a file's staged or unstaged diff */
+export interface DiffHunk {
+	index: number;
+	/** The "@@ -a,b +c,d @@" line, which identifies the hunk to act on */
+	header: string;
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+}
+
+/** Inclusive range of new-file (modified side) line numbers */
+export interface HunkLineRange {
+	start: number;
+	end: number;
+}
+
+/** stage and discard act on unstaged hunks, unstage on staged ones */
+export type HunkAction = "stage" | "unstage" | "discard";
+
 /** Diff view mode toggle */
 export type DiffViewMode = "side-by-side" | "inline";
 
@@ -71,3 +123,110 @@ export interface FileContents {
 	modified: string; // Modified content (after changes)
 	language: string; // Detected language for syntax highlighting
 }
+
+/** A workspace's change to a file in a cross-workspace comparison */
+export interface WorkspaceFileChange {
+	workspaceId: string;
+	status: FileStatus;
+	additions: number;
+	deletions: number;
+}
+
+/** A file changed by at least one of the compared workspaces */
+export interface ComparedFile {
+	path: string;
+	changes: WorkspaceFileChange[];
+}
+
+export interface ComparedWorkspace {
+	workspaceId: string;
+	name: string;
+	branch: string;
+	worktreePath: string;
+}
+
+/** Changes of several workspaces that forked from the same base branch */
+export interface WorkspaceComparison {
+	baseBranch: string;
+	workspaces: ComparedWorkspace[];
+	files: ComparedFile[];
+}
+
+/** One file as it is on the base branch and in each compared workspace */
+export interface ComparedFileVersions {
+	base: string;
+	language: string;
+	versions: { workspaceId: string; content: string; exists: boolean }[];
+}
+
+/** A branch commit that can be rewritten from the Changes view */
+export interface HistoryCommit extends CommitInfo {
+	/** Already on the upstream branch, so rewriting it needs a force push */
+	isPushed: boolean;
+	/** Subject and body, for prefilling reword and squash messages */
+	fullMessage: string;
+}
+
+/** A rebase that stopped on conflicts or a failed step */
+export interface RebaseState {
+	conflictedFiles: string[];
+}
+
+/** Commits on a branch since it forked from its base branch */
+export interface BranchHistory {
+	baseBranch: string;
+	/** Merge-base with the base branch, null if there is none */
+	baseCommit: string | null;
+	/** Newest first */
+	commits: HistoryCommit[];
+	/** Merge commits can't be rewritten without flattening them */
+	hasMerges: boolean;
+	/** Set while a rebase is in progress */
+	rebase: RebaseState | null;
+}
+
+/**
+ * A history rewrite. Hashes refer to commits in BranchHistory.commits;
+ * reorder lists every commit hash, oldest first.
+ */
+export type HistoryOperation =
+	| { type: "squashAll"; message: string }
+	| { type: "reword"; hash: string; message: string }
+	| { type: "drop"; hash: string }
+	| { type: "fixup"; hash: string }
+	| { type: "reorder"; order: string[] };
+
+export type HistoryRewriteResult =
+	| { status: "done"; needsForcePush: boolean }
+	| { status: "stopped"; conflictedFiles: string[] };
+
+/** A comment in a pull request review thread */
+export interface PRReviewComment {
+	id: string;
+	author: string;
+	body: string;
+	createdAt: number;
+	url: string;
+}
+
+/** Review comments anchored to a line of the pull request diff */
+export interface PRReviewThread {
+	id: string;
+	path: string;
+	/** Line in the side's version of the file, null once the line is gone */
+	line: number | null;
+	/** RIGHT is the head branch, LEFT the base branch */
+	side: "LEFT" | "RIGHT";
+	isResolved: boolean;
+	/** The commented lines changed since the comment was made */
+	isOutdated: boolean;
+	comments: PRReviewComment[];
+}
+
+/** The current branch's pull request and its review threads */
+export interface PullRequestReview {
+	number: number;
+	title: string;
+	url: string;
+	threads: PRReviewThread[];
+}
@@ -13,6 +13,21 @@ export const PORTS = {
 	NOTIFICATIONS: env.NODE_ENV === "development" ? 31416 : 31415,
 	// Electric SQL proxy port (local-first sync)
 	ELECTRIC: env.NODE_ENV === "development" ? 31418 : 31417,
+	// Read-only terminal share viewer (only listening while a pane is shared)
+	TERMINAL_SHARE: env.NODE_ENV === "development" ? 31420 : 31419,
+	// Reverse proxy for <workspace>.localhost hostnames (only while enabled)
+	REVERSE_PROXY: env.NODE_ENV === "development" ? 31422 : 31421,
+};
+
+/**
+ * Port blocks reserved per workspace for dev servers. The range stays below
+ * the OS ephemeral ranges (32768+ on Linux, 49152+ on macOS) and the app's
+ * own ports above.
+ */
+export const WORKSPACE_PORTS = {
+	RANGE_START: 20000,
+	RANGE_END: 31000,
+	BLOCK_SIZE: 10,
 };
 
 // Note: For environment-aware paths, use main/lib/app-environment.ts instead.
@@ -43,8 +58,13 @@ export const CONFIG_TEMPLATE = `{
 export const NOTIFICATION_EVENTS = {
 	AGENT_LIFECYCLE: "agent-lifecycle",
 	FOCUS_TAB: "focus-tab",
+	TERMINAL_TRIGGER: "terminal-trigger",
 } as const;
 
 // Default user preference values
 export const DEFAULT_CONFIRM_ON_QUIT = true;
 export const DEFAULT_TERMINAL_LINK_BEHAVIOR = "external-editor" as const;
+export const DEFAULT_TERMINAL_RECORDING_ENABLED = false;
+export const DEFAULT_REVERSE_PROXY_ENABLED = false;
+// Minutes of silence before a running agent is assumed stopped; 0 is never
+export const DEFAULT_AGENT_IDLE_TIMEOUT_MINUTES = 15;
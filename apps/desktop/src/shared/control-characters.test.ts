@@ -0,0 +1,24 @@
+import { describe, expect, it } from "bun:test";
+import { stripControlCharacters } from "./control-characters";
+
+describe("stripControlCharacters", () => {
+	it("removes escape sequences whole", () => {
+		expect(stripControlCharacters("\x1b[31mred\x1b[0m")).toBe("red");
+		expect(stripControlCharacters("a\x1b]0;title\x07b")).toBe("ab");
+		expect(stripControlCharacters("end\x1b[201~rm -rf ~\r")).toBe(
+			"endrm -rf ~",
+		);
+	});
+
+	it("removes stray C0 and C1 controls", () => {
+		expect(stripControlCharacters("a\x1bb\x00c\x7fd\x9b201~e")).toBe(
+			"abcd201~e",
+		);
+	});
+
+	it("keeps tabs and newlines and normalizes CRLF", () => {
+		expect(stripControlCharacters("one\r\n\ttwo\nthree")).toBe(
+			"one\n\ttwo\nthree",
+		);
+	});
+});
@@ -0,0 +1,26 @@
+/**
+ * Sanitizes untrusted text (review comments, CI logs) before it is written to
+ * a terminal, where escape sequences would be interpreted: an embedded
+ * `ESC [201~` ends a bracketed paste early and the rest runs as typed input.
+ */
+
+/** CSI, OSC (BEL or ST terminated), charset designation and two-byte escapes */
+export const ESCAPE_SEQUENCE_PATTERN =
+	// biome-ignore lint/suspicious/noControlCharactersInRegex: matching terminal escapes
+	/\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()][0-9A-Za-z]|\x1b[@-Z\\-_]/g;
+
+// C0 controls except tab and newline, DEL, and C1 controls (including the
+// single-byte CSI, U+009B)
+// biome-ignore lint/suspicious/noControlCharactersInRegex: matching control characters
+const CONTROL_CHARACTER_PATTERN = /[\x00-\x08\x0b-\x1f\x7f-\x9f]/g;
+
+/**
+ * Removes escape sequences and every C0/C1 control character except tab and
+ * newline. CRLF line endings become LF.
+ */
+export function stripControlCharacters(text: string): string {
+	return text
+		.replace(/\r\n/g, "\n")
+		.replace(ESCAPE_SEQUENCE_PATTERN, "")
+		.replace(CONTROL_CHARACTER_PATTERN, "");
+}
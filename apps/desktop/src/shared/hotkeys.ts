@@ -463,6 +463,12 @@ export const HOTKEYS = {
 		category: "Terminal",
 		description: "Search text in the active terminal",
 	}),
+	SEARCH_ALL_TERMINALS: defineHotkey({
+		keys: "meta+shift+f",
+		label: "Search All Terminals",
+		category: "Terminal",
+		description: "Search the output of every terminal in the workspace",
+	}),
 	NEW_GROUP: defineHotkey({
 		keys: "meta+t",
 		label: "New Tab",
@@ -484,6 +490,19 @@ export const HOTKEYS = {
 		category: "Terminal",
 		description: "Scroll the active terminal to the bottom",
 	}),
+	PREV_COMMAND: defineHotkey({
+		keys: "meta+alt+up",
+		label: "Previous Command",
+		category: "Terminal",
+		description:
+			"Scroll to the previous command prompt (needs shell integration)",
+	}),
+	NEXT_COMMAND: defineHotkey({
+		keys: "meta+alt+down",
+		label: "Next Command",
+		category: "Terminal",
+		description: "Scroll to the next command prompt (needs shell integration)",
+	}),
 	PREV_TERMINAL: defineHotkey({
 		keys: "meta+left",
 		label: "Previous Terminal",
@@ -520,6 +539,12 @@ export const HOTKEYS = {
 		category: "Workspace",
 		description: "Quickly create a workspace in the current project",
 	}),
+	OPEN_ATTENTION_INBOX: defineHotkey({
+		keys: "meta+shift+i",
+		label: "Needs Attention Inbox",
+		category: "Workspace",
+		description: "Answer agent permission requests across all workspaces",
+	}),
 	OPEN_PROJECT: defineHotkey({
 		keys: "meta+shift+o",
 		label: "Open Project",
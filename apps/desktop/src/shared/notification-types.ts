@@ -3,6 +3,8 @@
  * Kept in shared/ to avoid cross-boundary imports.
  */
 
+import type { TerminalTriggerAction } from "@superset/local-db";
+
 export interface NotificationIds {
 	paneId?: string;
 	tabId?: string;
@@ -12,3 +14,61 @@ export interface NotificationIds {
 export interface AgentLifecycleEvent extends NotificationIds {
 	eventType: "Start" | "Stop" | "PermissionRequest";
 }
+
+/** A terminal trigger matched output in a pane */
+export interface TerminalTriggerEvent {
+	paneId: string;
+	workspaceId: string;
+	triggerName: string;
+	/** Matched output line, without escape sequences */
+	line: string;
+	/** The trigger's action with $0-$9 placeholders expanded */
+	action: TerminalTriggerAction;
+}
+
+/** Agent registry id ("claude", "codex", ... or a user-configured agent), or "unknown" */
+export type AgentKind = string;
+
+/**
+ * Canonical agent activity events. Finer-grained than AgentLifecycleEvent so the
+ * UI can show what an agent is doing, not just whether it is working.
+ */
+export type AgentActivityEventType =
+	| "Start"
+	| "PreToolUse"
+	| "PostToolUse"
+	| "Notification"
+	| "PermissionRequest"
+	| "SubagentStop"
+	| "Stop";
+
+export interface AgentTokenUsage {
+	inputTokens?: number;
+	outputTokens?: number;
+	cacheReadTokens?: number;
+	cacheWriteTokens?: number;
+}
+
+export interface AgentActivityEvent extends NotificationIds {
+	agent: AgentKind;
+	eventType: AgentActivityEventType;
+	/** ms since epoch, set by the server on receipt */
+	timestamp: number;
+	sessionId?: string;
+	transcriptPath?: string;
+	toolName?: string;
+	/** Short human-readable summary of the tool input (file path, command, ...) */
+	toolInputSummary?: string;
+	/** Notification text or last assistant message */
+	message?: string;
+	error?: string;
+	tokenUsage?: AgentTokenUsage;
+}
+
+export interface PaneAgentActivity {
+	paneId: string;
+	/** Most recent event for the pane */
+	current: AgentActivityEvent;
+	/** Recent events, oldest first */
+	recent: AgentActivityEvent[];
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "bun:test";
+import {
+	OSC_SEMANTIC_PROMPT,
+	OSC_SHELL_PROPERTIES,
+	parseShellIntegrationSequence,
+	unescapeOscValue,
+} from "./shell-integration";
+
+describe("unescapeOscValue", () => {
+	it("unescapes backslashes and hex escapes", () => {
+		expect(unescapeOscValue("a\\x3bb")).toBe("a;b");
+		expect(unescapeOscValue("C:\\\\Users")).toBe("C:\\Users");
+		expect(unescapeOscValue("one\\x0atwo")).toBe("one\ntwo");
+	});
+
+	it("leaves unknown escapes alone", () => {
+		expect(unescapeOscValue("\\n")).toBe("\\n");
+	});
+});
+
+describe("parseShellIntegrationSequence", () => {
+	it("parses prompt and command boundaries", () => {
+		expect(parseShellIntegrationSequence(OSC_SEMANTIC_PROMPT, "A")).toEqual({
+			type: "promptStart",
+		});
+		expect(parseShellIntegrationSequence(OSC_SEMANTIC_PROMPT, "C")).toEqual({
+			type: "commandExecuted",
+		});
+	});
+
+	it("parses exit codes, tolerating missing ones", () => {
+		expect(parseShellIntegrationSequence(OSC_SEMANTIC_PROMPT, "D;130")).toEqual(
+			{ type: "commandFinished", exitCode: 130 },
+		);
+		expect(parseShellIntegrationSequence(OSC_SEMANTIC_PROMPT, "D")).toEqual({
+			type: "commandFinished",
+			exitCode: null,
+		});
+	});
+
+	it("parses command lines and cwd", () => {
+		expect(
+			parseShellIntegrationSequence(
+				OSC_SHELL_PROPERTIES,
+				"E;git commit -m a\\x3bb;nonce",
+			),
+		).toEqual({ type: "commandLine", command: "git commit -m a;b" });
+		expect(
+			parseShellIntegrationSequence(OSC_SHELL_PROPERTIES, "P;Cwd=/repo/src"),
+		).toEqual({ type: "cwd", cwd: "/repo/src" });
+	});
+
+	it("ignores sequences it doesn't use", () => {
+		expect(
+			parseShellIntegrationSequence(OSC_SHELL_PROPERTIES, "P;IsWindows=False"),
+		).toBeNull();
+		expect(parseShellIntegrationSequence(7, "file:///tmp")).toBeNull();
+	});
+});
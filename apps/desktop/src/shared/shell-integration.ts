@@ -0,0 +1,83 @@
+/**
+ * Shell integration escape sequences, parsed by both the main process (for
+ * per-session command history) and the renderer (for gutter marks).
+ * Kept in shared/ to avoid cross-boundary imports.
+ *
+ * The shell wrappers in main/lib/agent-setup emit:
+ * - OSC 133 ; A          prompt start
+ * - OSC 133 ; B          prompt end (command input starts)
+ * - OSC 133 ; C          command output starts
+ * - OSC 133 ; D ; <code> command finished with exit code
+ * - OSC 633 ; E ; <cmd>  command line about to run
+ * - OSC 633 ; P ; Cwd=<path>
+ *
+ * Values in OSC 633 are escaped: backslash as \\, and ; or control
+ * characters as \xNN.
+ */
+
+/** FinalTerm semantic prompt sequences, as supported by most terminals */
+export const OSC_SEMANTIC_PROMPT = 133;
+
+/** VS Code's extension of OSC 133, carrying the command line and cwd */
+export const OSC_SHELL_PROPERTIES = 633;
+
+export type ShellIntegrationMark =
+	| { type: "promptStart" }
+	| { type: "commandStart" }
+	| { type: "commandExecuted" }
+	| { type: "commandFinished"; exitCode: number | null }
+	| { type: "commandLine"; command: string }
+	| { type: "cwd"; cwd: string };
+
+export function unescapeOscValue(value: string): string {
+	return value.replace(/\\(\\|x([0-9a-fA-F]{2}))/g, (_match, escaped, hex) =>
+		hex ? String.fromCharCode(Number.parseInt(hex, 16)) : escaped,
+	);
+}
+
+/**
+ * Parse the payload of an OSC 133 or 633 sequence (everything after
+ * "133;" or "633;"). Returns null for sequences we don't use.
+ */
+export function parseShellIntegrationSequence(
+	identifier: number,
+	data: string,
+): ShellIntegrationMark | null {
+	const separator = data.indexOf(";");
+	const command = separator === -1 ? data : data.slice(0, separator);
+	const args = separator === -1 ? "" : data.slice(separator + 1);
+
+	if (identifier === OSC_SEMANTIC_PROMPT) {
+		switch (command) {
+			case "A":
+				return { type: "promptStart" };
+			case "B":
+				return { type: "commandStart" };
+			case "C":
+				return { type: "commandExecuted" };
+			case "D": {
+				// Extra key=value options may follow the exit code
+				const exitCode = Number.parseInt(args.split(";")[0] ?? "", 10);
+				return {
+					type: "commandFinished",
+					exitCode: Number.isNaN(exitCode) ? null : exitCode,
+				};
+			}
+			default:
+				return null;
+		}
+	}
+
+	if (identifier === OSC_SHELL_PROPERTIES) {
+		if (command === "E") {
+			// A nonce may follow the (escaped, so ;-free) command line
+			const [commandLine = ""] = args.split(";");
+			return { type: "commandLine", command: unescapeOscValue(commandLine) };
+		}
+		if (command === "P" && args.startsWith("Cwd=")) {
+			return { type: "cwd", cwd: unescapeOscValue(args.slice(4)) };
+		}
+	}
+
+	return null;
+}
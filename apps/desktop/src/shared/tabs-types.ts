@@ -8,7 +8,13 @@ import type { ChangeCategory } from "./changes-types";
 /**
  * Pane types that can be displayed within a tab
  */
-export type PaneType = "terminal" | "webview" | "file-viewer";
+export type PaneType =
+	| "terminal"
+	| "webview"
+	| "file-viewer"
+	| "replay"
+	| "pull-request"
+	| "check-logs";
 
 /**
  * Pane status for agent lifecycle indicators
@@ -71,7 +77,7 @@ export function getHighestPriorityStatus(
 /**
  * File viewer display modes
  */
-export type FileViewerMode = "rendered" | "raw" | "diff";
+export type FileViewerMode = "rendered" | "raw" | "diff" | "conflict";
 
 /**
  * Diff layout options for file viewer
@@ -102,6 +108,44 @@ export interface FileViewerState {
 	initialColumn?: number;
 }
 
+/**
+ * Replay pane-specific properties (asciicast recording playback)
+ */
+export interface ReplayState {
+	/** Workspace the recording was captured in */
+	workspaceId: string;
+	/** Recording id as returned by terminal.listRecordings */
+	recordingId: string;
+}
+
+/**
+ * Pull request pane-specific properties (review threads of the branch's PR)
+ */
+export interface PullRequestState {
+	workspaceId: string;
+	/** Thread to scroll to (transient - applied once per change) */
+	threadId?: string;
+}
+
+/**
+ * Check logs pane-specific properties (failing CI checks of the workspace's PR)
+ */
+export interface CheckLogsState {
+	workspaceId: string;
+	/** Send new failures to the agent without asking */
+	autoSend?: boolean;
+	/** Failing check URLs last sent automatically, so a failure is sent once */
+	lastAutoSentFailure?: string;
+}
+
+/**
+ * Webview pane-specific properties (url lives on Pane.url)
+ */
+export interface WebviewState {
+	/** localhost port to load; "detected" waits for the workspace's first detected port */
+	port?: number | "detected";
+}
+
 /**
  * Base Pane interface - shared between main and renderer
  */
@@ -118,6 +162,10 @@ export interface Pane {
 	cwd?: string | null; // Current working directory
 	cwdConfirmed?: boolean; // True if cwd confirmed via OSC-7, false if seeded
 	fileViewer?: FileViewerState; // For file-viewer panes
+	replay?: ReplayState; // For replay panes
+	webview?: WebviewState; // For webview panes
+	pullRequest?: PullRequestState; // For pull-request panes
+	checkLogs?: CheckLogsState; // For check-logs panes
 }
 
 /**
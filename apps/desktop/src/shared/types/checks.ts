@@ -0,0 +1,11 @@
+/** Output of a failing CI check, for viewing or handing to an agent */
+export interface FailedCheckLog {
+	name: string;
+	url?: string;
+	/** GitHub Actions job id; null for checks reported by other CI services */
+	jobId: string | null;
+	/** Output of the job's failed steps; null when it couldn't be fetched */
+	log: string | null;
+	/** Lines around the first errors in the log */
+	excerpt: string | null;
+}
@@ -1,4 +1,12 @@
+import type { TerminalTrigger, WorkspaceTemplate } from "@superset/local-db";
+
 export interface SetupConfig {
 	setup?: string[];
 	teardown?: string[];
+	/** Layouts that can be opened when a workspace finishes initializing */
+	templates?: WorkspaceTemplate[];
+	/** Name of the template applied when none is picked explicitly */
+	defaultTemplate?: string;
+	/** Actions fired by matching terminal output in this project's workspaces */
+	triggers?: TerminalTrigger[];
 }
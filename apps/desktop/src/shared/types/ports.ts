@@ -20,6 +20,18 @@ export interface StaticPortsResult {
 	error: string | null;
 }
 
+/** A hostname the local reverse proxy forwards to a workspace's port */
+export interface ProxyRoute {
+	/** e.g. "my-feature.localhost" or "api.my-feature.localhost" */
+	hostname: string;
+	/** Address to open, including the proxy's port */
+	url: string;
+	workspaceId: string;
+	port: number;
+	/** Static port label for label subdomains; null for the workspace host */
+	label: string | null;
+}
+
 export interface MergedPort {
 	port: number;
 	workspaceId: string;
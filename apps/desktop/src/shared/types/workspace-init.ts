@@ -3,16 +3,15 @@
  * Used for streaming progress updates during workspace creation.
  */
 
-export type WorkspaceInitStep =
-	| "pending"
-	| "syncing" // Syncing with remote
-	| "verifying" // Verifying base branch exists
-	| "fetching" // Fetching latest changes
-	| "creating_worktree" // Creating git worktree
-	| "copying_config" // Copying .superset configuration
-	| "finalizing" // Final DB operations
-	| "ready"
-	| "failed";
+import type { WorkspaceInitStep } from "@superset/local-db";
+
+export type { WorkspaceInitStep };
+
+/**
+ * How an init interrupted by quitting the app was recovered on launch:
+ * resumed where it left off, or its partial worktree removed
+ */
+export type WorkspaceInitRecovery = "resumed" | "rolled_back";
 
 export interface WorkspaceInitProgress {
 	workspaceId: string;
@@ -20,6 +19,7 @@ export interface WorkspaceInitProgress {
 	step: WorkspaceInitStep;
 	message: string;
 	error?: string;
+	recovery?: WorkspaceInitRecovery;
 }
 
 export const INIT_STEP_MESSAGES: Record<WorkspaceInitStep, string> = {
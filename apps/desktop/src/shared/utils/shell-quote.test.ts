@@ -0,0 +1,13 @@
+import { describe, expect, it } from "bun:test";
+import { shellQuote } from "./shell-quote";
+
+describe("shellQuote", () => {
+	it("wraps values in single quotes", () => {
+		expect(shellQuote("$(id) `id` a b")).toBe("'$(id) `id` a b'");
+		expect(shellQuote("")).toBe("''");
+	});
+
+	it("escapes embedded single quotes", () => {
+		expect(shellQuote("it's")).toBe("'it'\\''s'");
+	});
+});
@@ -0,0 +1,9 @@
+/**
+ * Quotes a value as a single POSIX shell word: wrapped in single quotes, with
+ * embedded single quotes written as '\''.
+ *
+ * Example: it's -> 'it'\''s'
+ */
+export function shellQuote(value: string): string {
+	return `'${value.replaceAll("'", `'\\''`)}'`;
+}
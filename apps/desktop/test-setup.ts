@@ -20,6 +20,9 @@ process.env.GH_CLIENT_ID = "test-github-client-id";
 
 const testTmpDir = join(tmpdir(), "superset-test");
 
+// Keep files written by tests (terminal history, recordings) out of ~/.superset
+process.env.SUPERSET_HOME_DIR = join(testTmpDir, "home");
+
 // =============================================================================
 // Browser Global Mocks (required for renderer code that touches DOM)
 // =============================================================================
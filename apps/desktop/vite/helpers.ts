@@ -39,6 +39,20 @@ const RESOURCES_TO_COPY = [
 		src: resolve(__dirname, "../src/main/lib/agent-setup/templates"),
 		dest: resolve(__dirname, "..", devPath, "main/templates"),
 	},
+	// Shared terminal viewer page; xterm.js is copied into it afterwards
+	// (copyDir replaces the destination, so the page must come first)
+	{
+		src: resolve(__dirname, "../src/main/lib/terminal-share/viewer"),
+		dest: resolve(__dirname, "..", devPath, "main/share-viewer"),
+	},
+	{
+		src: resolve(__dirname, "../node_modules/@xterm/xterm/lib"),
+		dest: resolve(__dirname, "..", devPath, "main/share-viewer/xterm/lib"),
+	},
+	{
+		src: resolve(__dirname, "../node_modules/@xterm/xterm/css"),
+		dest: resolve(__dirname, "..", devPath, "main/share-viewer/xterm/css"),
+	},
 ];
 
 /**
@@ -0,0 +1 @@
+ALTER TABLE `settings` ADD `terminal_recording_enabled` integer;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `agent_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`workspace_id` text NOT NULL,
+	`pane_id` text NOT NULL,
+	`event_type` text NOT NULL,
+	`timestamp` integer NOT NULL,
+	`duration_ms` integer,
+	FOREIGN KEY (`workspace_id`) REFERENCES `workspaces`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `agent_events_workspace_id_timestamp_idx` ON `agent_events` (`workspace_id`,`timestamp`);--> statement-breakpoint
+CREATE INDEX `agent_events_pane_id_idx` ON `agent_events` (`pane_id`);
\ No newline at end of file
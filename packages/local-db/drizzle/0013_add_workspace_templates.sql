@@ -0,0 +1 @@
+ALTER TABLE `settings` ADD `workspace_templates` text;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `fan_out_groups` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`prompt` text NOT NULL,
+	`base_branch` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `fan_out_groups_project_id_idx` ON `fan_out_groups` (`project_id`);--> statement-breakpoint
+ALTER TABLE `workspaces` ADD `fan_out_group_id` text REFERENCES fan_out_groups(id) ON DELETE set null;--> statement-breakpoint
+ALTER TABLE `workspaces` ADD `fan_out_agent` text;--> statement-breakpoint
+CREATE INDEX `workspaces_fan_out_group_id_idx` ON `workspaces` (`fan_out_group_id`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `settings` ADD `terminal_triggers` text;
\ No newline at end of file
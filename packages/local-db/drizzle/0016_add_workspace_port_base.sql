@@ -0,0 +1,2 @@
+ALTER TABLE `workspaces` ADD `port_base` integer;--> statement-breakpoint
+CREATE UNIQUE INDEX `workspaces_port_base_unique` ON `workspaces` (`port_base`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `settings` ADD `reverse_proxy_enabled` integer;
\ No newline at end of file
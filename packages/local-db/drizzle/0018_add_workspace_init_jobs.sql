@@ -0,0 +1,11 @@
+CREATE TABLE `workspace_init_jobs` (
+	`workspace_id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`step` text NOT NULL,
+	`message` text NOT NULL,
+	`error` text,
+	`worktree_created` integer DEFAULT false NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`workspace_id`) REFERENCES `workspaces`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1 @@
+ALTER TABLE `workspaces` ADD `fan_out_agent_commands` text;
\ No newline at end of file
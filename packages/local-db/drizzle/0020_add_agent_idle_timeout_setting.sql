@@ -0,0 +1 @@
+ALTER TABLE `settings` ADD `agent_idle_timeout_minutes` integer;
\ No newline at end of file
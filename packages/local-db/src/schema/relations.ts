@@ -1,9 +1,10 @@
 import { relations } from "drizzle-orm";
-import { projects, workspaces, worktrees } from "./schema";
+import { fanOutGroups, projects, workspaces, worktrees } from "./schema";
 
 export const projectsRelations = relations(projects, ({ many }) => ({
 	worktrees: many(worktrees),
 	workspaces: many(workspaces),
+	fanOutGroups: many(fanOutGroups),
 }));
 
 export const worktreesRelations = relations(worktrees, ({ one, many }) => ({
@@ -23,4 +24,19 @@ export const workspacesRelations = relations(workspaces, ({ one }) => ({
 		fields: [workspaces.worktreeId],
 		references: [worktrees.id],
 	}),
+	fanOutGroup: one(fanOutGroups, {
+		fields: [workspaces.fanOutGroupId],
+		references: [fanOutGroups.id],
+	}),
 }));
+
+export const fanOutGroupsRelations = relations(
+	fanOutGroups,
+	({ one, many }) => ({
+		project: one(projects, {
+			fields: [fanOutGroups.projectId],
+			references: [projects.id],
+		}),
+		workspaces: many(workspaces),
+	}),
+);
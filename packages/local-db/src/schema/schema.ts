@@ -1,12 +1,22 @@
-import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import {
+	index,
+	integer,
+	sqliteTable,
+	text,
+	uniqueIndex,
+} from "drizzle-orm/sqlite-core";
 import { v4 as uuidv4 } from "uuid";
 
 import type {
+	AgentEventType,
 	ExternalApp,
 	GitHubStatus,
 	GitStatus,
 	TerminalLinkBehavior,
 	TerminalPreset,
+	TerminalTrigger,
+	WorkspaceInitStep,
+	WorkspaceTemplate,
 	WorkspaceType,
 } from "./zod";
 
@@ -106,11 +116,24 @@ export const workspaces = sqliteTable(
 		// Timestamp when deletion was initiated. Non-null means deletion in progress.
 		// Workspaces with deletingAt set should be filtered out from queries.
 		deletingAt: integer("deleting_at"),
+		// Set for workspaces created by a fan-out, along with the preset that ran in it
+		// and the commands that start it once setup finishes
+		fanOutGroupId: text("fan_out_group_id").references(() => fanOutGroups.id, {
+			onDelete: "set null",
+		}),
+		fanOutAgent: text("fan_out_agent"),
+		fanOutAgentCommands: text("fan_out_agent_commands", {
+			mode: "json",
+		}).$type<string[]>(),
+		// First port of the block reserved for this workspace's dev servers
+		portBase: integer("port_base"),
 	},
 	(table) => [
 		index("workspaces_project_id_idx").on(table.projectId),
+		uniqueIndex("workspaces_port_base_unique").on(table.portBase),
 		index("workspaces_worktree_id_idx").on(table.worktreeId),
 		index("workspaces_last_opened_at_idx").on(table.lastOpenedAt),
+		index("workspaces_fan_out_group_id_idx").on(table.fanOutGroupId),
 		// NOTE: Migration 0006 creates an additional partial unique index:
 		// CREATE UNIQUE INDEX workspaces_unique_branch_per_project
 		//   ON workspaces(project_id) WHERE type = 'branch'
@@ -123,6 +146,59 @@ export const workspaces = sqliteTable(
 export type InsertWorkspace = typeof workspaces.$inferInsert;
 export type SelectWorkspace = typeof workspaces.$inferSelect;
 
+/**
+ * Fan-out groups table - one prompt run across several workspaces, each with
+ * a different agent preset, so the results can be compared side by side
+ */
+export const fanOutGroups = sqliteTable(
+	"fan_out_groups",
+	{
+		id: text("id")
+			.primaryKey()
+			.$defaultFn(() => uuidv4()),
+		projectId: text("project_id")
+			.notNull()
+			.references(() => projects.id, { onDelete: "cascade" }),
+		prompt: text("prompt").notNull(),
+		baseBranch: text("base_branch").notNull(),
+		createdAt: integer("created_at")
+			.notNull()
+			.$defaultFn(() => Date.now()),
+	},
+	(table) => [index("fan_out_groups_project_id_idx").on(table.projectId)],
+);
+
+export type InsertFanOutGroup = typeof fanOutGroups.$inferInsert;
+export type SelectFanOutGroup = typeof fanOutGroups.$inferSelect;
+
+/**
+ * Workspace init jobs table - progress of worktree workspaces that are still
+ * being set up, so an init cut short by quitting the app can be resumed or
+ * rolled back on the next launch. Rows are removed once init succeeds.
+ */
+export const workspaceInitJobs = sqliteTable("workspace_init_jobs", {
+	workspaceId: text("workspace_id")
+		.primaryKey()
+		.references(() => workspaces.id, { onDelete: "cascade" }),
+	projectId: text("project_id")
+		.notNull()
+		.references(() => projects.id, { onDelete: "cascade" }),
+	// The step in progress; every step before it has completed
+	step: text("step").notNull().$type<WorkspaceInitStep>(),
+	message: text("message").notNull(),
+	error: text("error"),
+	// Set once `git worktree add` has succeeded
+	worktreeCreated: integer("worktree_created", { mode: "boolean" })
+		.notNull()
+		.default(false),
+	updatedAt: integer("updated_at")
+		.notNull()
+		.$defaultFn(() => Date.now()),
+});
+
+export type InsertWorkspaceInitJob = typeof workspaceInitJobs.$inferInsert;
+export type SelectWorkspaceInitJob = typeof workspaceInitJobs.$inferSelect;
+
 export const settings = sqliteTable("settings", {
 	id: integer("id").primaryKey().default(1),
 	lastActiveWorkspaceId: text("last_active_workspace_id"),
@@ -139,11 +215,55 @@ export const settings = sqliteTable("settings", {
 	terminalLinkBehavior: text(
 		"terminal_link_behavior",
 	).$type<TerminalLinkBehavior>(),
+	terminalRecordingEnabled: integer("terminal_recording_enabled", {
+		mode: "boolean",
+	}),
+	workspaceTemplates: text("workspace_templates", { mode: "json" }).$type<
+		WorkspaceTemplate[]
+	>(),
+	terminalTriggers: text("terminal_triggers", { mode: "json" }).$type<
+		TerminalTrigger[]
+	>(),
+	reverseProxyEnabled: integer("reverse_proxy_enabled", { mode: "boolean" }),
+	agentIdleTimeoutMinutes: integer("agent_idle_timeout_minutes"),
 });
 
 export type InsertSettings = typeof settings.$inferInsert;
 export type SelectSettings = typeof settings.$inferSelect;
 
+/**
+ * Agent events table - lifecycle history of agents running in terminal panes.
+ * Each row starts a segment (running, waiting for permission, idle) that lasts
+ * until the pane's next event; durationMs is filled in when that event arrives.
+ */
+export const agentEvents = sqliteTable(
+	"agent_events",
+	{
+		id: text("id")
+			.primaryKey()
+			.$defaultFn(() => uuidv4()),
+		workspaceId: text("workspace_id")
+			.notNull()
+			.references(() => workspaces.id, { onDelete: "cascade" }),
+		paneId: text("pane_id").notNull(),
+		eventType: text("event_type").notNull().$type<AgentEventType>(),
+		timestamp: integer("timestamp")
+			.notNull()
+			.$defaultFn(() => Date.now()),
+		durationMs: integer("duration_ms"),
+	},
+	(table) => [
+		index("agent_events_workspace_id_timestamp_idx").on(
+			table.workspaceId,
+			table.timestamp,
+		),
+		index("agent_events_pane_id_idx").on(table.paneId),
+	],
+);
+
+export type InsertAgentEvent = typeof agentEvents.$inferInsert;
+export type SelectAgentEvent = typeof agentEvents.$inferSelect;
+
 // =============================================================================
 // Synced tables - mirrored from cloud Postgres via Electric SQL
 // Column names match Postgres exactly (snake_case) so Electric data writes directly
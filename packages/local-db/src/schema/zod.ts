@@ -61,6 +61,137 @@ export const terminalPresetSchema = z.object({
 
 export type TerminalPreset = z.infer<typeof terminalPresetSchema>;
 
+/**
+ * Workspace template pane - a terminal running commands or a webview.
+ * Webviews either load a fixed url or a localhost port; "detected" waits for
+ * the first port opened by one of the workspace's terminals.
+ */
+export const workspaceTemplatePaneSchema = z.discriminatedUnion("type", [
+	z.object({
+		type: z.literal("terminal"),
+		name: z.string().optional(),
+		cwd: z.string().optional(),
+		commands: z.array(z.string()).optional(),
+	}),
+	z.object({
+		type: z.literal("webview"),
+		name: z.string().optional(),
+		url: z.string().optional(),
+		port: z
+			.union([z.number().int().min(1).max(65535), z.literal("detected")])
+			.optional(),
+	}),
+]);
+
+export type WorkspaceTemplatePane = z.infer<typeof workspaceTemplatePaneSchema>;
+
+/**
+ * Workspace template layout - a mosaic tree whose leaves are panes
+ */
+export type WorkspaceTemplateLayout =
+	| WorkspaceTemplatePane
+	| {
+			direction: "row" | "column";
+			first: WorkspaceTemplateLayout;
+			second: WorkspaceTemplateLayout;
+			splitPercentage?: number;
+	  };
+
+export const workspaceTemplateLayoutSchema: z.ZodType<WorkspaceTemplateLayout> =
+	z.lazy(() =>
+		z.union([
+			workspaceTemplatePaneSchema,
+			z.object({
+				direction: z.enum(["row", "column"]),
+				first: workspaceTemplateLayoutSchema,
+				second: workspaceTemplateLayoutSchema,
+				splitPercentage: z.number().min(0).max(100).optional(),
+			}),
+		]),
+	);
+
+/**
+ * Workspace template - tabs with pane layouts opened when a workspace is created
+ */
+export const workspaceTemplateSchema = z.object({
+	name: z.string().min(1),
+	description: z.string().optional(),
+	isDefault: z.boolean().optional(),
+	tabs: z
+		.array(
+			z.object({
+				name: z.string().optional(),
+				layout: workspaceTemplateLayoutSchema,
+			}),
+		)
+		.min(1),
+});
+
+export type WorkspaceTemplate = z.infer<typeof workspaceTemplateSchema>;
+
+/**
+ * Terminal trigger action. Text fields may reference the match with $0
+ * (whole match) and $1-$9 (capture groups).
+ */
+export const terminalTriggerActionSchema = z.discriminatedUnion("type", [
+	z.object({
+		type: z.literal("notify"),
+		title: z.string().optional(),
+		body: z.string().optional(),
+	}),
+	z.object({
+		type: z.literal("setStatus"),
+		status: z.enum(["idle", "working", "permission", "review"]),
+	}),
+	z.object({
+		type: z.literal("runCommand"),
+		command: z.string().min(1),
+		/**
+		 * Name of the terminal pane in the same tab to run in (defaults to the
+		 * trigger's name); a pane is added if there is none
+		 */
+		pane: z.string().optional(),
+	}),
+	z.object({
+		type: z.literal("openUrl"),
+		/** Defaults to the matched text */
+		url: z.string().optional(),
+	}),
+	z.object({
+		type: z.literal("playRingtone"),
+		/** Defaults to the selected notification ringtone */
+		ringtoneId: z.string().optional(),
+	}),
+]);
+
+export type TerminalTriggerAction = z.infer<typeof terminalTriggerActionSchema>;
+
+/**
+ * Terminal trigger - a regex matched against terminal output line by line
+ * that fires an action
+ */
+export const terminalTriggerSchema = z.object({
+	name: z.string().min(1),
+	pattern: z
+		.string()
+		.min(1)
+		.refine((pattern) => {
+			try {
+				new RegExp(pattern);
+				return true;
+			} catch {
+				return false;
+			}
+		}, "Invalid regular expression"),
+	caseSensitive: z.boolean().optional(),
+	enabled: z.boolean().optional(),
+	/** Minimum time between firings in the same pane */
+	cooldownMs: z.number().int().min(0).optional(),
+	action: terminalTriggerActionSchema,
+});
+
+export type TerminalTrigger = z.infer<typeof terminalTriggerSchema>;
+
 /**
  * Workspace type
  */
@@ -107,3 +238,32 @@ export const TERMINAL_LINK_BEHAVIORS = [
 ] as const;
 
 export type TerminalLinkBehavior = (typeof TERMINAL_LINK_BEHAVIORS)[number];
+
+/**
+ * Agent lifecycle events recorded in the activity timeline
+ */
+export const AGENT_EVENT_TYPES = [
+	"Start",
+	"PermissionRequest",
+	"Stop",
+] as const;
+
+export type AgentEventType = (typeof AGENT_EVENT_TYPES)[number];
+
+/**
+ * Steps of workspace initialization, in the order they run. "ready" and
+ * "failed" are terminal.
+ */
+export const WORKSPACE_INIT_STEPS = [
+	"pending",
+	"syncing", // Syncing with remote
+	"verifying", // Verifying base branch exists
+	"fetching", // Fetching latest changes
+	"creating_worktree", // Creating git worktree
+	"copying_config", // Copying .superset configuration
+	"finalizing", // Final DB operations
+	"ready",
+	"failed",
+] as const;
+
+export type WorkspaceInitStep = (typeof WORKSPACE_INIT_STEPS)[number];